@@ -137,7 +137,10 @@ const SortFilterButton: React.FC<SortFilterButtonProps> = ({
             parsedValue = currentValue === 'true';
         }
 
-        const newFilters = [...filters, { field: currentField, value: parsedValue }];
+        // select 型は選択肢との完全一致で判定する（例: レアリティ "R" が "SR" に一致しないように）
+        const newFilters = [...filters, fieldDef.type === 'select'
+            ? { field: currentField, value: parsedValue, isExactMatch: true }
+            : { field: currentField, value: parsedValue }];
         setFilters(newFilters);
         setExternalFilters(newFilters); // 親の状態も更新
 
@@ -3,7 +3,7 @@
 *
 * アプリケーションのグローバルナビゲーションバーコンポーネント。
 * * 責務:
-* 1. 固定されたナビゲーションメニュー（パック管理、開封、プール、デッキ構築）を提供する。
+* 1. 固定されたナビゲーションメニュー（パック管理、開封、開封履歴、プール、デッキ構築）を提供する。
 * 2. アプリケーションのグローバル設定項目（モード切替、データI/O）へのエントリーポイント（IconButton/Menu）を提供する。
 * 3. 実行中のゲームモードとユーザーの所持コイン（Props経由）を表示する。
 * 4. 複雑なロジック（モード切替）はカスタムフックに、UI（ダイアログ）は外部コンポーネントに委譲し、純粋なUIレイアウトとイベントハンドリングに集中する。
@@ -90,8 +90,12 @@ const Navbar: React.FC<NavbarProps> = ({ coins }) => {
                 <Box sx={{ display: { xs: 'none', md: 'flex' } }}>
                     <Button color="inherit" component={Link} to="/packs">パック管理</Button>
                     <Button color="inherit" component={Link} to="/open">パック開封</Button>
+                    <Button color="inherit" component={Link} to="/open/history">開封履歴</Button>
+                    <Button color="inherit" component={Link} to="/open/draft">ドラフト</Button>
+                    <Button color="inherit" component={Link} to="/open/sealed">シールド</Button>
                     <Button color="inherit" component={Link} to="/pool">カードプール</Button>
                     <Button color="inherit" component={Link} to="/decks">デッキ構築</Button>
+                    <Button color="inherit" component={Link} to="/formats">禁止・制限</Button>
                     <Button color="inherit" component={Link} to="/archive">アーカイブ</Button>
 
                     {/* 設定ボタン (データI/Oとモード切替ボタンを含むプルダウン) */}
@@ -151,8 +155,12 @@ const Navbar: React.FC<NavbarProps> = ({ coins }) => {
                         <MenuItem onClick={handleMenuClose} component={Link} to="/">HOME</MenuItem>
                         <MenuItem onClick={handleMenuClose} component={Link} to="/packs">パック管理</MenuItem>
                         <MenuItem onClick={handleMenuClose} component={Link} to="/open">パック開封</MenuItem>
+                        <MenuItem onClick={handleMenuClose} component={Link} to="/open/history">開封履歴</MenuItem>
+                        <MenuItem onClick={handleMenuClose} component={Link} to="/open/draft">ドラフト</MenuItem>
+                        <MenuItem onClick={handleMenuClose} component={Link} to="/open/sealed">シールド</MenuItem>
                         <MenuItem onClick={handleMenuClose} component={Link} to="/pool">カードプール</MenuItem>
                         <MenuItem onClick={handleMenuClose} component={Link} to="/decks">デッキ構築</MenuItem>
+                        <MenuItem onClick={handleMenuClose} component={Link} to="/formats">禁止・制限</MenuItem>
                         <MenuItem onClick={handleMenuClose} component={Link} to="/archive">アーカイブ</MenuItem>
 
                         <Divider />
@@ -10,21 +10,58 @@
  * 3. Classic / Advanced モードの切り替えUIと、Advancedモード有効時の警告ダイアログを提供する。
  * 4. Advancedモードにおける「確定枚数合計」「特殊確率枠数」「基本抽選枠」のサマリーと関連するバリデーション警告を、フックの計算結果に基づいて表示する。
  * 5. フックから提供されるハンドラをボタンや入力欄に接続し、保存時 (`onSave`) にフックの最終結果を親コンポーネントに通知する。
+ * 6. 天井（ピティ）ルール（対象レアリティと天井回数）の編集UIを提供する。
+ * 7. パック内の重複制御ポリシー（許可/禁止/指定レアリティより上位のみ禁止）の編集UIを提供する。
+ * 8. スロット構成（枠ごとの重み付きレアリティテーブルとカード絞り込み条件）の有効化・並べ替え・編集UIを提供する。
+ * 9. レアリティの表示設定（表示順位・略称・色・開封演出）の編集UIを提供する。
  */
 
 import React, { useCallback, useMemo, useState } from 'react';
 import {
     Dialog, DialogTitle, DialogContent, DialogActions,
     Button, TextField, Box, Typography, IconButton, Grid,
-    Divider, Alert, Switch, FormControlLabel, DialogContentText
+    Divider, Alert, Switch, FormControlLabel, DialogContentText,
+    Select, MenuItem, FormControl, InputLabel
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import AddIcon from '@mui/icons-material/Add';
-import type { Pack, AdvancedRarityConfig, RarityConfig } from '../../models/models';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import type {
+    Pack, AdvancedRarityConfig, RarityConfig, PityRule, DuplicatePolicy, DuplicatePolicyMode,
+    PackSlot, SlotCardFilterField, RarityDefinition, RarityRevealTier
+} from '../../models/models';
+import { DUPLICATE_POLICY_MODE_OPTIONS, SLOT_CARD_FILTER_FIELD_OPTIONS, RARITY_REVEAL_TIER_OPTIONS } from '../../models/models';
 import { useRarityEditor } from '../../features/packs/hooks/useRarityEditor';
 import { MODAL_WIDTH, MODAL_HEIGHT } from '../../configs/configs';
 
 
+// 重複制御モードの表示ラベル
+const DUPLICATE_POLICY_MODE_LABELS: Record<DuplicatePolicyMode, string> = {
+    allow: '許可 (重複あり)',
+    forbid: '禁止 (全レアリティで重複なし)',
+    forbidAboveRarity: '指定レアリティより上位のみ禁止',
+};
+
+// スロットの絞り込みフィールドの表示ラベル (str_X はパックのカードフィールド設定の表示名を優先する)
+const SLOT_CARD_FILTER_FIELD_LABELS: Record<SlotCardFilterField, string> = {
+    name: 'カード名',
+    tag: 'タグ (完全一致)',
+    text: 'テキスト',
+    subtext: 'サブテキスト',
+    str_1: 'str_1', str_2: 'str_2', str_3: 'str_3', str_4: 'str_4', str_5: 'str_5', str_6: 'str_6',
+};
+
+// 開封演出の段階の表示ラベル
+const RARITY_REVEAL_TIER_LABELS: Record<RarityRevealTier, string> = {
+    none: 'なし',
+    glow: '発光',
+    holo: 'ホログラム',
+};
+
+// 絞り込みなしを表す Select の値 (空文字)
+const NO_SLOT_FILTER = '';
+
 // --- RarityProbabilityInput: 確率入力用のカスタムコンポーネント ---
 interface RarityProbabilityInputProps {
     value: number; // 内部で扱う 0.0〜1.0 の値
@@ -155,6 +192,15 @@ const RarityEditorModal: React.FC<RarityEditorModalProps> = ({ open, onClose, pa
     }, [packToEditor]);
 
 
+    // 参照が毎回変わると編集中の状態がリセットされるため、メモ化して渡す
+    const initialPityRules = useMemo<PityRule[]>(() => packToEditor.pityRules ?? [], [packToEditor]);
+    const initialDuplicatePolicy = useMemo<DuplicatePolicy>(
+        () => packToEditor.duplicatePolicy ?? { mode: 'allow' },
+        [packToEditor]
+    );
+    const initialSlotLayout = useMemo<PackSlot[]>(() => packToEditor.slotLayout ?? [], [packToEditor]);
+    const initialRarityDefinitions = useMemo<RarityDefinition[]>(() => packToEditor.rarityDefinitions ?? [], [packToEditor]);
+
     // カスタムフックからすべての状態とハンドラを取得
     const {
         editingRarities,
@@ -173,15 +219,54 @@ const RarityEditorModal: React.FC<RarityEditorModalProps> = ({ open, onClose, pa
         handleAddRarity,
         handleRemoveRarity,
         handleRarityChange,
+        pityRules,
+        handleAddPityRule,
+        handlePityRuleChange,
+        handleRemovePityRule,
+        duplicatePolicy,
+        handleDuplicatePolicyModeChange,
+        handleDuplicatePolicyRarityChange,
+        slotLayout,
+        isSlotLayoutEnabled,
+        slotCountMismatch,
+        hasEmptySlot,
+        handleSlotLayoutToggle,
+        handleConvertToSlotLayout,
+        handleAddSlot,
+        handleRemoveSlot,
+        handleMoveSlot,
+        handleSlotLabelChange,
+        handleAddSlotRarityWeight,
+        handleSlotRarityWeightChange,
+        handleRemoveSlotRarityWeight,
+        handleSlotCardFilterChange,
+        configuredRarityNames,
+        resolvedRarityDefinitions,
+        handleRarityDefinitionChange,
+        handleResetRarityDefinitions,
         getFinalRarityConfig,
         getFinalPackDetails,
     } = useRarityEditor(
         initialRarities,
         packToEditor.isAdvancedRulesEnabled,
         packToEditor.specialProbabilitySlots ?? 0,
-        packToEditor.cardsPerPack ?? 5
+        packToEditor.cardsPerPack ?? 5,
+        initialPityRules,
+        initialDuplicatePolicy,
+        initialSlotLayout,
+        packToEditor.isSlotLayoutEnabled ?? false,
+        initialRarityDefinitions
     );
 
+    // 絞り込みフィールドの表示名 (カスタムフィールドはカードフィールド設定の表示名を使用)
+    const getSlotFilterFieldLabel = useCallback((field: SlotCardFilterField): string => {
+        if (field.startsWith('str_')) {
+            const displayName = packToEditor.cardFieldSettings?.[field as keyof Pack['cardFieldSettings']]?.displayName;
+            if (displayName) return `${displayName} (${field})`;
+        }
+        return SLOT_CARD_FILTER_FIELD_LABELS[field];
+    }, [packToEditor]);
+
 
     // アドバンスドモード切り替え処理
     const handleToggleAdvanced = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -235,7 +320,8 @@ const RarityEditorModal: React.FC<RarityEditorModalProps> = ({ open, onClose, pa
 
     // 保存ボタンの無効化条件に特殊確率、基本抽選枠のバリデーションを追加
     const disableSave = editingRarities.length === 0 || probabilityMismatch ||
-        (isAdvancedEnabled && (specialProbabilityMismatch || baseDrawSlotsNegative));
+        (isAdvancedEnabled && (specialProbabilityMismatch || baseDrawSlotsNegative)) ||
+        (isSlotLayoutEnabled && (slotCountMismatch || hasEmptySlot));
 
     // Grid のサイズを動的に変更
     // レアリティ名: 3, 基本確率: 3, 特殊確率: 3, 確定枚数: 2, 削除: 1 (合計12)
@@ -478,6 +564,303 @@ const RarityEditorModal: React.FC<RarityEditorModalProps> = ({ open, onClose, pa
                         </Alert>
                     )}
 
+                    <Divider sx={{ my: 2 }} />
+
+                    {/* スロット構成 */}
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <Typography variant="h6">スロット構成</Typography>
+                        <FormControlLabel
+                            control={
+                                <Switch
+                                    checked={isSlotLayoutEnabled}
+                                    onChange={(e) => handleSlotLayoutToggle(e.target.checked)}
+                                    color="primary"
+                                />
+                            }
+                            label={isSlotLayoutEnabled ? "ON" : "OFF"}
+                            labelPlacement="start"
+                        />
+                    </Box>
+                    <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                        パックの枠ごとに、重み付きのレアリティ抽選テーブルとカードの絞り込み条件を設定します。有効な場合は上記の確率より優先され、上から順に1枠ずつ抽選します。初めて有効にしたときは、現在の封入設定が同じ確率のスロット構成に自動変換されます。
+                    </Typography>
+                    {isSlotLayoutEnabled && (
+                        <>
+                            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                                <Typography variant="subtitle1" color={slotCountMismatch ? 'error' : 'textPrimary'}>
+                                    スロット数: <Box component="span" fontWeight="bold">{slotLayout.length}</Box> / {packToEditor.cardsPerPack}
+                                </Typography>
+                                <Button size="small" variant="outlined" onClick={handleConvertToSlotLayout}>
+                                    現在の封入設定から再変換
+                                </Button>
+                            </Box>
+                            {slotLayout.map((slot, slotIndex) => {
+                                const totalWeight = slot.rarityWeights.reduce((sum, w) => sum + (w.weight > 0 ? w.weight : 0), 0);
+                                return (
+                                    <Box key={slotIndex} sx={{ mb: 2, p: 2, border: '1px solid #ddd', borderRadius: 1 }}>
+                                        {/* 枠のラベルと並べ替え・削除 */}
+                                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                                            <Typography variant="subtitle2" sx={{ minWidth: 32 }}>#{slotIndex + 1}</Typography>
+                                            <TextField
+                                                label="枠のラベル"
+                                                value={slot.label}
+                                                onChange={(e) => handleSlotLabelChange(slotIndex, e.target.value)}
+                                                size="small"
+                                                sx={{ flexGrow: 1 }}
+                                            />
+                                            <IconButton size="small" onClick={() => handleMoveSlot(slotIndex, -1)} disabled={slotIndex === 0}>
+                                                <ArrowUpwardIcon fontSize="small" />
+                                            </IconButton>
+                                            <IconButton size="small" onClick={() => handleMoveSlot(slotIndex, 1)} disabled={slotIndex === slotLayout.length - 1}>
+                                                <ArrowDownwardIcon fontSize="small" />
+                                            </IconButton>
+                                            <IconButton size="small" color="error" onClick={() => handleRemoveSlot(slotIndex)}>
+                                                <DeleteIcon fontSize="small" />
+                                            </IconButton>
+                                        </Box>
+
+                                        {/* 重み付きレアリティテーブル */}
+                                        {slot.rarityWeights.map((weight, weightIndex) => (
+                                            <Grid container spacing={2} key={weightIndex} alignItems="center" sx={{ mb: 1 }}>
+                                                <Grid size={5}>
+                                                    <FormControl fullWidth size="small">
+                                                        <InputLabel>レアリティ</InputLabel>
+                                                        <Select
+                                                            value={weight.rarityName}
+                                                            label="レアリティ"
+                                                            onChange={(e) => handleSlotRarityWeightChange(slotIndex, weightIndex, 'rarityName', e.target.value)}
+                                                        >
+                                                            {configuredRarityNames.map(name => (
+                                                                <MenuItem key={name} value={name}>{name}</MenuItem>
+                                                            ))}
+                                                        </Select>
+                                                    </FormControl>
+                                                </Grid>
+                                                <Grid size={4}>
+                                                    <TextField
+                                                        label="重み"
+                                                        type="number"
+                                                        inputProps={{ step: "any", min: "0" }}
+                                                        value={weight.weight}
+                                                        onChange={(e) => handleSlotRarityWeightChange(slotIndex, weightIndex, 'weight', e.target.value)}
+                                                        fullWidth
+                                                        size="small"
+                                                    />
+                                                </Grid>
+                                                <Grid size={2}>
+                                                    <Typography variant="body2" align="right">
+                                                        {totalWeight > 0 && weight.weight > 0 ? `${(weight.weight / totalWeight * 100).toFixed(2)}%` : '—'}
+                                                    </Typography>
+                                                </Grid>
+                                                <Grid size={1}>
+                                                    <IconButton size="small" color="error" onClick={() => handleRemoveSlotRarityWeight(slotIndex, weightIndex)}>
+                                                        <DeleteIcon fontSize="small" />
+                                                    </IconButton>
+                                                </Grid>
+                                            </Grid>
+                                        ))}
+                                        <Button size="small" startIcon={<AddIcon />} onClick={() => handleAddSlotRarityWeight(slotIndex)} sx={{ mb: 2 }}>
+                                            レアリティを追加
+                                        </Button>
+
+                                        {/* カード絞り込み条件 */}
+                                        <Grid container spacing={2} alignItems="center">
+                                            <Grid size={5}>
+                                                <FormControl fullWidth size="small">
+                                                    <InputLabel>絞り込み</InputLabel>
+                                                    <Select
+                                                        value={slot.cardFilter?.field ?? NO_SLOT_FILTER}
+                                                        label="絞り込み"
+                                                        onChange={(e) => handleSlotCardFilterChange(
+                                                            slotIndex,
+                                                            e.target.value ? e.target.value as SlotCardFilterField : null,
+                                                            slot.cardFilter?.value ?? ''
+                                                        )}
+                                                    >
+                                                        <MenuItem value={NO_SLOT_FILTER}>なし</MenuItem>
+                                                        {SLOT_CARD_FILTER_FIELD_OPTIONS.map(field => (
+                                                            <MenuItem key={field} value={field}>{getSlotFilterFieldLabel(field)}</MenuItem>
+                                                        ))}
+                                                    </Select>
+                                                </FormControl>
+                                            </Grid>
+                                            <Grid size={7}>
+                                                <TextField
+                                                    label="条件の値"
+                                                    value={slot.cardFilter?.value ?? ''}
+                                                    onChange={(e) => slot.cardFilter && handleSlotCardFilterChange(slotIndex, slot.cardFilter.field, e.target.value)}
+                                                    disabled={!slot.cardFilter}
+                                                    fullWidth
+                                                    size="small"
+                                                />
+                                            </Grid>
+                                        </Grid>
+                                    </Box>
+                                );
+                            })}
+                            <Button startIcon={<AddIcon />} onClick={handleAddSlot} variant="outlined" fullWidth>
+                                スロットを追加
+                            </Button>
+                            {slotCountMismatch && (
+                                <Alert severity="error" sx={{ mt: 1 }}>
+                                    **エラー:** スロット数 ({slotLayout.length}) がパックの封入枚数 ({packToEditor.cardsPerPack}) と一致していません。
+                                </Alert>
+                            )}
+                            {hasEmptySlot && (
+                                <Alert severity="error" sx={{ mt: 1 }}>
+                                    **エラー:** 重みが設定されたレアリティのないスロットがあります。
+                                </Alert>
+                            )}
+                        </>
+                    )}
+
+                    <Divider sx={{ my: 2 }} />
+
+                    {/* 天井 (ピティ) 設定 */}
+                    <Typography variant="h6">天井 (ピティ) 設定</Typography>
+                    <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                        指定レアリティが設定回数連続で出なかった場合、次の開封で1枠がそのレアリティに昇格します。(DTCGモードのみ)
+                    </Typography>
+                    {pityRules.map((rule, index) => (
+                        <Grid container spacing={2} key={index} alignItems="center" sx={{ mb: 2 }}>
+                            <Grid size={6}>
+                                <FormControl fullWidth size="small">
+                                    <InputLabel>対象レアリティ</InputLabel>
+                                    <Select
+                                        value={rule.rarityName}
+                                        label="対象レアリティ"
+                                        onChange={(e) => handlePityRuleChange(index, 'rarityName', e.target.value)}
+                                    >
+                                        {configuredRarityNames.map(name => (
+                                            <MenuItem key={name} value={name}>{name}</MenuItem>
+                                        ))}
+                                    </Select>
+                                </FormControl>
+                            </Grid>
+                            <Grid size={5}>
+                                <TextField
+                                    label="天井回数 (開封)"
+                                    type="number"
+                                    inputProps={{ step: "1", min: "1" }}
+                                    value={rule.threshold}
+                                    onChange={(e) => handlePityRuleChange(index, 'threshold', e.target.value)}
+                                    fullWidth
+                                    size="small"
+                                />
+                            </Grid>
+                            <Grid size={1}>
+                                <IconButton onClick={() => handleRemovePityRule(index)} color="error">
+                                    <DeleteIcon />
+                                </IconButton>
+                            </Grid>
+                        </Grid>
+                    ))}
+                    <Button startIcon={<AddIcon />} onClick={handleAddPityRule} variant="outlined" fullWidth>
+                        天井ルールを追加
+                    </Button>
+
+                    <Divider sx={{ my: 2 }} />
+
+                    {/* 重複制御 */}
+                    <Typography variant="h6">重複制御</Typography>
+                    <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                        1パック内で同じカードが重複して封入されるかを設定します。禁止されたレアリティは非復元抽選となり、収録カードが不足する場合は警告が表示されます。レアリティの上下は上記の並び順 (上が下位) で判定します。
+                    </Typography>
+                    <Grid container spacing={2} alignItems="center">
+                        <Grid size={duplicatePolicy.mode === 'forbidAboveRarity' ? 6 : 12}>
+                            <FormControl fullWidth size="small">
+                                <InputLabel>重複</InputLabel>
+                                <Select
+                                    value={duplicatePolicy.mode}
+                                    label="重複"
+                                    onChange={(e) => handleDuplicatePolicyModeChange(e.target.value as DuplicatePolicyMode)}
+                                >
+                                    {DUPLICATE_POLICY_MODE_OPTIONS.map(mode => (
+                                        <MenuItem key={mode} value={mode}>{DUPLICATE_POLICY_MODE_LABELS[mode]}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                        </Grid>
+                        {duplicatePolicy.mode === 'forbidAboveRarity' && (
+                            <Grid size={6}>
+                                <FormControl fullWidth size="small">
+                                    <InputLabel>基準レアリティ</InputLabel>
+                                    <Select
+                                        value={duplicatePolicy.rarityName ?? ''}
+                                        label="基準レアリティ"
+                                        onChange={(e) => handleDuplicatePolicyRarityChange(e.target.value)}
+                                    >
+                                        {configuredRarityNames.map(name => (
+                                            <MenuItem key={name} value={name}>{name}</MenuItem>
+                                        ))}
+                                    </Select>
+                                </FormControl>
+                            </Grid>
+                        )}
+                    </Grid>
+
+                    <Divider sx={{ my: 2 }} />
+
+                    {/* 表示設定 */}
+                    <Typography variant="h6">表示設定</Typography>
+                    <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+                        レアリティの並び替え・絞り込み・バッジ・開封演出に使用します。順位は大きいほど上位です。未変更のレアリティは上記の並び順から自動で設定されます。
+                    </Typography>
+                    {resolvedRarityDefinitions.map(def => (
+                        <Grid container spacing={2} key={def.rarityName} alignItems="center" sx={{ mb: 2 }}>
+                            <Grid size={3}>
+                                <Typography variant="body2" noWrap title={def.rarityName}>{def.rarityName}</Typography>
+                            </Grid>
+                            <Grid size={2}>
+                                <TextField
+                                    label="順位"
+                                    type="number"
+                                    inputProps={{ step: "1" }}
+                                    value={def.rank}
+                                    onChange={(e) => handleRarityDefinitionChange(def.rarityName, 'rank', e.target.value)}
+                                    fullWidth
+                                    size="small"
+                                />
+                            </Grid>
+                            <Grid size={2}>
+                                <TextField
+                                    label="略称"
+                                    value={def.abbreviation}
+                                    onChange={(e) => handleRarityDefinitionChange(def.rarityName, 'abbreviation', e.target.value)}
+                                    fullWidth
+                                    size="small"
+                                />
+                            </Grid>
+                            <Grid size={2}>
+                                <TextField
+                                    label="色"
+                                    type="color"
+                                    value={def.color}
+                                    onChange={(e) => handleRarityDefinitionChange(def.rarityName, 'color', e.target.value)}
+                                    fullWidth
+                                    size="small"
+                                />
+                            </Grid>
+                            <Grid size={3}>
+                                <FormControl fullWidth size="small">
+                                    <InputLabel>開封演出</InputLabel>
+                                    <Select
+                                        value={def.revealTier}
+                                        label="開封演出"
+                                        onChange={(e) => handleRarityDefinitionChange(def.rarityName, 'revealTier', e.target.value)}
+                                    >
+                                        {RARITY_REVEAL_TIER_OPTIONS.map(tier => (
+                                            <MenuItem key={tier} value={tier}>{RARITY_REVEAL_TIER_LABELS[tier]}</MenuItem>
+                                        ))}
+                                    </Select>
+                                </FormControl>
+                            </Grid>
+                        </Grid>
+                    ))}
+                    <Button onClick={handleResetRarityDefinitions} variant="outlined" fullWidth>
+                        表示設定を既定に戻す
+                    </Button>
+
                 </DialogContent>
                 <DialogActions>
                     <Button onClick={onClose} variant="outlined">キャンセル</Button>
@@ -19,7 +19,7 @@ const COMMON_DEFAULT_COLUMNS = {
 };
 
 // カードのアスペクト比 (一般的なTCGカードの縦横比)
-const CARD_ASPECT_RATIO = 63 / 88;
+export const CARD_ASPECT_RATIO = 63 / 88;
 
 // CardPoolの設定値
 // カードプール画面（カード）
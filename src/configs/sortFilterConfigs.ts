@@ -103,7 +103,7 @@ export const DECK_SORT_OPTIONS: SortOption[] = [
 export const CARD_SORT_OPTIONS: SortOption[] = [
     { label: 'No. (デフォルト)', value: 'number' },
     { label: 'カード名', value: 'name' },
-    { label: 'レアリティ', value: 'rarity' },
+    { label: 'レアリティ', value: 'rarityRank' },
     { label: 'ID', value: 'cardId' },
 ];
 
@@ -114,7 +114,7 @@ export const CARD_POOL_SORT_OPTIONS: SortOption[] = [
     { label: '図鑑/パック順', value: 'number' },
     { label: '名前', value: 'name' },
     { label: 'パック名', value: 'packName' },
-    { label: 'レアリティ', value: 'rarity' },
+    { label: 'レアリティ', value: 'rarityRank' },
 ];
 
 /**
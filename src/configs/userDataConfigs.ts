@@ -5,12 +5,13 @@
  * 主にデータベースにユーザーデータが存在しない場合や、特定の項目が欠落している場合に使用されるフォールバック値を提供します。
  *
  * * 責務:
- * 1. ユーザーの設定項目 (`GridDisplayDefault`, `GCSetting`, `PersistedUserSettings`) ごとのアプリケーションデフォルト値を静的データとして保持する。
+ * 1. ユーザーの設定項目 (`GridDisplayDefault`, `GCSetting`, `PackOpenerSettings`, `PersistedUserSettings`) ごとのアプリケーションデフォルト値を静的データとして保持する。
  * 2. 全てのユーザー設定を統合した最終的なデフォルトオブジェクト (`DEFAULT_USER_DATA_CONFIGS`) を提供する。
  */
 import type {
     GridDisplayDefault,
     GCSetting,
+    PackOpenerSettings,
     PersistedUserSettings
 } from '../models/userData';
 
@@ -40,6 +41,12 @@ export const DEFAULT_GC_CONFIGS: GCSetting = {
     },
 };
 
+/** パック開封画面の設定のアプリケーションデフォルト値 (ヒット演出は表示順位 2 以上) */
+export const DEFAULT_PACK_OPENER_SETTINGS: PackOpenerSettings = {
+    revealMode: 'flipAll',
+    hitRarityRank: 2,
+};
+
 
 // ----------------------------------------
 // 統合されたデフォルト設定
@@ -57,5 +64,7 @@ export const DEFAULT_USER_DATA_CONFIGS: PersistedUserSettings = {
 
     gridSettings: {
         cardPool: DEFAULT_GRID_DISPLAY_DEFAULT,
-    }
+    },
+
+    packOpenerSettings: DEFAULT_PACK_OPENER_SETTINGS,
 };
\ No newline at end of file
@@ -2,6 +2,7 @@
  * src/features/card-pool/CardPool.tsx
  *
  * * カードコレクションの表示と管理を行うメインコンポーネント（ビュー）。
+ * 規制区分バッジに使用するフォーマットと判定日の選択（FormatSelector）を表示する。
  */
 
 import React, { useMemo, useCallback, useState, useEffect } from 'react';
@@ -22,6 +23,7 @@ import { useCardPoolDisplay, CARDS_PER_PAGE } from './hooks/useCardPoolDisplay';
 
 // 💡 修正点: CardPoolControls と CardPoolDisplay を CardPoolList に置き換え
 import CardPoolList from './components/CardPoolList'; 
+import FormatSelector from '../formats/components/FormatSelector';
 
 
 // 仮のUser Dataフック (本来はDB/Contextから取得)
@@ -155,6 +157,9 @@ const CardPool: React.FC = () => {
         <Box sx={{ p: PAGE_PADDING, flexGrow: PAGE_FLEX_GROW }}>
             <Typography variant={PAGE_TITLE_VARIANT} gutterBottom>カードプール</Typography>
             <Box sx={{ flexGrow: 1, p: 2 }}>
+                <Box sx={{ mb: 2 }}>
+                    <FormatSelector />
+                </Box>
                 
                 {/* 💡 修正点: CardPoolControls と CardPoolDisplay を CardPoolList 一つに置き換え */}
                 <CardPoolList
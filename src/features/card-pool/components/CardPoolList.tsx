@@ -30,6 +30,8 @@ import {
     CARD_POOL_SORT_OPTIONS_WITH_COUNT,
     CARD_FILTER_FIELDS
 } from '../../../configs/configs';
+import { useRarityRegistry } from '../../../hooks/useRarityRegistry';
+import { withRarityFilterOptions } from '../../../services/packs/rarityRegistry';
 
 // =========================================================================
 // 統合後の Props の型定義 (CardPoolControls + CardPoolDisplay)
@@ -100,6 +102,10 @@ const CardPoolList: React.FC<CardPoolListProps> = (props) => {
             : CARD_POOL_SORT_OPTIONS;
     }, [isDTCGEnabled, viewMode]);
 
+    // レアリティの絞り込みはレジストリの選択肢から選ぶ
+    const rarityRegistry = useRarityRegistry();
+    const filterFields = useMemo(() => withRarityFilterOptions(CARD_FILTER_FIELDS, rarityRegistry), [rarityRegistry]);
+
 
     const controlBarProps: ControlBarProps = useMemo(() => {
         
@@ -114,7 +120,7 @@ const CardPoolList: React.FC<CardPoolListProps> = (props) => {
             setSearchTerm: setSearchTerm,
             filters: filters,
             setFilters: setFilters,
-            filterFields: CARD_FILTER_FIELDS,
+            filterFields: filterFields,
         };
 
         const gridToggleProps = {
@@ -148,7 +154,7 @@ const CardPoolList: React.FC<CardPoolListProps> = (props) => {
         };
     }, [
         totalCount, sortOptions, sortField, sortOrder, setSortField, toggleSortOrder,
-        searchTerm, setSearchTerm, filters, setFilters,
+        searchTerm, setSearchTerm, filters, setFilters, filterFields,
         // ⭐ [修正] UseGridDisplayReturn のプロパティを依存配列に追加
         columns, setColumns, minColumns, maxColumns, viewMode, handleViewModeChange,
     ]);
@@ -165,6 +171,8 @@ const CardPoolList: React.FC<CardPoolListProps> = (props) => {
         quantityControl: false,
         keycardRank: false,
         grayscaleWhenZero: true,
+        rarityBadge: true,
+        formatStatusBadge: true,
         enableHoverEffect: true,
     }), []);
 
@@ -8,6 +8,8 @@
  * 3. フィルタリング、ソート、ページネーションの状態管理およびロジック（useSortFilter）を提供する。
  * 4. リスト表示とコレクション表示のView設定を管理し、動的に切り替えるインターフェースを提供する。
  * 5. カードプール全体のリセット機能を提供する。
+ * 6. 所持枚数の代わりに別の枚数（イベントプールなど）を指定された場合、その枚数とカードだけを表示対象にする。
+ * 7. レアリティのレジストリから、各カードのレアリティの表示順位（rarityRank）を付与する。
  */
 
 import { useState, useMemo, useCallback, useEffect } from 'react';
@@ -18,6 +20,7 @@ import { useCardStore } from '../../../stores/cardStore';
 import { usePackStore } from '../../../stores/packStore';
 
 import { useSortFilter } from '../../../hooks/useSortFilter';
+import { useRarityRegistry } from '../../../hooks/useRarityRegistry';
 import type { SortField, Card as CardType, Pack } from '../../../models/models';
 
 import { cardPoolFieldAccessor } from '../cardPoolUtils';
@@ -33,6 +36,8 @@ export interface OwnedCardDisplay extends CardType {
     description: string;
     packNumber: number | null;
     packName: string;
+    /** レアリティの表示順位（大きいほど上位。レジストリ未登録は -1） */
+    rarityRank: number;
 }
 
 export interface ViewSettings {
@@ -43,12 +48,22 @@ export interface ViewSettings {
 }
 
 
+export interface UseCardPoolDisplayOptions {
+    /**
+     * 所持カード（CardPoolStore）の代わりに表示する枚数。指定した場合はコレクション表示でも
+     * ここに含まれるカードだけを表示する（イベントプールのデッキ構築用）。
+     */
+    ownedCardsOverride?: Map<string, number> | null;
+}
+
+
 // --- カスタムフック ---
 
-export const useCardPoolDisplay = () => {
+export const useCardPoolDisplay = (options: UseCardPoolDisplayOptions = {}) => {
+    const ownedCardsOverride = options.ownedCardsOverride ?? null;
 
     // ストアからのデータ取得 (中略: 変更なし)
-    const { ownedCards, isLoading, deleteCardPool } = useCardPoolStore(
+    const { ownedCards: storeOwnedCards, isLoading, deleteCardPool } = useCardPoolStore(
         useShallow((state: CardPoolState) => ({
             ownedCards: state.ownedCards,
             isLoading: state.isLoading,
@@ -56,6 +71,8 @@ export const useCardPoolDisplay = () => {
         }))
     );
 
+    const ownedCards = ownedCardsOverride ?? storeOwnedCards;
+
     const isDTCGEnabled = useUserDataStore(useShallow(state => state.isDTCGEnabled));
     const allCards = useCardStore(useShallow(state => state.cards || []));
     const packs = usePackStore(state => state.packs);
@@ -88,6 +105,8 @@ export const useCardPoolDisplay = () => {
         }
     }, [viewMode]);
 
+    const rarityRegistry = useRarityRegistry();
+
     // パック情報のマップを生成 (中略: 変更なし)
     const packMap = useMemo(() => {
         return new Map<string, Pick<Pack, 'name' | 'number'>>(
@@ -127,6 +146,7 @@ export const useCardPoolDisplay = () => {
                 description: (card as any).description || '',
                 packNumber: packInfo.number || null,
                 packName: packInfo.name,
+                rarityRank: rarityRegistry.getRank(card.rarity, card.packId),
             };
         };
 
@@ -140,13 +160,14 @@ export const useCardPoolDisplay = () => {
             });
         } else {
             allCards.forEach(card => {
+                if (ownedCardsOverride && !ownedCardsOverride.has(card.cardId)) return;
                 const count = ownedCards.get(card.cardId) || 0;
                 const displayCard = processCard(card, count);
                 if (displayCard) ownedList.push(displayCard);
             });
         }
         return ownedList;
-    }, [ownedCards, allCards, isDTCGEnabled, viewMode, packMap]);
+    }, [ownedCards, ownedCardsOverride, allCards, isDTCGEnabled, viewMode, packMap, rarityRegistry]);
 
 
     // 汎用ソートフックの適用（FilterCondition[]を使用） (中略: 変更なし)
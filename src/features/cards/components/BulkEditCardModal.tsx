@@ -26,6 +26,7 @@ import {
 } from '@mui/material';
 import type { Card } from '../../../models/models';
 import CardInfoForm from './CardInfoForm';
+import { parseCardDrawWeight } from '../../../utils/dataUtils';
 import FavoriteToggleButton from '../../../components/common/FavoriteToggleButton';
 
 interface BulkEditCardModalProps {
@@ -52,7 +53,9 @@ const BulkEditCardModal: React.FC<BulkEditCardModalProps> = ({
     const handleFieldChange = (field: string, value: any) => {
         setEditData(prev => ({
             ...prev,
-            [field]: field === 'number' ? (value === '' ? null : Number(value)) : value
+            [field]: field === 'number' ? (value === '' ? null : Number(value))
+                : field === 'drawWeight' ? parseCardDrawWeight(value)
+                : value
         }));
     };
 
@@ -80,6 +83,7 @@ const BulkEditCardModal: React.FC<BulkEditCardModalProps> = ({
                     name: 'カード名',
                     number: 'カード番号',
                     rarity: 'レアリティ',
+                    drawWeight: '排出ウェイト',
                     imageUrl: '画像URL',
                     imageColor: '画像カラー',
                     text: 'カードテキスト',
@@ -4,7 +4,7 @@
  * カードの基本情報、テキスト、カスタムフィールド、タグを入力するためのフォームコンポーネント。
  * CardModalとBulkEditCardModalで再利用される。
  *  * 責務:
- * 1. カードの基本情報（名前、番号、レアリティ、画像URL等）の入力フィールドを提供
+ * 1. カードの基本情報（名前、番号、レアリティ、排出ウェイト、画像URL等）の入力フィールドを提供
  * 2. カード詳細情報（text, subtext）の入力フィールドを提供
  * 3. カスタムフィールドとタグの管理UIを提供
  * 4. 一括編集モード時はカスタムフィールド設定ボタンを非表示
@@ -171,6 +171,22 @@ const CardInfoForm: React.FC<CardInfoFormProps> = ({
                                 </Select>
                             </FormControl>
                         </Grid>
+
+                        <Grid size={{ xs: 6 }}>
+                            <TextField
+                                fullWidth
+                                label="排出ウェイト"
+                                type="number"
+                                value={card.drawWeight ?? ''}
+                                onChange={(e) => onFieldChange('drawWeight', e.target.value)}
+                                size="small"
+                                placeholder="1"
+                                helperText="同レアリティ内の相対的な出やすさ (空欄は1)"
+                                inputProps={{ min: 0, step: 0.1 }}
+                                disabled={isReadOnly}
+                                InputProps={{ readOnly: isReadOnly }}
+                            />
+                        </Grid>
                     </Grid>
 
 
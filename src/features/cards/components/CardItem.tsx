@@ -2,6 +2,8 @@
  * src/features/cards/components/CardItem.tsx (InteractiveItemContainer ラッパー版)
  *
  * 責務: CardItemDisplayBlock（InteractiveItemContainer）を利用し、カード特有のオーバーレイUIを children として注入する。
+ * レアリティのバッジは、レアリティのレジストリ（useRarityRegistry）の略称・色で表示する。
+ * 規制区分のバッジは、選択中のフォーマット（useFormatCardStatusMap）における禁止・制限を表示する。
  */
 import React from 'react';
 import { Chip, Box, Typography, type SxProps, type Theme } from '@mui/material';
@@ -17,6 +19,9 @@ import ImagePreview from '../../../components/common/ImagePreview';
 import InteractiveItemContainer, { 
     type InteractiveContainerProps 
 } from '../../../components/common/InteractiveItemContainer';
+import { useRarityRegistry } from '../../../hooks/useRarityRegistry';
+import { useFormatCardStatusMap } from '../../../hooks/useFormatCardStatus';
+import { FORMAT_CARD_STATUS_LABELS } from '../../../services/decks/formatLegality';
 
 // =========================================================================
 // カード固有のオプション (models/itemDisplay.ts からインポート済み)
@@ -106,11 +111,16 @@ const CardItem: React.FC<CardItemProps> = (props) => {
         quantityControl = false,
         keycardRank = false,
         grayscaleWhenZero = false,
+        rarityBadge = false,
+        formatStatusBadge = false,
         onAddQuantity,
         onRemoveQuantity,
         
         ...relayProps // onSelect, AdditionalContent, noTextContent, children など
     } = props;
+
+    const rarityRegistry = useRarityRegistry();
+    const formatStatusMap = useFormatCardStatusMap();
     
     // ⭐ 修正: card を直接使用するため、型チェックがシンプルになる
     if (!card || !card.cardId) {
@@ -126,6 +136,8 @@ const CardItem: React.FC<CardItemProps> = (props) => {
     const ownedCount = card.ownedCount;
     const isOwned = count > 0; 
     const isOverLimit = ownedCount !== undefined && count > ownedCount;
+    const rarityDefinition = rarityBadge && card.rarity ? rarityRegistry.getDefinition(card.rarity, card.packId) : null;
+    const formatStatus = formatStatusBadge ? formatStatusMap.get(card.cardId) : undefined;
 
     // InteractiveItemContainerに渡す onSelect ハンドラ 
     const handleSelectOrToggle = (_itemId: string) => { 
@@ -195,6 +207,35 @@ const CardItem: React.FC<CardItemProps> = (props) => {
                         <KeycardRankDisplay rank={card.keycardRank} />
                     )}
 
+                    {/* レアリティバッジ */}
+                    {rarityDefinition && (
+                        <Chip
+                            label={rarityDefinition.abbreviation}
+                            size="small"
+                            title={rarityDefinition.rarityName}
+                            sx={{
+                                position: 'absolute', top: 4, left: 4,
+                                height: 20, maxWidth: 'calc(100% - 8px)',
+                                bgcolor: rarityDefinition.color,
+                                color: 'white', fontWeight: 'bold', zIndex: 2,
+                                textShadow: '0 0 2px rgba(0, 0, 0, 0.6)',
+                            }}
+                        />
+                    )}
+
+                    {/* 規制区分バッジ */}
+                    {formatStatus && (
+                        <Chip
+                            label={FORMAT_CARD_STATUS_LABELS[formatStatus]}
+                            size="small"
+                            color={formatStatus === 'banned' ? 'error' : 'warning'}
+                            sx={{
+                                position: 'absolute', top: 4, right: 4,
+                                height: 20, fontWeight: 'bold', zIndex: 2,
+                            }}
+                        />
+                    )}
+
                     {/* 枚数チップ */}
                     {quantityChip && isOwned && (
                         <Chip
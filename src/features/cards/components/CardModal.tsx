@@ -25,7 +25,7 @@ import { useCardStore } from '../../../stores/cardStore';
 
 // 共通画像ユーティリティをインポート
 
-import { createDefaultCard } from '../../../utils/dataUtils';
+import { createDefaultCard, parseCardDrawWeight } from '../../../utils/dataUtils';
 
 import { truncateString } from '../../../utils/stringUtils';
 
@@ -183,6 +183,11 @@ const CardModal: React.FC<CardModalProps> = ({
             value = isNaN(numValue as number) ? null : numValue;
         }
 
+        // 排出ウェイトは0以上の数値のみ許可 (空欄・不正値は未設定)
+        if (field === 'drawWeight') {
+            value = parseCardDrawWeight(rawValue);
+        }
+
         // imageColor の変更時は、文字列としてそのまま値を設定
         if (field === 'imageColor') {
             value = rawValue; // string
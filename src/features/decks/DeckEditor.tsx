@@ -9,16 +9,32 @@
  * ⭐ 修正: DeckCardList/DeckCompactCardList への Props を、ゾーン切り替えトグルに関する最新の変更に合わせて更新。
  *
  * ✅ 修正: CardPoolControls と CardPoolDisplay を CardPoolList に統合
+ * 🟢 追加: イベントプールに紐づくデッキでは、カードプール一覧と所持枚数をプールの内容に限定し、その旨を表示
+ * 🟢 追加: 閲覧/編集モードでは、カードリストの下にデッキ統計（DeckStatisticsPanel）とドロー確率（DrawProbabilityPanel）を表示
+ * 🟢 追加: 閲覧/編集モードから、現在のメインデッキで一人回し（GoldfishSimulatorModal）を開く
+ * 🟢 追加: 保存済みのデッキでは、履歴との比較（DeckHistoryDiffModal）を開き、選択した変更を編集中のデッキに復元する
+ * 🟢 追加: 閲覧/編集モードから、デッキをテキスト形式のデッキリストで出力（DeckTextExportModal）する
+ * 🟢 追加: 閲覧/編集モードから、デッキリストを PNG 画像で出力（DecklistImageExportModal）する
  */
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
-    Box, Paper, /*Divider,*/ Grid, Typography
+    Box, Paper, /*Divider,*/ Grid, Typography, Alert, Button
 } from '@mui/material';
+import CasinoIcon from '@mui/icons-material/Casino';
+import HistoryIcon from '@mui/icons-material/History';
+import TextSnippetIcon from '@mui/icons-material/TextSnippet';
+import ImageIcon from '@mui/icons-material/Image';
 
 // 分割コンポーネントのインポート
 import DeckEditorToolbar from './components/DeckEditorToolbar';
 import DeckInfoForm from './components/DeckInfoForm';
 import DeckCardList from './components/DeckCardList';
+import DeckStatisticsPanel from './components/DeckStatisticsPanel';
+import DrawProbabilityPanel from './components/DrawProbabilityPanel';
+import GoldfishSimulatorModal from './components/GoldfishSimulatorModal';
+import DeckHistoryDiffModal from './components/DeckHistoryDiffModal';
+import DeckTextExportModal from './components/DeckTextExportModal';
+import DecklistImageExportModal from './components/DecklistImageExportModal';
 
 // 💡 修正点: CardPoolDisplay, CardPoolControls ではなく CardPoolList をインポート
 import CardPoolList from '../../features/card-pool/components/CardPoolList'; 
@@ -111,6 +127,17 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
     onDeckCustomFieldChange,
     customFieldSettings,
     onCustomFieldSettingChange, // useDeckEditorからの生のハンドラ
+
+    // イベントプールに紐づくデッキの情報
+    eventPool,
+    isEventPoolMissing,
+
+    // 構築ルールと判定結果
+    deckRules,
+    legality,
+
+    // 履歴との比較からの復元
+    handleApplyDeckChanges,
 }) => {
     // ⭐ 修正: 以前の 'deck' 参照の互換性のため、currentDeck を deck にエイリアス
     // Page側で null チェックされているため、ここでは Deck 型としてアサート（または仮定）する
@@ -134,6 +161,15 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
         return deck;
     }, [isEditorMode, storeDecks, deck]);
 
+    // 一人回しモーダルの開閉
+    const [isGoldfishOpen, setIsGoldfishOpen] = useState(false);
+    // 履歴との比較モーダルの開閉
+    const [isHistoryDiffOpen, setIsHistoryDiffOpen] = useState(false);
+    // テキスト出力モーダルの開閉
+    const [isTextExportOpen, setIsTextExportOpen] = useState(false);
+    // 画像出力モーダルの開閉
+    const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+
     // ⭐ 【追加】isFavoriteの状態をdisplayDeckから取得
     const isFavorite = displayDeck.isFavorite || false;
 
@@ -171,7 +207,7 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
         setSearchTerm,
         filters,
         setFilters,
-    } = useCardPoolDisplay();
+    } = useCardPoolDisplay({ ownedCardsOverride: eventPool ? ownedCards : null });
 
     // 💡 グリッド表示に必要なロジックを全て取得 (変更なし)
     const { cardPoolGridSettings, isDTCGEnabled } = useUserData();
@@ -277,6 +313,17 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
             </Box>
             <Box sx={{ flexGrow: 1, p: 2 }}>
 
+                {/* イベントプールに紐づくデッキの案内 */}
+                {eventPool && (
+                    <Alert severity="info" sx={{ mb: 2 }}>
+                        イベントプール「{eventPool.name}」のデッキです。使用できるカードと枚数はプールの内容に限定されます。
+                    </Alert>
+                )}
+                {isEventPoolMissing && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                        このデッキのイベントプールは削除されています。所持カードを基準に表示しています。
+                    </Alert>
+                )}
 
 
                 {/* 2.1. 上部: DeckInfoForm (PackEditorのPackInfoFormに相当) */}
@@ -299,6 +346,7 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
                             onSaveKeyCards={handleSaveKeyCards}
                             allCards={allCards}
                             ownedCards={ownedCards}
+                            deckRules={deckRules}
                         />
                     </Paper>
                 )}
@@ -319,6 +367,7 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
                                 onAreaChange={handleAreaChange}
                                 onCardClick={handleOpenCardViewModal}
                                 isEditorMode={false} // 構築モードは閲覧のみ（増減コントロールなし）
+                                legality={legality}
                             />
                         </Grid>
 
@@ -359,7 +408,8 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
                     </Grid>
 
                 ) : (
-                    // 💡 閲覧/編集モード: 統合DeckCardList
+                    // 💡 閲覧/編集モード: 統合DeckCardList + デッキ統計 + ドロー確率 + 一人回し + 履歴との比較 + テキスト/画像出力
+                    <>
                     <Paper elevation={3} sx={{ p: 4 }}>
                         <DeckCardList
                             deck={deck}
@@ -372,8 +422,61 @@ const DeckEditor: React.FC<DeckEditorProps> = ({
                             // TODO: 統合CardItemのquantity機能実装時に接続
                             onCardAdd={(cardId) => handleCardAdd(cardId, selectedDeckArea)}
                             onCardRemove={(cardId) => handleCardRemove(cardId, selectedDeckArea)}
+                            legality={legality}
                         />
                     </Paper>
+                    <DeckStatisticsPanel
+                        deck={deck}
+                        allCards={allCards}
+                        ownedCards={ownedCards}
+                        isEventPool={!!eventPool}
+                    />
+                    <DrawProbabilityPanel deck={deck} allCards={allCards} />
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+                        <Button variant="outlined" startIcon={<TextSnippetIcon />} onClick={() => setIsTextExportOpen(true)}>
+                            テキストで出力
+                        </Button>
+                        <Button variant="outlined" startIcon={<ImageIcon />} onClick={() => setIsImageExportOpen(true)}>
+                            画像で出力
+                        </Button>
+                        {!isNewDeck && (
+                            <Button variant="outlined" startIcon={<HistoryIcon />} onClick={() => setIsHistoryDiffOpen(true)}>
+                                履歴と比較
+                            </Button>
+                        )}
+                        <Button variant="outlined" startIcon={<CasinoIcon />} onClick={() => setIsGoldfishOpen(true)}>
+                            一人回し
+                        </Button>
+                    </Box>
+                    <GoldfishSimulatorModal
+                        open={isGoldfishOpen}
+                        deck={deck}
+                        allCards={allCards}
+                        onClose={() => setIsGoldfishOpen(false)}
+                    />
+                    <DeckTextExportModal
+                        open={isTextExportOpen}
+                        decks={[deck]}
+                        allCards={allCards}
+                        onClose={() => setIsTextExportOpen(false)}
+                    />
+                    <DecklistImageExportModal
+                        open={isImageExportOpen}
+                        deck={deck}
+                        allCards={allCards}
+                        onClose={() => setIsImageExportOpen(false)}
+                    />
+                    {!isNewDeck && (
+                        <DeckHistoryDiffModal
+                            open={isHistoryDiffOpen}
+                            deck={deck}
+                            allCards={allCards}
+                            deckRules={deckRules}
+                            onApplyChanges={handleApplyDeckChanges}
+                            onClose={() => setIsHistoryDiffOpen(false)}
+                        />
+                    )}
+                    </>
                 )}
             </Box>
         </Box>
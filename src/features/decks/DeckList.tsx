@@ -8,6 +8,8 @@
  * 3. 取得したデータと設定に基づき、汎用グリッドコンポーネント（GridDisplay）にUI描画とイベント処理を委譲する。
  * 4. 新規デッキ作成ボタンを提供し、デフォルトデッキを作成した上で編集画面へ遷移させる。
  * 5. ソート・フィルタリングコントロールUI、列数トグル、ステータス表示（ロード中/デッキなし/フィルタリング結果なし）を提供する。
+ * 6. テキスト形式のデッキリストからのデッキ作成（DeckTextImportModal）と、デッキのテキスト出力（DeckTextExportModal）を提供する。
+ *    テキスト出力は、選択モードでデッキを選択している場合はそのデッキを、それ以外は表示中のデッキを対象とする。
  */
 import React, { useCallback, useState } from 'react';
 import { useDeckList } from './hooks/useDeckList';
@@ -16,6 +18,9 @@ import {
     Box, Button, Alert, Typography
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
+import PostAddIcon from '@mui/icons-material/PostAdd';
+import TextSnippetIcon from '@mui/icons-material/TextSnippet';
+import { useShallow } from 'zustand/react/shallow';
 
 import { useGridDisplay } from '../../hooks/useGridDisplay';
 import GridDisplay from '../../components/common/GridDisplay';
@@ -28,6 +33,9 @@ const DECK_EDIT_PATH_PREFIX = '/decks';
 
 import BulkEditDeckModal from './components/BulkEditDeckModal';
 import BulkActionConfirmDialog from '../../components/common/BulkActionConfirmDialog';
+import DeckTextImportModal from './components/DeckTextImportModal';
+import DeckTextExportModal from './components/DeckTextExportModal';
+import { useCardStore } from '../../stores/cardStore';
 
 import type { Deck } from '../../models/models';
 
@@ -67,6 +75,10 @@ const DeckList: React.FC = () => {
     const [isSelectionMode, setIsSelectionMode] = useState(false);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
     const [showBulkEditModal, setShowBulkEditModal] = useState(false);
+    const [showTextImportModal, setShowTextImportModal] = useState(false);
+    const [showTextExportModal, setShowTextExportModal] = useState(false);
+
+    const allCards = useCardStore(useShallow(state => state.cards));
 
 
     // 2. グリッド表示フックの適用 (変更なし)
@@ -123,6 +135,18 @@ const DeckList: React.FC = () => {
         setIsSelectionMode(false);
     };
 
+    // テキストから作成したデッキの編集画面へ遷移
+    const handleTextImported = (deck: Deck) => {
+        setShowTextImportModal(false);
+        handleSelectDeck(deck.deckId);
+    };
+
+    // テキスト出力の対象 (選択中のデッキ、または表示中のデッキ)
+    const isExportingSelection = isSelectionMode && selectedDeckIds.length > 0;
+    const decksToExport = isExportingSelection
+        ? displayedDecks.filter(deck => selectedDeckIds.includes(deck.deckId))
+        : displayedDecks;
+
     const handleToggleSelectionMode = () => {
         if (isSelectionMode) {
             clearSelection();
@@ -185,12 +209,22 @@ const DeckList: React.FC = () => {
             <Box sx={{ p: PAGE_PADDING, flexGrow: PAGE_FLEX_GROW }}>
                 <Typography variant={PAGE_TITLE_VARIANT} gutterBottom>デッキ管理</Typography>
                 <Alert severity="info" action={
-                    <Button color="inherit" size="small" startIcon={<AddIcon />} onClick={handleCreateNewDeck}>
-                        新規作成
-                    </Button>
+                    <>
+                        <Button color="inherit" size="small" startIcon={<PostAddIcon />} onClick={() => setShowTextImportModal(true)}>
+                            テキストから作成
+                        </Button>
+                        <Button color="inherit" size="small" startIcon={<AddIcon />} onClick={handleCreateNewDeck}>
+                            新規作成
+                        </Button>
+                    </>
                 }>
                     まだデッキが作成されていません。
                 </Alert>
+                <DeckTextImportModal
+                    open={showTextImportModal}
+                    onClose={() => setShowTextImportModal(false)}
+                    onCreated={handleTextImported}
+                />
             </Box>
         );
     }
@@ -221,6 +255,18 @@ const DeckList: React.FC = () => {
                             onClick: handleCreateNewDeck,
                             color: 'primary',
                         },
+                        {
+                            icon: <PostAddIcon />,
+                            tooltip: 'テキストからデッキを作成',
+                            onClick: () => setShowTextImportModal(true),
+                            color: 'primary',
+                        },
+                        {
+                            icon: <TextSnippetIcon />,
+                            tooltip: isExportingSelection ? '選択したデッキをテキストで出力' : '表示中のデッキをテキストで出力',
+                            onClick: () => setShowTextExportModal(true),
+                            color: 'primary',
+                        },
                     ]}
                 />
 
@@ -256,6 +302,19 @@ const DeckList: React.FC = () => {
                     onSave={handleBulkEditSave}
                 />
 
+                {/* テキストからのデッキ作成・テキスト出力 */}
+                <DeckTextImportModal
+                    open={showTextImportModal}
+                    onClose={() => setShowTextImportModal(false)}
+                    onCreated={handleTextImported}
+                />
+                <DeckTextExportModal
+                    open={showTextExportModal}
+                    decks={decksToExport}
+                    allCards={allCards}
+                    onClose={() => setShowTextExportModal(false)}
+                />
+
                 {/* 削除確認ダイアログ */}
                 <BulkActionConfirmDialog
                     open={showDeleteDialog}
@@ -4,17 +4,22 @@
  * デッキ詳細画面・デッキ構築画面のカードリスト表示コンポーネント。
  * 統合CardListを使用して、デッキエリア切り替え、枚数表示、増減コントロールを提供します。
  * 責務: ControlBarを含めたリスト全体のロジックとUIを管理する。
+ * 構築ルールの判定結果（legality）が渡された場合は、選択中のエリアとデッキ全体に関する違反を表示する。
+ * カードには、選択中のフォーマット（FormatSelector で選択）における規制区分のバッジを表示する。
  */
 
 import React, { useMemo, useCallback } from 'react';
 import { Paper, Box, Alert } from '@mui/material';
-import type { Card as CardType, Deck, DeckArea, DeckListItem, ToggleOption, } from '../../../models/models';
+import type { Card as CardType, Deck, DeckArea, DeckListItem, ToggleOption, DeckLegalityResult } from '../../../models/models';
 import CardList from '../../cards/components/CardList';
 
 // 必要なフックとコンポーネントをインポート
 import { useSortFilter } from '../../../hooks/useSortFilter';
 import { useGridDisplay } from '../../../hooks/useGridDisplay';
+import { useRarityRegistry } from '../../../hooks/useRarityRegistry';
+import { createRarityRankAccessor, withRarityFilterOptions } from '../../../services/packs/rarityRegistry';
 import ControlBar from '../../../components/common/ControlBar';
+import FormatSelector from '../../formats/components/FormatSelector';
 import type { ControlBarProps } from '../../../models/models';
 
 import { 
@@ -54,7 +59,8 @@ export interface DeckCardListProps {
     /** カード削除ハンドラ（編集モード時のみ）*/
     onCardRemove?: (cardId: string) => void;
     isKeyCardSelectable?: boolean;
-    
+    /** 構築ルールの判定結果（ルール未設定の場合は null） */
+    legality?: DeckLegalityResult | null;
 }
 
 const DeckCardList: React.FC<DeckCardListProps> = ({
@@ -65,6 +71,7 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
     onAreaChange,
     onCardClick,
     isEditorMode = false,
+    legality = null,
     // onCardAdd/onCardRemove は現在未使用だが、インターフェース互換性のため保持
 }) => {
     
@@ -84,6 +91,13 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
             return deckCard.count > ownedCount;
         });
     }, [deckCards, ownedCards]);
+
+    // 構築ルール違反 (選択中のエリアに関するものと、エリアを問わないもの)
+    const visibleViolations = useMemo(
+        () => (legality?.violations ?? []).filter(v => !v.area || v.area === selectedDeckArea),
+        [legality, selectedDeckArea]
+    );
+    const otherAreaViolationCount = (legality?.violations.length ?? 0) - visibleViolations.length;
     
     // DeckListItem形式に変換 (CardListに渡すデータ)
     const items = useMemo((): DeckListItem[] => {
@@ -108,11 +122,16 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
     // CardListが期待するCardType[]に変換（DeckListItem is CardType）
     const cardsForCardList = useMemo(() => items as CardType[], [items]);
 
+    // レアリティの並び順・絞り込みの選択肢はレジストリから解決する
+    const rarityRegistry = useRarityRegistry();
+    const rarityAccessor = useMemo(() => createRarityRankAccessor<DeckListItem>(rarityRegistry), [rarityRegistry]);
+    const filterFields = useMemo(() => withRarityFilterOptions(PACK_CARD_FILTER_FIELDS, rarityRegistry), [rarityRegistry]);
+
     // ソート＆フィルタリング (対象データはitems)
     // 💡 修正1: 型アサーションを削除し、変数名を 'sortFilterLogic' に変更
     const sortFilterLogic = useSortFilter<DeckListItem>(
         items, // 変換済みのitemsを渡す
-        undefined,
+        rarityAccessor,
         CARD_DEFAULT_SORT
     );
 
@@ -196,7 +215,7 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
             setSearchTerm: sortFilterLogic.setSearchTerm, // 変数名を修正
             filters: sortFilterLogic.filters, // 変数名を修正
             setFilters: sortFilterLogic.setFilters, // 変数名を修正
-            filterFields: PACK_CARD_FILTER_FIELDS, // デッキ構築ではパックフィルタを流用
+            filterFields: filterFields, // デッキ構築ではパックフィルタを流用
         },
         
         // 列数トグル
@@ -218,6 +237,7 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
         handleToggleAreaChange,
         areaOptions,
         sortFilterLogic, // 変数名を修正
+        filterFields,
         gridDisplayProps
     ]);
 
@@ -233,6 +253,9 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
             <Box sx={{ mb: 2 }}>
                 <ControlBar {...controlBarProps} />
             </Box>
+            <Box sx={{ mb: 2 }}>
+                <FormatSelector />
+            </Box>
 
             {/* 所持枚数オーバー警告 */}
             {hasOverOwnedCard && (
@@ -241,6 +264,23 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
                 </Alert>
             )}
 
+            {/* 構築ルール違反 */}
+            {legality && !legality.isLegal && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                    {visibleViolations.map((violation, index) => (
+                        <div key={`${violation.code}-${index}`}>{violation.message}</div>
+                    ))}
+                    {otherAreaViolationCount > 0 && (
+                        <div>他のエリアに {otherAreaViolationCount} 件の違反があります。</div>
+                    )}
+                </Alert>
+            )}
+            {legality && legality.ruleId && legality.isLegal && (
+                <Alert severity="success" sx={{ mb: 2 }}>
+                    ✅ 構築ルールを満たしています
+                </Alert>
+            )}
+
             {/* 統合CardList */}
             <Box sx={{ flex: 1, minHeight: 0 }}>
                 <CardList
@@ -255,6 +295,8 @@ const DeckCardList: React.FC<DeckCardListProps> = ({
                         quantityControl: isEditorMode, // isEditorModeで制御
                         keycardRank: false,
                         grayscaleWhenZero: true, 
+                        rarityBadge: true,
+                        formatStatusBadge: true,
                     }}
                     
                     {...gridDisplayProps}
@@ -0,0 +1,265 @@
+/**
+ * src/features/decks/components/DeckHistoryDiffModal.tsx
+ *
+ * デッキの履歴のスナップショット同士、またはスナップショットと編集中のデッキを比較するモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. 比較元・比較先（履歴のスナップショット、または編集中のデッキ）の選択UIと、入れ替えの操作を提供する。
+ * 2. エリアごとに追加・削除・枚数が変わったカードと、メタデータ・カスタムフィールドの変更を一覧で表示する。
+ * 3. 変更をチェックボックスで選択し、選択した変更だけを比較元の状態に戻す操作を提供する。
+ */
+
+import React from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Box, Typography, Button, IconButton,
+    Select, MenuItem, FormControl, InputLabel, Chip, Alert, CircularProgress, Checkbox,
+    Table, TableHead, TableBody, TableRow, TableCell
+} from '@mui/material';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import RestoreIcon from '@mui/icons-material/Restore';
+
+import type { ArchiveDeck, Card, Deck, DeckRule } from '../../../models/models';
+import { DECK_AREA_LABELS } from '../../../services/decks/deckLegality';
+import type { DeckCardChangeKind, DeckChangeSelection, DeckFieldChange } from '../../../services/decks/deckDiff';
+import { useDeckHistoryDiff, LIVE_DECK_ID } from '../hooks/useDeckHistoryDiff';
+
+const CHANGE_KIND_LABELS: Record<DeckCardChangeKind, { label: string; color: 'success' | 'error' | 'warning' }> = {
+    added: { label: '追加', color: 'success' },
+    removed: { label: '削除', color: 'error' },
+    changed: { label: '枚数変更', color: 'warning' },
+};
+
+// 補助関数: スナップショットの表示名
+const formatSnapshotLabel = (snapshot: ArchiveDeck): string =>
+    `${new Date(snapshot.meta.archivedAt).toLocaleString()}${snapshot.meta.isManual ? '（手動）' : ''} - ${snapshot.name}（${snapshot.totalCards}枚）`;
+
+interface DeckHistoryDiffModalProps {
+    open: boolean;
+    /** 編集中のデッキ */
+    deck: Deck;
+    allCards: Card[];
+    deckRules: DeckRule[];
+    onApplyChanges: (source: Deck, selection: DeckChangeSelection) => void;
+    onClose: () => void;
+}
+
+const DeckHistoryDiffModal: React.FC<DeckHistoryDiffModalProps> = ({
+    open,
+    deck,
+    allCards,
+    deckRules,
+    onApplyChanges,
+    onClose,
+}) => {
+
+    const {
+        snapshots,
+        isLoading,
+        loadError,
+        baseId,
+        setBaseId,
+        targetId,
+        setTargetId,
+        handleSwap,
+        isSameTarget,
+        canRestore,
+        cardChanges,
+        fieldChanges,
+        cardMap,
+        selectedCardKeys,
+        selectedFieldKeys,
+        selectedCount,
+        handleToggleCardChange,
+        handleToggleFieldChange,
+        handleSelectAll,
+        handleClearSelection,
+        handleRestoreSelected,
+    } = useDeckHistoryDiff(deck, allCards, open, onApplyChanges);
+
+    // 補助関数: メタデータ・カスタムフィールドの値を表示用の文字列にする
+    const formatFieldValue = (change: DeckFieldChange, value: DeckFieldChange['before']): string => {
+        if (value === undefined || value === null || value === '') return '（未設定）';
+        if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '（未設定）';
+        switch (change.key) {
+            case 'keycard_1':
+            case 'keycard_2':
+            case 'keycard_3':
+                return cardMap.get(String(value))?.name ?? String(value);
+            case 'ruleId':
+                return deckRules.find(rule => rule.ruleId === value)?.name ?? String(value);
+            default:
+                return String(value);
+        }
+    };
+
+    const counts = {
+        added: cardChanges.filter(change => change.kind === 'added').length,
+        removed: cardChanges.filter(change => change.kind === 'removed').length,
+        changed: cardChanges.filter(change => change.kind === 'changed').length,
+    };
+    const hasChanges = cardChanges.length > 0 || fieldChanges.length > 0;
+
+    const renderTargetSelect = (label: string, value: string, onChange: (value: string) => void) => (
+        <FormControl size="small" sx={{ flex: 1, minWidth: 240 }}>
+            <InputLabel>{label}</InputLabel>
+            <Select label={label} value={value} onChange={(e) => onChange(e.target.value)}>
+                <MenuItem value={LIVE_DECK_ID}>編集中のデッキ</MenuItem>
+                {snapshots.map(snapshot => (
+                    <MenuItem key={snapshot.meta.archiveId} value={snapshot.meta.archiveId}>
+                        {formatSnapshotLabel(snapshot)}
+                    </MenuItem>
+                ))}
+            </Select>
+        </FormControl>
+    );
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>履歴と比較</DialogTitle>
+            <DialogContent dividers>
+                {isLoading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                        <CircularProgress />
+                    </Box>
+                ) : loadError ? (
+                    <Alert severity="error">{loadError}</Alert>
+                ) : (
+                    <>
+                        {snapshots.length === 0 && (
+                            <Alert severity="info" sx={{ mb: 2 }}>
+                                このデッキの履歴はまだありません。
+                            </Alert>
+                        )}
+
+                        {/* 比較対象の選択 */}
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, mt: 1, flexWrap: 'wrap' }}>
+                            {renderTargetSelect('比較元', baseId, setBaseId)}
+                            <IconButton onClick={handleSwap} title="比較元と比較先を入れ替え">
+                                <SwapHorizIcon />
+                            </IconButton>
+                            {renderTargetSelect('比較先', targetId, setTargetId)}
+                        </Box>
+
+                        {isSameTarget ? (
+                            <Alert severity="info">比較元と比較先に同じ版が選択されています。</Alert>
+                        ) : !hasChanges ? (
+                            <Alert severity="success">差分はありません。</Alert>
+                        ) : (
+                            <>
+                                <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+                                    <Chip label={`追加 ${counts.added}`} color="success" variant="outlined" size="small" />
+                                    <Chip label={`削除 ${counts.removed}`} color="error" variant="outlined" size="small" />
+                                    <Chip label={`枚数変更 ${counts.changed}`} color="warning" variant="outlined" size="small" />
+                                    <Chip label={`項目の変更 ${fieldChanges.length}`} variant="outlined" size="small" />
+                                </Box>
+
+                                {/* カードの変更 */}
+                                {cardChanges.length > 0 && (
+                                    <>
+                                        <Typography variant="subtitle2" sx={{ mb: 1 }}>カードの変更</Typography>
+                                        <Table size="small" sx={{ mb: 3 }}>
+                                            <TableHead>
+                                                <TableRow>
+                                                    <TableCell padding="checkbox" />
+                                                    <TableCell>エリア</TableCell>
+                                                    <TableCell>カード名</TableCell>
+                                                    <TableCell align="right">比較元</TableCell>
+                                                    <TableCell align="right">比較先</TableCell>
+                                                    <TableCell>変更</TableCell>
+                                                </TableRow>
+                                            </TableHead>
+                                            <TableBody>
+                                                {cardChanges.map(change => (
+                                                    <TableRow
+                                                        key={change.key}
+                                                        hover
+                                                        onClick={() => handleToggleCardChange(change.key)}
+                                                        sx={{ cursor: 'pointer' }}
+                                                    >
+                                                        <TableCell padding="checkbox">
+                                                            <Checkbox size="small" checked={selectedCardKeys.has(change.key)} />
+                                                        </TableCell>
+                                                        <TableCell>{DECK_AREA_LABELS[change.area]}</TableCell>
+                                                        <TableCell>{change.name}</TableCell>
+                                                        <TableCell align="right">{change.before}</TableCell>
+                                                        <TableCell align="right">{change.after}</TableCell>
+                                                        <TableCell>
+                                                            <Chip
+                                                                label={`${CHANGE_KIND_LABELS[change.kind].label} (${change.after - change.before > 0 ? '+' : ''}${change.after - change.before})`}
+                                                                color={CHANGE_KIND_LABELS[change.kind].color}
+                                                                size="small"
+                                                            />
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </>
+                                )}
+
+                                {/* メタデータ・カスタムフィールドの変更 */}
+                                {fieldChanges.length > 0 && (
+                                    <>
+                                        <Typography variant="subtitle2" sx={{ mb: 1 }}>デッキ情報・カスタムフィールドの変更</Typography>
+                                        <Table size="small">
+                                            <TableHead>
+                                                <TableRow>
+                                                    <TableCell padding="checkbox" />
+                                                    <TableCell>項目</TableCell>
+                                                    <TableCell>比較元</TableCell>
+                                                    <TableCell>比較先</TableCell>
+                                                </TableRow>
+                                            </TableHead>
+                                            <TableBody>
+                                                {fieldChanges.map(change => (
+                                                    <TableRow
+                                                        key={change.key}
+                                                        hover
+                                                        onClick={() => handleToggleFieldChange(change.key)}
+                                                        sx={{ cursor: 'pointer' }}
+                                                    >
+                                                        <TableCell padding="checkbox">
+                                                            <Checkbox size="small" checked={selectedFieldKeys.has(change.key)} />
+                                                        </TableCell>
+                                                        <TableCell>
+                                                            {change.label}
+                                                            {change.isCustomField && (
+                                                                <Typography component="span" variant="caption" color="text.secondary"> ({change.key})</Typography>
+                                                            )}
+                                                        </TableCell>
+                                                        <TableCell sx={{ wordBreak: 'break-all' }}>{formatFieldValue(change, change.before)}</TableCell>
+                                                        <TableCell sx={{ wordBreak: 'break-all' }}>{formatFieldValue(change, change.after)}</TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </>
+                                )}
+
+                                <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 2 }}>
+                                    選択した変更を比較元の状態に戻し、編集中のデッキに反映します（保存するまで確定しません）。
+                                </Typography>
+                            </>
+                        )}
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={handleSelectAll} disabled={!hasChanges || isSameTarget}>すべて選択</Button>
+                <Button onClick={handleClearSelection} disabled={selectedCount === 0}>選択解除</Button>
+                <Box sx={{ flexGrow: 1 }} />
+                <Button
+                    variant="contained"
+                    startIcon={<RestoreIcon />}
+                    onClick={handleRestoreSelected}
+                    disabled={!canRestore}
+                >
+                    選択した変更を比較元に戻す ({selectedCount})
+                </Button>
+                <Button onClick={onClose}>閉じる</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default DeckHistoryDiffModal;
@@ -1,6 +1,7 @@
 /**
  * src/features/decks/components/DeckInfoForm.tsx (ImagePreview 利用版に修正)
  * * * 💡 修正: DeckPreviewCard の埋め込みロジックを ImagePreview コンポーネントに置き換え
+ * * 構築ルール（Deck.ruleId）の選択と、ルールの作成・編集モーダル（DeckRuleEditorModal）の呼び出しを提供する。
  */
 import React, { useState } from 'react'; // useEffect は削除
 import {
@@ -12,9 +13,10 @@ import {
 import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
 import KeyboardArrowRightIcon from '@mui/icons-material/KeyboardArrowRight';
 import SettingsIcon from '@mui/icons-material/Settings';
+import RuleIcon from '@mui/icons-material/Rule';
 
 
-import type { Deck, Card, FieldSetting } from '../../../models/models';
+import type { Deck, Card, FieldSetting, DeckRule } from '../../../models/models';
 import { DECK_TYPE_OPTIONS } from '../../../models/models';
 
 import ColorSelector from '../../../components/controls/ColorSelector';
@@ -23,6 +25,7 @@ import TagManager from '../../../components/controls/TagManager';
 import { formatShortDateTime } from '../../../utils/dateUtils';
 import EnhancedIconButton from '../../../components/common/EnhancedIconButton';
 import KeyCardSelectModal from './KeyCardSelectModal';
+import DeckRuleEditorModal from './DeckRuleEditorModal';
 // ⭐ 【追加】ImagePreview をインポート
 import ImagePreview from '../../../components/common/ImagePreview';
 import { DEFAULT_PACK_DECK_WIDTH as PREVIEW_W, DEFAULT_PACK_DECK_HEIGHT as PREVIEW_H } from '../../../utils/imageUtils';
@@ -60,6 +63,8 @@ interface DeckInfoFormProps {
     onSaveKeyCards?: (keyCardIds: (string | undefined)[]) => void;
     allCards?: Card[];
     ownedCards?: Map<string, number>;
+    // 構築ルールの選択肢（未指定の場合はルール選択を表示しない）
+    deckRules?: DeckRule[];
 }
 
 const DeckInfoForm: React.FC<DeckInfoFormProps> = ({
@@ -93,9 +98,12 @@ const DeckInfoForm: React.FC<DeckInfoFormProps> = ({
     onSaveKeyCards,
     allCards,
     ownedCards,
+    deckRules,
 }) => {
     // 🟢 新規: キーカードモーダルの開閉状態を管理
     const [isKeyCardModalOpen, setIsKeyCardModalOpen] = useState(false);
+    // 構築ルール編集モーダルの開閉状態
+    const [isRuleEditorOpen, setIsRuleEditorOpen] = useState(false);
 
     // 💡 カルーセル関連の State (currentIndex, keyCardCompositeUrl) は ImagePreview に移譲されたため削除
 
@@ -121,6 +129,13 @@ const DeckInfoForm: React.FC<DeckInfoFormProps> = ({
     };
     const handleKeyCardModalClose = () => setIsKeyCardModalOpen(false);
 
+    // 選択中のルール (存在しない場合は新規作成として開く)
+    const selectedRule = deckRules?.find(rule => rule.ruleId === deckData.ruleId) ?? null;
+    const handleRuleSaved = (rule: DeckRule) => onDeckCustomFieldChange('ruleId', rule.ruleId);
+    const handleRuleDeleted = (ruleId: string) => {
+        if (deckData.ruleId === ruleId) onDeckCustomFieldChange('ruleId', undefined);
+    };
+
 
     // --- レンダリング (ImagePreview の使用に置き換え) ---
     return (
@@ -283,6 +298,33 @@ const DeckInfoForm: React.FC<DeckInfoFormProps> = ({
 
                                 {/* 説明文とタグマネージャー (xs:12, md:12) */}
                                 <Grid size={{ xs: 12, md: 12 }}>
+                                    {deckRules && (
+                                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                            <FormControl fullWidth margin="dense" disabled={isDisabled} size="small">
+                                                <InputLabel size="small">構築ルール</InputLabel>
+                                                <Select
+                                                    label="構築ルール"
+                                                    value={deckData.ruleId ?? ''}
+                                                    // 「なし」は ruleId を削除する (空文字は保存しない)
+                                                    onChange={(e) => onDeckCustomFieldChange('ruleId', e.target.value || undefined)}
+                                                    size="small"
+                                                >
+                                                    <MenuItem value="">なし</MenuItem>
+                                                    {deckRules.map(rule => (
+                                                        <MenuItem key={rule.ruleId} value={rule.ruleId}>{rule.name}</MenuItem>
+                                                    ))}
+                                                </Select>
+                                            </FormControl>
+                                            <EnhancedIconButton
+                                                icon={<RuleIcon />}
+                                                tooltipText={selectedRule ? '構築ルールを編集' : '構築ルールを作成'}
+                                                onClick={() => setIsRuleEditorOpen(true)}
+                                                disabled={isDisabled}
+                                                size="small"
+                                                color="primary"
+                                            />
+                                        </Box>
+                                    )}
                                     <TextField
                                         label="説明"
                                         name="description"
@@ -356,6 +398,17 @@ const DeckInfoForm: React.FC<DeckInfoFormProps> = ({
                     onSaveKeyCards={onSaveKeyCards!}
                 />
             )}
+
+            {/* 構築ルール編集モーダル */}
+            {isEditable && deckRules && (
+                <DeckRuleEditorModal
+                    open={isRuleEditorOpen}
+                    rule={selectedRule}
+                    onClose={() => setIsRuleEditorOpen(false)}
+                    onSaved={handleRuleSaved}
+                    onDeleted={handleRuleDeleted}
+                />
+            )}
         </>
     );
 };
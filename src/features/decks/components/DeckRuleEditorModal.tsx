@@ -0,0 +1,369 @@
+/**
+ * src/features/decks/components/DeckRuleEditorModal.tsx
+ *
+ * デッキの構築ルール（DeckRule）を作成・編集するためのモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. ルールの基本項目（名前・説明・参照するフォーマット）と、エリアごとの枚数範囲・同一カード/同名カードの上限の入力UIを提供する（空欄は制限なし）。
+ * 2. タグ（カンマ区切り）とレアリティ（登録済みのレアリティから選択）の許可/禁止リストの入力UIを提供する。
+ * 3. カードの数値カスタムフィールドの集計条件（例: メインデッキの num_1 の合計 <= 40）を行として編集するUIを提供する。
+ * 4. 保存・削除の完了を親コンポーネントに通知する（onSaved / onDeleted）。
+ */
+
+import React from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, TextField, Box, Typography, IconButton, Grid,
+    Divider, Alert, Select, MenuItem, FormControl, InputLabel
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+
+import type { DeckRule, DeckArea, DeckFieldConstraint } from '../../../models/models';
+import {
+    DECK_FIELD_CONSTRAINT_FIELDS, DECK_FIELD_AGGREGATE_OPTIONS, DECK_FIELD_OPERATOR_OPTIONS
+} from '../../../models/models';
+import { DECK_AREA_LABELS } from '../../../services/decks/deckLegality';
+import { useRarityRegistry } from '../../../hooks/useRarityRegistry';
+import { useFormatListStore } from '../../../stores/formatListStore';
+import { useDeckRuleEditor, parseLimitInput } from '../hooks/useDeckRuleEditor';
+
+interface DeckRuleEditorModalProps {
+    open: boolean;
+    rule: DeckRule | null;
+    onClose: () => void;
+    onSaved: (rule: DeckRule) => void;
+    onDeleted: (ruleId: string) => void;
+}
+
+const AREAS: DeckArea[] = ['mainDeck', 'sideDeck', 'extraDeck'];
+
+const AGGREGATE_LABELS: Record<DeckFieldConstraint['aggregate'], string> = {
+    sum: '合計',
+    max: '最大値',
+    min: '最小値',
+};
+
+const OPERATOR_LABELS: Record<DeckFieldConstraint['operator'], string> = {
+    lte: '以下',
+    gte: '以上',
+};
+
+// 上限値の入力欄 (空欄は制限なし)
+interface LimitFieldProps {
+    label: string;
+    value: number | null;
+    onChange: (value: number | null) => void;
+}
+
+const LimitField: React.FC<LimitFieldProps> = ({ label, value, onChange }) => (
+    <TextField
+        label={label}
+        type="number"
+        size="small"
+        fullWidth
+        value={value ?? ''}
+        placeholder="制限なし"
+        onChange={(e) => onChange(parseLimitInput(e.target.value))}
+        inputProps={{ min: 0 }}
+        InputLabelProps={{ shrink: true }}
+    />
+);
+
+// レアリティの複数選択
+interface RaritySelectProps {
+    label: string;
+    value: string[];
+    options: string[];
+    onChange: (value: string[]) => void;
+}
+
+const RaritySelect: React.FC<RaritySelectProps> = ({ label, value, options, onChange }) => (
+    <FormControl fullWidth size="small">
+        <InputLabel>{label}</InputLabel>
+        <Select
+            multiple
+            label={label}
+            value={value}
+            onChange={(e) => onChange(typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value)}
+            renderValue={(selected) => selected.join(' / ')}
+        >
+            {/* 登録済みのレアリティに存在しない値も編集中の値として表示する */}
+            {[...new Set([...options, ...value])].map(name => (
+                <MenuItem key={name} value={name}>{name}</MenuItem>
+            ))}
+        </Select>
+    </FormControl>
+);
+
+const DeckRuleEditorModal: React.FC<DeckRuleEditorModalProps> = ({ open, rule, onClose, onSaved, onDeleted }) => {
+
+    const {
+        editingRule,
+        tagInputs,
+        saveError,
+        isExistingRule,
+        handleFieldChange,
+        handleAreaSizeChange,
+        handleTagInputChange,
+        handleAddConstraint,
+        handleConstraintChange,
+        handleRemoveConstraint,
+        handleSave,
+        handleDelete,
+    } = useDeckRuleEditor({ open, rule });
+
+    const rarityRegistry = useRarityRegistry();
+    const formatLists = useFormatListStore(state => state.formatLists);
+
+    const onSaveClick = async () => {
+        const savedRule = await handleSave();
+        if (savedRule) {
+            onSaved(savedRule);
+            onClose();
+        }
+    };
+
+    const onDeleteClick = async () => {
+        if (await handleDelete()) {
+            onDeleted(editingRule.ruleId);
+            onClose();
+        }
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>{isExistingRule ? `${editingRule.name} を編集` : '構築ルールを作成'}</DialogTitle>
+            <DialogContent dividers>
+                {saveError && <Alert severity="error" sx={{ mb: 2 }}>{saveError}</Alert>}
+
+                <Grid container spacing={2} sx={{ mb: 2 }}>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <TextField
+                            label="ルール名"
+                            size="small"
+                            fullWidth
+                            value={editingRule.name}
+                            onChange={(e) => handleFieldChange('name', e.target.value)}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <FormControl fullWidth size="small">
+                            <InputLabel>禁止・制限リスト</InputLabel>
+                            <Select
+                                value={editingRule.formatId ?? ''}
+                                label="禁止・制限リスト"
+                                onChange={(e) => handleFieldChange('formatId', e.target.value || undefined)}
+                            >
+                                <MenuItem value="">なし</MenuItem>
+                                {formatLists.map(format => (
+                                    <MenuItem key={format.formatId} value={format.formatId}>{format.name}</MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    </Grid>
+                    <Grid size={12}>
+                        <TextField
+                            label="説明"
+                            size="small"
+                            fullWidth
+                            multiline
+                            minRows={2}
+                            value={editingRule.description}
+                            onChange={(e) => handleFieldChange('description', e.target.value)}
+                        />
+                    </Grid>
+                </Grid>
+
+                <Divider sx={{ mb: 2 }} />
+
+                {/* 枚数 */}
+                <Typography variant="subtitle1" sx={{ mb: 1 }}>枚数 (空欄は制限なし)</Typography>
+                <Grid container spacing={2} sx={{ mb: 2 }}>
+                    {AREAS.map(area => (
+                        <React.Fragment key={area}>
+                            <Grid size={{ xs: 6, md: 2 }}>
+                                <LimitField
+                                    label={`${DECK_AREA_LABELS[area]} 最小`}
+                                    value={editingRule.areaSizes[area].min}
+                                    onChange={(min) => handleAreaSizeChange(area, { min })}
+                                />
+                            </Grid>
+                            <Grid size={{ xs: 6, md: 2 }}>
+                                <LimitField
+                                    label={`${DECK_AREA_LABELS[area]} 最大`}
+                                    value={editingRule.areaSizes[area].max}
+                                    onChange={(max) => handleAreaSizeChange(area, { max })}
+                                />
+                            </Grid>
+                        </React.Fragment>
+                    ))}
+                    <Grid size={{ xs: 6, md: 4 }}>
+                        <LimitField
+                            label="同一カードの上限"
+                            value={editingRule.maxCopiesPerCard}
+                            onChange={(value) => handleFieldChange('maxCopiesPerCard', value)}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 6, md: 4 }}>
+                        <LimitField
+                            label="同名カードの上限"
+                            value={editingRule.maxCopiesPerName}
+                            onChange={(value) => handleFieldChange('maxCopiesPerName', value)}
+                        />
+                    </Grid>
+                </Grid>
+
+                <Divider sx={{ mb: 2 }} />
+
+                {/* タグ・レアリティ */}
+                <Typography variant="subtitle1" sx={{ mb: 1 }}>タグ・レアリティ</Typography>
+                <Grid container spacing={2} sx={{ mb: 2 }}>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <TextField
+                            label="使用できるタグ (いずれか)"
+                            size="small"
+                            fullWidth
+                            value={tagInputs.requiredTags}
+                            placeholder="カンマ区切り"
+                            onChange={(e) => handleTagInputChange('requiredTags', e.target.value)}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <TextField
+                            label="禁止タグ"
+                            size="small"
+                            fullWidth
+                            value={tagInputs.forbiddenTags}
+                            placeholder="カンマ区切り"
+                            onChange={(e) => handleTagInputChange('forbiddenTags', e.target.value)}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <RaritySelect
+                            label="使用できるレアリティ"
+                            value={editingRule.requiredRarities}
+                            options={rarityRegistry.rarityNames}
+                            onChange={(value) => handleFieldChange('requiredRarities', value)}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <RaritySelect
+                            label="禁止レアリティ"
+                            value={editingRule.forbiddenRarities}
+                            options={rarityRegistry.rarityNames}
+                            onChange={(value) => handleFieldChange('forbiddenRarities', value)}
+                        />
+                    </Grid>
+                </Grid>
+
+                <Divider sx={{ mb: 2 }} />
+
+                {/* カスタムフィールドの集計条件 */}
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                    <Typography variant="subtitle1">カスタムフィールドの条件</Typography>
+                    <Button size="small" startIcon={<AddIcon />} onClick={handleAddConstraint}>
+                        追加
+                    </Button>
+                </Box>
+                {editingRule.fieldConstraints.length === 0 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>条件はありません。</Typography>
+                )}
+                {editingRule.fieldConstraints.map((constraint, index) => (
+                    <Grid container spacing={1} alignItems="center" sx={{ mb: 1 }} key={`constraint-${index}`}>
+                        <Grid size={{ xs: 6, md: 2.5 }}>
+                            <FormControl fullWidth size="small">
+                                <InputLabel>対象</InputLabel>
+                                <Select
+                                    value={constraint.area}
+                                    label="対象"
+                                    onChange={(e) => handleConstraintChange(index, { area: e.target.value as DeckFieldConstraint['area'] })}
+                                >
+                                    <MenuItem value="all">デッキ全体</MenuItem>
+                                    {AREAS.map(area => (
+                                        <MenuItem key={area} value={area}>{DECK_AREA_LABELS[area]}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                        </Grid>
+                        <Grid size={{ xs: 6, md: 1.5 }}>
+                            <FormControl fullWidth size="small">
+                                <InputLabel>フィールド</InputLabel>
+                                <Select
+                                    value={constraint.field}
+                                    label="フィールド"
+                                    onChange={(e) => handleConstraintChange(index, { field: e.target.value as DeckFieldConstraint['field'] })}
+                                >
+                                    {DECK_FIELD_CONSTRAINT_FIELDS.map(field => (
+                                        <MenuItem key={field} value={field}>{field}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                        </Grid>
+                        <Grid size={{ xs: 6, md: 2 }}>
+                            <TextField
+                                label="表示名"
+                                size="small"
+                                fullWidth
+                                value={constraint.label ?? ''}
+                                onChange={(e) => handleConstraintChange(index, { label: e.target.value || undefined })}
+                            />
+                        </Grid>
+                        <Grid size={{ xs: 6, md: 1.5 }}>
+                            <FormControl fullWidth size="small">
+                                <InputLabel>集計</InputLabel>
+                                <Select
+                                    value={constraint.aggregate}
+                                    label="集計"
+                                    onChange={(e) => handleConstraintChange(index, { aggregate: e.target.value as DeckFieldConstraint['aggregate'] })}
+                                >
+                                    {DECK_FIELD_AGGREGATE_OPTIONS.map(aggregate => (
+                                        <MenuItem key={aggregate} value={aggregate}>{AGGREGATE_LABELS[aggregate]}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                        </Grid>
+                        <Grid size={{ xs: 5, md: 2 }}>
+                            <TextField
+                                label="値"
+                                type="number"
+                                size="small"
+                                fullWidth
+                                value={constraint.value}
+                                onChange={(e) => handleConstraintChange(index, { value: parseFloat(e.target.value) || 0 })}
+                            />
+                        </Grid>
+                        <Grid size={{ xs: 5, md: 1.5 }}>
+                            <FormControl fullWidth size="small">
+                                <InputLabel>比較</InputLabel>
+                                <Select
+                                    value={constraint.operator}
+                                    label="比較"
+                                    onChange={(e) => handleConstraintChange(index, { operator: e.target.value as DeckFieldConstraint['operator'] })}
+                                >
+                                    {DECK_FIELD_OPERATOR_OPTIONS.map(operator => (
+                                        <MenuItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                        </Grid>
+                        <Grid size={{ xs: 2, md: 1 }}>
+                            <IconButton onClick={() => handleRemoveConstraint(index)} color="error" size="small">
+                                <DeleteIcon />
+                            </IconButton>
+                        </Grid>
+                    </Grid>
+                ))}
+            </DialogContent>
+            <DialogActions>
+                {isExistingRule && (
+                    <Button onClick={onDeleteClick} color="error" sx={{ mr: 'auto' }}>削除</Button>
+                )}
+                <Button onClick={onClose}>キャンセル</Button>
+                <Button onClick={onSaveClick} variant="contained">保存</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default DeckRuleEditorModal;
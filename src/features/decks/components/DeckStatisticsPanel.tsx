@@ -0,0 +1,240 @@
+/**
+ * src/features/decks/components/DeckStatisticsPanel.tsx
+ *
+ * デッキの統計を表示するパネルコンポーネントです。
+ *
+ * * 責務:
+ * 1. 集計対象（デッキ全体 or エリア）の切り替えUIを提供し、deckStatistics で統計を算出する。
+ * 2. エリアごとの枚数、推定価値、未所持カードの枚数をサマリーとして表示する。
+ * 3. レアリティ・タグ・表示中のカスタムフィールドの分布を、外部ライブラリを使わない棒グラフで表示する（数値フィールドは値の昇順の縦棒）。
+ * 4. 所持枚数が不足しているカードの一覧を表示する。
+ * 5. パネルの折り畳みを管理する。
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+    Box, Paper, Typography, IconButton, Collapse, Grid, Chip, Divider,
+    Table, TableHead, TableBody, TableRow, TableCell
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+
+import type { Card, Deck, DeckArea } from '../../../models/models';
+import EnhancedToggleButtonGroup, { type ToggleOption } from '../../../components/common/EnhancedToggleButtonGroup';
+import { usePackStore } from '../../../stores/packStore';
+import { useRarityRegistry } from '../../../hooks/useRarityRegistry';
+import {
+    calculateDeckStatistics,
+    type DeckStatisticsScope,
+    type DistributionBucket,
+} from '../../../services/decks/deckStatistics';
+
+const SCOPE_OPTIONS: ToggleOption<DeckStatisticsScope>[] = [
+    { value: 'all', label: '全体' },
+    { value: 'mainDeck', label: 'メイン' },
+    { value: 'sideDeck', label: 'サイド' },
+    { value: 'extraDeck', label: 'エクストラ' },
+];
+
+const AREA_LABELS: Record<DeckArea, string> = {
+    mainDeck: 'メイン',
+    sideDeck: 'サイド',
+    extraDeck: 'エクストラ',
+};
+
+// 縦棒グラフの高さ (px)
+const COLUMN_CHART_HEIGHT = 120;
+
+// 分布の横棒グラフ (ラベルごとの枚数)
+const DistributionBars: React.FC<{ buckets: DistributionBucket[] }> = ({ buckets }) => {
+    const maxCount = Math.max(...buckets.map(bucket => bucket.count), 1);
+    return (
+        <Box>
+            {buckets.map(bucket => (
+                <Box key={bucket.label} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                    <Typography variant="caption" noWrap title={bucket.label} sx={{ width: 100, textAlign: 'right', flexShrink: 0 }}>
+                        {bucket.label}
+                    </Typography>
+                    <Box sx={{ flexGrow: 1, bgcolor: 'action.hover', height: 12, borderRadius: 1 }}>
+                        <Box sx={{ width: `${(bucket.count / maxCount) * 100}%`, bgcolor: 'primary.main', height: '100%', borderRadius: 1 }} />
+                    </Box>
+                    <Typography variant="caption" color="text.secondary" sx={{ width: 32 }}>{bucket.count}</Typography>
+                </Box>
+            ))}
+        </Box>
+    );
+};
+
+// 分布の縦棒グラフ (数値フィールドのコストカーブなど)
+const DistributionColumns: React.FC<{ buckets: DistributionBucket[] }> = ({ buckets }) => {
+    const maxCount = Math.max(...buckets.map(bucket => bucket.count), 1);
+    return (
+        <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 0.5, overflowX: 'auto', pb: 0.5 }}>
+            {buckets.map(bucket => (
+                <Box key={bucket.label} sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', minWidth: 28, flex: '1 0 28px' }}>
+                    <Typography variant="caption" color="text.secondary">{bucket.count}</Typography>
+                    <Box sx={{ width: '70%', height: COLUMN_CHART_HEIGHT, display: 'flex', alignItems: 'flex-end', bgcolor: 'action.hover', borderRadius: 1 }}>
+                        <Box sx={{ width: '100%', height: `${(bucket.count / maxCount) * 100}%`, bgcolor: 'primary.main', borderRadius: 1 }} />
+                    </Box>
+                    <Typography variant="caption" noWrap title={bucket.label}>{bucket.label}</Typography>
+                </Box>
+            ))}
+        </Box>
+    );
+};
+
+// 分布1件分の見出しとグラフ
+const DistributionSection: React.FC<{ title: string; subtitle?: string; children: React.ReactNode; isEmpty: boolean }> = ({
+    title, subtitle, children, isEmpty
+}) => (
+    <Box>
+        <Typography variant="subtitle2">{title}</Typography>
+        {subtitle && <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 0.5 }}>{subtitle}</Typography>}
+        {isEmpty
+            ? <Typography variant="body2" color="text.secondary">データがありません。</Typography>
+            : children}
+    </Box>
+);
+
+export interface DeckStatisticsPanelProps {
+    deck: Deck;
+    allCards: Card[];
+    /** カードIDごとの所持枚数（イベントプールに紐づくデッキではプールの枚数） */
+    ownedCards: Map<string, number>;
+    /** 所持枚数の基準がイベントプールかどうか（表示の文言に使用） */
+    isEventPool?: boolean;
+}
+
+const DeckStatisticsPanel: React.FC<DeckStatisticsPanelProps> = ({ deck, allCards, ownedCards, isEventPool = false }) => {
+
+    const [isOpen, setIsOpen] = useState(true);
+    const [scope, setScope] = useState<DeckStatisticsScope>('all');
+
+    const packs = usePackStore(state => state.packs);
+    const rarityRegistry = useRarityRegistry();
+    const cardMap = useMemo(() => new Map(allCards.map(card => [card.cardId, card])), [allCards]);
+
+    const statistics = useMemo(() => calculateDeckStatistics(deck, scope, {
+        cardMap,
+        packs,
+        ownedCards,
+        // 上位のレアリティから表示する
+        getRarityRank: (rarityName, packId) => -rarityRegistry.getRank(rarityName, packId),
+    }), [deck, scope, cardMap, packs, ownedCards, rarityRegistry]);
+
+    const ownedLabel = isEventPool ? 'プール' : '所持';
+
+    return (
+        <Paper elevation={3} sx={{ p: 2, mt: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, flexWrap: 'wrap' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="h6">デッキ統計</Typography>
+                    <IconButton size="small" onClick={() => setIsOpen(prev => !prev)}>
+                        {isOpen ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                    </IconButton>
+                </Box>
+                {isOpen && (
+                    <EnhancedToggleButtonGroup
+                        value={scope}
+                        onChange={(_e, value) => { if (value) setScope(value); }}
+                        options={SCOPE_OPTIONS}
+                        ariaLabel="集計対象"
+                    />
+                )}
+            </Box>
+
+            <Collapse in={isOpen}>
+                {/* サマリー */}
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', my: 2 }}>
+                    {(Object.keys(AREA_LABELS) as DeckArea[]).map(area => (
+                        <Chip
+                            key={area}
+                            size="small"
+                            variant="outlined"
+                            label={`${AREA_LABELS[area]}: ${statistics.areaCounts[area].total} 枚 (${statistics.areaCounts[area].unique} 種)`}
+                        />
+                    ))}
+                    <Chip
+                        size="small"
+                        color="primary"
+                        label={`推定価値: ${Math.round(statistics.estimatedValue).toLocaleString()} G`}
+                        title={statistics.unpricedCount > 0 ? `${statistics.unpricedCount} 枚は収録パックが見つからないため含まれていません` : undefined}
+                    />
+                    <Chip
+                        size="small"
+                        color={statistics.unownedCount > 0 ? 'warning' : 'success'}
+                        label={statistics.unownedCount > 0 ? `${ownedLabel}不足: ${statistics.unownedCount} 枚` : `${ownedLabel}不足なし`}
+                    />
+                </Box>
+
+                <Divider sx={{ mb: 2 }} />
+
+                {/* 分布 */}
+                <Grid container spacing={3}>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <DistributionSection title="レアリティ" isEmpty={statistics.rarityDistribution.length === 0}>
+                            <DistributionBars buckets={statistics.rarityDistribution} />
+                        </DistributionSection>
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <DistributionSection
+                            title="タグ"
+                            subtitle="複数のタグを持つカードは、それぞれのタグに数えます"
+                            isEmpty={statistics.tagDistribution.length === 0}
+                        >
+                            <DistributionBars buckets={statistics.tagDistribution} />
+                        </DistributionSection>
+                    </Grid>
+                    {statistics.fieldDistributions.map(distribution => {
+                        const notes = [
+                            distribution.average !== null ? `平均 ${distribution.average.toFixed(2)}` : null,
+                            distribution.missingCount > 0 ? `未設定 ${distribution.missingCount} 枚` : null,
+                        ].filter(Boolean).join(' / ');
+                        return (
+                            <Grid key={`${distribution.field}:${distribution.label}`} size={{ xs: 12, md: 6 }}>
+                                <DistributionSection
+                                    title={distribution.label}
+                                    subtitle={notes || undefined}
+                                    isEmpty={distribution.buckets.length === 0}
+                                >
+                                    {distribution.type === 'num'
+                                        ? <DistributionColumns buckets={distribution.buckets} />
+                                        : <DistributionBars buckets={distribution.buckets} />}
+                                </DistributionSection>
+                            </Grid>
+                        );
+                    })}
+                </Grid>
+
+                {/* 未所持カード (デッキ全体) */}
+                {statistics.unownedCards.length > 0 && (
+                    <Box sx={{ mt: 3 }}>
+                        <Typography variant="subtitle2">{ownedLabel}枚数が不足しているカード（デッキ全体）</Typography>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>カード名</TableCell>
+                                    <TableCell align="right">必要</TableCell>
+                                    <TableCell align="right">{ownedLabel}</TableCell>
+                                    <TableCell align="right">不足</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {statistics.unownedCards.map(entry => (
+                                    <TableRow key={entry.cardId}>
+                                        <TableCell>{entry.name}</TableCell>
+                                        <TableCell align="right">{entry.required}</TableCell>
+                                        <TableCell align="right">{entry.owned}</TableCell>
+                                        <TableCell align="right">{entry.shortage}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </Box>
+                )}
+            </Collapse>
+        </Paper>
+    );
+};
+
+export default DeckStatisticsPanel;
@@ -0,0 +1,93 @@
+/**
+ * src/features/decks/components/DeckTextExportModal.tsx
+ *
+ * デッキのテキスト形式のデッキリストを表示し、コピー・ダウンロードするモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. `deckTextIO` で作成したデッキリストのテキストを表示する（複数のデッキは空行で区切って連結する）。
+ * 2. テキストのクリップボードへのコピーと、テキストファイルとしてのダウンロードを提供する。
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import DownloadIcon from '@mui/icons-material/Download';
+
+import type { Card, Deck } from '../../../models/models';
+import { exportDeckToText } from '../../../services/data-io/deckTextIO';
+import { usePackStore } from '../../../stores/packStore';
+
+interface DeckTextExportModalProps {
+    open: boolean;
+    decks: Deck[];
+    allCards: Card[];
+    onClose: () => void;
+}
+
+const DeckTextExportModal: React.FC<DeckTextExportModalProps> = ({ open, decks, allCards, onClose }) => {
+    const [statusMessage, setStatusMessage] = useState<string | null>(null);
+    const packs = usePackStore(state => state.packs);
+
+    const text = useMemo(
+        () => open ? decks.map(deck => exportDeckToText(deck, allCards, packs)).join('\n') : '',
+        [open, decks, allCards, packs]
+    );
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setStatusMessage('✅ クリップボードにコピーしました。');
+        } catch (error) {
+            console.error('[DeckTextExportModal:handleCopy] ❌ Failed to copy deck text:', error);
+            setStatusMessage('❌ コピーに失敗しました。');
+        }
+    };
+
+    const handleDownload = () => {
+        // Blobを作成してダウンロード
+        const blob = new Blob([text], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = decks.length === 1 ? `${decks[0].name}_deck.txt` : 'decks.txt';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClose = () => {
+        setStatusMessage(null);
+        onClose();
+    };
+
+    return (
+        <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+            <DialogTitle>テキストで出力{decks.length > 1 ? ` (${decks.length} デッキ)` : ''}</DialogTitle>
+            <DialogContent dividers>
+                {statusMessage && (
+                    <Alert severity={statusMessage.startsWith('✅') ? 'success' : 'error'} sx={{ mb: 2 }}>
+                        {statusMessage}
+                    </Alert>
+                )}
+                <TextField
+                    value={text}
+                    multiline
+                    minRows={12}
+                    maxRows={24}
+                    fullWidth
+                    inputProps={{ readOnly: true, style: { fontFamily: 'monospace' } }}
+                />
+            </DialogContent>
+            <DialogActions>
+                <Button startIcon={<ContentCopyIcon />} onClick={handleCopy} disabled={!text}>コピー</Button>
+                <Button startIcon={<DownloadIcon />} onClick={handleDownload} disabled={!text}>ダウンロード</Button>
+                <Button onClick={handleClose}>閉じる</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default DeckTextExportModal;
@@ -0,0 +1,176 @@
+/**
+ * src/features/decks/components/DeckTextImportModal.tsx
+ *
+ * テキスト形式のデッキリストを貼り付けて、新しいデッキを作成するモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. デッキリストのテキスト・名前解決の対象とするパック・デッキ名の入力UIを提供する。
+ * 2. 解決できたカードの枚数と、解決できない行・候補が複数ある行・書式が正しくない行を表示する（候補を選ぶと行を修正する）。
+ * 3. すべての行が解決できた場合にデッキを作成し、作成したデッキを呼び出し元に通知する。
+ */
+
+import React from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Box, Typography, Button, TextField,
+    Select, MenuItem, FormControl, InputLabel, Chip, Alert, List, ListItem, ListItemText
+} from '@mui/material';
+
+import type { Deck } from '../../../models/models';
+import type { DeckTextIssueKind } from '../../../services/data-io/deckTextIO';
+import { useDeckTextImport } from '../hooks/useDeckTextImport';
+
+const ISSUE_LABELS: Record<DeckTextIssueKind, { label: string; color: 'error' | 'warning' }> = {
+    syntax: { label: '書式エラー', color: 'error' },
+    unresolved: { label: '見つかりません', color: 'error' },
+    ambiguous: { label: '候補が複数', color: 'warning' },
+};
+
+const PLACEHOLDER = `// Deck: デッキ名
+Main
+3 カード名
+2 カード名 #12
+1 カード名 #12 @パック名
+
+Side
+1 カード名
+
+Extra
+1 カード名`;
+
+interface DeckTextImportModalProps {
+    open: boolean;
+    onClose: () => void;
+    onCreated: (deck: Deck) => void;
+}
+
+const DeckTextImportModal: React.FC<DeckTextImportModalProps> = ({ open, onClose, onCreated }) => {
+    const {
+        text,
+        setText,
+        packId,
+        setPackId,
+        packs,
+        packNameMap,
+        deckName,
+        setDeckName,
+        resolvedDeckName,
+        result,
+        handleSelectCandidate,
+        canCreate,
+        isSaving,
+        saveError,
+        handleCreateDeck,
+    } = useDeckTextImport();
+
+    const areaTotals = {
+        main: Array.from(result.mainDeck.values()).reduce((sum, count) => sum + count, 0),
+        side: Array.from(result.sideDeck.values()).reduce((sum, count) => sum + count, 0),
+        extra: Array.from(result.extraDeck.values()).reduce((sum, count) => sum + count, 0),
+    };
+
+    const handleCreate = async () => {
+        const deck = await handleCreateDeck();
+        if (deck) onCreated(deck);
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>テキストからデッキを作成</DialogTitle>
+            <DialogContent dividers>
+                <Box sx={{ display: 'flex', gap: 2, mb: 2, mt: 1, flexWrap: 'wrap' }}>
+                    <TextField
+                        label="デッキ名"
+                        size="small"
+                        value={deckName}
+                        onChange={(e) => setDeckName(e.target.value)}
+                        placeholder={resolvedDeckName || 'デッキ名'}
+                        InputLabelProps={{ shrink: true }}
+                        sx={{ flex: 1, minWidth: 200 }}
+                    />
+                    <FormControl size="small" sx={{ flex: 1, minWidth: 200 }}>
+                        <InputLabel>名前解決の対象</InputLabel>
+                        <Select label="名前解決の対象" value={packId} onChange={(e) => setPackId(e.target.value)} displayEmpty>
+                            <MenuItem value="">すべてのパック</MenuItem>
+                            {packs.map(pack => (
+                                <MenuItem key={pack.packId} value={pack.packId}>{pack.name}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                </Box>
+
+                <TextField
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder={PLACEHOLDER}
+                    multiline
+                    minRows={10}
+                    maxRows={20}
+                    fullWidth
+                    inputProps={{ style: { fontFamily: 'monospace' } }}
+                />
+                <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 1 }}>
+                    「枚数 カード名」を1行に1枚ずつ記入し、Main / Side / Extra の見出しでエリアを分けます。同名のカードは「#カード番号」「@パック名」で区別できます。
+                </Typography>
+
+                {/* 解決結果 */}
+                <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+                    <Chip label={`メイン ${areaTotals.main} 枚`} size="small" variant="outlined" />
+                    <Chip label={`サイド ${areaTotals.side} 枚`} size="small" variant="outlined" />
+                    <Chip label={`エクストラ ${areaTotals.extra} 枚`} size="small" variant="outlined" />
+                    {result.issues.length > 0 && (
+                        <Chip label={`要修正 ${result.issues.length} 行`} size="small" color="error" />
+                    )}
+                </Box>
+
+                {result.issues.length > 0 && (
+                    <List dense sx={{ mt: 1 }}>
+                        {result.issues.map(issue => (
+                            <ListItem key={`${issue.lineNumber}-${issue.kind}`} alignItems="flex-start" disableGutters>
+                                <ListItemText
+                                    primary={
+                                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                            <Chip label={ISSUE_LABELS[issue.kind].label} color={ISSUE_LABELS[issue.kind].color} size="small" />
+                                            <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                                                {issue.lineNumber}行目: {issue.raw}
+                                            </Typography>
+                                        </Box>
+                                    }
+                                    secondary={
+                                        <>
+                                            {issue.message}
+                                            {issue.candidates.length > 0 && (
+                                                <Box component="span" sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                                                    {issue.candidates.map(card => (
+                                                        <Chip
+                                                            key={card.cardId}
+                                                            component="span"
+                                                            size="small"
+                                                            variant="outlined"
+                                                            label={`${card.name}${card.number !== undefined && card.number !== null ? ` #${card.number}` : ''} (${packNameMap.get(card.packId) ?? card.packId})`}
+                                                            onClick={() => handleSelectCandidate(issue.lineNumber, card)}
+                                                        />
+                                                    ))}
+                                                </Box>
+                                            )}
+                                        </>
+                                    }
+                                    secondaryTypographyProps={{ component: 'span' }}
+                                />
+                            </ListItem>
+                        ))}
+                    </List>
+                )}
+
+                {saveError && <Alert severity="error" sx={{ mt: 2 }}>{saveError}</Alert>}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>キャンセル</Button>
+                <Button variant="contained" onClick={handleCreate} disabled={!canCreate}>
+                    {isSaving ? '作成中...' : 'デッキを作成'}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default DeckTextImportModal;
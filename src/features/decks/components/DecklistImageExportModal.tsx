@@ -0,0 +1,134 @@
+/**
+ * src/features/decks/components/DecklistImageExportModal.tsx
+ *
+ * デッキリストを画像（PNG）として出力するモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. レイアウト（列数・カードの幅・配色・キーカードの表示）と、画像に含めるエリアの選択UIを提供する。
+ * 2. 生成したデッキリスト画像をプレビューし、PNG としてダウンロードする操作を提供する。
+ */
+
+import React from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Box, Typography, Button,
+    Select, MenuItem, FormControl, InputLabel, FormControlLabel, Checkbox, Switch, Alert, CircularProgress
+} from '@mui/material';
+import DownloadIcon from '@mui/icons-material/Download';
+
+import type { Card, Deck, DeckArea } from '../../../models/models';
+import { DECK_AREA_LABELS } from '../../../services/decks/deckLegality';
+import {
+    useDecklistImageExport,
+    DECKLIST_IMAGE_THEMES,
+    type DecklistImageTheme,
+} from '../hooks/useDecklistImageExport';
+
+const COLUMN_OPTIONS = [5, 6, 8, 10, 12, 15];
+const CARD_WIDTH_OPTIONS = [80, 100, 120, 160, 200];
+
+interface DecklistImageExportModalProps {
+    open: boolean;
+    deck: Deck;
+    allCards: Card[];
+    onClose: () => void;
+}
+
+const DecklistImageExportModal: React.FC<DecklistImageExportModalProps> = ({ open, deck, allCards, onClose }) => {
+    const {
+        columns,
+        setColumns,
+        cardWidth,
+        setCardWidth,
+        theme,
+        setTheme,
+        showKeyCards,
+        setShowKeyCards,
+        includedAreas,
+        handleToggleArea,
+        hasKeyCards,
+        hasCards,
+        imageUrl,
+        isGenerating,
+        generateError,
+        handleDownload,
+    } = useDecklistImageExport(deck, allCards, open);
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+            <DialogTitle>画像で出力</DialogTitle>
+            <DialogContent dividers>
+                {/* レイアウト */}
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2, mt: 1 }}>
+                    <FormControl size="small" sx={{ minWidth: 100 }}>
+                        <InputLabel>列数</InputLabel>
+                        <Select label="列数" value={columns} onChange={(e) => setColumns(Number(e.target.value))}>
+                            {COLUMN_OPTIONS.map(n => <MenuItem key={n} value={n}>{n} 列</MenuItem>)}
+                        </Select>
+                    </FormControl>
+                    <FormControl size="small" sx={{ minWidth: 120 }}>
+                        <InputLabel>カードの幅</InputLabel>
+                        <Select label="カードの幅" value={cardWidth} onChange={(e) => setCardWidth(Number(e.target.value))}>
+                            {CARD_WIDTH_OPTIONS.map(n => <MenuItem key={n} value={n}>{n} px</MenuItem>)}
+                        </Select>
+                    </FormControl>
+                    <FormControl size="small" sx={{ minWidth: 100 }}>
+                        <InputLabel>配色</InputLabel>
+                        <Select label="配色" value={theme} onChange={(e) => setTheme(e.target.value as DecklistImageTheme)}>
+                            {(Object.keys(DECKLIST_IMAGE_THEMES) as DecklistImageTheme[]).map(key => (
+                                <MenuItem key={key} value={key}>{DECKLIST_IMAGE_THEMES[key].label}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <FormControlLabel
+                        control={<Switch checked={showKeyCards} onChange={(e) => setShowKeyCards(e.target.checked)} disabled={!hasKeyCards} />}
+                        label="キーカードを表示"
+                    />
+                    {(Object.keys(includedAreas) as DeckArea[]).map(area => (
+                        <FormControlLabel
+                            key={area}
+                            control={<Checkbox size="small" checked={includedAreas[area]} onChange={() => handleToggleArea(area)} />}
+                            label={DECK_AREA_LABELS[area]}
+                        />
+                    ))}
+                </Box>
+
+                {/* プレビュー */}
+                {generateError ? (
+                    <Alert severity="error">{generateError}</Alert>
+                ) : !hasCards ? (
+                    <Alert severity="info">画像に含めるカードがありません。</Alert>
+                ) : (
+                    <Box sx={{ position: 'relative', textAlign: 'center', minHeight: 200, bgcolor: 'action.hover', p: 1 }}>
+                        {imageUrl && (
+                            <Box
+                                component="img"
+                                src={imageUrl}
+                                alt={deck.name}
+                                sx={{ maxWidth: '100%', opacity: isGenerating ? 0.5 : 1 }}
+                            />
+                        )}
+                        {isGenerating && (
+                            <CircularProgress sx={{ position: 'absolute', top: '50%', left: '50%', mt: -2.5, ml: -2.5 }} />
+                        )}
+                    </Box>
+                )}
+                <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 1 }}>
+                    画像URLが未設定、または読み込めない（外部サイトが画像の利用を許可していない）カードは、プレースホルダーで表示されます。
+                </Typography>
+            </DialogContent>
+            <DialogActions>
+                <Button
+                    variant="contained"
+                    startIcon={<DownloadIcon />}
+                    onClick={handleDownload}
+                    disabled={!imageUrl || isGenerating || !hasCards}
+                >
+                    PNG をダウンロード
+                </Button>
+                <Button onClick={onClose}>閉じる</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default DecklistImageExportModal;
@@ -0,0 +1,471 @@
+/**
+ * src/features/decks/components/DrawProbabilityPanel.tsx
+ *
+ * デッキのドロー確率を計算するパネルコンポーネントです。
+ *
+ * * 責務:
+ * 1. 初手枚数・1ターンのドロー枚数・ターン数（先攻のドローなし）の入力UIを提供する。
+ * 2. キーカードごとに、指定ターンまでに1枚以上引く確率をターンごとに表示する。
+ * 3. カード・タグ・カスタムフィールドの値を対象とした条件（AND で結合した OR の節）の編集UIと、条件を満たす確率を表示する。
+ * 4. マリガンのルールを指定したモンテカルロ法の実行UI（試行回数・シード・進捗・キャンセル）と、推定結果を表示する。
+ * 5. パネルの折り畳みを管理する。
+ */
+
+import React, { useState } from 'react';
+import {
+    Box, Paper, Typography, IconButton, Collapse, Divider, TextField, Select, MenuItem, FormControl, InputLabel,
+    FormControlLabel, Checkbox, Button, Chip, Table, TableHead, TableBody, TableRow, TableCell, Alert,
+    LinearProgress, CircularProgress
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import AddIcon from '@mui/icons-material/Add';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+
+import type { Card, Deck, CardFieldSettings } from '../../../models/models';
+import {
+    MAX_DRAW_TARGET_MIN_COUNT,
+    MULLIGAN_TYPE_LABELS,
+    type DrawTarget,
+    type MulliganType,
+} from '../../../services/decks/drawProbability';
+import {
+    useDrawProbability,
+    DRAW_TRIAL_OPTIONS,
+    MAX_DRAW_TURN,
+    type DrawFieldOption,
+    type MulliganKeepMode,
+    type TurnProbability,
+} from '../hooks/useDrawProbability';
+
+const KEEP_MODE_OPTIONS: { value: MulliganKeepMode; label: string }[] = [
+    { value: 'condition', label: '初手が条件を満たさない場合' },
+    { value: 'keycards', label: '初手にキーカードがない場合' },
+];
+
+// 表示用フォーマッタ
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+// 補助関数: 数値入力を範囲内の整数に丸める
+const clampInteger = (value: number, min: number, max: number): number =>
+    Math.min(max, Math.max(min, Math.floor(Number.isFinite(value) ? value : min)));
+
+// ターンごとの確率の行
+const ProbabilityCells: React.FC<{ probabilities: TurnProbability[] }> = ({ probabilities }) => (
+    <>
+        {probabilities.map(p => (
+            <TableCell key={p.turn} align="right">{formatPercent(p.probability)}</TableCell>
+        ))}
+    </>
+);
+
+// 条件の対象を追加するフォーム
+interface TargetFormProps {
+    cardOptions: { cardId: string; name: string; count: number }[];
+    tagOptions: string[];
+    fieldOptions: DrawFieldOption[];
+    clauseCount: number;
+    disabled: boolean;
+    onAdd: (target: DrawTarget, clauseIndex: number | null) => void;
+}
+
+const TargetForm: React.FC<TargetFormProps> = ({ cardOptions, tagOptions, fieldOptions, clauseCount, disabled, onAdd }) => {
+    const [type, setType] = useState<'card' | 'tag' | 'field'>('card');
+    const [cardId, setCardId] = useState('');
+    const [tag, setTag] = useState('');
+    const [field, setField] = useState<keyof CardFieldSettings | ''>('');
+    const [value, setValue] = useState('');
+    const [minCount, setMinCount] = useState(1);
+    // 追加先の節 ('new' は新しい節として AND で追加)
+    const [clauseTarget, setClauseTarget] = useState<number | 'new'>('new');
+
+    const fieldOption = fieldOptions.find(o => o.field === field);
+    const isValid = type === 'card' ? !!cardId : type === 'tag' ? !!tag : !!field && !!value;
+
+    const handleAdd = () => {
+        if (!isValid) return;
+        const selector: DrawTarget['selector'] = type === 'card'
+            ? { type, cardId }
+            : type === 'tag' ? { type, tag } : { type, field: field as keyof CardFieldSettings, value };
+        onAdd({ selector, minCount }, clauseTarget === 'new' || clauseTarget >= clauseCount ? null : clauseTarget);
+        setClauseTarget('new');
+    };
+
+    return (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+                <InputLabel>対象の種類</InputLabel>
+                <Select label="対象の種類" value={type} onChange={(e) => setType(e.target.value as typeof type)}>
+                    <MenuItem value="card">カード</MenuItem>
+                    <MenuItem value="tag" disabled={tagOptions.length === 0}>タグ</MenuItem>
+                    <MenuItem value="field" disabled={fieldOptions.length === 0}>カスタムフィールド</MenuItem>
+                </Select>
+            </FormControl>
+
+            {type === 'card' && (
+                <FormControl size="small" sx={{ minWidth: 200 }}>
+                    <InputLabel>カード</InputLabel>
+                    <Select label="カード" value={cardId} onChange={(e) => setCardId(e.target.value)}>
+                        {cardOptions.map(option => (
+                            <MenuItem key={option.cardId} value={option.cardId}>{option.name} ×{option.count}</MenuItem>
+                        ))}
+                    </Select>
+                </FormControl>
+            )}
+            {type === 'tag' && (
+                <FormControl size="small" sx={{ minWidth: 160 }}>
+                    <InputLabel>タグ</InputLabel>
+                    <Select label="タグ" value={tag} onChange={(e) => setTag(e.target.value)}>
+                        {tagOptions.map(option => <MenuItem key={option} value={option}>{option}</MenuItem>)}
+                    </Select>
+                </FormControl>
+            )}
+            {type === 'field' && (
+                <>
+                    <FormControl size="small" sx={{ minWidth: 140 }}>
+                        <InputLabel>フィールド</InputLabel>
+                        <Select
+                            label="フィールド"
+                            value={field}
+                            onChange={(e) => { setField(e.target.value as keyof CardFieldSettings); setValue(''); }}
+                        >
+                            {fieldOptions.map(option => <MenuItem key={option.field} value={option.field}>{option.label}</MenuItem>)}
+                        </Select>
+                    </FormControl>
+                    <FormControl size="small" sx={{ minWidth: 100 }} disabled={!fieldOption}>
+                        <InputLabel>値</InputLabel>
+                        <Select label="値" value={value} onChange={(e) => setValue(e.target.value)}>
+                            {fieldOption?.values.map(option => <MenuItem key={option} value={option}>{option}</MenuItem>)}
+                        </Select>
+                    </FormControl>
+                </>
+            )}
+
+            <TextField
+                label="必要枚数"
+                size="small"
+                type="number"
+                value={minCount}
+                onChange={(e) => setMinCount(clampInteger(Number(e.target.value), 1, MAX_DRAW_TARGET_MIN_COUNT))}
+                inputProps={{ min: 1, max: MAX_DRAW_TARGET_MIN_COUNT }}
+                sx={{ width: 90 }}
+            />
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel>追加先</InputLabel>
+                <Select label="追加先" value={clauseTarget} onChange={(e) => setClauseTarget(e.target.value as number | 'new')}>
+                    <MenuItem value="new">新しい条件（かつ）</MenuItem>
+                    {Array.from({ length: clauseCount }, (_, i) => (
+                        <MenuItem key={i} value={i}>条件 {i + 1}（または）</MenuItem>
+                    ))}
+                </Select>
+            </FormControl>
+            <Button size="small" startIcon={<AddIcon />} onClick={handleAdd} disabled={disabled || !isValid}>
+                追加
+            </Button>
+        </Box>
+    );
+};
+
+export interface DrawProbabilityPanelProps {
+    deck: Deck;
+    allCards: Card[];
+}
+
+const DrawProbabilityPanel: React.FC<DrawProbabilityPanelProps> = ({ deck, allCards }) => {
+
+    const [isOpen, setIsOpen] = useState(false);
+
+    const {
+        timing,
+        setTiming,
+        deckSize,
+        cardsSeen,
+        keyCardProbabilities,
+        condition,
+        conditionProbabilities,
+        cardOptions,
+        tagOptions,
+        fieldOptions,
+        canAddTarget,
+        handleAddTarget,
+        handleTargetMinCountChange,
+        handleRemoveTarget,
+        handleClearCondition,
+        describeTarget,
+        mulliganType,
+        setMulliganType,
+        maxMulligans,
+        setMaxMulligans,
+        keepMode,
+        setKeepMode,
+        hasKeepCondition,
+        trials,
+        setTrials,
+        seedInput,
+        setSeedInput,
+        canRun,
+        isSimulating,
+        progress,
+        runSimulation,
+        cancelSimulation,
+        result,
+        simulationError,
+    } = useDrawProbability(deck, allCards);
+
+    const turns = Array.from({ length: Math.max(1, Math.min(MAX_DRAW_TURN, timing.turn)) }, (_, i) => i + 1);
+    const exactProbability = conditionProbabilities[conditionProbabilities.length - 1]?.probability ?? null;
+
+    return (
+        <Paper elevation={3} sx={{ p: 2, mt: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="h6">ドロー確率</Typography>
+                <IconButton size="small" onClick={() => setIsOpen(prev => !prev)}>
+                    {isOpen ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                </IconButton>
+            </Box>
+
+            <Collapse in={isOpen} unmountOnExit>
+                {/* ドローのタイミング */}
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', my: 2 }}>
+                    <TextField
+                        label="初手の枚数"
+                        size="small"
+                        type="number"
+                        value={timing.handSize}
+                        onChange={(e) => setTiming(prev => ({ ...prev, handSize: clampInteger(Number(e.target.value), 0, 20) }))}
+                        inputProps={{ min: 0, max: 20 }}
+                        sx={{ width: 110 }}
+                    />
+                    <TextField
+                        label="1ターンのドロー"
+                        size="small"
+                        type="number"
+                        value={timing.drawsPerTurn}
+                        onChange={(e) => setTiming(prev => ({ ...prev, drawsPerTurn: clampInteger(Number(e.target.value), 0, 10) }))}
+                        inputProps={{ min: 0, max: 10 }}
+                        sx={{ width: 130 }}
+                    />
+                    <TextField
+                        label="ターン"
+                        size="small"
+                        type="number"
+                        value={timing.turn}
+                        onChange={(e) => setTiming(prev => ({ ...prev, turn: clampInteger(Number(e.target.value), 1, MAX_DRAW_TURN) }))}
+                        inputProps={{ min: 1, max: MAX_DRAW_TURN }}
+                        sx={{ width: 90 }}
+                    />
+                    <FormControlLabel
+                        control={
+                            <Checkbox
+                                checked={timing.skipFirstDraw}
+                                onChange={(e) => setTiming(prev => ({ ...prev, skipFirstDraw: e.target.checked }))}
+                            />
+                        }
+                        label="1ターン目はドローしない（先攻）"
+                    />
+                    <Typography variant="caption" color="text.secondary">
+                        メインデッキ {deckSize} 枚 / {timing.turn} ターン目までに {Math.min(cardsSeen, deckSize)} 枚を見る
+                    </Typography>
+                </Box>
+
+                {deckSize === 0 ? (
+                    <Typography variant="body2" color="text.secondary">メインデッキにカードがありません。</Typography>
+                ) : (
+                    <>
+                        {/* キーカード・条件のターンごとの確率 */}
+                        <Table size="small" sx={{ mb: 2 }}>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>対象（1枚以上）</TableCell>
+                                    {turns.map(turn => <TableCell key={turn} align="right">{turn}T</TableCell>)}
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {keyCardProbabilities.map(keyCard => (
+                                    <TableRow key={keyCard.rank}>
+                                        <TableCell>
+                                            キーカード{keyCard.rank}: {keyCard.name} ×{keyCard.copies}
+                                        </TableCell>
+                                        <ProbabilityCells probabilities={keyCard.probabilities} />
+                                    </TableRow>
+                                ))}
+                                {conditionProbabilities.length > 0 && (
+                                    <TableRow>
+                                        <TableCell><strong>条件</strong></TableCell>
+                                        <ProbabilityCells probabilities={conditionProbabilities} />
+                                    </TableRow>
+                                )}
+                            </TableBody>
+                        </Table>
+                        {keyCardProbabilities.length === 0 && (
+                            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                                キーカードが設定されていません。デッキ情報からキーカードを設定できます。
+                            </Typography>
+                        )}
+
+                        <Divider sx={{ mb: 2 }} />
+
+                        {/* 条件 */}
+                        <Typography variant="subtitle2" gutterBottom>条件（各条件をすべて満たす / 条件内はいずれか）</Typography>
+                        {condition.map((clause, clauseIndex) => (
+                            <Box key={clauseIndex} sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 1 }}>
+                                <Typography variant="body2" sx={{ minWidth: 56 }}>条件 {clauseIndex + 1}</Typography>
+                                {clause.map((target, targetIndex) => (
+                                    <React.Fragment key={targetIndex}>
+                                        {targetIndex > 0 && <Typography variant="caption" color="text.secondary">または</Typography>}
+                                        <Chip
+                                            label={`${describeTarget(target.selector)} ${target.minCount}枚以上`}
+                                            onDelete={() => handleRemoveTarget(clauseIndex, targetIndex)}
+                                            onClick={() => handleTargetMinCountChange(
+                                                clauseIndex, targetIndex, target.minCount % MAX_DRAW_TARGET_MIN_COUNT + 1
+                                            )}
+                                            title="クリックで必要枚数を変更"
+                                        />
+                                    </React.Fragment>
+                                ))}
+                            </Box>
+                        ))}
+                        <Box sx={{ mb: 1 }}>
+                            <TargetForm
+                                cardOptions={cardOptions}
+                                tagOptions={tagOptions}
+                                fieldOptions={fieldOptions}
+                                clauseCount={condition.length}
+                                disabled={!canAddTarget}
+                                onAdd={handleAddTarget}
+                            />
+                        </Box>
+                        {condition.length > 0 && (
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                                {exactProbability !== null && (
+                                    <Typography variant="body1">
+                                        {timing.turn} ターン目までに条件を満たす確率: <strong>{formatPercent(exactProbability)}</strong>
+                                    </Typography>
+                                )}
+                                <Button size="small" color="inherit" onClick={handleClearCondition}>条件をクリア</Button>
+                            </Box>
+                        )}
+
+                        <Divider sx={{ mb: 2 }} />
+
+                        {/* モンテカルロ法 */}
+                        <Typography variant="subtitle2" gutterBottom>マリガンを含めたシミュレーション</Typography>
+                        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+                            <FormControl size="small" sx={{ minWidth: 200 }}>
+                                <InputLabel>マリガン</InputLabel>
+                                <Select
+                                    label="マリガン"
+                                    value={mulliganType}
+                                    onChange={(e) => setMulliganType(e.target.value as MulliganType)}
+                                    disabled={isSimulating}
+                                >
+                                    {(Object.keys(MULLIGAN_TYPE_LABELS) as MulliganType[]).map(type => (
+                                        <MenuItem key={type} value={type}>{MULLIGAN_TYPE_LABELS[type]}</MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                            {mulliganType !== 'none' && (
+                                <>
+                                    <TextField
+                                        label="最大回数"
+                                        size="small"
+                                        type="number"
+                                        value={maxMulligans}
+                                        onChange={(e) => setMaxMulligans(clampInteger(Number(e.target.value), 1, 5))}
+                                        inputProps={{ min: 1, max: 5 }}
+                                        sx={{ width: 90 }}
+                                        disabled={isSimulating}
+                                    />
+                                    <FormControl size="small" sx={{ minWidth: 220 }}>
+                                        <InputLabel>マリガンする初手</InputLabel>
+                                        <Select
+                                            label="マリガンする初手"
+                                            value={keepMode}
+                                            onChange={(e) => setKeepMode(e.target.value as MulliganKeepMode)}
+                                            disabled={isSimulating}
+                                        >
+                                            {KEEP_MODE_OPTIONS.map(o => <MenuItem key={o.value} value={o.value}>{o.label}</MenuItem>)}
+                                        </Select>
+                                    </FormControl>
+                                </>
+                            )}
+                            <FormControl size="small" sx={{ minWidth: 130 }}>
+                                <InputLabel>試行回数</InputLabel>
+                                <Select
+                                    label="試行回数"
+                                    value={trials}
+                                    onChange={(e) => setTrials(Number(e.target.value))}
+                                    disabled={isSimulating}
+                                >
+                                    {DRAW_TRIAL_OPTIONS.map(n => <MenuItem key={n} value={n}>{n.toLocaleString()} 回</MenuItem>)}
+                                </Select>
+                            </FormControl>
+                            <TextField
+                                label="シード (任意)"
+                                size="small"
+                                type="number"
+                                value={seedInput}
+                                onChange={(e) => setSeedInput(e.target.value)}
+                                sx={{ width: 140 }}
+                                disabled={isSimulating}
+                            />
+                            <Button
+                                variant="contained"
+                                startIcon={isSimulating ? <CircularProgress size={16} color="inherit" /> : <PlayArrowIcon />}
+                                onClick={runSimulation}
+                                disabled={!canRun}
+                            >
+                                {isSimulating ? '試行中...' : 'シミュレーション'}
+                            </Button>
+                            {isSimulating && (
+                                <Button variant="outlined" color="inherit" startIcon={<StopIcon />} onClick={cancelSimulation}>
+                                    キャンセル
+                                </Button>
+                            )}
+                        </Box>
+                        {condition.length === 0 && (
+                            <Typography variant="body2" color="text.secondary">条件を追加するとシミュレーションできます。</Typography>
+                        )}
+                        {mulliganType !== 'none' && !hasKeepCondition && (
+                            <Alert severity="info" sx={{ mb: 2 }}>マリガンの判定基準となる条件・キーカードがないため、マリガンは行われません。</Alert>
+                        )}
+
+                        {progress !== null && (
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                                <LinearProgress variant="determinate" value={progress * 100} sx={{ flexGrow: 1 }} />
+                                <Typography variant="caption" color="text.secondary">{Math.floor(progress * 100)}%</Typography>
+                            </Box>
+                        )}
+
+                        {simulationError && <Alert severity="error" sx={{ mb: 2 }}>{simulationError}</Alert>}
+
+                        {result && (
+                            <Box>
+                                <Typography variant="body1">
+                                    {timing.turn} ターン目までに条件を満たす割合: <strong>{formatPercent(result.successRate)}</strong>
+                                    {exactProbability !== null && (
+                                        <Typography component="span" variant="body2" color="text.secondary">
+                                            {' '}（マリガンなしの厳密値 {formatPercent(exactProbability)}）
+                                        </Typography>
+                                    )}
+                                </Typography>
+                                <Typography variant="body2">
+                                    キープ条件を満たした初手: {formatPercent(result.keepRate)} / 初手の平均枚数: {result.averageHandSize.toFixed(2)}
+                                </Typography>
+                                <Typography variant="body2">
+                                    マリガン回数: {result.mulliganCounts.map((count, n) => `${n}回 ${formatPercent(count / result.trials)}`).join(' / ')}
+                                </Typography>
+                                <Typography variant="caption" color="text.secondary">
+                                    {result.trials.toLocaleString()} 回試行 / シード: {result.seed}
+                                </Typography>
+                            </Box>
+                        )}
+                    </>
+                )}
+            </Collapse>
+        </Paper>
+    );
+};
+
+export default DrawProbabilityPanel;
@@ -0,0 +1,337 @@
+/**
+ * src/features/decks/components/GoldfishSimulatorModal.tsx
+ *
+ * デッキの一人回し（サンプルハンド・ゴールドフィッシュ）を行うモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. 初手の枚数・1ターンのドロー枚数・マリガンのルールと最大回数・シードの入力と、開始・リセットのUIを提供する。
+ * 2. マリガン・キープ・ドロー・ターン進行・山札のシャッフルの操作UIと、ターン数・マリガン回数・シードを表示する
+ *    （マリガンの上限に達した初手はその旨を表示する）。
+ * 3. 山札・手札・場・墓地・除外のゾーンを表示し、`@dnd-kit` のドラッグ＆ドロップでカードをゾーン間で移動する（山札へはデッキの下に置く）。
+ * 4. 盤面のカードを CardItem で表示し、クリックしたカードを ImagePreview で拡大表示する。
+ */
+
+import React, { useState } from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions, Box, Typography, Button, TextField,
+    Select, MenuItem, FormControl, InputLabel, Paper, Chip, Alert, Grid
+} from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import ShuffleIcon from '@mui/icons-material/Shuffle';
+import {
+    DndContext,
+    DragOverlay,
+    PointerSensor,
+    useSensor,
+    useSensors,
+    useDraggable,
+    useDroppable,
+    type DragStartEvent,
+    type DragEndEvent,
+} from '@dnd-kit/core';
+
+import type { Card, Deck } from '../../../models/models';
+import CardItem from '../../cards/components/CardItem';
+import ImagePreview from '../../../components/common/ImagePreview';
+import { CARD_ASPECT_RATIO } from '../../../configs/configs';
+import { MULLIGAN_TYPE_LABELS, type MulliganType } from '../../../services/decks/drawProbability';
+import { GOLDFISH_ZONES, type GoldfishCard, type GoldfishZone } from '../../../services/decks/goldfishSimulator';
+import { useGoldfishSimulator } from '../hooks/useGoldfishSimulator';
+
+const ZONE_LABELS: Record<GoldfishZone, string> = {
+    library: '山札',
+    hand: '手札',
+    field: '場',
+    graveyard: '墓地',
+    exile: '除外',
+};
+
+// 盤面のカードの表示幅 (px)
+const CARD_WIDTH = 90;
+
+// 補助関数: 数値入力を範囲内の整数に丸める
+const clampInteger = (value: number, min: number, max: number): number =>
+    Math.min(max, Math.max(min, Math.floor(Number.isFinite(value) ? value : min)));
+
+// 盤面のカード1枚 (CardItem で表示)
+const GoldfishCardView: React.FC<{ card: Card | undefined; cardId: string; onClick?: () => void }> = ({ card, cardId, onClick }) => (
+    <Box sx={{ width: CARD_WIDTH }}>
+        {card ? (
+            <CardItem
+                item={card}
+                aspectRatio={CARD_ASPECT_RATIO}
+                // CardItem 内部で onClick に置き換えられる
+                onSelect={() => undefined}
+                onClick={onClick}
+                rarityBadge
+            />
+        ) : (
+            <Paper variant="outlined" sx={{ aspectRatio: CARD_ASPECT_RATIO, p: 0.5 }}>
+                <Typography variant="caption">不明なカード ({cardId})</Typography>
+            </Paper>
+        )}
+    </Box>
+);
+
+// ドラッグ可能なカード
+const DraggableCard: React.FC<{ instance: GoldfishCard; card: Card | undefined; onPreview: (cardId: string) => void }> = ({
+    instance, card, onPreview
+}) => {
+    const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: instance.instanceId });
+    return (
+        <Box ref={setNodeRef} {...attributes} {...listeners} sx={{ opacity: isDragging ? 0.3 : 1, touchAction: 'none', cursor: 'grab' }}>
+            <GoldfishCardView card={card} cardId={instance.cardId} onClick={() => onPreview(instance.cardId)} />
+        </Box>
+    );
+};
+
+// カードをドロップできるゾーン
+const DroppableZone: React.FC<{ zone: GoldfishZone; count: number; children: React.ReactNode; minHeight?: number }> = ({
+    zone, count, children, minHeight = 160
+}) => {
+    const { setNodeRef, isOver } = useDroppable({ id: zone });
+    return (
+        <Paper
+            ref={setNodeRef}
+            variant="outlined"
+            sx={{
+                p: 1,
+                minHeight,
+                bgcolor: isOver ? 'action.selected' : 'background.paper',
+                borderColor: isOver ? 'primary.main' : 'divider',
+                transition: 'background-color 0.2s',
+            }}
+        >
+            <Typography variant="subtitle2" gutterBottom>{ZONE_LABELS[zone]} ({count})</Typography>
+            {children}
+        </Paper>
+    );
+};
+
+export interface GoldfishSimulatorModalProps {
+    open: boolean;
+    deck: Deck;
+    allCards: Card[];
+    onClose: () => void;
+}
+
+const GoldfishSimulatorModal: React.FC<GoldfishSimulatorModalProps> = ({ open, deck, allCards, onClose }) => {
+
+    const {
+        handSize,
+        setHandSize,
+        drawsPerTurn,
+        setDrawsPerTurn,
+        mulliganType,
+        setMulliganType,
+        maxMulligans,
+        setMaxMulligans,
+        seedInput,
+        setSeedInput,
+        deckSize,
+        game,
+        cardMap,
+        canMulligan,
+        isMulliganLimitReached,
+        previewCard,
+        setPreviewCardId,
+        handleStart,
+        handleMulligan,
+        handleKeep,
+        handleDraw,
+        handleNextTurn,
+        handleShuffle,
+        handleMoveCard,
+        handleReset,
+    } = useGoldfishSimulator(deck, allCards);
+
+    const [activeInstance, setActiveInstance] = useState<GoldfishCard | null>(null);
+
+    // クリックでプレビューできるよう、少し動かしてからドラッグを開始する
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
+    );
+
+    const handleDragStart = (event: DragStartEvent) => {
+        const instance = game && GOLDFISH_ZONES.flatMap(zone => game.zones[zone]).find(c => c.instanceId === event.active.id);
+        setActiveInstance(instance || null);
+    };
+
+    const handleDragEnd = (event: DragEndEvent) => {
+        setActiveInstance(null);
+        if (event.over) handleMoveCard(String(event.active.id), event.over.id as GoldfishZone);
+    };
+
+    const handleClose = () => {
+        handleReset();
+        onClose();
+    };
+
+    const renderCards = (zone: GoldfishZone) => (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {game?.zones[zone].map(instance => (
+                <DraggableCard
+                    key={instance.instanceId}
+                    instance={instance}
+                    card={cardMap.get(instance.cardId)}
+                    onPreview={setPreviewCardId}
+                />
+            ))}
+        </Box>
+    );
+
+    return (
+        <Dialog open={open} onClose={handleClose} fullScreen>
+            <DialogTitle>一人回し: {deck.name}</DialogTitle>
+            <DialogContent dividers>
+                {/* 設定 */}
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+                    <TextField
+                        label="初手の枚数"
+                        size="small"
+                        type="number"
+                        value={handSize}
+                        onChange={(e) => setHandSize(clampInteger(Number(e.target.value), 0, 20))}
+                        inputProps={{ min: 0, max: 20 }}
+                        sx={{ width: 110 }}
+                    />
+                    <TextField
+                        label="1ターンのドロー"
+                        size="small"
+                        type="number"
+                        value={drawsPerTurn}
+                        onChange={(e) => setDrawsPerTurn(clampInteger(Number(e.target.value), 0, 10))}
+                        inputProps={{ min: 0, max: 10 }}
+                        sx={{ width: 130 }}
+                    />
+                    <FormControl size="small" sx={{ minWidth: 220 }}>
+                        <InputLabel>マリガン</InputLabel>
+                        <Select label="マリガン" value={mulliganType} onChange={(e) => setMulliganType(e.target.value as MulliganType)}>
+                            {(Object.keys(MULLIGAN_TYPE_LABELS) as MulliganType[]).map(type => (
+                                <MenuItem key={type} value={type}>{MULLIGAN_TYPE_LABELS[type]}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <TextField
+                        label="マリガンの最大回数"
+                        size="small"
+                        type="number"
+                        value={maxMulligans}
+                        onChange={(e) => setMaxMulligans(clampInteger(Number(e.target.value), 0, 20))}
+                        inputProps={{ min: 0, max: 20 }}
+                        disabled={mulliganType === 'none'}
+                        sx={{ width: 150 }}
+                    />
+                    <TextField
+                        label="シード (任意)"
+                        size="small"
+                        type="number"
+                        value={seedInput}
+                        onChange={(e) => setSeedInput(e.target.value)}
+                        sx={{ width: 160 }}
+                    />
+                    <Button variant="contained" startIcon={<PlayArrowIcon />} onClick={handleStart} disabled={deckSize === 0}>
+                        {game ? 'やり直す' : '開始'}
+                    </Button>
+                </Box>
+
+                {deckSize === 0 && <Alert severity="info">メインデッキにカードがありません。</Alert>}
+
+                {game && (
+                    <>
+                        {/* 操作 */}
+                        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+                            <Chip label={`${game.turn} ターン目`} color="primary" />
+                            <Chip label={`マリガン ${game.mulligans} 回`} variant="outlined" />
+                            <Chip label={`シード: ${game.options.seed}`} variant="outlined" />
+                            {!game.isKept && (
+                                <>
+                                    <Button size="small" variant="outlined" onClick={handleMulligan} disabled={!canMulligan}>
+                                        マリガン
+                                    </Button>
+                                    <Button size="small" variant="outlined" onClick={handleKeep} disabled={game.pendingBottomCount > 0}>
+                                        キープ
+                                    </Button>
+                                </>
+                            )}
+                            <Button size="small" variant="contained" onClick={handleNextTurn} disabled={game.pendingBottomCount > 0}>
+                                次のターン（{drawsPerTurn} 枚ドロー）
+                            </Button>
+                            <Button size="small" onClick={handleDraw} disabled={game.zones.library.length === 0}>
+                                1枚ドロー
+                            </Button>
+                            <Button size="small" startIcon={<ShuffleIcon />} onClick={handleShuffle}>
+                                山札をシャッフル
+                            </Button>
+                        </Box>
+                        {isMulliganLimitReached && (
+                            <Alert severity="info" sx={{ mb: 2 }}>
+                                マリガンの上限（{game.mulligans} 回）に達しました。この初手でキープしてください。
+                            </Alert>
+                        )}
+                        {game.pendingBottomCount > 0 && (
+                            <Alert severity="warning" sx={{ mb: 2 }}>
+                                手札から {game.pendingBottomCount} 枚を山札にドラッグして、デッキの下に戻してください。
+                            </Alert>
+                        )}
+
+                        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setActiveInstance(null)}>
+                            <Grid container spacing={2}>
+                                <Grid size={{ xs: 12, md: 10 }}>
+                                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                                        <DroppableZone zone="field" count={game.zones.field.length}>{renderCards('field')}</DroppableZone>
+                                        <DroppableZone zone="hand" count={game.zones.hand.length}>{renderCards('hand')}</DroppableZone>
+                                        <Grid container spacing={2}>
+                                            <Grid size={{ xs: 12, sm: 4 }}>
+                                                <DroppableZone zone="library" count={game.zones.library.length} minHeight={120}>
+                                                    <Typography variant="caption" color="text.secondary">
+                                                        ここにドロップしたカードはデッキの下に置かれます。
+                                                    </Typography>
+                                                </DroppableZone>
+                                            </Grid>
+                                            <Grid size={{ xs: 12, sm: 4 }}>
+                                                <DroppableZone zone="graveyard" count={game.zones.graveyard.length} minHeight={120}>
+                                                    {renderCards('graveyard')}
+                                                </DroppableZone>
+                                            </Grid>
+                                            <Grid size={{ xs: 12, sm: 4 }}>
+                                                <DroppableZone zone="exile" count={game.zones.exile.length} minHeight={120}>
+                                                    {renderCards('exile')}
+                                                </DroppableZone>
+                                            </Grid>
+                                        </Grid>
+                                    </Box>
+                                </Grid>
+
+                                {/* プレビュー */}
+                                <Grid size={{ xs: 12, md: 2 }}>
+                                    <Paper variant="outlined" sx={{ p: 1, position: 'sticky', top: 0 }}>
+                                        {previewCard ? (
+                                            <>
+                                                <ImagePreview item={previewCard} disableCarousel />
+                                                <Typography variant="body2" sx={{ mt: 1 }}>{previewCard.name}</Typography>
+                                            </>
+                                        ) : (
+                                            <Typography variant="caption" color="text.secondary">カードをクリックすると拡大表示します。</Typography>
+                                        )}
+                                    </Paper>
+                                </Grid>
+                            </Grid>
+
+                            <DragOverlay>
+                                {activeInstance && (
+                                    <GoldfishCardView card={cardMap.get(activeInstance.cardId)} cardId={activeInstance.cardId} />
+                                )}
+                            </DragOverlay>
+                        </DndContext>
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={handleClose}>閉じる</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default GoldfishSimulatorModal;
@@ -16,7 +16,7 @@ import type { Deck } from '../../../../models/models';
 
 export type DeckCompareFields = Pick<Deck,
     'name' | 'number' | 'imageUrl' | 'imageColor' | 'ruleId' | 'deckType' | 'series' | 'description' |
-    'keycard_1' | 'keycard_2' | 'keycard_3' | 'isLegal' | 'hasUnownedCards' | 'isFavorite' | 
+    'keycard_1' | 'keycard_2' | 'keycard_3' | 'isLegal' | 'hasUnownedCards' | 'isFavorite' | 'eventPoolId' |
     'mainDeck' | 'sideDeck' | 'extraDeck' |
     'num_1' | 'num_2' | 'num_3' | 'num_4' | 'str_1' | 'str_2' | 'str_3' | 'str_4' | 
     'deckFieldSettings' | 'tag' | 'searchText'
@@ -81,6 +81,7 @@ export const extractCompareFieldsFromDeck = (deck: Deck): DeckCompareFields => {
         isLegal: deck.isLegal,
         hasUnownedCards: deck.hasUnownedCards,
         isFavorite: deck.isFavorite,
+        eventPoolId: deck.eventPoolId,
 
         // Map型のゾーンを比較可能な配列に変換
         // @ts-ignore: Array.from(Map)をJSON.stringifyするために一旦anyとして扱う
@@ -7,6 +7,7 @@
  * 2. カード追加・削除のハンドラ
  * 3. Map型のカード枚数管理とtotalCards/uniqueCardsの自動計算
  * 4. ゾーン切り替えハンドラ
+ * 5. 使用できる枚数の上限（cardLimits）が指定された場合、全ゾーン合計が上限を超える追加を拒否
  */
 
 import { useState, useCallback } from 'react';
@@ -18,6 +19,8 @@ import type { Deck, DeckArea } from '../../../models/models';
 export interface UseDeckCardManagementProps {
     deckData: Deck | null;
     setDeckData: React.Dispatch<React.SetStateAction<Deck | null>>;
+    /** カードごとの使用可能枚数（イベントプールのデッキなど）。null の場合は上限なし */
+    cardLimits?: Map<string, number> | null;
 }
 
 /**
@@ -25,12 +28,13 @@ export interface UseDeckCardManagementProps {
  * 
  * デッキゾーンの選択、カードの追加・削除、枚数計算を提供します。
  * 
- * @param props - deckData, setDeckData
+ * @param props - deckData, setDeckData, cardLimits
  * @returns カード管理の状態とハンドラ
  */
 export const useDeckCardManagement = ({
     deckData,
     setDeckData,
+    cardLimits = null,
 }: UseDeckCardManagementProps) => {
     
     // --- ゾーン選択状態 ---
@@ -95,8 +99,20 @@ export const useDeckCardManagement = ({
         deckArea: 'mainDeck' | 'sideDeck' | 'extraDeck'
     ) => {
         const currentCount = deckData ? deckData[deckArea].get(cardId) || 0 : 0;
+
+        // 上限がある場合は、全ゾーンの合計枚数で判定する
+        if (cardLimits && deckData) {
+            const usedCount = (deckData.mainDeck.get(cardId) || 0)
+                + (deckData.sideDeck.get(cardId) || 0)
+                + (deckData.extraDeck.get(cardId) || 0);
+            if (usedCount >= (cardLimits.get(cardId) || 0)) {
+                console.warn(`[useDeckCardManagement:handleCardAdd] ⚠️ Card limit reached for ${cardId}.`);
+                return;
+            }
+        }
+
         updateCardCount(deckArea, cardId, currentCount + 1);
-    }, [deckData, updateCardCount]);
+    }, [deckData, cardLimits, updateCardCount]);
 
     /**
      * 指定されたゾーンからカードを1枚削除
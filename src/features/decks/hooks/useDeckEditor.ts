@@ -7,6 +7,10 @@
  * 2. 初期ロード (updateLocalState) や保存 (handleSaveDeck) 時のカスタム設定に関する冗長な処理を削除。
  * 3. ダーティチェック (isDirty) のロジックを簡素化。
  * 4. 【最新修正】カスタムフィールド設定の更新ロジックを、Pack/Deck モデルのプロパティ名 (num_1, str_2 など) に直接アクセスするように変更し、TypeScriptのエラーを解消。
+ * 5. イベントプールに紐づくデッキ（eventPoolId）では、所持カードの代わりにプールのカードと枚数を参照データとし、追加できる枚数をプールの枚数までに制限する。
+ * 6. デッキが参照する構築ルール（DeckRuleStore）を編集中の内容に対してリアルタイムに判定し、判定結果（legality）を提供する。
+ *    ルールがフォーマットを参照している場合は、FormatListStore の判定日時点の禁止・制限リストも判定する。
+ * 7. 履歴のスナップショットとの差分から選択した変更を、編集中のデッキに復元する（保存するまで確定しない）。
  */
 
 import { useEffect, useState, useCallback, useMemo } from 'react';
@@ -15,8 +19,13 @@ import { useCardPoolStore } from '../../../stores/cardPoolStore';
 import { useShallow } from 'zustand/react/shallow';
 import { useNavigate } from '@tanstack/react-router';
 import { useCardStore } from '../../../stores/cardStore';
-import type { Deck, DeckFieldSettings } from '../../../models/models';
+import { useEventPoolStore } from '../../../stores/eventPoolStore';
+import { useDeckRuleStore } from '../../../stores/deckRuleStore';
+import { useFormatListStore } from '../../../stores/formatListStore';
+import type { Deck, DeckFieldSettings, DeckLegalityResult } from '../../../models/models';
 import { createDefaultDeck } from '../../../utils/dataUtils';
+import { evaluateDeckLegality } from '../../../services/decks/deckLegality';
+import { applyDeckChanges, type DeckChangeSelection } from '../../../services/decks/deckDiff';
 
 // サブフック
 import { useDeckCardManagement } from './useDeckCardManagement';
@@ -67,6 +76,28 @@ export const useDeckEditor = (deckId: string) => {
 
     const navigate = useNavigate();
 
+    // EventPoolStoreからイベントプールを取得 (イベントプールに紐づくデッキ用)
+    const eventPools = useEventPoolStore(state => state.pools);
+    const fetchAllPools = useEventPoolStore(state => state.fetchAllPools);
+    const [isEventPoolsLoaded, setIsEventPoolsLoaded] = useState(false);
+
+    useEffect(() => {
+        fetchAllPools().finally(() => setIsEventPoolsLoaded(true));
+    }, [fetchAllPools]);
+
+    const eventPool = useMemo(
+        () => deckData?.eventPoolId ? eventPools.find(p => p.poolId === deckData.eventPoolId) ?? null : null,
+        [deckData?.eventPoolId, eventPools]
+    );
+    // 紐づくプールが削除されている場合は、所持カードを参照データとして扱う
+    const isEventPoolMissing = !!deckData?.eventPoolId && !eventPool && isEventPoolsLoaded;
+
+    // イベントプールのカード枚数 (プールに紐づかないデッキでは null)
+    const eventPoolCards = useMemo(
+        () => eventPool ? new Map(eventPool.cards.map(({ cardId, count }) => [cardId, count])) : null,
+        [eventPool]
+    );
+
     // ========================================
     // サブフック統合
     // ========================================
@@ -78,6 +109,7 @@ export const useDeckEditor = (deckId: string) => {
     } = useDeckCardManagement({
         deckData,
         setDeckData,
+        cardLimits: eventPoolCards,
     });
 
     // DeckStoreから必要なアクションと状態を取得
@@ -97,6 +129,20 @@ export const useDeckEditor = (deckId: string) => {
     // CardStoreから全カードリストを取得
     const allCards = useCardStore(useShallow(state => state.cards));
 
+    // DeckRuleStoreから構築ルールを取得
+    const deckRules = useDeckRuleStore(state => state.rules);
+    // FormatListStoreからフォーマットと判定日を取得
+    const formatLists = useFormatListStore(state => state.formatLists);
+    const referenceDate = useFormatListStore(state => state.referenceDate);
+
+    // 構築ルールの判定 (編集中の内容に対してリアルタイムに評価)
+    const allCardsMap = useMemo(() => new Map(allCards.map(card => [card.cardId, card])), [allCards]);
+    const legality: DeckLegalityResult | null = useMemo(() => {
+        if (!deckData) return null;
+        const rule = deckData.ruleId ? deckRules.find(r => r.ruleId === deckData.ruleId) : undefined;
+        return evaluateDeckLegality(deckData, rule, allCardsMap, { formatLists, referenceDate });
+    }, [deckData, deckRules, allCardsMap, formatLists, referenceDate]);
+
 
     // --- 派生状態 ---
     const isNewDeck = useMemo(() => {
@@ -290,6 +336,15 @@ export const useDeckEditor = (deckId: string) => {
         });
     }, []);
 
+    // 履歴との差分から選択した変更を復元 (編集モードに切り替え、保存するまで確定しない)
+    // イベントプールのデッキは、プールの枚数を超えないように復元する
+    const handleApplyDeckChanges = useCallback((source: Deck, selection: DeckChangeSelection) => {
+        setDeckData(prev => prev ? applyDeckChanges(prev, source, selection, eventPoolCards) : prev);
+        setisEditorMode(true);
+        setSaveMessage('📝 選択した変更を復元しました。保存すると確定します。');
+        setTimeout(() => setSaveMessage(null), 3000);
+    }, [eventPoolCards]);
+
     // [削除]: handleCardAdd/handleCardRemove は useDeckCardManagement に移動済み
 
     // ArchiveDependencies の構築
@@ -427,6 +482,7 @@ export const useDeckEditor = (deckId: string) => {
         handleInputChange,
         handleSelectChange,
         updateCardCount,
+        handleApplyDeckChanges,
         
         // カスタムフィールド関連のハンドラ
         onDeckCustomFieldChange, // Deckのカスタムフィールド値の変更
@@ -443,6 +499,14 @@ export const useDeckEditor = (deckId: string) => {
 
         // 参照データ
         allCards: allCards,
-        ownedCards: ownedCards,
+        ownedCards: eventPoolCards ?? ownedCards,
+
+        // イベントプールに紐づくデッキの情報
+        eventPool,
+        isEventPoolMissing,
+
+        // 構築ルール
+        deckRules,
+        legality,
     };
 };
\ No newline at end of file
@@ -0,0 +1,180 @@
+/**
+ * src/features/decks/hooks/useDeckHistoryDiff.ts
+ *
+ * デッキの履歴比較（DeckHistoryDiffModal）のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. `deckStore` から対象デッキの履歴スナップショットを取得する（新しい順）。
+ * 2. 比較元・比較先（履歴のスナップショット、または編集中のデッキ）の選択状態を管理し、`deckDiff` で差分を算出する。
+ * 3. 差分の各変更（カード・メタデータ・カスタムフィールド）の選択状態を管理し、選択した変更を比較元の値で復元する操作を提供する。
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+
+import type { ArchiveDeck, Card, Deck } from '../../../models/models';
+import { useDeckStore } from '../../../stores/deckStore';
+import {
+    diffDecks,
+    DECK_DIFF_AREAS,
+    type DeckChangeSelection,
+    type DeckDiffFieldKey,
+} from '../../../services/decks/deckDiff';
+
+/**
+ * 比較対象として編集中のデッキを表すID
+ */
+export const LIVE_DECK_ID = 'live';
+
+export const useDeckHistoryDiff = (
+    deck: Deck,
+    allCards: Card[],
+    isOpen: boolean,
+    onApplyChanges: (source: Deck, selection: DeckChangeSelection) => void
+) => {
+
+    const fetchAllArchiveDecksFromHistory = useDeckStore(state => state.fetchAllArchiveDecksFromHistory);
+
+    // --- 状態 ---
+    const [snapshots, setSnapshots] = useState<ArchiveDeck[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [baseId, setBaseId] = useState<string>(LIVE_DECK_ID);
+    const [targetId, setTargetId] = useState<string>(LIVE_DECK_ID);
+    const [selectedCardKeys, setSelectedCardKeys] = useState<Set<string>>(new Set());
+    const [selectedFieldKeys, setSelectedFieldKeys] = useState<Set<DeckDiffFieldKey>>(new Set());
+
+    const cardMap = useMemo(() => new Map(allCards.map(card => [card.cardId, card])), [allCards]);
+
+    // モーダルを開いたときに履歴を取得し、最新のスナップショットと編集中のデッキを比較する
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCancelled = false;
+
+        const loadSnapshots = async () => {
+            setIsLoading(true);
+            setLoadError(null);
+            try {
+                const archives = await fetchAllArchiveDecksFromHistory();
+                if (isCancelled) return;
+                const deckSnapshots = archives.filter(archive => archive.deckId === deck.deckId);
+                setSnapshots(deckSnapshots);
+                setBaseId(deckSnapshots[0]?.meta.archiveId ?? LIVE_DECK_ID);
+                setTargetId(LIVE_DECK_ID);
+            } catch (error) {
+                console.error('[useDeckHistoryDiff:loadSnapshots] ❌ Failed to fetch deck history:', error);
+                if (!isCancelled) setLoadError('❌ 履歴の取得に失敗しました。');
+            } finally {
+                if (!isCancelled) setIsLoading(false);
+            }
+        };
+
+        loadSnapshots();
+        return () => { isCancelled = true; };
+    }, [isOpen, deck.deckId, fetchAllArchiveDecksFromHistory]);
+
+    // 補助関数: IDから比較対象のデッキを取得する
+    const resolveDeck = useCallback((id: string): Deck | null => {
+        if (id === LIVE_DECK_ID) return deck;
+        return snapshots.find(snapshot => snapshot.meta.archiveId === id) ?? null;
+    }, [deck, snapshots]);
+
+    const baseDeck = resolveDeck(baseId);
+    const targetDeck = resolveDeck(targetId);
+
+    const diff = useMemo(
+        () => baseDeck && targetDeck ? diffDecks(baseDeck, targetDeck) : { cardChanges: [], fieldChanges: [] },
+        [baseDeck, targetDeck]
+    );
+
+    // カードの変更はエリアごとにカード名の順で表示する
+    const cardChanges = useMemo(() => diff.cardChanges
+        .map(change => ({ ...change, name: cardMap.get(change.cardId)?.name ?? change.cardId }))
+        .sort((a, b) => DECK_DIFF_AREAS.indexOf(a.area) - DECK_DIFF_AREAS.indexOf(b.area) || a.name.localeCompare(b.name)),
+        [diff.cardChanges, cardMap]
+    );
+
+    // 比較対象が変わったら変更の選択を解除
+    useEffect(() => {
+        setSelectedCardKeys(new Set());
+        setSelectedFieldKeys(new Set());
+    }, [baseId, targetId, snapshots]);
+
+    // --- 変更の選択 ---
+    const handleToggleCardChange = useCallback((key: string) => {
+        setSelectedCardKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    }, []);
+
+    const handleToggleFieldChange = useCallback((key: DeckDiffFieldKey) => {
+        setSelectedFieldKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    }, []);
+
+    const handleSelectAll = useCallback(() => {
+        setSelectedCardKeys(new Set(diff.cardChanges.map(change => change.key)));
+        setSelectedFieldKeys(new Set(diff.fieldChanges.map(change => change.key)));
+    }, [diff]);
+
+    const handleClearSelection = useCallback(() => {
+        setSelectedCardKeys(new Set());
+        setSelectedFieldKeys(new Set());
+    }, []);
+
+    const handleSwap = useCallback(() => {
+        setBaseId(targetId);
+        setTargetId(baseId);
+    }, [baseId, targetId]);
+
+    const selectedCount = selectedCardKeys.size + selectedFieldKeys.size;
+
+    /**
+     * 選択した変更を、比較元の値で編集中のデッキに復元する。
+     */
+    const handleRestoreSelected = useCallback(() => {
+        if (!baseDeck || selectedCount === 0) return;
+        onApplyChanges(baseDeck, {
+            cardKeys: Array.from(selectedCardKeys),
+            fieldKeys: Array.from(selectedFieldKeys),
+        });
+        handleClearSelection();
+    }, [baseDeck, selectedCount, selectedCardKeys, selectedFieldKeys, onApplyChanges, handleClearSelection]);
+
+    return {
+        // 履歴
+        snapshots,
+        isLoading,
+        loadError,
+
+        // 比較対象
+        baseId,
+        setBaseId,
+        targetId,
+        setTargetId,
+        handleSwap,
+        isSameTarget: baseId === targetId,
+        // 比較元が編集中のデッキの場合、復元しても変化しない
+        canRestore: baseId !== LIVE_DECK_ID && selectedCount > 0,
+
+        // 差分
+        cardChanges,
+        fieldChanges: diff.fieldChanges,
+        cardMap,
+
+        // 変更の選択
+        selectedCardKeys,
+        selectedFieldKeys,
+        selectedCount,
+        handleToggleCardChange,
+        handleToggleFieldChange,
+        handleSelectAll,
+        handleClearSelection,
+        handleRestoreSelected,
+    };
+};
@@ -0,0 +1,154 @@
+/**
+ * src/features/decks/hooks/useDeckRuleEditor.ts
+ *
+ * デッキの構築ルール（DeckRule）の作成・編集モーダルのロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. 編集中のルール（editingRule）の状態を管理し、モーダルを開くたびに初期値（既存ルール or 新規）でリセットする。
+ * 2. 基本項目（名前・説明・参照するフォーマット）、エリアごとの枚数範囲、同一カード・同名カードの上限の変更ハンドラを提供する。
+ * 3. タグの許可/禁止リストをカンマ区切りの入力として管理し、保存時に配列へ変換する。
+ * 4. カスタムフィールドの集計条件の行の追加・変更・削除ハンドラを提供する。
+ * 5. DeckRuleStore を介した保存・削除を実行する。
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { DeckRule, DeckArea, DeckAreaSizeRange, DeckFieldConstraint } from '../../../models/models';
+import { useDeckRuleStore } from '../../../stores/deckRuleStore';
+import { createDefaultDeckRule } from '../../../utils/dataUtils';
+
+export interface UseDeckRuleEditorProps {
+    open: boolean;
+    rule: DeckRule | null;  // 編集対象（null の場合は新規作成）
+}
+
+type TagListKey = 'requiredTags' | 'forbiddenTags';
+
+// 補助関数: カンマ（全角・半角）区切りの入力を、重複のない文字列の配列に変換する
+const parseListInput = (input: string): string[] =>
+    [...new Set(input.split(/[,、]/).map(s => s.trim()).filter(Boolean))];
+
+// 補助関数: 数値入力を上限値に変換する（空欄は制限なし）
+export const parseLimitInput = (input: string): number | null => {
+    if (input.trim() === '') return null;
+    const value = parseInt(input, 10);
+    return isNaN(value) ? null : Math.max(0, value);
+};
+
+export const useDeckRuleEditor = ({ open, rule }: UseDeckRuleEditorProps) => {
+
+    const saveRule = useDeckRuleStore(state => state.saveRule);
+    const deleteRule = useDeckRuleStore(state => state.deleteRule);
+
+    const [editingRule, setEditingRule] = useState<DeckRule>(() => rule ?? createDefaultDeckRule());
+    const [tagInputs, setTagInputs] = useState<Record<TagListKey, string>>({ requiredTags: '', forbiddenTags: '' });
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    // モーダルを開くたびに初期値をリセット
+    useEffect(() => {
+        if (open) {
+            const initialRule = rule ?? createDefaultDeckRule();
+            setEditingRule(initialRule);
+            setTagInputs({
+                requiredTags: initialRule.requiredTags.join(', '),
+                forbiddenTags: initialRule.forbiddenTags.join(', '),
+            });
+            setSaveError(null);
+        }
+    }, [open, rule]);
+
+    // --- 基本項目 ---
+    const handleFieldChange = useCallback(<K extends 'name' | 'description' | 'formatId' | 'maxCopiesPerCard' | 'maxCopiesPerName' | 'requiredRarities' | 'forbiddenRarities'>(
+        field: K,
+        value: DeckRule[K]
+    ) => {
+        setEditingRule(prev => ({ ...prev, [field]: value }));
+    }, []);
+
+    // --- エリアごとの枚数範囲 ---
+    const handleAreaSizeChange = useCallback((area: DeckArea, updates: Partial<DeckAreaSizeRange>) => {
+        setEditingRule(prev => ({
+            ...prev,
+            areaSizes: { ...prev.areaSizes, [area]: { ...prev.areaSizes[area], ...updates } },
+        }));
+    }, []);
+
+    // --- タグ ---
+    const handleTagInputChange = useCallback((key: TagListKey, value: string) => {
+        setTagInputs(prev => ({ ...prev, [key]: value }));
+    }, []);
+
+    // --- 集計条件 ---
+    const handleAddConstraint = useCallback(() => {
+        setEditingRule(prev => ({
+            ...prev,
+            fieldConstraints: [
+                ...prev.fieldConstraints,
+                { field: 'num_1', aggregate: 'sum', operator: 'lte', value: 0, area: 'mainDeck' },
+            ],
+        }));
+    }, []);
+
+    const handleConstraintChange = useCallback((index: number, updates: Partial<DeckFieldConstraint>) => {
+        setEditingRule(prev => ({
+            ...prev,
+            fieldConstraints: prev.fieldConstraints.map((c, i) => i === index ? { ...c, ...updates } : c),
+        }));
+    }, []);
+
+    const handleRemoveConstraint = useCallback((index: number) => {
+        setEditingRule(prev => ({ ...prev, fieldConstraints: prev.fieldConstraints.filter((_, i) => i !== index) }));
+    }, []);
+
+    // --- 保存/削除 ---
+    const handleSave = useCallback(async (): Promise<DeckRule | null> => {
+        if (!editingRule.name.trim()) {
+            setSaveError('ルール名を入力してください。');
+            return null;
+        }
+        const invalidArea = (Object.keys(editingRule.areaSizes) as DeckArea[]).find(area => {
+            const { min, max } = editingRule.areaSizes[area];
+            return min !== null && max !== null && min > max;
+        });
+        if (invalidArea) {
+            setSaveError('最小枚数が最大枚数を超えているエリアがあります。');
+            return null;
+        }
+        try {
+            return await saveRule({
+                ...editingRule,
+                requiredTags: parseListInput(tagInputs.requiredTags),
+                forbiddenTags: parseListInput(tagInputs.forbiddenTags),
+            });
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : '構築ルールの保存に失敗しました。');
+            return null;
+        }
+    }, [editingRule, tagInputs, saveRule]);
+
+    const handleDelete = useCallback(async (): Promise<boolean> => {
+        if (!rule) return false;
+        if (!window.confirm(`構築ルール「${rule.name}」を削除しますか？\nこのルールを参照しているデッキは、ルール違反として判定されます。`)) return false;
+        try {
+            await deleteRule(rule.ruleId);
+            return true;
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : '構築ルールの削除に失敗しました。');
+            return false;
+        }
+    }, [rule, deleteRule]);
+
+    return {
+        editingRule,
+        tagInputs,
+        saveError,
+        isExistingRule: rule !== null,
+
+        handleFieldChange,
+        handleAreaSizeChange,
+        handleTagInputChange,
+        handleAddConstraint,
+        handleConstraintChange,
+        handleRemoveConstraint,
+        handleSave,
+        handleDelete,
+    };
+};
@@ -0,0 +1,125 @@
+/**
+ * src/features/decks/hooks/useDeckTextImport.ts
+ *
+ * テキスト形式のデッキリストからのデッキ作成（DeckTextImportModal）のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. 入力テキスト・名前解決の対象とするパック・デッキ名の入力状態を管理する。
+ * 2. `deckTextIO` で入力テキストをカードに解決し、解決できない行・候補が複数ある行を提供する（候補を選んで行を修正する操作を含む）。
+ * 3. すべての行が解決できた場合に、解決したカードで新しいデッキを作成して保存する。
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import type { Card, Deck, DeckType } from '../../../models/models';
+import { useCardStore } from '../../../stores/cardStore';
+import { usePackStore } from '../../../stores/packStore';
+import { useDeckStore } from '../../../stores/deckStore';
+import { resolveDeckText, replaceDeckTextLineCard } from '../../../services/data-io/deckTextIO';
+import { createDefaultDeck } from '../../../utils/dataUtils';
+
+// 補助関数: 使用しているエリアに応じたデッキ種別
+const inferDeckType = (sideDeck: Map<string, number>, extraDeck: Map<string, number>): DeckType => {
+    if (extraDeck.size > 0) return 'MainSideExtra';
+    if (sideDeck.size > 0) return 'MainSide';
+    return 'MainOnly';
+};
+
+export const useDeckTextImport = () => {
+
+    const allCards = useCardStore(useShallow(state => state.cards));
+    const packs = usePackStore(state => state.packs);
+    const saveDeck = useDeckStore(state => state.saveDeck);
+
+    // --- 入力 ---
+    const [text, setText] = useState('');
+    const [packId, setPackId] = useState<string>('');
+    // 未入力の場合はテキストの先頭のコメント行をデッキ名として使用する
+    const [deckName, setDeckName] = useState('');
+
+    // --- 状態 ---
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    const result = useMemo(
+        () => resolveDeckText(text, allCards, { packId: packId || null, packs }),
+        [text, allCards, packId, packs]
+    );
+
+    const packNameMap = useMemo(() => new Map(packs.map(pack => [pack.packId, pack.name])), [packs]);
+
+    const resolvedDeckName = deckName.trim() || result.title || '';
+    const canCreate = result.totalCards > 0 && result.issues.length === 0 && !!resolvedDeckName && !isSaving;
+
+    /**
+     * 候補が複数ある行を、選択した候補のカード番号と収録パックを付けた行に置き換える。
+     */
+    const handleSelectCandidate = useCallback((lineNumber: number, card: Card) => {
+        setText(prev => replaceDeckTextLineCard(prev, lineNumber, card, packNameMap.get(card.packId)));
+    }, [packNameMap]);
+
+    const handleReset = useCallback(() => {
+        setText('');
+        setPackId('');
+        setDeckName('');
+        setSaveError(null);
+    }, []);
+
+    /**
+     * 解決したカードで新しいデッキを作成して保存する。
+     * @returns 作成したデッキ（作成できない場合・失敗した場合は null）
+     */
+    const handleCreateDeck = useCallback(async (): Promise<Deck | null> => {
+        if (!canCreate) return null;
+
+        setIsSaving(true);
+        setSaveError(null);
+        try {
+            const { mainDeck, sideDeck, extraDeck } = result;
+            const deck: Deck = {
+                ...createDefaultDeck(),
+                name: resolvedDeckName,
+                deckType: inferDeckType(sideDeck, extraDeck),
+                mainDeck,
+                sideDeck,
+                extraDeck,
+                uniqueCards: mainDeck.size + sideDeck.size + extraDeck.size,
+                totalCards: result.totalCards,
+            };
+            const savedDeck = await saveDeck(deck);
+            console.log(`[useDeckTextImport:handleCreateDeck] ✅ Deck created from text: ${savedDeck.deckId}`);
+            handleReset();
+            return savedDeck;
+        } catch (error) {
+            console.error('[useDeckTextImport:handleCreateDeck] ❌ Failed to create deck from text:', error);
+            setSaveError('❌ デッキの作成に失敗しました。');
+            return null;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [canCreate, result, resolvedDeckName, saveDeck, handleReset]);
+
+    return {
+        // 入力
+        text,
+        setText,
+        packId,
+        setPackId,
+        packs,
+        packNameMap,
+        deckName,
+        setDeckName,
+        resolvedDeckName,
+
+        // 解決結果
+        result,
+        handleSelectCandidate,
+
+        // 作成
+        canCreate,
+        isSaving,
+        saveError,
+        handleCreateDeck,
+        handleReset,
+    };
+};
@@ -0,0 +1,153 @@
+/**
+ * src/features/decks/hooks/useDecklistImageExport.ts
+ *
+ * デッキリスト画像の出力（DecklistImageExportModal）のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. デッキから、デッキリスト画像に描画する内容（デッキ名・エリアごとの枚数・キーカード・エリアごとのカード）を作成する。
+ * 2. レイアウト設定（列数・カードの幅・配色・キーカードの表示）と、画像に含めるエリアの選択状態を管理する。
+ * 3. `imageUtils.createDecklistImage` でプレビュー画像を生成し、PNG としてダウンロードする操作を提供する。
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+
+import type { Card, Deck, DeckArea } from '../../../models/models';
+import { DECK_AREA_LABELS } from '../../../services/decks/deckLegality';
+import {
+    createDecklistImage,
+    DEFAULT_DECKLIST_IMAGE_LAYOUT,
+    type DecklistImageData,
+    type DecklistImageLayout,
+} from '../../../utils/imageUtils';
+
+const DECKLIST_IMAGE_AREAS: DeckArea[] = ['mainDeck', 'sideDeck', 'extraDeck'];
+
+/** 選択可能な配色 */
+export const DECKLIST_IMAGE_THEMES = {
+    dark: { label: 'ダーク', backgroundColor: '#1e1e24', textColor: '#ffffff' },
+    light: { label: 'ライト', backgroundColor: '#f5f5f5', textColor: '#212121' },
+} as const;
+
+export type DecklistImageTheme = keyof typeof DECKLIST_IMAGE_THEMES;
+
+export const useDecklistImageExport = (deck: Deck, allCards: Card[], isOpen: boolean) => {
+
+    // --- 入力 ---
+    const [columns, setColumns] = useState(DEFAULT_DECKLIST_IMAGE_LAYOUT.columns);
+    const [cardWidth, setCardWidth] = useState(DEFAULT_DECKLIST_IMAGE_LAYOUT.cardWidth);
+    const [theme, setTheme] = useState<DecklistImageTheme>('dark');
+    const [showKeyCards, setShowKeyCards] = useState(DEFAULT_DECKLIST_IMAGE_LAYOUT.showKeyCards);
+    const [includedAreas, setIncludedAreas] = useState<Record<DeckArea, boolean>>({
+        mainDeck: true, sideDeck: true, extraDeck: true,
+    });
+
+    // --- 状態 ---
+    const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [generateError, setGenerateError] = useState<string | null>(null);
+
+    const cardMap = useMemo(() => new Map(allCards.map(card => [card.cardId, card])), [allCards]);
+
+    const layout: DecklistImageLayout = useMemo(() => ({
+        ...DEFAULT_DECKLIST_IMAGE_LAYOUT,
+        columns,
+        cardWidth,
+        showKeyCards,
+        backgroundColor: DECKLIST_IMAGE_THEMES[theme].backgroundColor,
+        textColor: DECKLIST_IMAGE_THEMES[theme].textColor,
+    }), [columns, cardWidth, showKeyCards, theme]);
+
+    // 描画する内容 (空のエリアは含めず、カードは番号・名前の順)
+    const imageData: DecklistImageData = useMemo(() => {
+        const areaTotals = DECKLIST_IMAGE_AREAS.map(area => ({
+            area,
+            total: Array.from(deck[area].values()).reduce((sum, count) => sum + Math.max(0, count), 0),
+        }));
+
+        const sections = DECKLIST_IMAGE_AREAS
+            .filter(area => includedAreas[area])
+            .map(area => ({
+                label: DECK_AREA_LABELS[area],
+                totalCount: areaTotals.find(t => t.area === area)!.total,
+                cards: Array.from(deck[area].entries())
+                    .filter(([, count]) => count > 0)
+                    .map(([cardId, count]) => ({ cardId, count, card: cardMap.get(cardId) }))
+                    .sort((a, b) =>
+                        (a.card?.number ?? Number.MAX_SAFE_INTEGER) - (b.card?.number ?? Number.MAX_SAFE_INTEGER)
+                        || (a.card?.name ?? a.cardId).localeCompare(b.card?.name ?? b.cardId)),
+            }))
+            .filter(section => section.cards.length > 0);
+
+        const subtitle = [
+            ...areaTotals.filter(t => t.total > 0).map(t => `${DECK_AREA_LABELS[t.area]} ${t.total}`),
+            `合計 ${areaTotals.reduce((sum, t) => sum + t.total, 0)} 枚`,
+        ].join(' / ');
+
+        const keyCards = [deck.keycard_1, deck.keycard_2, deck.keycard_3]
+            .map(cardId => cardId ? cardMap.get(cardId) : undefined)
+            .filter((card): card is Card => !!card);
+
+        return { title: deck.name || '名称未設定のデッキ', subtitle, keyCards, sections };
+    }, [deck, cardMap, includedAreas]);
+
+    // モーダルを開いている間は、内容・レイアウトが変わるたびにプレビューを生成し直す
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCancelled = false;
+
+        const generate = async () => {
+            setIsGenerating(true);
+            setGenerateError(null);
+            try {
+                const url = await createDecklistImage(imageData, layout);
+                if (!isCancelled) setImageUrl(url);
+            } catch (error) {
+                console.error('[useDecklistImageExport:generate] ❌ Failed to create decklist image:', error);
+                if (!isCancelled) setGenerateError('❌ デッキリスト画像の生成に失敗しました。');
+            } finally {
+                if (!isCancelled) setIsGenerating(false);
+            }
+        };
+
+        generate();
+        return () => { isCancelled = true; };
+    }, [isOpen, imageData, layout]);
+
+    const handleToggleArea = useCallback((area: DeckArea) => {
+        setIncludedAreas(prev => ({ ...prev, [area]: !prev[area] }));
+    }, []);
+
+    /**
+     * 生成した画像を PNG としてダウンロードする。
+     */
+    const handleDownload = useCallback(() => {
+        if (!imageUrl) return;
+        const link = document.createElement('a');
+        link.href = imageUrl;
+        link.download = `${deck.name || 'deck'}_decklist.png`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    }, [imageUrl, deck.name]);
+
+    return {
+        // レイアウト
+        columns,
+        setColumns,
+        cardWidth,
+        setCardWidth,
+        theme,
+        setTheme,
+        showKeyCards,
+        setShowKeyCards,
+        includedAreas,
+        handleToggleArea,
+        hasKeyCards: imageData.keyCards.length > 0,
+        hasCards: imageData.sections.length > 0,
+
+        // 画像
+        imageUrl,
+        isGenerating,
+        generateError,
+        handleDownload,
+    };
+};
@@ -0,0 +1,302 @@
+/**
+ * src/features/decks/hooks/useDrawProbability.ts
+ *
+ * デッキのドロー確率計算（DrawProbabilityPanel）のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. メインデッキから確率計算の対象（DrawPoolEntry[]）と、条件に指定できるカード・タグ・カスタムフィールドの値の選択肢を作成する。
+ * 2. 初手枚数・ドロー枚数・ターン数の入力と、条件（AND で結合した OR の節）の編集状態を管理する。
+ * 3. キーカード（keycard_1〜3）ごと、および条件について、ターンごとの確率を超幾何分布で算出する。
+ * 4. マリガンのルールを含む条件の成功率を、`simulationWorkerService` を介して Web Worker で推定する（進捗・キャンセル）。
+ */
+
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+
+import type { Card, Deck, CardFieldSettings } from '../../../models/models';
+import { usePackStore } from '../../../stores/packStore';
+import { calculateDeckStatistics } from '../../../services/decks/deckStatistics';
+import {
+    calculateConditionProbability,
+    getCardsSeenByTurn,
+    DEFAULT_DRAW_SIMULATION_TRIALS,
+    MAX_DRAW_CONDITION_TARGETS,
+    type DrawCondition,
+    type DrawPoolEntry,
+    type DrawTarget,
+    type DrawTargetSelector,
+    type DrawTimingOptions,
+    type DrawSimulationResult,
+    type MulliganType,
+} from '../../../services/decks/drawProbability';
+import { simulationWorkerService, isSimulationAbortError } from '../../../services/simulation/simulationWorkerService';
+
+/**
+ * 選択可能な試行回数
+ */
+export const DRAW_TRIAL_OPTIONS = [1000, 10000, 50000, 100000] as const;
+
+/**
+ * ターンごとの確率を表示する最大ターン数
+ */
+export const MAX_DRAW_TURN = 10;
+
+/**
+ * マリガンする初手の判定基準
+ * - condition: 初手が条件を満たさない場合
+ * - keycards: 初手にキーカードが1枚もない場合
+ */
+export type MulliganKeepMode = 'condition' | 'keycards';
+
+/** ターンごとの確率 */
+export interface TurnProbability {
+    turn: number;
+    cardsSeen: number;
+    probability: number;
+}
+
+/** キーカード1枚分の確率 */
+export interface KeyCardProbability {
+    rank: 1 | 2 | 3;
+    cardId: string;
+    name: string;
+    copies: number;
+    probabilities: TurnProbability[];
+}
+
+/** 条件に指定できるカスタムフィールドの選択肢 */
+export interface DrawFieldOption {
+    field: keyof CardFieldSettings;
+    label: string;
+    values: string[];
+}
+
+export const useDrawProbability = (deck: Deck, allCards: Card[]) => {
+
+    const packs = usePackStore(state => state.packs);
+
+    // --- 入力 ---
+    const [timing, setTiming] = useState<DrawTimingOptions>({ handSize: 5, drawsPerTurn: 1, turn: 1, skipFirstDraw: false });
+    const [condition, setCondition] = useState<DrawCondition>([]);
+    const [mulliganType, setMulliganType] = useState<MulliganType>('london');
+    const [maxMulligans, setMaxMulligans] = useState(1);
+    const [keepMode, setKeepMode] = useState<MulliganKeepMode>('condition');
+    const [trials, setTrials] = useState<number>(DEFAULT_DRAW_SIMULATION_TRIALS);
+    const [seedInput, setSeedInput] = useState('');
+
+    // --- 状態 ---
+    const [result, setResult] = useState<DrawSimulationResult | null>(null);
+    const [isSimulating, setIsSimulating] = useState(false);
+    // 進捗 (0〜1)。試行中でない場合は null
+    const [progress, setProgress] = useState<number | null>(null);
+    const [simulationError, setSimulationError] = useState<string | null>(null);
+
+    // 実行中の試行のキャンセル用
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const cardMap = useMemo(() => new Map(allCards.map(card => [card.cardId, card])), [allCards]);
+
+    // メインデッキのカード
+    const pool: DrawPoolEntry[] = useMemo(
+        () => Array.from(deck.mainDeck.entries())
+            .filter(([, count]) => count > 0)
+            .map(([cardId, count]) => ({ cardId, count, card: cardMap.get(cardId) })),
+        [deck.mainDeck, cardMap]
+    );
+    const deckSize = useMemo(() => pool.reduce((sum, entry) => sum + entry.count, 0), [pool]);
+
+    // 条件の選択肢 (メインデッキに含まれるカード・タグ・表示中のカスタムフィールドの値)
+    const { cardOptions, tagOptions, fieldOptions } = useMemo(() => {
+        const statistics = calculateDeckStatistics(deck, 'mainDeck', { cardMap, packs, ownedCards: new Map() });
+        const fields = new Map<keyof CardFieldSettings, DrawFieldOption>();
+        statistics.fieldDistributions.forEach(distribution => {
+            const option = fields.get(distribution.field);
+            const values = distribution.buckets.map(bucket => bucket.label);
+            if (option) option.values = Array.from(new Set([...option.values, ...values]));
+            else fields.set(distribution.field, { field: distribution.field, label: distribution.label, values });
+        });
+        return {
+            cardOptions: pool
+                .map(entry => ({ cardId: entry.cardId, name: entry.card?.name ?? entry.cardId, count: entry.count }))
+                .sort((a, b) => a.name.localeCompare(b.name)),
+            tagOptions: statistics.tagDistribution.map(bucket => bucket.label).filter(tag => pool.some(e => e.card?.tag?.includes(tag))),
+            fieldOptions: Array.from(fields.values()).filter(option => option.values.length > 0),
+        };
+    }, [deck, cardMap, packs, pool]);
+
+    const cardsSeen = getCardsSeenByTurn(timing);
+
+    // 補助関数: 1ターン目から指定ターンまでの確率
+    const calculateByTurn = useCallback((target: DrawCondition): TurnProbability[] =>
+        Array.from({ length: Math.max(1, Math.min(MAX_DRAW_TURN, timing.turn)) }, (_, i) => {
+            const seen = getCardsSeenByTurn({ ...timing, turn: i + 1 });
+            return { turn: i + 1, cardsSeen: seen, probability: calculateConditionProbability(pool, target, seen) };
+        }), [pool, timing]);
+
+    // キーカードごとの確率 (1枚以上)
+    const keyCardIds = useMemo(
+        () => ([deck.keycard_1, deck.keycard_2, deck.keycard_3] as (string | undefined)[])
+            .map((cardId, index) => ({ cardId, rank: (index + 1) as 1 | 2 | 3 }))
+            .filter((k): k is { cardId: string; rank: 1 | 2 | 3 } => !!k.cardId),
+        [deck.keycard_1, deck.keycard_2, deck.keycard_3]
+    );
+    const keyCardProbabilities: KeyCardProbability[] = useMemo(() => keyCardIds.map(({ cardId, rank }) => ({
+        rank,
+        cardId,
+        name: cardMap.get(cardId)?.name ?? cardId,
+        copies: deck.mainDeck.get(cardId) || 0,
+        probabilities: calculateByTurn([[{ selector: { type: 'card', cardId }, minCount: 1 }]]),
+    })), [keyCardIds, cardMap, deck.mainDeck, calculateByTurn]);
+
+    const conditionProbabilities: TurnProbability[] = useMemo(
+        () => condition.length > 0 ? calculateByTurn(condition) : [],
+        [condition, calculateByTurn]
+    );
+
+    // --- 条件の編集 ---
+    const targetCount = condition.reduce((sum, clause) => sum + clause.length, 0);
+    const canAddTarget = targetCount < MAX_DRAW_CONDITION_TARGETS;
+
+    /**
+     * 対象を追加する。clauseIndex が null の場合は新しい節（AND）として、指定した場合はその節に OR で追加する。
+     */
+    const handleAddTarget = useCallback((target: DrawTarget, clauseIndex: number | null) => {
+        if (!canAddTarget) return;
+        setCondition(prev => clauseIndex === null || !prev[clauseIndex]
+            ? [...prev, [target]]
+            : prev.map((clause, i) => i === clauseIndex ? [...clause, target] : clause));
+    }, [canAddTarget]);
+
+    const handleTargetMinCountChange = useCallback((clauseIndex: number, targetIndex: number, minCount: number) => {
+        setCondition(prev => prev.map((clause, i) => i !== clauseIndex ? clause
+            : clause.map((target, j) => j === targetIndex ? { ...target, minCount } : target)));
+    }, []);
+
+    const handleRemoveTarget = useCallback((clauseIndex: number, targetIndex: number) => {
+        setCondition(prev => prev
+            .map((clause, i) => i === clauseIndex ? clause.filter((_, j) => j !== targetIndex) : clause)
+            .filter(clause => clause.length > 0));
+    }, []);
+
+    const handleClearCondition = useCallback(() => setCondition([]), []);
+
+    /**
+     * 対象の表示名を返す。
+     */
+    const describeTarget = useCallback((selector: DrawTargetSelector): string => {
+        switch (selector.type) {
+            case 'card':
+                return cardMap.get(selector.cardId)?.name ?? selector.cardId;
+            case 'tag':
+                return `タグ: ${selector.tag}`;
+            case 'field':
+                return `${fieldOptions.find(o => o.field === selector.field)?.label ?? selector.field} = ${selector.value}`;
+        }
+    }, [cardMap, fieldOptions]);
+
+    // --- モンテカルロ法 ---
+    const keepCondition: DrawCondition = useMemo(() => {
+        if (keepMode === 'keycards') {
+            return keyCardIds.length > 0 ? [keyCardIds.map(({ cardId }) => ({ selector: { type: 'card', cardId }, minCount: 1 }))] : [];
+        }
+        return condition;
+    }, [keepMode, keyCardIds, condition]);
+
+    const cancelSimulation = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsSimulating(false);
+        setProgress(null);
+    }, []);
+
+    // 入力が変わったら以前の結果を破棄し、アンマウント時は実行中の試行をキャンセル
+    useEffect(() => {
+        setResult(null);
+        setSimulationError(null);
+    }, [pool, condition, timing, mulliganType, maxMulligans, keepCondition]);
+    useEffect(() => cancelSimulation, [cancelSimulation]);
+
+    const runSimulation = useCallback(async () => {
+        if (condition.length === 0 || deckSize === 0) return;
+
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        setIsSimulating(true);
+        setSimulationError(null);
+        setProgress(0);
+
+        try {
+            const parsedSeed = parseInt(seedInput, 10);
+            const simulationResult = await simulationWorkerService.runJob(
+                {
+                    type: 'simulateDraws',
+                    pool,
+                    condition,
+                    timing,
+                    mulligan: { type: mulliganType, maxMulligans, keepCondition },
+                    options: { trials, seed: isNaN(parsedSeed) ? undefined : parsedSeed >>> 0 },
+                },
+                {
+                    signal: controller.signal,
+                    onProgress: (completed, total) => setProgress(completed / total),
+                }
+            );
+            setResult(simulationResult);
+        } catch (error) {
+            if (isSimulationAbortError(error)) return;
+            console.error('[useDrawProbability:runSimulation] ❌ Failed to simulate draws:', error);
+            setSimulationError('❌ シミュレーション中にエラーが発生しました。');
+        } finally {
+            // 後続の試行が開始されている場合は、その状態を上書きしない
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsSimulating(false);
+                setProgress(null);
+            }
+        }
+    }, [condition, deckSize, pool, timing, mulliganType, maxMulligans, keepCondition, trials, seedInput]);
+
+    return {
+        // 入力
+        timing,
+        setTiming,
+        deckSize,
+        cardsSeen,
+
+        // キーカード
+        keyCardProbabilities,
+
+        // 条件
+        condition,
+        conditionProbabilities,
+        cardOptions,
+        tagOptions,
+        fieldOptions,
+        canAddTarget,
+        handleAddTarget,
+        handleTargetMinCountChange,
+        handleRemoveTarget,
+        handleClearCondition,
+        describeTarget,
+
+        // モンテカルロ法
+        mulliganType,
+        setMulliganType,
+        maxMulligans,
+        setMaxMulligans,
+        keepMode,
+        setKeepMode,
+        hasKeepCondition: keepCondition.length > 0,
+        trials,
+        setTrials,
+        seedInput,
+        setSeedInput,
+        canRun: condition.length > 0 && deckSize > 0 && !isSimulating,
+        isSimulating,
+        progress,
+        runSimulation,
+        cancelSimulation,
+        result,
+        simulationError,
+    };
+};
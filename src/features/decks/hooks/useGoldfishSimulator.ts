@@ -0,0 +1,111 @@
+/**
+ * src/features/decks/hooks/useGoldfishSimulator.ts
+ *
+ * デッキの一人回し（GoldfishSimulatorModal）のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. 初手の枚数・1ターンのドロー枚数・マリガンのルールと最大回数・シードの入力状態を管理する。
+ * 2. goldfishSimulator の盤面（GoldfishState）を保持し、開始・マリガン・キープ・ドロー・ターン進行・シャッフル・カードの移動の操作を提供する。
+ * 3. 盤面のカードを表示するためのカード情報（cardMap）と、プレビュー中のカードを管理する。
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+
+import type { Card, Deck } from '../../../models/models';
+import type { MulliganType } from '../../../services/decks/drawProbability';
+import {
+    createGoldfishGame,
+    canMulligan,
+    isMulliganLimitReached,
+    mulliganGoldfish,
+    keepGoldfishHand,
+    drawGoldfishCards,
+    advanceGoldfishTurn,
+    shuffleGoldfishLibrary,
+    moveGoldfishCard,
+    type GoldfishState,
+    type GoldfishZone,
+} from '../../../services/decks/goldfishSimulator';
+import { generateSeed } from '../../../utils/randomUtils';
+
+export const useGoldfishSimulator = (deck: Deck, allCards: Card[]) => {
+
+    // --- 入力 ---
+    const [handSize, setHandSize] = useState(5);
+    const [drawsPerTurn, setDrawsPerTurn] = useState(1);
+    const [mulliganType, setMulliganType] = useState<MulliganType>('london');
+    const [maxMulligans, setMaxMulligans] = useState(3);
+    const [seedInput, setSeedInput] = useState('');
+
+    // --- 状態 ---
+    const [game, setGame] = useState<GoldfishState | null>(null);
+    const [previewCardId, setPreviewCardId] = useState<string | null>(null);
+
+    const cardMap = useMemo(() => new Map(allCards.map(card => [card.cardId, card])), [allCards]);
+    const deckSize = useMemo(
+        () => Array.from(deck.mainDeck.values()).reduce((sum, count) => sum + Math.max(0, count), 0),
+        [deck.mainDeck]
+    );
+
+    /**
+     * 現在のメインデッキで一人回しを開始する（シード未入力の場合は新しいシードを生成する）。
+     */
+    const handleStart = useCallback(() => {
+        const parsedSeed = parseInt(seedInput, 10);
+        const seed = isNaN(parsedSeed) ? generateSeed() : parsedSeed >>> 0;
+        setGame(createGoldfishGame(deck.mainDeck, { seed, handSize, mulliganType, maxMulligans }));
+        setPreviewCardId(null);
+    }, [deck.mainDeck, seedInput, handSize, mulliganType, maxMulligans]);
+
+    // 補助関数: 盤面がある場合のみ操作を適用する
+    const update = useCallback((operation: (state: GoldfishState) => GoldfishState) => {
+        setGame(prev => prev ? operation(prev) : prev);
+    }, []);
+
+    const handleMulligan = useCallback(() => update(mulliganGoldfish), [update]);
+    const handleKeep = useCallback(() => update(keepGoldfishHand), [update]);
+    const handleDraw = useCallback(() => update(state => drawGoldfishCards(state, 1)), [update]);
+    const handleNextTurn = useCallback(() => update(state => advanceGoldfishTurn(state, drawsPerTurn)), [update, drawsPerTurn]);
+    const handleShuffle = useCallback(() => update(shuffleGoldfishLibrary), [update]);
+    const handleMoveCard = useCallback((instanceId: string, toZone: GoldfishZone) => {
+        update(state => moveGoldfishCard(state, instanceId, toZone));
+    }, [update]);
+
+    const handleReset = useCallback(() => {
+        setGame(null);
+        setPreviewCardId(null);
+    }, []);
+
+    return {
+        // 入力
+        handSize,
+        setHandSize,
+        drawsPerTurn,
+        setDrawsPerTurn,
+        mulliganType,
+        setMulliganType,
+        maxMulligans,
+        setMaxMulligans,
+        seedInput,
+        setSeedInput,
+        deckSize,
+
+        // 盤面
+        game,
+        cardMap,
+        canMulligan: !!game && canMulligan(game),
+        // キープ前にマリガンの上限に達した (これ以上マリガンできない初手)
+        isMulliganLimitReached: !!game && !game.isKept && isMulliganLimitReached(game),
+        previewCard: previewCardId ? cardMap.get(previewCardId) ?? null : null,
+        setPreviewCardId,
+
+        // 操作
+        handleStart,
+        handleMulligan,
+        handleKeep,
+        handleDraw,
+        handleNextTurn,
+        handleShuffle,
+        handleMoveCard,
+        handleReset,
+    };
+};
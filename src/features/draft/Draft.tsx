@@ -0,0 +1,147 @@
+/**
+ * src/features/draft/Draft.tsx
+ *
+ * ブースタードラフト機能のメインコンポーネント。
+ * * 責務:
+ * 1. `useDraft` からドラフトの設定・進行状態・操作ハンドラを取得し、ページのレイアウトを構成する。
+ * 2. ドラフト開始前は `DraftSetupPanel`、進行中は `DraftPickPanel` を表示する。
+ * 3. ドラフト完了後は獲得したカードの一覧を表示し、イベントプールとしての保存と、プールからのデッキ作成を提供する。
+ * 4. 保存済みのドラフトのイベントプールを `EventPoolList` で一覧表示する。
+ */
+
+import React, { useMemo } from 'react';
+import { Box, Typography, Paper, Alert, Button, Chip } from '@mui/material';
+import SaveIcon from '@mui/icons-material/Save';
+import NoteAddIcon from '@mui/icons-material/NoteAdd';
+import ReplayIcon from '@mui/icons-material/Replay';
+
+import { useDraft } from './hooks/useDraft';
+import DraftSetupPanel from './components/DraftSetupPanel';
+import DraftPickPanel from './components/DraftPickPanel';
+import EventPoolList from '../event-pools/components/EventPoolList';
+import { collectDraftPool, HUMAN_SEAT_INDEX } from '../../services/draft/draftEngine';
+import { PAGE_PADDING, PAGE_FLEX_GROW, PAGE_TITLE_VARIANT } from '../../configs/configs';
+
+const Draft: React.FC = () => {
+
+    const {
+        boosterPacks,
+        selectedPack,
+        setSelectedPackId,
+        seatCount,
+        setSeatCount,
+        roundCount,
+        setRoundCount,
+        seedInput,
+        setSeedInput,
+        botSettings,
+        handleBotSettingsChange,
+        draftState,
+        draftPack,
+        isStarting,
+        getCard,
+        handleStartDraft,
+        handlePick,
+        handleAbandonDraft,
+        pools,
+        savedPoolId,
+        handleSavePool,
+        handleCreateDeckFromPool,
+        handleDeletePool,
+        actionError,
+    } = useDraft();
+
+    const draftPools = useMemo(() => pools.filter(p => p.source === 'draft'), [pools]);
+    const savedPool = useMemo(() => pools.find(p => p.poolId === savedPoolId) ?? null, [pools, savedPoolId]);
+
+    // 完了したドラフトでプレイヤーが獲得したカード
+    const pickedCards = useMemo(
+        () => draftState?.isComplete ? collectDraftPool(draftState.seats[HUMAN_SEAT_INDEX].picks) : [],
+        [draftState]
+    );
+
+    // 保存してからデッキを作成する (保存済みの場合はそのプールを使用)
+    const handleCreateDeckFromDraft = async () => {
+        const pool = savedPool ?? await handleSavePool();
+        if (pool) await handleCreateDeckFromPool(pool);
+    };
+
+    return (
+        <Box sx={{ p: PAGE_PADDING, flexGrow: PAGE_FLEX_GROW }}>
+            <Typography variant={PAGE_TITLE_VARIANT} gutterBottom>ブースタードラフト</Typography>
+
+            {actionError && <Alert severity="error" sx={{ mb: 2 }}>{actionError}</Alert>}
+            {draftState && draftState.warnings.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 2, whiteSpace: 'pre-line' }}>{draftState.warnings.join('\n')}</Alert>
+            )}
+
+            {!draftState && (
+                <DraftSetupPanel
+                    boosterPacks={boosterPacks}
+                    selectedPack={selectedPack}
+                    onPackChange={setSelectedPackId}
+                    seatCount={seatCount}
+                    onSeatCountChange={setSeatCount}
+                    roundCount={roundCount}
+                    onRoundCountChange={setRoundCount}
+                    seedInput={seedInput}
+                    onSeedInputChange={setSeedInput}
+                    botSettings={botSettings}
+                    onBotSettingsChange={handleBotSettingsChange}
+                    isStarting={isStarting}
+                    onStart={handleStartDraft}
+                />
+            )}
+
+            {draftState && !draftState.isComplete && (
+                <DraftPickPanel
+                    draftState={draftState}
+                    getCard={getCard}
+                    onPick={handlePick}
+                    onAbandon={handleAbandonDraft}
+                />
+            )}
+
+            {draftState?.isComplete && (
+                <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
+                    <Typography variant="h6" gutterBottom>
+                        ドラフト完了: {draftPack?.name ?? draftState.packId}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+                        {draftState.seatCount} 人 × {draftState.roundCount} パック / シード: {draftState.seed}
+                    </Typography>
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 2 }}>
+                        {pickedCards.map(({ cardId, count }) => {
+                            const card = getCard(cardId);
+                            return (
+                                <Chip
+                                    key={cardId}
+                                    label={`${card?.name ?? cardId}${count > 1 ? ` × ${count}` : ''}`}
+                                    size="small"
+                                    variant="outlined"
+                                    title={card?.rarity}
+                                />
+                            );
+                        })}
+                    </Box>
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                        <Button variant="outlined" startIcon={<SaveIcon />} onClick={handleSavePool} disabled={savedPool !== null}>
+                            {savedPool ? '保存済み' : 'イベントプールとして保存'}
+                        </Button>
+                        <Button variant="contained" startIcon={<NoteAddIcon />} onClick={handleCreateDeckFromDraft}>
+                            このプールでデッキを作成
+                        </Button>
+                        <Button color="inherit" startIcon={<ReplayIcon />} onClick={handleAbandonDraft}>
+                            新しいドラフト
+                        </Button>
+                    </Box>
+                </Paper>
+            )}
+
+            <Typography variant="h6" sx={{ mt: 3, mb: 1 }}>保存済みのドラフトプール</Typography>
+            <EventPoolList pools={draftPools} onCreateDeck={handleCreateDeckFromPool} onDelete={handleDeletePool} />
+        </Box>
+    );
+};
+
+export default Draft;
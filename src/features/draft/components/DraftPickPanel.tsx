@@ -0,0 +1,104 @@
+/**
+ * src/features/draft/components/DraftPickPanel.tsx
+ *
+ * ブースタードラフト画面に表示する、ドラフト進行中のピックパネルです。
+ *
+ * * 責務:
+ * 1. 現在のラウンド・ピック番号と、パスの方向（左/右）を表示する。
+ * 2. プレイヤーの前にあるパックのカードを一覧表示し、クリックでピックを親コンポーネントに通知する（onPick）。
+ * 3. プレイヤーのこれまでのピックと、各ボット席のピック数・最新のピックを表示する。
+ */
+
+import React from 'react';
+import { Paper, Box, Typography, Grid, Chip, Divider, Button } from '@mui/material';
+import StopIcon from '@mui/icons-material/Stop';
+
+import type { Card } from '../../../models/models';
+import ImagePreview from '../../../components/common/ImagePreview';
+import {
+    getPassDirection,
+    DRAFT_BOT_STRATEGY_OPTIONS,
+    HUMAN_SEAT_INDEX,
+    type DraftState,
+} from '../../../services/draft/draftEngine';
+
+interface DraftPickPanelProps {
+    draftState: DraftState;
+    getCard: (cardId: string) => Card | undefined;
+    onPick: (pickIndex: number) => void;
+    onAbandon: () => void;
+}
+
+// パックの列幅 (12分割)
+const PACK_CARD_GRID_SIZE = { xs: 4, sm: 3, md: 2 };
+
+const DraftPickPanel: React.FC<DraftPickPanelProps> = ({ draftState, getCard, onPick, onAbandon }) => {
+
+    const humanPack = draftState.currentPacks[HUMAN_SEAT_INDEX] ?? [];
+    const humanPicks = draftState.seats[HUMAN_SEAT_INDEX]?.picks ?? [];
+    const directionLabel = getPassDirection(draftState.round) === 1 ? '左へパス' : '右へパス';
+
+    return (
+        <Box>
+            <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                    <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                        <Typography variant="h6">
+                            パック {draftState.round + 1} / {draftState.roundCount} ・ ピック {draftState.pickInRound + 1}
+                        </Typography>
+                        <Chip label={directionLabel} size="small" />
+                    </Box>
+                    <Button color="inherit" variant="outlined" startIcon={<StopIcon />} onClick={onAbandon}>
+                        中断
+                    </Button>
+                </Box>
+
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                    ピックするカードをクリックしてください（残り {humanPack.length} 枚）。
+                </Typography>
+                <Grid container spacing={1}>
+                    {humanPack.map((cardId, index) => {
+                        const card = getCard(cardId);
+                        return (
+                            <Grid key={`${cardId}-${index}`} size={PACK_CARD_GRID_SIZE}>
+                                <Box
+                                    onClick={() => onPick(index)}
+                                    sx={{ cursor: 'pointer', '&:hover': { opacity: 0.8, transform: 'translateY(-2px)' }, transition: 'all 0.15s' }}
+                                >
+                                    <Box sx={{ aspectRatio: '63 / 88' }}>
+                                        <ImagePreview item={card ?? null} disableCarousel />
+                                    </Box>
+                                    <Typography variant="caption" component="div" noWrap>{card?.name ?? cardId}</Typography>
+                                    {card && <Chip label={card.rarity} size="small" variant="outlined" />}
+                                </Box>
+                            </Grid>
+                        );
+                    })}
+                </Grid>
+            </Paper>
+
+            <Paper elevation={1} sx={{ p: 2 }}>
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>あなたのピック ({humanPicks.length} 枚)</Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 2 }}>
+                    {humanPicks.map((cardId, index) => (
+                        <Chip key={`${cardId}-${index}`} label={getCard(cardId)?.name ?? cardId} size="small" />
+                    ))}
+                </Box>
+                <Divider sx={{ mb: 1 }} />
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>ボット</Typography>
+                {draftState.seats.filter(seat => !seat.isHuman).map(seat => {
+                    const strategyLabel = DRAFT_BOT_STRATEGY_OPTIONS.find(o => o.value === seat.botSettings?.strategy)?.label ?? '';
+                    const lastPick = seat.picks[seat.picks.length - 1];
+                    return (
+                        <Typography key={seat.seatIndex} variant="body2" color="text.secondary">
+                            席 {seat.seatIndex + 1} ({strategyLabel}): {seat.picks.length} 枚
+                            {lastPick ? ` / 直前のピック: ${getCard(lastPick)?.name ?? lastPick}` : ''}
+                        </Typography>
+                    );
+                })}
+            </Paper>
+        </Box>
+    );
+};
+
+export default DraftPickPanel;
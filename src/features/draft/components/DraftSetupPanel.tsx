@@ -0,0 +1,186 @@
+/**
+ * src/features/draft/components/DraftSetupPanel.tsx
+ *
+ * ブースタードラフト画面に表示する、ドラフト開始前の設定パネルです。
+ *
+ * * 責務:
+ * 1. ドラフトに使用する Booster パック・席数・ラウンド数・シードの入力UIを提供する。
+ * 2. ボット席ごとのピック方針（レアリティ / 数値フィールド / 色）と、方針が参照するフィールドの選択UIを提供する。
+ * 3. ドラフト開始ボタンを提供し、開始要求を親コンポーネントに通知する（onStart）。
+ */
+
+import React from 'react';
+import {
+    Paper, Box, Typography, Button, TextField, Divider,
+    Select, MenuItem, FormControl, InputLabel, CircularProgress
+} from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+
+import type { Pack } from '../../../models/models';
+import {
+    DRAFT_BOT_STRATEGY_OPTIONS,
+    DRAFT_NUM_FIELD_OPTIONS,
+    DRAFT_COLOR_FIELD_OPTIONS,
+    MIN_DRAFT_SEATS,
+    MAX_DRAFT_SEATS,
+    MIN_DRAFT_ROUNDS,
+    MAX_DRAFT_ROUNDS,
+    type DraftBotSettings,
+    type DraftBotStrategy,
+    type DraftNumField,
+    type DraftColorField,
+} from '../../../services/draft/draftEngine';
+
+interface DraftSetupPanelProps {
+    boosterPacks: Pack[];
+    selectedPack: Pack | null;
+    onPackChange: (packId: string) => void;
+    seatCount: number;
+    onSeatCountChange: (count: number) => void;
+    roundCount: number;
+    onRoundCountChange: (count: number) => void;
+    seedInput: string;
+    onSeedInputChange: (value: string) => void;
+    botSettings: DraftBotSettings[];
+    onBotSettingsChange: (botIndex: number, settings: Partial<DraftBotSettings>) => void;
+    isStarting: boolean;
+    onStart: () => void;
+}
+
+// 選択肢: 席数・ラウンド数
+const SEAT_COUNT_OPTIONS = Array.from({ length: MAX_DRAFT_SEATS - MIN_DRAFT_SEATS + 1 }, (_, i) => MIN_DRAFT_SEATS + i);
+const ROUND_COUNT_OPTIONS = Array.from({ length: MAX_DRAFT_ROUNDS - MIN_DRAFT_ROUNDS + 1 }, (_, i) => MIN_DRAFT_ROUNDS + i);
+
+// 補助関数: カードのカスタムフィールドの表示名（パックの設定に表示名がある場合は併記）
+const getFieldLabel = (pack: Pack | null, field: DraftNumField | DraftColorField): string => {
+    const displayName = pack?.cardFieldSettings?.[field]?.displayName;
+    return displayName ? `${displayName} (${field})` : field;
+};
+
+const DraftSetupPanel: React.FC<DraftSetupPanelProps> = ({
+    boosterPacks,
+    selectedPack,
+    onPackChange,
+    seatCount,
+    onSeatCountChange,
+    roundCount,
+    onRoundCountChange,
+    seedInput,
+    onSeedInputChange,
+    botSettings,
+    onBotSettingsChange,
+    isStarting,
+    onStart,
+}) => {
+
+    if (boosterPacks.length === 0) {
+        return <Typography color="text.secondary">ドラフトに使用できる Booster パックがありません。</Typography>;
+    }
+
+    return (
+        <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
+            <Typography variant="h6" gutterBottom>ドラフト設定</Typography>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+                <FormControl size="small" sx={{ minWidth: 240 }}>
+                    <InputLabel id="draft-pack-label">パック</InputLabel>
+                    <Select
+                        labelId="draft-pack-label"
+                        value={selectedPack?.packId ?? ''}
+                        label="パック"
+                        onChange={(e) => onPackChange(e.target.value)}
+                    >
+                        {boosterPacks.map(pack => (
+                            <MenuItem key={pack.packId} value={pack.packId}>{pack.name}</MenuItem>
+                        ))}
+                    </Select>
+                </FormControl>
+                <FormControl size="small" sx={{ minWidth: 120 }}>
+                    <InputLabel id="draft-seat-count-label">人数</InputLabel>
+                    <Select
+                        labelId="draft-seat-count-label"
+                        value={seatCount}
+                        label="人数"
+                        onChange={(e) => onSeatCountChange(Number(e.target.value))}
+                    >
+                        {SEAT_COUNT_OPTIONS.map(n => <MenuItem key={n} value={n}>{n} 人</MenuItem>)}
+                    </Select>
+                </FormControl>
+                <FormControl size="small" sx={{ minWidth: 140 }}>
+                    <InputLabel id="draft-round-count-label">パック数/人</InputLabel>
+                    <Select
+                        labelId="draft-round-count-label"
+                        value={roundCount}
+                        label="パック数/人"
+                        onChange={(e) => onRoundCountChange(Number(e.target.value))}
+                    >
+                        {ROUND_COUNT_OPTIONS.map(n => <MenuItem key={n} value={n}>{n} パック</MenuItem>)}
+                    </Select>
+                </FormControl>
+                <TextField
+                    label="シード (任意)"
+                    size="small"
+                    type="number"
+                    value={seedInput}
+                    onChange={(e) => onSeedInputChange(e.target.value)}
+                    sx={{ width: 160 }}
+                />
+            </Box>
+
+            <Divider sx={{ mb: 2 }} />
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>ボットのピック方針</Typography>
+            {botSettings.slice(0, seatCount - 1).map((settings, botIndex) => (
+                <Box key={botIndex} sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 1 }}>
+                    <Typography variant="body2" sx={{ minWidth: 60 }}>席 {botIndex + 2}</Typography>
+                    <FormControl size="small" sx={{ minWidth: 180 }}>
+                        <Select
+                            value={settings.strategy}
+                            onChange={(e) => onBotSettingsChange(botIndex, { strategy: e.target.value as DraftBotStrategy })}
+                        >
+                            {DRAFT_BOT_STRATEGY_OPTIONS.map(option => (
+                                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    {settings.strategy === 'numField' && (
+                        <FormControl size="small" sx={{ minWidth: 180 }}>
+                            <Select
+                                value={settings.numField}
+                                onChange={(e) => onBotSettingsChange(botIndex, { numField: e.target.value as DraftNumField })}
+                            >
+                                {DRAFT_NUM_FIELD_OPTIONS.map(field => (
+                                    <MenuItem key={field} value={field}>{getFieldLabel(selectedPack, field)}</MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    )}
+                    {settings.strategy === 'color' && (
+                        <FormControl size="small" sx={{ minWidth: 180 }}>
+                            <Select
+                                value={settings.colorField}
+                                onChange={(e) => onBotSettingsChange(botIndex, { colorField: e.target.value as DraftColorField })}
+                            >
+                                {DRAFT_COLOR_FIELD_OPTIONS.map(field => (
+                                    <MenuItem key={field} value={field}>{getFieldLabel(selectedPack, field)}</MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    )}
+                </Box>
+            ))}
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 2 }}>
+                レアリティ優先は封入設定の並び順（下ほど上位）で判定します。色を揃える方針では、選択した文字列フィールドを色として扱い、「赤/青」のように区切ると多色として扱います。
+            </Typography>
+
+            <Button
+                variant="contained"
+                startIcon={isStarting ? <CircularProgress size={16} color="inherit" /> : <PlayArrowIcon />}
+                onClick={onStart}
+                disabled={isStarting || !selectedPack}
+            >
+                {isStarting ? '開封中...' : 'ドラフトを開始'}
+            </Button>
+        </Paper>
+    );
+};
+
+export default DraftSetupPanel;
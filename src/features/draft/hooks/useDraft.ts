@@ -0,0 +1,225 @@
+/**
+ * src/features/draft/hooks/useDraft.ts
+ *
+ * ブースタードラフト画面のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. ドラフトの設定（パック・席数・ラウンド数・シード・ボットごとのピック設定）の状態を管理する。
+ * 2. 収録カード索引を読み込み、`openDraftBoosters` でブースターを開封してドラフトを開始する。
+ * 3. プレイヤーのピックを `applyDraftPick` に渡し、ボットのピックとパスを含めてドラフトを進める。
+ * 4. 完了したドラフトのピックをイベントプール（EventPoolStore）として保存し、保存済みプールの一覧・削除を提供する。
+ * 5. イベントプールから新しいデッキを作成し（DeckStore.saveDeck）、デッキ編集画面へ遷移する。
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+
+import type { Card, EventPool } from '../../../models/models';
+import { usePackStore } from '../../../stores/packStore';
+import { useCardStore } from '../../../stores/cardStore';
+import { useDeckStore } from '../../../stores/deckStore';
+import { useEventPoolStore } from '../../../stores/eventPoolStore';
+import { packCardIndexService } from '../../../services/packs/packCardIndexService';
+import {
+    openDraftBoosters,
+    createDraftState,
+    applyDraftPick,
+    collectDraftPool,
+    getDraftRarityRanks,
+    DEFAULT_DRAFT_SEATS,
+    DEFAULT_DRAFT_ROUNDS,
+    DEFAULT_DRAFT_BOT_SETTINGS,
+    MAX_DRAFT_SEATS,
+    HUMAN_SEAT_INDEX,
+    type DraftState,
+    type DraftBotSettings,
+    type DraftCardContext,
+} from '../../../services/draft/draftEngine';
+import { createDeckFromEventPool } from '../../../utils/dataUtils';
+import { generateSeed } from '../../../utils/randomUtils';
+
+export const useDraft = () => {
+
+    const packs = usePackStore(state => state.packs);
+    const cards = useCardStore(state => state.cards);
+    const saveDeck = useDeckStore(state => state.saveDeck);
+    const pools = useEventPoolStore(state => state.pools);
+    const fetchAllPools = useEventPoolStore(state => state.fetchAllPools);
+    const createPool = useEventPoolStore(state => state.createPool);
+    const deletePool = useEventPoolStore(state => state.deletePool);
+
+    const navigate = useNavigate();
+
+    // --- 設定 ---
+    const [selectedPackId, setSelectedPackId] = useState<string>('');
+    const [seatCount, setSeatCount] = useState<number>(DEFAULT_DRAFT_SEATS);
+    const [roundCount, setRoundCount] = useState<number>(DEFAULT_DRAFT_ROUNDS);
+    const [seedInput, setSeedInput] = useState<string>('');
+    // ボット席（席番号1以降）のピック設定。席数の上限分を保持する
+    const [botSettings, setBotSettings] = useState<DraftBotSettings[]>(
+        () => Array.from({ length: MAX_DRAFT_SEATS - 1 }, () => ({ ...DEFAULT_DRAFT_BOT_SETTINGS }))
+    );
+
+    // --- 進行状態 ---
+    const [draftState, setDraftState] = useState<DraftState | null>(null);
+    const [cardContext, setCardContext] = useState<DraftCardContext | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+    const [savedPoolId, setSavedPoolId] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchAllPools();
+    }, [fetchAllPools]);
+
+    // ドラフトに使用できるのは Booster パックのみ
+    const boosterPacks = useMemo(() => packs.filter(p => p.packType === 'Booster'), [packs]);
+    const selectedPack = useMemo(
+        () => boosterPacks.find(p => p.packId === selectedPackId) ?? null,
+        [boosterPacks, selectedPackId]
+    );
+    const draftPack = useMemo(
+        () => draftState ? packs.find(p => p.packId === draftState.packId) ?? null : null,
+        [packs, draftState]
+    );
+
+    // 初期選択: 最初の Booster パック
+    useEffect(() => {
+        if (!selectedPackId && boosterPacks.length > 0) setSelectedPackId(boosterPacks[0].packId);
+    }, [boosterPacks, selectedPackId]);
+
+    const cardMap = useMemo(() => new Map(cards.map(c => [c.cardId, c])), [cards]);
+    const getCard = useCallback(
+        (cardId: string): Card | undefined => cardContext?.cardMap.get(cardId) ?? cardMap.get(cardId),
+        [cardContext, cardMap]
+    );
+
+    const handleBotSettingsChange = useCallback((botIndex: number, settings: Partial<DraftBotSettings>) => {
+        setBotSettings(prev => prev.map((s, i) => i === botIndex ? { ...s, ...settings } : s));
+    }, []);
+
+    const handleStartDraft = useCallback(async () => {
+        if (!selectedPack) {
+            setActionError('パックが選択されていません。');
+            return;
+        }
+
+        setIsStarting(true);
+        setActionError(null);
+        setSavedPoolId(null);
+
+        try {
+            const parsedSeed = parseInt(seedInput, 10);
+            const seed = isNaN(parsedSeed) ? generateSeed() : parsedSeed >>> 0;
+
+            const cardIndex = await packCardIndexService.fetchPackCardIndex(selectedPack.packId);
+            if (cardIndex.cardIds.size === 0) {
+                setActionError('パックに収録カードがありません。');
+                return;
+            }
+            const context: DraftCardContext = {
+                cardMap: new Map(Array.from(cardIndex.cardsByRarity.values()).flat().map(c => [c.cardId, c])),
+                rarityRanks: getDraftRarityRanks(selectedPack),
+            };
+
+            const { boosters, warnings } = await openDraftBoosters(selectedPack, seatCount, roundCount, seed);
+            setCardContext(context);
+            setDraftState(createDraftState(selectedPack, seed, boosters, botSettings.slice(0, seatCount - 1), context, warnings));
+            console.log(`[useDraft:handleStartDraft] ✅ Started draft of ${selectedPack.packId} (${seatCount} seats × ${roundCount} rounds, seed: ${seed})`);
+        } catch (error) {
+            console.error('[useDraft:handleStartDraft] ❌ Failed to start draft:', error);
+            setActionError('ドラフトの開始中にエラーが発生しました。詳細はコンソールを確認してください。');
+        } finally {
+            setIsStarting(false);
+        }
+    }, [selectedPack, seedInput, seatCount, roundCount, botSettings]);
+
+    const handlePick = useCallback((pickIndex: number) => {
+        if (!draftState || !cardContext) return;
+        try {
+            setDraftState(applyDraftPick(draftState, pickIndex, cardContext));
+        } catch (error) {
+            console.error('[useDraft:handlePick] ❌ Failed to apply pick:', error);
+            setActionError(error instanceof Error ? error.message : 'ピックに失敗しました。');
+        }
+    }, [draftState, cardContext]);
+
+    const handleAbandonDraft = useCallback(() => {
+        if (draftState && !draftState.isComplete && !window.confirm('進行中のドラフトを中断しますか？ピックした内容は破棄されます。')) return;
+        if (draftState?.isComplete && !savedPoolId && !window.confirm('ドラフトの結果は保存されていません。破棄しますか？')) return;
+        setDraftState(null);
+        setCardContext(null);
+        setSavedPoolId(null);
+    }, [draftState, savedPoolId]);
+
+    const handleSavePool = useCallback(async (): Promise<EventPool | null> => {
+        if (!draftState?.isComplete) return null;
+        try {
+            setActionError(null);
+            const pool = await createPool({
+                name: `${draftPack?.name ?? draftState.packId} ドラフト (${new Date().toLocaleString()})`,
+                source: 'draft',
+                packIds: [draftState.packId],
+                cards: collectDraftPool(draftState.seats[HUMAN_SEAT_INDEX].picks),
+                seed: draftState.seed,
+            });
+            setSavedPoolId(pool.poolId);
+            return pool;
+        } catch (error) {
+            setActionError(error instanceof Error ? error.message : 'イベントプールの保存に失敗しました。');
+            return null;
+        }
+    }, [draftState, draftPack, createPool]);
+
+    const handleCreateDeckFromPool = useCallback(async (pool: EventPool) => {
+        try {
+            setActionError(null);
+            const savedDeck = await saveDeck(createDeckFromEventPool(pool));
+            navigate({ to: '/decks/$deckId', params: { deckId: savedDeck.deckId } });
+        } catch (error) {
+            console.error('[useDraft:handleCreateDeckFromPool] ❌ Failed to create deck from pool:', error);
+            setActionError('デッキの作成に失敗しました。');
+        }
+    }, [saveDeck, navigate]);
+
+    const handleDeletePool = useCallback(async (poolId: string) => {
+        if (!window.confirm('このイベントプールを削除しますか？')) return;
+        try {
+            setActionError(null);
+            await deletePool(poolId);
+            if (savedPoolId === poolId) setSavedPoolId(null);
+        } catch (error) {
+            setActionError(error instanceof Error ? error.message : 'イベントプールの削除に失敗しました。');
+        }
+    }, [deletePool, savedPoolId]);
+
+    return {
+        // 設定
+        boosterPacks,
+        selectedPack,
+        setSelectedPackId,
+        seatCount,
+        setSeatCount,
+        roundCount,
+        setRoundCount,
+        seedInput,
+        setSeedInput,
+        botSettings,
+        handleBotSettingsChange,
+
+        // 進行
+        draftState,
+        draftPack,
+        isStarting,
+        getCard,
+        handleStartDraft,
+        handlePick,
+        handleAbandonDraft,
+
+        // イベントプール
+        pools,
+        savedPoolId,
+        handleSavePool,
+        handleCreateDeckFromPool,
+        handleDeletePool,
+        actionError,
+    };
+};
@@ -0,0 +1,85 @@
+/**
+ * src/features/event-pools/components/EventPoolList.tsx
+ *
+ * 保存済みのイベントプールの一覧です。ドラフト・シールドの各画面で共通して使用します。
+ *
+ * * 責務:
+ * 1. イベントプールごとに、作成日時・獲得方法・名前・カードの種類数と総枚数を1行で表示する。
+ * 2. プールから新しいデッキを作成するボタンと、プールの削除ボタンを提供し、要求を親コンポーネントに通知する。
+ * 3. onMerge が渡された場合、プールのカードを所持カードに追加するボタンを提供する（追加済みのプールは無効化）。
+ */
+
+import React from 'react';
+import { Paper, Box, Typography, IconButton, Tooltip, Divider, Button, Chip } from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import NoteAddIcon from '@mui/icons-material/NoteAdd';
+import LibraryAddIcon from '@mui/icons-material/LibraryAdd';
+
+import type { EventPool, EventPoolSource } from '../../../models/models';
+
+interface EventPoolListProps {
+    pools: EventPool[];
+    onCreateDeck: (pool: EventPool) => void;
+    onDelete: (poolId: string) => void;
+    /** 所持カードへの追加（DTCGモードのみ親から渡される） */
+    onMerge?: (pool: EventPool) => void;
+}
+
+const SOURCE_LABELS: Record<EventPoolSource, string> = {
+    draft: 'ドラフト',
+    sealed: 'シールド',
+};
+
+const EventPoolList: React.FC<EventPoolListProps> = ({ pools, onCreateDeck, onDelete, onMerge }) => {
+
+    if (pools.length === 0) {
+        return <Typography variant="body2" color="text.secondary">保存済みのイベントプールはありません。</Typography>;
+    }
+
+    return (
+        <Paper elevation={1}>
+            {pools.map((pool, index) => {
+                const totalCards = pool.cards.reduce((sum, c) => sum + c.count, 0);
+                return (
+                    <React.Fragment key={pool.poolId}>
+                        {index > 0 && <Divider />}
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, px: 2, py: 1 }}>
+                            <Typography variant="caption" color="text.secondary" sx={{ minWidth: 150 }}>
+                                {new Date(pool.createdAt).toLocaleString()}
+                            </Typography>
+                            <Chip label={SOURCE_LABELS[pool.source]} size="small" variant="outlined" />
+                            <Typography variant="body2" sx={{ flexGrow: 1, minWidth: 0 }} noWrap>{pool.name}</Typography>
+                            <Typography variant="body2" color="text.secondary">
+                                {pool.cards.length} 種 / {totalCards} 枚
+                            </Typography>
+                            <Button size="small" startIcon={<NoteAddIcon />} onClick={() => onCreateDeck(pool)}>
+                                デッキを作成
+                            </Button>
+                            {onMerge && (
+                                <Tooltip title={pool.mergedAt ? `追加済み (${new Date(pool.mergedAt).toLocaleString()})` : 'プールのカードを所持カードに追加'}>
+                                    <span>
+                                        <Button
+                                            size="small"
+                                            startIcon={<LibraryAddIcon />}
+                                            onClick={() => onMerge(pool)}
+                                            disabled={!!pool.mergedAt}
+                                        >
+                                            {pool.mergedAt ? '追加済み' : 'コレクションに追加'}
+                                        </Button>
+                                    </span>
+                                </Tooltip>
+                            )}
+                            <Tooltip title="このプールを削除">
+                                <IconButton size="small" onClick={() => onDelete(pool.poolId)}>
+                                    <DeleteIcon fontSize="small" />
+                                </IconButton>
+                            </Tooltip>
+                        </Box>
+                    </React.Fragment>
+                );
+            })}
+        </Paper>
+    );
+};
+
+export default EventPoolList;
@@ -0,0 +1,227 @@
+/**
+ * src/features/formats/FormatListEditor.tsx
+ *
+ * フォーマット（禁止・制限リスト）の管理画面のメインコンポーネント。
+ * * 責務:
+ * 1. `useFormatListEditor` から編集状態・操作ハンドラを取得し、ページのレイアウトを構成する。
+ * 2. 左側にフォーマットの一覧と作成・JSONインポート/エクスポートの操作、右側に選択中のフォーマットの編集フォームを表示する。
+ * 3. 施行日ごとのバージョンを切り替えて表示し、バージョンの追加・削除と、規制カードの編集（FormatEntryList）を提供する。
+ * 4. カード一覧の規制区分バッジに使用するフォーマットと判定日の選択（FormatSelector）を表示する。
+ */
+
+import React, { useMemo, useRef } from 'react';
+import {
+    Box, Typography, Paper, Alert, Button, Grid, TextField, List, ListItemButton, ListItemText,
+    Select, MenuItem, FormControl, InputLabel, Divider
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import SaveIcon from '@mui/icons-material/Save';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+
+import { useFormatListEditor } from './hooks/useFormatListEditor';
+import FormatEntryList from './components/FormatEntryList';
+import FormatSelector from './components/FormatSelector';
+import { useCardStore } from '../../stores/cardStore';
+import { usePackStore } from '../../stores/packStore';
+import { PAGE_PADDING, PAGE_FLEX_GROW, PAGE_TITLE_VARIANT } from '../../configs/configs';
+
+const FormatListEditor: React.FC = () => {
+
+    const {
+        formatLists,
+        editingList,
+        isDirty,
+        sortedVersions,
+        selectedVersion,
+        message,
+        handleSelectFormat,
+        setSelectedVersionId,
+        handleCreateFormat,
+        handleSave,
+        handleDeleteFormat,
+        handleFieldChange,
+        handleAddVersion,
+        handleVersionChange,
+        handleRemoveVersion,
+        handleAddEntry,
+        handleEntryStatusChange,
+        handleRemoveEntry,
+        handleExport,
+        handleImport,
+    } = useFormatListEditor();
+
+    const cards = useCardStore(state => state.cards);
+    const packs = usePackStore(state => state.packs);
+    const cardMap = useMemo(() => new Map(cards.map(card => [card.cardId, card])), [cards]);
+    const packNameMap = useMemo(() => new Map(packs.map(pack => [pack.packId, pack.name])), [packs]);
+
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const onFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // 同じファイルを続けて選択できるようにリセット
+        e.target.value = '';
+        if (file) await handleImport(file);
+    };
+
+    return (
+        <Box sx={{ p: PAGE_PADDING, flexGrow: PAGE_FLEX_GROW }}>
+            <Typography variant={PAGE_TITLE_VARIANT} gutterBottom>禁止・制限リスト</Typography>
+
+            <Paper elevation={1} sx={{ p: 2, mb: 2 }}>
+                <FormatSelector />
+            </Paper>
+
+            {message && (
+                <Alert severity={message.startsWith('✅') ? 'success' : message.startsWith('⚠️') ? 'warning' : 'error'} sx={{ mb: 2 }}>
+                    {message}
+                </Alert>
+            )}
+
+            <Grid container spacing={2}>
+                {/* フォーマット一覧 */}
+                <Grid size={{ xs: 12, md: 3 }}>
+                    <Paper elevation={2} sx={{ p: 2 }}>
+                        <Button fullWidth variant="contained" startIcon={<AddIcon />} onClick={handleCreateFormat} sx={{ mb: 1 }}>
+                            フォーマットを作成
+                        </Button>
+                        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                            <Button size="small" startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+                                インポート
+                            </Button>
+                            <Button size="small" startIcon={<FileDownloadIcon />} onClick={() => handleExport('all')} disabled={formatLists.length === 0}>
+                                全件エクスポート
+                            </Button>
+                            <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={onFileSelected} />
+                        </Box>
+                        <Divider />
+                        {formatLists.length === 0 ? (
+                            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>フォーマットはありません。</Typography>
+                        ) : (
+                            <List dense>
+                                {formatLists.map(format => (
+                                    <ListItemButton
+                                        key={format.formatId}
+                                        selected={format.formatId === editingList?.formatId}
+                                        onClick={() => handleSelectFormat(format.formatId)}
+                                    >
+                                        <ListItemText primary={format.name} secondary={`${format.versions.length} 件のリスト`} />
+                                    </ListItemButton>
+                                ))}
+                            </List>
+                        )}
+                    </Paper>
+                </Grid>
+
+                {/* 編集フォーム */}
+                <Grid size={{ xs: 12, md: 9 }}>
+                    {editingList && (
+                        <Paper elevation={2} sx={{ p: 2 }}>
+                            <Grid container spacing={2} sx={{ mb: 2 }}>
+                                <Grid size={{ xs: 12, md: 6 }}>
+                                    <TextField
+                                        label="フォーマット名"
+                                        size="small"
+                                        fullWidth
+                                        value={editingList.name}
+                                        onChange={(e) => handleFieldChange('name', e.target.value)}
+                                    />
+                                </Grid>
+                                <Grid size={{ xs: 12, md: 6 }} sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                                    <Button startIcon={<FileDownloadIcon />} onClick={() => handleExport('selected')}>
+                                        エクスポート
+                                    </Button>
+                                    <Button color="error" onClick={handleDeleteFormat}>削除</Button>
+                                    <Button variant="contained" startIcon={<SaveIcon />} onClick={handleSave} disabled={!isDirty}>
+                                        保存
+                                    </Button>
+                                </Grid>
+                                <Grid size={12}>
+                                    <TextField
+                                        label="説明"
+                                        size="small"
+                                        fullWidth
+                                        multiline
+                                        minRows={2}
+                                        value={editingList.description}
+                                        onChange={(e) => handleFieldChange('description', e.target.value)}
+                                    />
+                                </Grid>
+                            </Grid>
+
+                            <Divider sx={{ mb: 2 }} />
+
+                            {/* バージョン */}
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+                                <FormControl size="small" sx={{ minWidth: 200 }}>
+                                    <InputLabel>施行日</InputLabel>
+                                    <Select
+                                        label="施行日"
+                                        value={selectedVersion?.versionId ?? ''}
+                                        onChange={(e) => setSelectedVersionId(e.target.value || null)}
+                                    >
+                                        {sortedVersions.map(version => (
+                                            <MenuItem key={version.versionId} value={version.versionId}>
+                                                {version.effectiveDate} ({version.entries.length} 枚)
+                                            </MenuItem>
+                                        ))}
+                                    </Select>
+                                </FormControl>
+                                <Button size="small" startIcon={<AddIcon />} onClick={handleAddVersion}>
+                                    改定を追加
+                                </Button>
+                                {selectedVersion && (
+                                    <Button size="small" color="error" onClick={handleRemoveVersion}>
+                                        このリストを削除
+                                    </Button>
+                                )}
+                            </Box>
+
+                            {selectedVersion ? (
+                                <>
+                                    <Grid container spacing={2} sx={{ mb: 2 }}>
+                                        <Grid size={{ xs: 12, md: 4 }}>
+                                            <TextField
+                                                label="施行日"
+                                                type="date"
+                                                size="small"
+                                                fullWidth
+                                                value={selectedVersion.effectiveDate}
+                                                onChange={(e) => { if (e.target.value) handleVersionChange({ effectiveDate: e.target.value }); }}
+                                                InputLabelProps={{ shrink: true }}
+                                            />
+                                        </Grid>
+                                        <Grid size={{ xs: 12, md: 8 }}>
+                                            <TextField
+                                                label="改定メモ"
+                                                size="small"
+                                                fullWidth
+                                                value={selectedVersion.note}
+                                                onChange={(e) => handleVersionChange({ note: e.target.value })}
+                                            />
+                                        </Grid>
+                                    </Grid>
+                                    <FormatEntryList
+                                        entries={selectedVersion.entries}
+                                        cardMap={cardMap}
+                                        packNameMap={packNameMap}
+                                        onAddEntry={handleAddEntry}
+                                        onStatusChange={handleEntryStatusChange}
+                                        onRemoveEntry={handleRemoveEntry}
+                                    />
+                                </>
+                            ) : (
+                                <Typography variant="body2" color="text.secondary">
+                                    リストがありません。「改定を追加」から作成してください。
+                                </Typography>
+                            )}
+                        </Paper>
+                    )}
+                </Grid>
+            </Grid>
+        </Box>
+    );
+};
+
+export default FormatListEditor;
@@ -0,0 +1,131 @@
+/**
+ * src/features/formats/components/FormatEntryList.tsx
+ *
+ * フォーマットの1バージョン分の規制カード（禁止・制限）を編集するコンポーネントです。
+ *
+ * * 責務:
+ * 1. カード名の検索から、規制カードを追加するUIを提供する（登録済みのカードは候補から除外する）。
+ * 2. 規制カードを区分・カード名の順に一覧表示し、区分の変更と削除のUIを提供する。
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+    Box, TextField, List, ListItemButton, ListItemText, Paper, Typography,
+    Table, TableHead, TableBody, TableRow, TableCell, Select, MenuItem, IconButton, Chip
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+
+import type { Card, FormatCardEntry, FormatCardStatus } from '../../../models/models';
+import { FORMAT_CARD_STATUS_OPTIONS } from '../../../models/models';
+import { FORMAT_CARD_STATUS_LABELS } from '../../../services/decks/formatLegality';
+
+// 検索候補の最大表示件数
+const MAX_SEARCH_RESULTS = 20;
+
+interface FormatEntryListProps {
+    entries: FormatCardEntry[];
+    cardMap: Map<string, Card>;
+    packNameMap: Map<string, string>;
+    onAddEntry: (cardId: string) => void;
+    onStatusChange: (cardId: string, status: FormatCardStatus) => void;
+    onRemoveEntry: (cardId: string) => void;
+}
+
+const FormatEntryList: React.FC<FormatEntryListProps> = ({
+    entries, cardMap, packNameMap, onAddEntry, onStatusChange, onRemoveEntry
+}) => {
+
+    const [searchTerm, setSearchTerm] = useState('');
+
+    const searchResults = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        if (!term) return [];
+        const registered = new Set(entries.map(e => e.cardId));
+        return Array.from(cardMap.values())
+            .filter(card => !registered.has(card.cardId) && card.name.toLowerCase().includes(term))
+            .slice(0, MAX_SEARCH_RESULTS);
+    }, [searchTerm, entries, cardMap]);
+
+    // 区分（禁止→制限1→…）、カード名の順に並べる
+    const sortedEntries = useMemo(() => [...entries].sort((a, b) =>
+        FORMAT_CARD_STATUS_OPTIONS.indexOf(a.status) - FORMAT_CARD_STATUS_OPTIONS.indexOf(b.status)
+        || (cardMap.get(a.cardId)?.name ?? a.cardId).localeCompare(cardMap.get(b.cardId)?.name ?? b.cardId)
+    ), [entries, cardMap]);
+
+    return (
+        <Box>
+            {/* カードの追加 */}
+            <Box sx={{ position: 'relative', mb: 2 }}>
+                <TextField
+                    label="カード名で検索して追加"
+                    size="small"
+                    fullWidth
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                />
+                {searchResults.length > 0 && (
+                    <Paper elevation={4} sx={{ position: 'absolute', left: 0, right: 0, zIndex: 10, maxHeight: 300, overflow: 'auto' }}>
+                        <List dense disablePadding>
+                            {searchResults.map(card => (
+                                <ListItemButton
+                                    key={card.cardId}
+                                    onClick={() => { onAddEntry(card.cardId); setSearchTerm(''); }}
+                                >
+                                    <ListItemText primary={card.name} secondary={packNameMap.get(card.packId) ?? card.packId} />
+                                </ListItemButton>
+                            ))}
+                        </List>
+                    </Paper>
+                )}
+            </Box>
+
+            {/* 規制カード一覧 */}
+            {sortedEntries.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">規制カードはありません。</Typography>
+            ) : (
+                <Table size="small">
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>カード名</TableCell>
+                            <TableCell>パック</TableCell>
+                            <TableCell width={140}>区分</TableCell>
+                            <TableCell width={56} />
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {sortedEntries.map(entry => {
+                            const card = cardMap.get(entry.cardId);
+                            return (
+                                <TableRow key={entry.cardId}>
+                                    <TableCell>
+                                        {card?.name ?? <Chip size="small" label="不明なカード" title={entry.cardId} />}
+                                    </TableCell>
+                                    <TableCell>{card ? (packNameMap.get(card.packId) ?? card.packId) : '-'}</TableCell>
+                                    <TableCell>
+                                        <Select
+                                            size="small"
+                                            fullWidth
+                                            value={entry.status}
+                                            onChange={(e) => onStatusChange(entry.cardId, e.target.value as FormatCardStatus)}
+                                        >
+                                            {FORMAT_CARD_STATUS_OPTIONS.map(status => (
+                                                <MenuItem key={status} value={status}>{FORMAT_CARD_STATUS_LABELS[status]}</MenuItem>
+                                            ))}
+                                        </Select>
+                                    </TableCell>
+                                    <TableCell>
+                                        <IconButton size="small" color="error" onClick={() => onRemoveEntry(entry.cardId)}>
+                                            <DeleteIcon />
+                                        </IconButton>
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })}
+                    </TableBody>
+                </Table>
+            )}
+        </Box>
+    );
+};
+
+export default FormatEntryList;
@@ -0,0 +1,65 @@
+/**
+ * src/features/formats/components/FormatSelector.tsx
+ *
+ * カード一覧の規制区分バッジに使用するフォーマットと、禁止・制限リストの判定日を選択するコンポーネントです。
+ *
+ * * 責務:
+ * 1. FormatListStore の選択中のフォーマット（selectedFormatId）と判定日（referenceDate）を表示・変更するUIを提供する。
+ * 2. 判定日時点で施行されているリストの施行日を表示する（施行前の場合はその旨を表示する）。
+ */
+
+import React from 'react';
+import { Box, Select, MenuItem, FormControl, InputLabel, TextField, Typography } from '@mui/material';
+
+import { useFormatListStore } from '../../../stores/formatListStore';
+import { getActiveFormatVersion } from '../../../services/decks/formatLegality';
+
+const NO_FORMAT = '';
+
+const FormatSelector: React.FC = () => {
+
+    const formatLists = useFormatListStore(state => state.formatLists);
+    const selectedFormatId = useFormatListStore(state => state.selectedFormatId);
+    const referenceDate = useFormatListStore(state => state.referenceDate);
+    const setSelectedFormatId = useFormatListStore(state => state.setSelectedFormatId);
+    const setReferenceDate = useFormatListStore(state => state.setReferenceDate);
+
+    const selectedFormat = formatLists.find(f => f.formatId === selectedFormatId);
+    const activeVersion = selectedFormat ? getActiveFormatVersion(selectedFormat, referenceDate) : undefined;
+
+    // フォーマットが1件もない場合は表示しない
+    if (formatLists.length === 0) return null;
+
+    return (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>フォーマット</InputLabel>
+                <Select
+                    label="フォーマット"
+                    value={selectedFormat ? selectedFormat.formatId : NO_FORMAT}
+                    onChange={(e) => setSelectedFormatId(e.target.value || null)}
+                >
+                    <MenuItem value={NO_FORMAT}>表示しない</MenuItem>
+                    {formatLists.map(format => (
+                        <MenuItem key={format.formatId} value={format.formatId}>{format.name}</MenuItem>
+                    ))}
+                </Select>
+            </FormControl>
+            <TextField
+                label="判定日"
+                type="date"
+                size="small"
+                value={referenceDate}
+                onChange={(e) => { if (e.target.value) setReferenceDate(e.target.value); }}
+                InputLabelProps={{ shrink: true }}
+            />
+            {selectedFormat && (
+                <Typography variant="caption" color="text.secondary">
+                    {activeVersion ? `${activeVersion.effectiveDate} 施行のリストを適用中` : '判定日に施行中のリストはありません'}
+                </Typography>
+            )}
+        </Box>
+    );
+};
+
+export default FormatSelector;
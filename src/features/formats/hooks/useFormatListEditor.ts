@@ -0,0 +1,236 @@
+/**
+ * src/features/formats/hooks/useFormatListEditor.ts
+ *
+ * フォーマット（禁止・制限リスト）の編集画面（FormatListEditor）のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. 編集対象のフォーマットと表示中のバージョンの選択状態を管理し、選択が切り替わるたびに編集中のフォーマット（editingList）をリセットする。
+ * 2. 基本項目（名前・説明）、バージョン（施行日・メモ）の追加・変更・削除、規制カードの追加・区分変更・削除のハンドラを提供する。
+ * 3. FormatListStore を介したフォーマットの作成・保存・削除を実行する。
+ * 4. フォーマットのJSONエクスポート（ダウンロード）とインポート（formatListJsonIO）を実行し、結果のメッセージを提供する。
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { FormatList, FormatListVersion, FormatCardStatus } from '../../../models/models';
+import { useFormatListStore } from '../../../stores/formatListStore';
+import { createDefaultFormatList, generateId } from '../../../utils/dataUtils';
+import { toLocalDateString } from '../../../utils/dateUtils';
+import { sortFormatVersions } from '../../../services/decks/formatLegality';
+import { exportFormatListsToJson, importFormatListsFromJson } from '../../../services/data-io/formatListJsonIO';
+
+// 補助関数: JSON文字列をファイルとしてダウンロードする
+const downloadJson = (jsonText: string, fileName: string) => {
+    const blob = new Blob([jsonText], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const useFormatListEditor = () => {
+
+    const formatLists = useFormatListStore(state => state.formatLists);
+    const saveFormatList = useFormatListStore(state => state.saveFormatList);
+    const deleteFormatList = useFormatListStore(state => state.deleteFormatList);
+    const importFormatLists = useFormatListStore(state => state.importFormatLists);
+
+    const [selectedFormatId, setSelectedFormatId] = useState<string | null>(null);
+    const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+    const [editingList, setEditingList] = useState<FormatList | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const storedList = useMemo(
+        () => formatLists.find(f => f.formatId === selectedFormatId) ?? null,
+        [formatLists, selectedFormatId]
+    );
+
+    // 未選択の場合は先頭のフォーマットを選択する
+    useEffect(() => {
+        if (!storedList && formatLists.length > 0) setSelectedFormatId(formatLists[0].formatId);
+    }, [storedList, formatLists]);
+
+    // 選択が切り替わったら（保存後を含む）編集中のフォーマットをリセットする
+    // 表示中のバージョンが存在しない場合は、最新のバージョンを表示する
+    useEffect(() => {
+        setEditingList(storedList);
+        const versions = storedList ? sortFormatVersions(storedList.versions) : [];
+        setSelectedVersionId(prev => versions.some(v => v.versionId === prev)
+            ? prev
+            : versions[versions.length - 1]?.versionId ?? null);
+    }, [storedList]);
+
+    const isDirty = useMemo(
+        () => !!editingList && !!storedList && JSON.stringify(editingList) !== JSON.stringify(storedList),
+        [editingList, storedList]
+    );
+
+    const sortedVersions = useMemo(
+        () => editingList ? sortFormatVersions(editingList.versions) : [],
+        [editingList]
+    );
+    const selectedVersion = sortedVersions.find(v => v.versionId === selectedVersionId) ?? null;
+
+    // 補助関数: 表示中のバージョンを更新する
+    const updateSelectedVersion = useCallback((updater: (version: FormatListVersion) => FormatListVersion) => {
+        setEditingList(prev => prev ? ({
+            ...prev,
+            versions: prev.versions.map(v => v.versionId === selectedVersionId ? updater(v) : v),
+        }) : prev);
+    }, [selectedVersionId]);
+
+    const handleSelectFormat = useCallback((formatId: string) => {
+        if (isDirty && !window.confirm('保存されていない変更があります。破棄しますか？')) return;
+        setSelectedFormatId(formatId);
+    }, [isDirty]);
+
+    // --- フォーマットの作成・保存・削除 ---
+    const handleCreateFormat = useCallback(async () => {
+        if (isDirty && !window.confirm('保存されていない変更があります。破棄しますか？')) return;
+        try {
+            const created = await saveFormatList(createDefaultFormatList(toLocalDateString()));
+            setSelectedFormatId(created.formatId);
+            setMessage(null);
+        } catch (error) {
+            setMessage(`❌ ${error instanceof Error ? error.message : 'フォーマットの作成に失敗しました。'}`);
+        }
+    }, [isDirty, saveFormatList]);
+
+    const handleSave = useCallback(async () => {
+        if (!editingList) return;
+        if (!editingList.name.trim()) {
+            setMessage('⚠️ フォーマット名を入力してください。');
+            return;
+        }
+        const dates = editingList.versions.map(v => v.effectiveDate);
+        if (new Set(dates).size !== dates.length) {
+            setMessage('⚠️ 同じ施行日のリストが複数あります。');
+            return;
+        }
+        try {
+            await saveFormatList(editingList);
+            setMessage('✅ フォーマットを保存しました。');
+        } catch (error) {
+            setMessage(`❌ ${error instanceof Error ? error.message : 'フォーマットの保存に失敗しました。'}`);
+        }
+    }, [editingList, saveFormatList]);
+
+    const handleDeleteFormat = useCallback(async () => {
+        if (!storedList) return;
+        if (!window.confirm(`フォーマット「${storedList.name}」を削除しますか？\nこのフォーマットを参照している構築ルールは、ルール違反として判定されます。`)) return;
+        try {
+            await deleteFormatList(storedList.formatId);
+            setSelectedFormatId(null);
+            setMessage(null);
+        } catch (error) {
+            setMessage(`❌ ${error instanceof Error ? error.message : 'フォーマットの削除に失敗しました。'}`);
+        }
+    }, [storedList, deleteFormatList]);
+
+    const handleFieldChange = useCallback((field: 'name' | 'description', value: string) => {
+        setEditingList(prev => prev ? ({ ...prev, [field]: value }) : prev);
+    }, []);
+
+    // --- バージョン ---
+    /**
+     * 新しいバージョンを、最新のバージョンの内容を引き継いで追加する（施行日は今日、既に存在する場合は翌日以降の空いている日）。
+     */
+    const handleAddVersion = useCallback(() => {
+        if (!editingList) return;
+        const latest = sortedVersions[sortedVersions.length - 1];
+        const usedDates = new Set(editingList.versions.map(v => v.effectiveDate));
+        const date = new Date();
+        while (usedDates.has(toLocalDateString(date))) date.setDate(date.getDate() + 1);
+
+        const version: FormatListVersion = {
+            versionId: generateId(),
+            effectiveDate: toLocalDateString(date),
+            note: '',
+            entries: latest ? latest.entries.map(entry => ({ ...entry })) : [],
+        };
+        setEditingList({ ...editingList, versions: [...editingList.versions, version] });
+        setSelectedVersionId(version.versionId);
+    }, [editingList, sortedVersions]);
+
+    const handleVersionChange = useCallback((updates: Partial<Pick<FormatListVersion, 'effectiveDate' | 'note'>>) => {
+        updateSelectedVersion(version => ({ ...version, ...updates }));
+    }, [updateSelectedVersion]);
+
+    const handleRemoveVersion = useCallback(() => {
+        if (!editingList || !selectedVersion) return;
+        if (!window.confirm(`${selectedVersion.effectiveDate} 施行のリストを削除しますか？`)) return;
+        const versions = editingList.versions.filter(v => v.versionId !== selectedVersion.versionId);
+        setEditingList({ ...editingList, versions });
+        const remaining = sortFormatVersions(versions);
+        setSelectedVersionId(remaining[remaining.length - 1]?.versionId ?? null);
+    }, [editingList, selectedVersion]);
+
+    // --- 規制カード ---
+    const handleAddEntry = useCallback((cardId: string, status: FormatCardStatus = 'banned') => {
+        updateSelectedVersion(version => version.entries.some(e => e.cardId === cardId)
+            ? version
+            : { ...version, entries: [...version.entries, { cardId, status }] });
+    }, [updateSelectedVersion]);
+
+    const handleEntryStatusChange = useCallback((cardId: string, status: FormatCardStatus) => {
+        updateSelectedVersion(version => ({
+            ...version,
+            entries: version.entries.map(e => e.cardId === cardId ? { ...e, status } : e),
+        }));
+    }, [updateSelectedVersion]);
+
+    const handleRemoveEntry = useCallback((cardId: string) => {
+        updateSelectedVersion(version => ({ ...version, entries: version.entries.filter(e => e.cardId !== cardId) }));
+    }, [updateSelectedVersion]);
+
+    // --- JSON入出力 ---
+    const handleExport = useCallback((scope: 'selected' | 'all') => {
+        const targets = scope === 'all' ? formatLists : (storedList ? [storedList] : []);
+        if (targets.length === 0) return;
+        const fileName = scope === 'all' ? 'formats.json' : `${storedList!.name}_format.json`;
+        downloadJson(exportFormatListsToJson(targets), fileName);
+        setMessage(`✅ ${targets.length} 件のフォーマットをエクスポートしました。`);
+    }, [formatLists, storedList]);
+
+    const handleImport = useCallback(async (file: File) => {
+        try {
+            const lists = importFormatListsFromJson(await file.text());
+            if (lists.length === 0) {
+                setMessage('⚠️ インポートできるフォーマットがありませんでした。');
+                return;
+            }
+            const { addedCount, updatedCount } = await importFormatLists(lists);
+            setMessage(`✅ インポート完了: 追加 ${addedCount} 件 / 上書き ${updatedCount} 件`);
+            setSelectedFormatId(lists[0].formatId);
+        } catch (error) {
+            console.error('[useFormatListEditor:handleImport] ❌ Failed to import format lists:', error);
+            setMessage(`❌ エラー: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }, [importFormatLists]);
+
+    return {
+        formatLists,
+        editingList,
+        isDirty,
+        sortedVersions,
+        selectedVersion,
+        message,
+
+        handleSelectFormat,
+        setSelectedVersionId,
+        handleCreateFormat,
+        handleSave,
+        handleDeleteFormat,
+        handleFieldChange,
+        handleAddVersion,
+        handleVersionChange,
+        handleRemoveVersion,
+        handleAddEntry,
+        handleEntryStatusChange,
+        handleRemoveEntry,
+        handleExport,
+        handleImport,
+    };
+};
@@ -0,0 +1,99 @@
+/**
+ * src/features/opening-history/OpeningHistory.tsx
+ *
+ * パック開封履歴機能のメインコンポーネント。
+ * * 責務:
+ * 1. `useOpeningHistory` から開封記録・統計・操作ハンドラを取得し、ページのレイアウトを構成する。
+ * 2. 全体のサマリー（開封回数・パック数・総枚数・消費コイン）を表示する。
+ * 3. パックによる絞り込みUIと、履歴の全件削除ボタンを提供する。
+ * 4. パックごとの統計を `PackHistoryStatsCard` に、記録一覧を `OpeningRecordList` に委譲して表示する。
+ */
+
+import React from 'react';
+import {
+    Box, Typography, Paper, Alert, Button,
+    Select, MenuItem, FormControl, InputLabel
+} from '@mui/material';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+
+import { useOpeningHistory, ALL_PACKS_FILTER } from './hooks/useOpeningHistory';
+import PackHistoryStatsCard from './components/PackHistoryStatsCard';
+import OpeningRecordList from './components/OpeningRecordList';
+import { PAGE_PADDING, PAGE_FLEX_GROW, PAGE_TITLE_VARIANT } from '../../configs/configs';
+
+const OpeningHistory: React.FC = () => {
+
+    const {
+        isLoading,
+        records,
+        totalRecordCount,
+        packOptions,
+        selectedPackId,
+        setSelectedPackId,
+        stats,
+        actionError,
+        getCardName,
+        handleDeleteRecord,
+        handleClearHistory,
+    } = useOpeningHistory();
+
+    return (
+        <Box sx={{ p: PAGE_PADDING, flexGrow: PAGE_FLEX_GROW }}>
+            <Typography variant={PAGE_TITLE_VARIANT} gutterBottom>開封履歴</Typography>
+
+            {actionError && <Alert severity="error" sx={{ mb: 2 }}>{actionError}</Alert>}
+
+            {/* 絞り込みと全体サマリー */}
+            <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                    <FormControl size="small" sx={{ flex: 1 }}>
+                        <InputLabel id="history-pack-filter-label">パック</InputLabel>
+                        <Select
+                            labelId="history-pack-filter-label"
+                            value={selectedPackId}
+                            label="パック"
+                            onChange={(e) => setSelectedPackId(e.target.value)}
+                        >
+                            <MenuItem value={ALL_PACKS_FILTER}>すべてのパック</MenuItem>
+                            {packOptions.map(option => (
+                                <MenuItem key={option.packId} value={option.packId}>{option.name}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <Button
+                        color="error"
+                        variant="outlined"
+                        startIcon={<DeleteSweepIcon />}
+                        onClick={handleClearHistory}
+                        disabled={totalRecordCount === 0}
+                    >
+                        履歴を全て削除
+                    </Button>
+                </Box>
+                <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap' }}>
+                    <Typography variant="body2">開封回数: <strong>{stats.recordCount}</strong> 回</Typography>
+                    <Typography variant="body2">パック数: <strong>{stats.packCount}</strong></Typography>
+                    <Typography variant="body2">総枚数: <strong>{stats.totalCards}</strong> 枚</Typography>
+                    <Typography variant="body2">総消費: <strong>{stats.totalSpent}</strong> G</Typography>
+                </Box>
+            </Paper>
+
+            {isLoading ? (
+                <Typography>開封履歴をロード中...</Typography>
+            ) : (
+                <>
+                    {/* パックごとの統計 */}
+                    {stats.packStats.map(packStats => (
+                        <PackHistoryStatsCard key={packStats.packId} stats={packStats} getCardName={getCardName} />
+                    ))}
+
+                    {/* 記録一覧 */}
+                    <Typography variant="h6" sx={{ mt: 3, mb: 1 }}>記録一覧</Typography>
+                    <OpeningRecordList records={records} onDelete={handleDeleteRecord} />
+                </>
+            )}
+        </Box>
+    );
+};
+
+export default OpeningHistory;
@@ -0,0 +1,84 @@
+/**
+ * src/features/opening-history/components/OpeningRecordList.tsx
+ *
+ * 開封履歴ページに表示する、開封記録の一覧です。
+ *
+ * * 責務:
+ * 1. 開封記録ごとに、日時・パック名・モード・パック数・消費コイン・レアリティ別枚数を1行で表示する。
+ * 2. 開封時の警告がある記録に警告アイコン（ツールチップで内容を表示）を表示する。
+ * 3. 記録の削除ボタンを提供し、削除要求を親コンポーネントに通知する（onDelete）。
+ */
+
+import React from 'react';
+import { Paper, Box, Typography, Chip, IconButton, Tooltip, Divider } from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+
+import type { OpeningRecord, CurrentGameMode } from '../../../models/models';
+
+interface OpeningRecordListProps {
+    records: OpeningRecord[];
+    onDelete: (recordId: string) => void;
+}
+
+// モードの表示色
+const MODE_CHIP_COLORS: Record<CurrentGameMode, 'primary' | 'default' | 'secondary'> = {
+    dtcg: 'primary',
+    free: 'default',
+    god: 'secondary',
+};
+
+// 補助関数: 記録の結果をレアリティ別の枚数に集計し「SR: 1 / R: 3」形式の文字列にする
+const formatRarityCounts = (record: OpeningRecord): string => {
+    const counts = new Map<string, number>();
+    record.results.forEach(r => counts.set(r.rarity, (counts.get(r.rarity) || 0) + r.count));
+    return Array.from(counts.entries()).map(([rarity, count]) => `${rarity}: ${count}`).join(' / ');
+};
+
+const OpeningRecordList: React.FC<OpeningRecordListProps> = ({ records, onDelete }) => {
+
+    if (records.length === 0) {
+        return <Typography variant="body2" color="text.secondary">開封履歴はありません。</Typography>;
+    }
+
+    return (
+        <Paper elevation={1}>
+            {records.map((record, index) => (
+                <React.Fragment key={record.recordId}>
+                    {index > 0 && <Divider />}
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, px: 2, py: 1 }}>
+                        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 150 }}>
+                            {new Date(record.openedAt).toLocaleString()}
+                        </Typography>
+                        <Chip label={record.mode.toUpperCase()} color={MODE_CHIP_COLORS[record.mode]} size="small" />
+                        <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                            <Typography variant="body2" noWrap>
+                                {record.packName}
+                                {record.boxId ? ' (ボックス)' : ''}
+                                {record.packCount > 1 ? ` × ${record.packCount}パック` : ''}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary" noWrap component="div">
+                                {formatRarityCounts(record)}
+                            </Typography>
+                        </Box>
+                        <Typography variant="body2" sx={{ minWidth: 70 }} align="right">{record.coinsSpent} G</Typography>
+                        {record.simulationWarning ? (
+                            <Tooltip title={<span style={{ whiteSpace: 'pre-line' }}>{record.simulationWarning}</span>}>
+                                <WarningAmberIcon color="warning" fontSize="small" />
+                            </Tooltip>
+                        ) : (
+                            <Box sx={{ width: 20 }} />
+                        )}
+                        <Tooltip title="この記録を削除">
+                            <IconButton size="small" onClick={() => onDelete(record.recordId)}>
+                                <DeleteIcon fontSize="small" />
+                            </IconButton>
+                        </Tooltip>
+                    </Box>
+                </React.Fragment>
+            ))}
+        </Paper>
+    );
+};
+
+export default OpeningRecordList;
@@ -0,0 +1,142 @@
+/**
+ * src/features/opening-history/components/PackHistoryStatsCard.tsx
+ *
+ * 開封履歴ページに表示する、1パック分の統計カードです。
+ *
+ * * 責務:
+ * 1. パックの開封回数・パック数・総枚数・消費コインを表示する。
+ * 2. レアリティごとの実測枚数・実測率と、封入設定に基づく期待枚数・設定率を一覧表示する。
+ * 3. カイ二乗検定に基づく「運」の指標（χ²値・p値・上位レアリティの実測/期待比）を表示する。
+ * 4. 上位レアリティの引き（ベストプル）を一覧表示する。
+ */
+
+import React from 'react';
+import { Paper, Box, Typography, Grid, Divider, Chip } from '@mui/material';
+
+import type { PackHistoryStats, LuckLevel } from '../../../services/opening-history/openingHistoryStats';
+
+interface PackHistoryStatsCardProps {
+    stats: PackHistoryStats;
+    getCardName: (cardId: string) => string;
+}
+
+// 運の指標の表示設定
+const LUCK_LEVEL_DISPLAY: Record<LuckLevel, { label: string; color: 'success' | 'info' | 'default' | 'warning' | 'error' }> = {
+    veryLucky: { label: 'かなり上振れ', color: 'success' },
+    lucky: { label: '上振れ', color: 'info' },
+    average: { label: '平均的', color: 'default' },
+    unlucky: { label: '下振れ', color: 'warning' },
+    veryUnlucky: { label: 'かなり下振れ', color: 'error' },
+};
+
+// 表示用フォーマッタ
+const formatPercent = (value: number | null): string => value === null ? '—' : `${(value * 100).toFixed(2)}%`;
+const formatCount = (value: number | null): string => value === null ? '—' : value.toFixed(1);
+
+// 列幅の定義
+const COLUMN_SIZES = {
+    rarityName: 3,
+    observedCount: 2,
+    observedRate: 2,
+    expectedCount: 2,
+    configuredRate: 2,
+    ratio: 1,
+};
+
+const PackHistoryStatsCard: React.FC<PackHistoryStatsCardProps> = ({ stats, getCardName }) => {
+
+    const luckDisplay = stats.luck ? LUCK_LEVEL_DISPLAY[stats.luck.level] : null;
+
+    return (
+        <Paper elevation={1} sx={{ p: 2, mb: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                <Typography variant="h6">{stats.packName}</Typography>
+                {luckDisplay && <Chip label={`運: ${luckDisplay.label}`} color={luckDisplay.color} size="small" />}
+            </Box>
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mb: 1 }}>
+                <Typography variant="body2">開封回数: <strong>{stats.recordCount}</strong> 回</Typography>
+                <Typography variant="body2">パック数: <strong>{stats.packCount}</strong></Typography>
+                <Typography variant="body2">総枚数: <strong>{stats.totalCards}</strong> 枚</Typography>
+                <Typography variant="body2">消費: <strong>{stats.totalSpent}</strong> G</Typography>
+            </Box>
+
+            {/* レアリティ別: 実測 vs 設定 */}
+            <Grid container spacing={1} sx={{ mt: 1, mb: 1, px: 1 }}>
+                <Grid size={COLUMN_SIZES.rarityName}><Typography variant="subtitle2">レアリティ</Typography></Grid>
+                <Grid size={COLUMN_SIZES.observedCount}><Typography variant="subtitle2" align="right">実測枚数</Typography></Grid>
+                <Grid size={COLUMN_SIZES.observedRate}><Typography variant="subtitle2" align="right">実測率</Typography></Grid>
+                <Grid size={COLUMN_SIZES.expectedCount}><Typography variant="subtitle2" align="right">期待枚数</Typography></Grid>
+                <Grid size={COLUMN_SIZES.configuredRate}><Typography variant="subtitle2" align="right">設定率</Typography></Grid>
+                <Grid size={COLUMN_SIZES.ratio}><Typography variant="subtitle2" align="right">比</Typography></Grid>
+            </Grid>
+            <Divider />
+            {stats.rarityStats.map(stat => {
+                const ratio = stat.expectedCount ? stat.observedCount / stat.expectedCount : null;
+                return (
+                    <Grid container spacing={1} key={stat.rarityName} sx={{ py: 0.5, px: 1 }}>
+                        <Grid size={COLUMN_SIZES.rarityName}>
+                            <Typography variant="body2" fontWeight="bold">{stat.rarityName}</Typography>
+                        </Grid>
+                        <Grid size={COLUMN_SIZES.observedCount}>
+                            <Typography variant="body2" align="right">{stat.observedCount}</Typography>
+                        </Grid>
+                        <Grid size={COLUMN_SIZES.observedRate}>
+                            <Typography variant="body2" align="right">{formatPercent(stat.observedRate)}</Typography>
+                        </Grid>
+                        <Grid size={COLUMN_SIZES.expectedCount}>
+                            <Typography variant="body2" align="right">{formatCount(stat.expectedCount)}</Typography>
+                        </Grid>
+                        <Grid size={COLUMN_SIZES.configuredRate}>
+                            <Typography variant="body2" align="right">{formatPercent(stat.configuredRate)}</Typography>
+                        </Grid>
+                        <Grid size={COLUMN_SIZES.ratio}>
+                            <Typography
+                                variant="body2"
+                                align="right"
+                                color={ratio === null ? 'text.secondary' : ratio >= 1 ? 'success.main' : 'warning.main'}
+                            >
+                                {ratio === null ? '—' : ratio.toFixed(2)}
+                            </Typography>
+                        </Grid>
+                    </Grid>
+                );
+            })}
+            <Divider sx={{ mb: 1 }} />
+
+            {/* 運の指標 */}
+            {stats.luck ? (
+                <Typography variant="caption" color="text.secondary" component="div">
+                    χ² = {stats.luck.chiSquare.toFixed(2)} (自由度 {stats.luck.degreesOfFreedom}) / p = {stats.luck.pValue.toFixed(4)}
+                    {stats.luck.hitRatio !== null && ` / 上位レアリティの実測/期待比: ${stats.luck.hitRatio.toFixed(2)}`}
+                </Typography>
+            ) : (
+                <Typography variant="caption" color="text.secondary" component="div">
+                    パックが削除されているか Booster 以外のため、設定との比較は行えません。
+                </Typography>
+            )}
+            <Typography variant="caption" color="text.secondary" component="div">
+                期待値は現在の封入設定から算出しています（天井・ボックスの封入保証による補正は含みません）。
+            </Typography>
+
+            {/* ベストプル */}
+            {stats.bestPulls.length > 0 && (
+                <Box sx={{ mt: 2 }}>
+                    <Typography variant="subtitle2" sx={{ mb: 1 }}>ベストプル</Typography>
+                    {stats.bestPulls.map(pull => (
+                        <Box key={`${pull.recordId}-${pull.cardId}`} sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 0.5 }}>
+                            <Chip label={pull.rarity} size="small" color="secondary" variant="outlined" />
+                            <Typography variant="body2" sx={{ flexGrow: 1 }} noWrap>
+                                {getCardName(pull.cardId)}{pull.count > 1 ? ` × ${pull.count}` : ''}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                                {new Date(pull.openedAt).toLocaleString()}
+                            </Typography>
+                        </Box>
+                    ))}
+                </Box>
+            )}
+        </Paper>
+    );
+};
+
+export default PackHistoryStatsCard;
@@ -0,0 +1,100 @@
+/**
+ * src/features/opening-history/hooks/useOpeningHistory.ts
+ *
+ * パック開封履歴ページのロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. マウント時に OpeningHistoryStore から開封記録をロードし、記録一覧とロード状態を提供する。
+ * 2. パックによる絞り込み（selectedPackId）の状態を管理し、表示対象の記録を算出する。
+ * 3. `calculateOpeningHistoryStats` により、全体およびパックごとの統計を算出する。
+ * 4. 記録の個別削除・全件削除のハンドラ（確認ダイアログ付き）を提供する。
+ * 5. 記録に含まれるカードIDから表示用のカード名を解決する（削除済みのカードはIDを表示）。
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useOpeningHistoryStore } from '../../../stores/openingHistoryStore';
+import { usePackStore } from '../../../stores/packStore';
+import { useCardStore } from '../../../stores/cardStore';
+import { calculateOpeningHistoryStats } from '../../../services/opening-history/openingHistoryStats';
+
+// パックで絞り込まない場合の選択値
+export const ALL_PACKS_FILTER = 'all';
+
+export const useOpeningHistory = () => {
+
+    const records = useOpeningHistoryStore(state => state.records);
+    const isLoading = useOpeningHistoryStore(state => state.isLoading);
+    const fetchAllRecords = useOpeningHistoryStore(state => state.fetchAllRecords);
+    const deleteRecord = useOpeningHistoryStore(state => state.deleteRecord);
+    const clearHistory = useOpeningHistoryStore(state => state.clearHistory);
+    const packs = usePackStore(state => state.packs);
+    const cards = useCardStore(state => state.cards);
+
+    const [selectedPackId, setSelectedPackId] = useState<string>(ALL_PACKS_FILTER);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchAllRecords();
+    }, [fetchAllRecords]);
+
+    // 絞り込みの選択肢 (履歴に存在するパック)
+    const packOptions = useMemo(() => {
+        const options = new Map<string, string>();
+        records.forEach(r => {
+            if (!options.has(r.packId)) {
+                options.set(r.packId, packs.find(p => p.packId === r.packId)?.name ?? r.packName);
+            }
+        });
+        return Array.from(options.entries()).map(([packId, name]) => ({ packId, name }));
+    }, [records, packs]);
+
+    const filteredRecords = useMemo(
+        () => selectedPackId === ALL_PACKS_FILTER ? records : records.filter(r => r.packId === selectedPackId),
+        [records, selectedPackId]
+    );
+
+    const stats = useMemo(
+        () => calculateOpeningHistoryStats(filteredRecords, packs),
+        [filteredRecords, packs]
+    );
+
+    const cardNameMap = useMemo(() => new Map(cards.map(c => [c.cardId, c.name])), [cards]);
+    const getCardName = useCallback(
+        (cardId: string) => cardNameMap.get(cardId) ?? cardId,
+        [cardNameMap]
+    );
+
+    const handleDeleteRecord = useCallback(async (recordId: string) => {
+        if (!window.confirm('この開封記録を削除しますか？')) return;
+        try {
+            setActionError(null);
+            await deleteRecord(recordId);
+        } catch (error) {
+            setActionError(error instanceof Error ? error.message : '開封履歴の削除に失敗しました。');
+        }
+    }, [deleteRecord]);
+
+    const handleClearHistory = useCallback(async () => {
+        if (!window.confirm('全ての開封履歴を削除しますか？この操作は元に戻せません。')) return;
+        try {
+            setActionError(null);
+            await clearHistory();
+            setSelectedPackId(ALL_PACKS_FILTER);
+        } catch (error) {
+            setActionError(error instanceof Error ? error.message : '開封履歴の削除に失敗しました。');
+        }
+    }, [clearHistory]);
+
+    return {
+        isLoading,
+        records: filteredRecords,
+        totalRecordCount: records.length,
+        packOptions,
+        selectedPackId,
+        setSelectedPackId,
+        stats,
+        actionError,
+        getCardName,
+        handleDeleteRecord,
+        handleClearHistory,
+    };
+};
@@ -9,17 +9,30 @@
  * 4. `useGridDisplay` フックを使用して、開封結果を表示するグリッドの列数設定を管理し、UIコントロールを提供する。
  * 5. パックの選択状況、現在のモード（DTCG/FREE/GOD）、ゴールド残高、クールダウン時間を反映して、開封ボタンのテキストと有効/無効状態を制御する。
  * 6. 実際の開封アニメーションと結果表示は、子の `PackOpenerHandler` コンポーネントに委譲する。
+ * 7. 構築済みデッキ（ConstructedDeck）選択時に、購入内容からデッキを自動作成するオプションを表示する。
+ * 8. 単品パック/ボックスの切り替えと、ボックスの選択・作成・編集（BoxEditorModal）のUIを提供する。
+ * 9. DTCGモードで、選択中パックの天井（ピティ）ルールの進捗を表示する（PityProgressPanel）。
+ * 10. God Mode時にシード値の入力を受け付け、直前の開封に使用したシード値を表示する。
+ *     全てのモードで、直前の開封結果を同じシード値・天井カウンターで再現する操作を提供する。
+ * 11. Booster パックの一括開封（開封数・クールダウンの扱いの指定）のUIと抽選中の進捗表示を提供し、結果を `BulkOpenSummaryPanel` で集計表示する。
+ * 12. 開封結果のめくり方（まとめて/昇順に1枚ずつ/タップ/省略）と、ヒット演出の対象とするレアリティの選択UIを提供する。
+ * 13. Booster パック選択時に、目標達成までの開封シミュレーター（ChaseSimulatorModal）を開くボタンを提供する。
  */
 
 import React, { useState, useMemo } from 'react';
 
 // 必要なコンポーネントとフック、型をインポート 
-import type { Pack } from '../../models/models';
-import { usePackOpener } from './hooks/usePackOpener';
+import type { Pack, Box as BoxProduct, PackRevealMode } from '../../models/models';
+import { PACK_REVEAL_MODE_OPTIONS } from '../../models/models';
+import { usePackOpener, MAX_BULK_OPEN_COUNT } from './hooks/usePackOpener';
+import type { BulkCooldownMode } from './hooks/usePackOpener';
+import { getCardCountPerOpening } from '../../services/packs/packSimulation';
+import { resolvePackRarityDefinitions } from '../../services/packs/rarityRegistry';
 
 import {
     Box, Typography, Select, MenuItem, FormControl, InputLabel,
-    Alert, TextField, Paper
+    Alert, TextField, Paper, FormControlLabel, Checkbox,
+    ToggleButtonGroup, ToggleButton, IconButton, Tooltip, Button
 } from '@mui/material'; 
 import type { SelectChangeEvent } from '@mui/material';
 
@@ -32,6 +45,33 @@ import { PAGE_PADDING, PAGE_FLEX_GROW, PAGE_TITLE_VARIANT, PackListGridSettings
 import ControlBar from '../../components/common/ControlBar';
 import type { ControlBarProps } from '../../models/models'; 
 import OpenInNewIcon from '@mui/icons-material/OpenInNew';
+import EditIcon from '@mui/icons-material/Edit';
+import AddIcon from '@mui/icons-material/Add';
+import BoxEditorModal from './components/BoxEditorModal';
+import PityProgressPanel from './components/PityProgressPanel';
+import BulkOpenSummaryPanel from './components/BulkOpenSummaryPanel';
+import ChaseSimulatorModal from './components/ChaseSimulatorModal';
+import LibraryAddIcon from '@mui/icons-material/LibraryAdd';
+import QueryStatsIcon from '@mui/icons-material/QueryStats';
+import ReplayIcon from '@mui/icons-material/Replay';
+
+// 一括開封時のクールダウンの選択肢
+const BULK_COOLDOWN_OPTIONS: { value: BulkCooldownMode; label: string }[] = [
+    { value: 'perBatch', label: '1回分 (まとめて1回)' },
+    { value: 'perPack', label: 'パック数分' },
+    { value: 'none', label: 'なし' },
+];
+
+// めくり方の表示ラベル
+const REVEAL_MODE_LABELS: Record<PackRevealMode, string> = {
+    flipAll: 'まとめて',
+    ascending: '1枚ずつ (昇順)',
+    tapEach: 'タップ',
+    skip: '結果のみ',
+};
+
+// ヒット演出なしを表す Select の値 (空文字)
+const NO_HIT_RARITY = '';
 
 
 interface PackOpenerProps {
@@ -42,6 +82,15 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
 
     // 検索・フィルタ用のローカルstate
     const [searchTerm, setSearchTerm] = useState('');
+    // シード指定用のローカルstate (God Mode時のみ使用)
+    const [seedInput, setSeedInput] = useState('');
+    // 一括開封の開封数入力
+    const [bulkCountInput, setBulkCountInput] = useState('10');
+    // ボックス編集モーダルの状態 (editingBox が null の場合は新規作成)
+    const [isBoxEditorOpen, setIsBoxEditorOpen] = useState(false);
+    const [editingBox, setEditingBox] = useState<BoxProduct | null>(null);
+    // 目標達成までの開封シミュレーターの表示状態
+    const [isChaseSimulatorOpen, setIsChaseSimulatorOpen] = useState(false);
 
     // グリッド表示設定
     const gridDisplayProps = useGridDisplay({
@@ -64,6 +113,8 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
         setSelectedPack,
         isLoading,
         handleOpenPack: hookHandleOpenPack,
+        handleReplayOpening,
+        isOpening,
         lastOpenedResults,
         setLastOpenedResults,
         coins,
@@ -72,8 +123,46 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
         secondsUntilNextOpen,
         currentMode,
         setCoins,
+        autoCreateDeck,
+        setAutoCreateDeck,
+        deckCreationMessage,
+        pityProgress,
+        pityTriggeredRarities,
+        handleOpenPacks: hookHandleOpenPacks,
+        bulkOpenProgress,
+        bulkOpenSummary,
+        bulkCooldownMode,
+        setBulkCooldownMode,
+        productMode,
+        setProductMode,
+        boxes,
+        selectedBox,
+        selectedBoxPack,
+        setSelectedBox,
+        handleOpenBox: hookHandleOpenBox,
+        revealMode,
+        setRevealMode,
+        hitRarityRank,
+        setHitRarityRank,
     } = usePackOpener(preselectedPackId);
 
+    const isBoxMode = productMode === 'box';
+    // 開封結果の表示に使用するパック (ボックスの場合は参照パック)
+    const activePack = isBoxMode ? selectedBoxPack : selectedPack;
+
+    // パック種別に応じた収録内容のラベル (例: "5枚封入" / "構築済み 40枚")
+    const getContentsLabel = (pack: Pack) => pack.packType === 'ConstructedDeck'
+        ? `構築済み ${getCardCountPerOpening(pack)}枚`
+        : `${pack.cardsPerPack}枚封入`;
+    const isConstructedDeck = !isBoxMode && selectedPack?.packType === 'ConstructedDeck';
+    const isBulkOpenAvailable = !isBoxMode && selectedPack?.packType === 'Booster';
+
+    // ヒット演出の基準に選べるレアリティ (表示中のパックの表示設定。上位から順に表示)
+    const hitRarityOptions = useMemo(
+        () => activePack ? [...resolvePackRarityDefinitions(activePack)].reverse() : [],
+        [activePack]
+    );
+
     // パックをフィルタリング
     const filteredPacks = useMemo(() => {
         if (!searchTerm) return packs;
@@ -84,7 +173,7 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
         );
     }, [packs, searchTerm]);
 
-    const packPrice = selectedPack?.price || 0;
+    const packPrice = (isBoxMode ? selectedBox?.price : selectedPack?.price) || 0;
     const canAfford = coins >= packPrice;
     const isDTCGMode = currentMode === 'dtcg';
     const isGodMode = currentMode === 'god';
@@ -100,15 +189,19 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
 
 
     // ControlBar に渡すためのボタン無効化/ツールチップロジックを定義
-    let tooltipText = "パックを開封";
-    let buttonDisabled = !selectedPack; 
+    const productLabel = isBoxMode ? 'ボックス' : 'パック';
+    let tooltipText = isBoxMode ? "ボックスを開封" : isConstructedDeck ? "構築済みデッキを購入" : "パックを開封";
+    let buttonDisabled = !activePack || isOpening;
     let buttonColor: 'primary' | 'error' | 'secondary' = 'primary';
     const buttonIcon = <OpenInNewIcon />;
 
     // 無効化とツールチップテキストの設定
-    if (!selectedPack) {
+    if (isBoxMode && !selectedBox) {
+        buttonDisabled = true;
+        tooltipText = '開封するボックスを選択してください';
+    } else if (!activePack) {
         buttonDisabled = true;
-        tooltipText = '開封するパックを選択してください';
+        tooltipText = isBoxMode ? 'ボックスの収録パックが見つかりません' : '開封するパックを選択してください';
     } else if (isDTCGMode) {
         if (secondsUntilNextOpen > 0) {
             buttonDisabled = true;
@@ -116,11 +209,11 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
             buttonColor = 'secondary';
         } else if (!canAfford) {
             buttonDisabled = true; 
-            tooltipText = `ゴールド不足: ${packPrice - coins} G 足りません (パック価格: ${packPrice} G)`;
+            tooltipText = `ゴールド不足: ${packPrice - coins} G 足りません (${productLabel}価格: ${packPrice} G)`;
             buttonColor = 'error';
         }
     } else { // FREE Mode or GOD Mode
-        tooltipText = 'パックを開封 (無料)';
+        tooltipText = isBoxMode ? 'ボックスを開封 (無料)' : isConstructedDeck ? '構築済みデッキを購入 (無料)' : 'パックを開封 (無料)';
     }
 
     // パック選択のハンドラ
@@ -134,7 +227,44 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
         if (buttonDisabled) return;
 
         setLastOpenedResults({ id: 'pre-open-reset', results: [] });
-        await hookHandleOpenPack();
+
+        // God Mode でシードが入力されている場合のみ、そのシードで開封する
+        const parsedSeed = parseInt(seedInput, 10);
+        const seed = isGodMode && !isNaN(parsedSeed) ? parsedSeed : undefined;
+        if (isBoxMode) {
+            await hookHandleOpenBox(seed);
+        } else {
+            await hookHandleOpenPack(seed);
+        }
+    };
+
+    // 一括開封の入力値とボタン状態
+    const bulkCount = parseInt(bulkCountInput, 10);
+    const isBulkCountValid = Number.isInteger(bulkCount) && bulkCount >= 1 && bulkCount <= MAX_BULK_OPEN_COUNT;
+    const bulkTotalCost = isBulkCountValid ? (selectedPack?.price || 0) * bulkCount : 0;
+    const bulkButtonDisabled = !isBulkOpenAvailable || !isBulkCountValid || isOpening
+        || (isDTCGMode && (secondsUntilNextOpen > 0 || coins < bulkTotalCost));
+
+    // 一括開封ボタン押下時のハンドラ
+    const handleOpenPacks = async () => {
+        if (bulkButtonDisabled) return;
+
+        setLastOpenedResults({ id: 'pre-open-reset', results: [] });
+
+        const parsedSeed = parseInt(seedInput, 10);
+        const seed = isGodMode && !isNaN(parsedSeed) ? parsedSeed : undefined;
+        await hookHandleOpenPacks(bulkCount, seed);
+    };
+
+    // 商品種別 (パック/ボックス) の切り替えハンドラ
+    const handleProductModeChange = (_event: React.MouseEvent<HTMLElement>, mode: 'pack' | 'box' | null) => {
+        if (mode) setProductMode(mode);
+    };
+
+    // ボックス編集モーダルを開く (box が null の場合は新規作成)
+    const handleOpenBoxEditor = (box: BoxProduct | null) => {
+        setEditingBox(box);
+        setIsBoxEditorOpen(true);
     };
 
     // ロード中/未選択の表示
@@ -157,7 +287,9 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
 
         return {
             // タイトル: 収録枚数と選択状態
-            title: selectedPack ? `収録枚数: ${selectedPack.cardsPerPack}枚` : 'パックを選択してください',
+            title: isBoxMode
+                ? (selectedBox && selectedBoxPack ? `収録枚数: ${selectedBoxPack.cardsPerPack}枚 × ${selectedBox.packCount}パック` : 'ボックスを選択してください')
+                : (selectedPack ? `収録枚数: ${getCardCountPerOpening(selectedPack)}枚` : 'パックを選択してください'),
             showTitle: true,
 
             // 列数トグルのProps
@@ -173,6 +305,9 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
         };
     }, [
         selectedPack, 
+        selectedBox,
+        selectedBoxPack,
+        isBoxMode,
         gridDisplayProps.columns, 
         gridDisplayProps.setColumns,
         gridDisplayProps.minColumns,
@@ -225,6 +360,60 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
 
                 {/* パック選択フィルタエリア */}
                 <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
+                    <ToggleButtonGroup
+                        value={productMode}
+                        exclusive
+                        size="small"
+                        onChange={handleProductModeChange}
+                        sx={{ mb: 2 }}
+                    >
+                        <ToggleButton value="pack">パック</ToggleButton>
+                        <ToggleButton value="box">ボックス</ToggleButton>
+                    </ToggleButtonGroup>
+                    {isBoxMode ? (
+                    <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                        <FormControl sx={{ flex: 2 }} size="small">
+                            <InputLabel id="box-select-label">開封するボックス</InputLabel>
+                            <Select
+                                labelId="box-select-label"
+                                value={selectedBox?.boxId || ''}
+                                label="開封するボックス"
+                                onChange={(e) => setSelectedBox(e.target.value)}
+                            >
+                                {boxes.map((box: BoxProduct) => (
+                                    <MenuItem key={box.boxId} value={box.boxId}>
+                                        {box.name}
+                                        {isDTCGMode ? ` (${box.packCount}パック, ${box.price} G)` : ` (${box.packCount}パック, FREE)`}
+                                    </MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                        <Tooltip title="選択中のボックスを編集">
+                            <span>
+                                <IconButton onClick={() => handleOpenBoxEditor(selectedBox)} disabled={!selectedBox}>
+                                    <EditIcon />
+                                </IconButton>
+                            </span>
+                        </Tooltip>
+                        <Tooltip title="ボックスを新規作成">
+                            <IconButton onClick={() => handleOpenBoxEditor(null)}>
+                                <AddIcon />
+                            </IconButton>
+                        </Tooltip>
+                        {isGodMode && (
+                            <TextField
+                                label="シード (GOD MODE)"
+                                type="number"
+                                variant="outlined"
+                                size="small"
+                                value={seedInput}
+                                onChange={(e) => setSeedInput(e.target.value)}
+                                placeholder="空欄でランダム"
+                                sx={{ flex: 1 }}
+                            />
+                        )}
+                    </Box>
+                    ) : (
                     <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-end' }}>
                         <TextField
                             label="パック名で検索"
@@ -245,32 +434,191 @@ const PackOpener: React.FC<PackOpenerProps> = ({ preselectedPackId }) => {
                                 {filteredPacks.map((pack: Pack) => (
                                     <MenuItem key={pack.packId} value={pack.packId}>
                                         {pack.name}
-                                        {isDTCGMode ? ` (${pack.cardsPerPack}枚封入, ${pack.price} G)` : ` (${pack.cardsPerPack}枚封入, FREE)`}
+                                        {isDTCGMode ? ` (${getContentsLabel(pack)}, ${pack.price} G)` : ` (${getContentsLabel(pack)}, FREE)`}
                                     </MenuItem>
                                 ))}
                             </Select>
                         </FormControl>
+                        {isGodMode && (
+                            <TextField
+                                label="シード (GOD MODE)"
+                                type="number"
+                                variant="outlined"
+                                size="small"
+                                value={seedInput}
+                                onChange={(e) => setSeedInput(e.target.value)}
+                                placeholder="空欄でランダム"
+                                sx={{ flex: 1 }}
+                            />
+                        )}
                     </Box>
+                    )}
+                    {isConstructedDeck && (
+                        <FormControlLabel
+                            control={
+                                <Checkbox
+                                    checked={autoCreateDeck}
+                                    onChange={(e) => setAutoCreateDeck(e.target.checked)}
+                                    size="small"
+                                />
+                            }
+                            label="購入時に収録内容からデッキを自動作成する"
+                            sx={{ mt: 1 }}
+                        />
+                    )}
+                    {isBulkOpenAvailable && (
+                        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mt: 2 }}>
+                            <TextField
+                                label="一括開封数"
+                                type="number"
+                                variant="outlined"
+                                size="small"
+                                value={bulkCountInput}
+                                onChange={(e) => setBulkCountInput(e.target.value)}
+                                inputProps={{ min: 1, max: MAX_BULK_OPEN_COUNT }}
+                                error={!isBulkCountValid}
+                                sx={{ width: 140 }}
+                            />
+                            {isDTCGMode && (
+                                <FormControl size="small" sx={{ minWidth: 200 }}>
+                                    <InputLabel id="bulk-cooldown-label">一括開封後のクールダウン</InputLabel>
+                                    <Select
+                                        labelId="bulk-cooldown-label"
+                                        value={bulkCooldownMode}
+                                        label="一括開封後のクールダウン"
+                                        onChange={(e) => setBulkCooldownMode(e.target.value as BulkCooldownMode)}
+                                    >
+                                        {BULK_COOLDOWN_OPTIONS.map(option => (
+                                            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                                        ))}
+                                    </Select>
+                                </FormControl>
+                            )}
+                            <Button
+                                variant="outlined"
+                                startIcon={<LibraryAddIcon />}
+                                onClick={handleOpenPacks}
+                                disabled={bulkButtonDisabled}
+                            >
+                                {bulkOpenProgress !== null
+                                    ? `抽選中... ${Math.floor(bulkOpenProgress * 100)}%`
+                                    : isBulkCountValid ? `${bulkCount}パックまとめて開封` : 'まとめて開封'}
+                                {isDTCGMode && isBulkCountValid && bulkOpenProgress === null ? ` (${bulkTotalCost} G)` : ''}
+                            </Button>
+                            <Button
+                                variant="text"
+                                startIcon={<QueryStatsIcon />}
+                                onClick={() => setIsChaseSimulatorOpen(true)}
+                            >
+                                目標達成までシミュレーション
+                            </Button>
+                        </Box>
+                    )}
                 </Paper>
 
                 {/* エラー/警告表示 */}
                 {purchaseError && <Alert severity="error" sx={{ mb: 2 }}>{purchaseError}</Alert>}
                 {simulationWarning && <Alert severity="warning" sx={{ mb: 2 }}>{simulationWarning}</Alert>}
+                {deckCreationMessage && (
+                    <Alert severity={deckCreationMessage.startsWith('❌') ? 'error' : 'success'} sx={{ mb: 2 }}>
+                        {deckCreationMessage}
+                    </Alert>
+                )}
+
+                {!isBoxMode && (
+                    <PityProgressPanel pityProgress={pityProgress} pityTriggeredRarities={pityTriggeredRarities} />
+                )}
+
+                {/* めくり方・ヒット演出 */}
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+                    <ToggleButtonGroup
+                        value={revealMode}
+                        exclusive
+                        size="small"
+                        onChange={(_event, mode: PackRevealMode | null) => { if (mode) setRevealMode(mode); }}
+                    >
+                        {PACK_REVEAL_MODE_OPTIONS.map(mode => (
+                            <ToggleButton key={mode} value={mode}>{REVEAL_MODE_LABELS[mode]}</ToggleButton>
+                        ))}
+                    </ToggleButtonGroup>
+                    <FormControl size="small" sx={{ minWidth: 200 }}>
+                        <InputLabel id="hit-rarity-label">ヒット演出</InputLabel>
+                        <Select
+                            labelId="hit-rarity-label"
+                            value={hitRarityRank === null ? NO_HIT_RARITY : String(hitRarityRank)}
+                            label="ヒット演出"
+                            onChange={(e) => setHitRarityRank(e.target.value === NO_HIT_RARITY ? null : Number(e.target.value))}
+                        >
+                            <MenuItem value={NO_HIT_RARITY}>なし</MenuItem>
+                            {hitRarityOptions.map(def => (
+                                <MenuItem key={def.rarityName} value={String(def.rank)}>{def.rarityName} 以上</MenuItem>
+                            ))}
+                            {/* 表示中のパックに該当する順位のレアリティがない場合 */}
+                            {hitRarityRank !== null && !hitRarityOptions.some(def => def.rank === hitRarityRank) && (
+                                <MenuItem value={String(hitRarityRank)}>順位 {hitRarityRank} 以上</MenuItem>
+                            )}
+                        </Select>
+                    </FormControl>
+                </Box>
 
                 {/* ⭐️ ControlBar で収録枚数・列数・開封ボタンを統合 ⭐️ */}
                 <Box sx={{ mb: 3 }}>
                     <ControlBar 
                         {...packOpenerControlProps}
                     />
+                    {lastOpenedResults.seed !== undefined && (
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                            <Typography variant="caption" color="text.secondary">
+                                シード: {lastOpenedResults.seed}
+                                {lastOpenedResults.isReplay && '（再現結果: カードプールには追加されていません）'}
+                            </Typography>
+                            <Tooltip title="同じシード値・天井カウンターで、この開封結果を再現します（通貨は消費せず、カードも追加されません）">
+                                <span>
+                                    <Button
+                                        size="small"
+                                        startIcon={<ReplayIcon />}
+                                        onClick={() => handleReplayOpening(lastOpenedResults.id)}
+                                        disabled={isOpening}
+                                    >
+                                        再現
+                                    </Button>
+                                </span>
+                            </Tooltip>
+                        </Box>
+                    )}
                 </Box>
 
-                {/* PackOpenerHandler */}
+                {/* 一括開封後は集計結果を、それ以外は PackOpenerHandler を表示 */}
+                {bulkOpenSummary ? (
+                    <BulkOpenSummaryPanel summary={bulkOpenSummary} pack={selectedPack} />
+                ) : (
                 <PackOpenerHandler
-                    selectedPack={selectedPack}
+                    selectedPack={activePack}
+                    placeholderCount={isBoxMode && selectedBox && selectedBoxPack
+                        ? selectedBox.packCount * (selectedBoxPack.cardsPerPack ?? 0)
+                        : undefined}
                     lastOpenedResults={lastOpenedResults}
                     setLastOpenedResults={setLastOpenedResults}
+                    revealMode={revealMode}
+                    hitRarityRank={hitRarityRank}
                     {...gridDisplayProps.gridRenderUnit}
                 />
+                )}
+
+                <BoxEditorModal
+                    open={isBoxEditorOpen}
+                    box={editingBox}
+                    packs={packs}
+                    onClose={() => setIsBoxEditorOpen(false)}
+                    onSaved={(box) => setSelectedBox(box.boxId)}
+                    onDeleted={() => setLastOpenedResults({ id: 'box-change-reset', results: [] })}
+                />
+
+                <ChaseSimulatorModal
+                    open={isChaseSimulatorOpen && isBulkOpenAvailable}
+                    pack={selectedPack}
+                    onClose={() => setIsChaseSimulatorOpen(false)}
+                />
             </Box>
         </Box>
     );
@@ -4,23 +4,27 @@
  * パック開封シミュレーションの表示ロジックを制御するコンポーネントです。
  * * 責務:
  * 1. 親コンポーネントから受け取った開封結果 (`lastOpenedResults`) の生データを、UI表示とアニメーションに適したフラットなカードリスト (`OpenerCardData[]`) に非同期で変換する。
+ *    その際、レアリティのレジストリから各カードの色・略称・開封演出の段階を付与する。
  * 2. プレースホルダーの生成と表示、および開封結果の表示への切り替えを管理する。
- * 3. カードフリップアニメーションの状態 (`isRevealed`) を管理し、結果の有無に応じてアニメーションのリセット/開始を制御する。
+ * 3. カードごとのフリップ状態 (`revealedIds`) を管理し、結果の有無とめくり方 (`revealMode`) に応じてアニメーションのリセット/開始を制御する。
+ *    昇順めくりではレアリティの低い順に並べ替え、タップでめくるモードではクリックされたカードのみをめくる。
  * 4. カードクリック時のモーダル表示状態を管理し、`useCardData` を介して完全なカードデータを取得し、`CardModal` に渡す。
  * 5. 実際のカードフリップアニメーションは、子の `PackOpeningAnimation` コンポーネントに委譲する。
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Box } from '@mui/material';
+import { Box, Button } from '@mui/material';
 
 // useCardDataフックをインポート
 import { useCardData } from '../cards/hooks/useCardData';
+import { useRarityRegistry } from '../../hooks/useRarityRegistry';
 
 // 外部依存の型やフックをインポート
-import type { Pack, Card, OpenedResultState, OpenerCardData } from '../../models/models';
+import type { Pack, Card, OpenedResultState, OpenerCardData, PackRevealMode } from '../../models/models';
 
 // UIコンポーネントのパスを修正（相対パスを維持）
 import PackOpeningAnimation from './components/PackOpenerAnimation';
+import { getCardCountPerOpening } from '../../services/packs/packSimulation';
 import CardModal from '../cards/components/CardModal';
 import type { CardModalProps } from '../cards/components/CardModal';
 
@@ -41,18 +45,21 @@ const CARD_PLACEHOLDER_OPTIONS = {
 
 interface PackOpenerHandlerProps {
     selectedPack: Pack | null;
+    placeholderCount?: number; // プレースホルダー枚数 (省略時はパックの1回あたりの枚数。ボックス開封時に指定)
     lastOpenedResults: OpenedResultState;
     setLastOpenedResults: React.Dispatch<React.SetStateAction<OpenedResultState>>;
+    revealMode: PackRevealMode;
+    hitRarityRank: number | null;
     sxOverride: any;
     aspectRatio: number;
     gap: number;
 }
 
 // プレースホルダーの生成を分離
-const generatePlaceholders = (selectedPack: Pack): OpenerCardData[] => {
+const generatePlaceholders = (selectedPack: Pack, placeholderCount?: number): OpenerCardData[] => {
     const placeholders: OpenerCardData[] = [];
-    const cardsPerPack = selectedPack.cardsPerPack ?? 0;
-    for (let i = 0; i < cardsPerPack; i++) {
+    const cardsPerOpening = placeholderCount ?? getCardCountPerOpening(selectedPack);
+    for (let i = 0; i < cardsPerOpening; i++) {
         placeholders.push({
             id: `placeholder-${i}-${crypto.randomUUID()}`,
             cardId: `placeholder-card-${i}`,
@@ -67,7 +74,10 @@ const generatePlaceholders = (selectedPack: Pack): OpenerCardData[] => {
 
 const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
     selectedPack,
+    placeholderCount,
     lastOpenedResults,
+    revealMode,
+    hitRarityRank,
     sxOverride,
     aspectRatio,
     gap,
@@ -75,11 +85,14 @@ const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
 
     // useCardDataフックを呼び出し、カード情報取得関数を取得
     const { fetchCardInfo } = useCardData();
+    const rarityRegistry = useRarityRegistry();
 
     // 現在表示しているカードリスト (プレースホルダー or 結果)
     const [displayedCards, setDisplayedCards] = useState<OpenerCardData[]>([]);
-    // カードが表向きになっているか (false = 裏面表示)
-    const [isRevealed, setIsRevealed] = useState(false);
+    // 表向きになっているカードのID (含まれないカードは裏面表示)
+    const [revealedIds, setRevealedIds] = useState<Set<string>>(new Set());
+    // プレースホルダーではなく開封結果を表示しているか
+    const [isShowingResults, setIsShowingResults] = useState(false);
 
     // モーダル関連の State
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -129,6 +142,8 @@ const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
                     number: null,
                 };
 
+                const rarityDefinition = rarityRegistry.getDefinition(cardDetails.rarity, cardDetails.packId);
+
                 for (let i = 0; i < result.count; i++) {
                     const placeholderText = cardDetails.name;
 
@@ -147,6 +162,10 @@ const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
                         imageUrl: finalImageUrl,
                         rarity: cardDetails.rarity,
                         cardBackImageUrl: selectedPack.cardBackImageUrl,
+                        rarityColor: rarityDefinition.color,
+                        rarityAbbreviation: rarityDefinition.abbreviation,
+                        revealTier: rarityDefinition.revealTier,
+                        rarityRank: rarityDefinition.rank,
                     });
                 }
                 return acc;
@@ -161,13 +180,14 @@ const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
             setActualOpenedCards([]);
         }
 
-    }, [lastOpenedResults.results, selectedPack, fetchCardInfo]);
+    }, [lastOpenedResults.results, selectedPack, fetchCardInfo, rarityRegistry]);
 
     // 2. 表示リストの切り替えとアニメーション開始のロジック
     useEffect(() => {
         if (!selectedPack) {
             setDisplayedCards([]);
-            setIsRevealed(false);
+            setRevealedIds(new Set());
+            setIsShowingResults(false);
             return;
         }
 
@@ -176,14 +196,22 @@ const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
 
         if (hasNewResults && actualOpenedCards.length > 0) {
             // 開封結果が確定し、非同期のデータ変換が完了したら、カードリストを切り替え
-            console.log('[PackOpenerHandler] Opening animation: switching to actual cards');
-            setDisplayedCards(actualOpenedCards);
+            console.log(`[PackOpenerHandler] Opening animation: switching to actual cards (mode: ${revealMode})`);
+            // 昇順めくりでは、レアリティの低い順 (最上位のカードが最後) に並べ替える
+            const orderedCards = revealMode === 'ascending'
+                ? [...actualOpenedCards].sort((a, b) => (a.rarityRank ?? -1) - (b.rarityRank ?? -1))
+                : actualOpenedCards;
+            setDisplayedCards(orderedCards);
+            setIsShowingResults(true);
+
+            // タップでめくるモードでは、カードがクリックされるまで裏面のままにする
+            if (revealMode === 'tapEach') return;
 
             // 二重RAFでブラウザの描画フレームを待ち、CSSの初期状態が確実に適用されてからアニメーション開始
             requestAnimationFrame(() => {
                 requestAnimationFrame(() => {
                     console.log('[PackOpenerHandler] Starting flip animation');
-                    setIsRevealed(true);
+                    setRevealedIds(new Set(orderedCards.map(card => card.id)));
                 });
             });
 
@@ -191,19 +219,34 @@ const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
             // 初回ロード時 (isInitialState) および 再開封時のリセット (!hasNewResults)
 
             // 1. プレースホルダーを生成してセット
-            const placeholders = generatePlaceholders(selectedPack);
+            const placeholders = generatePlaceholders(selectedPack, placeholderCount);
             setDisplayedCards(placeholders);
+            setIsShowingResults(false);
 
-            // 2. カードを一瞬で裏面(false)に戻す (アニメーションリセット)
-            setIsRevealed(false);
+            // 2. カードを一瞬で裏面に戻す (アニメーションリセット)
+            setRevealedIds(new Set());
 
             if (!isInitialState) {
-                console.log("[PackOpenerHandler] Animation reset: isRevealed set to false, and placeholders loaded for re-open.");
+                console.log("[PackOpenerHandler] Animation reset: revealedIds cleared, and placeholders loaded for re-open.");
             }
         }
 
+    // めくり方は開封時点の設定を使用する (表示中の結果をめくり直さないよう、revealMode は依存配列に含めない)
     }, [lastOpenedResults.id, lastOpenedResults.results.length, selectedPack, actualOpenedCards.length]);
 
+    // 開封結果がすべて表向きになったか
+    const isAllRevealed = isShowingResults && displayedCards.every(card => revealedIds.has(card.id));
+
+    // タップでめくるモード: クリックされたカードを表向きにする
+    const handleRevealCard = useCallback((card: OpenerCardData) => {
+        setRevealedIds(prev => new Set(prev).add(card.id));
+    }, []);
+
+    // タップでめくるモード: 残りのカードをすべて表向きにする
+    const handleRevealAll = useCallback(() => {
+        setRevealedIds(new Set(displayedCards.map(card => card.id)));
+    }, [displayedCards]);
+
     // cardBackImageUrlはPackOpeningAnimationに渡す(生のURLをそのまま渡す。OpenerCardでgetDisplayImageUrlを使用)
     const cardBackImageUrl = selectedPack?.cardBackImageUrl || '';
 
@@ -253,11 +296,22 @@ const PackOpenerHandler: React.FC<PackOpenerHandlerProps> = ({
 
     return (
         <Box sx={{ /*mt: 3,*/ width: '100%', display: 'flex', flexDirection: 'column' }}>
+            {revealMode === 'tapEach' && isShowingResults && !isAllRevealed && (
+                <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+                    <Button size="small" variant="outlined" onClick={handleRevealAll}>
+                        すべてめくる
+                    </Button>
+                </Box>
+            )}
             <PackOpeningAnimation
                 openedCards={displayedCards}
-                isRevealed={isRevealed}
+                revealedIds={revealedIds}
+                isAllRevealed={isAllRevealed}
+                revealMode={revealMode}
+                hitRarityRank={hitRarityRank}
                 cardBackImageUrl={cardBackImageUrl}
                 onCardClick={handleCardClick}
+                onRevealCard={handleRevealCard}
                 sxOverride={sxOverride}
                 aspectRatio={aspectRatio}
                 gap={gap}
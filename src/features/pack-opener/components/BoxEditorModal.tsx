@@ -0,0 +1,256 @@
+/**
+ * src/features/pack-opener/components/BoxEditorModal.tsx
+ *
+ * ボックス商品（Box）を作成・編集するためのモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. ボックスの基本項目（名前・参照パック・パック数・価格・説明）の入力UIを提供する。
+ * 2. ボックス単位の封入保証（最低枚数）と封入上限（最大枚数）を、レアリティごとの行として編集するUIを提供する。
+ * 3. `useBoxEditor` の検証結果を警告として表示する。
+ * 4. 保存・削除の完了を親コンポーネントに通知する（onSaved / onDeleted）。
+ */
+
+import React from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Button, TextField, Box as MuiBox, Typography, IconButton, Grid,
+    Divider, Alert, Select, MenuItem, FormControl, InputLabel
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+
+import type { Box, Pack } from '../../../models/models';
+import { useBoxEditor } from '../hooks/useBoxEditor';
+
+interface BoxEditorModalProps {
+    open: boolean;
+    box: Box | null;
+    packs: Pack[];
+    onClose: () => void;
+    onSaved: (box: Box) => void;
+    onDeleted: (boxId: string) => void;
+}
+
+// 保証/上限の1行分の入力UI
+interface RarityRuleRowProps {
+    rarityName: string;
+    count: number;
+    countLabel: string;
+    rarityOptions: string[];
+    onRarityChange: (rarityName: string) => void;
+    onCountChange: (count: number) => void;
+    onRemove: () => void;
+}
+
+const RarityRuleRow: React.FC<RarityRuleRowProps> = ({
+    rarityName, count, countLabel, rarityOptions, onRarityChange, onCountChange, onRemove
+}) => (
+    <Grid container spacing={2} alignItems="center" sx={{ mb: 1 }}>
+        <Grid size={6}>
+            <FormControl fullWidth size="small">
+                <InputLabel>レアリティ</InputLabel>
+                <Select value={rarityName} label="レアリティ" onChange={(e) => onRarityChange(e.target.value)}>
+                    {/* 参照パックに存在しないレアリティも編集中の値として表示する */}
+                    {[...new Set([...rarityOptions, rarityName])].filter(Boolean).map(name => (
+                        <MenuItem key={name} value={name}>{name}</MenuItem>
+                    ))}
+                </Select>
+            </FormControl>
+        </Grid>
+        <Grid size={5}>
+            <TextField
+                label={countLabel}
+                type="number"
+                size="small"
+                fullWidth
+                value={count}
+                onChange={(e) => onCountChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                inputProps={{ min: 0 }}
+            />
+        </Grid>
+        <Grid size={1}>
+            <IconButton onClick={onRemove} color="error" size="small">
+                <DeleteIcon />
+            </IconButton>
+        </Grid>
+    </Grid>
+);
+
+const BoxEditorModal: React.FC<BoxEditorModalProps> = ({ open, box, packs, onClose, onSaved, onDeleted }) => {
+
+    const {
+        editingBox,
+        boosterPacks,
+        referencedPack,
+        rarityOptions,
+        validationMessages,
+        saveError,
+        isExistingBox,
+        handleFieldChange,
+        handleAddGuarantee,
+        handleGuaranteeChange,
+        handleRemoveGuarantee,
+        handleAddCap,
+        handleCapChange,
+        handleRemoveCap,
+        handleSave,
+        handleDelete,
+    } = useBoxEditor({ open, box, packs });
+
+    const totalCards = editingBox.packCount * (referencedPack?.cardsPerPack ?? 0);
+
+    const onSaveClick = async () => {
+        const savedBox = await handleSave();
+        if (savedBox) {
+            onSaved(savedBox);
+            onClose();
+        }
+    };
+
+    const onDeleteClick = async () => {
+        if (await handleDelete()) {
+            onDeleted(editingBox.boxId);
+            onClose();
+        }
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>{isExistingBox ? `${editingBox.name} を編集` : 'ボックスを作成'}</DialogTitle>
+            <DialogContent dividers>
+                {saveError && <Alert severity="error" sx={{ mb: 2 }}>{saveError}</Alert>}
+
+                <Grid container spacing={2} sx={{ mb: 2 }}>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <TextField
+                            label="ボックス名"
+                            size="small"
+                            fullWidth
+                            value={editingBox.name}
+                            onChange={(e) => handleFieldChange('name', e.target.value)}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }}>
+                        <FormControl fullWidth size="small">
+                            <InputLabel>収録パック</InputLabel>
+                            <Select
+                                value={editingBox.packId}
+                                label="収録パック"
+                                onChange={(e) => handleFieldChange('packId', e.target.value)}
+                            >
+                                {boosterPacks.map(pack => (
+                                    <MenuItem key={pack.packId} value={pack.packId}>{pack.name}</MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    </Grid>
+                    <Grid size={{ xs: 6, md: 3 }}>
+                        <TextField
+                            label="パック数"
+                            type="number"
+                            size="small"
+                            fullWidth
+                            value={editingBox.packCount}
+                            onChange={(e) => handleFieldChange('packCount', Math.max(0, parseInt(e.target.value, 10) || 0))}
+                            inputProps={{ min: 1 }}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 6, md: 3 }}>
+                        <TextField
+                            label="価格 (G)"
+                            type="number"
+                            size="small"
+                            fullWidth
+                            value={editingBox.price}
+                            onChange={(e) => handleFieldChange('price', Math.max(0, parseInt(e.target.value, 10) || 0))}
+                            inputProps={{ min: 0 }}
+                        />
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 6 }} sx={{ display: 'flex', alignItems: 'center' }}>
+                        <Typography variant="body2" color="text.secondary">
+                            総枚数: {totalCards}枚 ({referencedPack?.cardsPerPack ?? 0}枚 × {editingBox.packCount}パック)
+                        </Typography>
+                    </Grid>
+                    <Grid size={12}>
+                        <TextField
+                            label="説明"
+                            size="small"
+                            fullWidth
+                            multiline
+                            minRows={2}
+                            value={editingBox.description}
+                            onChange={(e) => handleFieldChange('description', e.target.value)}
+                        />
+                    </Grid>
+                </Grid>
+
+                <Divider sx={{ mb: 2 }} />
+
+                {/* 封入保証 */}
+                <MuiBox sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                    <Typography variant="subtitle1">封入保証 (ボックス内の最低枚数)</Typography>
+                    <Button size="small" startIcon={<AddIcon />} onClick={handleAddGuarantee} disabled={rarityOptions.length === 0}>
+                        追加
+                    </Button>
+                </MuiBox>
+                {editingBox.guarantees.length === 0 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>封入保証はありません。</Typography>
+                )}
+                {editingBox.guarantees.map((guarantee, index) => (
+                    <RarityRuleRow
+                        key={`guarantee-${index}`}
+                        rarityName={guarantee.rarityName}
+                        count={guarantee.minCount}
+                        countLabel="最低枚数"
+                        rarityOptions={rarityOptions}
+                        onRarityChange={(rarityName) => handleGuaranteeChange(index, { rarityName })}
+                        onCountChange={(minCount) => handleGuaranteeChange(index, { minCount })}
+                        onRemove={() => handleRemoveGuarantee(index)}
+                    />
+                ))}
+
+                <Divider sx={{ my: 2 }} />
+
+                {/* 封入上限 */}
+                <MuiBox sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                    <Typography variant="subtitle1">封入上限 (ボックス内の最大枚数)</Typography>
+                    <Button size="small" startIcon={<AddIcon />} onClick={handleAddCap} disabled={rarityOptions.length === 0}>
+                        追加
+                    </Button>
+                </MuiBox>
+                {editingBox.caps.length === 0 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>封入上限はありません。</Typography>
+                )}
+                {editingBox.caps.map((cap, index) => (
+                    <RarityRuleRow
+                        key={`cap-${index}`}
+                        rarityName={cap.rarityName}
+                        count={cap.maxCount}
+                        countLabel="最大枚数"
+                        rarityOptions={rarityOptions}
+                        onRarityChange={(rarityName) => handleCapChange(index, { rarityName })}
+                        onCountChange={(maxCount) => handleCapChange(index, { maxCount })}
+                        onRemove={() => handleRemoveCap(index)}
+                    />
+                ))}
+
+                {validationMessages.length > 0 && (
+                    <Alert severity="warning" sx={{ mt: 2, whiteSpace: 'pre-line' }}>
+                        {validationMessages.join('\n')}
+                    </Alert>
+                )}
+            </DialogContent>
+            <DialogActions>
+                {isExistingBox && (
+                    <Button onClick={onDeleteClick} color="error" sx={{ mr: 'auto' }}>削除</Button>
+                )}
+                <Button onClick={onClose}>キャンセル</Button>
+                <Button onClick={onSaveClick} variant="contained" disabled={validationMessages.length > 0}>
+                    保存
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default BoxEditorModal;
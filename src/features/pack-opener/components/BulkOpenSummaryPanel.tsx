@@ -0,0 +1,185 @@
+/**
+ * src/features/pack-opener/components/BulkOpenSummaryPanel.tsx
+ *
+ * パック開封画面に表示する、一括開封（N個まとめて開封）の集計結果パネルです。
+ *
+ * * 責務:
+ * 1. 開封パック数・消費コイン・総枚数・新規入手カード数のサマリーを表示する。
+ * 2. 集計結果のカード情報を非同期で取得し、レアリティごとの枚数・種類数を一覧表示する。
+ * 3. カードごとの入手枚数を一覧表示し、開封前に所持していなかったカードを「NEW」として強調表示する。
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Paper, Box, Typography, Grid, Divider, Chip } from '@mui/material';
+
+import type { Pack, Card, BulkOpenSummary } from '../../../models/models';
+import { useCardData } from '../../cards/hooks/useCardData';
+
+interface BulkOpenSummaryPanelProps {
+    summary: BulkOpenSummary;
+    pack: Pack | null;
+}
+
+// カード1種類分の集計行
+interface CardSummaryRow {
+    cardId: string;
+    name: string;
+    rarity: string;
+    count: number;
+    isNew: boolean;
+}
+
+// レアリティ1種類分の集計行
+interface RaritySummaryRow {
+    rarityName: string;
+    totalCount: number;
+    uniqueCount: number;
+    newCount: number;
+}
+
+const UNKNOWN_RARITY = '不明';
+
+// 補助関数: パックの封入設定におけるレアリティの並び順を取得する
+const getRarityOrder = (pack: Pack | null): string[] => {
+    if (!pack) return [];
+    const configs = pack.isAdvancedRulesEnabled && pack.advancedRarityConfig?.length
+        ? pack.advancedRarityConfig
+        : pack.rarityConfig;
+    return configs.map(c => c.rarityName);
+};
+
+const BulkOpenSummaryPanel: React.FC<BulkOpenSummaryPanelProps> = ({ summary, pack }) => {
+
+    const { fetchCardInfo } = useCardData();
+    const [cardMap, setCardMap] = useState<Map<string, Card>>(new Map());
+
+    // 集計結果に含まれるカードの情報を一括取得
+    useEffect(() => {
+        let isCancelled = false;
+        Promise.all(summary.results.map(r => fetchCardInfo(r.cardId)))
+            .then(cards => {
+                if (isCancelled) return;
+                setCardMap(new Map(
+                    cards
+                        .filter((card): card is Card => card !== undefined)
+                        .map(card => [card.cardId, card])
+                ));
+            })
+            .catch(error => console.error('[BulkOpenSummaryPanel] ❌ Failed to fetch card info:', error));
+        return () => { isCancelled = true; };
+    }, [summary, fetchCardInfo]);
+
+    const rarityOrder = useMemo(() => getRarityOrder(pack), [pack]);
+
+    const cardRows: CardSummaryRow[] = useMemo(() => {
+        const newCardIds = new Set(summary.newCardIds);
+        // 上位レアリティ (封入設定の下側) を先に表示する。封入設定にないレアリティは末尾
+        const getRarityRank = (rarityName: string): number => rarityOrder.indexOf(rarityName);
+        return summary.results
+            .map(r => {
+                const card = cardMap.get(r.cardId);
+                return {
+                    cardId: r.cardId,
+                    name: card?.name ?? r.cardId,
+                    rarity: card?.rarity || UNKNOWN_RARITY,
+                    count: r.count,
+                    isNew: newCardIds.has(r.cardId),
+                };
+            })
+            .sort((a, b) =>
+                getRarityRank(b.rarity) - getRarityRank(a.rarity)
+                || Number(b.isNew) - Number(a.isNew)
+                || b.count - a.count
+                || a.name.localeCompare(b.name)
+            );
+    }, [summary, cardMap, rarityOrder]);
+
+    const rarityRows: RaritySummaryRow[] = useMemo(() => {
+        const rowMap = new Map<string, RaritySummaryRow>();
+        cardRows.forEach(row => {
+            const current = rowMap.get(row.rarity) ?? { rarityName: row.rarity, totalCount: 0, uniqueCount: 0, newCount: 0 };
+            current.totalCount += row.count;
+            current.uniqueCount += 1;
+            if (row.isNew) current.newCount += 1;
+            rowMap.set(row.rarity, current);
+        });
+        // Map の挿入順により、カード一覧と同じ並び (上位レアリティが先) になる
+        return Array.from(rowMap.values());
+    }, [cardRows]);
+
+    const totalCards = summary.results.reduce((sum, r) => sum + r.count, 0);
+
+    return (
+        <Paper elevation={1} sx={{ p: 2, mb: 2 }}>
+            <Typography variant="h6" sx={{ mb: 1 }}>一括開封の結果</Typography>
+            <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', mb: 1 }}>
+                <Typography variant="body2">開封数: <strong>{summary.packCount}</strong> パック</Typography>
+                <Typography variant="body2">消費: <strong>{summary.totalCost}</strong> G</Typography>
+                <Typography variant="body2">総枚数: <strong>{totalCards}</strong> 枚 ({summary.results.length} 種類)</Typography>
+                <Typography variant="body2" color={summary.newCardIds.length > 0 ? 'secondary' : 'text.primary'}>
+                    新規入手: <strong>{summary.newCardIds.length}</strong> 種類
+                </Typography>
+            </Box>
+            <Typography variant="caption" color="text.secondary">
+                シード: {summary.seed} (i番目のパックは シード + i で抽選)
+            </Typography>
+
+            <Divider sx={{ my: 2 }} />
+
+            {/* レアリティ別の集計 */}
+            <Typography variant="subtitle1" sx={{ mb: 1 }}>レアリティ別</Typography>
+            <Grid container spacing={1} sx={{ px: 1, mb: 1 }}>
+                <Grid size={4}><Typography variant="subtitle2">レアリティ</Typography></Grid>
+                <Grid size={2}><Typography variant="subtitle2" align="right">枚数</Typography></Grid>
+                <Grid size={2}><Typography variant="subtitle2" align="right">種類数</Typography></Grid>
+                <Grid size={2}><Typography variant="subtitle2" align="right">平均/パック</Typography></Grid>
+                <Grid size={2}><Typography variant="subtitle2" align="right">新規</Typography></Grid>
+            </Grid>
+            <Divider />
+            {rarityRows.map(row => (
+                <Grid container spacing={1} key={row.rarityName} sx={{ py: 0.5, px: 1 }}>
+                    <Grid size={4}><Typography variant="body2" fontWeight="bold">{row.rarityName}</Typography></Grid>
+                    <Grid size={2}><Typography variant="body2" align="right">{row.totalCount}</Typography></Grid>
+                    <Grid size={2}><Typography variant="body2" align="right">{row.uniqueCount}</Typography></Grid>
+                    <Grid size={2}>
+                        <Typography variant="body2" align="right">{(row.totalCount / summary.packCount).toFixed(2)}</Typography>
+                    </Grid>
+                    <Grid size={2}>
+                        <Typography variant="body2" align="right" color={row.newCount > 0 ? 'secondary' : 'text.secondary'}>
+                            {row.newCount}
+                        </Typography>
+                    </Grid>
+                </Grid>
+            ))}
+
+            <Divider sx={{ my: 2 }} />
+
+            {/* カード別の集計 */}
+            <Typography variant="subtitle1" sx={{ mb: 1 }}>カード別</Typography>
+            <Grid container spacing={1} sx={{ px: 1, mb: 1 }}>
+                <Grid size={7}><Typography variant="subtitle2">カード名</Typography></Grid>
+                <Grid size={3}><Typography variant="subtitle2">レアリティ</Typography></Grid>
+                <Grid size={2}><Typography variant="subtitle2" align="right">枚数</Typography></Grid>
+            </Grid>
+            <Divider />
+            {cardRows.map(row => (
+                <Grid
+                    container
+                    spacing={1}
+                    key={row.cardId}
+                    alignItems="center"
+                    sx={{ py: 0.5, px: 1, bgcolor: row.isNew ? 'action.selected' : undefined }}
+                >
+                    <Grid size={7} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="body2" noWrap>{row.name}</Typography>
+                        {row.isNew && <Chip label="NEW" color="secondary" size="small" />}
+                    </Grid>
+                    <Grid size={3}><Typography variant="body2">{row.rarity}</Typography></Grid>
+                    <Grid size={2}><Typography variant="body2" align="right">× {row.count}</Typography></Grid>
+                </Grid>
+            ))}
+        </Paper>
+    );
+};
+
+export default BulkOpenSummaryPanel;
@@ -0,0 +1,308 @@
+/**
+ * src/features/pack-opener/components/ChaseSimulatorModal.tsx
+ *
+ * 「目標を達成するまで開封」シミュレーターのモーダルコンポーネントです。
+ *
+ * * 責務:
+ * 1. 目標の種類（指定カード / 全種類コンプリート / 全種類N枚ずつ）と、目標カード・必要枚数を行として編集するUIを提供する。
+ * 2. 試行回数・シードの入力UIと実行ボタン、試行中の進捗バーとキャンセルボタンを提供する。
+ * 3. 目標達成までのパック数・消費コインの平均・中央値・90パーセンタイルと、パック数の分布（ヒストグラム）を表示する。
+ * 4. 入手できない目標カードの存在と、上限パック数以内に達成できなかった試行を通知する。
+ * 5. FREE/GOD モードでは、最初の試行で入手したカードを所持カードに追加するボタンを表示する。
+ */
+
+import React from 'react';
+import {
+    Dialog, DialogTitle, DialogContent, DialogActions,
+    Box, Typography, Button, TextField, IconButton, Tooltip, Alert, Divider,
+    Select, MenuItem, FormControl, InputLabel, ToggleButtonGroup, ToggleButton,
+    CircularProgress, LinearProgress
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+import LibraryAddIcon from '@mui/icons-material/LibraryAdd';
+
+import type { Pack } from '../../../models/models';
+import type { ChaseGoalType, ChaseDistributionStat } from '../../../services/packs/chaseSimulator';
+import { useChaseSimulator, CHASE_TRIAL_OPTIONS } from '../hooks/useChaseSimulator';
+
+interface ChaseSimulatorModalProps {
+    open: boolean;
+    pack: Pack | null;
+    onClose: () => void;
+}
+
+// 目標の種類の表示ラベル
+const GOAL_TYPE_OPTIONS: { value: ChaseGoalType; label: string }[] = [
+    { value: 'targets', label: '指定カード' },
+    { value: 'completeSet', label: 'コンプリート' },
+    { value: 'copiesOfEach', label: '全種類N枚' },
+];
+
+// 必要枚数・N枚の入力範囲
+const MAX_CHASE_COPIES = 99;
+
+// 入力値を 1〜MAX_CHASE_COPIES の整数に丸める
+const clampCopies = (value: number): number => Math.min(MAX_CHASE_COPIES, Math.max(1, Math.floor(value) || 1));
+
+// 表示用フォーマッタ
+const formatNumber = (value: number): string => Number.isInteger(value) ? value.toLocaleString() : value.toFixed(1);
+
+// 分布の統計値1行分
+const DistributionSummary: React.FC<{ label: string; unit: string; stat: ChaseDistributionStat }> = ({ label, unit, stat }) => (
+    <Typography variant="body2" sx={{ mb: 0.5 }}>
+        {label}: 中央値 <strong>{formatNumber(stat.median)}</strong> {unit} / 90%: <strong>{formatNumber(stat.p90)}</strong> {unit}
+        {' '}(平均 {formatNumber(stat.mean)} / 最小 {formatNumber(stat.min)} / 最大 {formatNumber(stat.max)})
+    </Typography>
+);
+
+// パック数の分布 (区間ごとの横棒)
+const DistributionHistogram: React.FC<{ stat: ChaseDistributionStat }> = ({ stat }) => {
+    const maxCount = Math.max(...stat.histogram.map(bucket => bucket.count), 1);
+    return (
+        <Box sx={{ mt: 1 }}>
+            {stat.histogram.map((bucket, index) => (
+                <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                    <Typography variant="caption" sx={{ width: 120, textAlign: 'right', flexShrink: 0 }}>
+                        {Math.ceil(bucket.from).toLocaleString()}〜{Math.floor(bucket.to).toLocaleString()}
+                    </Typography>
+                    <Box sx={{ flexGrow: 1, bgcolor: 'action.hover', height: 12, borderRadius: 1 }}>
+                        <Box sx={{ width: `${(bucket.count / maxCount) * 100}%`, bgcolor: 'primary.main', height: '100%', borderRadius: 1 }} />
+                    </Box>
+                    <Typography variant="caption" color="text.secondary" sx={{ width: 40 }}>{bucket.count}</Typography>
+                </Box>
+            ))}
+        </Box>
+    );
+};
+
+const ChaseSimulatorModal: React.FC<ChaseSimulatorModalProps> = ({ open, pack, onClose }) => {
+
+    const {
+        goalType,
+        setGoalType,
+        targets,
+        handleAddTarget,
+        handleTargetChange,
+        handleRemoveTarget,
+        copies,
+        setCopies,
+        trials,
+        setTrials,
+        seedInput,
+        setSeedInput,
+        packCards,
+        cardMap,
+        canRun,
+        isSimulating,
+        progress,
+        runSimulation,
+        cancelSimulation,
+        result,
+        simulationError,
+        canGrantResults,
+        isGranted,
+        grantMessage,
+        handleGrantResults,
+    } = useChaseSimulator(open ? pack : null);
+
+    const sampleRun = result?.sampleRun ?? null;
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle>目標達成までの開封シミュレーション{pack ? `: ${pack.name}` : ''}</DialogTitle>
+            <DialogContent dividers>
+                {packCards.length === 0 && !simulationError && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>収録カードがありません。</Typography>
+                )}
+
+                <ToggleButtonGroup
+                    value={goalType}
+                    exclusive
+                    size="small"
+                    onChange={(_event, value: ChaseGoalType | null) => { if (value) setGoalType(value); }}
+                    sx={{ mb: 2 }}
+                    disabled={isSimulating}
+                >
+                    {GOAL_TYPE_OPTIONS.map(option => (
+                        <ToggleButton key={option.value} value={option.value}>{option.label}</ToggleButton>
+                    ))}
+                </ToggleButtonGroup>
+
+                {goalType === 'targets' && (
+                    <Box sx={{ mb: 2 }}>
+                        {targets.map((target, index) => (
+                            <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 1.5 }}>
+                                <FormControl size="small" sx={{ flexGrow: 1 }}>
+                                    <InputLabel id={`chase-target-label-${index}`}>カード</InputLabel>
+                                    <Select
+                                        labelId={`chase-target-label-${index}`}
+                                        value={target.cardId}
+                                        label="カード"
+                                        onChange={(e) => handleTargetChange(index, { cardId: e.target.value })}
+                                        disabled={isSimulating}
+                                    >
+                                        {packCards.map(card => (
+                                            <MenuItem key={card.cardId} value={card.cardId}>{card.name} ({card.rarity})</MenuItem>
+                                        ))}
+                                    </Select>
+                                </FormControl>
+                                <TextField
+                                    label="必要枚数"
+                                    size="small"
+                                    type="number"
+                                    value={target.count}
+                                    onChange={(e) => handleTargetChange(index, { count: clampCopies(Number(e.target.value)) })}
+                                    inputProps={{ min: 1, max: MAX_CHASE_COPIES }}
+                                    sx={{ width: 100 }}
+                                    disabled={isSimulating}
+                                />
+                                <Tooltip title="この行を削除">
+                                    <span>
+                                        <IconButton size="small" onClick={() => handleRemoveTarget(index)} disabled={isSimulating}>
+                                            <DeleteIcon fontSize="small" />
+                                        </IconButton>
+                                    </span>
+                                </Tooltip>
+                            </Box>
+                        ))}
+                        <Button
+                            size="small"
+                            startIcon={<AddIcon />}
+                            onClick={handleAddTarget}
+                            disabled={isSimulating || targets.length >= packCards.length}
+                        >
+                            目標カードを追加
+                        </Button>
+                    </Box>
+                )}
+                {goalType === 'completeSet' && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                        収録カード全 {packCards.length} 種類を1枚ずつ揃えるまで開封します。
+                    </Typography>
+                )}
+                {goalType === 'copiesOfEach' && (
+                    <TextField
+                        label="1種類あたりの枚数"
+                        size="small"
+                        type="number"
+                        value={copies}
+                        onChange={(e) => setCopies(clampCopies(Number(e.target.value)))}
+                        inputProps={{ min: 1, max: MAX_CHASE_COPIES }}
+                        sx={{ width: 180, mb: 2 }}
+                        disabled={isSimulating}
+                    />
+                )}
+
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                    <FormControl size="small" sx={{ minWidth: 140 }}>
+                        <InputLabel id="chase-trials-label">試行回数</InputLabel>
+                        <Select
+                            labelId="chase-trials-label"
+                            value={trials}
+                            label="試行回数"
+                            onChange={(e) => setTrials(Number(e.target.value))}
+                            disabled={isSimulating}
+                        >
+                            {CHASE_TRIAL_OPTIONS.map(n => (
+                                <MenuItem key={n} value={n}>{n.toLocaleString()} 回</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <TextField
+                        label="シード (任意)"
+                        size="small"
+                        type="number"
+                        value={seedInput}
+                        onChange={(e) => setSeedInput(e.target.value)}
+                        sx={{ width: 160 }}
+                        disabled={isSimulating}
+                    />
+                    <Button
+                        variant="contained"
+                        startIcon={isSimulating ? <CircularProgress size={16} color="inherit" /> : <PlayArrowIcon />}
+                        onClick={runSimulation}
+                        disabled={!canRun}
+                    >
+                        {isSimulating ? '試行中...' : 'シミュレーション'}
+                    </Button>
+                    {isSimulating && (
+                        <Button variant="outlined" color="inherit" startIcon={<StopIcon />} onClick={cancelSimulation}>
+                            キャンセル
+                        </Button>
+                    )}
+                </Box>
+
+                {progress !== null && (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                        <LinearProgress variant="determinate" value={progress * 100} sx={{ flexGrow: 1 }} />
+                        <Typography variant="caption" color="text.secondary">{Math.floor(progress * 100)}%</Typography>
+                    </Box>
+                )}
+
+                {simulationError && <Alert severity="error" sx={{ mb: 2 }}>{simulationError}</Alert>}
+
+                {result && (
+                    <>
+                        <Divider sx={{ mb: 2 }} />
+                        {result.simulationWarning && (
+                            <Alert severity="warning" sx={{ mb: 2, whiteSpace: 'pre-line' }}>{result.simulationWarning}</Alert>
+                        )}
+
+                        {result.unreachableCardIds.length > 0 ? (
+                            <Alert severity="info">
+                                次のカードは収録されていない、または排出ウェイトが0のため入手できません:
+                                {' '}{result.unreachableCardIds.map(cardId => cardMap.get(cardId)?.name ?? cardId).join('、')}
+                            </Alert>
+                        ) : result.trials === 0 ? (
+                            <Alert severity="info">このパックでは目標達成までの開封をシミュレーションできません。</Alert>
+                        ) : (
+                            <Box>
+                                <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+                                    目標 {result.requiredCardCount} 種類 / {result.trials.toLocaleString()} 回試行中 {result.completedTrials.toLocaleString()} 回が
+                                    {' '}{result.maxPacksPerTrial.toLocaleString()} パック以内に達成 / 1パック {result.packPrice} G / シード: {result.seed}
+                                </Typography>
+
+                                {result.packStats && result.coinStats ? (
+                                    <>
+                                        <DistributionSummary label="パック数" unit="パック" stat={result.packStats} />
+                                        <DistributionSummary label="消費コイン" unit="G" stat={result.coinStats} />
+                                        <DistributionHistogram stat={result.packStats} />
+                                    </>
+                                ) : (
+                                    <Alert severity="warning">上限パック数以内に目標を達成できた試行がありません。</Alert>
+                                )}
+
+                                {sampleRun && canGrantResults && (
+                                    <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mt: 2 }}>
+                                        <Button
+                                            variant="outlined"
+                                            startIcon={<LibraryAddIcon />}
+                                            onClick={handleGrantResults}
+                                            disabled={isGranted || sampleRun.results.length === 0}
+                                        >
+                                            1回目の試行のカードを所持カードに追加
+                                        </Button>
+                                        <Typography variant="caption" color="text.secondary">
+                                            {sampleRun.packCount.toLocaleString()} パック分{sampleRun.isCompleted ? '' : ' (目標未達で打ち切り)'}
+                                        </Typography>
+                                    </Box>
+                                )}
+                                {grantMessage && (
+                                    <Alert severity={grantMessage.startsWith('❌') ? 'error' : 'success'} sx={{ mt: 2 }}>{grantMessage}</Alert>
+                                )}
+                            </Box>
+                        )}
+                    </>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={onClose}>閉じる</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default ChaseSimulatorModal;
@@ -4,10 +4,14 @@
  * * 責務:
  * 1. 3D CSSプロパティを使用し、カードのフリップアニメーションを実装する (ラッパー)。
  * 2. 画像表示は ImagePreview に委譲する。
+ * 3. 表向きになったカードに、レアリティの演出の段階（revealTier）に応じた発光・ホログラムの演出とレアリティバッジを重ねる。
+ * 4. ヒット対象のカード（isHit）は、表向きになった後に拡大の演出と「HIT!」の表示を行う。
+ * 5. 裏向きのカードのクリックをめくる要求（onReveal）として通知し、演出の省略（instant）時はフリップを即時に行う。
  */
 
 import React from 'react';
 import { Box, Paper } from '@mui/material';
+import { keyframes } from '@mui/material/styles';
 import type { OpenerCardData } from '../../../models/models';
 import ImagePreview from '../../../components/common/ImagePreview'; 
 
@@ -17,6 +21,12 @@ interface OpenerCardProps {
     isRevealed: boolean;       // カードが表になっているか (フリップ状態)
     delay: number;             // アニメーション遅延時間 (シーケンシャル開封用)
     onClick?: (card: OpenerCardData) => void;
+    /** 裏向きのカードがクリックされた場合の通知 (タップでめくるモード用) */
+    onReveal?: (card: OpenerCardData) => void;
+    /** ヒット演出の対象か */
+    isHit?: boolean;
+    /** フリップのアニメーションを省略する */
+    instant?: boolean;
     useFixedSize?: boolean;
 }
 
@@ -26,6 +36,27 @@ import {
     getDisplayImageUrl // プレースホルダー生成のために残す
 } from '../../../utils/imageUtils';
 
+// フリップ完了後に演出を開始するまでの時間 (ms)。flipStyle の transition と合わせる
+const FLIP_DURATION_MS = 500;
+
+// ホログラム演出の光沢を横方向に流すアニメーション
+const holoShimmer = keyframes`
+    0% { background-position: 0% 50%; }
+    100% { background-position: 200% 50%; }
+`;
+
+const holoFadeIn = keyframes`
+    from { opacity: 0; }
+    to { opacity: 0.8; }
+`;
+
+// ヒット演出: 一度大きく拡大してから元に戻る
+const hitPulse = keyframes`
+    0% { transform: scale(1); }
+    40% { transform: scale(1.12); }
+    100% { transform: scale(1); }
+`;
+
 
 const OpenerCard: React.FC<OpenerCardProps> = ({
     cardData,
@@ -33,6 +64,9 @@ const OpenerCard: React.FC<OpenerCardProps> = ({
     isRevealed,
     delay,
     onClick,
+    onReveal,
+    isHit = false,
+    instant = false,
     useFixedSize = true,
 }) => {
     
@@ -46,15 +80,32 @@ const OpenerCard: React.FC<OpenerCardProps> = ({
     });
     
     // --- 2. アニメーションスタイル ---
+    const revealTier = cardData?.revealTier ?? 'none';
+    const rarityColor = cardData?.rarityColor;
+    const hasGlow = isRevealed && !!rarityColor && revealTier !== 'none';
+    const flipDuration = instant ? 0 : FLIP_DURATION_MS;
+    // 表向きになった後の演出 (発光・ホログラム・ヒット) の開始時刻
+    const effectDelay = delay + flipDuration;
+
     const flipStyle = {
-        transition: `transform 0.5s ease-out ${delay}ms`,
+        transition: instant
+            ? 'none'
+            : `transform ${FLIP_DURATION_MS}ms ease-out ${delay}ms, box-shadow 0.3s ease-in ${effectDelay}ms`,
         transform: isRevealed ? 'rotateY(180deg)' : 'rotateY(0deg)',
+        // 発光演出 (glow / holo)
+        boxShadow: hasGlow ? `0 0 12px 4px ${rarityColor}` : undefined,
     };
 
     // --- 3. クリックハンドラ ---
     const handleClick = () => {
-        // カードが表になっており、データが存在する場合のみクリックを処理
-        if (isRevealed && cardData && onClick) {
+        if (!cardData) return;
+        // 裏向きのカードはめくる要求として通知する
+        if (!isRevealed) {
+            onReveal?.(cardData);
+            return;
+        }
+        // カードが表になっている場合のみ詳細表示を処理
+        if (onClick) {
             onClick(cardData);
         }
     };
@@ -77,7 +128,9 @@ const OpenerCard: React.FC<OpenerCardProps> = ({
                 height: useFixedSize ? PACK_CARD_HEIGHT : 'auto',
                 aspectRatio: useFixedSize ? undefined : '63 / 88', 
 
-                cursor: isRevealed && cardData ? 'pointer' : 'default',
+                cursor: cardData && (isRevealed || onReveal) ? 'pointer' : 'default',
+                // ヒット演出 (フリップ完了後に1回だけ拡大)
+                ...(isRevealed && isHit ? { animation: `${hitPulse} 0.6s ease-out ${effectDelay}ms 1 both`, zIndex: 1 } : {}),
             }}
             onClick={handleClick}
         >
@@ -110,6 +163,69 @@ const OpenerCard: React.FC<OpenerCardProps> = ({
                         height={useFixedSize ? PACK_CARD_HEIGHT : undefined}
                         imageSx={flipImageSx}
                     />
+
+                    {/* ホログラム演出 (holo) */}
+                    {isRevealed && revealTier === 'holo' && (
+                        <Box
+                            sx={{
+                                position: 'absolute',
+                                inset: 0,
+                                pointerEvents: 'none',
+                                background: 'linear-gradient(115deg, transparent 20%, rgba(255, 0, 128, 0.45) 35%, rgba(255, 255, 0, 0.45) 45%, rgba(0, 255, 200, 0.45) 55%, rgba(0, 128, 255, 0.45) 65%, transparent 80%)',
+                                backgroundSize: '200% 100%',
+                                mixBlendMode: 'color-dodge',
+                                opacity: 0.8,
+                                // フリップ完了まではフェードインの開始状態 (透明) を保つ
+                                animation: `${holoFadeIn} 0.3s ease-in ${effectDelay}ms both, ${holoShimmer} 2.5s linear ${effectDelay}ms infinite`,
+                            }}
+                        />
+                    )}
+
+                    {/* レアリティバッジ */}
+                    {cardData?.rarityAbbreviation && rarityColor && (
+                        <Box
+                            title={cardData.rarity}
+                            sx={{
+                                position: 'absolute',
+                                top: 4,
+                                left: 4,
+                                px: 0.75,
+                                borderRadius: 1,
+                                bgcolor: rarityColor,
+                                color: 'white',
+                                fontSize: '0.7rem',
+                                fontWeight: 'bold',
+                                lineHeight: 1.6,
+                                textShadow: '0 0 2px rgba(0, 0, 0, 0.6)',
+                                pointerEvents: 'none',
+                            }}
+                        >
+                            {cardData.rarityAbbreviation}
+                        </Box>
+                    )}
+
+                    {/* ヒット表示 */}
+                    {isRevealed && isHit && (
+                        <Box
+                            sx={{
+                                position: 'absolute',
+                                bottom: 6,
+                                left: 0,
+                                right: 0,
+                                textAlign: 'center',
+                                color: 'white',
+                                fontWeight: 'bold',
+                                fontSize: '0.9rem',
+                                letterSpacing: 2,
+                                bgcolor: rarityColor ?? 'error.main',
+                                textShadow: '0 0 4px rgba(0, 0, 0, 0.8)',
+                                pointerEvents: 'none',
+                                animation: `${holoFadeIn} 0.3s ease-in ${effectDelay}ms both`,
+                            }}
+                        >
+                            HIT!
+                        </Box>
+                    )}
                 </Box>
                 
                 {/* 💡 カード裏面: ImagePreviewをラップして3D CSSを適用 */}
@@ -4,26 +4,31 @@
  * パック開封シミュレーションの結果表示領域全体と、カードの連続フリップアニメーションを制御するコンポーネント。
  * * 責務:
  * 1. 汎用グリッドコンポーネント (GridDisplay) の代わりに CardList を利用して、開封されたカードリスト (openedCards) を整列表示する。
- * 2. CardListがアイテムの配列を処理する際に、OpenerCardにアニメーション遅延 (delay) を与えるためのラッパーコンポーネント (OpenerCardWrapper) を提供する。
- * 3. 開封状態 (isRevealed) に応じて、カードをクリック可能にするか、結果のサマリーメッセージを表示するかを制御する。
+ * 2. CardListがアイテムの配列を処理する際に、OpenerCardにめくり方 (revealMode) に応じたアニメーション遅延 (delay) を与えるためのラッパーコンポーネント (OpenerCardWrapper) を提供する。
+ * 3. カードごとの開封状態 (revealedIds) に応じて、カードをクリック可能にするか、結果のサマリーメッセージを表示するかを制御する。
+ *    ヒット対象 (表示順位が hitRarityRank 以上) のカードにはヒット演出を指定し、すべて表向きになった後にヒットしたカードを一覧表示する。
  * 4. グリッドの表示スタイル (aspectRatio, gap, sxOverride, columns) を親コンポーネントから受け取り、CardListに渡す。
  */
 
 import React from 'react';
-import { Box, Typography } from '@mui/material';
+import { Box, Typography, Chip } from '@mui/material';
 
 // OpenerCard (CardFaceを使用する採用版) をインポート
 import OpenerCard from './OpenerCard';
 // 💡 修正: GridDisplay を CardList に変更
 import CardList from '../../cards/components/CardList';
 import type { CardListProps } from '../../cards/components/CardList';
-import type { OpenerCardData } from '../../../models/models'; // OpenerCardData は CardType と互換性がある想定
+import type { OpenerCardData, PackRevealMode } from '../../../models/models'; // OpenerCardData は CardType と互換性がある想定
 
 interface PackOpenerAnimationProps {
     openedCards: OpenerCardData[]; // 封入されたカードのリスト
-    isRevealed: boolean; // フリップ状態 (PackOpenerから受け取る)
+    revealedIds: Set<string>; // 表向きになっているカードのID (PackOpenerから受け取る)
+    isAllRevealed: boolean; // すべてのカードが表向きになったか
+    revealMode: PackRevealMode; // めくり方
+    hitRarityRank: number | null; // ヒット演出の対象とする表示順位の下限 (null の場合は演出なし)
     cardBackImageUrl: string; // 裏面画像URL (PackOpenerから受け取る)
     onCardClick: (card: OpenerCardData) => void;
+    onRevealCard: (card: OpenerCardData) => void; // 裏向きのカードのクリック (タップでめくるモード用)
     
     // 💡 CardList に合わせるため、GridDisplay の Props を展開
     sxOverride: CardListProps['gridRenderUnit']['sxOverride'];
@@ -32,6 +37,15 @@ interface PackOpenerAnimationProps {
 }
 
 const FLIP_DELAY_MS = 100; // カード1枚あたりのフリップ開始遅延
+const ASCENDING_FLIP_DELAY_MS = 700; // 1枚ずつめくる場合のカード1枚あたりのフリップ開始遅延
+
+// めくり方ごとのカード1枚あたりの遅延 (タップ・省略の場合は遅延なし)
+const REVEAL_STEP_MS: Record<PackRevealMode, number> = {
+    flipAll: FLIP_DELAY_MS,
+    ascending: ASCENDING_FLIP_DELAY_MS,
+    tapEach: 0,
+    skip: 0,
+};
 
 // OpenerCard用のラッパーコンポーネント（コンポーネント外で定義してメモ化）
 // 💡 CardListの ItemComponent として渡されるProps構造に合わせる
@@ -40,9 +54,12 @@ interface OpenerCardWrapperProps {
     item: OpenerCardData & { index: number }; // index は CardList の GridDisplay が自動で付与する
     index?: number; // OpenerCardWrapperProps では OpenerCardWrapper 内部の index (Props) を使うため、item.index 以外に index も受け取る
     // CardList の extraItemProps として渡された Props
-    isRevealed: boolean;
+    revealedIds: Set<string>;
+    revealMode: PackRevealMode;
+    hitRarityRank: number | null;
     cardBackImageUrl: string;
     onCardClick: (card: OpenerCardData) => void;
+    onRevealCard: (card: OpenerCardData) => void;
     // itemProps の中に aspectRatio が含まれていないため削除
     // aspectRatio: number; 
 }
@@ -50,20 +67,27 @@ interface OpenerCardWrapperProps {
 const OpenerCardWrapper: React.FC<OpenerCardWrapperProps> = React.memo(({ 
     item, 
     index = 0, 
-    isRevealed, 
+    revealedIds,
+    revealMode,
+    hitRarityRank,
     cardBackImageUrl, 
-    onCardClick 
+    onCardClick,
+    onRevealCard,
 }) => {
     // GridDisplayから渡されるindexを優先的に使用し、遅延時間を計算
     const finalIndex = item.index ?? index;
+    const isHit = hitRarityRank !== null && item.rarityRank !== undefined && item.rarityRank >= hitRarityRank;
     
     return (
         <OpenerCard
             cardData={item} // item は OpenerCardData と互換性がある
-            isRevealed={isRevealed}
+            isRevealed={revealedIds.has(item.id)}
             cardBackImageUrl={item.cardBackImageUrl || cardBackImageUrl}
-            delay={finalIndex * FLIP_DELAY_MS} // 💡 index を使用
+            delay={finalIndex * REVEAL_STEP_MS[revealMode]} // 💡 index を使用
             onClick={onCardClick}
+            onReveal={revealMode === 'tapEach' ? onRevealCard : undefined}
+            isHit={isHit}
+            instant={revealMode === 'skip'}
             useFixedSize={false} // 親コンテナサイズに合わせる
         />
     );
@@ -72,9 +96,13 @@ const OpenerCardWrapper: React.FC<OpenerCardWrapperProps> = React.memo(({
 
 const PackOpenerAnimation: React.FC<PackOpenerAnimationProps> = ({
     openedCards,
-    isRevealed,
+    revealedIds,
+    isAllRevealed,
+    revealMode,
+    hitRarityRank,
     cardBackImageUrl,
     onCardClick,
+    onRevealCard,
     sxOverride,
     aspectRatio,
     gap,
@@ -88,11 +116,19 @@ const PackOpenerAnimation: React.FC<PackOpenerAnimationProps> = ({
     
     // 💡 CardListに渡すための extraItemProps (OpenerCardWrapperのProps) を構築
     const extraItemProps: CardListProps['extraItemProps'] = {
-        isRevealed,
+        revealedIds,
+        revealMode,
+        hitRarityRank,
         cardBackImageUrl,
         onCardClick,
+        onRevealCard,
     };
 
+    // ヒット演出の対象カード (すべて表向きになった後にまとめて表示する)
+    const hitCards = hitRarityRank === null
+        ? []
+        : openedCards.filter(card => card.rarityRank !== undefined && card.rarityRank >= hitRarityRank);
+
     // 💡 totalCardCount, isFilterActive, searchTerm は PackOpener では通常不要だが、CardListの必須Propsのためダミーを渡す
     const dummyRequiredProps = {
         totalCardCount: openedCards.length,
@@ -128,11 +164,24 @@ const PackOpenerAnimation: React.FC<PackOpenerAnimationProps> = ({
             />
 
             {/* 3. 結果のサマリー (開封後に表示) */}
-            {isRevealed && (
+            {isAllRevealed && (
                 <Box sx={{ mt: 4, textAlign: 'center' }}>
                     <Typography variant="h6" color="success.main">
                         開封結果が表示されました！
                     </Typography>
+                    {hitCards.length > 0 && (
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: 1, mt: 1 }}>
+                            <Typography variant="subtitle1" fontWeight="bold" color="error.main">HIT!</Typography>
+                            {hitCards.map(card => (
+                                <Chip
+                                    key={card.id}
+                                    label={`${card.name} (${card.rarity})`}
+                                    size="small"
+                                    sx={{ bgcolor: card.rarityColor, color: card.rarityColor ? 'white' : undefined }}
+                                />
+                            ))}
+                        </Box>
+                    )}
                 </Box>
             )}
         </Box>
@@ -0,0 +1,59 @@
+/**
+ * src/features/pack-opener/components/PityProgressPanel.tsx
+ *
+ * パック開封画面に表示する、天井（ピティ）ルールの進捗パネルです。
+ *
+ * * 責務:
+ * 1. 天井ルールごとに、現在の未出現回数と天井までの回数をプログレスバーで表示する。
+ * 2. 次の開封で天井が適用されるルールを強調表示する。
+ * 3. 直前の開封で天井により昇格したレアリティを通知する。
+ */
+
+import React from 'react';
+import { Paper, Box, Typography, LinearProgress, Alert } from '@mui/material';
+
+import type { PityProgress } from '../hooks/usePackOpener';
+
+interface PityProgressPanelProps {
+    pityProgress: PityProgress[];
+    pityTriggeredRarities: string[];
+}
+
+const PityProgressPanel: React.FC<PityProgressPanelProps> = ({ pityProgress, pityTriggeredRarities }) => {
+
+    if (pityProgress.length === 0) return null;
+
+    return (
+        <Paper elevation={1} sx={{ p: 2, mb: 2 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>天井 (ピティ) の進捗</Typography>
+
+            {pityTriggeredRarities.length > 0 && (
+                <Alert severity="info" sx={{ mb: 1 }}>
+                    天井に到達したため、{pityTriggeredRarities.join(', ')} が確定しました。
+                </Alert>
+            )}
+
+            {pityProgress.map(({ rarityName, threshold, count }) => {
+                // 未出現回数が threshold に達していれば次の開封で天井が適用される
+                const isReached = count >= threshold;
+                return (
+                    <Box key={rarityName} sx={{ mb: 1 }}>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                            <Typography variant="body2">{rarityName}</Typography>
+                            <Typography variant="body2" color={isReached ? 'secondary' : 'text.secondary'}>
+                                {isReached ? '次の開封で確定' : `${Math.min(count, threshold)} / ${threshold} 回`}
+                            </Typography>
+                        </Box>
+                        <LinearProgress
+                            variant="determinate"
+                            value={Math.min(100, (count / threshold) * 100)}
+                            color={isReached ? 'secondary' : 'primary'}
+                        />
+                    </Box>
+                );
+            })}
+        </Paper>
+    );
+};
+
+export default PityProgressPanel;
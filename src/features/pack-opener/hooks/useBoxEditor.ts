@@ -0,0 +1,152 @@
+/**
+ * src/features/pack-opener/hooks/useBoxEditor.ts
+ *
+ * ボックス商品（Box）の作成・編集モーダルのロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. 編集中のボックス（editingBox）の状態を管理し、モーダルを開くたびに初期値（既存ボックス or 新規）でリセットする。
+ * 2. 基本項目（名前・参照パック・パック数・価格・説明）と、封入保証/封入上限の行の追加・変更・削除ハンドラを提供する。
+ * 3. 参照パックの封入設定からレアリティの選択肢を算出し、`validateBoxRules` による検証結果を提供する。
+ * 4. BoxStore を介した保存・削除を実行する。
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { Box, Pack, BoxRarityGuarantee, BoxRarityCap } from '../../../models/models';
+import { useBoxStore } from '../../../stores/boxStore';
+import { createDefaultBox } from '../../../utils/dataUtils';
+import { validateBoxRules } from '../../../services/packs/boxSimulation';
+
+export interface UseBoxEditorProps {
+    open: boolean;
+    box: Box | null;        // 編集対象（null の場合は新規作成）
+    packs: Pack[];          // 参照可能なパック一覧
+}
+
+export const useBoxEditor = ({ open, box, packs }: UseBoxEditorProps) => {
+
+    const saveBox = useBoxStore(state => state.saveBox);
+    const deleteBox = useBoxStore(state => state.deleteBox);
+
+    const boosterPacks = useMemo(() => packs.filter(p => p.packType === 'Booster'), [packs]);
+
+    const [editingBox, setEditingBox] = useState<Box>(() => box ?? createDefaultBox(boosterPacks[0]?.packId));
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    // モーダルを開くたびに初期値をリセット
+    useEffect(() => {
+        if (open) {
+            setEditingBox(box ?? createDefaultBox(boosterPacks[0]?.packId));
+            setSaveError(null);
+        }
+    }, [open, box, boosterPacks]);
+
+    const referencedPack = useMemo(
+        () => packs.find(p => p.packId === editingBox.packId),
+        [packs, editingBox.packId]
+    );
+
+    // 参照パックの封入設定に含まれるレアリティ名
+    const rarityOptions = useMemo(() => {
+        if (!referencedPack) return [];
+        const configs = referencedPack.isAdvancedRulesEnabled && referencedPack.advancedRarityConfig?.length
+            ? referencedPack.advancedRarityConfig
+            : referencedPack.rarityConfig;
+        return configs.map(c => c.rarityName);
+    }, [referencedPack]);
+
+    const validationMessages = useMemo(
+        () => validateBoxRules(editingBox, referencedPack),
+        [editingBox, referencedPack]
+    );
+
+    // --- 基本項目 ---
+    const handleFieldChange = useCallback(<K extends 'name' | 'packId' | 'packCount' | 'price' | 'description'>(
+        field: K,
+        value: Box[K]
+    ) => {
+        setEditingBox(prev => ({ ...prev, [field]: value }));
+    }, []);
+
+    // --- 封入保証 ---
+    const handleAddGuarantee = useCallback(() => {
+        setEditingBox(prev => ({
+            ...prev,
+            guarantees: [...prev.guarantees, { rarityName: rarityOptions[rarityOptions.length - 1] ?? '', minCount: 1 }],
+        }));
+    }, [rarityOptions]);
+
+    const handleGuaranteeChange = useCallback((index: number, updates: Partial<BoxRarityGuarantee>) => {
+        setEditingBox(prev => ({
+            ...prev,
+            guarantees: prev.guarantees.map((g, i) => i === index ? { ...g, ...updates } : g),
+        }));
+    }, []);
+
+    const handleRemoveGuarantee = useCallback((index: number) => {
+        setEditingBox(prev => ({ ...prev, guarantees: prev.guarantees.filter((_, i) => i !== index) }));
+    }, []);
+
+    // --- 封入上限 ---
+    const handleAddCap = useCallback(() => {
+        setEditingBox(prev => ({
+            ...prev,
+            caps: [...prev.caps, { rarityName: rarityOptions[rarityOptions.length - 1] ?? '', maxCount: 1 }],
+        }));
+    }, [rarityOptions]);
+
+    const handleCapChange = useCallback((index: number, updates: Partial<BoxRarityCap>) => {
+        setEditingBox(prev => ({
+            ...prev,
+            caps: prev.caps.map((c, i) => i === index ? { ...c, ...updates } : c),
+        }));
+    }, []);
+
+    const handleRemoveCap = useCallback((index: number) => {
+        setEditingBox(prev => ({ ...prev, caps: prev.caps.filter((_, i) => i !== index) }));
+    }, []);
+
+    // --- 保存/削除 ---
+    const handleSave = useCallback(async (): Promise<Box | null> => {
+        if (!editingBox.name.trim()) {
+            setSaveError('ボックス名を入力してください。');
+            return null;
+        }
+        try {
+            return await saveBox(editingBox);
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : 'ボックスの保存に失敗しました。');
+            return null;
+        }
+    }, [editingBox, saveBox]);
+
+    const handleDelete = useCallback(async (): Promise<boolean> => {
+        if (!box) return false;
+        if (!window.confirm(`ボックス「${box.name}」を削除しますか？`)) return false;
+        try {
+            await deleteBox(box.boxId);
+            return true;
+        } catch (error) {
+            setSaveError(error instanceof Error ? error.message : 'ボックスの削除に失敗しました。');
+            return false;
+        }
+    }, [box, deleteBox]);
+
+    return {
+        editingBox,
+        boosterPacks,
+        referencedPack,
+        rarityOptions,
+        validationMessages,
+        saveError,
+        isExistingBox: box !== null,
+
+        handleFieldChange,
+        handleAddGuarantee,
+        handleGuaranteeChange,
+        handleRemoveGuarantee,
+        handleAddCap,
+        handleCapChange,
+        handleRemoveCap,
+        handleSave,
+        handleDelete,
+    };
+};
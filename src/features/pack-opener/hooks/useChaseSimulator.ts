@@ -0,0 +1,242 @@
+/**
+ * src/features/pack-opener/hooks/useChaseSimulator.ts
+ *
+ * 「目標を達成するまで開封」シミュレーター（ChaseSimulatorModal）のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. 対象パックの収録カード索引を読み込み、目標カードの選択肢（収録カード）を提供する。
+ * 2. 目標（指定カード / 全種類 / 全種類N枚ずつ）・試行回数・シードの入力状態を管理する。
+ * 3. 入力から目標（ChaseGoal）を組み立て、`simulationWorkerService` を介して Web Worker で試行を実行する（進捗・キャンセル）。
+ * 4. FREE/GOD モードでは、最初の試行で入手したカードを所持カード（CardPoolStore.addCards）に追加し、開封履歴に記録する。
+ * 5. 対象パックが切り替わった場合やアンマウント時に、実行中の試行をキャンセルし、以前の結果を破棄する。
+ */
+
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+
+import type { Pack, Card } from '../../../models/models';
+import { packCardIndexService, type PackCardIndex } from '../../../services/packs/packCardIndexService';
+import {
+    DEFAULT_CHASE_TRIALS,
+    type ChaseGoal,
+    type ChaseGoalType,
+    type ChaseSimulationResult,
+} from '../../../services/packs/chaseSimulator';
+import { simulationWorkerService, isSimulationAbortError } from '../../../services/simulation/simulationWorkerService';
+import { useCardPoolStore } from '../../../stores/cardPoolStore';
+import { useUserDataStore } from '../../../stores/userDataStore';
+import { useOpeningHistoryStore } from '../../../stores/openingHistoryStore';
+
+/**
+ * 選択可能な試行回数
+ */
+export const CHASE_TRIAL_OPTIONS = [100, 200, 500, 1000] as const;
+
+/**
+ * 目標カード1行分（カードIDと必要枚数）
+ */
+export interface ChaseTargetInput {
+    cardId: string;
+    count: number;
+}
+
+export const useChaseSimulator = (pack: Pack | null) => {
+
+    const addCardsToPool = useCardPoolStore(state => state.addCards);
+    const recordOpening = useOpeningHistoryStore(state => state.recordOpening);
+    const currentMode = useUserDataStore(state => state.getCurrentMode());
+    // 結果の付与は通貨を消費しない FREE/GOD モードでのみ許可する
+    const canGrantResults = currentMode !== 'dtcg';
+
+    // --- 入力 ---
+    const [goalType, setGoalType] = useState<ChaseGoalType>('targets');
+    const [targets, setTargets] = useState<ChaseTargetInput[]>([]);
+    const [copies, setCopies] = useState(1);
+    const [trials, setTrials] = useState<number>(DEFAULT_CHASE_TRIALS);
+    const [seedInput, setSeedInput] = useState('');
+
+    // --- 状態 ---
+    const [cardIndex, setCardIndex] = useState<PackCardIndex | null>(null);
+    const [result, setResult] = useState<ChaseSimulationResult | null>(null);
+    const [isSimulating, setIsSimulating] = useState(false);
+    // 進捗 (0〜1)。試行中でない場合は null
+    const [progress, setProgress] = useState<number | null>(null);
+    const [simulationError, setSimulationError] = useState<string | null>(null);
+    const [grantMessage, setGrantMessage] = useState<string | null>(null);
+    const [isGranted, setIsGranted] = useState(false);
+
+    // 実行中の試行のキャンセル用
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const packId = pack?.packId;
+
+    const cancelSimulation = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsSimulating(false);
+        setProgress(null);
+    }, []);
+
+    // パックが切り替わったら収録カード索引を読み込み直し、入力と結果を破棄
+    useEffect(() => {
+        setCardIndex(null);
+        setTargets([]);
+        setResult(null);
+        setSimulationError(null);
+        setGrantMessage(null);
+        if (!packId) return;
+
+        let isCancelled = false;
+        packCardIndexService.fetchPackCardIndex(packId)
+            .then(index => { if (!isCancelled) setCardIndex(index); })
+            .catch(error => {
+                console.error('[useChaseSimulator] ❌ Failed to load pack card index:', error);
+                if (!isCancelled) setSimulationError('収録カードの読み込みに失敗しました。');
+            });
+        return () => {
+            isCancelled = true;
+            cancelSimulation();
+        };
+    }, [packId, cancelSimulation]);
+
+    // 目標カードの選択肢 (収録カード。登録順)
+    const packCards: Card[] = useMemo(
+        () => cardIndex ? Array.from(cardIndex.cardsByRarity.values()).flat().sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity)) : [],
+        [cardIndex]
+    );
+    const cardMap = useMemo(() => new Map(packCards.map(card => [card.cardId, card])), [packCards]);
+
+    const handleAddTarget = useCallback(() => {
+        const unused = packCards.find(card => !targets.some(t => t.cardId === card.cardId));
+        if (!unused) return;
+        setTargets(prev => [...prev, { cardId: unused.cardId, count: 1 }]);
+    }, [packCards, targets]);
+
+    const handleTargetChange = useCallback((index: number, target: Partial<ChaseTargetInput>) => {
+        setTargets(prev => prev.map((t, i) => i === index ? { ...t, ...target } : t));
+    }, []);
+
+    const handleRemoveTarget = useCallback((index: number) => {
+        setTargets(prev => prev.filter((_, i) => i !== index));
+    }, []);
+
+    // 入力から目標を組み立てる (目標カードが未指定の場合は null)
+    const goal: ChaseGoal | null = useMemo(() => {
+        switch (goalType) {
+            case 'targets':
+                return targets.length > 0 ? { type: 'targets', targets } : null;
+            case 'completeSet':
+                return { type: 'completeSet' };
+            case 'copiesOfEach':
+                return { type: 'copiesOfEach', copies };
+        }
+    }, [goalType, targets, copies]);
+
+    const runSimulation = useCallback(async () => {
+        if (!pack || !cardIndex || !goal) return;
+
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        setIsSimulating(true);
+        setSimulationError(null);
+        setGrantMessage(null);
+        setIsGranted(false);
+        setProgress(0);
+
+        try {
+            const parsedSeed = parseInt(seedInput, 10);
+            const chaseResult = await simulationWorkerService.runJob(
+                {
+                    type: 'simulateChase',
+                    pack,
+                    cardIndex,
+                    goal,
+                    options: { trials, seed: isNaN(parsedSeed) ? undefined : parsedSeed >>> 0 },
+                },
+                {
+                    signal: controller.signal,
+                    onProgress: (completed, total) => setProgress(completed / total),
+                }
+            );
+            setResult(chaseResult);
+        } catch (error) {
+            if (isSimulationAbortError(error)) return;
+            console.error('[useChaseSimulator:runSimulation] ❌ Failed to simulate chase:', error);
+            setSimulationError('❌ シミュレーション中にエラーが発生しました。');
+        } finally {
+            // 後続の試行が開始されている場合は、その状態を上書きしない
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsSimulating(false);
+                setProgress(null);
+            }
+        }
+    }, [pack, cardIndex, goal, trials, seedInput]);
+
+    /**
+     * 最初の試行で入手したカードを所持カードに追加する（FREE/GOD モードのみ。1回の結果につき1回まで）。
+     */
+    const handleGrantResults = useCallback(async () => {
+        const sampleRun = result?.sampleRun;
+        if (!pack || !sampleRun || !canGrantResults || isGranted) return;
+
+        try {
+            await addCardsToPool(sampleRun.results.map(r => ({ cardId: r.cardId, count: r.count, packId: pack.packId })));
+            setIsGranted(true);
+            setGrantMessage(`✅ ${sampleRun.packCount} パック分のカードを所持カードに追加しました。`);
+        } catch (error) {
+            console.error('[useChaseSimulator:handleGrantResults] ❌ Failed to grant results:', error);
+            setGrantMessage('❌ 所持カードへの追加に失敗しました。');
+            return;
+        }
+
+        // 開封履歴の保存に失敗しても、追加自体は成功として扱う
+        try {
+            await recordOpening({
+                packId: pack.packId,
+                packName: pack.name,
+                mode: currentMode,
+                coinsSpent: 0,
+                packCount: sampleRun.packCount,
+                seed: result.seed,
+                results: sampleRun.results,
+                simulationWarning: result.simulationWarning,
+            });
+        } catch (error) {
+            console.error('[useChaseSimulator:handleGrantResults] ❌ Failed to record opening:', error);
+        }
+    }, [pack, result, canGrantResults, isGranted, addCardsToPool, recordOpening, currentMode]);
+
+    return {
+        // 入力
+        goalType,
+        setGoalType,
+        targets,
+        handleAddTarget,
+        handleTargetChange,
+        handleRemoveTarget,
+        copies,
+        setCopies,
+        trials,
+        setTrials,
+        seedInput,
+        setSeedInput,
+        packCards,
+        cardMap,
+
+        // 実行
+        canRun: !!cardIndex && !!goal && !isSimulating,
+        isSimulating,
+        progress,
+        runSimulation,
+        cancelSimulation,
+        result,
+        simulationError,
+
+        // 結果の付与
+        canGrantResults,
+        isGranted,
+        grantMessage,
+        handleGrantResults,
+    };
+};
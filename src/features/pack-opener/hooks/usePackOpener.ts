@@ -11,26 +11,69 @@
  * 4. パック開封シミュレーション（simulatePackOpening）の実行と、結果（lastOpenedResults）の更新およびカードプールへの追加処理（addCardsToPool）を実行する。
  * 5. エラー（purchaseError）と警告（simulationWarning）状態を管理し、ユーザーにフィードバックを提供する。
  * 6. God Modeでのデバッグ利用のため、setCoinsアクションを公開する。
+ * 7. 構築済みデッキ（ConstructedDeck）の購入を扱い、オプションに応じて収録内容から Deck を自動作成する（DeckStore.saveDeck）。
+ * 8. 開封時のシード値と開封前の天井カウンターを結果（OpenedResultState）に保持し、結果IDを指定した開封の再現（handleReplayOpening）を
+ *    全てのモードで提供する（再現時は通貨の消費・カードプールへの追加・天井カウンターの更新・履歴の記録を行わない）。
+ * 9. ボックス商品（Box）の選択・購入・開封（simulateBoxOpening）を扱い、パック開封と同様にカードプールへ追加する。
+ * 10. DTCGモードで選択中パックの天井（ピティ）カウンターを読み込み、ルールごとの進捗（pityProgress）を提供する。
+ * 11. 選択中パックのN個一括開封を扱い、N × 価格の通貨消費、1回のカードプール追加、集計結果（bulkOpenSummary）の更新、
+ *     および設定（bulkCooldownMode）に応じたクールダウンを実行する。
+ *     抽選は `simulationWorkerService` を介して Web Worker で実行し、進捗（bulkOpenProgress）を提供する。
+ * 12. 全ての開封（単品・一括・ボックス）を開封履歴（OpeningHistoryStore）に記録する。
+ * 13. 開封結果のめくり方とヒット演出の基準をユーザー設定（UserDataStore.packOpenerSettings）から提供し、変更を保存する。
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 
-import type { Pack } from '../../../models/models';
+import type { Pack, Box, PackRevealMode } from '../../../models/models';
 
 import { usePackStore } from '../../../stores/packStore';
 import { simulatePackOpening } from '../../../services/packs/packSimulation';
 import { useCardPoolStore } from '../../../stores/cardPoolStore';
 import { useCurrencyStore } from '../../../stores/currencyStore';
 import { useUserDataStore } from '../../../stores/userDataStore';
+import { useDeckStore } from '../../../stores/deckStore';
+import { useBoxStore } from '../../../stores/boxStore';
+import { simulateBoxOpening } from '../../../services/packs/boxSimulation';
+import { createDeckFromConstructedPack } from '../../../utils/dataUtils';
 import { useCooldownTimer } from '../../../hooks/useCooldownTimer';
+import { pityService } from '../../../services/pity/pityService';
+import { packCardIndexService } from '../../../services/packs/packCardIndexService';
+import { simulationWorkerService } from '../../../services/simulation/simulationWorkerService';
+import { useOpeningHistoryStore, type OpeningRecordInput } from '../../../stores/openingHistoryStore';
 
 // 型定義を専用ファイルに切り出し、ユニークな名前でインポート
-import type { SimulationResult, OpenedResultState } from '../../../models/models';
+import type { SimulationResult, OpenedResultState, BulkOpenSummary } from '../../../models/models';
+import { generateSeed } from '../../../utils/randomUtils';
 
 
 // 定数: 開封のクールダウン時間 (5秒)
 const PACK_OPEN_COOLDOWN_SECONDS = 3;
+// 定数: 一括開封で一度に開封できる最大パック数
+export const MAX_BULK_OPEN_COUNT = 100;
+
+/**
+ * 一括開封時のクールダウンの扱い
+ * - perBatch: 一括開封全体で、単品開封1回分のクールダウン
+ * - perPack: 開封したパック数分のクールダウン (単品で連続開封した場合と同じ待ち時間)
+ * - none: クールダウンなし
+ */
+export type BulkCooldownMode = 'perBatch' | 'perPack' | 'none';
+
+/**
+ * 開封する商品の種類 (単品パック / ボックス)
+ */
+export type OpenerProductMode = 'pack' | 'box';
+
+/**
+ * 天井ルールごとの進捗
+ */
+export interface PityProgress {
+    rarityName: string;
+    threshold: number;
+    count: number; // 現在の未出現回数
+}
 
 
 export const usePackOpener = (preselectedPackId?: string) => {
@@ -39,6 +82,14 @@ export const usePackOpener = (preselectedPackId?: string) => {
     const isLoading = packs.length === 0;
 
     const [selectedPack, setSelectedPack] = useState<Pack | null>(null);
+
+    // ボックス関連の状態
+    const boxes = useBoxStore(state => state.boxes);
+    const [productMode, setProductMode] = useState<OpenerProductMode>('pack');
+    const [selectedBoxId, setSelectedBoxId] = useState<string | null>(null);
+    const selectedBox: Box | null = boxes.find(b => b.boxId === selectedBoxId) ?? null;
+    // ボックスが参照するパック (カード裏面やプレースホルダー表示に使用)
+    const selectedBoxPack: Pack | null = selectedBox ? packs.find(p => p.packId === selectedBox.packId) ?? null : null;
     const [lastOpenedResults, setLastOpenedResults] = useState<OpenedResultState>({
         id: 'initial', // 初期表示用のID
         results: []
@@ -47,9 +98,33 @@ export const usePackOpener = (preselectedPackId?: string) => {
     const [purchaseError, setPurchaseError] = useState<string | null>(null);
     const [simulationWarning, setSimulationWarning] = useState<string | null>(null);
 
+    // 構築済みデッキ購入時に Deck を自動作成するかどうか
+    const [autoCreateDeck, setAutoCreateDeck] = useState(false);
+    const [deckCreationMessage, setDeckCreationMessage] = useState<string | null>(null);
+
+    // 天井 (ピティ) の状態
+    const [pityCounters, setPityCounters] = useState<Record<string, number>>({});
+    const [pityTriggeredRarities, setPityTriggeredRarities] = useState<string[]>([]);
+
+    // 一括開封の状態
+    const [bulkOpenSummary, setBulkOpenSummary] = useState<BulkOpenSummary | null>(null);
+    const [bulkCooldownMode, setBulkCooldownMode] = useState<BulkCooldownMode>('perBatch');
+    // 一括開封の進捗 (0〜1)。開封中でない場合は null
+    const [bulkOpenProgress, setBulkOpenProgress] = useState<number | null>(null);
+
+    // このセッションで表示した開封結果 (結果IDから開封を再現するために保持する)
+    const openedResultsRef = useRef(new Map<string, OpenedResultState>());
+
+    // 開封処理 (パック・一括・ボックス) の実行中フラグ。
+    // 通貨消費より前に立て、二重クリックや開封処理同士の重複実行を防ぐ
+    const isOpeningRef = useRef(false);
+    const [isOpening, setIsOpening] = useState(false);
+
     // モード取得
     const currentMode = useUserDataStore(state => state.getCurrentMode());
     const isDTCGMode = currentMode === 'dtcg';
+    const packOpenerSettings = useUserDataStore(state => state.packOpenerSettings);
+    const setPackOpenerSettings = useUserDataStore(state => state.setPackOpenerSettings);
 
     // クールダウンフックの利用
     const {
@@ -59,6 +134,10 @@ export const usePackOpener = (preselectedPackId?: string) => {
 
     // プロパティ名が 'addCards' のため、フック側もそれに合わせる
     const addCardsToPool = useCardPoolStore(state => state.addCards);
+    // 一括開封時の新規カード判定に使用
+    const ownedCards = useCardPoolStore(state => state.ownedCards);
+    const saveDeck = useDeckStore(state => state.saveDeck);
+    const recordOpening = useOpeningHistoryStore(state => state.recordOpening);
 
     // useCurrencyStore から spendCoins に加えて setCoins を取得
     const { coins, spendCoins, setCoins } = useCurrencyStore(
@@ -85,8 +164,80 @@ export const usePackOpener = (preselectedPackId?: string) => {
         }
     }, [packs, preselectedPackId, selectedPack]);
 
+    // 選択パックの天井カウンターを読み込む (DTCGモードのみ)
+    const selectedPackId = selectedPack?.packId;
+    useEffect(() => {
+        setPityCounters({});
+        setPityTriggeredRarities([]);
+        if (!isDTCGMode || !selectedPackId) return;
+
+        let isCancelled = false;
+        pityService.fetchPityState(selectedPackId)
+            .then(state => { if (!isCancelled) setPityCounters(state.counters); })
+            .catch(error => console.error('[usePackOpener] ❌ Failed to load pity counters:', error));
+        return () => { isCancelled = true; };
+    }, [isDTCGMode, selectedPackId]);
+
+    const pityProgress: PityProgress[] = useMemo(() => {
+        if (!isDTCGMode || !selectedPack?.pityRules) return [];
+        return selectedPack.pityRules
+            .filter(rule => rule.rarityName && rule.threshold >= 1)
+            .map(rule => ({
+                rarityName: rule.rarityName,
+                threshold: Math.floor(rule.threshold),
+                count: pityCounters[rule.rarityName] ?? 0,
+            }));
+    }, [isDTCGMode, selectedPack, pityCounters]);
+
+    // 初期ボックス選択ロジック (選択中のボックスが削除された場合も先頭を選び直す)
+    useEffect(() => {
+        if (boxes.length > 0 && !boxes.some(b => b.boxId === selectedBoxId)) {
+            setSelectedBoxId(boxes[0].boxId);
+        }
+    }, [boxes, selectedBoxId]);
+
+
+    // 開封履歴の保存に失敗しても、開封自体は成功として扱う
+    const saveOpeningRecord = async (input: OpeningRecordInput) => {
+        try {
+            await recordOpening(input);
+        } catch (error) {
+            console.error('[usePackOpener:saveOpeningRecord] ❌ Failed to record opening:', error);
+        }
+    };
+
 
-    const hookHandleOpenPack = async () => {
+    // 開封結果にユニークなIDを付けて表示し、再現用に保持する
+    const showOpenedResult = (result: Omit<OpenedResultState, 'id'>) => {
+        const state: OpenedResultState = { id: crypto.randomUUID(), ...result };
+        openedResultsRef.current.set(state.id, state);
+        setLastOpenedResults(state);
+    };
+
+
+    /**
+     * 開封処理を排他的に実行するラッパー。
+     * 他の開封処理が実行中の場合は何もせずに終了する（通貨も消費しない）。
+     */
+    const withOpeningLock = <Args extends unknown[]>(handler: (...args: Args) => Promise<void>) =>
+        async (...args: Args) => {
+            if (isOpeningRef.current) return;
+            isOpeningRef.current = true;
+            setIsOpening(true);
+            try {
+                await handler(...args);
+            } finally {
+                isOpeningRef.current = false;
+                setIsOpening(false);
+            }
+        };
+
+
+    /**
+     * 選択中のパックを開封する。
+     * @param seed - 抽選に使用するシード値。指定すると過去の開封結果を再現できる（省略時はランダム）
+     */
+    const hookHandleOpenPack = withOpeningLock(async (seed?: number) => {
         if (!selectedPack) {
             setPurchaseError('パックが選択されていません。');
             return;
@@ -99,6 +250,9 @@ export const usePackOpener = (preselectedPackId?: string) => {
 
         setPurchaseError(null);
         setSimulationWarning(null);
+        setDeckCreationMessage(null);
+        setPityTriggeredRarities([]);
+        setBulkOpenSummary(null);
 
         const packPrice = selectedPack.price || 0;
         let purchaseSuccessful = true;
@@ -116,10 +270,16 @@ export const usePackOpener = (preselectedPackId?: string) => {
 
         try {
             // simulatePackOpening の実行
-            const simulationResult = await simulatePackOpening(selectedPack) as SimulationResult;
+            // 天井ルールは DTCGモードでのみ適用する
+            const simulationResult: SimulationResult = await simulatePackOpening(selectedPack, { seed, applyPity: isDTCGMode });
             const results = simulationResult.results;
             const warning = simulationResult.simulationWarning;
 
+            if (simulationResult.pityCounters) {
+                setPityCounters(simulationResult.pityCounters);
+                setPityTriggeredRarities(simulationResult.pityTriggeredRarities ?? []);
+            }
+
             if (warning) {
                 setSimulationWarning(warning);
             }
@@ -133,22 +293,297 @@ export const usePackOpener = (preselectedPackId?: string) => {
             // カードプールへの追加処理を実行 (非同期)
             await addCardsToPool(cardsToAdd);
 
+            await saveOpeningRecord({
+                packId: selectedPack.packId,
+                packName: selectedPack.name,
+                mode: currentMode,
+                coinsSpent: isDTCGMode ? packPrice : 0,
+                packCount: 1,
+                seed: simulationResult.seed,
+                results,
+                simulationWarning: warning,
+            });
+
+            // 構築済みデッキの場合、オプションに応じて収録内容から Deck を作成
+            // (カードプールへの追加後に保存することで、未所持カード判定が正しく行われる)
+            if (selectedPack.packType === 'ConstructedDeck' && autoCreateDeck && results.length > 0) {
+                try {
+                    const savedDeck = await saveDeck(createDeckFromConstructedPack(selectedPack));
+                    setDeckCreationMessage(`✅ デッキ「${savedDeck.name}」を作成しました。`);
+                } catch (error) {
+                    console.error('[usePackOpener:handleOpenPack] ❌ Failed to create deck from constructed pack:', error);
+                    setDeckCreationMessage('❌ デッキの自動作成に失敗しました。');
+                }
+            }
+
             // DTCGモードの場合のみクールダウンを開始
             if (isDTCGMode) {
                 startCooldown();
             }
 
             // 開封結果にユニークなIDを付けて状態を更新
-            setLastOpenedResults({
-                id: crypto.randomUUID(),
-                results: results
+            showOpenedResult({
+                results: results,
+                packId: selectedPack.packId,
+                seed: simulationResult.seed,
+                pityCounters: simulationResult.initialPityCounters,
             });
 
         } catch (error) {
             console.error('パック開封中にエラーが発生しました:', error);
             setPurchaseError('パック抽選中に致命的なエラーが発生しました。詳細はコンソールを確認してください。');
         }
-    };
+    });
+
+
+    /**
+     * 選択中のパックを指定数だけまとめて開封する。
+     * 通貨は N × 価格を一度に消費し、全パックの結果を集計してから1回の addCards でカードプールに追加する。
+     * @param count - 開封するパック数 (1〜MAX_BULK_OPEN_COUNT)
+     * @param seed - 基準シード値。i番目のパックは seed + i で抽選する（省略時はランダム）
+     */
+    const hookHandleOpenPacks = withOpeningLock(async (count: number, seed?: number) => {
+        if (!selectedPack) {
+            setPurchaseError('パックが選択されていません。');
+            return;
+        }
+
+        if (!Number.isInteger(count) || count < 1 || count > MAX_BULK_OPEN_COUNT) {
+            setPurchaseError(`開封数は1〜${MAX_BULK_OPEN_COUNT}の整数で指定してください。`);
+            return;
+        }
+
+        // DTCGモード以外（FREE/GOD）はクールダウンを完全に無視
+        if (isDTCGMode && secondsUntilNextOpen > 0) {
+            return;
+        }
+
+        setPurchaseError(null);
+        setSimulationWarning(null);
+        setDeckCreationMessage(null);
+        setPityTriggeredRarities([]);
+        setBulkOpenSummary(null);
+
+        const totalCost = (selectedPack.price || 0) * count;
+
+        // DTCGモードの場合のみ通貨を消費 (N個分をまとめて消費する)
+        if (isDTCGMode && !(await spendCoins(totalCost))) {
+            setPurchaseError(`所持コインが不足しています。（必要: ${totalCost} / 所属: ${coins}）`);
+            return;
+        }
+
+        try {
+            const baseSeed = seed ?? generateSeed();
+            const aggregatedCounts = new Map<string, number>();
+            const warnings = new Set<string>();
+            const triggeredRarities = new Set<string>();
+            const seeds = Array.from({ length: count }, (_, i) => (baseSeed + i) >>> 0);
+
+            // 抽選は Worker で行う。天井カウンターは Worker 内でパックごとに引き継がれ、開封後に1回だけ保存する
+            const cardIndex = await packCardIndexService.fetchPackCardIndex(selectedPack.packId);
+            const initialPityCounters = isDTCGMode
+                ? (await pityService.fetchPityState(selectedPack.packId)).counters
+                : undefined;
+
+            setBulkOpenProgress(0);
+            const { openings, pityCounters: latestPityCounters } = await simulationWorkerService.runJob(
+                { type: 'openPacks', pack: selectedPack, cardIndex, seeds, pityCounters: initialPityCounters },
+                { onProgress: (completed, total) => setBulkOpenProgress(completed / total) }
+            );
+
+            openings.forEach(simulationResult => {
+                simulationResult.results.forEach(({ cardId, count: cardCount }) => {
+                    aggregatedCounts.set(cardId, (aggregatedCounts.get(cardId) || 0) + cardCount);
+                });
+                if (simulationResult.simulationWarning) warnings.add(simulationResult.simulationWarning);
+                simulationResult.pityTriggeredRarities?.forEach(rarity => triggeredRarities.add(rarity));
+            });
+
+            if (latestPityCounters) {
+                await pityService.savePityStates([{
+                    packId: selectedPack.packId,
+                    counters: latestPityCounters,
+                    updatedAt: new Date().toISOString(),
+                }]);
+                setPityCounters(latestPityCounters);
+                setPityTriggeredRarities(Array.from(triggeredRarities));
+            }
+            const combinedWarning = warnings.size > 0 ? Array.from(warnings).join('\n') : null;
+            if (combinedWarning) {
+                setSimulationWarning(combinedWarning);
+            }
+
+            const results = Array.from(aggregatedCounts.entries()).map(([cardId, cardCount]) => ({ cardId, count: cardCount }));
+            // 追加前の所持状況と比較して、新たに入手したカードを判定する
+            const newCardIds = results
+                .filter(r => (ownedCards.get(r.cardId) || 0) === 0)
+                .map(r => r.cardId);
+
+            // 全パック分を1回のトランザクションでカードプールへ追加
+            await addCardsToPool(results.map(r => ({
+                cardId: r.cardId,
+                count: r.count,
+                packId: selectedPack.packId
+            })));
+
+            await saveOpeningRecord({
+                packId: selectedPack.packId,
+                packName: selectedPack.name,
+                mode: currentMode,
+                coinsSpent: isDTCGMode ? totalCost : 0,
+                packCount: count,
+                seed: baseSeed,
+                results,
+                simulationWarning: combinedWarning,
+            });
+
+            // DTCGモードの場合のみ、設定に応じてクールダウンを開始
+            if (isDTCGMode && bulkCooldownMode !== 'none') {
+                startCooldown(bulkCooldownMode === 'perPack'
+                    ? PACK_OPEN_COOLDOWN_SECONDS * count
+                    : PACK_OPEN_COOLDOWN_SECONDS);
+            }
+
+            setLastOpenedResults({ id: 'bulk-open-reset', results: [] });
+            setBulkOpenSummary({
+                id: crypto.randomUUID(),
+                packId: selectedPack.packId,
+                packCount: count,
+                totalCost: isDTCGMode ? totalCost : 0,
+                results,
+                newCardIds,
+                seed: baseSeed,
+            });
+
+            console.log(`[usePackOpener:handleOpenPacks] ✅ Opened ${count} packs of ${selectedPack.packId} (seed: ${baseSeed})`);
+
+        } catch (error) {
+            console.error('一括開封中にエラーが発生しました:', error);
+            setPurchaseError('一括開封の抽選中に致命的なエラーが発生しました。詳細はコンソールを確認してください。');
+        } finally {
+            setBulkOpenProgress(null);
+        }
+    });
+
+
+    /**
+     * 選択中のボックスを購入・開封する。
+     * ボックス単位の封入保証・上限は simulateBoxOpening で適用される。
+     * @param seed - 抽選に使用するシード値（省略時はランダム）
+     */
+    const hookHandleOpenBox = withOpeningLock(async (seed?: number) => {
+        if (!selectedBox || !selectedBoxPack) {
+            setPurchaseError(selectedBox ? 'ボックスの収録パックが見つかりません。' : 'ボックスが選択されていません。');
+            return;
+        }
+
+        // DTCGモード以外（FREE/GOD）はクールダウンを完全に無視
+        if (isDTCGMode && secondsUntilNextOpen > 0) {
+            return;
+        }
+
+        setPurchaseError(null);
+        setSimulationWarning(null);
+        setDeckCreationMessage(null);
+        setBulkOpenSummary(null);
+
+        const boxPrice = selectedBox.price || 0;
+
+        // DTCGモードの場合のみ通貨を消費
+        if (isDTCGMode && !(await spendCoins(boxPrice))) {
+            setPurchaseError(`所持コインが不足しています。（必要: ${boxPrice} / 所属: ${coins}）`);
+            return;
+        }
+
+        try {
+            const boxResult = await simulateBoxOpening(selectedBox, selectedBoxPack, { seed });
+
+            if (boxResult.simulationWarning) {
+                setSimulationWarning(boxResult.simulationWarning);
+            }
+
+            await addCardsToPool(boxResult.results.map(r => ({
+                cardId: r.cardId,
+                count: r.count,
+                packId: selectedBoxPack.packId
+            })));
+
+            await saveOpeningRecord({
+                packId: selectedBoxPack.packId,
+                packName: selectedBoxPack.name,
+                boxId: selectedBox.boxId,
+                mode: currentMode,
+                coinsSpent: isDTCGMode ? boxPrice : 0,
+                packCount: selectedBox.packCount,
+                seed: boxResult.seed,
+                results: boxResult.results,
+                simulationWarning: boxResult.simulationWarning,
+            });
+
+            // DTCGモードの場合のみクールダウンを開始
+            if (isDTCGMode) {
+                startCooldown();
+            }
+
+            showOpenedResult({
+                results: boxResult.results,
+                packId: selectedBoxPack.packId,
+                boxId: selectedBox.boxId,
+                seed: boxResult.seed,
+            });
+
+        } catch (error) {
+            console.error('ボックス開封中にエラーが発生しました:', error);
+            setPurchaseError('ボックス抽選中に致命的なエラーが発生しました。詳細はコンソールを確認してください。');
+        }
+    });
+
+
+    /**
+     * 開封結果を、保存したシード値と開封前の天井カウンターで再現して表示する（全てのモードで利用可能）。
+     * 通貨の消費・カードプールへの追加・天井カウンターの更新・開封履歴の記録は行わない。
+     * @param resultId - 再現する開封結果のID (OpenedResultState.id)
+     */
+    const hookHandleReplayOpening = withOpeningLock(async (resultId: string) => {
+        const source = openedResultsRef.current.get(resultId);
+        const pack = packs.find(p => p.packId === source?.packId);
+        const box = source?.boxId ? boxes.find(b => b.boxId === source.boxId) : undefined;
+        if (!source || source.seed === undefined || !pack || (source.boxId && !box)) {
+            setPurchaseError('再現できる開封結果が見つかりません。');
+            return;
+        }
+
+        setPurchaseError(null);
+        setSimulationWarning(null);
+        setDeckCreationMessage(null);
+        setPityTriggeredRarities([]);
+        setBulkOpenSummary(null);
+
+        try {
+            const replayResult = box
+                ? await simulateBoxOpening(box, pack, { seed: source.seed })
+                : await simulatePackOpening(pack, { seed: source.seed, replayPityCounters: source.pityCounters });
+
+            if (replayResult.simulationWarning) {
+                setSimulationWarning(replayResult.simulationWarning);
+            }
+
+            showOpenedResult({
+                results: replayResult.results,
+                packId: source.packId,
+                boxId: source.boxId,
+                seed: source.seed,
+                pityCounters: source.pityCounters,
+                isReplay: true,
+            });
+
+            console.log(`[usePackOpener:handleReplayOpening] ✅ Replayed opening ${resultId} (seed: ${source.seed})`);
+
+        } catch (error) {
+            console.error('[usePackOpener:handleReplayOpening] ❌ Failed to replay opening:', error);
+            setPurchaseError('開封の再現中にエラーが発生しました。詳細はコンソールを確認してください。');
+        }
+    });
 
 
     // --- 戻り値 ---
@@ -159,9 +594,12 @@ export const usePackOpener = (preselectedPackId?: string) => {
             const pack = packs.find(p => p.packId === packId);
             setSelectedPack(pack || null);
             setLastOpenedResults({ id: 'pack-change-reset', results: [] });
+            setBulkOpenSummary(null);
         },
         isLoading,
         handleOpenPack: hookHandleOpenPack,
+        handleReplayOpening: hookHandleReplayOpening,
+        isOpening,
         lastOpenedResults,
         coins,
         purchaseError,
@@ -170,5 +608,39 @@ export const usePackOpener = (preselectedPackId?: string) => {
         secondsUntilNextOpen,
         currentMode,
         setCoins,
+        autoCreateDeck,
+        setAutoCreateDeck,
+        deckCreationMessage,
+        pityProgress,
+        pityTriggeredRarities,
+
+        // 一括開封
+        handleOpenPacks: hookHandleOpenPacks,
+        bulkOpenSummary,
+        bulkOpenProgress,
+        bulkCooldownMode,
+        setBulkCooldownMode,
+
+        // ボックス
+        productMode,
+        setProductMode: (mode: OpenerProductMode) => {
+            setProductMode(mode);
+            setLastOpenedResults({ id: 'product-mode-reset', results: [] });
+            setBulkOpenSummary(null);
+        },
+        boxes,
+        selectedBox,
+        selectedBoxPack,
+        setSelectedBox: (boxId: string) => {
+            setSelectedBoxId(boxId);
+            setLastOpenedResults({ id: 'box-change-reset', results: [] });
+        },
+        handleOpenBox: hookHandleOpenBox,
+
+        // めくり方・ヒット演出 (最後に使用した設定を記憶する)
+        revealMode: packOpenerSettings.revealMode,
+        setRevealMode: (revealMode: PackRevealMode) => setPackOpenerSettings({ revealMode }),
+        hitRarityRank: packOpenerSettings.hitRarityRank,
+        setHitRarityRank: (hitRarityRank: number | null) => setPackOpenerSettings({ hitRarityRank }),
     };
 };
\ No newline at end of file
@@ -14,6 +14,7 @@ import PackCardList from './components/PackCardList';
 import CardModal from '../cards/components/CardModal';
 import RarityEditorModal from '../../components/modals/RarityEditorModal';
 import PackInfoForm from './components/PackInfoForm';
+import PackOddsAnalyzerPanel from './components/PackOddsAnalyzerPanel';
 
 import { usePackEditor } from './hooks/usePackEditor';
 // ⭐ 【追加】usePackStoreをインポート
@@ -238,6 +239,16 @@ const PackEditor: React.FC<PackEditorProps> = ({
                     />
                 </Paper>
 
+                {/* 中段: オッズ分析パネル（Boosterのみ） */}
+                {packData.packType === 'Booster' && (
+                    <Paper elevation={3} sx={{ p: 4, mb: 4 }}>
+                        <PackOddsAnalyzerPanel
+                            packData={packData}
+                            cards={cards}
+                        />
+                    </Paper>
+                )}
+
                 {/* 下部: PackCardList */}
                 <Paper elevation={3} sx={{ p: 4 }}>
                     <PackCardList
@@ -46,7 +46,7 @@ const CsvIOModal: React.FC<CsvIOModalProps> = ({
                 <Alert severity="info" sx={{ mb: 2 }}>
                     CSVファイルの1行目はヘッダー行として扱われます。<br />
                     以下の**予約済みフィールド**以外の列は、すべて**カスタムプロパティ**として自動登録されます。<br />
-                    **予約済みフィールド (任意)**: `name`, `rarity`, `imageUrl`, `number`<br />
+                    **予約済みフィールド (任意)**: `name`, `rarity`, `imageUrl`, `number`, `drawWeight` (排出ウェイト)<br />
                     **ロジック**: `name`が空欄の場合「新しいカード」と連番が自動付与されます。`rarity`が空欄の場合、パックの最初のレアリティが割り当てられます。**すべての行は新規カードとして追加されます**。
                 </Alert>
                 <input
@@ -22,6 +22,8 @@ import CardList from '../../cards/components/CardList';
 import { useCardStore } from '../../../stores/cardStore';
 import { useSortFilter } from '../../../hooks/useSortFilter';
 import { useGridDisplay } from '../../../hooks/useGridDisplay';
+import { useRarityRegistry } from '../../../hooks/useRarityRegistry';
+import { createRarityRankAccessor, withRarityFilterOptions } from '../../../services/packs/rarityRegistry';
 import { useSelection } from '../../../hooks/useSelection';
 import { useBulkOperations } from '../../../hooks/useBulkOperations';
 import ControlBar from '../../../components/common/ControlBar';
@@ -81,6 +83,11 @@ const PackCardList: React.FC<PackCardListProps> = ({
     });
     
     // ソート＆フィルタリング
+    // レアリティの並び順・絞り込みの選択肢はレジストリから解決する
+    const rarityRegistry = useRarityRegistry();
+    const rarityAccessor = useMemo(() => createRarityRankAccessor<Card>(rarityRegistry), [rarityRegistry]);
+    const filterFields = useMemo(() => withRarityFilterOptions(PACK_CARD_FILTER_FIELDS, rarityRegistry), [rarityRegistry]);
+
     const {
         sortedAndFilteredData: displayedCards,
         sortField,
@@ -93,7 +100,7 @@ const PackCardList: React.FC<PackCardListProps> = ({
         setFilters,
     } = useSortFilter<Card>(
         cards,
-        undefined,
+        rarityAccessor,
         CARD_DEFAULT_SORT
     );
 
@@ -224,7 +231,7 @@ const PackCardList: React.FC<PackCardListProps> = ({
             setSearchTerm: setSearchTerm,
             filters: filters,
             setFilters: setFilters,
-            filterFields: PACK_CARD_FILTER_FIELDS,
+            filterFields: filterFields,
         },
         
         // 列数トグル
@@ -253,6 +260,7 @@ const PackCardList: React.FC<PackCardListProps> = ({
         sortOrder,
         searchTerm,
         filters,
+        filterFields,
         gridDisplayProps.columns,
         gridDisplayProps.minColumns,
         gridDisplayProps.maxColumns,
@@ -302,6 +310,7 @@ const PackCardList: React.FC<PackCardListProps> = ({
                     quantityControl: false,
                     keycardRank: false,
                     grayscaleWhenZero: false,
+                    rarityBadge: true,
                 }}
                 
                 gridRenderUnit={gridDisplayProps.gridRenderUnit}
@@ -0,0 +1,196 @@
+/**
+ * src/features/packs/components/PackOddsAnalyzerPanel.tsx
+ *
+ * パック編集画面に表示する、封入設定のオッズ分析（モンテカルロ・シミュレーション）パネルです。
+ *
+ * * 責務:
+ * 1. `usePackOddsAnalyzer` から分析結果と実行ハンドラを取得し、試行回数の選択UIと実行ボタン、分析中の進捗バーとキャンセルボタンを提供する。
+ * 2. レアリティごとの平均枚数・解析的期待値との差分・分散・1枚以上出る確率・枚数分布を一覧表示する。
+ * 3. 全種類のカードを揃えるまでに必要なパック数（コンプリート推定）を表示する。
+ * 4. 設定由来の警告（確率合計の不一致など）と、収集不可能なカードの存在を通知する。
+ */
+
+import React from 'react';
+import {
+    Box, Typography, Button, Grid, Divider, Alert,
+    Select, MenuItem, FormControl, InputLabel, CircularProgress, LinearProgress
+} from '@mui/material';
+import QueryStatsIcon from '@mui/icons-material/QueryStats';
+import StopIcon from '@mui/icons-material/Stop';
+
+import type { Pack, Card } from '../../../models/models';
+import type { RarityOddsStat } from '../../../services/packs/packOddsAnalyzer';
+import { usePackOddsAnalyzer, ODDS_ITERATION_OPTIONS } from '../hooks/usePackOddsAnalyzer';
+
+interface PackOddsAnalyzerPanelProps {
+    packData: Pack;
+    cards: Card[];
+}
+
+// 表示用フォーマッタ
+const formatPercent = (value: number): string => `${(value * 100).toFixed(2)}%`;
+const formatNumber = (value: number, digits = 3): string => value.toFixed(digits);
+const formatSigned = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+
+// 枚数分布を「0枚: xx% / 1枚: yy%」形式の文字列に変換（出現確率 0.1% 未満は省略）
+const formatDistribution = (stat: RarityOddsStat): string => stat.distribution
+    .map((p, k) => ({ k, p }))
+    .filter(({ p }) => p >= 0.001)
+    .map(({ k, p }) => `${k}枚: ${(p * 100).toFixed(1)}%`)
+    .join(' / ');
+
+// 列幅の定義
+const COLUMN_SIZES = {
+    rarityName: 2,
+    meanCount: 1.5,
+    expectedCount: 1.5,
+    difference: 1.5,
+    variance: 1,
+    atLeastOne: 1.5,
+    distribution: 3,
+};
+
+const PackOddsAnalyzerPanel: React.FC<PackOddsAnalyzerPanelProps> = ({ packData, cards }) => {
+
+    const {
+        iterations,
+        setIterations,
+        analysis,
+        isAnalyzing,
+        analysisError,
+        progress,
+        runAnalysis,
+        cancelAnalysis,
+    } = usePackOddsAnalyzer(packData, cards);
+
+    const completion = analysis?.setCompletion ?? null;
+
+    return (
+        <Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                <Typography variant="h6">オッズ分析 (モンテカルロ)</Typography>
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                    <FormControl size="small" sx={{ minWidth: 160 }}>
+                        <InputLabel id="odds-iterations-label">試行回数</InputLabel>
+                        <Select
+                            labelId="odds-iterations-label"
+                            value={iterations}
+                            label="試行回数"
+                            onChange={(e) => setIterations(Number(e.target.value))}
+                            disabled={isAnalyzing}
+                        >
+                            {ODDS_ITERATION_OPTIONS.map(n => (
+                                <MenuItem key={n} value={n}>{n.toLocaleString()} パック</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <Button
+                        variant="contained"
+                        startIcon={isAnalyzing ? <CircularProgress size={16} color="inherit" /> : <QueryStatsIcon />}
+                        onClick={runAnalysis}
+                        disabled={isAnalyzing || (packData.cardsPerPack ?? 0) <= 0}
+                    >
+                        {isAnalyzing ? '分析中...' : '分析を実行'}
+                    </Button>
+                    {isAnalyzing && (
+                        <Button variant="outlined" color="inherit" startIcon={<StopIcon />} onClick={cancelAnalysis}>
+                            キャンセル
+                        </Button>
+                    )}
+                </Box>
+            </Box>
+
+            {progress !== null && (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+                    <LinearProgress variant="determinate" value={progress * 100} sx={{ flexGrow: 1 }} />
+                    <Typography variant="caption" color="text.secondary">{Math.floor(progress * 100)}%</Typography>
+                </Box>
+            )}
+
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                現在の封入設定（未保存の変更を含む）で開封を繰り返し、実際の抽選ロジックと同じ条件で出現傾向を集計します。
+            </Typography>
+
+            {analysisError && <Alert severity="error" sx={{ mb: 2 }}>{analysisError}</Alert>}
+
+            {analysis && (
+                <>
+                    {analysis.simulationWarning && (
+                        <Alert severity="warning" sx={{ mb: 2, whiteSpace: 'pre-line' }}>{analysis.simulationWarning}</Alert>
+                    )}
+
+                    <Typography variant="caption" color="text.secondary">
+                        試行: {analysis.iterations.toLocaleString()} パック / 1パック {analysis.cardsPerPack} 枚 / シード: {analysis.seed}
+                    </Typography>
+
+                    {/* ヘッダー行 */}
+                    <Grid container spacing={1} sx={{ mt: 1, mb: 1, px: 1 }}>
+                        <Grid size={COLUMN_SIZES.rarityName}><Typography variant="subtitle2">レアリティ</Typography></Grid>
+                        <Grid size={COLUMN_SIZES.meanCount}><Typography variant="subtitle2" align="right">平均/パック</Typography></Grid>
+                        <Grid size={COLUMN_SIZES.expectedCount}><Typography variant="subtitle2" align="right">理論値</Typography></Grid>
+                        <Grid size={COLUMN_SIZES.difference}><Typography variant="subtitle2" align="right">差分</Typography></Grid>
+                        <Grid size={COLUMN_SIZES.variance}><Typography variant="subtitle2" align="right">分散</Typography></Grid>
+                        <Grid size={COLUMN_SIZES.atLeastOne}><Typography variant="subtitle2" align="right">1枚以上</Typography></Grid>
+                        <Grid size={COLUMN_SIZES.distribution}><Typography variant="subtitle2">枚数分布</Typography></Grid>
+                    </Grid>
+                    <Divider />
+
+                    {analysis.rarityStats.map(stat => (
+                        <Grid container spacing={1} key={stat.rarityName} sx={{ py: 1, px: 1 }} alignItems="center">
+                            <Grid size={COLUMN_SIZES.rarityName}>
+                                <Typography variant="body2" fontWeight="bold">{stat.rarityName}</Typography>
+                            </Grid>
+                            <Grid size={COLUMN_SIZES.meanCount}>
+                                <Typography variant="body2" align="right">{formatNumber(stat.meanCount)}</Typography>
+                            </Grid>
+                            <Grid size={COLUMN_SIZES.expectedCount}>
+                                <Typography variant="body2" align="right">{formatNumber(stat.expectedCount)}</Typography>
+                            </Grid>
+                            <Grid size={COLUMN_SIZES.difference}>
+                                <Typography
+                                    variant="body2"
+                                    align="right"
+                                    color={Math.abs(stat.difference) >= 0.05 ? 'warning.main' : 'text.secondary'}
+                                >
+                                    {formatSigned(stat.difference)}
+                                </Typography>
+                            </Grid>
+                            <Grid size={COLUMN_SIZES.variance}>
+                                <Typography variant="body2" align="right">{formatNumber(stat.variance)}</Typography>
+                            </Grid>
+                            <Grid size={COLUMN_SIZES.atLeastOne}>
+                                <Typography variant="body2" align="right">{formatPercent(stat.atLeastOneProbability)}</Typography>
+                            </Grid>
+                            <Grid size={COLUMN_SIZES.distribution}>
+                                <Typography variant="caption" color="text.secondary">{formatDistribution(stat)}</Typography>
+                            </Grid>
+                        </Grid>
+                    ))}
+                    <Divider sx={{ mb: 2 }} />
+
+                    {/* コンプリート推定 */}
+                    <Typography variant="subtitle1" sx={{ mb: 1 }}>コンプリートまでのパック数</Typography>
+                    {!completion ? (
+                        <Typography variant="body2" color="text.secondary">収録カードが登録されていないため、推定できません。</Typography>
+                    ) : completion.uncollectableCardIds.length > 0 ? (
+                        <Alert severity="info">
+                            {completion.uncollectableCardIds.length}種類のカードは、レアリティが抽選されない、または排出ウェイトが0のため入手できません。コンプリートは不可能です。
+                        </Alert>
+                    ) : (
+                        <Box>
+                            <Typography variant="body2">
+                                全 {completion.totalUniqueCards} 種類 / 平均: <strong>{completion.meanPacks !== null ? completion.meanPacks.toFixed(1) : '—'}</strong> パック
+                                {' '}(中央値: {completion.medianPacks !== null ? completion.medianPacks : '—'} パック)
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                                {completion.trials} 回試行中 {completion.completedTrials} 回が {completion.maxPacksPerTrial.toLocaleString()} パック以内にコンプリート
+                            </Typography>
+                        </Box>
+                    )}
+                </>
+            )}
+        </Box>
+    );
+};
+
+export default PackOddsAnalyzerPanel;
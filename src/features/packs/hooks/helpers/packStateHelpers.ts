@@ -14,7 +14,7 @@ import type { Pack, Card } from '../../../../models/models';
 // ----------------------------------------------------------------------
 
 export type CardCompareFields = Pick<Card, 
-    'name' | 'number' | 'imageUrl' | 'imageColor' | 'rarity' |
+    'name' | 'number' | 'imageUrl' | 'imageColor' | 'rarity' | 'drawWeight' |
     'text' | 'subtext' | 'isFavorite' | 
     'num_1' | 'num_2' | 'num_3' | 'num_4' | 'num_5' | 'num_6' |
     'str_1' | 'str_2' | 'str_3' | 'str_4' | 'str_5' | 'str_6' | 
@@ -26,7 +26,7 @@ export type PackCompareFields = Pick<Pack,
     'price' | 'packType' | 'cardsPerPack' | 'series' |
     'description' | 'isOpened' | 'isFavorite' | 
     'rarityConfig' | 'advancedRarityConfig' | 'specialProbabilitySlots' | 'isAdvancedRulesEnabled' | 
-    'constructedDeckCards' |
+    'slotLayout' | 'isSlotLayoutEnabled' | 'pityRules' | 'duplicatePolicy' | 'constructedDeckCards' |
     'num_1' | 'num_2' | 'str_1' | 'str_2' | 
     'packFieldSettings' | 'cardFieldSettings' | 'tag' | 'searchText'
 >;
@@ -66,6 +66,10 @@ export const extractCompareFieldsFromBundle = (
         isFavorite: pack.isFavorite,
         specialProbabilitySlots: pack.specialProbabilitySlots,
         isAdvancedRulesEnabled: pack.isAdvancedRulesEnabled,
+        slotLayout: pack.slotLayout,
+        isSlotLayoutEnabled: pack.isSlotLayoutEnabled,
+        pityRules: pack.pityRules,
+        duplicatePolicy: pack.duplicatePolicy,
         number: pack.number,
         num_1: pack.num_1, 
         num_2: pack.num_2, 
@@ -84,6 +88,7 @@ export const extractCompareFieldsFromBundle = (
         imageUrl: c.imageUrl,
         imageColor: c.imageColor,
         rarity: c.rarity,
+        drawWeight: c.drawWeight,
         text: c.text,
         subtext: c.subtext,
         isFavorite: c.isFavorite,
@@ -0,0 +1,97 @@
+/**
+ * src/features/packs/hooks/usePackOddsAnalyzer.ts
+ *
+ * * パック編集画面のオッズ分析パネル用のカスタムフック。
+ * * 責務:
+ * 1. 試行回数と分析結果（PackOddsAnalysis）、分析中フラグ、進捗の状態を管理する。
+ * 2. 編集中のパック設定と収録カードを `simulationWorkerService` に渡し、Web Worker 上でモンテカルロ分析を実行する（UI スレッドをブロックしない）。
+ * 3. 実行中の分析のキャンセルを提供する。
+ * 4. パックが切り替わった場合やアンマウント時に、実行中の分析をキャンセルし、以前の分析結果を破棄する。
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { Pack, Card } from '../../../models/models';
+import {
+    DEFAULT_ODDS_ITERATIONS,
+    type PackOddsAnalysis,
+} from '../../../services/packs/packOddsAnalyzer';
+import { simulationWorkerService, isSimulationAbortError } from '../../../services/simulation/simulationWorkerService';
+
+/**
+ * 選択可能な試行回数
+ */
+export const ODDS_ITERATION_OPTIONS = [1000, 10000, 50000, 100000] as const;
+
+export const usePackOddsAnalyzer = (packData: Pack | null, cards: Card[]) => {
+
+    const [iterations, setIterations] = useState<number>(DEFAULT_ODDS_ITERATIONS);
+    const [analysis, setAnalysis] = useState<PackOddsAnalysis | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [analysisError, setAnalysisError] = useState<string | null>(null);
+    // 進捗 (0〜1)。分析中でない場合は null
+    const [progress, setProgress] = useState<number | null>(null);
+
+    // 実行中の分析のキャンセル用
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const packId = packData?.packId;
+
+    const cancelAnalysis = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsAnalyzing(false);
+        setProgress(null);
+    }, []);
+
+    // パックが切り替わったら実行中の分析をキャンセルし、結果を破棄
+    useEffect(() => {
+        setAnalysis(null);
+        setAnalysisError(null);
+        return () => cancelAnalysis();
+    }, [packId, cancelAnalysis]);
+
+    const runAnalysis = useCallback(async () => {
+        if (!packData) return;
+
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        setIsAnalyzing(true);
+        setAnalysisError(null);
+        setProgress(0);
+
+        try {
+            const result = await simulationWorkerService.runJob(
+                { type: 'analyzePackOdds', pack: packData, cards, options: { iterations } },
+                {
+                    signal: controller.signal,
+                    onProgress: (completed, total) => setProgress(completed / total),
+                }
+            );
+            setAnalysis(result);
+        } catch (error) {
+            if (isSimulationAbortError(error)) return;
+            console.error('[usePackOddsAnalyzer:runAnalysis] ❌ Failed to analyze pack odds:', error);
+            setAnalysisError('❌ オッズ分析中にエラーが発生しました。');
+        } finally {
+            // 後続の分析が開始されている場合は、その状態を上書きしない
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsAnalyzing(false);
+                setProgress(null);
+            }
+        }
+    }, [packData, cards, iterations]);
+
+    return {
+        iterations,
+        setIterations,
+        analysis,
+        isAnalyzing,
+        analysisError,
+        progress,
+        runAnalysis,
+        cancelAnalysis,
+    };
+};
@@ -9,16 +9,29 @@
  * 3. 基本確率、特殊確率、確定枚数の合計値を計算し、確率合計が1.0であることや、基本抽選枠数が負になっていないかなどのバリデーションフラグを算出する。
  * 4. レアリティの追加/削除、各フィールドの変更、アドバンスドモードの切り替えなどのハンドラを提供する。F
  * 5. 保存時用に、現在の設定に基づいた最終的なレアリティ設定オブジェクト（RarityConfig[] または AdvancedRarityConfig[]）を返す。
+ * 6. 天井（ピティ）ルール（PityRule[]）の追加/変更/削除ハンドラを提供し、保存時のパック詳細に含める。
+ * 7. パック内の重複制御ポリシー（DuplicatePolicy）の変更ハンドラを提供し、保存時のパック詳細に含める。
+ * 8. スロット構成（PackSlot[]）の有効化（未設定時は現在の封入設定から自動変換）、枠の追加/削除/並べ替え、
+ *    枠ごとのレアリティの重みとカード絞り込み条件の変更ハンドラを提供し、枠数などのバリデーションフラグを算出する。
+ * 9. レアリティ（スロット構成にのみ現れるものを含む）の表示設定（順位・略称・色・開封演出）を、未設定の項目は既定値で補って提供し、変更・リセットのハンドラを提供する。
+ *    保存時は変更したレアリティの設定のみをパック詳細に含める。
  */
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import type { RarityConfig, AdvancedRarityConfig } from '../../../models/models'; 
+import type {
+    RarityConfig, AdvancedRarityConfig, PityRule, DuplicatePolicy, DuplicatePolicyMode,
+    PackSlot, SlotRarityWeight, SlotCardFilterField, RarityDefinition, RarityRevealTier
+} from '../../../models/models';
+import { convertRarityConfigToSlotLayout } from '../../../services/packs/packSimulation';
+import { collectRarityNames, resolveRarityDefinitions } from '../../../services/packs/rarityRegistry';
 
 const DEFAULT_PROBABILITY = 0.0001; 
 const DEFAULT_SPECIAL_PROBABILITY = 0.0; 
 const DEFAULT_FIXED_VALUE = 0; 
 const DEFAULT_RARITY_NAME = 'NewRarity';
 const DEFAULT_SPECIAL_PROBABILITY_SLOTS = 0; 
+const DEFAULT_PITY_THRESHOLD = 10;
+const DEFAULT_SLOT_WEIGHT = 1;
 
 // 編集ロジックで使用する型として AdvancedRarityConfig をベースにする
 type EditingRarity = AdvancedRarityConfig & { specialProbability: number }; 
@@ -38,17 +51,33 @@ const EPSILON = 1e-6;
  * @param initialRarities - 編集対象の現在のレアリティ設定 (AdvancedRarityConfig[] を想定)
  * @param initialIsAdvanced - 初期のアドバンスドモードの状態
  * @param initialSpecialProbabilitySlots - 特殊確率枠数の初期値
- * @param cardsPerPack - パックの封入枚数 (バリデーションに使用)
- */
+ * @param cardsPerPack - パックの封入枚数 (バリデーションに使用)
+ * @param initialPityRules - 天井ルールの初期値 (参照が変わると状態がリセットされるため、呼び出し側でメモ化すること)
+ * @param initialDuplicatePolicy - 重複制御ポリシーの初期値 (同上、呼び出し側でメモ化すること)
+ * @param initialSlotLayout - スロット構成の初期値 (同上、呼び出し側でメモ化すること)
+ * @param initialIsSlotLayoutEnabled - スロット構成の有効/無効の初期値
+ * @param initialRarityDefinitions - レアリティの表示設定の初期値 (同上、呼び出し側でメモ化すること)
+ */
 export const useRarityEditor = (
-    initialRarities: EditingRarity[], 
-    initialIsAdvanced: boolean,
-    initialSpecialProbabilitySlots: number,
-    cardsPerPack: number
+    initialRarities: EditingRarity[], 
+    initialIsAdvanced: boolean,
+    initialSpecialProbabilitySlots: number,
+    cardsPerPack: number,
+    initialPityRules: PityRule[],
+    initialDuplicatePolicy: DuplicatePolicy,
+    initialSlotLayout: PackSlot[],
+    initialIsSlotLayoutEnabled: boolean,
+    initialRarityDefinitions: RarityDefinition[]
 ) => {
-    
-    const [isAdvancedEnabled, setIsAdvancedEnabled] = useState(initialIsAdvanced);
-    const [specialProbabilitySlots, setSpecialProbabilitySlots] = useState(initialSpecialProbabilitySlots); 
+    
+    const [isAdvancedEnabled, setIsAdvancedEnabled] = useState(initialIsAdvanced);
+    const [specialProbabilitySlots, setSpecialProbabilitySlots] = useState(initialSpecialProbabilitySlots); 
+    const [pityRules, setPityRules] = useState<PityRule[]>(initialPityRules);
+    const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>(initialDuplicatePolicy);
+    const [slotLayout, setSlotLayout] = useState<PackSlot[]>(initialSlotLayout);
+    const [isSlotLayoutEnabled, setIsSlotLayoutEnabled] = useState(initialIsSlotLayoutEnabled);
+    // 変更したレアリティの表示設定のみを保持する (未変更のレアリティは既定値で補う)
+    const [rarityDefinitions, setRarityDefinitions] = useState<RarityDefinition[]>(initialRarityDefinitions);
 
     // initialRaritiesが空の場合はデフォルト設定を使用するロジックを分離
     const getSafeInitialRarities = useCallback((rarities: EditingRarity[]): EditingRarity[] => {
@@ -68,8 +97,16 @@ export const useRarityEditor = (
     useEffect(() => {
         setEditingRarities(getSafeInitialRarities(initialRarities));
         setIsAdvancedEnabled(initialIsAdvanced);
-        setSpecialProbabilitySlots(initialSpecialProbabilitySlots);
-    }, [initialRarities, initialIsAdvanced, initialSpecialProbabilitySlots, getSafeInitialRarities]); 
+        setSpecialProbabilitySlots(initialSpecialProbabilitySlots);
+        setPityRules(initialPityRules);
+        setDuplicatePolicy(initialDuplicatePolicy);
+        setSlotLayout(initialSlotLayout);
+        setIsSlotLayoutEnabled(initialIsSlotLayoutEnabled);
+        setRarityDefinitions(initialRarityDefinitions);
+    }, [
+        initialRarities, initialIsAdvanced, initialSpecialProbabilitySlots, initialPityRules, initialDuplicatePolicy,
+        initialSlotLayout, initialIsSlotLayoutEnabled, initialRarityDefinitions, getSafeInitialRarities
+    ]); 
 
     // --- 計算ロジック ---
 
@@ -131,7 +168,44 @@ export const useRarityEditor = (
     }, [isAdvancedEnabled, baseDrawSlots]);
 
 
-    // --- ハンドラ ---
+    /**
+     * スロット数がパックの封入枚数と一致していないかチェック
+     */
+    const slotCountMismatch = useMemo(() => {
+        if (!isSlotLayoutEnabled) return false;
+        return slotLayout.length !== cardsPerPack;
+    }, [isSlotLayoutEnabled, slotLayout, cardsPerPack]);
+
+    /**
+     * 編集中のパックに現れるレアリティ名 (封入設定の並び順に、スロット構成にのみ現れるレアリティを追加したもの)。
+     * 開封・ソートなどで使用する resolvePackRarityDefinitions と同じ規則で集める
+     */
+    const configuredRarityNames = useMemo(() => collectRarityNames(
+        editingRarities.map(r => r.rarityName),
+        slotLayout
+    ), [editingRarities, slotLayout]);
+
+    /**
+     * 抽選テーブルが空 (重みが正で、名前が空でないレアリティがない) のスロットが存在するかチェック
+     */
+    const hasEmptySlot = useMemo(() => {
+        if (!isSlotLayoutEnabled) return false;
+        return slotLayout.some(slot => !slot.rarityWeights.some(w =>
+            w.weight > 0 && configuredRarityNames.includes(w.rarityName)
+        ));
+    }, [isSlotLayoutEnabled, slotLayout, configuredRarityNames]);
+
+
+    /**
+     * 編集中のレアリティの表示設定 (未変更の項目は並び順からの既定値)
+     */
+    const resolvedRarityDefinitions = useMemo(
+        () => resolveRarityDefinitions(configuredRarityNames, rarityDefinitions),
+        [configuredRarityNames, rarityDefinitions]
+    );
+
+
+    // --- ハンドラ ---
 
     /**
      * アドバンスドモードのトグル
@@ -230,7 +304,217 @@ export const useRarityEditor = (
         }
     }, [editingRarities]);
 
-    const handleRemoveRarity = useCallback((index: number) => {
+    // --- 天井 (ピティ) ルール ---
+
+    /**
+     * 天井ルールを追加 (初期値は最上位のレアリティ。スロット構成にのみ現れるレアリティを含む)
+     */
+    const handleAddPityRule = useCallback(() => {
+        setPityRules(prev => [
+            ...prev,
+            {
+                rarityName: resolvedRarityDefinitions[resolvedRarityDefinitions.length - 1]?.rarityName ?? '',
+                threshold: DEFAULT_PITY_THRESHOLD,
+            },
+        ]);
+    }, [resolvedRarityDefinitions]);
+
+    /**
+     * 指定したインデックスの天井ルールを変更 (threshold は1以上の整数に強制)
+     */
+    const handlePityRuleChange = useCallback((index: number, field: keyof PityRule, value: string | number) => {
+        setPityRules(prev => prev.map((rule, i) => {
+            if (i !== index) return rule;
+            if (field === 'threshold') {
+                let numValue = parseInt(String(value), 10);
+                if (isNaN(numValue) || numValue < 1) numValue = 1;
+                return { ...rule, threshold: numValue };
+            }
+            return { ...rule, rarityName: String(value) };
+        }));
+    }, []);
+
+    const handleRemovePityRule = useCallback((index: number) => {
+        setPityRules(prev => prev.filter((_, i) => i !== index));
+    }, []);
+
+    // --- 重複制御 ---
+
+    /**
+     * 重複制御のモードを変更 ('forbidAboveRarity' に切り替えた場合、基準レアリティの初期値は先頭のレアリティ)
+     */
+    const handleDuplicatePolicyModeChange = useCallback((mode: DuplicatePolicyMode) => {
+        setDuplicatePolicy(prev => mode === 'forbidAboveRarity'
+            ? { mode, rarityName: prev.rarityName ?? editingRarities[0]?.rarityName ?? '' }
+            : { mode });
+    }, [editingRarities]);
+
+    const handleDuplicatePolicyRarityChange = useCallback((rarityName: string) => {
+        setDuplicatePolicy(prev => ({ ...prev, rarityName }));
+    }, []);
+
+    // --- 表示設定 ---
+
+    /**
+     * レアリティの表示設定を変更する (rank は整数に強制)。
+     * 未変更のレアリティを初めて変更する場合は、既定値をもとに設定を作成する。
+     */
+    const handleRarityDefinitionChange = useCallback((
+        rarityName: string,
+        field: 'rank' | 'abbreviation' | 'color' | 'revealTier',
+        value: string | number
+    ) => {
+        const base = resolvedRarityDefinitions.find(def => def.rarityName === rarityName);
+        if (!base) return;
+
+        let update: Partial<RarityDefinition>;
+        if (field === 'rank') {
+            const numValue = parseInt(String(value), 10);
+            update = { rank: isNaN(numValue) ? 0 : numValue };
+        } else if (field === 'revealTier') {
+            update = { revealTier: value as RarityRevealTier };
+        } else {
+            update = { [field]: String(value) };
+        }
+
+        setRarityDefinitions(prev => {
+            const current = prev.find(def => def.rarityName === rarityName) ?? base;
+            return [...prev.filter(def => def.rarityName !== rarityName), { ...current, ...update }];
+        });
+    }, [resolvedRarityDefinitions]);
+
+    /**
+     * すべてのレアリティの表示設定を既定値 (封入設定の並び順) に戻す
+     */
+    const handleResetRarityDefinitions = useCallback(() => {
+        setRarityDefinitions([]);
+    }, []);
+
+    // --- スロット構成 ---
+
+    /**
+     * 現在編集中の封入設定 (Advanced/Classic) を、同じ確率分布のスロット構成に変換する
+     */
+    const createSlotLayoutFromEditingRarities = useCallback((): PackSlot[] => convertRarityConfigToSlotLayout({
+        cardsPerPack,
+        rarityConfig: editingRarities,
+        advancedRarityConfig: editingRarities,
+        isAdvancedRulesEnabled: isAdvancedEnabled,
+        specialProbabilitySlots,
+    }), [cardsPerPack, editingRarities, isAdvancedEnabled, specialProbabilitySlots]);
+
+    /**
+     * スロット構成のトグル (スロットが未設定の状態で有効にした場合、現在の封入設定から自動変換する)
+     */
+    const handleSlotLayoutToggle = useCallback((newEnabledState: boolean) => {
+        setIsSlotLayoutEnabled(newEnabledState);
+        if (newEnabledState && slotLayout.length === 0) {
+            setSlotLayout(createSlotLayoutFromEditingRarities());
+        }
+    }, [slotLayout, createSlotLayoutFromEditingRarities]);
+
+    /**
+     * 現在の封入設定からスロット構成を作り直す (編集中のスロット構成は破棄される)
+     */
+    const handleConvertToSlotLayout = useCallback(() => {
+        setSlotLayout(createSlotLayoutFromEditingRarities());
+    }, [createSlotLayoutFromEditingRarities]);
+
+    // 補助関数: 指定したインデックスのスロットのみを更新する
+    const updateSlot = useCallback((slotIndex: number, update: (slot: PackSlot) => PackSlot) => {
+        setSlotLayout(prev => prev.map((slot, i) => i === slotIndex ? update(slot) : slot));
+    }, []);
+
+    /**
+     * スロットを末尾に追加 (初期値は先頭のレアリティのみの抽選テーブル)
+     */
+    const handleAddSlot = useCallback(() => {
+        setSlotLayout(prev => [
+            ...prev,
+            {
+                label: `${prev.length + 1}枠目`,
+                rarityWeights: [{ rarityName: editingRarities[0]?.rarityName ?? '', weight: DEFAULT_SLOT_WEIGHT }],
+            },
+        ]);
+    }, [editingRarities]);
+
+    const handleRemoveSlot = useCallback((slotIndex: number) => {
+        setSlotLayout(prev => prev.filter((_, i) => i !== slotIndex));
+    }, []);
+
+    /**
+     * スロットを1つ上 (-1) または下 (+1) に移動する
+     */
+    const handleMoveSlot = useCallback((slotIndex: number, direction: -1 | 1) => {
+        setSlotLayout(prev => {
+            const targetIndex = slotIndex + direction;
+            if (targetIndex < 0 || targetIndex >= prev.length) return prev;
+            const next = [...prev];
+            [next[slotIndex], next[targetIndex]] = [next[targetIndex], next[slotIndex]];
+            return next;
+        });
+    }, []);
+
+    const handleSlotLabelChange = useCallback((slotIndex: number, label: string) => {
+        updateSlot(slotIndex, slot => ({ ...slot, label }));
+    }, [updateSlot]);
+
+    /**
+     * スロットの抽選テーブルにレアリティを追加 (初期値はテーブルにない先頭のレアリティ)
+     */
+    const handleAddSlotRarityWeight = useCallback((slotIndex: number) => {
+        updateSlot(slotIndex, slot => {
+            const unusedRarity = editingRarities.find(r => !slot.rarityWeights.some(w => w.rarityName === r.rarityName));
+            return {
+                ...slot,
+                rarityWeights: [
+                    ...slot.rarityWeights,
+                    { rarityName: unusedRarity?.rarityName ?? editingRarities[0]?.rarityName ?? '', weight: DEFAULT_SLOT_WEIGHT },
+                ],
+            };
+        });
+    }, [editingRarities, updateSlot]);
+
+    /**
+     * スロットの抽選テーブルのレアリティまたは重みを変更 (重みは0以上の数値に強制)
+     */
+    const handleSlotRarityWeightChange = useCallback((
+        slotIndex: number,
+        weightIndex: number,
+        field: keyof SlotRarityWeight,
+        value: string | number
+    ) => {
+        updateSlot(slotIndex, slot => ({
+            ...slot,
+            rarityWeights: slot.rarityWeights.map((w, i) => {
+                if (i !== weightIndex) return w;
+                if (field === 'weight') {
+                    const numValue = parseFloat(String(value));
+                    return { ...w, weight: isNaN(numValue) || numValue < 0 ? 0 : numValue };
+                }
+                return { ...w, rarityName: String(value) };
+            }),
+        }));
+    }, [updateSlot]);
+
+    const handleRemoveSlotRarityWeight = useCallback((slotIndex: number, weightIndex: number) => {
+        updateSlot(slotIndex, slot => ({
+            ...slot,
+            rarityWeights: slot.rarityWeights.filter((_, i) => i !== weightIndex),
+        }));
+    }, [updateSlot]);
+
+    /**
+     * スロットのカード絞り込み条件を変更 (field に null を指定すると絞り込みを解除する)
+     */
+    const handleSlotCardFilterChange = useCallback((slotIndex: number, field: SlotCardFilterField | null, value: string) => {
+        updateSlot(slotIndex, slot => ({
+            ...slot,
+            cardFilter: field === null ? undefined : { field, value },
+        }));
+    }, [updateSlot]);
+
+    const handleRemoveRarity = useCallback((index: number) => {
         setEditingRarities(prev => {
             if (prev.length <= 1) {
                 console.warn('少なくとも1つのレアリティが必要です。');
@@ -256,12 +540,55 @@ export const useRarityEditor = (
         handleFixedValueChange,
         handleAddRarity,
         handleRemoveRarity,
-        handleRarityChange,
-        getFinalRarityConfig,
+        handleRarityChange,
+        pityRules,
+        handleAddPityRule,
+        handlePityRuleChange,
+        handleRemovePityRule,
+        duplicatePolicy,
+        handleDuplicatePolicyModeChange,
+        handleDuplicatePolicyRarityChange,
+        slotLayout,
+        isSlotLayoutEnabled,
+        slotCountMismatch,
+        hasEmptySlot,
+        handleSlotLayoutToggle,
+        handleConvertToSlotLayout,
+        handleAddSlot,
+        handleRemoveSlot,
+        handleMoveSlot,
+        handleSlotLabelChange,
+        handleAddSlotRarityWeight,
+        handleSlotRarityWeightChange,
+        handleRemoveSlotRarityWeight,
+        handleSlotCardFilterChange,
+        configuredRarityNames,
+        resolvedRarityDefinitions,
+        handleRarityDefinitionChange,
+        handleResetRarityDefinitions,
+        getFinalRarityConfig,
         // 保存時にPack全体を更新するための情報
         getFinalPackDetails: useCallback(() => ({
             isAdvancedRulesEnabled: isAdvancedEnabled,
-            specialProbabilitySlots: specialProbabilitySlots,
-        }), [isAdvancedEnabled, specialProbabilitySlots])
+            specialProbabilitySlots: specialProbabilitySlots,
+            // 存在しないレアリティを参照するルールは保存しない
+            pityRules: pityRules.filter(rule => configuredRarityNames.includes(rule.rarityName)),
+            duplicatePolicy,
+            // 名前が空・重み0のエントリと、空の絞り込み条件は保存しない
+            slotLayout: slotLayout.length > 0
+                ? slotLayout.map(slot => ({
+                    label: slot.label,
+                    rarityWeights: slot.rarityWeights.filter(w =>
+                        w.weight > 0 && configuredRarityNames.includes(w.rarityName)
+                    ),
+                    ...(slot.cardFilter?.value.trim() ? { cardFilter: slot.cardFilter } : {}),
+                }))
+                : undefined,
+            isSlotLayoutEnabled: isSlotLayoutEnabled && slotLayout.length > 0,
+            // 存在しないレアリティの表示設定は保存しない
+            rarityDefinitions: rarityDefinitions.length > 0
+                ? rarityDefinitions.filter(def => configuredRarityNames.includes(def.rarityName))
+                : undefined,
+        }), [isAdvancedEnabled, specialProbabilitySlots, pityRules, duplicatePolicy, slotLayout, isSlotLayoutEnabled, rarityDefinitions, configuredRarityNames])
     };
 };
\ No newline at end of file
@@ -0,0 +1,103 @@
+/**
+ * src/features/sealed/Sealed.tsx
+ *
+ * シールド機能のメインコンポーネント。
+ * * 責務:
+ * 1. `useSealed` からシールドの設定・開封結果・操作ハンドラを取得し、ページのレイアウトを構成する。
+ * 2. 設定パネル（`SealedSetupPanel`）を表示し、直前に開封したイベントプールの内容とデッキ作成ボタンを表示する。
+ * 3. 保存済みのすべてのイベントプールを `EventPoolList` で一覧表示する（DTCGモードでは所持カードへの追加も提供）。
+ */
+
+import React from 'react';
+import { Box, Typography, Paper, Alert, Button, Chip } from '@mui/material';
+import NoteAddIcon from '@mui/icons-material/NoteAdd';
+
+import { useSealed } from './hooks/useSealed';
+import SealedSetupPanel from './components/SealedSetupPanel';
+import EventPoolList from '../event-pools/components/EventPoolList';
+import { PAGE_PADDING, PAGE_FLEX_GROW, PAGE_TITLE_VARIANT } from '../../configs/configs';
+
+const Sealed: React.FC = () => {
+
+    const {
+        boosterPacks,
+        entries,
+        totalPackCount,
+        handleAddEntry,
+        handleEntryChange,
+        handleRemoveEntry,
+        seedInput,
+        setSeedInput,
+        isOpening,
+        handleOpenSealed,
+        lastPool,
+        warnings,
+        getCard,
+        pools,
+        isDTCGEnabled,
+        handleCreateDeckFromPool,
+        handleDeletePool,
+        handleMergePool,
+        actionError,
+    } = useSealed();
+
+    return (
+        <Box sx={{ p: PAGE_PADDING, flexGrow: PAGE_FLEX_GROW }}>
+            <Typography variant={PAGE_TITLE_VARIANT} gutterBottom>シールド</Typography>
+
+            {actionError && <Alert severity="error" sx={{ mb: 2 }}>{actionError}</Alert>}
+            {warnings.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 2, whiteSpace: 'pre-line' }}>{warnings.join('\n')}</Alert>
+            )}
+
+            <SealedSetupPanel
+                boosterPacks={boosterPacks}
+                entries={entries}
+                totalPackCount={totalPackCount}
+                onAddEntry={handleAddEntry}
+                onEntryChange={handleEntryChange}
+                onRemoveEntry={handleRemoveEntry}
+                seedInput={seedInput}
+                onSeedInputChange={setSeedInput}
+                isOpening={isOpening}
+                onOpen={handleOpenSealed}
+            />
+
+            {lastPool && (
+                <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
+                    <Typography variant="h6" gutterBottom>開封結果: {lastPool.name}</Typography>
+                    <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+                        {lastPool.cards.length} 種 / {lastPool.cards.reduce((sum, c) => sum + c.count, 0)} 枚 / シード: {lastPool.seed}
+                    </Typography>
+                    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 2 }}>
+                        {lastPool.cards.map(({ cardId, count }) => {
+                            const card = getCard(cardId);
+                            return (
+                                <Chip
+                                    key={cardId}
+                                    label={`${card?.name ?? cardId}${count > 1 ? ` × ${count}` : ''}`}
+                                    size="small"
+                                    variant="outlined"
+                                    title={card?.rarity}
+                                />
+                            );
+                        })}
+                    </Box>
+                    <Button variant="contained" startIcon={<NoteAddIcon />} onClick={() => handleCreateDeckFromPool(lastPool)}>
+                        このプールでデッキを作成
+                    </Button>
+                </Paper>
+            )}
+
+            <Typography variant="h6" sx={{ mt: 3, mb: 1 }}>保存済みのイベントプール</Typography>
+            <EventPoolList
+                pools={pools}
+                onCreateDeck={handleCreateDeckFromPool}
+                onDelete={handleDeletePool}
+                onMerge={isDTCGEnabled ? handleMergePool : undefined}
+            />
+        </Box>
+    );
+};
+
+export default Sealed;
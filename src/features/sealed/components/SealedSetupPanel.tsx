@@ -0,0 +1,127 @@
+/**
+ * src/features/sealed/components/SealedSetupPanel.tsx
+ *
+ * シールド画面に表示する、開封前の設定パネルです。
+ *
+ * * 責務:
+ * 1. 開封する Booster パックと開封数の組を、行の追加・削除で複数指定する入力UIを提供する。
+ * 2. シードの入力UIと、開封するパックの総数を表示する。
+ * 3. 開封ボタンを提供し、開封要求を親コンポーネントに通知する（onOpen）。
+ */
+
+import React from 'react';
+import {
+    Paper, Box, Typography, Button, TextField, IconButton, Tooltip,
+    Select, MenuItem, FormControl, InputLabel, CircularProgress
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+
+import type { Pack } from '../../../models/models';
+import type { SealedEntryInput } from '../hooks/useSealed';
+import { MIN_SEALED_PACK_COUNT, MAX_SEALED_PACK_COUNT } from '../../../services/event-pools/sealedPoolGenerator';
+
+interface SealedSetupPanelProps {
+    boosterPacks: Pack[];
+    entries: SealedEntryInput[];
+    totalPackCount: number;
+    onAddEntry: () => void;
+    onEntryChange: (index: number, entry: Partial<SealedEntryInput>) => void;
+    onRemoveEntry: (index: number) => void;
+    seedInput: string;
+    onSeedInputChange: (value: string) => void;
+    isOpening: boolean;
+    onOpen: () => void;
+}
+
+// 開封数の入力値を範囲内に丸める
+const clampPackCount = (value: number): number =>
+    Math.min(MAX_SEALED_PACK_COUNT, Math.max(MIN_SEALED_PACK_COUNT, Math.floor(value) || MIN_SEALED_PACK_COUNT));
+
+const SealedSetupPanel: React.FC<SealedSetupPanelProps> = ({
+    boosterPacks,
+    entries,
+    totalPackCount,
+    onAddEntry,
+    onEntryChange,
+    onRemoveEntry,
+    seedInput,
+    onSeedInputChange,
+    isOpening,
+    onOpen,
+}) => {
+
+    if (boosterPacks.length === 0) {
+        return <Typography color="text.secondary">シールドに使用できる Booster パックがありません。</Typography>;
+    }
+
+    return (
+        <Paper elevation={2} sx={{ p: 2, mb: 2 }}>
+            <Typography variant="h6" gutterBottom>シールド設定</Typography>
+
+            {entries.map((entry, index) => (
+                <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 1.5 }}>
+                    <FormControl size="small" sx={{ minWidth: 240 }}>
+                        <InputLabel id={`sealed-pack-label-${index}`}>パック</InputLabel>
+                        <Select
+                            labelId={`sealed-pack-label-${index}`}
+                            value={entry.packId}
+                            label="パック"
+                            onChange={(e) => onEntryChange(index, { packId: e.target.value })}
+                        >
+                            {boosterPacks.map(pack => (
+                                <MenuItem key={pack.packId} value={pack.packId}>{pack.name}</MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                    <TextField
+                        label="開封数"
+                        size="small"
+                        type="number"
+                        value={entry.count}
+                        onChange={(e) => onEntryChange(index, { count: clampPackCount(Number(e.target.value)) })}
+                        inputProps={{ min: MIN_SEALED_PACK_COUNT, max: MAX_SEALED_PACK_COUNT }}
+                        sx={{ width: 100 }}
+                    />
+                    <Tooltip title="この行を削除">
+                        <span>
+                            <IconButton size="small" onClick={() => onRemoveEntry(index)} disabled={entries.length <= 1}>
+                                <DeleteIcon fontSize="small" />
+                            </IconButton>
+                        </span>
+                    </Tooltip>
+                </Box>
+            ))}
+            <Button size="small" startIcon={<AddIcon />} onClick={onAddEntry} sx={{ mb: 2 }}>
+                パックを追加
+            </Button>
+
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                <TextField
+                    label="シード (任意)"
+                    size="small"
+                    type="number"
+                    value={seedInput}
+                    onChange={(e) => onSeedInputChange(e.target.value)}
+                    sx={{ width: 160 }}
+                />
+                <Typography variant="body2" color="text.secondary">合計 {totalPackCount} パック</Typography>
+            </Box>
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 2 }}>
+                開封したカードは所持カードには追加されず、イベントプールとして保存されます。天井ルールは適用されません。
+            </Typography>
+
+            <Button
+                variant="contained"
+                startIcon={isOpening ? <CircularProgress size={16} color="inherit" /> : <PlayArrowIcon />}
+                onClick={onOpen}
+                disabled={isOpening || totalPackCount === 0}
+            >
+                {isOpening ? '開封中...' : 'シールドを開封'}
+            </Button>
+        </Paper>
+    );
+};
+
+export default SealedSetupPanel;
@@ -0,0 +1,212 @@
+/**
+ * src/features/sealed/hooks/useSealed.ts
+ *
+ * シールド画面のロジックと状態を管理するカスタムフック。
+ * * 責務:
+ * 1. シールドの設定（開封するパックと開封数の一覧・シード）の状態を管理する。
+ * 2. `openSealedPool` でパックを開封し、結果を所持カードとは独立したイベントプール（EventPoolStore）として保存する。
+ * 3. 保存済みのイベントプールの一覧・削除を提供し、プールから新しいデッキを作成して（DeckStore.saveDeck）デッキ編集画面へ遷移する。
+ * 4. DTCGモードでは、プールのカードを所持カード（CardPoolStore.addCards）に追加し、追加済みとして記録する。
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+
+import type { Card, EventPool } from '../../../models/models';
+import { usePackStore } from '../../../stores/packStore';
+import { useCardStore } from '../../../stores/cardStore';
+import { useDeckStore } from '../../../stores/deckStore';
+import { useCardPoolStore } from '../../../stores/cardPoolStore';
+import { useUserDataStore } from '../../../stores/userDataStore';
+import { useEventPoolStore } from '../../../stores/eventPoolStore';
+import {
+    openSealedPool,
+    DEFAULT_SEALED_PACK_COUNT,
+    type SealedPackEntry,
+} from '../../../services/event-pools/sealedPoolGenerator';
+import { createDeckFromEventPool } from '../../../utils/dataUtils';
+import { generateSeed } from '../../../utils/randomUtils';
+
+/**
+ * シールドの設定1行分（パックIDと開封数）
+ */
+export interface SealedEntryInput {
+    packId: string;
+    count: number;
+}
+
+export const useSealed = () => {
+
+    const packs = usePackStore(state => state.packs);
+    const cards = useCardStore(state => state.cards);
+    const saveDeck = useDeckStore(state => state.saveDeck);
+    const addCards = useCardPoolStore(state => state.addCards);
+    const isDTCGEnabled = useUserDataStore(state => state.isDTCGEnabled);
+    const pools = useEventPoolStore(state => state.pools);
+    const fetchAllPools = useEventPoolStore(state => state.fetchAllPools);
+    const createPool = useEventPoolStore(state => state.createPool);
+    const deletePool = useEventPoolStore(state => state.deletePool);
+    const markPoolMerged = useEventPoolStore(state => state.markPoolMerged);
+
+    const navigate = useNavigate();
+
+    // --- 設定 ---
+    const [entries, setEntries] = useState<SealedEntryInput[]>([]);
+    const [seedInput, setSeedInput] = useState<string>('');
+
+    // --- 進行状態 ---
+    const [isOpening, setIsOpening] = useState(false);
+    const [lastPoolId, setLastPoolId] = useState<string | null>(null);
+    const [warnings, setWarnings] = useState<string[]>([]);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchAllPools();
+    }, [fetchAllPools]);
+
+    // シールドに使用できるのは Booster パックのみ
+    const boosterPacks = useMemo(() => packs.filter(p => p.packType === 'Booster'), [packs]);
+
+    // 初期選択: 最初の Booster パックを既定の開封数で
+    useEffect(() => {
+        if (entries.length === 0 && boosterPacks.length > 0) {
+            setEntries([{ packId: boosterPacks[0].packId, count: DEFAULT_SEALED_PACK_COUNT }]);
+        }
+    }, [boosterPacks, entries.length]);
+
+    const cardMap = useMemo(() => new Map(cards.map(c => [c.cardId, c])), [cards]);
+    const getCard = useCallback((cardId: string): Card | undefined => cardMap.get(cardId), [cardMap]);
+    const lastPool = useMemo(() => pools.find(p => p.poolId === lastPoolId) ?? null, [pools, lastPoolId]);
+    const totalPackCount = useMemo(() => entries.reduce((sum, e) => sum + e.count, 0), [entries]);
+
+    const handleAddEntry = useCallback(() => {
+        const unused = boosterPacks.find(p => !entries.some(e => e.packId === p.packId)) ?? boosterPacks[0];
+        if (!unused) return;
+        setEntries(prev => [...prev, { packId: unused.packId, count: DEFAULT_SEALED_PACK_COUNT }]);
+    }, [boosterPacks, entries]);
+
+    const handleEntryChange = useCallback((index: number, entry: Partial<SealedEntryInput>) => {
+        setEntries(prev => prev.map((e, i) => i === index ? { ...e, ...entry } : e));
+    }, []);
+
+    const handleRemoveEntry = useCallback((index: number) => {
+        setEntries(prev => prev.filter((_, i) => i !== index));
+    }, []);
+
+    const handleOpenSealed = useCallback(async () => {
+        const sealedEntries: SealedPackEntry[] = entries
+            .map(e => ({ pack: boosterPacks.find(p => p.packId === e.packId), count: e.count }))
+            .filter((e): e is SealedPackEntry => !!e.pack && e.count > 0);
+
+        if (sealedEntries.length === 0) {
+            setActionError('開封するパックが選択されていません。');
+            return;
+        }
+
+        setIsOpening(true);
+        setActionError(null);
+        setWarnings([]);
+
+        try {
+            const parsedSeed = parseInt(seedInput, 10);
+            const seed = isNaN(parsedSeed) ? generateSeed() : parsedSeed >>> 0;
+
+            const result = await openSealedPool(sealedEntries, seed);
+            setWarnings(result.warnings);
+            if (result.cards.length === 0) {
+                setActionError('開封結果にカードがありません。パックの収録カードを確認してください。');
+                return;
+            }
+
+            const packLabel = sealedEntries.map(e => `${e.pack.name}×${e.count}`).join(' / ');
+            const pool = await createPool({
+                name: `${packLabel} シールド (${new Date().toLocaleString()})`,
+                source: 'sealed',
+                packIds: Array.from(new Set(sealedEntries.map(e => e.pack.packId))),
+                cards: result.cards,
+                seed,
+            });
+            setLastPoolId(pool.poolId);
+            console.log(`[useSealed:handleOpenSealed] ✅ Opened ${result.openedPackCount} packs into event pool ${pool.poolId} (seed: ${seed})`);
+        } catch (error) {
+            console.error('[useSealed:handleOpenSealed] ❌ Failed to open sealed pool:', error);
+            setActionError('シールドの開封中にエラーが発生しました。詳細はコンソールを確認してください。');
+        } finally {
+            setIsOpening(false);
+        }
+    }, [entries, boosterPacks, seedInput, createPool]);
+
+    const handleCreateDeckFromPool = useCallback(async (pool: EventPool) => {
+        try {
+            setActionError(null);
+            const savedDeck = await saveDeck(createDeckFromEventPool(pool));
+            navigate({ to: '/decks/$deckId', params: { deckId: savedDeck.deckId } });
+        } catch (error) {
+            console.error('[useSealed:handleCreateDeckFromPool] ❌ Failed to create deck from pool:', error);
+            setActionError('デッキの作成に失敗しました。');
+        }
+    }, [saveDeck, navigate]);
+
+    const handleDeletePool = useCallback(async (poolId: string) => {
+        if (!window.confirm('このイベントプールを削除しますか？')) return;
+        try {
+            setActionError(null);
+            await deletePool(poolId);
+            if (lastPoolId === poolId) setLastPoolId(null);
+        } catch (error) {
+            setActionError(error instanceof Error ? error.message : 'イベントプールの削除に失敗しました。');
+        }
+    }, [deletePool, lastPoolId]);
+
+    const handleMergePool = useCallback(async (pool: EventPool) => {
+        if (!isDTCGEnabled || pool.mergedAt) return;
+        if (!window.confirm(`イベントプール「${pool.name}」のカードを所持カードに追加しますか？\n（追加は1回のみ行えます）`)) return;
+
+        try {
+            setActionError(null);
+            // パックが削除されたなどで参照できないカードは追加しない
+            const cardsToAdd = pool.cards
+                .map(({ cardId, count }) => ({ cardId, count, packId: cardMap.get(cardId)?.packId }))
+                .filter((c): c is { cardId: string; count: number; packId: string } => !!c.packId && c.count > 0);
+
+            await addCards(cardsToAdd);
+            await markPoolMerged(pool.poolId);
+
+            const skipped = pool.cards.length - cardsToAdd.length;
+            if (skipped > 0) {
+                setWarnings([`${skipped} 種類のカードが見つからなかったため、所持カードに追加されませんでした。`]);
+            }
+            console.log(`[useSealed:handleMergePool] ✅ Merged ${cardsToAdd.length} card types from pool ${pool.poolId}`);
+        } catch (error) {
+            console.error('[useSealed:handleMergePool] ❌ Failed to merge pool:', error);
+            setActionError('所持カードへの追加に失敗しました。');
+        }
+    }, [isDTCGEnabled, cardMap, addCards, markPoolMerged]);
+
+    return {
+        // 設定
+        boosterPacks,
+        entries,
+        totalPackCount,
+        handleAddEntry,
+        handleEntryChange,
+        handleRemoveEntry,
+        seedInput,
+        setSeedInput,
+
+        // 開封
+        isOpening,
+        handleOpenSealed,
+        lastPool,
+        warnings,
+        getCard,
+
+        // イベントプール
+        pools,
+        isDTCGEnabled,
+        handleCreateDeckFromPool,
+        handleDeletePool,
+        handleMergePool,
+        actionError,
+    };
+};
@@ -7,7 +7,7 @@
  *
  * * 責務:
  * 1. クールダウン開始時刻 (`lastActionTimestamp`) と残り時間 (`secondsRemaining`) の状態を管理する。
- * 2. `startCooldown` 関数を提供し、タイマーの起動をトリガーする。
+ * 2. `startCooldown` 関数を提供し、タイマーの起動をトリガーする（秒数を指定して今回のみ長さを変更することも可能）。
  * 3. 実行時刻と現在の時刻の差分に基づき、残り時間を毎秒更新するロジックを実装する。
  * 4. タイマーが完了した時点でタイマーを停止する。
  */
@@ -16,21 +16,25 @@ import { useState, useEffect, useCallback } from 'react';
 /**
  * クールダウンタイマーを管理するカスタムフック
  * @param cooldownSeconds クールダウンが必要な秒数
- * @returns {secondsRemaining: number, startCooldown: () => void}
+ * @returns {secondsRemaining: number, startCooldown: (durationSeconds?: number) => void}
  */
 export const useCooldownTimer = (cooldownSeconds: number) => {
     // 最後にクールダウンを開始した時刻 (ミリ秒のタイムスタンプ)
     const [lastActionTimestamp, setLastActionTimestamp] = useState<number>(0);
+    // 今回のクールダウンの長さ (秒)
+    const [activeCooldownSeconds, setActiveCooldownSeconds] = useState<number>(cooldownSeconds);
     // 次のアクションまで待つ必要がある秒数
     const [secondsRemaining, setSecondsRemaining] = useState<number>(0);
 
 
     /**
      * クールダウンを開始する関数。現在の時刻をアクション時刻として記録する。
+     * @param durationSeconds 今回のクールダウンの秒数 (省略時は cooldownSeconds)
      */
-    const startCooldown = useCallback(() => {
+    const startCooldown = useCallback((durationSeconds?: number) => {
+        setActiveCooldownSeconds(durationSeconds ?? cooldownSeconds);
         setLastActionTimestamp(Date.now());
-    }, []);
+    }, [cooldownSeconds]);
 
     // タイマーのロジックを管理する useEffect
     useEffect(() => {
@@ -46,7 +50,7 @@ export const useCooldownTimer = (cooldownSeconds: number) => {
             const timeElapsed = Date.now() - lastActionTimestamp; // 経過時間 (ms)
 
             // 残り時間を計算 (秒単位で切り上げ、最小値は0)
-            const remainingTime = Math.max(0, cooldownSeconds - Math.ceil(timeElapsed / 1000));
+            const remainingTime = Math.max(0, activeCooldownSeconds - Math.ceil(timeElapsed / 1000));
 
             setSecondsRemaining(remainingTime);
 
@@ -61,7 +65,7 @@ export const useCooldownTimer = (cooldownSeconds: number) => {
 
         // クリーンアップ: 次の実行前、またはアンマウント時にタイマーを停止する
         return () => window.clearTimeout(timerId);
-    }, [lastActionTimestamp, cooldownSeconds]); // lastActionTimestampとcooldownSecondsの変更に反応
+    }, [lastActionTimestamp, activeCooldownSeconds]); // lastActionTimestampとactiveCooldownSecondsの変更に反応
 
     return {
         secondsRemaining,
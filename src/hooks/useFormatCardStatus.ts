@@ -0,0 +1,42 @@
+/**
+ * src/hooks/useFormatCardStatus.ts
+ *
+ * * 選択中のフォーマット（禁止・制限リスト）と判定日から、カードごとの規制区分の索引を提供するカスタムフック。
+ *
+ * * 責務:
+ * 1. FormatListStore の選択中のフォーマットと判定日を購読し、変化した場合のみ索引（getFormatCardStatusMap）を再作成する。
+ * 2. 同じフォーマット・判定日から作成した索引を共有し、カード1枚ごとに呼び出されても再作成しないようにする。
+ */
+import { useMemo } from 'react';
+import type { FormatList, FormatCardStatus } from '../models/models';
+import { useFormatListStore } from '../stores/formatListStore';
+import { getFormatCardStatusMap } from '../services/decks/formatLegality';
+
+// フォーマット（ストアのオブジェクトの参照）と判定日ごとの索引のキャッシュ
+const statusMapCache = new WeakMap<FormatList, Map<string, Map<string, FormatCardStatus>>>();
+const EMPTY_STATUS_MAP = new Map<string, FormatCardStatus>();
+
+const getStatusMap = (formatList: FormatList | undefined, referenceDate: string): Map<string, FormatCardStatus> => {
+    if (!formatList) return EMPTY_STATUS_MAP;
+    let byDate = statusMapCache.get(formatList);
+    if (!byDate) {
+        byDate = new Map();
+        statusMapCache.set(formatList, byDate);
+    }
+    let statusMap = byDate.get(referenceDate);
+    if (!statusMap) {
+        statusMap = getFormatCardStatusMap(formatList, referenceDate);
+        byDate.set(referenceDate, statusMap);
+    }
+    return statusMap;
+};
+
+/**
+ * 選択中のフォーマットにおける、カードIDごとの規制区分を取得するカスタムフック
+ * @returns カードIDから規制区分を引くためのMap（フォーマット未選択の場合は空）
+ */
+export const useFormatCardStatusMap = (): Map<string, FormatCardStatus> => {
+    const formatList = useFormatListStore(state => state.formatLists.find(f => f.formatId === state.selectedFormatId));
+    const referenceDate = useFormatListStore(state => state.referenceDate);
+    return useMemo(() => getStatusMap(formatList, referenceDate), [formatList, referenceDate]);
+};
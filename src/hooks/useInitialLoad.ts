@@ -20,6 +20,9 @@ import { useCardPoolStore } from '../stores/cardPoolStore';
 import { useUserDataStore } from '../stores/userDataStore';
 import { useCurrencyStore } from '../stores/currencyStore';
 import { useCardStore } from '../stores/cardStore';
+import { useBoxStore } from '../stores/boxStore';
+import { useDeckRuleStore } from '../stores/deckRuleStore';
+import { useFormatListStore } from '../stores/formatListStore';
 
 /**
  * アプリケーションの初期起動時に必要な全てのデータ（カードデータ、ストアデータ）をロードするフック
@@ -99,6 +102,9 @@ export const useInitialLoad = (): boolean => {
                 useCardPoolStore.getState().fetchCardPool(),
                 useCurrencyStore.getState().fetchCurrency(),
                 useCardStore.getState().fetchAllCards(),
+                useBoxStore.getState().fetchAllBoxes(),
+                useDeckRuleStore.getState().fetchAllRules(),
+                useFormatListStore.getState().fetchAllFormatLists(),
             ];
 
             try {
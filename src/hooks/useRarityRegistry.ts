@@ -0,0 +1,34 @@
+/**
+ * src/hooks/useRarityRegistry.ts
+ *
+ * * 読み込み済みのパックから、レアリティの表示設定（並び順・色・略称・開封演出）のレジストリを提供するカスタムフック。
+ *
+ * * 責務:
+ * 1. PackStore のパック一覧を購読し、パックが変化した場合のみレジストリ（createRarityRegistry）を再作成する。
+ * 2. 同じパック一覧から作成したレジストリを共有し、カード1枚ごとに呼び出されても再作成しないようにする。
+ */
+import { useMemo } from 'react';
+import type { Pack } from '../models/models';
+import { usePackStore } from '../stores/packStore';
+import { createRarityRegistry, type RarityRegistry } from '../services/packs/rarityRegistry';
+
+// パック一覧（ストアの配列の参照）ごとのレジストリのキャッシュ
+const registryCache = new WeakMap<Pack[], RarityRegistry>();
+
+const getRegistry = (packs: Pack[]): RarityRegistry => {
+    let registry = registryCache.get(packs);
+    if (!registry) {
+        registry = createRarityRegistry(packs);
+        registryCache.set(packs, registry);
+    }
+    return registry;
+};
+
+/**
+ * レアリティのレジストリを取得するカスタムフック
+ * @returns 読み込み済みの全パックから作成したレアリティのレジストリ
+ */
+export const useRarityRegistry = (): RarityRegistry => {
+    const packs = usePackStore(state => state.packs);
+    return useMemo(() => getRegistry(packs), [packs]);
+};
@@ -95,6 +95,11 @@ export const useSortFilter = <T>(
                 return filters.every(filter => {
                     const value = accessor(item, filter.field as SortField);
 
+                    // 完全一致指定 (select 型のフィールド)
+                    if (filter.isExactMatch) {
+                        return String(value ?? '') === String(filter.value);
+                    }
+
                     // テキストフィールド: 部分一致（大文字小文字区別なし）
                     if (typeof filter.value === 'string' && typeof value === 'string') {
                         // FilterField定義の caseSensitive はここでは考慮されない
@@ -0,0 +1,42 @@
+/**
+ * src/models/box.ts
+ *
+ * * ブースターパックを複数まとめた「ボックス」商品のデータ構造を定義するモデル層モジュール。
+ * ボックスは既存の Booster パックを参照し、パック数・価格に加えて、ボックス全体で適用される
+ * 封入保証（最低枚数）と封入上限（最大枚数）をレアリティ単位で保持します。
+ *
+ * * 責務:
+ * 1. ボックス単位の封入保証（BoxRarityGuarantee）と封入上限（BoxRarityCap）の構造を定義する。
+ * 2. ボックス本体のデータ構造（Box）を定義する。
+ */
+
+/**
+ * ボックス単位の封入保証。ボックス全体で、指定レアリティが最低 minCount 枚封入される。
+ * 例: 「24パック入り1ボックスにシークレットレア1枚確定」
+ */
+export interface BoxRarityGuarantee {
+    rarityName: string;
+    minCount: number;
+}
+
+/**
+ * ボックス単位の封入上限。ボックス全体で、指定レアリティは最大 maxCount 枚までしか封入されない。
+ * 例: 「1ボックスにスーパーレアは2枚まで」
+ */
+export interface BoxRarityCap {
+    rarityName: string;
+    maxCount: number;
+}
+
+export interface Box {
+    boxId: string;
+    name: string;
+    packId: string;             // 参照する Booster パックのID
+    packCount: number;          // 1ボックスあたりのパック数
+    price: number;              // ボックス価格
+    guarantees: BoxRarityGuarantee[];
+    caps: BoxRarityCap[];
+    description: string;
+    createdAt: string;
+    updatedAt: string;
+}
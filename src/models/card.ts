@@ -6,7 +6,7 @@
  * 個々のカードデータ（静的データ）と、汎用的な拡張フィールドを表現します。
  *
  * * 責務:
- * 1. カードの基本属性（ID、名前、画像、レアリティ、テキスト）を定義する。
+ * 1. カードの基本属性（ID、名前、画像、レアリティ、排出ウェイト、テキスト）を定義する。
  * 2. アプリケーションで共通して利用するメタ情報（お気に入りフラグ、作成/更新日時）を定義する。
  * 3. ユーザーやシステムが柔軟に利用できる汎用的なカスタムフィールド（num_X, str_X）を定義する。
  * 4. 検索効率を高めるための全文検索用フィールド（searchText）を定義する。
@@ -20,6 +20,7 @@ export interface Card {
     imageUrl: string; // カード画像の参照URL
     imageColor?: string; //プレースホルダーの色プリセットキー
     rarity: string; // 収録されているレアリティ名（Pack.rarityConfig.rarityNameに対応）
+    drawWeight?: number | null; // 同一レアリティ内での排出ウェイト（未設定時は1。0の場合は排出されない）
     text: string;
     subtext: string;
     isFavorite: boolean;
@@ -11,7 +11,7 @@
  * 3. データのキー（ID）やタイムスタンプなどの必須フィールドの型を明確にする。
  */
 
-import type { PackType, RarityConfig, AdvancedRarityConfig, ConstructedDeckCard, PackFieldSettings, CardFieldSettings } from "./pack";
+import type { PackType, RarityConfig, AdvancedRarityConfig, PackSlot, PityRule, DuplicatePolicy, RarityDefinition, ConstructedDeckCard, PackFieldSettings, CardFieldSettings } from "./pack";
 import type { DeckType, DeckFieldSettings } from "./deck";
 import type { ArchiveCollectionKey } from "./archive";
 
@@ -26,6 +26,7 @@ export interface DBCard {
     imageUrl: string;
     imageColor?: string;
     rarity: string;
+    drawWeight?: number | null;
     text: string;
     subtext: string;
     isFavorite: boolean;
@@ -64,6 +65,11 @@ export interface DBPack {
     advancedRarityConfig?: AdvancedRarityConfig[];
     specialProbabilitySlots: number;
     isAdvancedRulesEnabled: boolean;
+    slotLayout?: PackSlot[];
+    isSlotLayoutEnabled?: boolean;
+    pityRules?: PityRule[];
+    duplicatePolicy?: DuplicatePolicy;
+    rarityDefinitions?: RarityDefinition[];
     price: number;
     uniqueCards: number;
     totalCards?: number;
@@ -107,6 +113,7 @@ export interface DBDeck {
     isLegal: boolean;
     hasUnownedCards: boolean;
     isFavorite: boolean;
+    eventPoolId?: string;
     createdAt: string;
     updatedAt: string;
     // デッキに含まれるカードと枚数
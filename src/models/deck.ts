@@ -58,6 +58,8 @@ export interface Deck {
     isLegal: boolean;
     hasUnownedCards: boolean;
     isFavorite: boolean;
+    /** イベントプールから構築するデッキの場合、そのプールのID。構築に使えるカードはプールの内容に限定される */
+    eventPoolId?: string;
     createdAt: string;
     updatedAt: string;
     // デッキに含まれるカードと枚数
@@ -0,0 +1,113 @@
+/**
+ * src/models/deckRule.ts
+ *
+ * * デッキの構築ルール（レギュレーション）と、その判定結果のデータ構造を定義するモデル層モジュール。
+ * デッキは Deck.ruleId でルールを参照し、保存時の判定結果が Deck.isLegal に反映されます。
+ *
+ * * 責務:
+ * 1. デッキエリアごとの枚数範囲（DeckAreaSizeRange）と、カードのカスタムフィールドの集計条件（DeckFieldConstraint）を定義する。
+ * 2. 構築ルール本体（DeckRule）の構造を定義する（枚数範囲、同名・同一カードの上限、タグ・レアリティの許可/禁止、フィールド条件、参照するフォーマット）。
+ * 3. ルール違反（DeckRuleViolation）と判定結果（DeckLegalityResult）の構造を定義する。
+ */
+
+import type { DeckArea } from './deck';
+
+/**
+ * デッキエリアの枚数範囲。null の項目は制限なし。
+ */
+export interface DeckAreaSizeRange {
+    min: number | null;
+    max: number | null;
+}
+
+/** 集計条件で使用できるカードの数値カスタムフィールド */
+export type DeckFieldConstraintField = 'num_1' | 'num_2' | 'num_3' | 'num_4' | 'num_5' | 'num_6';
+export const DECK_FIELD_CONSTRAINT_FIELDS: DeckFieldConstraintField[] = ['num_1', 'num_2', 'num_3', 'num_4', 'num_5', 'num_6'];
+
+/** 集計方法（sum は枚数分を合計する） */
+export type DeckFieldAggregate = 'sum' | 'max' | 'min';
+export const DECK_FIELD_AGGREGATE_OPTIONS: DeckFieldAggregate[] = ['sum', 'max', 'min'];
+
+/** 比較方法 */
+export type DeckFieldOperator = 'lte' | 'gte';
+export const DECK_FIELD_OPERATOR_OPTIONS: DeckFieldOperator[] = ['lte', 'gte'];
+
+/**
+ * カードのカスタムフィールドの集計条件。
+ * 例: 「メインデッキの num_1 の合計 <= 40」
+ */
+export interface DeckFieldConstraint {
+    field: DeckFieldConstraintField;
+    /** 違反メッセージに表示するフィールド名（省略時は field） */
+    label?: string;
+    aggregate: DeckFieldAggregate;
+    operator: DeckFieldOperator;
+    value: number;
+    /** 集計対象のエリア（'all' はデッキ全体） */
+    area: DeckArea | 'all';
+}
+
+/**
+ * デッキの構築ルール。IndexedDB の deckRules テーブルに ruleId をキーとして保存される。
+ */
+export interface DeckRule {
+    ruleId: string;
+    name: string;
+    description: string;
+    /** エリアごとの枚数範囲 */
+    areaSizes: Record<DeckArea, DeckAreaSizeRange>;
+    /** 同一カード（cardId）の、全エリア合計の最大枚数。null は制限なし */
+    maxCopiesPerCard: number | null;
+    /** 同名カード（name が同じカード）の、全エリア合計の最大枚数。null は制限なし */
+    maxCopiesPerName: number | null;
+    /** 指定した場合、すべてのカードがいずれかのタグを持つ必要がある */
+    requiredTags: string[];
+    /** これらのタグを持つカードは使用できない */
+    forbiddenTags: string[];
+    /** 指定した場合、すべてのカードがいずれかのレアリティである必要がある */
+    requiredRarities: string[];
+    /** これらのレアリティのカードは使用できない */
+    forbiddenRarities: string[];
+    fieldConstraints: DeckFieldConstraint[];
+    /** 参照するフォーマット（禁止・制限リスト）。判定日時点で施行されているリストが適用される */
+    formatId?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/** ルール違反の種類 */
+export type DeckRuleViolationCode =
+    | 'ruleNotFound'
+    | 'areaSize'
+    | 'maxCopiesPerCard'
+    | 'maxCopiesPerName'
+    | 'requiredTag'
+    | 'forbiddenTag'
+    | 'requiredRarity'
+    | 'forbiddenRarity'
+    | 'fieldConstraint'
+    | 'formatNotFound'
+    | 'formatRestriction'
+    | 'unknownCard';
+
+/**
+ * ルール違反1件分
+ */
+export interface DeckRuleViolation {
+    code: DeckRuleViolationCode;
+    message: string;
+    /** 違反が特定のエリアに関するものである場合のエリア */
+    area?: DeckArea;
+    /** 違反の原因となったカード */
+    cardIds?: string[];
+}
+
+/**
+ * デッキのルール判定結果
+ */
+export interface DeckLegalityResult {
+    /** 判定に使用したルール（ルール未設定の場合は null） */
+    ruleId: string | null;
+    isLegal: boolean;
+    violations: DeckRuleViolation[];
+}
@@ -0,0 +1,43 @@
+/**
+ * src/models/eventPool.ts
+ *
+ * * リミテッド形式（ドラフト・シールドなど）のイベントで獲得したカードを保持する「イベントプール」のデータ構造を定義するモデル層モジュール。
+ * イベントプールはユーザーの所持カード（cardPool）とは独立しており、イベントのデッキ構築用の一時的なプールとして扱います。
+ *
+ * * 責務:
+ * 1. イベントプールの獲得方法（EventPoolSource）を定義する。
+ * 2. イベントプール本体（EventPool）と、収録カード・枚数（EventPoolCard）の構造を定義する。
+ */
+
+/**
+ * イベントプールの獲得方法
+ * - draft: ブースタードラフト
+ * - sealed: シールド（複数のパックを開封したカードでデッキを構築する）
+ */
+export type EventPoolSource = 'draft' | 'sealed';
+
+/**
+ * イベントプールに含まれる1種類分のカード
+ */
+export interface EventPoolCard {
+    cardId: string;
+    count: number;
+}
+
+/**
+ * イベントプール。IndexedDB の eventPools テーブルに poolId をキーとして保存される。
+ */
+export interface EventPool {
+    poolId: string;
+    name: string;
+    source: EventPoolSource;
+    /** プールの元になったパックID */
+    packIds: string[];
+    /** 獲得したカード（ドラフトの場合はピック順に初出のカードが先頭） */
+    cards: EventPoolCard[];
+    /** イベントの再現に使用したシード値 */
+    seed?: number;
+    createdAt: string;
+    /** プールのカードを所持カード（cardPool）に追加した日時。未追加の場合は undefined */
+    mergedAt?: string;
+}
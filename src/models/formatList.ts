@@ -0,0 +1,60 @@
+/**
+ * src/models/formatList.ts
+ *
+ * * フォーマット（禁止・制限リスト）のデータ構造を定義するモデル層モジュール。
+ * 1つのフォーマットは施行日つきのバージョンを複数持ち、判定日時点で施行されている最新のバージョンが適用されます。
+ * 構築ルール（DeckRule.formatId）から参照され、デッキの判定に使用されます。
+ *
+ * * 責務:
+ * 1. カードの規制区分（FormatCardStatus）と、区分ごとの使用可能枚数を定義する。
+ * 2. 施行日つきのバージョン（FormatListVersion）と、フォーマット本体（FormatList）の構造を定義する。
+ */
+
+/**
+ * カードの規制区分
+ * - banned: 禁止 (0枚)
+ * - limited1 / limited2 / limited3: 制限 (1〜3枚まで)
+ */
+export type FormatCardStatus = 'banned' | 'limited1' | 'limited2' | 'limited3';
+export const FORMAT_CARD_STATUS_OPTIONS: FormatCardStatus[] = ['banned', 'limited1', 'limited2', 'limited3'];
+
+/** 規制区分ごとの、デッキ全体（全エリア合計）で使用できる最大枚数 */
+export const FORMAT_CARD_STATUS_MAX_COPIES: Record<FormatCardStatus, number> = {
+    banned: 0,
+    limited1: 1,
+    limited2: 2,
+    limited3: 3,
+};
+
+/**
+ * 規制対象のカード1件分
+ */
+export interface FormatCardEntry {
+    cardId: string;
+    status: FormatCardStatus;
+}
+
+/**
+ * 施行日つきの禁止・制限リスト
+ */
+export interface FormatListVersion {
+    versionId: string;
+    /** 施行日 (YYYY-MM-DD)。この日以降の判定に適用される */
+    effectiveDate: string;
+    /** 改定内容のメモ */
+    note: string;
+    entries: FormatCardEntry[];
+}
+
+/**
+ * フォーマット。IndexedDB の formatLists テーブルに formatId をキーとして保存される。
+ */
+export interface FormatList {
+    formatId: string;
+    name: string;
+    description: string;
+    /** 施行日の昇順 */
+    versions: FormatListVersion[];
+    createdAt: string;
+    updatedAt: string;
+}
@@ -118,6 +118,10 @@ export interface CardDisplayOptions {
     keycardRank?: boolean;
     /** 所持枚数が0の時にグレースケール化 */
     grayscaleWhenZero?: boolean;
+    /** レアリティのバッジ（レジストリの略称・色）を表示 */
+    rarityBadge?: boolean;
+    /** 選択中のフォーマットにおける規制区分（禁止・制限）のバッジを表示 */
+    formatStatusBadge?: boolean;
 }
 
 /**
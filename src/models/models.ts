@@ -12,8 +12,14 @@
 
 export * from './card';
 export * from './deck';
+export * from './deckRule';
+export * from './formatList';
 export * from './pack';
 export * from './packOpener';
+export * from './box';
+export * from './pity';
+export * from './openingHistory';
+export * from './eventPool';
 export * from './archive';
 export * from './preset';
 export * from './userData';
@@ -0,0 +1,44 @@
+/**
+ * src/models/openingHistory.ts
+ *
+ * * パック開封履歴（OpeningRecord）のデータ構造を定義するモデル層モジュール。
+ * 開封結果（lastOpenedResults）は次の開封で置き換えられるため、開封のたびに記録を IndexedDB に永続化し、
+ * 履歴ページでの統計（実測と設定の比較、運の指標など）に利用します。
+ *
+ * * 責務:
+ * 1. 1回の開封（単品・一括・ボックス）の記録（OpeningRecord）の構造を定義する。
+ * 2. 記録に含める開封結果（カードID・枚数・開封時点のレアリティ）の構造（OpeningRecordResult）を定義する。
+ */
+
+import type { CurrentGameMode } from './userData';
+
+/**
+ * 開封記録に含める1種類分の結果。
+ * カードが後から編集・削除されても統計を再現できるよう、開封時点のレアリティを保持する。
+ */
+export interface OpeningRecordResult {
+    cardId: string;
+    count: number;
+    rarity: string;
+}
+
+/**
+ * 1回の開封の記録。IndexedDB の openingHistory テーブルに recordId をキーとして保存される。
+ */
+export interface OpeningRecord {
+    recordId: string;
+    packId: string;
+    /** 開封時点のパック名（パック削除後の表示用） */
+    packName: string;
+    /** ボックス開封の場合のボックスID */
+    boxId?: string;
+    openedAt: string;
+    mode: CurrentGameMode;
+    /** 消費したコイン (DTCGモード以外は0) */
+    coinsSpent: number;
+    /** この記録に含まれるパック数 (単品: 1, 一括/ボックス: N) */
+    packCount: number;
+    seed?: number;
+    results: OpeningRecordResult[];
+    simulationWarning: string | null;
+}
@@ -7,10 +7,11 @@
  *
  * * 責務:
  * 1. パックの構成タイプ（PackType）と、その選択肢リストを定義する。
- * 2. 封入確率に関する設定構造（RarityConfig, AdvancedRarityConfig）を定義する。
- * 3. パックおよび収録カードのカスタムフィールド設定構造（PackFieldSettings, CardFieldSettings）を定義する。
- * 4. パック本体のデータ構造（Pack）を定義する。
- * 5. パックデータとその収録カードをバンドルした構造（PackBundle）を定義する。
+ * 2. 封入確率に関する設定構造（RarityConfig, AdvancedRarityConfig, PackSlot, PityRule, DuplicatePolicy）を定義する。
+ * 3. レアリティの表示設定（並び順・色・略称・開封演出）の構造（RarityDefinition, RarityRevealTier）を定義する。
+ * 4. パックおよび収録カードのカスタムフィールド設定構造（PackFieldSettings, CardFieldSettings）を定義する。
+ * 5. パック本体のデータ構造（Pack）を定義する。
+ * 6. パックデータとその収録カードをバンドルした構造（PackBundle）を定義する。
  */
 
 import type { Card } from "./card";
@@ -49,6 +50,108 @@ export interface AdvancedRarityConfig {
     fixedValue: number;
 }
 
+/**
+ * スロットの抽選テーブルにおける、レアリティごとの重み（相対値。合計が1である必要はない）
+ */
+export interface SlotRarityWeight {
+    rarityName: string;
+    weight: number;
+}
+
+/**
+ * スロットのカード絞り込みで参照するカードのフィールド
+ */
+export type SlotCardFilterField = 'name' | 'tag' | 'text' | 'subtext' | 'str_1' | 'str_2' | 'str_3' | 'str_4' | 'str_5' | 'str_6';
+
+/**
+ * スロットのカード絞り込みフィールド (SlotCardFilterField) の選択肢リスト
+ */
+export const SLOT_CARD_FILTER_FIELD_OPTIONS: SlotCardFilterField[] = [
+    'name', 'tag', 'text', 'subtext', 'str_1', 'str_2', 'str_3', 'str_4', 'str_5', 'str_6',
+];
+
+/**
+ * スロットのカード絞り込み条件。
+ * tag は完全一致、それ以外のフィールドは部分一致（大文字小文字を区別しない）で判定する。
+ */
+export interface SlotCardFilter {
+    field: SlotCardFilterField;
+    value: string;
+}
+
+/**
+ * スロット構成（slotLayout）の1枠分の設定。
+ * 枠ごとに重み付きのレアリティ抽選テーブルを持ち、任意でカードの絞り込み条件を指定できる。
+ */
+export interface PackSlot {
+    /** 表示用のラベル (例: "レア枠") */
+    label: string;
+    rarityWeights: SlotRarityWeight[];
+    cardFilter?: SlotCardFilter;
+}
+
+/**
+ * 天井（ピティ）ルール。
+ * 指定レアリティが直近 threshold 回の開封で一度も出なかった場合、次の開封で1枠がそのレアリティに昇格する。
+ * (DTCGモードでのみ適用される)
+ */
+export interface PityRule {
+    rarityName: string;
+    /** 天井までの開封回数 (1以上の整数) */
+    threshold: number;
+}
+
+/**
+ * 1パック内での同一カードの重複制御モード。
+ * - allow: 重複を許可する (既定)
+ * - forbid: すべてのレアリティで重複を禁止する
+ * - forbidAboveRarity: 基準レアリティより上位のレアリティでのみ重複を禁止する
+ */
+export type DuplicatePolicyMode = 'allow' | 'forbid' | 'forbidAboveRarity';
+
+/**
+ * 重複制御モード (DuplicatePolicyMode) の選択肢リスト
+ */
+export const DUPLICATE_POLICY_MODE_OPTIONS: DuplicatePolicyMode[] = ['allow', 'forbid', 'forbidAboveRarity'];
+
+/**
+ * 1パック内での重複制御ポリシー。
+ * レアリティの上下関係は、パックの封入設定におけるレアリティの並び順（上から下へ低→高）で判定する。
+ */
+export interface DuplicatePolicy {
+    mode: DuplicatePolicyMode;
+    /** mode が 'forbidAboveRarity' の場合の基準レアリティ（このレアリティ以下は重複を許可） */
+    rarityName?: string;
+}
+
+/**
+ * 開封時の演出の段階。
+ * - none: 演出なし
+ * - glow: レアリティの色で発光する
+ * - holo: ホログラムのような光沢を重ねる（最上位レアリティ向け）
+ */
+export type RarityRevealTier = 'none' | 'glow' | 'holo';
+
+/**
+ * 開封演出の段階 (RarityRevealTier) の選択肢リスト
+ */
+export const RARITY_REVEAL_TIER_OPTIONS: RarityRevealTier[] = ['none', 'glow', 'holo'];
+
+/**
+ * レアリティ1種類分の表示設定。
+ * 並び替え・バッジ表示・絞り込み・開封演出で参照する（未設定の項目は封入設定の並び順から既定値を補う）。
+ */
+export interface RarityDefinition {
+    rarityName: string;
+    /** 表示順位（大きいほど上位） */
+    rank: number;
+    /** バッジ・演出に使用する色 (例: "#1e88e5") */
+    color: string;
+    /** バッジに表示する略称 */
+    abbreviation: string;
+    revealTier: RarityRevealTier;
+}
+
 
 /** パックのカスタムフィールドの表示設定を定義する型 */
 export interface PackFieldSettings {
@@ -107,6 +210,13 @@ export interface Pack {
     advancedRarityConfig?: AdvancedRarityConfig[];
     specialProbabilitySlots: number;
     isAdvancedRulesEnabled: boolean;
+    /** スロット構成（先頭から順に1枠ずつ抽選する）。isSlotLayoutEnabled が true の場合、Advanced/Classic の設定より優先される */
+    slotLayout?: PackSlot[];
+    isSlotLayoutEnabled?: boolean;
+    pityRules?: PityRule[];
+    duplicatePolicy?: DuplicatePolicy;
+    /** レアリティの表示設定。未設定のレアリティは封入設定の並び順から既定値を補う */
+    rarityDefinitions?: RarityDefinition[];
 
     constructedDeckCards?: ConstructedDeckCard[];
     
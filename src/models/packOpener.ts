@@ -9,8 +9,12 @@
  * 1. 開封されたカードのアニメーション表示に必要なデータ構造（OpenerCardData）を定義する。
  * 2. 開封シミュレーションの結果と警告情報を格納する構造（SimulationResult）を定義する。
  * 3. 開封履歴や状態管理に必要な結果の構造（OpenedResultState）を定義する。
+ * 4. 複数パックの一括開封結果の集計構造（BulkOpenSummary）を定義する。
+ * 5. 開封結果のめくり方（PackRevealMode）と、その選択肢リストを定義する。
  */
 
+import type { RarityRevealTier } from './pack';
+
 /**
  * PackOpenerAnimation および OpenerCard が使用する、
  * 開封されたカードのアニメーション表示用データ構造。
@@ -23,16 +27,58 @@ export interface OpenerCardData {
     rarity: string;
     imageColor?: string;
     cardBackImageUrl?: string;
+    /** レアリティの色（レジストリから解決。バッジと発光演出に使用） */
+    rarityColor?: string;
+    /** レアリティの略称（レジストリから解決） */
+    rarityAbbreviation?: string;
+    /** 表向きにしたときの演出の段階（レジストリから解決） */
+    revealTier?: RarityRevealTier;
+    /** レアリティの表示順位（レジストリから解決。ヒット演出の判定と、昇順めくりの並び替えに使用） */
+    rarityRank?: number;
 }
 
+/**
+ * 開封結果のめくり方。
+ * - flipAll: すべてのカードを順にまとめてめくる (既定)
+ * - ascending: レアリティの低い順に1枚ずつめくる (最上位のカードが最後)
+ * - tapEach: カードをタップして1枚ずつめくる
+ * - skip: 演出を省略して結果を表示する
+ */
+export type PackRevealMode = 'flipAll' | 'ascending' | 'tapEach' | 'skip';
+
+/**
+ * 開封結果のめくり方 (PackRevealMode) の選択肢リスト
+ */
+export const PACK_REVEAL_MODE_OPTIONS: PackRevealMode[] = ['flipAll', 'ascending', 'tapEach', 'skip'];
+
 // 警告ロジック対応のため、新しいシミュレーション結果の型を定義
 export interface SimulationResult {
     results: { cardId: string, count: number }[];
     simulationWarning: string | null;
+    seed: number; // 抽選に使用したシード値（同じシードで結果を再現できる）
+    pityCounters?: Record<string, number>; // 天井適用時: 開封後のレアリティごとの未出現回数
+    pityTriggeredRarities?: string[];      // 天井適用時: この開封で天井により昇格したレアリティ
+    initialPityCounters?: Record<string, number>; // 天井適用時: 開封前のレアリティごとの未出現回数 (開封の再現に使用)
 }
 
 // lastOpenedResults の型定義にユニークIDを含める
 export interface OpenedResultState {
     id: string;
     results: { cardId: string, count: number }[];
-}
\ No newline at end of file
+    packId?: string; // 開封したパックのID（初期表示・リセット時は未設定）
+    seed?: number;   // 抽選に使用したシード値。packId と合わせて開封を再現できる
+    boxId?: string;  // ボックス開封の場合のボックスID
+    pityCounters?: Record<string, number>; // 天井を適用した場合の開封前の天井カウンター (seed と合わせて開封を再現できる)
+    isReplay?: boolean; // 開封の再現結果の場合は true (カードプールには追加していない)
+}
+
+// 複数パックを一括開封した結果の集計
+export interface BulkOpenSummary {
+    id: string;
+    packId: string;
+    packCount: number;   // 開封したパック数
+    totalCost: number;   // 消費したコイン (DTCGモード以外は0)
+    results: { cardId: string, count: number }[]; // 全パック分をカードIDごとに集計した結果
+    newCardIds: string[]; // 開封前に所持していなかったカードのID
+    seed: number;        // 一括開封の基準シード値 (i番目のパックは seed + i で抽選)
+}
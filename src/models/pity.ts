@@ -0,0 +1,20 @@
+/**
+ * src/models/pity.ts
+ *
+ * * パックごとの天井（ピティ）カウンターのデータ構造を定義するモデル層モジュール。
+ * 天井ルール自体（PityRule）はパックの封入設定として pack.ts に定義され、
+ * ここではルールの進捗（レアリティごとの未出現回数）の永続化形式のみを扱います。
+ *
+ * * 責務:
+ * 1. パック単位の天井カウンター（PackPityState）の構造を定義する。
+ */
+
+/**
+ * パック単位の天井カウンター。IndexedDB の pityCounters テーブルに packId をキーとして保存される。
+ */
+export interface PackPityState {
+    packId: string;
+    /** レアリティ名 -> 直近でそのレアリティが出てから（出ていない）連続開封回数 */
+    counters: Record<string, number>;
+    updatedAt: string;
+}
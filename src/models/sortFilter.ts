@@ -25,6 +25,8 @@ export interface FilterCondition {
     // NOTE: number 型の範囲検索 ("10-20") は useSortFilter 側で文字列として扱うため、
     // ここでは string | number | boolean の union 型とする。
     value: string | number | boolean; 
+    /** true の場合、文字列も完全一致で判定する（select 型のフィールドで使用） */
+    isExactMatch?: boolean;
 }
 
 /**
@@ -8,7 +8,7 @@
  * * 責務:
  * 1. 現在のゲームモードの型（CurrentGameMode）を定義する。
  * 2. アーカイブ機能のGC設定構造（GCSetting, ItemGcSettings）を定義する。
- * 3. グリッド表示のコンポーネント別ユーザーデフォルト設定構造（GridDisplayDefault）を定義する。
+ * 3. グリッド表示のコンポーネント別ユーザーデフォルト設定構造（GridDisplayDefault）と、パック開封画面の設定構造（PackOpenerSettings）を定義する。
  * 4. DBに保存するユーザー設定の最終的な型（PersistedUserSettings）を定義する。
  * 5. ユーザーデータの状態管理が使用する型（UserDataState）を定義する。
  */
@@ -17,6 +17,7 @@
 export type CurrentGameMode = 'dtcg' | 'free' | 'god';
 
 import type { GridBreakpoints } from './grid';
+import type { PackRevealMode } from './packOpener';
 
 
 // ----------------------------------------------------
@@ -67,6 +68,17 @@ export interface GridDisplayDefault {
 }
 
 
+/**
+ * パック開封画面のユーザー設定
+ */
+export interface PackOpenerSettings {
+    /** 最後に使用したカードのめくり方 */
+    revealMode: PackRevealMode;
+    /** ヒット演出の対象とするレアリティの表示順位の下限 (この順位以上がヒット。null の場合は演出なし) */
+    hitRarityRank: number | null;
+}
+
+
 // ----------------------------------------------------
 // サービスから移動: 永続化するユーザーデータの最終的な型
 // ----------------------------------------------------
@@ -84,6 +96,8 @@ export interface PersistedUserSettings {
     gridSettings: {
         cardPool: GridDisplayDefault;
     };
+
+    packOpenerSettings: PackOpenerSettings;
 }
 
 // ----------------------------------------------------
@@ -103,4 +117,7 @@ export interface UserDataState {
         /** カードプール表示に関するユーザーデフォルト設定 (Component-specific) */
         cardPool: GridDisplayDefault;
     };
+
+    /** パック開封画面の設定 (めくり方・ヒット演出) */
+    packOpenerSettings: PackOpenerSettings;
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+/**
+ * src/pages/DraftPage.tsx
+ *
+ * * ブースタードラフトのページコンポーネント。
+ * 実際のUI表示とロジックは機能コンポーネント（Draft）に委譲します。
+ *
+ * * 責務:
+ * 1. ブースタードラフト機能を提供するコンポーネント（Draft）を埋め込む。
+ */
+import React from 'react';
+import Draft from '../features/draft/Draft';
+
+const DraftPage: React.FC = () => {
+    return <Draft />;
+};
+
+export default DraftPage;
@@ -0,0 +1,17 @@
+/**
+ * src/pages/FormatListPage.tsx
+ *
+ * * フォーマット（禁止・制限リスト）の管理ページコンポーネント。
+ * 実際のUI表示とロジックは機能コンポーネント（FormatListEditor）に委譲します。
+ *
+ * * 責務:
+ * 1. フォーマットの管理機能を提供するコンポーネント（FormatListEditor）を埋め込む。
+ */
+import React from 'react';
+import FormatListEditor from '../features/formats/FormatListEditor';
+
+const FormatListPage: React.FC = () => {
+    return <FormatListEditor />;
+};
+
+export default FormatListPage;
@@ -0,0 +1,17 @@
+/**
+ * src/pages/OpeningHistoryPage.tsx
+ *
+ * * パック開封履歴のページコンポーネント。
+ * 実際のUI表示とロジックは機能コンポーネント（OpeningHistory）に委譲します。
+ *
+ * * 責務:
+ * 1. 開封履歴機能を提供するコンポーネント（OpeningHistory）を埋め込む。
+ */
+import React from 'react';
+import OpeningHistory from '../features/opening-history/OpeningHistory';
+
+const OpeningHistoryPage: React.FC = () => {
+    return <OpeningHistory />;
+};
+
+export default OpeningHistoryPage;
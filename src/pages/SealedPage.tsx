@@ -0,0 +1,17 @@
+/**
+ * src/pages/SealedPage.tsx
+ *
+ * * シールドのページコンポーネント。
+ * 実際のUI表示とロジックは機能コンポーネント（Sealed）に委譲します。
+ *
+ * * 責務:
+ * 1. シールド機能を提供するコンポーネント（Sealed）を埋め込む。
+ */
+import React from 'react';
+import Sealed from '../features/sealed/Sealed';
+
+const SealedPage: React.FC = () => {
+    return <Sealed />;
+};
+
+export default SealedPage;
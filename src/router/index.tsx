@@ -2,7 +2,7 @@
  * src/router/index.tsx
  *
  * * TanStack Routerを使用したアプリケーションのメインルーティング設定ファイル。
- * RootLayout（MainLayout）を基盤とし、アプリケーションの主要なリソース（/packs, /decks, /pool）および機能（/open, /archive）を
+ * RootLayout（MainLayout）を基盤とし、アプリケーションの主要なリソース（/packs, /decks, /formats, /pool）および機能（/open, /open/history, /open/draft, /open/sealed, /archive）を
  * ルート直下に配置したルートツリーを構成します。
  * 各ルートでは、対応するページコンポーネントを割り当て、ルーティング時のパラメータやクエリの型定義を行います。
  *
@@ -22,8 +22,12 @@ import PackListPage from '../pages/PackListPage';
 import PackEditorPage from '../pages/PackEditorPage';
 import CardPoolPage from '../pages/CardPoolPage';
 import PackOpenerPage from '../pages/PackOpenerPage';
+import OpeningHistoryPage from '../pages/OpeningHistoryPage';
+import DraftPage from '../pages/DraftPage';
+import SealedPage from '../pages/SealedPage';
 import DeckListPage from '../pages/DeckListPage';
 import DeckEditorPage from '../pages/DeckEditorPage';
+import FormatListPage from '../pages/FormatListPage';
 import ArchivePage from '../pages/ArchivePage';
 import ArchivePackDetailPage from '../pages/ArchivePackDetailPage';
 import ArchiveDeckDetailPage from '../pages/ArchiveDeckDetailPage';
@@ -69,6 +73,13 @@ const deckEditorRoute = new Route({
     component: DeckEditorPage,
 });
 
+// フォーマット（禁止・制限リスト）管理ルート
+const formatListRoute = new Route({
+    getParentRoute: () => rootRoute,
+    path: 'formats', // /formats
+    component: FormatListPage,
+});
+
 // 5. ユーザー機能・資産管理ルート群 (ルート直下)
 interface OpenSearchParams { packId?: string; }
 const cardPoolRoute = new Route({
@@ -85,6 +96,27 @@ const packOpenerRoute = new Route({
     validateSearch: (search: Record<string, unknown>): OpenSearchParams => ({ packId: search.packId as string | undefined }),
 });
 
+// 開封履歴ルート (開封とは並列)
+const openingHistoryRoute = new Route({
+    getParentRoute: () => rootRoute,
+    path: 'open/history', // /open/history
+    component: OpeningHistoryPage,
+});
+
+// ブースタードラフトルート (開封とは並列)
+const draftRoute = new Route({
+    getParentRoute: () => rootRoute,
+    path: 'open/draft', // /open/draft
+    component: DraftPage,
+});
+
+// シールドルート (開封とは並列)
+const sealedRoute = new Route({
+    getParentRoute: () => rootRoute,
+    path: 'open/sealed', // /open/sealed
+    component: SealedPage,
+});
+
 // 6. アーカイブ管理ルート (新規追加)
 const archiveRoute = new Route({
     getParentRoute: () => rootRoute,
@@ -119,10 +151,14 @@ const routeTree = rootRoute.addChildren([
     // デッキ管理
     deckListRoute,
     deckEditorRoute,
+    formatListRoute,
 
     // 機能・資産管理
     cardPoolRoute,
     packOpenerRoute,
+    openingHistoryRoute,
+    draftRoute,
+    sealedRoute,
 
     // アーカイブ
     archiveRoute,
@@ -0,0 +1,105 @@
+/**
+ * src/services/boxes/boxService.ts
+ *
+ * * Box（ボックス商品）データのデータベースアクセスとローカルキャッシュ管理を担うサービス層モジュール。
+ * * 責務:
+ * 1. Box の CRUD 操作を担う（バルク操作に統一）。
+ * 2. メインコレクション（'boxes'）において Box のローカルキャッシュ（_boxCache）を管理する。
+ * 3. DB操作のロギングとエラーハンドリングを行う。
+ */
+import type { Box } from '../../models/models';
+import {
+    fetchAllItemsFromCollection,
+    bulkPutItemsToCollection,
+    bulkDeleteItemsFromCollection,
+} from '../database/dbCore';
+
+let _boxCache: Map<string, Box> | null = null;
+
+export type CollectionKey = 'boxes';
+
+// Box は DB レコードとドメインモデルが同一構造のため、そのまま返す
+const toBox = (record: Box): Box => record;
+
+
+export const boxService = {
+
+    // ----------------------------------------
+    // Cache Load / Read (キャッシュ/DBからの取得)
+    // ----------------------------------------
+
+    getAllBoxesFromCache(): Box[] {
+        return _boxCache ? Array.from(_boxCache.values()) : [];
+    },
+
+    getBoxByIdFromCache(boxId: string): Box | undefined {
+        return _boxCache?.get(boxId);
+    },
+
+    /**
+     * メインコレクション（'boxes'）から全ての Box データを取得します。
+     */
+    async fetchAllBoxes(): Promise<Box[]> {
+        const collectionKey: CollectionKey = 'boxes';
+
+        if (_boxCache) {
+            console.log(`[BoxService:fetchAllBoxes] ✅ Cache hit (all boxes).`);
+            return this.getAllBoxesFromCache();
+        }
+
+        try {
+            const boxes = await fetchAllItemsFromCollection<Box, Box>(collectionKey, toBox);
+            _boxCache = new Map(boxes.map(b => [b.boxId, b]));
+            console.log(`[BoxService:fetchAllBoxes] ✅ Loaded ${boxes.length} boxes from ${collectionKey}.`);
+            return boxes;
+        } catch (error) {
+            console.error(`[BoxService:fetchAllBoxes] ❌ Failed to fetch from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    // ----------------------------------------
+    // CRUD (保存・削除 - バルク対応)
+    // ----------------------------------------
+
+    /**
+     * Box[] をメインコレクション（'boxes'）に保存します。（バルク処理）
+     */
+    async saveBoxes(itemsToSave: Box[]): Promise<Box[]> {
+        if (itemsToSave.length === 0) return [];
+
+        const collectionKey: CollectionKey = 'boxes';
+        console.log(`[BoxService:saveBoxes] 💾 Saving ${itemsToSave.length} boxes to ${collectionKey}...`);
+
+        try {
+            await bulkPutItemsToCollection<Box>(collectionKey, itemsToSave);
+            itemsToSave.forEach(box => _boxCache?.set(box.boxId, box));
+
+            console.log(`[BoxService:saveBoxes] ✅ Successfully saved ${itemsToSave.length} boxes.`);
+            return itemsToSave;
+        } catch (error) {
+            console.error(`[BoxService:saveBoxes] ❌ Failed to save boxes to ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * Box IDを指定して Box データを物理削除します。（バルク対応）
+     * @param ids - Box IDの配列。
+     */
+    async deleteBoxes(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        const collectionKey: CollectionKey = 'boxes';
+        console.log(`[BoxService:deleteBoxes] 🗑️ Deleting ${ids.length} boxes from ${collectionKey}.`);
+
+        try {
+            await bulkDeleteItemsFromCollection(collectionKey, ids);
+            ids.forEach(id => _boxCache?.delete(id));
+            console.log(`[BoxService:deleteBoxes] ✅ Deleted ${ids.length} boxes.`);
+        } catch (error) {
+            console.error(`[BoxService:deleteBoxes] ❌ Failed to delete from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+};
@@ -6,7 +6,7 @@
  * 1. CSVテキストをパースし、Cardオブジェクトの配列に変換する（インポート）。
  * 2. Cardオブジェクトの配列をCSVテキストにフォーマットする（エクスポート）。
  * 3. CSVヘッダーの検証（予約済みシステムフィールドの禁止、固定/カスタムフィールドの識別）。
- * 4. CSV値からCardオブジェクトの型への変換とマッピング（パイプ区切り値の展開、数値/ブーリアンの型変換）。
+ * 4. CSV値からCardオブジェクトの型への変換とマッピング（パイプ区切り値の展開、数値/ブーリアンの型変換、排出ウェイトの正規化）。
  * 5. Card IDの生成、packIdの割り当て、およびデフォルト値の設定（createDefaultCardの利用）。
  * 6. ユーザーフレンドリー名ではなく、Cardオブジェクトの物理フィールド名（name, rarity, bool_1, num_1など）で処理を統一する。
  */
@@ -14,7 +14,7 @@
 import type { Card } from '../../models/models';
 import { formatCardsToCsv } from '../../utils/csvFormatter';
 import { parseCSV } from '../../utils/csvParser';
-import { generateId, createDefaultCard } from '../../utils/dataUtils';
+import { generateId, createDefaultCard, parseCardDrawWeight } from '../../utils/dataUtils';
 import type { CustomFieldDefinition } from './dataIOUtils'; // 互換性のため残す
 
 type CsvCustomFieldType = 'bool' | 'num' | 'str';
@@ -31,6 +31,7 @@ const FIXED_FIELDS_LOWER: string[] = [
     'number',
     'isfavorite',
     'imagecolor',
+    'drawweight',
 ];
 
 // システム予約語 (CSVで値を設定すべきでないフィールド)
@@ -106,7 +107,8 @@ export const importCardsFromCsv = async (
                 lowerCaseHeader === 'imageurl' ? 'imageUrl' :
                     lowerCaseHeader === 'isfavorite' ? 'isFavorite' :
                         lowerCaseHeader === 'imagecolor' ? 'imageColor' :
-                            lowerCaseHeader;
+                            lowerCaseHeader === 'drawweight' ? 'drawWeight' :
+                                lowerCaseHeader;
 
             fixedHeaderIndices[fieldName] = index;
             return;
@@ -147,6 +149,7 @@ export const importCardsFromCsv = async (
         const numberIndex = fixedHeaderIndices['number'];
         const isFavoriteIndex = fixedHeaderIndices['isFavorite'];
         const imageColorIndex = fixedHeaderIndices['imageColor'];
+        const drawWeightIndex = fixedHeaderIndices['drawWeight'];
 
         const rawCardName = nameIndex !== undefined ? row[nameIndex] : '';
         const rawRarity = rarityIndex !== undefined ? row[rarityIndex] : '';
@@ -177,6 +180,9 @@ export const importCardsFromCsv = async (
             }
         }
 
+        // 排出ウェイト: 空欄・不正値は未設定 (既定値1) として扱う
+        const baseDrawWeight = drawWeightIndex !== undefined ? parseCardDrawWeight(row[drawWeightIndex]) : null;
+
         const cardCountInRow = Math.max(cardNames.length, cardRarities.length, 1);
 
         for (let i = 0; i < cardCountInRow; i++) {
@@ -193,6 +199,7 @@ export const importCardsFromCsv = async (
             newCard.imageColor = cardImageColor;
             newCard.isFavorite = baseIsFavorite;
             newCard.number = baseCardNumber;
+            if (baseDrawWeight !== null) newCard.drawWeight = baseDrawWeight;
             newCard.updatedAt = new Date().toISOString();
             newCard.createdAt = newCard.createdAt || newCard.updatedAt;
 
@@ -0,0 +1,345 @@
+/**
+ * src/services/data-io/deckTextIO.ts
+ *
+ * * デッキをテキスト形式のデッキリスト（"3 カード名" の行をエリアの見出しでまとめた形式）と相互に変換するI/Oサービス層モジュール。
+ * * JSON（deckJsonIO）と異なり内部の cardId を含まないため、人が読んだりチャットに貼り付けたりできる。
+ * * 責務:
+ * 1. デッキをテキスト形式にエクスポートする（デッキ名は "// Deck: デッキ名" の行とし、同名のカードが複数ある場合は、
+ *    カード番号 "#番号" を付けて区別する。カード番号でも区別できない場合は、収録パック "@パック名" を付ける）。
+ * 2. テキストを行ごとに解析し、デッキ名・エリアの見出し（Main/Side/Extra、メイン/サイド/エクストラ）・枚数・カード名・カード番号・収録パックを取り出す。
+ * 3. カード名をカードに解決する（全パック、または指定したパックを対象とし、カード番号と収録パックで絞り込む）。
+ * 4. 解決できない行・候補が複数ある行・書式が正しくない行を、ユーザーが修正できるように報告する。
+ */
+
+import type { Card, Deck, DeckArea, Pack } from '../../models/models';
+
+// --- 書式の定義 ---
+
+/** エクスポート時のエリアの見出し */
+const AREA_HEADERS: Record<DeckArea, string> = {
+    mainDeck: 'Main',
+    sideDeck: 'Side',
+    extraDeck: 'Extra',
+};
+
+const DECK_TEXT_AREAS: DeckArea[] = ['mainDeck', 'sideDeck', 'extraDeck'];
+
+/** インポート時に見出しとして認識する名前（小文字・空白除去後） */
+const AREA_HEADER_ALIASES: Record<string, DeckArea> = {
+    main: 'mainDeck',
+    maindeck: 'mainDeck',
+    'メイン': 'mainDeck',
+    'メインデッキ': 'mainDeck',
+    side: 'sideDeck',
+    sidedeck: 'sideDeck',
+    sideboard: 'sideDeck',
+    'サイド': 'sideDeck',
+    'サイドデッキ': 'sideDeck',
+    extra: 'extraDeck',
+    extradeck: 'extraDeck',
+    'エクストラ': 'extraDeck',
+    'エクストラデッキ': 'extraDeck',
+};
+
+// デッキ名の行: "// Deck: デッキ名" (デッキ名が見出しと同じ名前でも見出しとして扱わない)
+const TITLE_PATTERN = /^\/\/\s*deck\s*[:：]\s*(.*)$/i;
+// 見出し行: "Main", "## Side:", "// Extra (15)" など
+const HEADER_PATTERN = /^(?:#+|\/\/)?\s*([^\d:：()（）]+?)\s*[:：]?\s*(?:[(（]\s*\d+\s*[)）])?\s*$/;
+// カード行: "3 カード名", "3x カード名", "3 カード名 #12", "3 カード名 #12 @パック名"
+const CARD_LINE_PATTERN = /^(\d+)\s*[xX×]?\s+(.+?)(?:\s+#(\d+))?(?:\s+@(.+))?$/;
+// コメント行: "// ..." または "# ..."（見出しとして認識できない場合）
+const COMMENT_PATTERN = /^(?:\/\/|#)/;
+
+// --- 型定義 ---
+
+/** テキストの1行を解析した結果 */
+export interface DeckTextLine {
+    /** 1始まりの行番号 */
+    lineNumber: number;
+    raw: string;
+    area: DeckArea;
+    count: number;
+    name: string;
+    /** "#番号" で指定されたカード番号 */
+    number?: number;
+    /** "@パック名" で指定された収録パック（パック名またはパックID） */
+    packName?: string;
+}
+
+export type DeckTextIssueKind = 'syntax' | 'unresolved' | 'ambiguous';
+
+/** ユーザーに修正を求める行 */
+export interface DeckTextIssue {
+    kind: DeckTextIssueKind;
+    lineNumber: number;
+    raw: string;
+    message: string;
+    /** 候補が複数ある場合の候補のカード */
+    candidates: Card[];
+}
+
+export interface DeckTextParseResult {
+    lines: DeckTextLine[];
+    issues: DeckTextIssue[];
+    /** デッキ名の行（"// Deck: デッキ名"）。ない場合は先頭のコメント行 */
+    title?: string;
+}
+
+/** 名前解決のオプション */
+export interface DeckTextResolveOptions {
+    /** 指定した場合、このパックのカードだけを対象にする */
+    packId?: string | null;
+    /** "@パック名" の解決に使うパック（指定しない場合はパックIDとのみ照合する） */
+    packs?: Pick<Pack, 'packId' | 'name'>[];
+}
+
+export interface DeckTextImportResult {
+    mainDeck: Map<string, number>;
+    sideDeck: Map<string, number>;
+    extraDeck: Map<string, number>;
+    /** 解決できたカードの総枚数 */
+    totalCards: number;
+    issues: DeckTextIssue[];
+    title?: string;
+}
+
+// --- 補助関数 ---
+
+/**
+ * カード名を照合用に正規化する（全角/半角の統一、大文字小文字・連続する空白の無視）。
+ */
+const normalizeCardName = (name: string): string =>
+    name.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// 補助関数: カード行の末尾（カード番号・収録パック）を作成する
+const formatCardQualifier = (number: number | undefined, packName: string | undefined): string =>
+    `${number !== undefined ? ` #${number}` : ''}${packName !== undefined ? ` @${packName}` : ''}`;
+
+const parseHeader = (line: string): DeckArea | null => {
+    const match = line.match(HEADER_PATTERN);
+    if (!match) return null;
+    return AREA_HEADER_ALIASES[match[1].normalize('NFKC').replace(/\s+/g, '').toLowerCase()] ?? null;
+};
+
+// --- エクスポート ---
+
+/**
+ * デッキをテキスト形式のデッキリストにエクスポートする。
+ * 空のエリアは出力せず、各エリアはカード名の順に並べる。
+ * 同名のカードが他にもある場合は、カード番号を "#番号" として付ける。
+ * カード番号がない、または同名・同番号のカードが他のパックにもある場合は、収録パックを "@パック名" として付ける
+ * （パック名が見つからない、または同名のパックがある場合はパックIDを使用する）。
+ * @param deck - エクスポートするデッキ
+ * @param allCards - カード名の取得と同名カードの判定に使う全カード
+ * @param packs - 収録パック名の取得に使うパック
+ * @returns デッキリストのテキスト
+ */
+export const exportDeckToText = (deck: Deck, allCards: Card[], packs: Pick<Pack, 'packId' | 'name'>[] = []): string => {
+    const cardMap = new Map(allCards.map(card => [card.cardId, card]));
+    const nameCounts = new Map<string, number>();
+    const nameNumberCounts = new Map<string, number>();
+    allCards.forEach(card => {
+        const key = normalizeCardName(card.name);
+        nameCounts.set(key, (nameCounts.get(key) || 0) + 1);
+        const numberKey = `${key}#${card.number ?? ''}`;
+        nameNumberCounts.set(numberKey, (nameNumberCounts.get(numberKey) || 0) + 1);
+    });
+    const packNameCounts = new Map<string, number>();
+    packs.forEach(pack => packNameCounts.set(pack.name, (packNameCounts.get(pack.name) || 0) + 1));
+    const getPackLabel = (packId: string): string => {
+        const name = packs.find(pack => pack.packId === packId)?.name;
+        return name && packNameCounts.get(name) === 1 ? name : packId;
+    };
+
+    const sections: string[] = [`// Deck: ${deck.name}`];
+
+    DECK_TEXT_AREAS.forEach(area => {
+        const entries = Array.from(deck[area]?.entries() ?? [])
+            .filter(([, count]) => count > 0)
+            .map(([cardId, count]) => {
+                const card = cardMap.get(cardId);
+                const name = card?.name ?? cardId;
+                if (!card || (nameCounts.get(normalizeCardName(card.name)) || 0) <= 1) {
+                    return { count, name, line: `${count} ${name}` };
+                }
+                const number = card.number ?? undefined;
+                const needsPack = (nameNumberCounts.get(`${normalizeCardName(card.name)}#${card.number ?? ''}`) || 0) > 1;
+                return {
+                    count,
+                    name,
+                    line: `${count} ${name}${formatCardQualifier(number, needsPack ? getPackLabel(card.packId) : undefined)}`,
+                };
+            })
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        if (entries.length === 0) return;
+        const total = entries.reduce((sum, entry) => sum + entry.count, 0);
+        sections.push([`${AREA_HEADERS[area]} (${total})`, ...entries.map(entry => entry.line)].join('\n'));
+    });
+
+    return sections.join('\n\n') + '\n';
+};
+
+// --- インポート ---
+
+/**
+ * テキスト形式のデッキリストを行ごとに解析する（カード名の解決は行わない）。
+ * 見出しより前の行はメインデッキとして扱う。空行とコメント行は無視する。
+ * デッキ名の行（"// Deck: デッキ名"）は見出しより先に判定するため、デッキ名が見出しと同じ名前でも見出しとして扱わない。
+ * @param text - デッキリストのテキスト
+ * @returns 解析した行と、書式が正しくない行
+ */
+export const parseDeckText = (text: string): DeckTextParseResult => {
+    const lines: DeckTextLine[] = [];
+    const issues: DeckTextIssue[] = [];
+    let area: DeckArea = 'mainDeck';
+    let title: string | undefined;
+
+    text.split(/\r?\n/).forEach((rawLine, index) => {
+        const raw = rawLine.trim();
+        const lineNumber = index + 1;
+        if (raw === '') return;
+
+        const titleMatch = raw.match(TITLE_PATTERN);
+        if (titleMatch) {
+            if (title === undefined) title = titleMatch[1].trim() || undefined;
+            return;
+        }
+
+        const header = parseHeader(raw);
+        if (header) {
+            area = header;
+            return;
+        }
+
+        if (COMMENT_PATTERN.test(raw)) {
+            if (title === undefined && lines.length === 0) {
+                title = raw.replace(COMMENT_PATTERN, '').trim() || undefined;
+            }
+            return;
+        }
+
+        const match = raw.normalize('NFKC').match(CARD_LINE_PATTERN);
+        if (!match) {
+            issues.push({ kind: 'syntax', lineNumber, raw, message: '「枚数 カード名」の形式ではありません。', candidates: [] });
+            return;
+        }
+
+        const count = parseInt(match[1], 10);
+        if (count <= 0) {
+            issues.push({ kind: 'syntax', lineNumber, raw, message: '枚数は1以上で指定してください。', candidates: [] });
+            return;
+        }
+
+        lines.push({
+            lineNumber,
+            raw,
+            area,
+            count,
+            name: match[2].trim(),
+            number: match[3] !== undefined ? parseInt(match[3], 10) : undefined,
+            packName: match[4]?.trim() || undefined,
+        });
+    });
+
+    return { lines, issues, title };
+};
+
+/**
+ * テキスト形式のデッキリストを解析し、カード名をカードに解決してエリアごとの枚数を作成する。
+ * 同名のカードが複数ある場合は "#番号" で指定されたカード番号と "@パック名" で指定された収録パックで絞り込み、
+ * それでも1枚に決まらない行は候補とともに報告する。
+ * @param text - デッキリストのテキスト
+ * @param allCards - 名前解決の対象とする全カード
+ * @param options - 対象とするパック
+ * @returns エリアごとの枚数と、ユーザーに修正を求める行（行番号の順）
+ */
+export const resolveDeckText = (
+    text: string,
+    allCards: Card[],
+    options: DeckTextResolveOptions = {}
+): DeckTextImportResult => {
+    const { lines, issues, title } = parseDeckText(text);
+
+    const cardsByName = new Map<string, Card[]>();
+    allCards
+        .filter(card => !options.packId || card.packId === options.packId)
+        .forEach(card => {
+            const key = normalizeCardName(card.name);
+            const cards = cardsByName.get(key);
+            if (cards) cards.push(card);
+            else cardsByName.set(key, [card]);
+        });
+
+    const result: Record<DeckArea, Map<string, number>> = {
+        mainDeck: new Map(),
+        sideDeck: new Map(),
+        extraDeck: new Map(),
+    };
+    let totalCards = 0;
+
+    // "@パック名" に一致するパックID (パック名は正規化して照合し、パックIDとも照合する)
+    const getPackIdsByLabel = (label: string): Set<string> => {
+        const key = normalizeCardName(label);
+        const packIds = (options.packs ?? [])
+            .filter(pack => normalizeCardName(pack.name) === key)
+            .map(pack => pack.packId);
+        return new Set([...packIds, label]);
+    };
+
+    lines.forEach(line => {
+        const sameName = cardsByName.get(normalizeCardName(line.name)) ?? [];
+        const packIds = line.packName !== undefined ? getPackIdsByLabel(line.packName) : null;
+        const candidates = sameName.filter(card =>
+            (line.number === undefined || card.number === line.number)
+            && (!packIds || packIds.has(card.packId))
+        );
+
+        if (candidates.length === 0) {
+            issues.push({
+                kind: 'unresolved',
+                lineNumber: line.lineNumber,
+                raw: line.raw,
+                message: sameName.length > 0
+                    ? `「${line.name}」${formatCardQualifier(line.number, line.packName)} に一致するカードが見つかりません。`
+                    : `「${line.name}」という名前のカードが見つかりません。`,
+                candidates: sameName,
+            });
+            return;
+        }
+        if (candidates.length > 1) {
+            issues.push({
+                kind: 'ambiguous',
+                lineNumber: line.lineNumber,
+                raw: line.raw,
+                message: `「${line.name}」に一致するカードが ${candidates.length} 枚あります。カード番号（#番号）・収録パック（@パック名）を付けるか、パックを指定してください。`,
+                candidates,
+            });
+            return;
+        }
+
+        const cardId = candidates[0].cardId;
+        result[line.area].set(cardId, (result[line.area].get(cardId) || 0) + line.count);
+        totalCards += line.count;
+    });
+
+    issues.sort((a, b) => a.lineNumber - b.lineNumber);
+
+    return { ...result, totalCards, issues, title };
+};
+
+/**
+ * 指定した行を、候補のカードの番号と収録パックを付けた行に置き換えたテキストを返す（候補が複数ある行の修正用）。
+ * @param text - デッキリストのテキスト
+ * @param lineNumber - 置き換える行（1始まり）
+ * @param card - 選択した候補のカード
+ * @param packName - 候補のカードの収録パック名（省略時はパックID）
+ * @returns 置き換え後のテキスト
+ */
+export const replaceDeckTextLineCard = (text: string, lineNumber: number, card: Card, packName?: string): string => {
+    const rows = text.split(/\r?\n/);
+    const match = rows[lineNumber - 1]?.trim().normalize('NFKC').match(CARD_LINE_PATTERN);
+    if (!match) return text;
+    rows[lineNumber - 1] = `${match[1]} ${card.name}${formatCardQualifier(card.number ?? undefined, packName ?? card.packId)}`;
+    return rows.join('\n');
+};
@@ -0,0 +1,77 @@
+/**
+ * src/services/data-io/formatListJsonIO.ts
+ *
+ * * フォーマット（禁止・制限リスト、FormatList[]）を JSON文字列へシリアライズ/デシリアライズするドメイン固有のI/Oサービス層モジュール。
+ * * 責務:
+ * 1. FormatList[] をJSON文字列に変換するエクスポート関数の提供。
+ * 2. JSON文字列を検証し、FormatList[] に復元するインポート関数の提供（不正なフォーマット・バージョン・規制カードは除外・補正する）。
+ * 3. 汎用的なJSON I/Oユーティリティ（genericJsonIO）を利用し、ドメイン固有のI/Oインターフェース（export/import）を提供する。
+ */
+
+import type { FormatList, FormatListVersion, FormatCardEntry } from '../../models/models';
+import { FORMAT_CARD_STATUS_OPTIONS } from '../../models/models';
+import { exportDataToJson, importDataFromJson, type Deserializer } from '../../utils/genericJsonIO';
+import { generateId } from '../../utils/dataUtils';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// --- 固有の変換ロジックの定義 ---
+
+/** 規制カードの配列を検証し、同じカードは後の指定を採用する */
+const toFormatCardEntries = (entries: unknown): FormatCardEntry[] => {
+    if (!Array.isArray(entries)) return [];
+    const byCardId = new Map<string, FormatCardEntry>();
+    entries
+        .filter(e => e && typeof e.cardId === 'string' && FORMAT_CARD_STATUS_OPTIONS.includes(e.status))
+        .forEach(e => byCardId.set(e.cardId, { cardId: e.cardId, status: e.status }));
+    return Array.from(byCardId.values());
+};
+
+/** バージョンの配列を検証し、施行日が YYYY-MM-DD 形式のバージョンのみを採用する */
+const toFormatListVersions = (versions: unknown): FormatListVersion[] => {
+    if (!Array.isArray(versions)) return [];
+    return versions
+        .filter(v => v && typeof v.effectiveDate === 'string' && DATE_PATTERN.test(v.effectiveDate))
+        .map(v => ({
+            versionId: typeof v.versionId === 'string' ? v.versionId : generateId(),
+            effectiveDate: v.effectiveDate,
+            note: typeof v.note === 'string' ? v.note : '',
+            entries: toFormatCardEntries(v.entries),
+        }));
+};
+
+/** JSON互換配列を検証し、FormatList[] に復元するデシリアライザ（単一のフォーマットのオブジェクトも受け付ける） */
+const formatListsDeserializer: Deserializer<FormatList[]> = (loadedData: any): FormatList[] => {
+    const items = Array.isArray(loadedData) ? loadedData : [loadedData];
+    if (items.some(item => typeof item !== 'object' || item === null)) {
+        throw new Error('JSONの形式が正しくありません。フォーマットの配列である必要があります。');
+    }
+
+    const now = new Date().toISOString();
+    return items
+        .filter(item => typeof item.formatId === 'string' && typeof item.name === 'string')
+        .map(item => ({
+            formatId: item.formatId,
+            name: item.name,
+            description: typeof item.description === 'string' ? item.description : '',
+            versions: toFormatListVersions(item.versions),
+            createdAt: typeof item.createdAt === 'string' ? item.createdAt : now,
+            updatedAt: typeof item.updatedAt === 'string' ? item.updatedAt : now,
+        }));
+};
+
+// --- 汎用I/Oを使用した公開関数 ---
+
+/**
+ * フォーマットをJSON文字列にエクスポートする。
+ */
+export const exportFormatListsToJson = (formatLists: FormatList[]): string => {
+    return exportDataToJson(formatLists);
+};
+
+/**
+ * JSON文字列からフォーマットをインポートする。
+ */
+export const importFormatListsFromJson = (jsonText: string): FormatList[] => {
+    return importDataFromJson(jsonText, formatListsDeserializer);
+};
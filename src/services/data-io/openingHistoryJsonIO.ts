@@ -0,0 +1,68 @@
+/**
+ * src/services/data-io/openingHistoryJsonIO.ts
+ *
+ * * パック開封履歴（OpeningRecord[]）を JSON文字列へシリアライズ/デシリアライズするドメイン固有のI/Oサービス層モジュール。
+ * * 責務:
+ * 1. OpeningRecord[] をJSON文字列に変換するエクスポート関数の提供。
+ * 2. JSON文字列を検証し、OpeningRecord[] に復元するインポート関数の提供（不正な記録・結果は除外・補正する）。
+ * 3. 汎用的なJSON I/Oユーティリティ（genericJsonIO）を利用し、ドメイン固有のI/Oインターフェース（export/import）を提供する。
+ */
+
+import type { OpeningRecord, OpeningRecordResult, CurrentGameMode } from '../../models/models';
+import { exportDataToJson, importDataFromJson, type Deserializer } from '../../utils/genericJsonIO';
+
+const VALID_MODES: CurrentGameMode[] = ['dtcg', 'free', 'god'];
+
+// --- 固有の変換ロジックの定義 ---
+
+/** 開封結果の配列を検証し、枚数が1以上の結果のみを採用する */
+const toOpeningRecordResults = (results: unknown): OpeningRecordResult[] => {
+    if (!Array.isArray(results)) return [];
+    return results
+        .filter(r => r && typeof r.cardId === 'string' && typeof r.count === 'number' && Number.isFinite(r.count))
+        .map(r => ({
+            cardId: r.cardId,
+            count: Math.max(0, Math.floor(r.count)),
+            rarity: typeof r.rarity === 'string' ? r.rarity : '不明',
+        }))
+        .filter(r => r.count > 0);
+};
+
+/** JSON互換配列を検証し、OpeningRecord[] に復元するデシリアライザ */
+const openingRecordsDeserializer: Deserializer<OpeningRecord[]> = (loadedData: any): OpeningRecord[] => {
+    if (!Array.isArray(loadedData)) {
+        throw new Error('JSONの形式が正しくありません。開封履歴の配列である必要があります。');
+    }
+
+    return loadedData
+        .filter(item => item && typeof item.recordId === 'string' && typeof item.packId === 'string')
+        .map(item => ({
+            recordId: item.recordId,
+            packId: item.packId,
+            packName: typeof item.packName === 'string' ? item.packName : item.packId,
+            ...(typeof item.boxId === 'string' ? { boxId: item.boxId } : {}),
+            openedAt: typeof item.openedAt === 'string' ? item.openedAt : new Date().toISOString(),
+            mode: VALID_MODES.includes(item.mode) ? item.mode : 'free',
+            coinsSpent: typeof item.coinsSpent === 'number' && Number.isFinite(item.coinsSpent) ? Math.max(0, item.coinsSpent) : 0,
+            packCount: typeof item.packCount === 'number' && item.packCount >= 1 ? Math.floor(item.packCount) : 1,
+            ...(typeof item.seed === 'number' ? { seed: item.seed } : {}),
+            results: toOpeningRecordResults(item.results),
+            simulationWarning: typeof item.simulationWarning === 'string' ? item.simulationWarning : null,
+        }));
+};
+
+// --- 汎用I/Oを使用した公開関数 ---
+
+/**
+ * 開封履歴をJSON文字列にエクスポートする。
+ */
+export const exportOpeningRecordsToJson = (records: OpeningRecord[]): string => {
+    return exportDataToJson(records);
+};
+
+/**
+ * JSON文字列から開封履歴をインポートする。
+ */
+export const importOpeningRecordsFromJson = (jsonText: string): OpeningRecord[] => {
+    return importDataFromJson(jsonText, openingRecordsDeserializer);
+};
@@ -6,12 +6,15 @@
  * 1. Pack IDを基にPackと関連するCardデータをドメインサービス（packService, cardService）から取得し、PackBundle配列として構造化する（エクスポート）。
  * 2. PackBundle配列のJSON文字列をパースする（デシリアライズ）。
  * 3. インポート時におけるPack IDの衝突解決（SKIPまたはRENAME）のビジネスロジック、Pack/Cardデータの初期化・整合性維持、および永続化（DB保存）のトリガーを担当する。
+ * 4. インポート時にスロット構成（slotLayout）を正規化し、スロット構成が有効で枠が未定義のパックは Advanced/Classic の設定から変換する。
  */
 
 import { packService } from '../packs/packService';
 import { cardService } from '../cards/cardService';
-import { generateId, createDefaultPack, applyDefaultsIfMissing } from '../../utils/dataUtils';
-import type { Pack, PackBundle, Card } from '../../models/models';
+import { generateId, createDefaultPack, applyDefaultsIfMissing, parseCardDrawWeight } from '../../utils/dataUtils';
+import type { Pack, PackBundle, Card, PackSlot } from '../../models/models';
+import { SLOT_CARD_FILTER_FIELD_OPTIONS } from '../../models/models';
+import { convertRarityConfigToSlotLayout } from '../packs/packSimulation';
 import { exportDataToJson, importDataFromJson } from '../../utils/genericJsonIO';
 
 // ----------------------------------------------------
@@ -27,6 +30,32 @@ export interface PackImportOptions {
     packIdConflictStrategy: PackIdConflictStrategy;
 }
 
+// 補助関数: インポートしたスロット構成を正規化する (不正な重み・絞り込み条件は除外する)
+const normalizeSlotLayout = (pack: Pack): Pack => {
+    if (!Array.isArray(pack.slotLayout) || pack.slotLayout.length === 0) {
+        // スロット構成が有効で枠が未定義の場合は、既存の封入設定から変換する
+        return pack.isSlotLayoutEnabled
+            ? { ...pack, slotLayout: convertRarityConfigToSlotLayout(pack) }
+            : { ...pack, slotLayout: undefined, isSlotLayoutEnabled: false };
+    }
+
+    const slotLayout: PackSlot[] = pack.slotLayout.map((slot, index) => {
+        const cardFilter = slot.cardFilter;
+        const isValidFilter = !!cardFilter
+            && SLOT_CARD_FILTER_FIELD_OPTIONS.includes(cardFilter.field)
+            && typeof cardFilter.value === 'string'
+            && cardFilter.value.trim() !== '';
+        return {
+            label: typeof slot.label === 'string' ? slot.label : `${index + 1}枠目`,
+            rarityWeights: (Array.isArray(slot.rarityWeights) ? slot.rarityWeights : [])
+                .filter(w => w && typeof w.rarityName === 'string' && Number.isFinite(w.weight) && w.weight >= 0),
+            ...(isValidFilter ? { cardFilter: { field: cardFilter!.field, value: cardFilter!.value } } : {}),
+        };
+    });
+
+    return { ...pack, slotLayout, isSlotLayoutEnabled: !!pack.isSlotLayoutEnabled };
+};
+
 // ----------------------------------------------------
 // [1] Export (エクスポート)
 // ----------------------------------------------------
@@ -144,7 +173,7 @@ export const importPacksFromJson = async (
         // 1. Packデータを準備 (IDと関連情報を更新)
         const defaultPack = createDefaultPack();
 
-        let newPack: Pack = applyDefaultsIfMissing(
+        let newPack: Pack = normalizeSlotLayout(applyDefaultsIfMissing(
             { // 適用時に packId, totalCards, isOpened, updatedAt を優先的に更新
                 ...exportedItem.packData,
                 packId: currentPackId,
@@ -154,7 +183,7 @@ export const importPacksFromJson = async (
                 // createdAt が欠落している場合にのみデフォルト値が適用される
             },
             defaultPack
-        );
+        ));
 
         // データの整合性チェックを強化: createdAt の欠落時の補完（applyDefaultsIfMissingで処理されるはずだが念のため）
         if (!newPack.createdAt) {
@@ -168,7 +197,8 @@ export const importPacksFromJson = async (
         const newCards: Card[] = exportedItem.cardsData.map(card => ({
             ...card,
             // cardId はインポートデータを維持
-            packId: currentPackId,  // 新しいPack IDを適用
+            packId: currentPackId,  // 新しいPack IDを適用
+            drawWeight: parseCardDrawWeight(card.drawWeight), // 不正な排出ウェイトは未設定として扱う
         }));
 
         cardsToSave.push(...newCards);
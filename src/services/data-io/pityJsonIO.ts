@@ -0,0 +1,50 @@
+/**
+ * src/services/data-io/pityJsonIO.ts
+ *
+ * * 天井（ピティ）カウンター（PackPityState[]）を JSON文字列へシリアライズ/デシリアライズするドメイン固有のI/Oサービス層モジュール。
+ * * 責務:
+ * 1. PackPityState[] をJSON文字列に変換するエクスポート関数の提供。
+ * 2. JSON文字列を検証し、PackPityState[] に復元するインポート関数の提供（不正な値は除外・補正する）。
+ * 3. 汎用的なJSON I/Oユーティリティ（genericJsonIO）を利用し、ドメイン固有のI/Oインターフェース（export/import）を提供する。
+ */
+
+import type { PackPityState } from '../../models/models';
+import { exportDataToJson, importDataFromJson, type Deserializer } from '../../utils/genericJsonIO';
+
+// --- 固有の変換ロジックの定義 ---
+
+/** JSON互換配列を検証し、PackPityState[] に復元するデシリアライザ */
+const pityStatesDeserializer: Deserializer<PackPityState[]> = (loadedData: any): PackPityState[] => {
+    if (!Array.isArray(loadedData)) {
+        throw new Error('JSONの形式が正しくありません。天井カウンターの配列である必要があります。');
+    }
+
+    return loadedData
+        .filter(item => item && typeof item.packId === 'string' && item.counters && typeof item.counters === 'object')
+        .map(item => ({
+            packId: item.packId,
+            // カウンターは0以上の整数のみを採用する
+            counters: Object.fromEntries(
+                Object.entries(item.counters as Record<string, unknown>)
+                    .filter(([, count]) => typeof count === 'number' && Number.isFinite(count))
+                    .map(([rarityName, count]) => [rarityName, Math.max(0, Math.floor(count as number))])
+            ),
+            updatedAt: typeof item.updatedAt === 'string' ? item.updatedAt : new Date().toISOString(),
+        }));
+};
+
+// --- 汎用I/Oを使用した公開関数 ---
+
+/**
+ * 天井カウンターをJSON文字列にエクスポートする。
+ */
+export const exportPityStatesToJson = (pityStates: PackPityState[]): string => {
+    return exportDataToJson(pityStates);
+};
+
+/**
+ * JSON文字列から天井カウンターをインポートする。
+ */
+export const importPityStatesFromJson = (jsonText: string): PackPityState[] => {
+    return importDataFromJson(jsonText, pityStatesDeserializer);
+};
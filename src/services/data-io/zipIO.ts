@@ -1,7 +1,7 @@
 /**
  * src/services/data-io/zipIO.ts
  *
- * * アプリケーションの全データ（パック、デッキ、ユーザー設定、カードプール）のZIP入出力オーケストレーションモジュール。
+ * * アプリケーションの全データ（パック、デッキ、ユーザー設定、カードプール、天井カウンター、開封履歴）のZIP入出力オーケストレーションモジュール。
  * * 責務:
  * 1. エクスポート時: ドメインサービスから全ての生データを収集し、各エンティティのJsonIOサービスにJSON文字列への変換を委譲し、ZIPファイル構造（packs/packId.json, decks/decks.json, user_data/*）を構築・生成する。
  * 2. インポート時: ZIPファイルから各エンティティのJSON文字列を抽出し、エンティティごとにJsonIOサービスに処理（デシリアライズ、衝突解決、永続化）を委譲する。
@@ -13,14 +13,19 @@ import { packService } from '../packs/packService';
 import { deckService } from '../decks/deckService';
 // 型定義をインポート
 import { useUserDataStore } from '../../stores/userDataStore';
-import type { UserDataState, Deck, Pack } from '../../models/models';
+import type { UserDataState, Deck, Pack, PackPityState, OpeningRecord } from '../../models/models';
 import { useCardPoolStore, type CardPoolState } from '../../stores/cardPoolStore';
+import { pityService } from '../pity/pityService';
+import { openingHistoryService } from '../opening-history/openingHistoryService';
+import { useOpeningHistoryStore } from '../../stores/openingHistoryStore';
 
 // 分離した各エンティティのI/Oサービスをインポート
 import { exportPacksToJson, importPacksFromJson } from './packJsonIO';
 import { exportDecksToJson, importDecksFromJson } from './deckJsonIO';
 import { exportCardPoolToJson, importCardPoolFromJson } from './cardPoolJsonIO';
 import { exportUserDataToJson, importUserDataFromJson } from './userDataJsonIO';
+import { exportPityStatesToJson, importPityStatesFromJson } from './pityJsonIO';
+import { exportOpeningRecordsToJson, importOpeningRecordsFromJson } from './openingHistoryJsonIO';
 
 
 /**
@@ -35,17 +40,23 @@ export const zipIO = {
         decks: Deck[],
         userData: UserDataState,
         cardPool: CardPoolState,
+        pityStates: PackPityState[],
+        openingRecords: OpeningRecord[],
         metadata: Record<string, any>
     }> {
         await deckService.fetchAllDecks(); // キャッシュを最新化
         const decks = deckService.getAllDecksFromCache();
         const userDataState = useUserDataStore.getState();
         const cardPoolState = useCardPoolStore.getState();
+        const pityStates = await pityService.fetchAllPityStates();
+        const openingRecords = await openingHistoryService.fetchAllRecords();
 
         return {
             decks: decks,
             userData: userDataState,
             cardPool: cardPoolState,
+            pityStates: pityStates,
+            openingRecords: openingRecords,
             metadata: {
                 exportedAt: new Date().toISOString(),
                 version: "1.0.0"
@@ -85,6 +96,8 @@ export const zipIO = {
 
         zip.file("user_data/userData.json", exportUserDataToJson(allData.userData));
         zip.file("user_data/cardPool.json", exportCardPoolToJson(allData.cardPool));
+        zip.file("user_data/pityCounters.json", exportPityStatesToJson(allData.pityStates));
+        zip.file("user_data/openingHistory.json", exportOpeningRecordsToJson(allData.openingRecords));
         zip.file("metadata.json", JSON.stringify(allData.metadata, null, 2));
 
         const zipBlob = await zip.generateAsync({ type: "blob" });
@@ -131,6 +144,14 @@ export const zipIO = {
             zip.file("user_data/cardPool.json")?.async("string").then(content => {
                 if (content) loadedData.cardPool = importCardPoolFromJson(content);
             }),
+            // 天井カウンター: JSON文字列を渡し、検証済みの PackPityState[] を取得
+            zip.file("user_data/pityCounters.json")?.async("string").then(content => {
+                if (content) loadedData.pityStates = importPityStatesFromJson(content);
+            }),
+            // 開封履歴: JSON文字列を渡し、検証済みの OpeningRecord[] を取得
+            zip.file("user_data/openingHistory.json")?.async("string").then(content => {
+                if (content) loadedData.openingRecords = importOpeningRecordsFromJson(content);
+            }),
         ];
 
         await Promise.all([...filePromises, ...otherFilePromises]);
@@ -203,6 +224,23 @@ export const zipIO = {
             summary += "- カードプール: データがZIPに存在しませんでした。\n";
         }
 
+        // 5. 天井カウンター (PackPityState[] として取得済み) の全体上書き
+        if (Array.isArray(importedData.pityStates)) {
+            await pityService.replaceAllPityStates(importedData.pityStates);
+            summary += `- 天井カウンター: ${importedData.pityStates.length}パック分で上書きされました。\n`;
+        } else {
+            summary += "- 天井カウンター: データがZIPに存在しませんでした。\n";
+        }
+
+        // 6. 開封履歴 (OpeningRecord[] として取得済み) の全体上書き
+        if (Array.isArray(importedData.openingRecords)) {
+            await openingHistoryService.replaceAllRecords(importedData.openingRecords);
+            await useOpeningHistoryStore.getState().fetchAllRecords();
+            summary += `- 開封履歴: ${importedData.openingRecords.length}件で上書きされました。\n`;
+        } else {
+            summary += "- 開封履歴: データがZIPに存在しませんでした。\n";
+        }
+
         return summary;
     },
 
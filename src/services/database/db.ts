@@ -17,7 +17,13 @@ import {
     type DBDeck,
     type DBSetting,
     type DBArchive,
-    type Preset
+    type Preset,
+    type Box,
+    type PackPityState,
+    type OpeningRecord,
+    type EventPool,
+    type DeckRule,
+    type FormatList
 } from '../../models/models';
 
 // DBインスタンスの型定義
@@ -29,6 +35,12 @@ export class OmniTCGSimDB extends Dexie {
     decks!: Table<DBDeck, string>;
     userSettings!: Table<DBSetting, string>;
     presets!: Table<Preset, string>;
+    boxes!: Table<Box, string>;
+    pityCounters!: Table<PackPityState, string>;
+    openingHistory!: Table<OpeningRecord, string>;
+    eventPools!: Table<EventPool, string>;
+    deckRules!: Table<DeckRule, string>;
+    formatLists!: Table<FormatList, string>;
 
     // DBArchive 型を使用したアーカイブテーブル
     history!: Table<DBArchive, string>;
@@ -62,6 +74,36 @@ export class OmniTCGSimDB extends Dexie {
             trash: '&archiveId, itemType, archivedAt, itemId, [itemType+archivedAt]',
         });
 
+        // version 2: ボックス商品 (boxes) テーブルを追加
+        this.version(2).stores({
+            boxes: '&boxId, packId, name, createdAt, updatedAt',
+        });
+
+        // version 3: 天井（ピティ）カウンター (pityCounters) テーブルを追加
+        this.version(3).stores({
+            pityCounters: '&packId, updatedAt',
+        });
+
+        // version 4: パック開封履歴 (openingHistory) テーブルを追加
+        this.version(4).stores({
+            openingHistory: '&recordId, packId, openedAt, mode',
+        });
+
+        // version 5: イベントプール (eventPools) テーブルを追加
+        this.version(5).stores({
+            eventPools: '&poolId, source, createdAt',
+        });
+
+        // version 6: デッキの構築ルール (deckRules) テーブルを追加
+        this.version(6).stores({
+            deckRules: '&ruleId, name, updatedAt',
+        });
+
+        // version 7: フォーマット（禁止・制限リスト）(formatLists) テーブルを追加
+        this.version(7).stores({
+            formatLists: '&formatId, name, updatedAt',
+        });
+
     }
 }
 
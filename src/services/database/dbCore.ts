@@ -14,7 +14,7 @@ import type { Collection, Table } from 'dexie';
 import type { ArchiveItemType } from '../../models/models';
 
 // DBコレクション名の共通型
-export type DbCollectionName = 'cards' | 'packs' | 'cardPool' | 'decks' | 'userSettings' | 'presets' | 'history' | 'trash';
+export type DbCollectionName = 'cards' | 'packs' | 'cardPool' | 'decks' | 'userSettings' | 'presets' | 'boxes' | 'pityCounters' | 'openingHistory' | 'eventPools' | 'deckRules' | 'formatLists' | 'history' | 'trash';
 
 
 // =========================================================================
@@ -26,6 +26,7 @@ export const cardToDBCard = (card: Card): DBCard => {
         imageUrl: card.imageUrl,
         imageColor: card.imageColor,
         rarity: card.rarity,
+        drawWeight: card.drawWeight,
         text: card.text,
         subtext: card.subtext,
         isFavorite: card.isFavorite,
@@ -58,6 +59,7 @@ export const dbCardToCard = (dbCard: DBCard): Card => {
         imageUrl: dbCard.imageUrl,
         imageColor: dbCard.imageColor,
         rarity: dbCard.rarity,
+        drawWeight: dbCard.drawWeight,
         // 💡 修正点: cardToDBCard との整合性を取るため、text/subtext を追加
         text: dbCard.text,
         subtext: dbCard.subtext,
@@ -63,6 +63,7 @@ export const deckToDBDeck = (deck: Deck): DBDeck => {
         isLegal: deck.isLegal,
         hasUnownedCards: deck.hasUnownedCards,
         isFavorite: deck.isFavorite,
+        eventPoolId: deck.eventPoolId,
         createdAt: deck.createdAt,
         updatedAt: deck.updatedAt,
 
@@ -106,6 +107,7 @@ export const dbDeckToDeck = (dbDeck: DBDeck): Deck => {
         isLegal: dbDeck.isLegal,
         hasUnownedCards: dbDeck.hasUnownedCards,
         isFavorite: dbDeck.isFavorite,
+        eventPoolId: dbDeck.eventPoolId,
         createdAt: dbDeck.createdAt,
         updatedAt: dbDeck.updatedAt,
 
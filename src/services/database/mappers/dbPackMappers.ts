@@ -40,6 +40,11 @@ export const packToDBPack = (pack: Pack): DBPack => {
         advancedRarityConfig: pack.advancedRarityConfig,
         specialProbabilitySlots: pack.specialProbabilitySlots,
         isAdvancedRulesEnabled: pack.isAdvancedRulesEnabled,
+        slotLayout: pack.slotLayout,
+        isSlotLayoutEnabled: pack.isSlotLayoutEnabled,
+        pityRules: pack.pityRules,
+        duplicatePolicy: pack.duplicatePolicy,
+        rarityDefinitions: pack.rarityDefinitions,
         // その他のフィールド
         uniqueCards: pack.uniqueCards,
         totalCards: pack.totalCards,
@@ -99,6 +104,11 @@ export const dbPackToPack = (dbPack: DBPack): Pack => {
             : undefined,
         specialProbabilitySlots: dbPack.specialProbabilitySlots,
         isAdvancedRulesEnabled: dbPack.isAdvancedRulesEnabled,
+        slotLayout: dbPack.slotLayout,
+        isSlotLayoutEnabled: dbPack.isSlotLayoutEnabled,
+        pityRules: dbPack.pityRules,
+        duplicatePolicy: dbPack.duplicatePolicy,
+        rarityDefinitions: dbPack.rarityDefinitions,
 
         // ★ [新規追加] constructedDeckCards を追加
         constructedDeckCards: dbPack.constructedDeckCards,
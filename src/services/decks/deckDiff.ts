@@ -0,0 +1,191 @@
+/**
+ * src/services/decks/deckDiff.ts
+ *
+ * * 2つのデッキ（履歴のスナップショット同士、またはスナップショットと編集中のデッキ）の差分を算出する純粋なロジック層モジュール。
+ * * 責務:
+ * 1. エリア（メイン・サイド・エクストラ）ごとに、追加・削除・枚数が変わったカードを算出する。
+ * 2. デッキのメタデータ（デッキ名、構築ルール、キーカード、タグなど）とカスタムフィールドの値の変更を算出する。
+ * 3. 選択した変更だけを、比較元のデッキの値で別のデッキに適用する（選択的な復元）。
+ *    使用できる枚数の上限（イベントプール）が指定された場合は、全エリア合計が上限を超えないように枚数を抑える。
+ */
+
+import type { Deck, DeckArea, DeckFieldSettings } from '../../models/models';
+
+export const DECK_DIFF_AREAS: DeckArea[] = ['mainDeck', 'sideDeck', 'extraDeck'];
+
+/**
+ * 差分の対象とするメタデータのキーと表示名。
+ * イベントプール（eventPoolId）はデッキで使用できるカードを決めるため、復元の対象に含めない
+ */
+const METADATA_FIELD_LABELS = {
+    name: 'デッキ名',
+    number: 'デッキ No.',
+    imageUrl: 'デッキ画像URL',
+    imageColor: 'デッキ画像の色',
+    deckType: 'デッキ種別',
+    ruleId: '構築ルール',
+    series: 'シリーズ/バージョン',
+    description: '説明',
+    keycard_1: 'キーカード1',
+    keycard_2: 'キーカード2',
+    keycard_3: 'キーカード3',
+    tag: 'タグ',
+} as const;
+
+const CUSTOM_FIELD_KEYS: (keyof DeckFieldSettings)[] = [
+    'num_1', 'num_2', 'num_3', 'num_4', 'str_1', 'str_2', 'str_3', 'str_4',
+];
+
+export type DeckDiffFieldKey = keyof typeof METADATA_FIELD_LABELS | keyof DeckFieldSettings;
+
+export type DeckCardChangeKind = 'added' | 'removed' | 'changed';
+
+/** カード1種類分の枚数の変更 */
+export interface DeckCardChange {
+    /** 選択に使うキー（`${area}:${cardId}`） */
+    key: string;
+    area: DeckArea;
+    cardId: string;
+    before: number;
+    after: number;
+    kind: DeckCardChangeKind;
+}
+
+/** メタデータ・カスタムフィールド1項目分の変更 */
+export interface DeckFieldChange {
+    key: DeckDiffFieldKey;
+    label: string;
+    isCustomField: boolean;
+    before: Deck[DeckDiffFieldKey];
+    after: Deck[DeckDiffFieldKey];
+}
+
+export interface DeckDiff {
+    cardChanges: DeckCardChange[];
+    fieldChanges: DeckFieldChange[];
+}
+
+/** 選択的な復元で適用する変更 */
+export interface DeckChangeSelection {
+    cardKeys: string[];
+    fieldKeys: DeckDiffFieldKey[];
+}
+
+/**
+ * カードの変更を選択するためのキーを返す。
+ */
+export const getDeckCardChangeKey = (area: DeckArea, cardId: string): string => `${area}:${cardId}`;
+
+// 補助関数: 未設定の値（undefined / null / 空文字 / 空配列）を同一視して比較する
+const normalizeFieldValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '';
+    if (Array.isArray(value)) return value.length > 0 ? JSON.stringify(value) : '';
+    return JSON.stringify(value);
+};
+
+// 補助関数: カスタムフィールドの表示名（比較先の設定を優先する）
+const getCustomFieldLabel = (key: keyof DeckFieldSettings, base: Deck, target: Deck): string =>
+    target.deckFieldSettings?.[key]?.displayName || base.deckFieldSettings?.[key]?.displayName || key;
+
+/**
+ * 2つのデッキの差分を算出する。
+ * @param base - 比較元のデッキ
+ * @param target - 比較先のデッキ
+ * @returns エリアごとのカードの変更（エリア・カードIDの順）と、メタデータ・カスタムフィールドの変更
+ */
+export const diffDecks = (base: Deck, target: Deck): DeckDiff => {
+    const cardChanges: DeckCardChange[] = [];
+
+    DECK_DIFF_AREAS.forEach(area => {
+        const beforeMap = base[area] ?? new Map<string, number>();
+        const afterMap = target[area] ?? new Map<string, number>();
+        const cardIds = Array.from(new Set([...beforeMap.keys(), ...afterMap.keys()])).sort();
+
+        cardIds.forEach(cardId => {
+            const before = Math.max(0, beforeMap.get(cardId) || 0);
+            const after = Math.max(0, afterMap.get(cardId) || 0);
+            if (before === after) return;
+            cardChanges.push({
+                key: getDeckCardChangeKey(area, cardId),
+                area,
+                cardId,
+                before,
+                after,
+                kind: before === 0 ? 'added' : after === 0 ? 'removed' : 'changed',
+            });
+        });
+    });
+
+    const fieldChanges: DeckFieldChange[] = [];
+    const pushFieldChange = (key: DeckDiffFieldKey, label: string, isCustomField: boolean) => {
+        if (normalizeFieldValue(base[key]) === normalizeFieldValue(target[key])) return;
+        fieldChanges.push({ key, label, isCustomField, before: base[key], after: target[key] });
+    };
+
+    (Object.keys(METADATA_FIELD_LABELS) as (keyof typeof METADATA_FIELD_LABELS)[])
+        .forEach(key => pushFieldChange(key, METADATA_FIELD_LABELS[key], false));
+    CUSTOM_FIELD_KEYS.forEach(key => pushFieldChange(key, getCustomFieldLabel(key, base, target), true));
+
+    return { cardChanges, fieldChanges };
+};
+
+/**
+ * 選択した変更について、比較元（source）の値をデッキに適用する。
+ * カードは source の枚数に戻し（0枚の場合は削除）、ユニーク数と総枚数を再計算する。
+ * 上限（cardLimits）を指定した場合は、全エリアの合計枚数が上限を超えない枚数までしか戻さない。
+ * @param deck - 適用先のデッキ（編集中のデッキ）
+ * @param source - 値の取得元のデッキ
+ * @param selection - 適用するカードの変更のキーと、メタデータ・カスタムフィールドのキー
+ * @param cardLimits - カードごとの使用できる枚数の上限（イベントプールの枚数。上限がない場合は null）
+ * @returns 変更を適用した新しいデッキ
+ */
+export const applyDeckChanges = (
+    deck: Deck,
+    source: Deck,
+    selection: DeckChangeSelection,
+    cardLimits: Map<string, number> | null = null
+): Deck => {
+    const areaMaps: Record<DeckArea, Map<string, number>> = {
+        mainDeck: new Map(deck.mainDeck),
+        sideDeck: new Map(deck.sideDeck),
+        extraDeck: new Map(deck.extraDeck),
+    };
+
+    const cardKeys = new Set(selection.cardKeys);
+    DECK_DIFF_AREAS.forEach(area => {
+        const sourceMap = source[area] ?? new Map<string, number>();
+        const cardIds = new Set([...areaMaps[area].keys(), ...sourceMap.keys()]);
+        cardIds.forEach(cardId => {
+            if (!cardKeys.has(getDeckCardChangeKey(area, cardId))) return;
+            let count = sourceMap.get(cardId) || 0;
+            if (cardLimits) {
+                const otherAreasCount = DECK_DIFF_AREAS
+                    .filter(other => other !== area)
+                    .reduce((sum, other) => sum + (areaMaps[other].get(cardId) || 0), 0);
+                const allowedCount = Math.max(0, (cardLimits.get(cardId) || 0) - otherAreasCount);
+                if (count > allowedCount) {
+                    console.warn(`[deckDiff:applyDeckChanges] ⚠️ Card limit reached for ${cardId}. Restored ${allowedCount} instead of ${count}.`);
+                    count = allowedCount;
+                }
+            }
+            if (count > 0) areaMaps[area].set(cardId, count);
+            else areaMaps[area].delete(cardId);
+        });
+    });
+
+    const fieldValues: Partial<Deck> = {};
+    selection.fieldKeys.forEach(key => {
+        (fieldValues as Record<DeckDiffFieldKey, unknown>)[key] = Array.isArray(source[key])
+            ? [...(source[key] as string[])]
+            : source[key];
+    });
+
+    const allMaps = DECK_DIFF_AREAS.map(area => areaMaps[area]);
+    return {
+        ...deck,
+        ...fieldValues,
+        ...areaMaps,
+        uniqueCards: allMaps.reduce((sum, map) => sum + map.size, 0),
+        totalCards: allMaps.reduce((sum, map) => sum + Array.from(map.values()).reduce((a, b) => a + b, 0), 0),
+    };
+};
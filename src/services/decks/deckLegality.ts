@@ -0,0 +1,250 @@
+/**
+ * src/services/decks/deckLegality.ts
+ *
+ * * デッキが構築ルール（DeckRule）を満たしているかを判定する純粋なロジック層モジュール。
+ * デッキ編集画面でのリアルタイム判定と、保存時の isLegal の算出の両方から使用する。
+ * * 責務:
+ * 1. デッキ種別（DeckType）で使用するエリアごとに、枚数がルールの範囲内かを判定する。
+ * 2. 同一カード・同名カードの、デッキ種別で使用する全エリアの合計枚数が上限以下かを判定する。
+ * 3. タグ・レアリティの許可リスト（いずれかを満たす必要がある）と禁止リストを、カードごとに判定する。
+ * 4. カードの数値カスタムフィールドの集計条件（合計・最大・最小）を判定する。
+ * 5. ルールがフォーマットを参照している場合、判定日時点で施行されている禁止・制限リストを判定する。
+ * 6. 違反を、エリアと原因のカードIDを含む日本語メッセージの一覧（DeckLegalityResult）として返す。
+ */
+
+import type {
+    Card, Deck, DeckArea, DeckRule, DeckRuleViolation, DeckLegalityResult, DeckFieldConstraint, DeckType, FormatList
+} from '../../models/models';
+import { getFormatCardStatusMap, evaluateFormatRestrictions } from './formatLegality';
+
+/** 判定対象のデッキ（構成と参照するルールのみを使用する） */
+export type DeckLegalityTarget = Pick<Deck, 'ruleId' | 'deckType' | 'mainDeck' | 'sideDeck' | 'extraDeck'>;
+
+/** 禁止・制限リストの判定に使用するフォーマットの一覧と判定日 */
+export interface DeckFormatContext {
+    formatLists: FormatList[];
+    /** 判定日 (YYYY-MM-DD) */
+    referenceDate: string;
+}
+
+export const DECK_AREA_LABELS: Record<DeckArea, string> = {
+    mainDeck: 'メインデッキ',
+    sideDeck: 'サイドデッキ',
+    extraDeck: 'エクストラデッキ',
+};
+
+// デッキ種別ごとに使用するエリア
+const AREAS_BY_DECK_TYPE: Record<DeckType, DeckArea[]> = {
+    MainOnly: ['mainDeck'],
+    MainSide: ['mainDeck', 'sideDeck'],
+    MainSideExtra: ['mainDeck', 'sideDeck', 'extraDeck'],
+};
+
+const ALL_AREAS: DeckArea[] = ['mainDeck', 'sideDeck', 'extraDeck'];
+
+const AGGREGATE_LABELS: Record<DeckFieldConstraint['aggregate'], string> = {
+    sum: '合計',
+    max: '最大値',
+    min: '最小値',
+};
+
+// 補助関数: エリアのカード総枚数
+const countArea = (cards: Map<string, number>): number =>
+    Array.from(cards.values()).reduce((sum, count) => sum + count, 0);
+
+// 補助関数: 集計条件を1件判定し、違反していればメッセージを返す
+const evaluateFieldConstraint = (
+    constraint: DeckFieldConstraint,
+    entries: [string, number][],
+    cardMap: Map<string, Card>
+): DeckRuleViolation | null => {
+    const values: { cardId: string; value: number; count: number }[] = [];
+    for (const [cardId, count] of entries) {
+        const value = cardMap.get(cardId)?.[constraint.field];
+        if (typeof value === 'number' && Number.isFinite(value) && count > 0) {
+            values.push({ cardId, value, count });
+        }
+    }
+
+    // 対象のカードがない場合、最大・最小は判定しない (合計は 0 として判定する)
+    if (values.length === 0 && constraint.aggregate !== 'sum') return null;
+
+    const actual = constraint.aggregate === 'sum'
+        ? values.reduce((sum, v) => sum + v.value * v.count, 0)
+        : constraint.aggregate === 'max'
+            ? Math.max(...values.map(v => v.value))
+            : Math.min(...values.map(v => v.value));
+
+    const isSatisfied = constraint.operator === 'lte' ? actual <= constraint.value : actual >= constraint.value;
+    if (isSatisfied) return null;
+
+    const areaLabel = constraint.area === 'all' ? 'デッキ全体' : DECK_AREA_LABELS[constraint.area];
+    const fieldLabel = constraint.label?.trim() || constraint.field;
+    // 最大・最小の違反は、条件を満たさない値を持つカードを原因とする
+    const cardIds = constraint.aggregate === 'sum'
+        ? values.map(v => v.cardId)
+        : values
+            .filter(v => constraint.operator === 'lte' ? v.value > constraint.value : v.value < constraint.value)
+            .map(v => v.cardId);
+
+    return {
+        code: 'fieldConstraint',
+        message: `${areaLabel}の「${fieldLabel}」の${AGGREGATE_LABELS[constraint.aggregate]} (${actual}) が、${constraint.value} ${constraint.operator === 'lte' ? '以下' : '以上'}の条件を満たしていません。`,
+        area: constraint.area === 'all' ? undefined : constraint.area,
+        cardIds,
+    };
+};
+
+
+/**
+ * デッキが構築ルールを満たしているかを判定する。
+ * ルールが設定されていないデッキは、制限なしとして常に有効と判定する。
+ * @param deck - 判定対象のデッキ
+ * @param rule - デッキが参照するルール（deck.ruleId に対応するルールが存在しない場合は undefined）
+ * @param cardMap - カードIDからカードを引くためのMap
+ * @param formatContext - ルールが参照するフォーマットの解決に使用する、フォーマットの一覧と判定日
+ * @returns 判定結果と違反の一覧
+ */
+export const evaluateDeckLegality = (
+    deck: DeckLegalityTarget,
+    rule: DeckRule | undefined,
+    cardMap: Map<string, Card>,
+    formatContext: DeckFormatContext
+): DeckLegalityResult => {
+    if (!deck.ruleId) {
+        return { ruleId: null, isLegal: true, violations: [] };
+    }
+    if (!rule) {
+        return {
+            ruleId: deck.ruleId,
+            isLegal: false,
+            violations: [{ code: 'ruleNotFound', message: '設定されている構築ルールが見つかりません。' }],
+        };
+    }
+
+    const violations: DeckRuleViolation[] = [];
+    const activeAreas = AREAS_BY_DECK_TYPE[deck.deckType] ?? ALL_AREAS;
+
+    // 1. エリアごとの枚数
+    for (const area of activeAreas) {
+        const { min, max } = rule.areaSizes[area];
+        const total = countArea(deck[area]);
+        if (min !== null && total < min) {
+            violations.push({ code: 'areaSize', area, message: `${DECK_AREA_LABELS[area]}は ${min} 枚以上必要です (現在 ${total} 枚)。` });
+        }
+        if (max !== null && total > max) {
+            violations.push({ code: 'areaSize', area, message: `${DECK_AREA_LABELS[area]}は ${max} 枚以下にしてください (現在 ${total} 枚)。` });
+        }
+    }
+
+    // デッキ種別で使用するエリアの枚数をカードIDごとに合算する
+    // (使用しないエリアに残っているカードは、表示されないため判定に含めない)
+    const totalByCardId = new Map<string, number>();
+    activeAreas.forEach(area => {
+        deck[area].forEach((count, cardId) => {
+            if (count > 0) totalByCardId.set(cardId, (totalByCardId.get(cardId) || 0) + count);
+        });
+    });
+
+    const unknownCardIds = Array.from(totalByCardId.keys()).filter(cardId => !cardMap.has(cardId));
+    if (unknownCardIds.length > 0) {
+        violations.push({
+            code: 'unknownCard',
+            message: `${unknownCardIds.length} 種類のカードが見つからないため、ルールを判定できません。`,
+            cardIds: unknownCardIds,
+        });
+    }
+
+    // 2. 同一カード・同名カードの上限
+    if (rule.maxCopiesPerCard !== null) {
+        const limit = rule.maxCopiesPerCard;
+        totalByCardId.forEach((count, cardId) => {
+            if (count > limit) {
+                violations.push({
+                    code: 'maxCopiesPerCard',
+                    message: `「${cardMap.get(cardId)?.name ?? cardId}」は ${limit} 枚までです (現在 ${count} 枚)。`,
+                    cardIds: [cardId],
+                });
+            }
+        });
+    }
+
+    if (rule.maxCopiesPerName !== null) {
+        const limit = rule.maxCopiesPerName;
+        const byName = new Map<string, { count: number; cardIds: string[] }>();
+        totalByCardId.forEach((count, cardId) => {
+            const name = cardMap.get(cardId)?.name;
+            if (!name) return;
+            const entry = byName.get(name) ?? { count: 0, cardIds: [] };
+            entry.count += count;
+            entry.cardIds.push(cardId);
+            byName.set(name, entry);
+        });
+        byName.forEach(({ count, cardIds }, name) => {
+            if (count > limit) {
+                violations.push({
+                    code: 'maxCopiesPerName',
+                    message: `同名カード「${name}」は合計 ${limit} 枚までです (現在 ${count} 枚)。`,
+                    cardIds,
+                });
+            }
+        });
+    }
+
+    // 3. タグ・レアリティの許可/禁止
+    const cards = Array.from(totalByCardId.keys())
+        .map(cardId => cardMap.get(cardId))
+        .filter((card): card is Card => !!card);
+
+    const pushCardViolation = (code: DeckRuleViolation['code'], violating: Card[], message: string) => {
+        if (violating.length === 0) return;
+        violations.push({
+            code,
+            message: `${message}: ${violating.map(card => card.name).join('、')}`,
+            cardIds: violating.map(card => card.cardId),
+        });
+    };
+
+    if (rule.requiredTags.length > 0) {
+        pushCardViolation('requiredTag',
+            cards.filter(card => !(card.tag ?? []).some(tag => rule.requiredTags.includes(tag))),
+            `タグ (${rule.requiredTags.join(' / ')}) のいずれかを持つカードのみ使用できます`);
+    }
+    if (rule.forbiddenTags.length > 0) {
+        pushCardViolation('forbiddenTag',
+            cards.filter(card => (card.tag ?? []).some(tag => rule.forbiddenTags.includes(tag))),
+            `使用できないタグ (${rule.forbiddenTags.join(' / ')}) を持つカードがあります`);
+    }
+    if (rule.requiredRarities.length > 0) {
+        pushCardViolation('requiredRarity',
+            cards.filter(card => !rule.requiredRarities.includes(card.rarity)),
+            `レアリティ (${rule.requiredRarities.join(' / ')}) のカードのみ使用できます`);
+    }
+    if (rule.forbiddenRarities.length > 0) {
+        pushCardViolation('forbiddenRarity',
+            cards.filter(card => rule.forbiddenRarities.includes(card.rarity)),
+            `使用できないレアリティ (${rule.forbiddenRarities.join(' / ')}) のカードがあります`);
+    }
+
+    // 4. カスタムフィールドの集計条件
+    for (const constraint of rule.fieldConstraints) {
+        const entries: [string, number][] = constraint.area === 'all'
+            ? Array.from(totalByCardId.entries())
+            : Array.from(deck[constraint.area].entries());
+        const violation = evaluateFieldConstraint(constraint, entries, cardMap);
+        if (violation) violations.push(violation);
+    }
+
+    // 5. 禁止・制限リスト
+    if (rule.formatId) {
+        const formatList = formatContext.formatLists.find(f => f.formatId === rule.formatId);
+        if (!formatList) {
+            violations.push({ code: 'formatNotFound', message: '構築ルールが参照しているフォーマットが見つかりません。' });
+        } else {
+            const statusMap = getFormatCardStatusMap(formatList, formatContext.referenceDate);
+            violations.push(...evaluateFormatRestrictions(totalByCardId, statusMap, cardMap));
+        }
+    }
+
+    return { ruleId: rule.ruleId, isLegal: violations.length === 0, violations };
+};
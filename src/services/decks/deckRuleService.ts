@@ -0,0 +1,106 @@
+/**
+ * src/services/decks/deckRuleService.ts
+ *
+ * * デッキの構築ルール（DeckRule）のデータベースアクセスとローカルキャッシュ管理を担うサービス層モジュール。
+ * * 責務:
+ * 1. DeckRule の取得・保存・削除を担う（バルク操作に統一）。
+ * 2. コレクション（'deckRules'）において DeckRule のローカルキャッシュ（_ruleCache）を管理する。
+ * 3. DB操作のロギングとエラーハンドリングを行う。
+ */
+import type { DeckRule } from '../../models/models';
+import {
+    fetchAllItemsFromCollection,
+    bulkPutItemsToCollection,
+    bulkDeleteItemsFromCollection,
+} from '../database/dbCore';
+
+let _ruleCache: Map<string, DeckRule> | null = null;
+
+export type CollectionKey = 'deckRules';
+
+// DeckRule は DB レコードとドメインモデルが同一構造のため、そのまま返す
+const toDeckRule = (record: DeckRule): DeckRule => record;
+
+// ルール名の順に並べ替える
+const sortByName = (rules: DeckRule[]): DeckRule[] =>
+    [...rules].sort((a, b) => a.name.localeCompare(b.name));
+
+
+export const deckRuleService = {
+
+    // ----------------------------------------
+    // Cache Load / Read (キャッシュ/DBからの取得)
+    // ----------------------------------------
+
+    getAllRulesFromCache(): DeckRule[] {
+        return _ruleCache ? sortByName(Array.from(_ruleCache.values())) : [];
+    },
+
+    getRuleByIdFromCache(ruleId: string): DeckRule | undefined {
+        return _ruleCache?.get(ruleId);
+    },
+
+    /**
+     * コレクション（'deckRules'）から全ての構築ルールを取得します。（名前順）
+     */
+    async fetchAllRules(): Promise<DeckRule[]> {
+        const collectionKey: CollectionKey = 'deckRules';
+
+        if (_ruleCache) {
+            console.log(`[DeckRuleService:fetchAllRules] ✅ Cache hit (all deck rules).`);
+            return this.getAllRulesFromCache();
+        }
+
+        try {
+            const rules = await fetchAllItemsFromCollection<DeckRule, DeckRule>(collectionKey, toDeckRule);
+            _ruleCache = new Map(rules.map(r => [r.ruleId, r]));
+            console.log(`[DeckRuleService:fetchAllRules] ✅ Loaded ${rules.length} deck rules from ${collectionKey}.`);
+            return sortByName(rules);
+        } catch (error) {
+            console.error(`[DeckRuleService:fetchAllRules] ❌ Failed to fetch from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    // ----------------------------------------
+    // CRUD (保存・削除 - バルク対応)
+    // ----------------------------------------
+
+    /**
+     * DeckRule[] をコレクション（'deckRules'）に保存します。（バルク処理）
+     */
+    async saveRules(itemsToSave: DeckRule[]): Promise<DeckRule[]> {
+        if (itemsToSave.length === 0) return [];
+
+        const collectionKey: CollectionKey = 'deckRules';
+
+        try {
+            await bulkPutItemsToCollection<DeckRule>(collectionKey, itemsToSave);
+            itemsToSave.forEach(rule => _ruleCache?.set(rule.ruleId, rule));
+
+            console.log(`[DeckRuleService:saveRules] ✅ Saved ${itemsToSave.length} deck rules.`);
+            return itemsToSave;
+        } catch (error) {
+            console.error(`[DeckRuleService:saveRules] ❌ Failed to save deck rules to ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * 指定IDの構築ルールをコレクション（'deckRules'）から削除します。（バルク処理）
+     */
+    async deleteRules(ruleIds: string[]): Promise<void> {
+        if (ruleIds.length === 0) return;
+
+        const collectionKey: CollectionKey = 'deckRules';
+
+        try {
+            await bulkDeleteItemsFromCollection(collectionKey, ruleIds);
+            ruleIds.forEach(id => _ruleCache?.delete(id));
+            console.log(`[DeckRuleService:deleteRules] ✅ Deleted ${ruleIds.length} deck rules.`);
+        } catch (error) {
+            console.error(`[DeckRuleService:deleteRules] ❌ Failed to delete deck rules from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+};
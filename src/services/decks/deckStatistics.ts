@@ -0,0 +1,256 @@
+/**
+ * src/services/decks/deckStatistics.ts
+ *
+ * * デッキの統計（エリアごとの枚数、レアリティ・タグ・カスタムフィールドの分布、未所持カード、推定価値）を算出する純粋なロジック層モジュール。
+ * * 責務:
+ * 1. エリア（メイン/サイド/エクストラ）ごとのカード種類数・枚数を集計する。
+ * 2. 集計対象（デッキ全体 or 特定のエリア）のカードについて、レアリティ・タグの分布を枚数単位で集計する。
+ * 3. 収録パックで表示設定が有効なカードのカスタムフィールド（num_X, str_X）ごとに、値の分布と平均値（数値のみ）を集計する。
+ * 4. 所持枚数（またはイベントプールの枚数）に対して不足しているカードを一覧にする。
+ * 5. `priceUtils` のカード価格（排出ウェイト考慮）から、デッキの推定価値を算出する。
+ */
+
+import type { Card, Deck, DeckArea, Pack, CardFieldSettings } from '../../models/models';
+import { calculateWeightedCardPrice } from '../../utils/priceUtils';
+
+/** 統計の集計対象（'all' はデッキ全体） */
+export type DeckStatisticsScope = DeckArea | 'all';
+
+export type DeckStatisticsTarget = Pick<Deck, 'mainDeck' | 'sideDeck' | 'extraDeck'>;
+
+/** 分布の1区間（count は枚数） */
+export interface DistributionBucket {
+    label: string;
+    count: number;
+}
+
+/** カスタムフィールド1件分の分布 */
+export interface FieldDistribution {
+    /** Card のフィールド名 (num_1 など) */
+    field: keyof CardFieldSettings;
+    /** 表示名（パックの表示設定の displayName。未設定の場合はフィールド名） */
+    label: string;
+    type: 'num' | 'str';
+    buckets: DistributionBucket[];
+    /** 値が未設定のカードの枚数 */
+    missingCount: number;
+    /** 数値フィールドの平均値（枚数で重み付け。値を持つカードがない場合は null） */
+    average: number | null;
+}
+
+/** 所持枚数が不足しているカード */
+export interface UnownedCardEntry {
+    cardId: string;
+    name: string;
+    required: number;
+    owned: number;
+    shortage: number;
+}
+
+export interface DeckStatistics {
+    areaCounts: Record<DeckArea, { unique: number; total: number }>;
+    /** 集計対象のカード種類数・枚数 */
+    unique: number;
+    total: number;
+    rarityDistribution: DistributionBucket[];
+    tagDistribution: DistributionBucket[];
+    fieldDistributions: FieldDistribution[];
+    /** デッキ全体（全エリア合計）で不足しているカード */
+    unownedCards: UnownedCardEntry[];
+    /** 不足している枚数の合計 */
+    unownedCount: number;
+    /** 集計対象の推定価値 (G) */
+    estimatedValue: number;
+    /** 収録パックが見つからず価格を算出できなかったカードの枚数 */
+    unpricedCount: number;
+}
+
+/** 統計の算出に必要な参照データ */
+export interface DeckStatisticsContext {
+    cardMap: Map<string, Card>;
+    packs: Pack[];
+    /** カードIDごとの所持枚数（イベントプールに紐づくデッキではプールの枚数） */
+    ownedCards: Map<string, number>;
+    /** レアリティの並び順（大きいほど上位）。省略時は枚数の多い順 */
+    getRarityRank?: (rarityName: string, packId?: string) => number;
+}
+
+const ALL_AREAS: DeckArea[] = ['mainDeck', 'sideDeck', 'extraDeck'];
+const FIELD_KEYS: (keyof CardFieldSettings)[] = [
+    'num_1', 'num_2', 'num_3', 'num_4', 'num_5', 'num_6',
+    'str_1', 'str_2', 'str_3', 'str_4', 'str_5', 'str_6',
+];
+export const UNTAGGED_LABEL = 'タグなし';
+
+// 補助関数: Map<ラベル, 枚数> を分布の配列に変換する
+const toBuckets = (counts: Map<string, number>): DistributionBucket[] =>
+    Array.from(counts.entries()).map(([label, count]) => ({ label, count }));
+
+const addCount = (counts: Map<string, number>, label: string, count: number) =>
+    counts.set(label, (counts.get(label) || 0) + count);
+
+// 補助関数: 集計対象のカードIDごとの枚数
+const collectEntries = (deck: DeckStatisticsTarget, scope: DeckStatisticsScope): Map<string, number> => {
+    const entries = new Map<string, number>();
+    (scope === 'all' ? ALL_AREAS : [scope]).forEach(area => {
+        deck[area].forEach((count, cardId) => {
+            if (count > 0) addCount(entries, cardId, count);
+        });
+    });
+    return entries;
+};
+
+// 補助関数: カスタムフィールドの分布を集計する
+// 同じフィールドでもパックごとに表示名が異なる場合は、表示名ごとに別の分布として扱う
+const collectFieldDistributions = (
+    entries: [Card, number][],
+    packMap: Map<string, Pack>
+): FieldDistribution[] => {
+    const distributions = new Map<string, {
+        field: keyof CardFieldSettings; label: string; type: 'num' | 'str';
+        counts: Map<string, number>; missingCount: number; sum: number; valueCount: number;
+    }>();
+
+    for (const [card, count] of entries) {
+        const settings = packMap.get(card.packId)?.cardFieldSettings;
+        if (!settings) continue;
+
+        for (const field of FIELD_KEYS) {
+            const setting = settings[field];
+            if (!setting?.isVisible) continue;
+
+            const label = setting.displayName?.trim() || field;
+            const key = `${field}:${label}`;
+            let distribution = distributions.get(key);
+            if (!distribution) {
+                distribution = {
+                    field, label, type: field.startsWith('num') ? 'num' : 'str',
+                    counts: new Map(), missingCount: 0, sum: 0, valueCount: 0,
+                };
+                distributions.set(key, distribution);
+            }
+
+            const value = card[field];
+            if (value === undefined || value === null || value === '') {
+                distribution.missingCount += count;
+                continue;
+            }
+            addCount(distribution.counts, String(value), count);
+            if (typeof value === 'number') {
+                distribution.sum += value * count;
+                distribution.valueCount += count;
+            }
+        }
+    }
+
+    return Array.from(distributions.values())
+        .sort((a, b) => FIELD_KEYS.indexOf(a.field) - FIELD_KEYS.indexOf(b.field) || a.label.localeCompare(b.label))
+        .map(d => ({
+            field: d.field,
+            label: d.label,
+            type: d.type,
+            // 数値は値の昇順（コストカーブ）、文字列は枚数の多い順
+            buckets: d.type === 'num'
+                ? toBuckets(d.counts).sort((a, b) => Number(a.label) - Number(b.label))
+                : toBuckets(d.counts).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+            missingCount: d.missingCount,
+            average: d.type === 'num' && d.valueCount > 0 ? d.sum / d.valueCount : null,
+        }));
+};
+
+
+/**
+ * デッキの統計を算出する。
+ * @param deck - 対象のデッキ
+ * @param scope - 分布・推定価値の集計対象（エリアごとの枚数と未所持カードは常にデッキ全体）
+ * @param context - カード・パック・所持枚数などの参照データ
+ * @returns デッキの統計
+ */
+export const calculateDeckStatistics = (
+    deck: DeckStatisticsTarget,
+    scope: DeckStatisticsScope,
+    context: DeckStatisticsContext
+): DeckStatistics => {
+    const { cardMap, packs, ownedCards, getRarityRank } = context;
+    const packMap = new Map(packs.map(pack => [pack.packId, pack]));
+
+    // 1. エリアごとの枚数
+    const areaCounts = Object.fromEntries(ALL_AREAS.map(area => {
+        const counts = Array.from(deck[area].values()).filter(count => count > 0);
+        return [area, { unique: counts.length, total: counts.reduce((sum, n) => sum + n, 0) }];
+    })) as Record<DeckArea, { unique: number; total: number }>;
+
+    // 集計対象のカード (見つからないカードは分布・価値の対象外)
+    const scopedEntries = collectEntries(deck, scope);
+    const cardEntries: [Card, number][] = [];
+    scopedEntries.forEach((count, cardId) => {
+        const card = cardMap.get(cardId);
+        if (card) cardEntries.push([card, count]);
+    });
+
+    // 2. レアリティ・タグ
+    const rarityCounts = new Map<string, number>();
+    const rarityRanks = new Map<string, number>();
+    const tagCounts = new Map<string, number>();
+    for (const [card, count] of cardEntries) {
+        addCount(rarityCounts, card.rarity, count);
+        if (getRarityRank && !rarityRanks.has(card.rarity)) rarityRanks.set(card.rarity, getRarityRank(card.rarity, card.packId));
+        const tags = card.tag ?? [];
+        if (tags.length === 0) addCount(tagCounts, UNTAGGED_LABEL, count);
+        // 1枚のカードが複数のタグを持つ場合は、それぞれのタグに数える
+        tags.forEach(tag => addCount(tagCounts, tag, count));
+    }
+    const rarityDistribution = toBuckets(rarityCounts).sort((a, b) => getRarityRank
+        ? (rarityRanks.get(a.label) ?? -1) - (rarityRanks.get(b.label) ?? -1)
+        : b.count - a.count);
+    const tagDistribution = toBuckets(tagCounts).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+    // 4. 未所持カード (デッキ全体で判定する)
+    const unownedCards: UnownedCardEntry[] = [];
+    collectEntries(deck, 'all').forEach((required, cardId) => {
+        const owned = ownedCards.get(cardId) || 0;
+        if (required > owned) {
+            unownedCards.push({
+                cardId,
+                name: cardMap.get(cardId)?.name ?? cardId,
+                required,
+                owned,
+                shortage: required - owned,
+            });
+        }
+    });
+    unownedCards.sort((a, b) => b.shortage - a.shortage || a.name.localeCompare(b.name));
+
+    // 5. 推定価値 (パックごとの収録カードを一度だけ集める)
+    const cardsByPack = new Map<string, Card[]>();
+    cardMap.forEach(card => {
+        const list = cardsByPack.get(card.packId);
+        if (list) list.push(card);
+        else cardsByPack.set(card.packId, [card]);
+    });
+    let estimatedValue = 0;
+    let unpricedCount = Array.from(scopedEntries.entries())
+        .filter(([cardId]) => !cardMap.has(cardId))
+        .reduce((sum, [, count]) => sum + count, 0);
+    for (const [card, count] of cardEntries) {
+        const pack = packMap.get(card.packId);
+        if (!pack) {
+            unpricedCount += count;
+            continue;
+        }
+        estimatedValue += calculateWeightedCardPrice(pack, card, cardsByPack.get(card.packId) ?? []) * count;
+    }
+
+    return {
+        areaCounts,
+        unique: scopedEntries.size,
+        total: Array.from(scopedEntries.values()).reduce((sum, n) => sum + n, 0),
+        rarityDistribution,
+        tagDistribution,
+        fieldDistributions: collectFieldDistributions(cardEntries, packMap),
+        unownedCards,
+        unownedCount: unownedCards.reduce((sum, c) => sum + c.shortage, 0),
+        estimatedValue,
+        unpricedCount,
+    };
+};
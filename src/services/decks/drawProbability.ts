@@ -0,0 +1,356 @@
+/**
+ * src/services/decks/drawProbability.ts
+ *
+ * * デッキ（メインデッキ）から特定のカードを引ける確率を算出する純粋なロジック層モジュール。
+ * 条件は「カード / タグ / カスタムフィールドの値」を対象（DrawTarget）とし、対象を OR で結合した節を AND で結合して表す
+ * （例: 「A かつ (B または C)」は [[A], [B, C]]）。
+ * * 責務:
+ * 1. 初手枚数・1ターンのドロー枚数・ターン数から、そのターンまでに見るカードの枚数を算出する。
+ * 2. 超幾何分布により、単一の対象を指定枚数以上引く確率を算出する。
+ * 3. 対象が重複する（同じカードが複数の対象に該当する）場合も含め、条件を満たす確率を多変量超幾何分布で厳密に算出する。
+ * 4. マリガンのルール（引き直し・1枚減らす・ロンドン）を含む条件の成功率を、シード付き乱数のモンテカルロ法で推定する。
+ */
+
+import type { Card, CardFieldSettings } from '../../models/models';
+import { createSeededRandom, generateSeed, shuffleArray } from '../../utils/randomUtils';
+
+/** 条件に指定できる対象の最大数（厳密計算の状態数を抑えるため） */
+export const MAX_DRAW_CONDITION_TARGETS = 6;
+/** 対象ごとの必要枚数の上限 */
+export const MAX_DRAW_TARGET_MIN_COUNT = 4;
+/** 既定の試行回数 */
+export const DEFAULT_DRAW_SIMULATION_TRIALS = 10000;
+// 進捗を通知する回数 (全試行を通じて約100回)
+const PROGRESS_STEPS = 100;
+
+/**
+ * 条件の対象
+ * - card: 指定したカード
+ * - tag: 指定したタグを持つカード
+ * - field: カスタムフィールドの値が一致するカード（値は文字列として比較する）
+ */
+export type DrawTargetSelector =
+    | { type: 'card'; cardId: string }
+    | { type: 'tag'; tag: string }
+    | { type: 'field'; field: keyof CardFieldSettings; value: string };
+
+export interface DrawTarget {
+    selector: DrawTargetSelector;
+    /** 必要枚数（この枚数以上を引けば満たす） */
+    minCount: number;
+}
+
+/** 条件（AND で結合した節。各節は OR で結合した対象） */
+export type DrawCondition = DrawTarget[][];
+
+/** デッキ内のカード1種類分 */
+export interface DrawPoolEntry {
+    cardId: string;
+    count: number;
+    /** カード情報（見つからないカードはどの対象にも該当しない。ただしカードIDによる指定には該当する） */
+    card?: Card;
+}
+
+/** ドローのタイミング */
+export interface DrawTimingOptions {
+    /** 初手の枚数 */
+    handSize: number;
+    /** 1ターンのドロー枚数 */
+    drawsPerTurn: number;
+    /** 何ターン目までに引くか（1以上） */
+    turn: number;
+    /** 1ターン目はドローしない（先攻） */
+    skipFirstDraw: boolean;
+}
+
+/**
+ * マリガンのルール
+ * - none: マリガンしない
+ * - redraw: 同じ枚数で引き直す
+ * - minusOne: マリガンのたびに初手を1枚減らして引き直す
+ * - london: 毎回初手の枚数を引き、マリガンした回数だけデッキの下に戻す
+ */
+export type MulliganType = 'none' | 'redraw' | 'minusOne' | 'london';
+
+export const MULLIGAN_TYPE_LABELS: Record<MulliganType, string> = {
+    none: 'マリガンなし',
+    redraw: '同じ枚数で引き直す',
+    minusOne: '1枚減らして引き直す',
+    london: 'ロンドン（引き直して回数分を戻す）',
+};
+
+export interface MulliganRule {
+    type: MulliganType;
+    /** マリガンできる最大回数 */
+    maxMulligans: number;
+    /** 初手がこの条件を満たさない場合にマリガンする */
+    keepCondition: DrawCondition;
+}
+
+/**
+ * simulateDraws のオプション
+ */
+export interface DrawSimulationOptions {
+    trials?: number;
+    /** 抽選に使用するシード値。省略時は新しいシードを生成する */
+    seed?: number;
+    /** 進捗通知。completed は完了した試行数 */
+    onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * モンテカルロ法による推定結果
+ */
+export interface DrawSimulationResult {
+    seed: number;
+    trials: number;
+    /** 指定ターンまでに条件を満たした割合 */
+    successRate: number;
+    /** 初手がキープ条件を満たした（マリガンの上限で妥協しなかった）割合 */
+    keepRate: number;
+    /** マリガンした回数ごとの試行数（index = 回数） */
+    mulliganCounts: number[];
+    /** キープした初手の平均枚数 */
+    averageHandSize: number;
+}
+
+/**
+ * 指定ターンまでに見るカードの枚数（初手 + ドロー）を算出する。
+ * @param timing - ドローのタイミング
+ * @returns 見るカードの枚数
+ */
+export const getCardsSeenByTurn = (timing: DrawTimingOptions): number => {
+    const drawTurns = Math.max(0, Math.floor(timing.turn) - (timing.skipFirstDraw ? 1 : 0));
+    return Math.max(0, Math.floor(timing.handSize)) + Math.max(0, Math.floor(timing.drawsPerTurn)) * drawTurns;
+};
+
+/**
+ * カードが対象に該当するかを判定する。
+ * @param entry - デッキ内のカード
+ * @param selector - 対象
+ * @returns 該当する場合は true
+ */
+export const matchesDrawTarget = (entry: Pick<DrawPoolEntry, 'cardId' | 'card'>, selector: DrawTargetSelector): boolean => {
+    switch (selector.type) {
+        case 'card':
+            return entry.cardId === selector.cardId;
+        case 'tag':
+            return !!entry.card?.tag?.includes(selector.tag);
+        case 'field': {
+            const value = entry.card?.[selector.field];
+            return value !== undefined && value !== null && String(value) === selector.value;
+        }
+    }
+};
+
+// 補助関数: 二項係数 (浮動小数点)
+const combination = (n: number, k: number): number => {
+    if (k < 0 || k > n) return 0;
+    const r = Math.min(k, n - k);
+    let result = 1;
+    for (let i = 1; i <= r; i++) {
+        result = result * (n - r + i) / i;
+    }
+    return result;
+};
+
+/**
+ * 超幾何分布により、population 枚から draws 枚を引いたとき、successes 枚の対象を minCount 枚以上引く確率を算出する。
+ * @returns 確率 (0〜1)
+ */
+export const hypergeometricAtLeast = (population: number, successes: number, draws: number, minCount: number): number => {
+    const n = Math.min(Math.max(0, draws), population);
+    if (minCount <= 0) return 1;
+    const total = combination(population, n);
+    if (total === 0) return 0;
+    let probability = 0;
+    for (let k = minCount; k <= Math.min(n, successes); k++) {
+        probability += combination(successes, k) * combination(population - successes, n - k) / total;
+    }
+    return Math.min(1, probability);
+};
+
+// 補助関数: 条件の対象を平坦化し、節ごとの対象のインデックスを返す（必要枚数は0以上の整数に丸める）
+const flattenCondition = (condition: DrawCondition) => {
+    const targets: DrawTarget[] = [];
+    const clauses: number[][] = condition
+        .filter(clause => clause.length > 0)
+        .map(clause => clause.map(target => targets.push({ ...target, minCount: Math.max(0, Math.floor(target.minCount)) }) - 1));
+    return { targets, clauses };
+};
+
+// 補助関数: 対象ごとの引いた枚数（必要枚数で頭打ち）が条件を満たすかを判定する
+const satisfiesClauses = (counts: ArrayLike<number>, targets: DrawTarget[], clauses: number[][]): boolean =>
+    clauses.every(clause => clause.some(index => counts[index] >= targets[index].minCount));
+
+/**
+ * 条件を満たす確率を、多変量超幾何分布で厳密に算出する。
+ * カードを「該当する対象の組み合わせ」ごとのグループにまとめ、グループごとに引く枚数を動的計画法で数え上げる。
+ * @param pool - デッキ内のカード
+ * @param condition - 条件（空の場合は常に満たす）
+ * @param draws - 引く枚数
+ * @returns 確率 (0〜1)
+ */
+export const calculateConditionProbability = (pool: DrawPoolEntry[], condition: DrawCondition, draws: number): number => {
+    const { targets, clauses } = flattenCondition(condition);
+    if (clauses.length === 0) return 1;
+    if (targets.length > MAX_DRAW_CONDITION_TARGETS) {
+        throw new Error(`条件に指定できる対象は ${MAX_DRAW_CONDITION_TARGETS} 件までです。`);
+    }
+
+    // 該当する対象の組み合わせ（ビットマスク）ごとの枚数
+    const groupSizes = new Map<number, number>();
+    let population = 0;
+    for (const entry of pool) {
+        if (entry.count <= 0) continue;
+        population += entry.count;
+        const mask = targets.reduce((m, target, index) => matchesDrawTarget(entry, target.selector) ? m | (1 << index) : m, 0);
+        groupSizes.set(mask, (groupSizes.get(mask) || 0) + entry.count);
+    }
+    const n = Math.min(Math.max(0, Math.floor(draws)), population);
+
+    // 状態: 引いた枚数と、対象ごとの引いた枚数（必要枚数で頭打ち）を混合基数でまとめた数値
+    const caps = targets.map(target => target.minCount);
+    const radices = caps.map(cap => cap + 1);
+    const encode = (drawn: number, counts: number[]) =>
+        counts.reduce((code, count, index) => code * radices[index] + count, drawn);
+    const decode = (code: number): [number, number[]] => {
+        const counts = new Array<number>(radices.length);
+        for (let index = radices.length - 1; index >= 0; index--) {
+            counts[index] = code % radices[index];
+            code = Math.floor(code / radices[index]);
+        }
+        return [code, counts];
+    };
+
+    // 該当する対象のないカードは最後にまとめて数える
+    const otherSize = groupSizes.get(0) || 0;
+    groupSizes.delete(0);
+
+    let states = new Map<number, number>([[encode(0, caps.map(() => 0)), 1]]);
+    for (const [mask, size] of groupSizes) {
+        const next = new Map<number, number>();
+        states.forEach((ways, code) => {
+            const [drawn, counts] = decode(code);
+            for (let j = 0; j <= Math.min(size, n - drawn); j++) {
+                const nextCounts = counts.map((count, index) => mask & (1 << index) ? Math.min(caps[index], count + j) : count);
+                const nextCode = encode(drawn + j, nextCounts);
+                next.set(nextCode, (next.get(nextCode) || 0) + ways * combination(size, j));
+            }
+        });
+        states = next;
+    }
+
+    let favorable = 0;
+    states.forEach((ways, code) => {
+        const [drawn, counts] = decode(code);
+        if (satisfiesClauses(counts, targets, clauses)) {
+            favorable += ways * combination(otherSize, n - drawn);
+        }
+    });
+    return Math.min(1, favorable / combination(population, n));
+};
+
+
+/**
+ * マリガンを含めて、指定ターンまでに条件を満たす割合をモンテカルロ法で推定する。
+ * ロンドンマリガンでデッキの下に戻すカードは、キープ条件の対象に該当しないカードを優先する。
+ * @param pool - デッキ内のカード
+ * @param condition - 指定ターンまでに満たしたい条件
+ * @param timing - ドローのタイミング
+ * @param mulligan - マリガンのルール
+ * @param options - 試行回数・シードなどのオプション
+ * @returns 推定結果
+ */
+export const simulateDraws = (
+    pool: DrawPoolEntry[],
+    condition: DrawCondition,
+    timing: DrawTimingOptions,
+    mulligan: MulliganRule,
+    options: DrawSimulationOptions = {}
+): DrawSimulationResult => {
+    const trials = Math.max(1, Math.floor(options.trials ?? DEFAULT_DRAW_SIMULATION_TRIALS));
+    const seed = options.seed ?? generateSeed();
+    const random = createSeededRandom(seed);
+
+    const goal = flattenCondition(condition);
+    const keep = flattenCondition(mulligan.keepCondition);
+    if (goal.targets.length > MAX_DRAW_CONDITION_TARGETS || keep.targets.length > MAX_DRAW_CONDITION_TARGETS) {
+        throw new Error(`条件に指定できる対象は ${MAX_DRAW_CONDITION_TARGETS} 件までです。`);
+    }
+
+    // カード1枚ごとに、該当する対象のインデックスを事前に求めておく
+    const deck: { goalMatches: number[]; keepMatches: number[] }[] = [];
+    for (const entry of pool) {
+        const goalMatches = goal.targets.flatMap((target, index) => matchesDrawTarget(entry, target.selector) ? [index] : []);
+        const keepMatches = keep.targets.flatMap((target, index) => matchesDrawTarget(entry, target.selector) ? [index] : []);
+        for (let i = 0; i < entry.count; i++) deck.push({ goalMatches, keepMatches });
+    }
+
+    const handSize = Math.max(0, Math.floor(timing.handSize));
+    const extraDraws = getCardsSeenByTurn(timing) - handSize;
+    const maxMulligans = mulligan.type === 'none' ? 0 : Math.max(0, Math.floor(mulligan.maxMulligans));
+
+    const goalCounts = new Array<number>(goal.targets.length);
+    const keepCounts = new Array<number>(keep.targets.length);
+    const countMatches = (cards: typeof deck, key: 'goalMatches' | 'keepMatches', counts: number[]) => {
+        counts.fill(0);
+        cards.forEach(card => card[key].forEach(index => counts[index]++));
+        return counts;
+    };
+
+    const mulliganCounts = new Array<number>(maxMulligans + 1).fill(0);
+    const progressInterval = Math.max(1, Math.floor(trials / PROGRESS_STEPS));
+    let successCount = 0;
+    let keptCount = 0;
+    let handSizeSum = 0;
+
+    for (let trial = 0; trial < trials; trial++) {
+        let hand: typeof deck = [];
+        let library: typeof deck = [];
+        let mulligans = 0;
+        let isKept = false;
+
+        while (true) {
+            const shuffled = shuffleArray(deck, random);
+            const drawCount = mulligan.type === 'minusOne' ? Math.max(0, handSize - mulligans) : handSize;
+            hand = shuffled.slice(0, drawCount);
+            library = shuffled.slice(drawCount);
+
+            if (mulligan.type === 'london' && mulligans > 0) {
+                // キープ条件の対象に該当しないカードから順にデッキの下に戻す
+                const order = hand
+                    .map((card, index) => ({ index, score: card.keepMatches.length }))
+                    .sort((a, b) => a.score - b.score || b.index - a.index);
+                const bottomed = new Set(order.slice(0, Math.min(mulligans, hand.length)).map(o => o.index));
+                library = [...library, ...hand.filter((_, index) => bottomed.has(index))];
+                hand = hand.filter((_, index) => !bottomed.has(index));
+            }
+
+            isKept = satisfiesClauses(countMatches(hand, 'keepMatches', keepCounts), keep.targets, keep.clauses);
+            if (isKept || mulligans >= maxMulligans) break;
+            mulligans++;
+        }
+
+        const seen = [...hand, ...library.slice(0, Math.max(0, extraDraws))];
+        if (satisfiesClauses(countMatches(seen, 'goalMatches', goalCounts), goal.targets, goal.clauses)) successCount++;
+        if (isKept) keptCount++;
+        handSizeSum += hand.length;
+        mulliganCounts[mulligans]++;
+
+        if (options.onProgress && ((trial + 1) % progressInterval === 0 || trial + 1 === trials)) {
+            options.onProgress(trial + 1, trials);
+        }
+    }
+
+    console.log(`[DrawProbability:simulateDraws] ✅ Simulated ${trials} ${mulligan.type} trials (seed: ${seed})`);
+
+    return {
+        seed,
+        trials,
+        successRate: successCount / trials,
+        keepRate: keptCount / trials,
+        mulliganCounts,
+        averageHandSize: handSizeSum / trials,
+    };
+};
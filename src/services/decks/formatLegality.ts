@@ -0,0 +1,84 @@
+/**
+ * src/services/decks/formatLegality.ts
+ *
+ * * フォーマット（禁止・制限リスト）を判定日に基づいて解決し、カードの規制区分を判定する純粋なロジック層モジュール。
+ * デッキのルール判定（deckLegality）と、カード一覧の規制区分バッジの両方から使用する。
+ * * 責務:
+ * 1. フォーマットのバージョンから、判定日時点で施行されている最新のバージョンを解決する。
+ * 2. 施行中のバージョンから、カードIDごとの規制区分の索引（Map）を作成する。
+ * 3. デッキのカード枚数（全エリア合計）が規制区分の枚数を超えていないかを判定し、違反を返す。
+ */
+
+import type { Card, FormatList, FormatListVersion, FormatCardStatus, DeckRuleViolation } from '../../models/models';
+import { FORMAT_CARD_STATUS_MAX_COPIES } from '../../models/models';
+
+export const FORMAT_CARD_STATUS_LABELS: Record<FormatCardStatus, string> = {
+    banned: '禁止',
+    limited1: '制限1',
+    limited2: '制限2',
+    limited3: '制限3',
+};
+
+/**
+ * バージョンを施行日の昇順に並べ替える。
+ */
+export const sortFormatVersions = (versions: FormatListVersion[]): FormatListVersion[] =>
+    [...versions].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+/**
+ * 判定日時点で施行されている最新のバージョンを返す。
+ * @param formatList - 対象のフォーマット
+ * @param referenceDate - 判定日 (YYYY-MM-DD)
+ * @returns 施行中のバージョン（判定日より前に施行されたバージョンがない場合は undefined）
+ */
+export const getActiveFormatVersion = (
+    formatList: FormatList,
+    referenceDate: string
+): FormatListVersion | undefined => {
+    const activeVersions = sortFormatVersions(formatList.versions).filter(v => v.effectiveDate <= referenceDate);
+    return activeVersions[activeVersions.length - 1];
+};
+
+/**
+ * 判定日時点で施行されているリストから、カードIDごとの規制区分の索引を作成する。
+ * @param formatList - 対象のフォーマット（未選択の場合は空の索引を返す）
+ * @param referenceDate - 判定日 (YYYY-MM-DD)
+ */
+export const getFormatCardStatusMap = (
+    formatList: FormatList | undefined,
+    referenceDate: string
+): Map<string, FormatCardStatus> => {
+    const version = formatList ? getActiveFormatVersion(formatList, referenceDate) : undefined;
+    return new Map((version?.entries ?? []).map(entry => [entry.cardId, entry.status]));
+};
+
+/**
+ * デッキのカード枚数（全エリア合計）が、規制区分の枚数を超えていないかを判定する。
+ * @param totalByCardId - カードIDごとの全エリア合計枚数
+ * @param statusMap - カードIDごとの規制区分
+ * @param cardMap - カードIDからカードを引くためのMap（メッセージのカード名に使用）
+ * @returns 規制区分の違反の一覧
+ */
+export const evaluateFormatRestrictions = (
+    totalByCardId: Map<string, number>,
+    statusMap: Map<string, FormatCardStatus>,
+    cardMap: Map<string, Card>
+): DeckRuleViolation[] => {
+    const violations: DeckRuleViolation[] = [];
+    totalByCardId.forEach((count, cardId) => {
+        const status = statusMap.get(cardId);
+        if (!status) return;
+        const limit = FORMAT_CARD_STATUS_MAX_COPIES[status];
+        if (count <= limit) return;
+
+        const name = cardMap.get(cardId)?.name ?? cardId;
+        violations.push({
+            code: 'formatRestriction',
+            message: status === 'banned'
+                ? `「${name}」は禁止カードです。`
+                : `「${name}」は${FORMAT_CARD_STATUS_LABELS[status]}のため ${limit} 枚までです (現在 ${count} 枚)。`,
+            cardIds: [cardId],
+        });
+    });
+    return violations;
+};
@@ -0,0 +1,106 @@
+/**
+ * src/services/decks/formatListService.ts
+ *
+ * * フォーマット（禁止・制限リスト、FormatList）のデータベースアクセスとローカルキャッシュ管理を担うサービス層モジュール。
+ * * 責務:
+ * 1. FormatList の取得・保存・削除を担う（バルク操作に統一）。
+ * 2. コレクション（'formatLists'）において FormatList のローカルキャッシュ（_formatListCache）を管理する。
+ * 3. DB操作のロギングとエラーハンドリングを行う。
+ */
+import type { FormatList } from '../../models/models';
+import {
+    fetchAllItemsFromCollection,
+    bulkPutItemsToCollection,
+    bulkDeleteItemsFromCollection,
+} from '../database/dbCore';
+
+let _formatListCache: Map<string, FormatList> | null = null;
+
+export type CollectionKey = 'formatLists';
+
+// FormatList は DB レコードとドメインモデルが同一構造のため、そのまま返す
+const toFormatList = (record: FormatList): FormatList => record;
+
+// フォーマット名の順に並べ替える
+const sortByName = (lists: FormatList[]): FormatList[] =>
+    [...lists].sort((a, b) => a.name.localeCompare(b.name));
+
+
+export const formatListService = {
+
+    // ----------------------------------------
+    // Cache Load / Read (キャッシュ/DBからの取得)
+    // ----------------------------------------
+
+    getAllFormatListsFromCache(): FormatList[] {
+        return _formatListCache ? sortByName(Array.from(_formatListCache.values())) : [];
+    },
+
+    getFormatListByIdFromCache(formatId: string): FormatList | undefined {
+        return _formatListCache?.get(formatId);
+    },
+
+    /**
+     * コレクション（'formatLists'）から全てのフォーマットを取得します。（名前順）
+     */
+    async fetchAllFormatLists(): Promise<FormatList[]> {
+        const collectionKey: CollectionKey = 'formatLists';
+
+        if (_formatListCache) {
+            console.log(`[FormatListService:fetchAllFormatLists] ✅ Cache hit (all format lists).`);
+            return this.getAllFormatListsFromCache();
+        }
+
+        try {
+            const lists = await fetchAllItemsFromCollection<FormatList, FormatList>(collectionKey, toFormatList);
+            _formatListCache = new Map(lists.map(f => [f.formatId, f]));
+            console.log(`[FormatListService:fetchAllFormatLists] ✅ Loaded ${lists.length} format lists from ${collectionKey}.`);
+            return sortByName(lists);
+        } catch (error) {
+            console.error(`[FormatListService:fetchAllFormatLists] ❌ Failed to fetch from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    // ----------------------------------------
+    // CRUD (保存・削除 - バルク対応)
+    // ----------------------------------------
+
+    /**
+     * FormatList[] をコレクション（'formatLists'）に保存します。（バルク処理）
+     */
+    async saveFormatLists(itemsToSave: FormatList[]): Promise<FormatList[]> {
+        if (itemsToSave.length === 0) return [];
+
+        const collectionKey: CollectionKey = 'formatLists';
+
+        try {
+            await bulkPutItemsToCollection<FormatList>(collectionKey, itemsToSave);
+            itemsToSave.forEach(list => _formatListCache?.set(list.formatId, list));
+
+            console.log(`[FormatListService:saveFormatLists] ✅ Saved ${itemsToSave.length} format lists.`);
+            return itemsToSave;
+        } catch (error) {
+            console.error(`[FormatListService:saveFormatLists] ❌ Failed to save format lists to ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * 指定IDのフォーマットをコレクション（'formatLists'）から削除します。（バルク処理）
+     */
+    async deleteFormatLists(formatIds: string[]): Promise<void> {
+        if (formatIds.length === 0) return;
+
+        const collectionKey: CollectionKey = 'formatLists';
+
+        try {
+            await bulkDeleteItemsFromCollection(collectionKey, formatIds);
+            formatIds.forEach(id => _formatListCache?.delete(id));
+            console.log(`[FormatListService:deleteFormatLists] ✅ Deleted ${formatIds.length} format lists.`);
+        } catch (error) {
+            console.error(`[FormatListService:deleteFormatLists] ❌ Failed to delete format lists from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+};
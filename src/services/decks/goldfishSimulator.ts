@@ -0,0 +1,199 @@
+/**
+ * src/services/decks/goldfishSimulator.ts
+ *
+ * * デッキの一人回し（ゴールドフィッシュ）の盤面を管理する純粋なロジック層モジュール。
+ * 盤面（GoldfishState）は不変のオブジェクトとして扱い、各操作は新しい盤面を返す。
+ * * 責務:
+ * 1. メインデッキから山札を作成し、シード付き乱数でシャッフルして初手を配る（同じシードで同じ展開を再現できる）。
+ * 2. マリガンのルール（引き直し・1枚減らす・ロンドン）に従って初手を配り直し、ロンドンではデッキの下に戻す枚数を管理する。
+ *    マリガンの回数は、設定した最大回数（1枚減らす・ロンドンでは初手の枚数も上限）までに制限する。
+ * 3. ターンを進めてドローする操作、任意の枚数のドロー、山札のシャッフルを提供する。
+ * 4. カードをゾーン（山札・手札・場・墓地・除外）の間で移動する操作を提供する。
+ */
+
+import { createSeededRandom, shuffleArray } from '../../utils/randomUtils';
+import type { MulliganType } from './drawProbability';
+
+export type GoldfishZone = 'library' | 'hand' | 'field' | 'graveyard' | 'exile';
+
+export const GOLDFISH_ZONES: GoldfishZone[] = ['library', 'hand', 'field', 'graveyard', 'exile'];
+
+/** 盤面上のカード1枚（同じカードの複数枚を区別するため、インスタンスIDを持つ） */
+export interface GoldfishCard {
+    instanceId: string;
+    cardId: string;
+}
+
+export interface GoldfishOptions {
+    seed: number;
+    /** 初手の枚数 */
+    handSize: number;
+    mulliganType: MulliganType;
+    /** マリガンできる最大回数 */
+    maxMulligans: number;
+}
+
+export interface GoldfishState {
+    options: GoldfishOptions;
+    /** ゾーンごとのカード（山札は先頭が一番上） */
+    zones: Record<GoldfishZone, GoldfishCard[]>;
+    turn: number;
+    mulligans: number;
+    /** ロンドンマリガンで、デッキの下に戻す残りの枚数 */
+    pendingBottomCount: number;
+    /** 初手をキープしたか（キープ後はマリガンできない） */
+    isKept: boolean;
+    /** シャッフルした回数（シャッフルごとに異なる乱数列を使用する） */
+    shuffleCount: number;
+}
+
+// 補助関数: シャッフルの回数ごとの乱数生成器
+const createShuffleRandom = (seed: number, shuffleCount: number) =>
+    createSeededRandom((seed + Math.imul(shuffleCount, 0x9E3779B9)) >>> 0);
+
+// 補助関数: 空のゾーン
+const createEmptyZones = (): Record<GoldfishZone, GoldfishCard[]> => ({
+    library: [], hand: [], field: [], graveyard: [], exile: [],
+});
+
+// 補助関数: 全ゾーンのカードを山札に戻してシャッフルし、初手を配る
+const dealOpeningHand = (state: GoldfishState, mulligans: number): GoldfishState => {
+    const { handSize, mulliganType, seed } = state.options;
+    const allCards = GOLDFISH_ZONES.flatMap(zone => state.zones[zone])
+        .sort((a, b) => a.instanceId.localeCompare(b.instanceId, undefined, { numeric: true }));
+    const library = shuffleArray(allCards, createShuffleRandom(seed, state.shuffleCount));
+    const drawCount = Math.min(library.length, mulliganType === 'minusOne' ? Math.max(0, handSize - mulligans) : handSize);
+
+    return {
+        ...state,
+        zones: { ...createEmptyZones(), hand: library.slice(0, drawCount), library: library.slice(drawCount) },
+        turn: 1,
+        mulligans,
+        pendingBottomCount: mulliganType === 'london' ? Math.min(mulligans, drawCount) : 0,
+        isKept: false,
+        shuffleCount: state.shuffleCount + 1,
+    };
+};
+
+/**
+ * メインデッキから一人回しを開始する（シャッフルして初手を配る）。
+ * @param mainDeck - カードIDと枚数
+ * @param options - シード・初手の枚数・マリガンのルール
+ * @returns 初手を配った盤面
+ */
+export const createGoldfishGame = (mainDeck: Map<string, number>, options: GoldfishOptions): GoldfishState => {
+    const cards: GoldfishCard[] = [];
+    Array.from(mainDeck.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([cardId, count]) => {
+            for (let i = 0; i < count; i++) cards.push({ instanceId: String(cards.length), cardId });
+        });
+
+    const initial: GoldfishState = {
+        options: {
+            ...options,
+            handSize: Math.max(0, Math.floor(options.handSize)),
+            maxMulligans: Math.max(0, Math.floor(options.maxMulligans)),
+        },
+        zones: { ...createEmptyZones(), library: cards },
+        turn: 1,
+        mulligans: 0,
+        pendingBottomCount: 0,
+        isKept: false,
+        shuffleCount: 0,
+    };
+    return dealOpeningHand(initial, 0);
+};
+
+/**
+ * マリガンできる回数の上限を返す。
+ * 設定した最大回数に加え、1枚減らす・ロンドンでは初手の枚数を超えてマリガンできない（初手が0枚になるまで）。
+ */
+export const getMulliganLimit = (options: GoldfishOptions): number => {
+    if (options.mulliganType === 'none') return 0;
+    const maxMulligans = Math.max(0, Math.floor(options.maxMulligans));
+    return options.mulliganType === 'redraw' ? maxMulligans : Math.min(maxMulligans, options.handSize);
+};
+
+/**
+ * マリガンの回数が上限に達しているかを判定する（マリガンのルールが有効な場合のみ）。
+ */
+export const isMulliganLimitReached = (state: GoldfishState): boolean =>
+    state.options.mulliganType !== 'none' && state.mulligans >= getMulliganLimit(state.options);
+
+/**
+ * マリガンが可能かを判定する（キープ前で、マリガンのルールが有効で、回数が上限に達していない場合）。
+ */
+export const canMulligan = (state: GoldfishState): boolean =>
+    !state.isKept && state.options.mulliganType !== 'none' && !isMulliganLimitReached(state);
+
+/**
+ * マリガンする（全カードを山札に戻してシャッフルし、ルールに従って初手を配り直す）。
+ */
+export const mulliganGoldfish = (state: GoldfishState): GoldfishState =>
+    canMulligan(state) ? dealOpeningHand(state, state.mulligans + 1) : state;
+
+/**
+ * 初手をキープする。ロンドンマリガンでデッキの下に戻すカードが残っている場合はキープできない。
+ */
+export const keepGoldfishHand = (state: GoldfishState): GoldfishState =>
+    state.pendingBottomCount > 0 ? state : { ...state, isKept: true };
+
+/**
+ * 山札の上から指定した枚数を手札に加える（山札が足りない場合は引ける分だけ）。
+ */
+export const drawGoldfishCards = (state: GoldfishState, count: number): GoldfishState => {
+    const drawCount = Math.max(0, Math.min(Math.floor(count), state.zones.library.length));
+    if (drawCount === 0) return state;
+    return {
+        ...state,
+        zones: {
+            ...state.zones,
+            hand: [...state.zones.hand, ...state.zones.library.slice(0, drawCount)],
+            library: state.zones.library.slice(drawCount),
+        },
+    };
+};
+
+/**
+ * 次のターンに進み、指定した枚数をドローする（キープしていない場合は初手をキープする）。
+ */
+export const advanceGoldfishTurn = (state: GoldfishState, drawsPerTurn: number): GoldfishState => {
+    if (state.pendingBottomCount > 0) return state;
+    return drawGoldfishCards({ ...state, isKept: true, turn: state.turn + 1 }, drawsPerTurn);
+};
+
+/**
+ * 山札をシャッフルする。
+ */
+export const shuffleGoldfishLibrary = (state: GoldfishState): GoldfishState => ({
+    ...state,
+    zones: { ...state.zones, library: shuffleArray(state.zones.library, createShuffleRandom(state.options.seed, state.shuffleCount)) },
+    shuffleCount: state.shuffleCount + 1,
+});
+
+/**
+ * カードを別のゾーンに移動する。山札に移動したカードは一番下に置く。
+ * ロンドンマリガンでデッキの下に戻す枚数が残っている間は、手札から山札への移動でその枚数を減らす。
+ * @param state - 盤面
+ * @param instanceId - 移動するカード
+ * @param toZone - 移動先のゾーン
+ * @returns 移動後の盤面（カードが見つからない、または同じゾーンの場合は元の盤面）
+ */
+export const moveGoldfishCard = (state: GoldfishState, instanceId: string, toZone: GoldfishZone): GoldfishState => {
+    const fromZone = GOLDFISH_ZONES.find(zone => state.zones[zone].some(card => card.instanceId === instanceId));
+    if (!fromZone || fromZone === toZone) return state;
+    const card = state.zones[fromZone].find(c => c.instanceId === instanceId)!;
+
+    return {
+        ...state,
+        zones: {
+            ...state.zones,
+            [fromZone]: state.zones[fromZone].filter(c => c.instanceId !== instanceId),
+            [toZone]: [...state.zones[toZone], card],
+        },
+        pendingBottomCount: fromZone === 'hand' && toZone === 'library'
+            ? Math.max(0, state.pendingBottomCount - 1)
+            : state.pendingBottomCount,
+    };
+};
@@ -0,0 +1,346 @@
+/**
+ * src/services/draft/draftEngine.ts
+ *
+ * * ブースタードラフトの進行ロジックを提供するモジュール。
+ * 各席のブースターを開封シミュレーション（simulatePackOpening）で生成し、1ピックごとにパックを隣の席へ回す。
+ * プレイヤー以外の席はボット（設定可能なヒューリスティクス）がピックする。
+ * * 責務:
+ * 1. 席数 × ラウンド数分のブースターを、シードから再現可能な形で開封する（openDraftBoosters）。
+ * 2. ドラフトの状態（DraftState）を生成し、プレイヤーのピックに合わせて全席のピック・パスを進める（applyDraftPick）。
+ *    パスの方向はラウンドごとに左右を入れ替える。
+ * 3. ボットのピック（レアリティ順位 / num_X フィールド / これまでにピックした色）を決定する（chooseBotPick）。
+ * 4. プレイヤーのピックを、イベントプールのカード一覧（EventPoolCard[]）に集計する（collectDraftPool）。
+ */
+
+import type { Pack, Card, EventPoolCard } from '../../models/models';
+import { simulatePackOpening } from '../packs/packSimulation';
+import { resolvePackRarityDefinitions } from '../packs/rarityRegistry';
+
+// 席数・ラウンド数の範囲と既定値
+export const MIN_DRAFT_SEATS = 2;
+export const MAX_DRAFT_SEATS = 8;
+export const DEFAULT_DRAFT_SEATS = 8;
+export const MIN_DRAFT_ROUNDS = 1;
+export const MAX_DRAFT_ROUNDS = 5;
+export const DEFAULT_DRAFT_ROUNDS = 3;
+
+// プレイヤーの席番号
+export const HUMAN_SEAT_INDEX = 0;
+
+/**
+ * ボットのピック方針
+ * - rarity: レアリティ順位（封入設定の並び順で下ほど上位）が高いカードを優先
+ * - numField: 指定した数値フィールド（num_X）の値が大きいカードを優先
+ * - color: これまでにピックしたカードと同じ色（str_X フィールド）のカードを優先
+ */
+export type DraftBotStrategy = 'rarity' | 'numField' | 'color';
+
+export const DRAFT_BOT_STRATEGY_OPTIONS: { value: DraftBotStrategy; label: string }[] = [
+    { value: 'rarity', label: 'レアリティ優先' },
+    { value: 'numField', label: '数値フィールド優先' },
+    { value: 'color', label: '色を揃える' },
+];
+
+export type DraftNumField = 'num_1' | 'num_2' | 'num_3' | 'num_4' | 'num_5' | 'num_6';
+export type DraftColorField = 'str_1' | 'str_2' | 'str_3' | 'str_4' | 'str_5' | 'str_6';
+
+export const DRAFT_NUM_FIELD_OPTIONS: DraftNumField[] = ['num_1', 'num_2', 'num_3', 'num_4', 'num_5', 'num_6'];
+export const DRAFT_COLOR_FIELD_OPTIONS: DraftColorField[] = ['str_1', 'str_2', 'str_3', 'str_4', 'str_5', 'str_6'];
+
+/**
+ * ボット1席分のピック設定
+ */
+export interface DraftBotSettings {
+    strategy: DraftBotStrategy;
+    /** numField 方針で比較する数値フィールド */
+    numField: DraftNumField;
+    /** color 方針で色として扱う文字列フィールド（「赤/青」のように区切ると多色として扱う） */
+    colorField: DraftColorField;
+}
+
+export const DEFAULT_DRAFT_BOT_SETTINGS: DraftBotSettings = {
+    strategy: 'rarity',
+    numField: 'num_1',
+    colorField: 'str_1',
+};
+
+/**
+ * ドラフトの1席
+ */
+export interface DraftSeat {
+    seatIndex: number;
+    isHuman: boolean;
+    /** ボットのピック設定（プレイヤーの席は null） */
+    botSettings: DraftBotSettings | null;
+    /** ピックしたカードID（ピック順） */
+    picks: string[];
+}
+
+/**
+ * ドラフトの進行状態
+ */
+export interface DraftState {
+    packId: string;
+    seed: number;
+    seatCount: number;
+    roundCount: number;
+    /** 現在のラウンド (0始まり) */
+    round: number;
+    /** 現在のラウンド内のピック番号 (0始まり) */
+    pickInRound: number;
+    seats: DraftSeat[];
+    /** 開封済みのブースター [ラウンド][席] = カードID */
+    boosters: string[][][];
+    /** 各席の前にあるピック中のパック (席番号順) */
+    currentPacks: string[][];
+    isComplete: boolean;
+    /** ブースター開封時の警告 */
+    warnings: string[];
+}
+
+/**
+ * ボットのピック判定に使用する参照データ
+ */
+export interface DraftCardContext {
+    cardMap: Map<string, Card>;
+    /** レアリティ名 → 順位 (大きいほど上位) */
+    rarityRanks: Map<string, number>;
+}
+
+
+/**
+ * パックのレアリティの表示設定（未設定の場合は封入設定の並び順）から、レアリティ名 → 順位（大きいほど上位）のMapを作成する。
+ * @param pack - 対象のパック
+ * @returns レアリティの順位
+ */
+export const getDraftRarityRanks = (pack: Pack): Map<string, number> =>
+    new Map(resolvePackRarityDefinitions(pack).map(def => [def.rarityName, def.rank]));
+
+/**
+ * ラウンドごとのパスの方向を返す（偶数ラウンドは左 = 席番号 +1、奇数ラウンドは右 = 席番号 -1）。
+ * @param round - ラウンド (0始まり)
+ * @returns パスの方向 (1 または -1)
+ */
+export const getPassDirection = (round: number): 1 | -1 => round % 2 === 0 ? 1 : -1;
+
+/**
+ * 席数 × ラウンド数分のブースターを開封する。天井ルールは適用しない。
+ * 各ブースターのシードは (seed + ラウンド × 席数 + 席番号) とし、同じシードで同じドラフトを再現できる。
+ * @param pack - 開封するパック（Booster）
+ * @param seatCount - 席数
+ * @param roundCount - ラウンド数（1人あたりのパック数）
+ * @param seed - 基準のシード値
+ * @returns ブースター [ラウンド][席] と、開封時の警告
+ */
+export const openDraftBoosters = async (
+    pack: Pack,
+    seatCount: number,
+    roundCount: number,
+    seed: number
+): Promise<{ boosters: string[][][]; warnings: string[] }> => {
+    const boosters: string[][][] = [];
+    const warnings = new Set<string>();
+
+    for (let round = 0; round < roundCount; round++) {
+        const roundBoosters: string[][] = [];
+        for (let seat = 0; seat < seatCount; seat++) {
+            const result = await simulatePackOpening(pack, { seed: (seed + round * seatCount + seat) >>> 0 });
+            if (result.simulationWarning) warnings.add(result.simulationWarning);
+            roundBoosters.push(result.results.flatMap(({ cardId, count }) => Array<string>(count).fill(cardId)));
+        }
+        boosters.push(roundBoosters);
+    }
+
+    return { boosters, warnings: Array.from(warnings) };
+};
+
+/**
+ * ドラフトの初期状態を生成する（1ラウンド目のブースターを各席の前に配る）。
+ * @param pack - ドラフトに使用するパック
+ * @param seed - ブースター開封に使用したシード値
+ * @param boosters - 開封済みのブースター [ラウンド][席]
+ * @param botSettings - ボット席（席番号1以降）のピック設定
+ * @param context - カード情報とレアリティ順位（プレイヤーの前のパックが空の場合にボットのピックを進めるために使用）
+ * @param warnings - ブースター開封時の警告
+ * @returns ドラフトの初期状態
+ */
+export const createDraftState = (
+    pack: Pack,
+    seed: number,
+    boosters: string[][][],
+    botSettings: DraftBotSettings[],
+    context: DraftCardContext,
+    warnings: string[] = []
+): DraftState => {
+    const seatCount = boosters[0]?.length ?? 0;
+    const seats: DraftSeat[] = Array.from({ length: seatCount }, (_, seatIndex) => ({
+        seatIndex,
+        isHuman: seatIndex === HUMAN_SEAT_INDEX,
+        botSettings: seatIndex === HUMAN_SEAT_INDEX ? null : (botSettings[seatIndex - 1] ?? DEFAULT_DRAFT_BOT_SETTINGS),
+        picks: [],
+    }));
+
+    return skipEmptyHumanPicks({
+        packId: pack.packId,
+        seed,
+        seatCount,
+        roundCount: boosters.length,
+        round: 0,
+        pickInRound: 0,
+        seats,
+        boosters,
+        currentPacks: boosters[0]?.map(booster => [...booster]) ?? [],
+        isComplete: boosters.length === 0 || seatCount === 0,
+        warnings,
+    }, context);
+};
+
+// 補助関数: 文字列フィールドの値を色の配列に分割する（多色は区切り文字で表現）
+const splitColors = (value: string | undefined): string[] =>
+    (value ?? '').split(/[\s,、/・]+/).filter(color => color !== '');
+
+// 補助関数: ボットの方針に基づくカードの評価値（先頭の要素から順に比較する）
+const scoreCardForBot = (
+    card: Card | undefined,
+    settings: DraftBotSettings,
+    pickedColorCounts: Map<string, number>,
+    context: DraftCardContext
+): number[] => {
+    if (!card) return [-Infinity];
+    const rarityRank = context.rarityRanks.get(card.rarity) ?? -1;
+
+    switch (settings.strategy) {
+        case 'numField':
+            return [card[settings.numField] ?? -Infinity, rarityRank];
+        case 'color': {
+            const colorScore = Math.max(0, ...splitColors(card[settings.colorField]).map(color => pickedColorCounts.get(color) ?? 0));
+            return [colorScore, rarityRank];
+        }
+        case 'rarity':
+        default:
+            return [rarityRank];
+    }
+};
+
+// 補助関数: 評価値を先頭から比較する
+const compareScores = (a: number[], b: number[]): number => {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        const diff = (a[i] ?? -Infinity) - (b[i] ?? -Infinity);
+        if (diff !== 0 && !Number.isNaN(diff)) return diff;
+    }
+    return 0;
+};
+
+/**
+ * ボットがパックからピックするカードの位置を決定する。評価値が同じ場合はパックの先頭に近いカードを選ぶ。
+ * @param pack - ピック中のパック（カードID）
+ * @param picks - ボットがこれまでにピックしたカードID
+ * @param settings - ボットのピック設定
+ * @param context - カード情報とレアリティ順位
+ * @returns ピックするカードの位置（パックが空の場合は -1）
+ */
+export const chooseBotPick = (
+    pack: string[],
+    picks: string[],
+    settings: DraftBotSettings,
+    context: DraftCardContext
+): number => {
+    if (pack.length === 0) return -1;
+
+    const pickedColorCounts = new Map<string, number>();
+    if (settings.strategy === 'color') {
+        picks.forEach(cardId => splitColors(context.cardMap.get(cardId)?.[settings.colorField]).forEach(color => {
+            pickedColorCounts.set(color, (pickedColorCounts.get(color) ?? 0) + 1);
+        }));
+    }
+
+    let bestIndex = 0;
+    let bestScore = scoreCardForBot(context.cardMap.get(pack[0]), settings, pickedColorCounts, context);
+    for (let i = 1; i < pack.length; i++) {
+        const score = scoreCardForBot(context.cardMap.get(pack[i]), settings, pickedColorCounts, context);
+        if (compareScores(score, bestScore) > 0) {
+            bestIndex = i;
+            bestScore = score;
+        }
+    }
+    return bestIndex;
+};
+
+// 補助関数: 全席が1枚ずつピックし、パスしてラウンドを進める（humanPickIndex が null の場合、プレイヤーはピックしない）
+const advanceDraft = (state: DraftState, humanPickIndex: number | null, context: DraftCardContext): DraftState => {
+    // 各席がピックするカードの位置 (ピックしない場合は -1)
+    const pickIndexes = state.seats.map(seat => {
+        const pack = state.currentPacks[seat.seatIndex] ?? [];
+        const pickIndex = seat.isHuman
+            ? humanPickIndex ?? -1
+            : chooseBotPick(pack, seat.picks, seat.botSettings ?? DEFAULT_DRAFT_BOT_SETTINGS, context);
+        return pickIndex < pack.length ? pickIndex : -1;
+    });
+
+    const seats = state.seats.map((seat, seatIndex) => pickIndexes[seatIndex] < 0
+        ? seat
+        : { ...seat, picks: [...seat.picks, state.currentPacks[seatIndex][pickIndexes[seatIndex]]] });
+
+    // ピックしたカードを取り除いたパック
+    const remainingPacks = state.currentPacks.map((pack, seatIndex) =>
+        pickIndexes[seatIndex] < 0 ? pack : pack.filter((_, i) => i !== pickIndexes[seatIndex]));
+
+    // 全てのパックが空になったら次のラウンドへ
+    if (remainingPacks.every(pack => pack.length === 0)) {
+        const nextRound = state.round + 1;
+        if (nextRound >= state.roundCount) {
+            return { ...state, seats, currentPacks: remainingPacks, isComplete: true };
+        }
+        return {
+            ...state,
+            seats,
+            round: nextRound,
+            pickInRound: 0,
+            currentPacks: state.boosters[nextRound].map(booster => [...booster]),
+        };
+    }
+
+    // ラウンドの方向に合わせて隣の席へパス
+    const direction = getPassDirection(state.round);
+    const passedPacks = remainingPacks.map((_, seatIndex) =>
+        remainingPacks[(seatIndex - direction + state.seatCount) % state.seatCount]);
+
+    return { ...state, seats, pickInRound: state.pickInRound + 1, currentPacks: passedPacks };
+};
+
+// 補助関数: プレイヤーの前のパックが空の間（ブースターの枚数が揃っていない場合）、ボットのみでピックを進める
+const skipEmptyHumanPicks = (state: DraftState, context: DraftCardContext): DraftState => {
+    let current = state;
+    while (!current.isComplete && (current.currentPacks[HUMAN_SEAT_INDEX]?.length ?? 0) === 0) {
+        current = advanceDraft(current, null, context);
+    }
+    return current;
+};
+
+/**
+ * プレイヤーのピックを適用し、同時にボットもピックしてパックを回す。
+ * プレイヤーの前のパックが空になった場合は、ピックできるパックが回ってくるまでボットのみで進める。
+ * @param state - 現在のドラフトの状態
+ * @param humanPickIndex - プレイヤーがピックするカードの、パック内の位置
+ * @param context - カード情報とレアリティ順位
+ * @returns 次のドラフトの状態
+ */
+export const applyDraftPick = (state: DraftState, humanPickIndex: number, context: DraftCardContext): DraftState => {
+    if (state.isComplete) return state;
+    const humanPack = state.currentPacks[HUMAN_SEAT_INDEX] ?? [];
+    if (humanPickIndex < 0 || humanPickIndex >= humanPack.length) {
+        throw new Error('ピックするカードの位置が不正です。');
+    }
+    return skipEmptyHumanPicks(advanceDraft(state, humanPickIndex, context), context);
+};
+
+/**
+ * ピックしたカードIDを、イベントプールのカード一覧に集計する（初めてピックした順）。
+ * @param picks - ピックしたカードID（ピック順）
+ * @returns カードIDと枚数の一覧
+ */
+export const collectDraftPool = (picks: string[]): EventPoolCard[] => {
+    const counts = new Map<string, number>();
+    picks.forEach(cardId => counts.set(cardId, (counts.get(cardId) ?? 0) + 1));
+    return Array.from(counts.entries()).map(([cardId, count]) => ({ cardId, count }));
+};
@@ -0,0 +1,102 @@
+/**
+ * src/services/event-pools/eventPoolService.ts
+ *
+ * * イベントプール（EventPool）のデータベースアクセスとローカルキャッシュ管理を担うサービス層モジュール。
+ * * 責務:
+ * 1. EventPool の取得・保存・削除を担う。
+ * 2. コレクション（'eventPools'）において EventPool のローカルキャッシュ（_poolCache）を管理する。
+ * 3. DB操作のロギングとエラーハンドリングを行う。
+ */
+import type { EventPool } from '../../models/models';
+import {
+    fetchAllItemsFromCollection,
+    bulkPutItemsToCollection,
+    bulkDeleteItemsFromCollection,
+} from '../database/dbCore';
+
+let _poolCache: Map<string, EventPool> | null = null;
+
+export type CollectionKey = 'eventPools';
+
+// EventPool は DB レコードとドメインモデルが同一構造のため、そのまま返す
+const toEventPool = (record: EventPool): EventPool => record;
+
+// 新しいプールが先頭になるよう並べ替える
+const sortByCreatedAtDesc = (pools: EventPool[]): EventPool[] =>
+    [...pools].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+
+export const eventPoolService = {
+
+    // ----------------------------------------
+    // Cache Load / Read (キャッシュ/DBからの取得)
+    // ----------------------------------------
+
+    getAllPoolsFromCache(): EventPool[] {
+        return _poolCache ? sortByCreatedAtDesc(Array.from(_poolCache.values())) : [];
+    },
+
+    /**
+     * コレクション（'eventPools'）から全てのイベントプールを取得します。（新しい順）
+     */
+    async fetchAllPools(): Promise<EventPool[]> {
+        const collectionKey: CollectionKey = 'eventPools';
+
+        if (_poolCache) {
+            console.log(`[EventPoolService:fetchAllPools] ✅ Cache hit (all event pools).`);
+            return this.getAllPoolsFromCache();
+        }
+
+        try {
+            const pools = await fetchAllItemsFromCollection<EventPool, EventPool>(collectionKey, toEventPool);
+            _poolCache = new Map(pools.map(p => [p.poolId, p]));
+            console.log(`[EventPoolService:fetchAllPools] ✅ Loaded ${pools.length} event pools from ${collectionKey}.`);
+            return sortByCreatedAtDesc(pools);
+        } catch (error) {
+            console.error(`[EventPoolService:fetchAllPools] ❌ Failed to fetch from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    // ----------------------------------------
+    // CRUD (保存・削除 - バルク対応)
+    // ----------------------------------------
+
+    /**
+     * EventPool[] をコレクション（'eventPools'）に保存します。（バルク処理）
+     */
+    async savePools(itemsToSave: EventPool[]): Promise<EventPool[]> {
+        if (itemsToSave.length === 0) return [];
+
+        const collectionKey: CollectionKey = 'eventPools';
+
+        try {
+            await bulkPutItemsToCollection<EventPool>(collectionKey, itemsToSave);
+            itemsToSave.forEach(pool => _poolCache?.set(pool.poolId, pool));
+
+            console.log(`[EventPoolService:savePools] ✅ Saved ${itemsToSave.length} event pools.`);
+            return itemsToSave;
+        } catch (error) {
+            console.error(`[EventPoolService:savePools] ❌ Failed to save event pools to ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * 指定IDのイベントプールをコレクション（'eventPools'）から削除します。（バルク処理）
+     */
+    async deletePools(poolIds: string[]): Promise<void> {
+        if (poolIds.length === 0) return;
+
+        const collectionKey: CollectionKey = 'eventPools';
+
+        try {
+            await bulkDeleteItemsFromCollection(collectionKey, poolIds);
+            poolIds.forEach(id => _poolCache?.delete(id));
+            console.log(`[EventPoolService:deletePools] ✅ Deleted ${poolIds.length} event pools.`);
+        } catch (error) {
+            console.error(`[EventPoolService:deletePools] ❌ Failed to delete event pools from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+};
@@ -0,0 +1,69 @@
+/**
+ * src/services/event-pools/sealedPoolGenerator.ts
+ *
+ * * シールド（複数のパックを開封し、そのカードだけでデッキを構築する形式）のカードプールを生成する純粋なロジック層モジュール。
+ * 開封結果はユーザーの所持カード（cardPool）には反映せず、イベントプールのカード一覧として返します。
+ *
+ * * 責務:
+ * 1. シールドに使用するパックと開封数の組（SealedPackEntry）を定義する。
+ * 2. 指定されたパックを、シードから再現可能な形で順に開封する（天井ルールは適用しない）。
+ * 3. 開封結果を、イベントプールのカード一覧（EventPoolCard[]）に集計する（openSealedPool）。
+ */
+
+import type { Pack, EventPoolCard } from '../../models/models';
+import { simulatePackOpening } from '../packs/packSimulation';
+
+// 1種類のパックあたりの開封数の範囲と既定値
+export const MIN_SEALED_PACK_COUNT = 1;
+export const MAX_SEALED_PACK_COUNT = 30;
+export const DEFAULT_SEALED_PACK_COUNT = 6;
+
+/**
+ * シールドで開封するパックと、その開封数
+ */
+export interface SealedPackEntry {
+    pack: Pack;
+    count: number;
+}
+
+/**
+ * シールドのプール生成結果
+ */
+export interface SealedPoolResult {
+    /** 獲得したカード（初出順） */
+    cards: EventPoolCard[];
+    /** 開封したパックの総数 */
+    openedPackCount: number;
+    /** 開封時の警告（重複は除く） */
+    warnings: string[];
+}
+
+/**
+ * 指定されたパックを開封し、シールドのカードプールを生成する。天井ルールは適用しない。
+ * 各パックのシードは (seed + 開封順の通し番号) とし、同じ構成・シードで同じプールを再現できる。
+ * @param entries - 開封するパックと開封数（この順に開封する）
+ * @param seed - 基準のシード値
+ * @returns 集計したカード一覧と、開封時の警告
+ */
+export const openSealedPool = async (entries: SealedPackEntry[], seed: number): Promise<SealedPoolResult> => {
+    const counts = new Map<string, number>();
+    const warnings = new Set<string>();
+    let openedPackCount = 0;
+
+    for (const { pack, count } of entries) {
+        for (let i = 0; i < count; i++) {
+            const result = await simulatePackOpening(pack, { seed: (seed + openedPackCount) >>> 0 });
+            if (result.simulationWarning) warnings.add(result.simulationWarning);
+            result.results.forEach(({ cardId, count: cardCount }) => {
+                counts.set(cardId, (counts.get(cardId) ?? 0) + cardCount);
+            });
+            openedPackCount++;
+        }
+    }
+
+    return {
+        cards: Array.from(counts.entries()).map(([cardId, count]) => ({ cardId, count })),
+        openedPackCount,
+        warnings: Array.from(warnings),
+    };
+};
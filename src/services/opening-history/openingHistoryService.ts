@@ -0,0 +1,120 @@
+/**
+ * src/services/opening-history/openingHistoryService.ts
+ *
+ * * パック開封履歴（OpeningRecord）のデータベースアクセスとローカルキャッシュ管理を担うサービス層モジュール。
+ * * 責務:
+ * 1. OpeningRecord の取得・保存・削除・全体置き換え（インポート用）を担う。
+ * 2. コレクション（'openingHistory'）において OpeningRecord のローカルキャッシュ（_recordCache）を管理する。
+ * 3. DB操作のロギングとエラーハンドリングを行う。
+ */
+import type { OpeningRecord } from '../../models/models';
+import {
+    fetchAllItemsFromCollection,
+    bulkPutItemsToCollection,
+    bulkDeleteItemsFromCollection,
+} from '../database/dbCore';
+
+let _recordCache: Map<string, OpeningRecord> | null = null;
+
+export type CollectionKey = 'openingHistory';
+
+// OpeningRecord は DB レコードとドメインモデルが同一構造のため、そのまま返す
+const toOpeningRecord = (record: OpeningRecord): OpeningRecord => record;
+
+// 新しい記録が先頭になるよう並べ替える
+const sortByOpenedAtDesc = (records: OpeningRecord[]): OpeningRecord[] =>
+    [...records].sort((a, b) => b.openedAt.localeCompare(a.openedAt));
+
+
+export const openingHistoryService = {
+
+    // ----------------------------------------
+    // Cache Load / Read (キャッシュ/DBからの取得)
+    // ----------------------------------------
+
+    getAllRecordsFromCache(): OpeningRecord[] {
+        return _recordCache ? sortByOpenedAtDesc(Array.from(_recordCache.values())) : [];
+    },
+
+    /**
+     * コレクション（'openingHistory'）から全ての開封記録を取得します。（新しい順）
+     */
+    async fetchAllRecords(): Promise<OpeningRecord[]> {
+        const collectionKey: CollectionKey = 'openingHistory';
+
+        if (_recordCache) {
+            console.log(`[OpeningHistoryService:fetchAllRecords] ✅ Cache hit (all opening records).`);
+            return this.getAllRecordsFromCache();
+        }
+
+        try {
+            const records = await fetchAllItemsFromCollection<OpeningRecord, OpeningRecord>(collectionKey, toOpeningRecord);
+            _recordCache = new Map(records.map(r => [r.recordId, r]));
+            console.log(`[OpeningHistoryService:fetchAllRecords] ✅ Loaded ${records.length} opening records from ${collectionKey}.`);
+            return sortByOpenedAtDesc(records);
+        } catch (error) {
+            console.error(`[OpeningHistoryService:fetchAllRecords] ❌ Failed to fetch from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    // ----------------------------------------
+    // CRUD (保存・削除・置き換え - バルク対応)
+    // ----------------------------------------
+
+    /**
+     * OpeningRecord[] をコレクション（'openingHistory'）に保存します。（バルク処理）
+     */
+    async saveRecords(itemsToSave: OpeningRecord[]): Promise<OpeningRecord[]> {
+        if (itemsToSave.length === 0) return [];
+
+        const collectionKey: CollectionKey = 'openingHistory';
+
+        try {
+            await bulkPutItemsToCollection<OpeningRecord>(collectionKey, itemsToSave);
+            itemsToSave.forEach(record => _recordCache?.set(record.recordId, record));
+
+            console.log(`[OpeningHistoryService:saveRecords] ✅ Saved ${itemsToSave.length} opening records.`);
+            return itemsToSave;
+        } catch (error) {
+            console.error(`[OpeningHistoryService:saveRecords] ❌ Failed to save opening records to ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * 指定IDの開封記録をコレクション（'openingHistory'）から削除します。（バルク処理）
+     */
+    async deleteRecords(recordIds: string[]): Promise<void> {
+        if (recordIds.length === 0) return;
+
+        const collectionKey: CollectionKey = 'openingHistory';
+
+        try {
+            await bulkDeleteItemsFromCollection(collectionKey, recordIds);
+            recordIds.forEach(id => _recordCache?.delete(id));
+            console.log(`[OpeningHistoryService:deleteRecords] ✅ Deleted ${recordIds.length} opening records.`);
+        } catch (error) {
+            console.error(`[OpeningHistoryService:deleteRecords] ❌ Failed to delete opening records from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * 全ての開封記録を、指定されたデータで置き換えます。（ZIPインポート用）
+     */
+    async replaceAllRecords(records: OpeningRecord[]): Promise<void> {
+        const collectionKey: CollectionKey = 'openingHistory';
+
+        try {
+            const existingIds = (await this.fetchAllRecords()).map(r => r.recordId);
+            await bulkDeleteItemsFromCollection(collectionKey, existingIds);
+            _recordCache = new Map();
+            await this.saveRecords(records);
+            console.log(`[OpeningHistoryService:replaceAllRecords] ✅ Replaced opening history (${records.length} records).`);
+        } catch (error) {
+            console.error(`[OpeningHistoryService:replaceAllRecords] ❌ Failed to replace opening history in ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+};
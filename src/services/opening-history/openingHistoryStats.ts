@@ -0,0 +1,267 @@
+/**
+ * src/services/opening-history/openingHistoryStats.ts
+ *
+ * * パック開封履歴（OpeningRecord[]）から、パックごとの統計を算出するモジュール。
+ * 設定上の期待値は `priceUtils` の解析的な期待値（calculateExpectedCounts）を使用し、
+ * 現在のパックの封入設定と比較する（天井・ボックス保証などによる補正は考慮しない）。
+ * * 責務:
+ * 1. 全体およびパックごとの開封回数・パック数・総枚数・消費コインを集計する。
+ * 2. パックごとに、レアリティ別の実測枚数・実測率と、封入設定から算出した期待枚数・設定率を比較する。
+ * 3. パックのレアリティの順位（resolvePackRarityDefinitions）に基づき、上位レアリティの引き（ベストプル）を抽出する。
+ * 4. カイ二乗適合度検定（χ²値・自由度・p値）と上位レアリティの実測/期待比から、「運」の指標を算出する。
+ */
+
+import type { Pack, OpeningRecord } from '../../models/models';
+import { calculateExpectedCounts } from '../../utils/priceUtils';
+import { resolvePackRarityDefinitions } from '../packs/rarityRegistry';
+
+// 定数: パックごとに抽出するベストプルの件数
+const BEST_PULL_LIMIT = 5;
+// 定数: 偏りを有意とみなす p値の閾値
+const LUCK_SIGNIFICANCE_LEVEL = 0.05;
+const LUCK_STRONG_SIGNIFICANCE_LEVEL = 0.01;
+
+/**
+ * レアリティ別の実測値と設定値の比較
+ */
+export interface RarityRateStat {
+    rarityName: string;
+    observedCount: number;
+    observedRate: number;          // 実測枚数 / 総枚数
+    expectedCount: number | null;  // 封入設定から算出した期待枚数 (設定にないレアリティは null)
+    configuredRate: number | null; // 期待枚数 / 期待総枚数
+}
+
+/**
+ * 上位レアリティの引き
+ */
+export interface BestPull {
+    recordId: string;
+    openedAt: string;
+    cardId: string;
+    rarity: string;
+    count: number;
+}
+
+export type LuckLevel = 'veryLucky' | 'lucky' | 'average' | 'unlucky' | 'veryUnlucky';
+
+/**
+ * カイ二乗適合度検定に基づく「運」の指標
+ */
+export interface LuckIndicator {
+    chiSquare: number;
+    degreesOfFreedom: number;
+    pValue: number;
+    /** 最下位レアリティを除く上位レアリティの実測/期待比 (1より大きければ上振れ) */
+    hitRatio: number | null;
+    level: LuckLevel;
+}
+
+/**
+ * パックごとの統計
+ */
+export interface PackHistoryStats {
+    packId: string;
+    packName: string;
+    recordCount: number;
+    packCount: number;
+    totalCards: number;
+    totalSpent: number;
+    lastOpenedAt: string;
+    rarityStats: RarityRateStat[];
+    bestPulls: BestPull[];
+    luck: LuckIndicator | null; // パックが存在しない、または Booster 以外の場合は null
+}
+
+/**
+ * 開封履歴全体の統計
+ */
+export interface OpeningHistoryStats {
+    recordCount: number;
+    packCount: number;
+    totalCards: number;
+    totalSpent: number;
+    packStats: PackHistoryStats[];
+}
+
+
+// 補助関数: ガンマ関数の対数 (Lanczos 近似)
+// 係数は Numerical Recipes の公開値をそのまま記載する (double への丸めによる差は結果に影響しない)
+const logGamma = (x: number): number => {
+    const coefficients = [
+        // eslint-disable-next-line no-loss-of-precision
+        76.18009172947146, -86.50532032941677, 24.01409824083091,
+        -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+    ];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    for (const c of coefficients) series += c / ++y;
+    // eslint-disable-next-line no-loss-of-precision
+    return -tmp + Math.log(2.5066282746310005 * series / x);
+};
+
+// 補助関数: 正則化された上側不完全ガンマ関数 Q(a, x) (級数展開 / 連分数展開)
+const regularizedGammaQ = (a: number, x: number): number => {
+    if (x <= 0) return 1;
+    const gln = logGamma(a);
+
+    if (x < a + 1) {
+        // 級数展開で P(a, x) を求め、1 - P を返す
+        let sum = 1 / a;
+        let term = sum;
+        for (let n = 1; n < 200; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+        }
+        return 1 - sum * Math.exp(-x + a * Math.log(x) - gln);
+    }
+
+    // 連分数展開 (Lentz 法)
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 200; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-12) break;
+    }
+    return Math.exp(-x + a * Math.log(x) - gln) * h;
+};
+
+// 補助関数: 自由度 df のカイ二乗分布における上側確率 (p値)
+const chiSquarePValue = (chiSquare: number, degreesOfFreedom: number): number =>
+    Math.min(1, Math.max(0, regularizedGammaQ(degreesOfFreedom / 2, chiSquare / 2)));
+
+// 補助関数: パックの1パックあたりの期待枚数 (封入設定の並び順)
+const getExpectedCountsPerPack = (pack: Pack): { rarityName: string, expectedCount: number }[] => {
+    const cardsPerPack = pack.cardsPerPack ?? 0;
+    if (pack.packType !== 'Booster' || cardsPerPack <= 0) return [];
+    return calculateExpectedCounts(pack).map(v => ({ rarityName: v.rarityName, expectedCount: v.expectedCount }));
+};
+
+// 補助関数: χ²値・p値と上位レアリティの実測/期待比から運の指標を算出する
+const calculateLuck = (rarityStats: RarityRateStat[], rarityRanking: string[]): LuckIndicator | null => {
+    const testable = rarityStats.filter(s => s.expectedCount !== null && s.expectedCount > 0);
+    if (testable.length < 2) return null;
+
+    const chiSquare = testable.reduce((sum, s) => sum + (s.observedCount - s.expectedCount!) ** 2 / s.expectedCount!, 0);
+    const degreesOfFreedom = testable.length - 1;
+    const pValue = chiSquarePValue(chiSquare, degreesOfFreedom);
+
+    // 最下位レアリティ (順位の最も低いレアリティ) を除く上位レアリティ
+    const hitStats = testable.filter(s => rarityRanking.indexOf(s.rarityName) > 0);
+    const hitExpected = hitStats.reduce((sum, s) => sum + s.expectedCount!, 0);
+    const hitObserved = hitStats.reduce((sum, s) => sum + s.observedCount, 0);
+    const hitRatio = hitExpected > 0 ? hitObserved / hitExpected : null;
+
+    let level: LuckLevel = 'average';
+    if (pValue < LUCK_SIGNIFICANCE_LEVEL && hitRatio !== null && hitRatio !== 1) {
+        const isStrong = pValue < LUCK_STRONG_SIGNIFICANCE_LEVEL;
+        if (hitRatio > 1) level = isStrong ? 'veryLucky' : 'lucky';
+        else level = isStrong ? 'veryUnlucky' : 'unlucky';
+    }
+
+    return { chiSquare, degreesOfFreedom, pValue, hitRatio, level };
+};
+
+// 補助関数: 1パック分の統計を算出する
+const calculatePackStats = (packId: string, records: OpeningRecord[], pack: Pack | undefined): PackHistoryStats => {
+    const packCount = records.reduce((sum, r) => sum + r.packCount, 0);
+    const observedCounts = new Map<string, number>();
+    records.forEach(r => r.results.forEach(result => {
+        observedCounts.set(result.rarity, (observedCounts.get(result.rarity) || 0) + result.count);
+    }));
+    const totalCards = Array.from(observedCounts.values()).reduce((sum, n) => sum + n, 0);
+
+    const expectedPerPack = pack ? getExpectedCountsPerPack(pack) : [];
+    const rarityOrder = expectedPerPack.map(e => e.rarityName);
+    // レアリティ名 (順位の低い順)。上位レアリティの判定に使用する
+    const rarityRanking = pack ? resolvePackRarityDefinitions(pack).map(def => def.rarityName) : [];
+    const expectedTotal = expectedPerPack.reduce((sum, e) => sum + e.expectedCount, 0) * packCount;
+
+    const rarityStats: RarityRateStat[] = expectedPerPack.map(({ rarityName, expectedCount }) => {
+        const observedCount = observedCounts.get(rarityName) || 0;
+        const expected = expectedCount * packCount;
+        return {
+            rarityName,
+            observedCount,
+            observedRate: totalCards > 0 ? observedCount / totalCards : 0,
+            expectedCount: expected,
+            configuredRate: expectedTotal > 0 ? expected / expectedTotal : 0,
+        };
+    });
+    // 現在の封入設定にないレアリティ (設定変更前の記録など) は実測値のみを表示する
+    observedCounts.forEach((observedCount, rarityName) => {
+        if (rarityOrder.includes(rarityName)) return;
+        rarityStats.push({
+            rarityName,
+            observedCount,
+            observedRate: totalCards > 0 ? observedCount / totalCards : 0,
+            expectedCount: null,
+            configuredRate: null,
+        });
+    });
+
+    // ベストプル: 上位レアリティ (順位の高い順) を優先し、同じレアリティは新しい順
+    const bestPulls: BestPull[] = records
+        .flatMap(r => r.results
+            .filter(result => rarityRanking.indexOf(result.rarity) > 0)
+            .map(result => ({ recordId: r.recordId, openedAt: r.openedAt, ...result })))
+        .sort((a, b) =>
+            rarityRanking.indexOf(b.rarity) - rarityRanking.indexOf(a.rarity)
+            || b.openedAt.localeCompare(a.openedAt)
+        )
+        .slice(0, BEST_PULL_LIMIT);
+
+    return {
+        packId,
+        packName: pack?.name ?? records[0]?.packName ?? packId,
+        recordCount: records.length,
+        packCount,
+        totalCards,
+        totalSpent: records.reduce((sum, r) => sum + r.coinsSpent, 0),
+        lastOpenedAt: records.reduce((latest, r) => r.openedAt > latest ? r.openedAt : latest, ''),
+        rarityStats,
+        bestPulls,
+        luck: pack ? calculateLuck(rarityStats, rarityRanking) : null,
+    };
+};
+
+
+/**
+ * 開封履歴から、全体およびパックごとの統計を算出する。
+ * @param records - 開封記録
+ * @param packs - 現在のパック一覧（期待値の算出に使用。削除済みのパックは実測値のみ）
+ * @returns 開封履歴全体の統計（パックごとの統計は最終開封日時の新しい順）
+ */
+export const calculateOpeningHistoryStats = (records: OpeningRecord[], packs: Pack[]): OpeningHistoryStats => {
+    const recordsByPack = new Map<string, OpeningRecord[]>();
+    records.forEach(r => {
+        const list = recordsByPack.get(r.packId) ?? [];
+        list.push(r);
+        recordsByPack.set(r.packId, list);
+    });
+
+    const packStats = Array.from(recordsByPack.entries())
+        .map(([packId, packRecords]) => calculatePackStats(packId, packRecords, packs.find(p => p.packId === packId)))
+        .sort((a, b) => b.lastOpenedAt.localeCompare(a.lastOpenedAt));
+
+    return {
+        recordCount: records.length,
+        packCount: packStats.reduce((sum, s) => sum + s.packCount, 0),
+        totalCards: packStats.reduce((sum, s) => sum + s.totalCards, 0),
+        totalSpent: packStats.reduce((sum, s) => sum + s.totalSpent, 0),
+        packStats,
+    };
+};
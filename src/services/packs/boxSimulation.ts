@@ -0,0 +1,282 @@
+/**
+ * src/services/packs/boxSimulation.ts
+ *
+ * * ボックス商品（Box）の開封シミュレーションロジックを提供するモジュール。
+ * 各パックのレアリティ抽選は `simulateRarityDraws` に委譲し、ボックス全体に対して封入保証（最低枚数）と
+ * 封入上限（最大枚数）を適用した上で、収録カードを選択する。
+ * * 責務:
+ * 1. ボックス設定（パック数・保証・上限）の妥当性を検証し、警告メッセージを生成する（validateBoxRules）。
+ * 2. 参照パックの封入設定に基づき、ボックス内の全パックのレアリティを抽選する。
+ * 3. ボックス全体で封入保証を満たすよう、保証レアリティより下位で、かつ保証レアリティを封入できるスロットを
+ *    順位の低い順に保証レアリティに置き換える。
+ * 4. ボックス全体で封入上限を超えたスロットを、パックの基本確率（スロット構成の場合はその枠の重み）に従って別のレアリティで再抽選する。
+ * 5. 最終的なレアリティ列から `pickCardsForRarities` でカードを選択し（パック単位の重複制御を適用）、`{ cardId, count }[]` 形式で集計して返す。
+ * 6. シード付き乱数生成器を使用し、同じシードで開封結果を再現可能にする。
+ */
+
+import type { Box, Pack, SlotCardFilter } from '../../models/models';
+import { simulateRarityDraws, pickCardsForRarities, createDuplicateRestriction, isSlotLayoutActive } from './packSimulation';
+import { resolvePackRarityDefinitions } from './rarityRegistry';
+import {
+    createSeededRandom,
+    generateSeed,
+    selectRandomItem,
+    selectWeightedItem,
+    type RandomGenerator,
+    type WeightedItem,
+} from '../../utils/randomUtils';
+
+/**
+ * simulateBoxOpening のオプション
+ */
+export interface BoxOpeningOptions {
+    /** 抽選に使用するシード値。省略時は新しいシードを生成する */
+    seed?: number;
+}
+
+/**
+ * ボックス開封の結果
+ */
+export interface BoxSimulationResult {
+    results: { cardId: string, count: number }[];
+    simulationWarning: string | null;
+    seed: number;
+}
+
+// ボックス内のスロット位置 (パック番号, パック内の位置)
+interface SlotPosition {
+    packIndex: number;
+    slotIndex: number;
+}
+
+// 警告メッセージを改行区切りで連結する補助関数
+const appendWarning = (current: string | null, warning: string): string =>
+    current ? `${current}\n${warning}` : warning;
+
+// 補助関数: パック内の位置ごとの抽選テーブルを取得する関数を返す (上限超過スロットの再抽選・保証の置き換え先の判定に使用)
+// スロット構成の場合は抽選テーブルが空の枠を除いた各枠の重み (simulateSlotOpening と同じ位置)、それ以外はパックの基本確率
+const createSlotWeightsResolver = (pack: Pack): (slotIndex: number) => WeightedItem[] => {
+    if (isSlotLayoutActive(pack)) {
+        const slotWeights = (pack.slotLayout ?? [])
+            .map(slot => slot.rarityWeights
+                .filter(w => w.rarityName && w.weight > 0)
+                .map(w => ({ key: w.rarityName, probability: w.weight })))
+            .filter(weights => weights.length > 0);
+        return slotIndex => slotWeights[slotIndex] ?? [];
+    }
+
+    const isAdvancedEnabled = pack.isAdvancedRulesEnabled && pack.advancedRarityConfig && pack.advancedRarityConfig.length > 0;
+    const configs = isAdvancedEnabled ? pack.advancedRarityConfig! : pack.rarityConfig;
+    const baseWeights = configs.map(c => ({ key: c.rarityName, probability: c.probability }));
+    return () => baseWeights;
+};
+
+
+/**
+ * ボックス設定の妥当性を検証する。
+ * @param box - 検証対象のボックス
+ * @param pack - ボックスが参照するパック（見つからない場合は undefined）
+ * @returns 警告メッセージの配列（問題がなければ空配列）
+ */
+export const validateBoxRules = (box: Box, pack: Pack | undefined): string[] => {
+    const messages: string[] = [];
+
+    if (!pack) {
+        messages.push('参照しているパックが見つかりません。');
+        return messages;
+    }
+    if (pack.packType !== 'Booster') {
+        messages.push('ボックスは Booster パックのみ参照できます。');
+    }
+    if (!Number.isInteger(box.packCount) || box.packCount < 1) {
+        messages.push('パック数は1以上の整数で指定してください。');
+    }
+
+    const rarityNames = new Set(resolvePackRarityDefinitions(pack).map(def => def.rarityName));
+    const totalSlots = Math.max(0, box.packCount) * (pack.cardsPerPack ?? 0);
+
+    [...box.guarantees.map(g => g.rarityName), ...box.caps.map(c => c.rarityName)]
+        .filter((name, index, all) => all.indexOf(name) === index && !rarityNames.has(name))
+        .forEach(name => messages.push(`レアリティ「${name}」はパックの封入設定に存在しません。`));
+
+    const totalGuaranteed = box.guarantees.reduce((sum, g) => sum + Math.max(0, g.minCount), 0);
+    if (totalGuaranteed > totalSlots) {
+        messages.push(`封入保証の合計 (${totalGuaranteed}枚) がボックスの総枚数 (${totalSlots}枚) を超えています。`);
+    }
+
+    for (const guarantee of box.guarantees) {
+        const cap = box.caps.find(c => c.rarityName === guarantee.rarityName);
+        if (cap && guarantee.minCount > cap.maxCount) {
+            messages.push(`レアリティ「${guarantee.rarityName}」の封入保証 (${guarantee.minCount}枚) が封入上限 (${cap.maxCount}枚) を超えています。`);
+        }
+    }
+
+    return messages;
+};
+
+
+// 補助関数: ボックス全体の封入保証と封入上限を、抽選済みのレアリティ列に適用する (packRarities を直接更新)
+const enforceBoxRules = (
+    packRarities: string[][],
+    box: Box,
+    pack: Pack,
+    random: RandomGenerator
+): string | null => {
+    let warning: string | null = null;
+
+    const counts = new Map<string, number>();
+    packRarities.flat().forEach(r => counts.set(r, (counts.get(r) || 0) + 1));
+    const getCount = (rarity: string) => counts.get(rarity) || 0;
+
+    const minCounts = new Map(box.guarantees.map(g => [g.rarityName, Math.max(0, g.minCount)]));
+    const maxCounts = new Map(box.caps.map(c => [c.rarityName, Math.max(0, c.maxCount)]));
+    const getSlotWeights = createSlotWeightsResolver(pack);
+    const ranks = new Map(resolvePackRarityDefinitions(pack).map(def => [def.rarityName, def.rank]));
+    const getRank = (rarity: string) => ranks.get(rarity) ?? -1;
+
+    const replaceSlot = ({ packIndex, slotIndex }: SlotPosition, newRarity: string) => {
+        const oldRarity = packRarities[packIndex][slotIndex];
+        counts.set(oldRarity, getCount(oldRarity) - 1);
+        counts.set(newRarity, getCount(newRarity) + 1);
+        packRarities[packIndex][slotIndex] = newRarity;
+    };
+
+    const findSlots = (predicate: (rarity: string, slotIndex: number) => boolean): SlotPosition[] => {
+        const slots: SlotPosition[] = [];
+        packRarities.forEach((rarities, packIndex) => rarities.forEach((rarity, slotIndex) => {
+            if (predicate(rarity, slotIndex)) slots.push({ packIndex, slotIndex });
+        }));
+        return slots;
+    };
+
+    // ------------------------------------
+    // 🎯 ステップ 1: 封入保証 (最低枚数) の適用
+    // ------------------------------------
+    for (const [rarityName, minCount] of minCounts) {
+        const guaranteedRank = ranks.get(rarityName) ?? Number.POSITIVE_INFINITY;
+        while (getCount(rarityName) < minCount) {
+            // 置き換え可能なスロット: 保証レアリティより下位で、その枠で保証レアリティを封入でき、
+            // かつ置き換えても自身の保証を下回らないもの
+            const candidates = findSlots((r, slotIndex) =>
+                getRank(r) < guaranteedRank
+                && getCount(r) > (minCounts.get(r) ?? 0)
+                && getSlotWeights(slotIndex).some(w => w.key === rarityName)
+            );
+            // 最も下位のレアリティのスロットから置き換える
+            const lowestRank = Math.min(...candidates.map(({ packIndex, slotIndex }) => getRank(packRarities[packIndex][slotIndex])));
+            const target = selectRandomItem(
+                candidates.filter(({ packIndex, slotIndex }) => getRank(packRarities[packIndex][slotIndex]) === lowestRank),
+                random
+            );
+            if (!target) {
+                warning = appendWarning(warning, `⚠️ 警告: レアリティ「${rarityName}」の封入保証 (${minCount}枚) を満たせませんでした。`);
+                break;
+            }
+            replaceSlot(target, rarityName);
+        }
+    }
+
+    // ------------------------------------
+    // 🎯 ステップ 2: 封入上限 (最大枚数) の適用
+    // ------------------------------------
+    for (const [rarityName, maxCount] of maxCounts) {
+        while (getCount(rarityName) > maxCount) {
+            // 再抽選の候補: その枠の抽選テーブルのうち、上限に達していないレアリティ (確率を再正規化)
+            const getAllowedWeights = (slotIndex: number) => getSlotWeights(slotIndex).filter(w =>
+                w.key !== rarityName && getCount(w.key) < (maxCounts.get(w.key) ?? Infinity)
+            );
+            const target = selectRandomItem(
+                findSlots((r, slotIndex) => r === rarityName && getAllowedWeights(slotIndex).length > 0),
+                random
+            );
+            const allowed = target ? getAllowedWeights(target.slotIndex) : [];
+            const totalWeight = allowed.reduce((sum, w) => sum + w.probability, 0);
+
+            if (!target || allowed.length === 0) {
+                warning = appendWarning(warning, `⚠️ 警告: レアリティ「${rarityName}」の封入上限 (${maxCount}枚) を適用できませんでした。`);
+                break;
+            }
+
+            const normalized: WeightedItem[] = totalWeight > 0
+                ? allowed.map(w => ({ key: w.key, probability: w.probability / totalWeight }))
+                : allowed.map(w => ({ key: w.key, probability: 1 / allowed.length }));
+
+            replaceSlot(target, selectWeightedItem(normalized, random));
+        }
+    }
+
+    return warning;
+};
+
+
+/**
+ * ボックスを開封し、ボックス単位の封入保証・上限を適用したカードのリストを生成する。
+ * 同じボックス設定・パック設定・収録カード・シードであれば、常に同じ結果を返す。
+ * @param box - 開封するボックス
+ * @param pack - ボックスが参照する Booster パック
+ * @param options - シード指定などのオプション
+ * @returns ボックス全体の抽選結果、警告、および使用したシード値
+ */
+export const simulateBoxOpening = async (
+    box: Box,
+    pack: Pack,
+    options: BoxOpeningOptions = {}
+): Promise<BoxSimulationResult> => {
+    const seed = options.seed ?? generateSeed();
+    const random = createSeededRandom(seed);
+
+    if (pack.packType !== 'Booster' || pack.cardsPerPack === undefined) {
+        return { results: [], simulationWarning: 'ボックスの参照パックが Booster パックではありません。', seed };
+    }
+
+    let simulationWarning: string | null = null;
+    validateBoxRules(box, pack).forEach(message => {
+        simulationWarning = appendWarning(simulationWarning, `⚠️ 設定警告: ${message}`);
+    });
+
+    // ------------------------------------
+    // 🎯 各パックのレアリティ抽選
+    // ------------------------------------
+    const packCount = Math.max(0, Math.floor(box.packCount));
+    const packRarities: string[][] = [];
+    // スロット構成の場合の枠ごとの絞り込み条件 (保証・上限による置き換え後も枠の位置は変わらない)
+    const packSlotFilters: (SlotCardFilter | undefined)[][] = [];
+    for (let i = 0; i < packCount; i++) {
+        const drawResult = simulateRarityDraws(pack, random);
+        // 封入設定由来の警告は全パックで同一のため、最初の1件のみ保持する
+        if (i === 0 && drawResult.simulationWarning) {
+            simulationWarning = appendWarning(simulationWarning, drawResult.simulationWarning);
+        }
+        packRarities.push(drawResult.drawnRarities);
+        packSlotFilters.push(drawResult.slotFilters ?? []);
+    }
+
+    // ------------------------------------
+    // 🎯 ボックス単位の保証・上限の適用
+    // ------------------------------------
+    const ruleWarning = enforceBoxRules(packRarities, box, pack, random);
+    if (ruleWarning) {
+        simulationWarning = appendWarning(simulationWarning, ruleWarning);
+    }
+
+    // ------------------------------------
+    // 🎯 カードIDの取得と結果の集計
+    // ------------------------------------
+    // 重複制御はパック単位で適用する (各パックのレアリティ列は同じ枚数。通常は cardsPerPack 枚、スロット構成の場合はその枠数)
+    const duplicateRestriction = createDuplicateRestriction(pack);
+    if (duplicateRestriction.simulationWarning) {
+        simulationWarning = appendWarning(simulationWarning, duplicateRestriction.simulationWarning);
+    }
+    const pickResult = await pickCardsForRarities(pack.packId, packRarities.flat(), random, {
+        isDuplicateForbidden: duplicateRestriction.isDuplicateForbidden,
+        packSize: packRarities[0]?.length ?? pack.cardsPerPack,
+        slotFilters: packRarities.flatMap((rarities, i) => rarities.map((_, slotIndex) => packSlotFilters[i][slotIndex])),
+    });
+    if (pickResult.simulationWarning) {
+        simulationWarning = appendWarning(simulationWarning, pickResult.simulationWarning);
+    }
+
+    console.log(`[BoxSimulation:simulateBoxOpening] ✅ Opened box ${box.boxId} (${packCount} packs, seed: ${seed})`);
+
+    return { results: pickResult.results, simulationWarning, seed };
+};
@@ -0,0 +1,245 @@
+/**
+ * src/services/packs/chaseSimulator.ts
+ *
+ * * 「目標を達成するまでパックを開封し続ける」試行をモンテカルロ法で繰り返し、必要なパック数・コインの分布を推定するモジュール。
+ * 1パックごとの抽選は開封シミュレーションと同じ同期の開封コア（simulatePackOpeningSync）で行うため、
+ * スロット構成・重複制御・カードごとの排出ウェイト・天井ルールがすべて反映される。
+ * * 責務:
+ * 1. 目標（ChaseGoal: 指定カードを指定枚数 / 全種類1枚ずつ / 全種類N枚ずつ）を、カードIDごとの必要枚数に解決する。
+ * 2. 目標を達成するまで開封する試行を繰り返し、パック数・消費コインの平均・中央値・90パーセンタイルと分布（ヒストグラム）を集計する。
+ * 3. 収録されていない、または排出ウェイトが0のため入手できない目標カードを検出し、試行を行わずに通知する。
+ * 4. 最初の試行で入手したカードの集計を保持する（FREE/GOD モードで結果をカードプールに追加するために使用する）。
+ * 5. シード付き乱数生成器を使用して同じシードで同じ結果を再現可能にし、試行の進捗を呼び出し側に通知する（onProgress）。
+ */
+
+import type { Pack, Card } from '../../models/models';
+import { simulatePackOpeningSync } from './packSimulation';
+import type { PackCardIndex } from './packCardIndexService';
+import { createSeededRandom, generateSeed } from '../../utils/randomUtils';
+import { getCardDrawWeight } from '../../utils/dataUtils';
+
+// 既定の試行回数
+export const DEFAULT_CHASE_TRIALS = 200;
+// 既定の1試行あたりの最大開封パック数（打ち切り上限）
+export const DEFAULT_CHASE_MAX_PACKS = 5000;
+// 分布（ヒストグラム）の区間数
+const HISTOGRAM_BUCKETS = 10;
+// 進捗を通知する回数 (全試行を通じて約100回)
+const PROGRESS_STEPS = 100;
+
+/**
+ * 開封し続ける目標
+ * - targets: 指定したカードをそれぞれ指定枚数
+ * - completeSet: 収録カードを全種類1枚ずつ
+ * - copiesOfEach: 収録カードを全種類 copies 枚ずつ
+ */
+export type ChaseGoal =
+    | { type: 'targets'; targets: { cardId: string; count: number }[] }
+    | { type: 'completeSet' }
+    | { type: 'copiesOfEach'; copies: number };
+
+export type ChaseGoalType = ChaseGoal['type'];
+
+/**
+ * simulateChase のオプション
+ */
+export interface ChaseSimulationOptions {
+    /** 試行回数 */
+    trials?: number;
+    /** 抽選に使用するシード値。省略時は新しいシードを生成する */
+    seed?: number;
+    /** 1試行あたりの最大開封パック数（打ち切り上限） */
+    maxPacksPerTrial?: number;
+    /** 進捗通知。completed は完了した試行数 */
+    onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * パック数・コインの分布の統計値
+ */
+export interface ChaseDistributionStat {
+    mean: number;
+    median: number;
+    p90: number;
+    min: number;
+    max: number;
+    /** 等幅の区間ごとの試行数（from 以上 to 以下） */
+    histogram: { from: number; to: number; count: number }[];
+}
+
+/**
+ * 目標達成までの開封シミュレーションの結果
+ */
+export interface ChaseSimulationResult {
+    seed: number;
+    trials: number;                  // 試行回数（入手できないカードがある場合は 0）
+    completedTrials: number;         // 上限パック数以内に目標を達成できた試行回数
+    maxPacksPerTrial: number;
+    packPrice: number;
+    requiredCardCount: number;       // 目標のカード種類数
+    unreachableCardIds: string[];    // 収録されていない、または排出ウェイト0のため入手できない目標カード
+    packStats: ChaseDistributionStat | null;  // 目標達成までのパック数（達成した試行のみ）
+    coinStats: ChaseDistributionStat | null;  // 目標達成までの消費コイン（達成した試行のみ）
+    /** 最初の試行で入手したカード（目標未達で打ち切った場合も含む） */
+    sampleRun: { packCount: number; isCompleted: boolean; results: { cardId: string; count: number }[] } | null;
+    simulationWarning: string | null;
+}
+
+
+// 補助関数: 目標をカードIDごとの必要枚数に解決する
+const resolveRequirements = (goal: ChaseGoal, cards: Card[]): Map<string, number> => {
+    switch (goal.type) {
+        case 'targets':
+            return new Map(goal.targets
+                .filter(target => target.count > 0)
+                .map(target => [target.cardId, Math.floor(target.count)]));
+        case 'completeSet':
+            return new Map(cards.map(card => [card.cardId, 1]));
+        case 'copiesOfEach':
+            return new Map(cards.map(card => [card.cardId, Math.max(1, Math.floor(goal.copies))]));
+    }
+};
+
+// 補助関数: 昇順に並んだ値から、パーセンタイル（0〜1）の値を返す（最近傍法）
+const getPercentile = (sortedValues: number[], ratio: number): number =>
+    sortedValues[Math.min(sortedValues.length - 1, Math.max(0, Math.ceil(ratio * sortedValues.length) - 1))];
+
+// 補助関数: 値の配列から分布の統計値を算出する
+const summarizeDistribution = (values: number[]): ChaseDistributionStat | null => {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    const mid = Math.floor(sorted.length / 2);
+
+    const bucketCount = min === max ? 1 : HISTOGRAM_BUCKETS;
+    const bucketSize = (max - min) / bucketCount;
+    const histogram = Array.from({ length: bucketCount }, (_, i) => ({
+        from: min + bucketSize * i,
+        to: i === bucketCount - 1 ? max : min + bucketSize * (i + 1),
+        count: 0,
+    }));
+    sorted.forEach(value => {
+        const index = bucketSize > 0 ? Math.min(bucketCount - 1, Math.floor((value - min) / bucketSize)) : 0;
+        histogram[index].count++;
+    });
+
+    return {
+        mean: sorted.reduce((sum, n) => sum + n, 0) / sorted.length,
+        median: sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid],
+        p90: getPercentile(sorted, 0.9),
+        min,
+        max,
+        histogram,
+    };
+};
+
+
+/**
+ * 目標を達成するまでパックを開封する試行を繰り返し、必要なパック数・コインの分布を推定する。
+ * 天井ルールが設定されている場合は、試行ごとに未出現回数 0 の状態から適用する（保存済みのカウンターは参照・更新しない）。
+ * @param pack - 開封するパック（Booster）
+ * @param cardIndex - パックの収録カード索引
+ * @param goal - 開封し続ける目標
+ * @param options - 試行回数・シードなどのオプション
+ * @returns 目標達成までのパック数・コインの分布と、最初の試行の結果
+ */
+export const simulateChase = (
+    pack: Pack,
+    cardIndex: PackCardIndex,
+    goal: ChaseGoal,
+    options: ChaseSimulationOptions = {}
+): ChaseSimulationResult => {
+    const trials = Math.max(1, Math.floor(options.trials ?? DEFAULT_CHASE_TRIALS));
+    const maxPacksPerTrial = Math.max(1, Math.floor(options.maxPacksPerTrial ?? DEFAULT_CHASE_MAX_PACKS));
+    const seed = options.seed ?? generateSeed();
+    const random = createSeededRandom(seed);
+    const packPrice = pack.price || 0;
+
+    const cards = Array.from(cardIndex.cardsByRarity.values()).flat();
+    const cardMap = new Map(cards.map(card => [card.cardId, card]));
+    const requirements = resolveRequirements(goal, cards);
+
+    const result: ChaseSimulationResult = {
+        seed,
+        trials,
+        completedTrials: 0,
+        maxPacksPerTrial,
+        packPrice,
+        requiredCardCount: requirements.size,
+        unreachableCardIds: [],
+        packStats: null,
+        coinStats: null,
+        sampleRun: null,
+        simulationWarning: null,
+    };
+
+    if (pack.packType !== 'Booster' || requirements.size === 0) {
+        return { ...result, trials: 0 };
+    }
+
+    // 収録されていないカード、および排出ウェイトが0のカードは入手できない
+    const unreachableCardIds = Array.from(requirements.keys()).filter(cardId => {
+        const card = cardMap.get(cardId);
+        return !card || getCardDrawWeight(card) <= 0;
+    });
+    if (unreachableCardIds.length > 0) {
+        return { ...result, trials: 0, unreachableCardIds };
+    }
+
+    // 進捗はおよそ PROGRESS_STEPS 回に間引いて通知する
+    const progressInterval = Math.max(1, Math.floor(trials / PROGRESS_STEPS));
+
+    const packCounts: number[] = [];
+    const collected = new Map<string, number>();
+
+    for (let trial = 0; trial < trials; trial++) {
+        collected.clear();
+        let remaining = requirements.size;
+        // 有効な天井ルールがない場合、開封コアはカウンターを無視する
+        let pityCounters: Record<string, number> = {};
+        let packCount = 0;
+
+        while (remaining > 0 && packCount < maxPacksPerTrial) {
+            const opening = simulatePackOpeningSync(pack, cardIndex, {
+                seed: Math.floor(random() * 0x100000000),
+                pityCounters,
+            });
+            packCount++;
+            if (opening.pityCounters) pityCounters = opening.pityCounters;
+            // 設定由来の警告は全試行で同一のため、最初の1件のみ保持する
+            if (result.simulationWarning === null && opening.simulationWarning) {
+                result.simulationWarning = opening.simulationWarning;
+            }
+
+            for (const { cardId, count } of opening.results) {
+                const before = collected.get(cardId) || 0;
+                collected.set(cardId, before + count);
+                const required = requirements.get(cardId);
+                if (required !== undefined && before < required && before + count >= required) remaining--;
+            }
+        }
+
+        if (remaining === 0) packCounts.push(packCount);
+        if (trial === 0) {
+            result.sampleRun = {
+                packCount,
+                isCompleted: remaining === 0,
+                results: Array.from(collected.entries()).map(([cardId, count]) => ({ cardId, count })),
+            };
+        }
+        if (options.onProgress && ((trial + 1) % progressInterval === 0 || trial + 1 === trials)) {
+            options.onProgress(trial + 1, trials);
+        }
+    }
+
+    console.log(`[ChaseSimulator:simulateChase] ✅ Simulated ${trials} ${goal.type} trials for Pack ID: ${pack.packId} (seed: ${seed})`);
+
+    return {
+        ...result,
+        completedTrials: packCounts.length,
+        packStats: summarizeDistribution(packCounts),
+        coinStats: summarizeDistribution(packCounts.map(n => n * packPrice)),
+    };
+};
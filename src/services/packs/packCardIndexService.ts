@@ -0,0 +1,132 @@
+/**
+ * src/services/packs/packCardIndexService.ts
+ *
+ * * パック開封シミュレーションで使用する「パックの収録カードのレアリティ別索引」を構築・キャッシュするサービス層モジュール。
+ * 抽選のたびにレアリティごとのDB検索を行わず、パック単位で一度だけ収録カードを読み込んで使い回す。
+ * * 責務:
+ * 1. 収録カードの配列から、レアリティ → カード（登録順 number）の索引（PackCardIndex）を構築する（buildPackCardIndex）。
+ * 2. パックIDごとの索引をインメモリキャッシュ（_indexCache）に保持し、未キャッシュの場合は `cardSearchService` を介してDBから一括で読み込む。
+ * 3. カードの保存・削除時に、該当パック（またはカードIDを含むパック）の索引を無効化する手段を提供する。
+ */
+
+import type { Card } from '../../models/models';
+import { cardSearchService } from '../cards/cardSearchService';
+
+/**
+ * パックの収録カードのレアリティ別索引
+ */
+export interface PackCardIndex {
+    packId: string;
+    /** レアリティ名 → 収録カード（登録順 number。同じ number はカードID順） */
+    cardsByRarity: Map<string, Card[]>;
+    /** 索引に含まれる全カードID（無効化の判定に使用） */
+    cardIds: Set<string>;
+}
+
+let _indexCache: Map<string, PackCardIndex> = new Map();
+// 読み込み中の索引。読み込み中に無効化された場合は結果をキャッシュしない
+let _loadingIndexes: Map<string, Promise<PackCardIndex>> = new Map();
+
+/**
+ * 収録カードの配列から、パックのレアリティ別索引を構築する（DBアクセスを伴わない同期処理）。
+ * 同一レアリティ内のカードは登録順（number、未設定は末尾）、同じ登録順ではカードID順に並べる。
+ * @param packId - 索引の対象パックID
+ * @param cards - パックの収録カード（他のパックのカードは無視される）
+ * @returns パックのレアリティ別索引
+ */
+export const buildPackCardIndex = (packId: string, cards: Card[]): PackCardIndex => {
+    const sortedCards = cards
+        .filter(card => card.packId === packId)
+        .sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity) || (a.cardId < b.cardId ? -1 : a.cardId > b.cardId ? 1 : 0));
+
+    const cardsByRarity = new Map<string, Card[]>();
+    for (const card of sortedCards) {
+        const group = cardsByRarity.get(card.rarity) ?? [];
+        group.push(card);
+        cardsByRarity.set(card.rarity, group);
+    }
+
+    return { packId, cardsByRarity, cardIds: new Set(sortedCards.map(card => card.cardId)) };
+};
+
+export const packCardIndexService = {
+
+    // ----------------------------------------
+    // [1] Cache Read (キャッシュからの取得)
+    // ----------------------------------------
+
+    getPackCardIndexFromCache(packId: string): PackCardIndex | undefined {
+        return _indexCache.get(packId);
+    },
+
+    // ----------------------------------------
+    // [2] Read (DBからの取得とキャッシュ構築)
+    // ----------------------------------------
+
+    /**
+     * パックのレアリティ別索引を取得します。キャッシュが存在しない場合はDBから収録カードを一括で読み込み、キャッシュを構築します。
+     * 収録カードが0件の場合はキャッシュしません（カード登録直後の再読み込みを妨げないため）。
+     * @param packId - 対象のパックID
+     * @returns パックのレアリティ別索引
+     */
+    async fetchPackCardIndex(packId: string): Promise<PackCardIndex> {
+        const cachedIndex = _indexCache.get(packId);
+        if (cachedIndex) return cachedIndex;
+
+        const loadingIndex = _loadingIndexes.get(packId);
+        if (loadingIndex) return loadingIndex;
+
+        const loading = cardSearchService.fetchCardsBulkByPackIdsOrdered([packId])
+            .then(cards => {
+                const index = buildPackCardIndex(packId, cards);
+                // 読み込み中に無効化されていなければキャッシュする
+                if (_loadingIndexes.get(packId) === loading && index.cardIds.size > 0) {
+                    _indexCache.set(packId, index);
+                    console.log(`[PackCardIndexService:fetchPackCardIndex] ✅ Indexed ${index.cardIds.size} cards for pack ${packId}.`);
+                }
+                return index;
+            })
+            .finally(() => {
+                if (_loadingIndexes.get(packId) === loading) _loadingIndexes.delete(packId);
+            });
+
+        _loadingIndexes.set(packId, loading);
+        return loading;
+    },
+
+    // ----------------------------------------
+    // [3] Invalidate (キャッシュの無効化)
+    // ----------------------------------------
+
+    /**
+     * 指定されたパックの索引を無効化します。
+     * @param packIds - 無効化するパックIDの配列
+     */
+    invalidatePacks(packIds: string[]): void {
+        packIds.forEach(packId => {
+            _indexCache.delete(packId);
+            _loadingIndexes.delete(packId);
+        });
+    },
+
+    /**
+     * 指定されたカードを含むパックの索引を無効化します（カードのパックIDが不明な削除・更新時に使用）。
+     * 読み込み中の索引はカードの所属を判定できないため、すべて無効化します。
+     * @param cardIds - 保存・削除されたカードIDの配列
+     */
+    invalidateCards(cardIds: string[]): void {
+        if (cardIds.length === 0) return;
+        const stalePackIds = Array.from(_indexCache.values())
+            .filter(index => cardIds.some(cardId => index.cardIds.has(cardId)))
+            .map(index => index.packId);
+        this.invalidatePacks([...stalePackIds, ...Array.from(_loadingIndexes.keys())]);
+    },
+
+    /**
+     * すべての索引を無効化します。
+     */
+    clearCache(): void {
+        _indexCache = new Map();
+        _loadingIndexes = new Map();
+    },
+};
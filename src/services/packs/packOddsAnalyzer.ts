@@ -0,0 +1,279 @@
+/**
+ * src/services/packs/packOddsAnalyzer.ts
+ *
+ * * パックの封入設定（rarityConfig / advancedRarityConfig / slotLayout）をモンテカルロ法で分析するモジュール。
+ * 開封シミュレーションと同じ抽選ロジック（simulateRarityDraws）を大量に試行し、設定の妥当性を数値で確認できるようにする。
+ * * 責務:
+ * 1. N回のレアリティ抽選を行い、レアリティごとの1パックあたり枚数の分布・平均・分散・「1枚以上出る確率」を集計する。
+ * 2. `priceUtils` の解析的な期待値（calculateExpectedCounts）と、シミュレーション結果との差分を算出する。
+ * 3. 収録カードリストに基づき、全種類のカードを揃えるまでに必要なパック数（コンプリート期待値）を試行により推定する。
+ * 4. シード付き乱数生成器を使用し、同じシードで同じ分析結果を再現可能にする。
+ * 5. 試行の進捗を呼び出し側に通知する（onProgress。Web Worker での実行時に進捗表示に使用する）。
+ */
+
+import type { Pack, Card } from '../../models/models';
+import { simulateRarityDraws, createDuplicateRestriction, pickCardForSlot, applySlotCardFilter } from './packSimulation';
+import { createSeededRandom, generateSeed, type RandomGenerator } from '../../utils/randomUtils';
+import { getCardDrawWeight } from '../../utils/dataUtils';
+import { calculateExpectedCounts } from '../../utils/priceUtils';
+import { buildPackCardIndex } from './packCardIndexService';
+
+// 既定の試行回数
+export const DEFAULT_ODDS_ITERATIONS = 10000;
+const DEFAULT_COMPLETION_TRIALS = 200;
+const DEFAULT_MAX_PACKS_PER_TRIAL = 5000;
+// 進捗を通知する回数 (全試行を通じて約100回)
+const PROGRESS_STEPS = 100;
+
+/**
+ * analyzePackOdds のオプション
+ */
+export interface PackOddsAnalysisOptions {
+    /** レアリティ分布の試行回数（パック数） */
+    iterations?: number;
+    /** 抽選に使用するシード値。省略時は新しいシードを生成する */
+    seed?: number;
+    /** コンプリート推定の試行回数 */
+    completionTrials?: number;
+    /** コンプリート推定1回あたりの最大開封パック数（打ち切り上限） */
+    maxPacksPerTrial?: number;
+    /** 進捗通知。completed はレアリティ分布とコンプリート推定の試行数の合計 */
+    onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * レアリティごとの分析結果
+ */
+export interface RarityOddsStat {
+    rarityName: string;
+    meanCount: number;              // 1パックあたりの平均枚数（シミュレーション）
+    variance: number;               // 1パックあたり枚数の分散
+    atLeastOneProbability: number;  // 1パックに1枚以上含まれる確率
+    distribution: number[];         // index = 枚数 k、値 = 1パックにちょうど k 枚含まれる確率
+    expectedCount: number;          // 解析的な期待枚数（priceUtils）
+    difference: number;             // meanCount - expectedCount
+}
+
+/**
+ * コンプリート（全種収集）推定の結果
+ */
+export interface SetCompletionStat {
+    totalUniqueCards: number;       // 収集対象のカード種類数
+    uncollectableCardIds: string[]; // 抽選されないレアリティ、または排出ウェイト0のため収集できないカード
+    trials: number;                 // 試行回数
+    completedTrials: number;        // 上限パック数以内にコンプリートできた試行回数
+    meanPacks: number | null;       // コンプリートまでの平均パック数（完了した試行のみ）
+    medianPacks: number | null;     // コンプリートまでのパック数の中央値（完了した試行のみ）
+    maxPacksPerTrial: number;
+}
+
+/**
+ * パックのオッズ分析結果
+ */
+export interface PackOddsAnalysis {
+    iterations: number;
+    seed: number;
+    cardsPerPack: number;
+    rarityStats: RarityOddsStat[];
+    setCompletion: SetCompletionStat | null;
+    simulationWarning: string | null;
+}
+
+
+// 補助関数: パック設定から解析的な期待枚数をレアリティ名のMapで取得する
+const getAnalyticExpectedCounts = (pack: Pack): Map<string, number> => {
+    return new Map(calculateExpectedCounts(pack).map(rv => [rv.rarityName, rv.expectedCount]));
+};
+
+// 補助関数: 全種類のカードを揃えるまでの開封を1回試行し、必要なパック数を返す（上限到達時は null）
+const runCompletionTrial = (
+    pack: Pack,
+    cardsByRarity: Map<string, Card[]>,
+    targetSize: number,
+    maxPacks: number,
+    random: RandomGenerator
+): number | null => {
+    const collected = new Set<string>();
+    const { isDuplicateForbidden } = createDuplicateRestriction(pack);
+
+    for (let packs = 1; packs <= maxPacks; packs++) {
+        const { drawnRarities, slotFilters } = simulateRarityDraws(pack, random);
+        // 開封シミュレーションと同様に、スロットの絞り込み条件とパック内の重複制御を適用する
+        const pickedInPack = new Set<string>();
+        for (let i = 0; i < drawnRarities.length; i++) {
+            const rarity = drawnRarities[i];
+            const candidates = applySlotCardFilter(cardsByRarity.get(rarity) ?? [], slotFilters?.[i]).cards;
+            const { card } = pickCardForSlot(candidates, pickedInPack, isDuplicateForbidden(rarity), random);
+            if (card === undefined) continue;
+            pickedInPack.add(card.cardId);
+            collected.add(card.cardId);
+        }
+        if (collected.size >= targetSize) return packs;
+    }
+    return null;
+};
+
+// 補助関数: コンプリートまでのパック数を推定する
+const estimateSetCompletion = (
+    pack: Pack,
+    cards: Card[],
+    drawableRarities: Set<string>,
+    trials: number,
+    maxPacks: number,
+    random: RandomGenerator,
+    onTrialComplete: (trialIndex: number) => void
+): SetCompletionStat | null => {
+    if (cards.length === 0) return null;
+
+    const uncollectableCardIds = cards
+        // 抽選されないレアリティのカード、および排出ウェイトが0のカードは入手できない
+        .filter(card => !drawableRarities.has(card.rarity) || getCardDrawWeight(card) <= 0)
+        .map(card => card.cardId);
+
+    const stat: SetCompletionStat = {
+        totalUniqueCards: cards.length,
+        uncollectableCardIds,
+        trials,
+        completedTrials: 0,
+        meanPacks: null,
+        medianPacks: null,
+        maxPacksPerTrial: maxPacks,
+    };
+
+    // 収集不可能なカードがある場合、試行しても完了しないためスキップ
+    if (uncollectableCardIds.length > 0) {
+        return { ...stat, trials: 0 };
+    }
+
+    // 開封シミュレーションと同じ並び順の索引を使用する
+    const { cardsByRarity } = buildPackCardIndex(pack.packId, cards);
+    const packCounts: number[] = [];
+
+    for (let i = 0; i < trials; i++) {
+        const packs = runCompletionTrial(pack, cardsByRarity, cards.length, maxPacks, random);
+        if (packs !== null) packCounts.push(packs);
+        onTrialComplete(i);
+    }
+
+    if (packCounts.length === 0) return stat;
+
+    packCounts.sort((a, b) => a - b);
+    const mid = Math.floor(packCounts.length / 2);
+
+    return {
+        ...stat,
+        completedTrials: packCounts.length,
+        meanPacks: packCounts.reduce((sum, n) => sum + n, 0) / packCounts.length,
+        medianPacks: packCounts.length % 2 === 0
+            ? (packCounts[mid - 1] + packCounts[mid]) / 2
+            : packCounts[mid],
+    };
+};
+
+
+/**
+ * パックの封入設定をモンテカルロ法で分析する。
+ * 開封シミュレーションと同じ抽選ロジックを使用するため、実際の開封結果の傾向と一致する。
+ * @param pack - 分析対象のパック（Booster）
+ * @param cards - パックの収録カード（コンプリート推定に使用。空の場合は推定を行わない）
+ * @param options - 試行回数・シードなどのオプション
+ * @returns 分析結果
+ */
+export const analyzePackOdds = (
+    pack: Pack,
+    cards: Card[],
+    options: PackOddsAnalysisOptions = {}
+): PackOddsAnalysis => {
+    const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_ODDS_ITERATIONS));
+    const seed = options.seed ?? generateSeed();
+    const random = createSeededRandom(seed);
+    const cardsPerPack = pack.cardsPerPack ?? 0;
+    const completionTrials = options.completionTrials ?? DEFAULT_COMPLETION_TRIALS;
+
+    // 進捗はおよそ PROGRESS_STEPS 回に間引いて通知する
+    const totalSteps = iterations + completionTrials;
+    const progressInterval = Math.max(1, Math.floor(totalSteps / PROGRESS_STEPS));
+    let lastReported = 0;
+    const reportProgress = (completed: number) => {
+        if (!options.onProgress || completed === lastReported) return;
+        if (completed % progressInterval === 0 || completed === totalSteps) {
+            lastReported = completed;
+            options.onProgress(completed, totalSteps);
+        }
+    };
+
+    // レアリティ名 → (1パックあたり枚数 k → 出現回数)
+    const countHistograms = new Map<string, number[]>();
+    const configuredRarities = pack.isAdvancedRulesEnabled && pack.advancedRarityConfig && pack.advancedRarityConfig.length > 0
+        ? pack.advancedRarityConfig.map(c => c.rarityName)
+        : pack.rarityConfig.map(c => c.rarityName);
+    configuredRarities.forEach(name => countHistograms.set(name, []));
+
+    let simulationWarning: string | null = null;
+    const perPackCounts = new Map<string, number>();
+
+    for (let i = 0; i < iterations; i++) {
+        const drawResult = simulateRarityDraws(pack, random);
+        // 設定由来の警告は全試行で同一のため、最初の1件のみ保持する
+        if (i === 0) simulationWarning = drawResult.simulationWarning;
+
+        perPackCounts.clear();
+        for (const rarity of drawResult.drawnRarities) {
+            perPackCounts.set(rarity, (perPackCounts.get(rarity) || 0) + 1);
+        }
+
+        for (const rarity of new Set([...countHistograms.keys(), ...perPackCounts.keys()])) {
+            const histogram = countHistograms.get(rarity) ?? [];
+            const k = perPackCounts.get(rarity) || 0;
+            histogram[k] = (histogram[k] || 0) + 1;
+            countHistograms.set(rarity, histogram);
+        }
+        reportProgress(i + 1);
+    }
+
+    const expectedCounts = getAnalyticExpectedCounts(pack);
+
+    const rarityStats: RarityOddsStat[] = Array.from(countHistograms.entries()).map(([rarityName, histogram]) => {
+        // 途中から出現したレアリティは、それ以前の試行分を 0 枚として補正する
+        const observed = histogram.reduce((sum, n) => sum + (n || 0), 0);
+        const distribution = Array.from(histogram, n => (n || 0) / iterations);
+        distribution[0] = (distribution[0] || 0) + (iterations - observed) / iterations;
+
+        const meanCount = distribution.reduce((sum, p, k) => sum + p * k, 0);
+        const meanSquare = distribution.reduce((sum, p, k) => sum + p * k * k, 0);
+        const expectedCount = expectedCounts.get(rarityName) ?? 0;
+
+        return {
+            rarityName,
+            meanCount,
+            variance: Math.max(0, meanSquare - meanCount * meanCount),
+            atLeastOneProbability: 1 - distribution[0],
+            distribution,
+            expectedCount,
+            difference: meanCount - expectedCount,
+        };
+    });
+
+    const drawableRarities = new Set(rarityStats.filter(s => s.meanCount > 0).map(s => s.rarityName));
+    const setCompletion = estimateSetCompletion(
+        pack,
+        cards,
+        drawableRarities,
+        completionTrials,
+        options.maxPacksPerTrial ?? DEFAULT_MAX_PACKS_PER_TRIAL,
+        random,
+        trialIndex => reportProgress(iterations + trialIndex + 1)
+    );
+    // コンプリート推定を行わなかった場合も完了を通知する
+    reportProgress(totalSteps);
+
+    // 重複制御の基準レアリティが解決できない場合の警告 (コンプリート推定に影響する)
+    const duplicateWarning = createDuplicateRestriction(pack).simulationWarning;
+    if (duplicateWarning) {
+        simulationWarning = simulationWarning ? `${simulationWarning}\n${duplicateWarning}` : duplicateWarning;
+    }
+
+    console.log(`[PackOddsAnalyzer:analyzePackOdds] ✅ Analyzed ${iterations} packs for Pack ID: ${pack.packId} (seed: ${seed})`);
+
+    return { iterations, seed, cardsPerPack, rarityStats, setCompletion, simulationWarning };
+};
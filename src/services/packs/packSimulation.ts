@@ -3,34 +3,146 @@
  *
  * * TCGパックの開封シミュレーションロジックを提供するモジュール。
  * * 責務:
- * 1. Pack設定（Advanced/Classic）に基づき、レアリティの抽選ロジックを分離して実行する。
+ * 1. Pack設定（スロット構成/Advanced/Classic）に基づき、レアリティの抽選ロジックを分離して実行する。
  * 2. 確率設定の合計（1.0/100%）が満たされない場合に警告を生成する。
- * 3. 抽選されたレアリティ名に基づき、`cardSearchService`を介してカードプールから具体的なカードIDを非同期で選択する。
+ * 3. 抽選されたレアリティ名に基づき、パックの収録カード索引（`packCardIndexService` がキャッシュ）から具体的なカードIDを選択する（カードごとの排出ウェイト drawWeight に比例）。
  * 4. 抽選されたレアリティに該当カードが存在しない場合の警告と、パック総枚数と抽選枚数の不一致の警告を処理する。
  * 5. 最終的な結果を、`{ cardId: string, count: number }[]`の形式で集計して返す。
+ * 6. 構築済みデッキ（ConstructedDeck）の場合は、抽選を行わず constructedDeckCards の内容をそのまま結果として返す。
+ * 7. シード付き乱数生成器（RandomGenerator）をすべての抽選処理に引き回し、同じシードで開封結果を再現可能にする。
+ * 8. 天井（ピティ）ルールが有効な場合、永続化されたカウンターに基づいて枠を昇格させ、開封後のカウンターを保存する。
+ * 9. パックの重複制御ポリシー（DuplicatePolicy）に従い、重複が禁止されたレアリティではパック内で非復元抽選を行う。
+ * 10. スロット構成の枠ごとのカード絞り込み条件（SlotCardFilter）を適用し、Advanced/Classic の設定を同等のスロット構成に変換する。
+ * 11. DBアクセスを伴わない同期の開封コア（simulatePackOpeningSync）を提供し、分析機能などから大量の開封を高速に実行できるようにする。
+ * 12. 同期の開封コアを連続して実行し、天井カウンターを引き継ぎながら複数パックを開封する（simulateMultiplePackOpeningsSync。Web Worker からも使用する）。
  */
 
-import type { Pack, AdvancedRarityConfig, RarityConfig, Card } from '../../models/models';
-import { selectWeightedItem, type WeightedItem } from '../../utils/randomUtils';
-import { cardSearchService } from './../cards/cardSearchService';
+import type {
+    Pack, AdvancedRarityConfig, RarityConfig, PackSlot, SlotCardFilter, PityRule, Card, SimulationResult
+} from '../../models/models';
+import {
+    selectWeightedItem,
+    selectItemByWeight,
+    createSeededRandom,
+    generateSeed,
+    type WeightedItem,
+    type RandomGenerator,
+} from '../../utils/randomUtils';
+import { packCardIndexService, buildPackCardIndex, type PackCardIndex } from './packCardIndexService';
 import { hasProbabilityMismatch } from '../../utils/validationUtils';
-
-// 補助関数: DBからカードデータを取得し、IDの配列を返す (非同期)
-const getCardIdsByPackAndRarity = async (packId: string, rarity: string): Promise<string[]> => {
-    const availableCards: Card[] = await cardSearchService.fetchCardsByPackIdAndRarity(packId, rarity);
-    return availableCards.map(card => card.cardId);
-};
+import { pityService } from '../pity/pityService';
+import { getCardDrawWeight } from '../../utils/dataUtils';
+import { resolvePackRarityDefinitions } from './rarityRegistry';
 
 // 抽選結果を格納する型 (drawnRaritiesはレアリティ名の配列)
-interface SimulationResult {
+export interface RarityDrawResult {
     drawnRarities: string[];
     simulationWarning: string | null;
+    /** drawnRarities と同じ並びの、枠ごとのカード絞り込み条件 (スロット構成の場合のみ) */
+    slotFilters?: (SlotCardFilter | undefined)[];
+}
+
+/**
+ * pickCardsForRarities のオプション
+ */
+export interface CardPickOptions {
+    /** 指定レアリティで1パック内の重複が禁止されているかを返す関数 (省略時は重複を許可) */
+    isDuplicateForbidden?: (rarityName: string) => boolean;
+    /** 重複制御を適用する単位となる1パックあたりの枚数 (省略時はレアリティ列全体を1パックとして扱う) */
+    packSize?: number;
+    /** レアリティ列と同じ並びの、枠ごとのカード絞り込み条件 (省略時は絞り込みなし) */
+    slotFilters?: (SlotCardFilter | undefined)[];
+}
+
+/**
+ * simulatePackOpening のオプション
+ */
+export interface PackOpeningOptions {
+    /** 抽選に使用するシード値。省略時は新しいシードを生成する */
+    seed?: number;
+    /** 天井（ピティ）ルールを適用し、カウンターを更新するかどうか (DTCGモードでのみ true を指定する) */
+    applyPity?: boolean;
+    /**
+     * 開封を再現する場合の、開封前の天井カウンター（開封結果に保存したもの）。
+     * 指定した場合は applyPity に関わらずこのカウンターで天井ルールを適用し、保存済みのカウンターの読み込み・更新は行わない
+     */
+    replayPityCounters?: Record<string, number>;
+}
+
+/**
+ * simulatePackOpeningSync のオプション
+ */
+export interface PackOpeningSyncOptions {
+    /** 抽選に使用するシード値。省略時は新しいシードを生成する */
+    seed?: number;
+    /** 開封前の天井カウンター。指定した場合のみ天井ルールを適用し、開封後のカウンターを結果に含める (永続化は呼び出し側で行う) */
+    pityCounters?: Record<string, number>;
 }
 
+/**
+ * simulateMultiplePackOpeningsSync のオプション
+ */
+export interface MultiplePackOpeningSyncOptions {
+    /** 開封前の天井カウンター。指定した場合のみ、パックごとにカウンターを引き継ぎながら天井ルールを適用する */
+    pityCounters?: Record<string, number>;
+    /** 1パック開封するごとに呼ばれる進捗通知 */
+    onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * simulateMultiplePackOpeningsSync の結果
+ */
+export interface MultiplePackOpeningResult {
+    /** シードと同じ並びの、パックごとの開封結果 */
+    openings: SimulationResult[];
+    /** 全パック開封後の天井カウンター (天井ルールを適用した場合のみ) */
+    pityCounters?: Record<string, number>;
+}
+
+/**
+ * 1回の開封で得られるカードの総枚数を返す。
+ * Boosterは cardsPerPack、ConstructedDeck は constructedDeckCards の count 合計。
+ * @param pack - 対象のパック
+ * @returns 1回の開封で得られる総枚数
+ */
+export const getCardCountPerOpening = (pack: Pack): number => {
+    if (pack.packType === 'ConstructedDeck') {
+        return (pack.constructedDeckCards ?? []).reduce((sum, c) => sum + Math.max(0, c.count), 0);
+    }
+    return pack.cardsPerPack ?? 0;
+};
+
+// -----------------------------------------------------
+// 構築済みデッキの内容を開封結果の形式に集計する補助関数
+// -----------------------------------------------------
+const collectConstructedDeckResults = (pack: Pack): {
+    results: { cardId: string, count: number }[],
+    simulationWarning: string | null
+} => {
+    const deckCards = pack.constructedDeckCards ?? [];
+
+    // 同一カードIDが複数行に分かれている場合も1件に集計する
+    const cardsMap = new Map<string, number>();
+    for (const { cardId, count } of deckCards) {
+        if (!cardId || count <= 0) continue;
+        cardsMap.set(cardId, (cardsMap.get(cardId) || 0) + count);
+    }
+
+    if (cardsMap.size === 0) {
+        return {
+            results: [],
+            simulationWarning: "⚠️ 警告: 構築済みデッキの収録カード (constructedDeckCards) が設定されていません。"
+        };
+    }
+
+    const results = Array.from(cardsMap.entries()).map(([cardId, count]) => ({ cardId, count }));
+    return { results, simulationWarning: null };
+};
+
 // -----------------------------------------------------
 // 高度な抽選ロジック (fixedValue/specialProbability/probability) を実行する補助関数
 // -----------------------------------------------------
-const simulateAdvancedOpening = (pack: Pack): SimulationResult => {
+const simulateAdvancedOpening = (pack: Pack, random: RandomGenerator): RarityDrawResult => {
     const cardsPerPack = pack.cardsPerPack;
     const specialProbabilitySlots = pack.specialProbabilitySlots ?? 0; // 特殊確率枠数
     const drawnRarities: string[] = [];
@@ -102,7 +214,7 @@ const simulateAdvancedOpening = (pack: Pack): SimulationResult => {
         }
 
         for (let i = 0; i < specialDrawCount; i++) {
-            const drawnRarity = selectWeightedItem(specialWeightedRarities);
+            const drawnRarity = selectWeightedItem(specialWeightedRarities, random);
             drawnRarities.push(drawnRarity);
             remainingSlots -= 1;
         }
@@ -129,7 +241,7 @@ const simulateAdvancedOpening = (pack: Pack): SimulationResult => {
         }
 
         for (let i = 0; i < remainingSlots; i++) {
-            const drawnRarity = selectWeightedItem(residualWeightedRarities);
+            const drawnRarity = selectWeightedItem(residualWeightedRarities, random);
             drawnRarities.push(drawnRarity);
         }
     }
@@ -140,7 +252,7 @@ const simulateAdvancedOpening = (pack: Pack): SimulationResult => {
 // -----------------------------------------------------
 // 従来の抽選ロジック 
 // -----------------------------------------------------
-const simulateClassicOpening = (pack: Pack): SimulationResult => {
+const simulateClassicOpening = (pack: Pack, random: RandomGenerator): RarityDrawResult => {
     const cardsPerPack = pack.cardsPerPack;
     const drawnRarities: string[] = [];
     let simulationWarning: string | null = null;
@@ -166,7 +278,7 @@ const simulateClassicOpening = (pack: Pack): SimulationResult => {
     }));
 
     for (let i = 0; i < cardsPerPack; i++) {
-        const drawnRarity = selectWeightedItem(weightedRarities);
+        const drawnRarity = selectWeightedItem(weightedRarities, random);
         drawnRarities.push(drawnRarity);
     }
 
@@ -174,63 +286,367 @@ const simulateClassicOpening = (pack: Pack): SimulationResult => {
 }
 
 
+// -----------------------------------------------------
+// スロット構成 (slotLayout) による抽選ロジック
+// -----------------------------------------------------
+const simulateSlotOpening = (pack: Pack, random: RandomGenerator): RarityDrawResult => {
+    const slots = pack.slotLayout ?? [];
+    const drawnRarities: string[] = [];
+    const slotFilters: (SlotCardFilter | undefined)[] = [];
+    const emptySlotLabels: string[] = [];
+    let simulationWarning: string | null = null;
+
+    if (pack.cardsPerPack !== undefined && slots.length !== pack.cardsPerPack) {
+        simulationWarning =
+            `⚠️ 設定警告: スロット数 (${slots.length}枠) がパックの封入枚数 (${pack.cardsPerPack}枚) と一致しません。` +
+            `スロット構成に従って${slots.length}枚を抽選しました。`;
+    }
+
+    slots.forEach((slot, index) => {
+        const weights = slot.rarityWeights.filter(w => w.rarityName && w.weight > 0);
+        if (weights.length === 0) {
+            emptySlotLabels.push(slot.label || `${index + 1}枠目`);
+            return;
+        }
+
+        // 候補が1つの枠 (確定枠) は乱数を消費しない
+        let drawnRarity = weights[0].rarityName;
+        if (weights.length > 1) {
+            const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+            drawnRarity = selectWeightedItem(
+                weights.map(w => ({ key: w.rarityName, probability: w.weight / totalWeight })),
+                random
+            );
+        }
+        drawnRarities.push(drawnRarity);
+        slotFilters.push(slot.cardFilter);
+    });
+
+    if (emptySlotLabels.length > 0) {
+        const warning = `⚠️ 設定警告: 抽選テーブルが空のスロットはスキップされました: **${emptySlotLabels.join(', ')}**。`;
+        simulationWarning = simulationWarning ? `${simulationWarning}\n${warning}` : warning;
+    }
+
+    return { drawnRarities, simulationWarning, slotFilters };
+};
+
 /**
- * 1パックを開封し、封入設定に基づいてカードのリストを生成する。
+ * パックでスロット構成（slotLayout）による抽選が有効かどうかを判定する。
+ * @param pack - 対象のパック
+ * @returns スロット構成が有効かつ1枠以上設定されていれば true
  */
-export const simulatePackOpening = async (pack: Pack): Promise<{
-    results: { cardId: string, count: number }[],
-    simulationWarning: string | null
-}> => {
-    const packId = pack.packId;
-    const cardsPerPack = pack.cardsPerPack;
-    let drawnRarities: string[] = [];
-    let simulationWarning: string | null = null;
+export const isSlotLayoutActive = (pack: Pack): boolean =>
+    !!pack.isSlotLayoutEnabled && !!pack.slotLayout && pack.slotLayout.length > 0;
 
-    // cardsPerPack が未定義の場合はエラー（Boosterパック専用）
-    if (cardsPerPack === undefined) {
-        return {
-            results: [],
-            simulationWarning: "cardsPerPackが設定されていません。このパックはBoosterパックではありません。"
-        };
+/**
+ * スロット構成への変換に必要なパックの封入設定
+ */
+export type SlotLayoutSource = Pick<
+    Pack,
+    'cardsPerPack' | 'rarityConfig' | 'advancedRarityConfig' | 'isAdvancedRulesEnabled' | 'specialProbabilitySlots'
+>;
+
+/**
+ * Advanced/Classic の封入設定を、同じ確率分布になるスロット構成に変換する。
+ * Advanced の場合は「確定枚数 → 単一レアリティの確定枠」「特殊確率枠 → specialProbability のテーブル」
+ * 「残りの枠 → probability のテーブル」の順に並べる（simulateAdvancedOpening と同じ抽選順序）。
+ * Classic の場合は cardsPerPack 枠すべてを rarityConfig の確率のテーブルとする。
+ * @param pack - 変換元のパック（またはレアリティ編集中の封入設定）
+ * @returns 変換後のスロット構成
+ */
+export const convertRarityConfigToSlotLayout = (pack: SlotLayoutSource): PackSlot[] => {
+    const cardsPerPack = pack.cardsPerPack ?? 0;
+    const slots: PackSlot[] = [];
+    // 重み0のレアリティはテーブルに含めない
+    const toWeights = <T extends { rarityName: string }>(configs: T[], getWeight: (config: T) => number) =>
+        configs
+            .map(c => ({ rarityName: c.rarityName, weight: getWeight(c) }))
+            .filter(w => w.weight > 0);
+
+    const isAdvancedEnabled = pack.isAdvancedRulesEnabled && pack.advancedRarityConfig && pack.advancedRarityConfig.length > 0;
+    if (!isAdvancedEnabled) {
+        const weights = toWeights(pack.rarityConfig, c => c.probability);
+        for (let i = 0; i < cardsPerPack; i++) {
+            slots.push({ label: `${i + 1}枠目`, rarityWeights: weights.map(w => ({ ...w })) });
+        }
+        return slots;
     }
 
+    const configs = pack.advancedRarityConfig!;
+    for (const config of configs) {
+        const count = Math.round(config.fixedValue);
+        for (let i = 0; i < count && slots.length < cardsPerPack; i++) {
+            slots.push({ label: `確定枠 (${config.rarityName})`, rarityWeights: [{ rarityName: config.rarityName, weight: 1 }] });
+        }
+    }
+
+    const specialWeights = toWeights(configs, c => c.specialProbability || 0);
+    const specialDrawCount = Math.min(pack.specialProbabilitySlots ?? 0, cardsPerPack - slots.length);
+    for (let i = 0; i < specialDrawCount; i++) {
+        slots.push({ label: '特殊確率枠', rarityWeights: specialWeights.map(w => ({ ...w })) });
+    }
+
+    const residualWeights = toWeights(configs, c => c.probability);
+    while (slots.length < cardsPerPack) {
+        slots.push({ label: '基本抽選枠', rarityWeights: residualWeights.map(w => ({ ...w })) });
+    }
+    return slots;
+};
+
+/**
+ * カードがスロットの絞り込み条件に一致するかを判定する。
+ * tag は完全一致、それ以外のフィールドは部分一致（大文字小文字を区別しない）で判定し、条件が空の場合は常に一致とみなす。
+ * @param card - 判定対象のカード
+ * @param filter - スロットの絞り込み条件
+ * @returns 条件に一致すれば true
+ */
+export const matchesSlotCardFilter = (card: Card, filter: SlotCardFilter | undefined): boolean => {
+    const value = filter?.value.trim().toLowerCase();
+    if (!filter || !value) return true;
+    if (filter.field === 'tag') {
+        return (card.tag ?? []).some(tag => tag.toLowerCase() === value);
+    }
+    return String(card[filter.field] ?? '').toLowerCase().includes(value);
+};
+
+/**
+ * スロットの絞り込み条件を適用した抽選候補を返す。
+ * 条件に一致する（排出ウェイトが0より大きい）カードがない場合は、絞り込みを行わずに元の候補を返す。
+ * @param cards - 抽選されたレアリティの収録カード
+ * @param filter - スロットの絞り込み条件
+ * @returns 抽選候補のカードと、絞り込みを適用できなかったかどうか
+ */
+export const applySlotCardFilter = (
+    cards: Card[],
+    filter: SlotCardFilter | undefined
+): { cards: Card[], unmatched: boolean } => {
+    if (!filter?.value.trim() || cards.length === 0) return { cards, unmatched: false };
+    const filteredCards = cards.filter(card => matchesSlotCardFilter(card, filter));
+    if (filteredCards.some(card => getCardDrawWeight(card) > 0)) return { cards: filteredCards, unmatched: false };
+    return { cards, unmatched: true };
+};
+
+
+/**
+ * パックの封入設定（スロット構成/Advanced/Classic）に基づき、1パック分のレアリティのみを抽選する。
+ * DBアクセスを伴わない同期処理のため、オッズ分析などの大量試行からも利用できる。
+ * @param pack - 抽選対象のパック（Booster）
+ * @param random - 使用する乱数生成器
+ * @returns 抽選されたレアリティ名の配列と警告
+ */
+export const simulateRarityDraws = (pack: Pack, random: RandomGenerator): RarityDrawResult => {
+    if (isSlotLayoutActive(pack)) {
+        // スロット構成が有効な場合は、Advanced/Classic の設定より優先する
+        return simulateSlotOpening(pack, random);
+    }
 
-    // ------------------------------------
-    // 🎯 抽選ロジックの分岐 
-    // ------------------------------------
     const isAdvancedEnabled = pack.isAdvancedRulesEnabled && pack.advancedRarityConfig && pack.advancedRarityConfig.length > 0;
 
     if (isAdvancedEnabled) {
         // 高度なルールが有効な場合
-        const advancedResult = simulateAdvancedOpening(pack);
-        drawnRarities = advancedResult.drawnRarities;
-        simulationWarning = advancedResult.simulationWarning;
-    } else {
-        // 従来の確率ルール、または高度な設定が無効/未設定の場合
-        const classicResult = simulateClassicOpening(pack);
-        drawnRarities = classicResult.drawnRarities;
-        simulationWarning = classicResult.simulationWarning;
+        return simulateAdvancedOpening(pack, random);
     }
+    // 従来の確率ルール、または高度な設定が無効/未設定の場合
+    return simulateClassicOpening(pack, random);
+};
 
 
-    // ------------------------------------
-    // 🎯 カードIDの取得と結果の集計 (共通ロジック)
-    // ------------------------------------
+// 補助関数: 有効な天井ルールのみを取り出す (threshold は1以上の整数に丸める)
+const getActivePityRules = (rules: PityRule[] | undefined): PityRule[] =>
+    (rules ?? [])
+        .filter(rule => rule.rarityName && rule.threshold >= 1)
+        .map(rule => ({ rarityName: rule.rarityName, threshold: Math.floor(rule.threshold) }));
+
+/**
+ * 天井（ピティ）ルールを抽選済みのレアリティ列に適用する。
+ * 未出現回数が threshold に達しているレアリティがこの開封で出ていない場合、末尾側の枠を1枠そのレアリティに昇格させる。
+ * 昇格させるのは、順位（rarityRanks）が天井のレアリティより低い枠のみとし、上位のレアリティを格下げすることはない。
+ * 昇格できる枠がない場合は昇格せずに警告を返す（カウンターはリセットされないため、次の開封で再度判定される）。
+ * 乱数を消費しないため、同じカウンターとシードであれば結果は再現される。
+ * @param drawnRarities - 抽選されたレアリティ名の配列
+ * @param rules - パックの天井ルール
+ * @param counters - 開封前のレアリティごとの未出現回数
+ * @param rarityRanks - レアリティ名ごとの順位（resolvePackRarityDefinitions。大きいほど上位）
+ * @returns 昇格後のレアリティ列、昇格したレアリティ、および警告
+ */
+export const applyPityRules = (
+    drawnRarities: string[],
+    rules: PityRule[],
+    counters: Record<string, number>,
+    rarityRanks: Map<string, number>
+): { drawnRarities: string[], triggeredRarities: string[], simulationWarning: string | null } => {
+    const activeRules = getActivePityRules(rules);
+    const pityRarities = new Set(activeRules.map(rule => rule.rarityName));
+    const upgraded = [...drawnRarities];
+    const upgradedIndices = new Set<number>();
+    const triggeredRarities: string[] = [];
+    let simulationWarning: string | null = null;
+
+    for (const rule of activeRules) {
+        if ((counters[rule.rarityName] ?? 0) < rule.threshold || upgraded.includes(rule.rarityName)) continue;
+
+        // 昇格対象: 天井対象外かつ天井のレアリティより下位のレアリティで、まだ昇格していない枠 (末尾から探索)
+        // 天井のレアリティの順位が解決できない場合は、順位による制限を行わない
+        const pityRank = rarityRanks.get(rule.rarityName) ?? Number.POSITIVE_INFINITY;
+        let targetIndex = -1;
+        for (let i = upgraded.length - 1; i >= 0; i--) {
+            if (!upgradedIndices.has(i) && !pityRarities.has(upgraded[i]) && (rarityRanks.get(upgraded[i]) ?? -1) < pityRank) {
+                targetIndex = i;
+                break;
+            }
+        }
+
+        if (targetIndex === -1) {
+            const warning = `⚠️ 警告: レアリティ「${rule.rarityName}」の天井に到達しましたが、より下位のレアリティの枠がないため昇格しませんでした。`;
+            simulationWarning = simulationWarning ? `${simulationWarning}\n${warning}` : warning;
+            continue;
+        }
+
+        upgraded[targetIndex] = rule.rarityName;
+        upgradedIndices.add(targetIndex);
+        triggeredRarities.push(rule.rarityName);
+    }
+
+    return { drawnRarities: upgraded, triggeredRarities, simulationWarning };
+};
+
+/**
+ * 開封結果から天井カウンターを更新する。出現したレアリティは0に戻し、出なかったレアリティは1加算する。
+ * @param drawnRarities - 開封で得られた（天井適用後の）レアリティ名の配列
+ * @param rules - パックの天井ルール
+ * @param counters - 開封前のレアリティごとの未出現回数
+ * @returns 開封後のカウンター (天井ルールに含まれるレアリティのみ)
+ */
+export const advancePityCounters = (
+    drawnRarities: string[],
+    rules: PityRule[],
+    counters: Record<string, number>
+): Record<string, number> => {
+    const nextCounters: Record<string, number> = {};
+    for (const rule of getActivePityRules(rules)) {
+        nextCounters[rule.rarityName] = drawnRarities.includes(rule.rarityName)
+            ? 0
+            : (counters[rule.rarityName] ?? 0) + 1;
+    }
+    return nextCounters;
+};
+
+
+// 重複制御ポリシーの判定結果
+export interface DuplicateRestriction {
+    /** レアリティ名を受け取り、重複禁止であれば true を返す */
+    isDuplicateForbidden: (rarityName: string) => boolean;
+    simulationWarning: string | null;
+}
+
+/**
+ * パックの重複制御ポリシーから、指定レアリティで1パック内の重複が禁止されているかを判定する関数を生成する。
+ * 'forbidAboveRarity' の場合、パックのレアリティの表示設定（resolvePackRarityDefinitions。スロット構成にのみ現れるレアリティを含む）の
+ * 順位が基準レアリティより高いレアリティを上位とみなす。
+ * 基準レアリティが解決できない場合は、すべてのレアリティで重複を禁止し、警告を返す。
+ * @param pack - 対象のパック
+ * @returns 重複禁止の判定関数と警告
+ */
+export const createDuplicateRestriction = (pack: Pack): DuplicateRestriction => {
+    const policy = pack.duplicatePolicy;
+    if (!policy || policy.mode === 'allow') return { isDuplicateForbidden: () => false, simulationWarning: null };
+    if (policy.mode === 'forbid') return { isDuplicateForbidden: () => true, simulationWarning: null };
+
+    const ranks = new Map(resolvePackRarityDefinitions(pack).map(def => [def.rarityName, def.rank]));
+    const baseRank = ranks.get(policy.rarityName ?? '');
+    if (baseRank === undefined) {
+        return {
+            isDuplicateForbidden: () => true,
+            simulationWarning: `⚠️ 警告: 重複制御の基準レアリティ「${policy.rarityName ?? ''}」がパックのレアリティに見つかりません。すべてのレアリティで重複を禁止しました。`,
+        };
+    }
+
+    return {
+        isDuplicateForbidden: (rarityName: string) => (ranks.get(rarityName) ?? -1) > baseRank,
+        simulationWarning: null,
+    };
+};
+
+/**
+ * 1枠分のカードを、排出ウェイトに比例した確率で選択する。
+ * 重複が禁止されている場合は、同じパック内で選択済みのカードを除外して抽選する（非復元抽選）。
+ * 除外後に候補が残らない場合は重複を許可して抽選し、conflict を true として返す。
+ * @param cards - 抽選されたレアリティの収録カード
+ * @param pickedInPack - 同じパック内で選択済みのカードID
+ * @param forbidDuplicates - 重複を禁止するかどうか
+ * @param random - 使用する乱数生成器
+ * @returns 選択されたカード（候補がない場合は undefined）と、ポリシー違反の有無
+ */
+export const pickCardForSlot = (
+    cards: Card[],
+    pickedInPack: Set<string>,
+    forbidDuplicates: boolean,
+    random: RandomGenerator
+): { card: Card | undefined, conflict: boolean } => {
+    if (forbidDuplicates) {
+        const remainingCards = cards.filter(card => !pickedInPack.has(card.cardId));
+        const card = selectItemByWeight(remainingCards, getCardDrawWeight, random);
+        if (card) return { card, conflict: false };
+
+        const fallbackCard = selectItemByWeight(cards, getCardDrawWeight, random);
+        return { card: fallbackCard, conflict: fallbackCard !== undefined };
+    }
+    return { card: selectItemByWeight(cards, getCardDrawWeight, random), conflict: false };
+};
+
+
+/**
+ * 抽選済みのレアリティ列から、パックの収録カード索引を使用してカードを選択し、カードIDごとに集計する（同期処理）。
+ * 選択のルールと警告は pickCardsForRarities と同じ。
+ * @param cardIndex - パックの収録カード索引
+ * @param drawnRarities - 抽選されたレアリティ名の配列
+ * @param random - 使用する乱数生成器
+ * @param options - 重複制御などのオプション
+ * @returns カードIDごとの枚数と警告
+ */
+export const pickCardsFromIndex = (
+    cardIndex: PackCardIndex,
+    drawnRarities: string[],
+    random: RandomGenerator,
+    options: CardPickOptions = {}
+): { results: { cardId: string, count: number }[], simulationWarning: string | null } => {
     const drawnCardsMap = new Map<string, number>();
+    const cardsByRarity = cardIndex.cardsByRarity;
     let failedDrawCount = 0;
-    let failedRarities: { rarityName: string; count: number }[] = [];
+    const failedRarities: { rarityName: string; count: number }[] = [];
+    // 重複禁止ポリシーを満たせなかったレアリティごとの回数
+    const duplicateConflicts = new Map<string, number>();
+    // 絞り込み条件に一致するカードがなかった枠 (レアリティと条件) ごとの回数
+    const unmatchedFilters = new Map<string, number>();
+
+    const isDuplicateForbidden = options.isDuplicateForbidden ?? (() => false);
+    const packSize = options.packSize && options.packSize > 0 ? options.packSize : drawnRarities.length;
+    let pickedInPack = new Set<string>();
 
     for (let i = 0; i < drawnRarities.length; i++) {
         const drawnRarity = drawnRarities[i];
 
-        const availableCardIds = await getCardIdsByPackAndRarity(packId, drawnRarity);
+        // パックの境界で選択済みカードをリセットする
+        if (i % packSize === 0) {
+            pickedInPack = new Set<string>();
+        }
+
+        const availableCards = cardsByRarity.get(drawnRarity) ?? [];
 
-        let cardId = '';
+        const slotFilter = options.slotFilters?.[i];
+        const filterResult = applySlotCardFilter(availableCards, slotFilter);
+        if (filterResult.unmatched && slotFilter) {
+            const filterKey = `${drawnRarity} [${slotFilter.field}: ${slotFilter.value}]`;
+            unmatchedFilters.set(filterKey, (unmatchedFilters.get(filterKey) || 0) + 1);
+        }
+
+        const { card, conflict } = pickCardForSlot(filterResult.cards, pickedInPack, isDuplicateForbidden(drawnRarity), random);
+        const cardId = card?.cardId;
+        if (conflict) {
+            duplicateConflicts.set(drawnRarity, (duplicateConflicts.get(drawnRarity) || 0) + 1);
+        }
 
-        if (availableCardIds.length > 0) {
-            const randomIndex = Math.floor(Math.random() * availableCardIds.length);
-            cardId = availableCardIds[randomIndex];
-        } else {
+        if (cardId === undefined) {
             console.warn(`[WARNING] Draw #${i + 1}: No cards found for Rarity: ${drawnRarity}. Skipping.`);
             failedDrawCount++;
             const existingRarity = failedRarities.find(r => r.rarityName === drawnRarity);
@@ -242,6 +658,7 @@ export const simulatePackOpening = async (pack: Pack): Promise<{
             continue;
         }
 
+        pickedInPack.add(cardId);
         const currentCount = drawnCardsMap.get(cardId) || 0;
         drawnCardsMap.set(cardId, currentCount + 1);
     }
@@ -251,26 +668,218 @@ export const simulatePackOpening = async (pack: Pack): Promise<{
         count
     }));
 
-    if (failedDrawCount > 0) {
-        const failedDetails = failedRarities
-            .map(r => `${r.rarityName} (${r.count}回)`)
+    let pickWarning: string | null = null;
+    if (duplicateConflicts.size > 0) {
+        const conflictDetails = Array.from(duplicateConflicts.entries())
+            .map(([rarityName, count]) => `${rarityName} (収録${cardsByRarity.get(rarityName)?.length ?? 0}種類 / 重複${count}枚)`)
             .join(', ');
+        pickWarning =
+            `⚠️ 警告: 重複禁止の設定を満たすユニークなカードが不足しているため、重複して封入されました: **${conflictDetails}**。`;
+    }
+
+    if (unmatchedFilters.size > 0) {
+        const filterDetails = Array.from(unmatchedFilters.entries())
+            .map(([filterKey, count]) => `${filterKey} (${count}回)`)
+            .join(', ');
+        const filterWarning =
+            `⚠️ 警告: スロットの絞り込み条件に一致するカードがないため、条件を無視して抽選しました: **${filterDetails}**。`;
+        pickWarning = pickWarning ? `${pickWarning}\n${filterWarning}` : filterWarning;
+    }
+
+    if (failedDrawCount === 0) {
+        return { results, simulationWarning: pickWarning };
+    }
+
+    const failedDetails = failedRarities
+        .map(r => `${r.rarityName} (${r.count}回)`)
+        .join(', ');
+
+    const cardWarning =
+        `⚠️ 警告: ${failedDrawCount}枚の抽選が失敗しました。` +
+        `収録カードがないレアリティが抽選されました: **${failedDetails}**。` +
+        `パックにカードが登録されているか、収録カードの [Pack ID / Rarity] の紐付けを確認してください。`;
+
+    return { results, simulationWarning: pickWarning ? `${cardWarning}\n${pickWarning}` : cardWarning };
+};
 
-        const cardWarning =
-            `⚠️ 警告: ${failedDrawCount}枚の抽選が失敗しました。` +
-            `収録カードがないレアリティが抽選されました: **${failedDetails}**。` +
-            `パックにカードが登録されているか、収録カードの [Pack ID / Rarity] の紐付けを確認してください。`;
 
+/**
+ * 抽選済みのレアリティ列から、それぞれのレアリティに該当する収録カードを1枚ずつ選択し、カードIDごとに集計する。
+ * 同一レアリティ内のカードは排出ウェイト（drawWeight、未設定時は1）に比例した確率で選択される。
+ * 該当カードが存在しない（または全カードのウェイトが0の）レアリティは抽選失敗として警告に含める。
+ * 重複禁止のレアリティでユニークなカードが不足し、重複を避けられなかった場合も警告に含める。
+ * 枠ごとの絞り込み条件（slotFilters）が指定されている場合は条件に一致するカードから選択し、一致するカードがなければ条件を無視して警告に含める。
+ * パックの収録カード索引は `packCardIndexService` のキャッシュを使用する（未キャッシュの場合のみDBから一括で読み込む）。
+ * @param packId - 収録カードを検索するパックID
+ * @param drawnRarities - 抽選されたレアリティ名の配列
+ * @param random - 使用する乱数生成器
+ * @param options - 重複制御などのオプション
+ * @returns カードIDごとの枚数と警告
+ */
+export const pickCardsForRarities = async (
+    packId: string,
+    drawnRarities: string[],
+    random: RandomGenerator,
+    options: CardPickOptions = {}
+): Promise<{ results: { cardId: string, count: number }[], simulationWarning: string | null }> => {
+    const cardIndex = await packCardIndexService.fetchPackCardIndex(packId);
+    return pickCardsFromIndex(cardIndex, drawnRarities, random, options);
+};
+
+
+/**
+ * 1パックを開封し、封入設定と収録カード索引に基づいてカードのリストを生成する（DBアクセスを伴わない同期処理）。
+ * 天井カウンターを指定した場合は天井ルールを適用し、開封後のカウンターを結果に含める（永続化は行わない）。
+ * 同じパック設定・収録カード・シード・カウンターであれば、simulatePackOpening と同じ結果を返す。
+ * @param pack - 開封するパック
+ * @param cardIndex - パックの収録カード索引（構築済みデッキの場合は参照しない）
+ * @param options - シード・天井カウンターの指定
+ * @returns 抽選結果、警告、使用したシード値、および天井適用時のカウンター
+ */
+export const simulatePackOpeningSync = (
+    pack: Pack,
+    cardIndex: PackCardIndex,
+    options: PackOpeningSyncOptions = {}
+): SimulationResult => {
+    const seed = options.seed ?? generateSeed();
+    const random = createSeededRandom(seed);
+
+    // 構築済みデッキは抽選を行わず、収録内容をそのまま返す
+    if (pack.packType === 'ConstructedDeck') {
+        return { ...collectConstructedDeckResults(pack), seed };
+    }
+
+    const cardsPerPack = pack.cardsPerPack;
+
+    // cardsPerPack が未定義の場合はエラー（Boosterパック専用）
+    if (cardsPerPack === undefined) {
+        return {
+            results: [],
+            simulationWarning: "cardsPerPackが設定されていません。このパックはBoosterパックではありません。",
+            seed
+        };
+    }
+
+
+    // ------------------------------------
+    // 🎯 レアリティの抽選 (スロット構成/Advanced/Classic の分岐は simulateRarityDraws に委譲)
+    // ------------------------------------
+    const rarityDrawResult = simulateRarityDraws(pack, random);
+    let drawnRarities = rarityDrawResult.drawnRarities;
+    let simulationWarning = rarityDrawResult.simulationWarning;
+
+
+    // ------------------------------------
+    // 🎯 天井 (ピティ) の適用
+    // ------------------------------------
+    const pityRules = options.pityCounters ? getActivePityRules(pack.pityRules) : [];
+    let pityCounters: Record<string, number> | undefined;
+    let pityTriggeredRarities: string[] | undefined;
+    let initialPityCounters: Record<string, number> | undefined;
+
+    if (options.pityCounters && pityRules.length > 0) {
+        initialPityCounters = { ...options.pityCounters };
+        const rarityRanks = new Map(resolvePackRarityDefinitions(pack).map(def => [def.rarityName, def.rank]));
+        const pityResult = applyPityRules(drawnRarities, pityRules, options.pityCounters, rarityRanks);
+        drawnRarities = pityResult.drawnRarities;
+        pityTriggeredRarities = pityResult.triggeredRarities;
+        if (pityResult.simulationWarning) {
+            simulationWarning = simulationWarning ? `${simulationWarning}\n${pityResult.simulationWarning}` : pityResult.simulationWarning;
+        }
+
+        pityCounters = advancePityCounters(drawnRarities, pityRules, options.pityCounters);
+    }
+
+
+    // ------------------------------------
+    // 🎯 カードIDの取得と結果の集計 (共通ロジック)
+    // ------------------------------------
+    const duplicateRestriction = createDuplicateRestriction(pack);
+    if (duplicateRestriction.simulationWarning) {
+        simulationWarning = simulationWarning ? `${simulationWarning}\n${duplicateRestriction.simulationWarning}` : duplicateRestriction.simulationWarning;
+    }
+    const pickResult = pickCardsFromIndex(cardIndex, drawnRarities, random, {
+        isDuplicateForbidden: duplicateRestriction.isDuplicateForbidden,
+        slotFilters: rarityDrawResult.slotFilters,
+    });
+    const results = pickResult.results;
+    if (pickResult.simulationWarning) {
         // 既存の警告に追記
-        simulationWarning = simulationWarning ? `${simulationWarning}\n${cardWarning}` : cardWarning;
+        simulationWarning = simulationWarning ? `${simulationWarning}\n${pickResult.simulationWarning}` : pickResult.simulationWarning;
     }
 
     // 確定枚数によるパック総枚数の不一致は、simulateAdvancedOpening内で処理済みのため、
     // ここでは drawnRarities.lengthがcardsPerPackと一致するかどうかを最終チェックする
-    if (drawnRarities.length !== cardsPerPack) {
+    // (スロット構成の枠数の不一致は simulateSlotOpening 内で警告済み)
+    if (drawnRarities.length !== cardsPerPack && !isSlotLayoutActive(pack)) {
         const countWarning = `🛑 重大警告: パックの総枚数 (${cardsPerPack}枚) と抽選された枚数 (${drawnRarities.length}枚) が一致しません。ロジックを確認してください。`;
         simulationWarning = simulationWarning ? `${simulationWarning}\n${countWarning}` : countWarning;
     }
 
-    return { results, simulationWarning };
-};
\ No newline at end of file
+    return { results, simulationWarning, seed, pityCounters, pityTriggeredRarities, initialPityCounters };
+};
+
+/**
+ * 1パックを開封し、封入設定に基づいてカードのリストを生成する。
+ * 収録カード索引（キャッシュ）と天井カウンターを読み込んで同期の開封コア（simulatePackOpeningSync）に委譲し、
+ * 天井を適用した場合は開封後のカウンターを保存する（replayPityCounters による再現時は保存しない）。
+ * 同じパック設定・収録カード・シード・天井カウンターであれば、常に同じ結果を返す。
+ * @param pack - 開封するパック
+ * @param options - シード指定などのオプション
+ * @returns 抽選結果、警告、および使用したシード値
+ */
+export const simulatePackOpening = async (pack: Pack, options: PackOpeningOptions = {}): Promise<SimulationResult> => {
+    const seed = options.seed ?? generateSeed();
+    const packId = pack.packId;
+    const isBooster = pack.packType !== 'ConstructedDeck';
+
+    const isReplay = options.replayPityCounters !== undefined;
+    const hasPityRules = isBooster && (options.applyPity || isReplay) && getActivePityRules(pack.pityRules).length > 0;
+    const pityCounters = hasPityRules
+        ? options.replayPityCounters ?? (await pityService.fetchPityState(packId)).counters
+        : undefined;
+
+    const cardIndex = isBooster
+        ? await packCardIndexService.fetchPackCardIndex(packId)
+        : buildPackCardIndex(packId, []);
+
+    const result = simulatePackOpeningSync(pack, cardIndex, { seed, pityCounters });
+
+    if (result.pityCounters && !isReplay) {
+        await pityService.savePityStates([{ packId, counters: result.pityCounters, updatedAt: new Date().toISOString() }]);
+    }
+
+    return result;
+};
+
+/**
+ * 同期の開封コア（simulatePackOpeningSync）を連続して実行し、複数パックを開封する。
+ * 天井カウンターは1パックごとに更新され、次のパックに引き継がれる（単品で連続開封した場合と同じ結果になる）。
+ * DBアクセスを伴わないため、Web Worker 内でも実行できる。カウンターの永続化は呼び出し側で行う。
+ * @param pack - 開封するパック
+ * @param cardIndex - パックの収録カード索引
+ * @param seeds - パックごとのシード値（この数だけ開封する）
+ * @param options - 天井カウンター・進捗通知などのオプション
+ * @returns パックごとの開封結果と、開封後の天井カウンター
+ */
+export const simulateMultiplePackOpeningsSync = (
+    pack: Pack,
+    cardIndex: PackCardIndex,
+    seeds: number[],
+    options: MultiplePackOpeningSyncOptions = {}
+): MultiplePackOpeningResult => {
+    let currentCounters = options.pityCounters;
+    let updatedCounters: Record<string, number> | undefined;
+
+    const openings = seeds.map((seed, i) => {
+        const result = simulatePackOpeningSync(pack, cardIndex, { seed, pityCounters: currentCounters });
+        if (result.pityCounters) {
+            currentCounters = result.pityCounters;
+            updatedCounters = result.pityCounters;
+        }
+        options.onProgress?.(i + 1, seeds.length);
+        return result;
+    });
+
+    return { openings, pityCounters: updatedCounters };
+};
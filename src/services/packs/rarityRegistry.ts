@@ -0,0 +1,178 @@
+/**
+ * src/services/packs/rarityRegistry.ts
+ *
+ * * パックごとのレアリティの表示設定（並び順・色・略称・開封演出）を解決する純粋なロジック層モジュール。
+ * カードの rarity は自由入力の文字列のため、パックの封入設定の並び順（上から下へ低→高）を既定の順位とし、
+ * パックに保存された表示設定（Pack.rarityDefinitions）で上書きします。
+ *
+ * * 責務:
+ * 1. パックの封入設定と保存済みの表示設定から、レアリティごとの表示設定（RarityDefinition[]）を解決する
+ *    （resolvePackRarityDefinitions。編集画面向けに、封入設定とスロット構成からレアリティ名を集める collectRarityNames と、
+ *    レアリティ名の並びから解決する resolveRarityDefinitions も提供する）。
+ * 2. 複数パックの表示設定をまとめ、レアリティ名（とパックID）から表示設定・順位を引けるレジストリを作成する（createRarityRegistry）。
+ * 3. ソート・フィルタ用のフィールドアクセサ（'rarityRank' を順位に解決する）を作成する（createRarityRankAccessor）。
+ * 4. ソート・フィルタ設定のレアリティ項目を、レジストリの選択肢を持つ select 型に変換する（withRarityFilterOptions）。
+ */
+
+import type { Pack, PackSlot, RarityDefinition, FilterField, SortField } from '../../models/models';
+
+/** ソート・フィルタで使用するレアリティ順位のフィールド名 */
+export const RARITY_RANK_FIELD = 'rarityRank';
+
+// 既定のバッジ色（低 → 高）
+const DEFAULT_RARITY_PALETTE = ['#9e9e9e', '#43a047', '#1e88e5', '#8e24aa', '#fb8c00'];
+// レジストリに存在しないレアリティの色
+const UNKNOWN_RARITY_COLOR = '#9e9e9e';
+
+/**
+ * レアリティの表示設定を引くためのレジストリ
+ */
+export interface RarityRegistry {
+    /** 表示設定を取得する。packId を指定した場合はそのパックの設定を優先する */
+    getDefinition: (rarityName: string, packId?: string) => RarityDefinition;
+    /** 順位を取得する（大きいほど上位。未登録のレアリティは -1） */
+    getRank: (rarityName: string, packId?: string) => number;
+    /** 登録済みのレアリティ名（順位の低い順） */
+    rarityNames: string[];
+}
+
+/**
+ * 封入設定のレアリティ名（並び順: 低→高）に、スロット構成にのみ現れるレアリティ名を末尾に追加して返す。
+ * 重複と空の名前は除く。
+ * @param configNames - 封入設定のレアリティ名
+ * @param slotLayout - スロット構成
+ */
+export const collectRarityNames = (configNames: string[], slotLayout: PackSlot[] = []): string[] => {
+    const names = [...configNames];
+    slotLayout.forEach(slot => {
+        slot.rarityWeights.forEach(({ rarityName }) => names.push(rarityName));
+    });
+    return Array.from(new Set(names.filter(name => name.trim() !== '')));
+};
+
+/**
+ * パックの封入設定に現れるレアリティ名を、封入設定の並び順（低→高）で返す。
+ * Advanced ルールが有効な場合は advancedRarityConfig、それ以外は rarityConfig を基準とする。
+ */
+const getConfiguredRarityNames = (pack: Pack): string[] => {
+    const configs = pack.isAdvancedRulesEnabled && pack.advancedRarityConfig?.length
+        ? pack.advancedRarityConfig
+        : pack.rarityConfig;
+    return collectRarityNames(configs.map(config => config.rarityName), pack.slotLayout);
+};
+
+/**
+ * 並び順の位置から、既定の表示設定を作成する。
+ * 色はパレットを相対位置で割り当て、最上位は 'holo'、その次は 'glow'（3種類以上の場合）とする。
+ */
+const createDefaultDefinition = (rarityName: string, index: number, total: number): RarityDefinition => {
+    const ratio = total > 1 ? index / (total - 1) : 0;
+    const color = DEFAULT_RARITY_PALETTE[Math.round(ratio * (DEFAULT_RARITY_PALETTE.length - 1))];
+    const fromTop = total - 1 - index;
+    const revealTier = total > 1 && fromTop === 0
+        ? 'holo'
+        : (total >= 3 && fromTop === 1 ? 'glow' : 'none');
+    return { rarityName, rank: index, color, abbreviation: rarityName, revealTier };
+};
+
+/**
+ * レアリティ名の並び（低→高）と保存済みの表示設定から、表示設定を解決する。
+ * 保存済みの設定がないレアリティ・項目は、並び順から既定値を補う。
+ * @param names - レアリティ名（封入設定の並び順）
+ * @param savedDefinitions - 保存済みの表示設定
+ * @returns 表示設定（順位の低い順）
+ */
+export const resolveRarityDefinitions = (names: string[], savedDefinitions: RarityDefinition[] = []): RarityDefinition[] => {
+    const saved = new Map(savedDefinitions.map(def => [def.rarityName, def]));
+
+    return names
+        .map((name, index) => {
+            const defaults = createDefaultDefinition(name, index, names.length);
+            const stored = saved.get(name);
+            if (!stored) return defaults;
+            return {
+                ...defaults,
+                ...stored,
+                abbreviation: stored.abbreviation.trim() || defaults.abbreviation,
+                color: stored.color || defaults.color,
+            };
+        })
+        .sort((a, b) => a.rank - b.rank);
+};
+
+/**
+ * パックのレアリティの表示設定を解決する。
+ * 封入設定に現れるレアリティのみを対象とし、保存済みの設定がないレアリティは既定値を補う。
+ * @param pack - 対象のパック
+ * @returns 表示設定（順位の低い順）
+ */
+export const resolvePackRarityDefinitions = (pack: Pack): RarityDefinition[] =>
+    resolveRarityDefinitions(getConfiguredRarityNames(pack), pack.rarityDefinitions);
+
+/**
+ * 複数パックの表示設定からレジストリを作成する。
+ * パックIDを指定しない参照では、そのレアリティを最初に定義しているパックの設定を使用する。
+ * @param packs - 対象のパック一覧
+ * @returns レアリティのレジストリ
+ */
+export const createRarityRegistry = (packs: Pack[]): RarityRegistry => {
+    const byPack = new Map<string, Map<string, RarityDefinition>>();
+    const global = new Map<string, RarityDefinition>();
+
+    packs.forEach(pack => {
+        const definitions = resolvePackRarityDefinitions(pack);
+        byPack.set(pack.packId, new Map(definitions.map(def => [def.rarityName, def])));
+        definitions.forEach(def => {
+            if (!global.has(def.rarityName)) global.set(def.rarityName, def);
+        });
+    });
+
+    const getDefinition = (rarityName: string, packId?: string): RarityDefinition => {
+        const definition = (packId ? byPack.get(packId)?.get(rarityName) : undefined) ?? global.get(rarityName);
+        return definition ?? {
+            rarityName,
+            rank: -1,
+            color: UNKNOWN_RARITY_COLOR,
+            abbreviation: rarityName,
+            revealTier: 'none',
+        };
+    };
+
+    const rarityNames = Array.from(global.values())
+        .sort((a, b) => a.rank - b.rank || a.rarityName.localeCompare(b.rarityName))
+        .map(def => def.rarityName);
+
+    return {
+        getDefinition,
+        getRank: (rarityName, packId) => getDefinition(rarityName, packId).rank,
+        rarityNames,
+    };
+};
+
+/**
+ * 'rarityRank' をレアリティの順位に解決するフィールドアクセサを作成する。
+ * その他のフィールドは、アイテムのプロパティをそのまま返す。
+ * @param registry - レアリティのレジストリ
+ * @returns useSortFilter に渡すフィールドアクセサ
+ */
+export const createRarityRankAccessor = <T extends { rarity?: string; packId?: string }>(registry: RarityRegistry) =>
+    (item: T, field: SortField): string | number | null | undefined => {
+        if (field === RARITY_RANK_FIELD) {
+            return item.rarity ? registry.getRank(item.rarity, item.packId) : null;
+        }
+        return (item as unknown as Record<string, string | number | null | undefined>)[field] ?? null;
+    };
+
+/**
+ * フィルタ設定のレアリティ項目を、レジストリの選択肢を持つ select 型に変換する。
+ * 登録済みのレアリティがない場合は、元の設定（部分一致の text 型）のまま返す。
+ * @param fields - 元のフィルタ設定
+ * @param registry - レアリティのレジストリ
+ * @returns 変換後のフィルタ設定
+ */
+export const withRarityFilterOptions = (fields: FilterField[], registry: RarityRegistry): FilterField[] => {
+    if (registry.rarityNames.length === 0) return fields;
+    return fields.map(field => field.field === 'rarity'
+        ? { ...field, type: 'select', options: registry.rarityNames }
+        : field);
+};
@@ -0,0 +1,106 @@
+/**
+ * src/services/pity/pityService.ts
+ *
+ * * パックごとの天井（ピティ）カウンター（PackPityState）のデータベースアクセスとローカルキャッシュ管理を担うサービス層モジュール。
+ * * 責務:
+ * 1. PackPityState の取得・保存・全体置き換え（インポート用）を担う。
+ * 2. コレクション（'pityCounters'）において PackPityState のローカルキャッシュ（_pityCache）を管理する。
+ * 3. DB操作のロギングとエラーハンドリングを行う。
+ */
+import type { PackPityState } from '../../models/models';
+import {
+    fetchAllItemsFromCollection,
+    bulkPutItemsToCollection,
+    bulkDeleteItemsFromCollection,
+} from '../database/dbCore';
+
+let _pityCache: Map<string, PackPityState> | null = null;
+
+export type CollectionKey = 'pityCounters';
+
+// PackPityState は DB レコードとドメインモデルが同一構造のため、そのまま返す
+const toPityState = (record: PackPityState): PackPityState => record;
+
+
+export const pityService = {
+
+    // ----------------------------------------
+    // Cache Load / Read (キャッシュ/DBからの取得)
+    // ----------------------------------------
+
+    getAllPityStatesFromCache(): PackPityState[] {
+        return _pityCache ? Array.from(_pityCache.values()) : [];
+    },
+
+    /**
+     * コレクション（'pityCounters'）から全ての天井カウンターを取得します。
+     */
+    async fetchAllPityStates(): Promise<PackPityState[]> {
+        const collectionKey: CollectionKey = 'pityCounters';
+
+        if (_pityCache) {
+            console.log(`[PityService:fetchAllPityStates] ✅ Cache hit (all pity states).`);
+            return this.getAllPityStatesFromCache();
+        }
+
+        try {
+            const states = await fetchAllItemsFromCollection<PackPityState, PackPityState>(collectionKey, toPityState);
+            _pityCache = new Map(states.map(s => [s.packId, s]));
+            console.log(`[PityService:fetchAllPityStates] ✅ Loaded ${states.length} pity states from ${collectionKey}.`);
+            return states;
+        } catch (error) {
+            console.error(`[PityService:fetchAllPityStates] ❌ Failed to fetch from ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * 指定パックの天井カウンターを取得します。記録がない場合はすべて0回として扱う空のカウンターを返します。
+     */
+    async fetchPityState(packId: string): Promise<PackPityState> {
+        await this.fetchAllPityStates();
+        return _pityCache?.get(packId) ?? { packId, counters: {}, updatedAt: new Date().toISOString() };
+    },
+
+    // ----------------------------------------
+    // CRUD (保存・置き換え - バルク対応)
+    // ----------------------------------------
+
+    /**
+     * PackPityState[] をコレクション（'pityCounters'）に保存します。（バルク処理）
+     */
+    async savePityStates(itemsToSave: PackPityState[]): Promise<PackPityState[]> {
+        if (itemsToSave.length === 0) return [];
+
+        const collectionKey: CollectionKey = 'pityCounters';
+
+        try {
+            await bulkPutItemsToCollection<PackPityState>(collectionKey, itemsToSave);
+            itemsToSave.forEach(state => _pityCache?.set(state.packId, state));
+
+            console.log(`[PityService:savePityStates] ✅ Saved ${itemsToSave.length} pity states.`);
+            return itemsToSave;
+        } catch (error) {
+            console.error(`[PityService:savePityStates] ❌ Failed to save pity states to ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+
+    /**
+     * 全ての天井カウンターを、指定されたデータで置き換えます。（ZIPインポート用）
+     */
+    async replaceAllPityStates(states: PackPityState[]): Promise<void> {
+        const collectionKey: CollectionKey = 'pityCounters';
+
+        try {
+            const existingIds = (await this.fetchAllPityStates()).map(s => s.packId);
+            await bulkDeleteItemsFromCollection(collectionKey, existingIds);
+            _pityCache = new Map();
+            await this.savePityStates(states);
+            console.log(`[PityService:replaceAllPityStates] ✅ Replaced pity states (${states.length} packs).`);
+        } catch (error) {
+            console.error(`[PityService:replaceAllPityStates] ❌ Failed to replace pity states in ${collectionKey}:`, error);
+            throw error;
+        }
+    },
+};
@@ -0,0 +1,30 @@
+/**
+ * src/services/simulation/simulation.worker.ts
+ *
+ * * 重いシミュレーション（オッズ分析・複数パックの開封・目標達成までの開封・デッキのドロー）を UI スレッドの外で実行する Web Worker。
+ * `simulationWorkerService` がジョブごとに生成し、完了またはキャンセル時に破棄（terminate）する。
+ * * 責務:
+ * 1. メインスレッドから受け取ったジョブ（SimulationWorkerRequest）を `runSimulationJob` で実行する。
+ * 2. 実行中の進捗、完了時の結果、失敗時のエラーメッセージをメインスレッドに送信する。
+ */
+
+import { runSimulationJob } from './simulationJobs';
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from './simulationProtocol';
+
+const postResponse = (response: SimulationWorkerResponse) => {
+    self.postMessage(response);
+};
+
+self.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => {
+    const { jobId, job } = event.data;
+
+    try {
+        const result = runSimulationJob(job, (completed, total) => {
+            postResponse({ jobId, type: 'progress', completed, total });
+        });
+        postResponse({ jobId, type: 'result', result });
+    } catch (error) {
+        console.error(`[SimulationWorker:${job.type}] ❌ Simulation job failed:`, error);
+        postResponse({ jobId, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
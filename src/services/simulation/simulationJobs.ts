@@ -0,0 +1,43 @@
+/**
+ * src/services/simulation/simulationJobs.ts
+ *
+ * * シミュレーションジョブを同期的に実行するモジュール。
+ * Web Worker 内と、Worker を使用できない環境でのメインスレッドでの実行（フォールバック）の両方から使用する。
+ * * 責務:
+ * 1. ジョブの種類に応じて `packOddsAnalyzer` / `packSimulation` / `chaseSimulator` / `drawProbability` の純粋な処理を呼び出し、結果を返す。
+ * 2. 各処理の進捗通知を、ジョブ共通の進捗コールバックに中継する。
+ */
+
+import { analyzePackOdds } from '../packs/packOddsAnalyzer';
+import { simulateMultiplePackOpeningsSync } from '../packs/packSimulation';
+import { simulateChase } from '../packs/chaseSimulator';
+import { simulateDraws } from '../decks/drawProbability';
+import type { SimulationJob, SimulationJobResults, SimulationProgressCallback } from './simulationProtocol';
+
+/**
+ * シミュレーションジョブを同期的に実行する。
+ * @param job - 実行するジョブ
+ * @param onProgress - 進捗通知（省略可）
+ * @returns ジョブの種類に応じた結果
+ */
+export const runSimulationJob = <J extends SimulationJob>(
+    job: J,
+    onProgress?: SimulationProgressCallback
+): SimulationJobResults[J['type']] => {
+    const target: SimulationJob = job;
+    switch (target.type) {
+        case 'analyzePackOdds':
+            return analyzePackOdds(target.pack, target.cards, { ...target.options, onProgress }) as SimulationJobResults[J['type']];
+        case 'openPacks':
+            return simulateMultiplePackOpeningsSync(target.pack, target.cardIndex, target.seeds, {
+                pityCounters: target.pityCounters,
+                onProgress,
+            }) as SimulationJobResults[J['type']];
+        case 'simulateChase':
+            return simulateChase(target.pack, target.cardIndex, target.goal, { ...target.options, onProgress }) as SimulationJobResults[J['type']];
+        case 'simulateDraws':
+            return simulateDraws(target.pool, target.condition, target.timing, target.mulligan, { ...target.options, onProgress }) as SimulationJobResults[J['type']];
+        default:
+            throw new Error(`未対応のシミュレーションジョブです: ${(target as { type: string }).type}`);
+    }
+};
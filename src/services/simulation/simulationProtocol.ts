@@ -0,0 +1,100 @@
+/**
+ * src/services/simulation/simulationProtocol.ts
+ *
+ * * シミュレーション用 Web Worker とメインスレッドの間でやり取りするメッセージの型定義。
+ * ジョブの入力・結果はすべて構造化複製（structured clone）可能な値のみで構成する（関数は含めない）。
+ * * 責務:
+ * 1. Worker で実行できるジョブ（SimulationJob）の種類と入力を定義する。
+ * 2. ジョブの種類ごとの結果の型（SimulationJobResults）を定義する。
+ * 3. リクエスト（SimulationWorkerRequest）と、進捗・結果・エラーのレスポンス（SimulationWorkerResponse）を定義する。
+ */
+
+import type { Pack, Card } from '../../models/models';
+import type { PackCardIndex } from '../packs/packCardIndexService';
+import type { PackOddsAnalysis, PackOddsAnalysisOptions } from '../packs/packOddsAnalyzer';
+import type { MultiplePackOpeningResult } from '../packs/packSimulation';
+import type { ChaseGoal, ChaseSimulationOptions, ChaseSimulationResult } from '../packs/chaseSimulator';
+import type {
+    DrawPoolEntry, DrawCondition, DrawTimingOptions, MulliganRule, DrawSimulationOptions, DrawSimulationResult
+} from '../decks/drawProbability';
+
+/**
+ * 封入設定のオッズ分析ジョブ（analyzePackOdds）
+ */
+export interface AnalyzePackOddsJob {
+    type: 'analyzePackOdds';
+    pack: Pack;
+    cards: Card[];
+    options: Omit<PackOddsAnalysisOptions, 'onProgress'>;
+}
+
+/**
+ * 複数パックの開封ジョブ（simulateMultiplePackOpeningsSync）
+ */
+export interface OpenPacksJob {
+    type: 'openPacks';
+    pack: Pack;
+    cardIndex: PackCardIndex;
+    /** パックごとのシード値（この数だけ開封する） */
+    seeds: number[];
+    /** 開封前の天井カウンター（指定した場合のみ天井ルールを適用する） */
+    pityCounters?: Record<string, number>;
+}
+
+/**
+ * 目標達成までの開封シミュレーションジョブ（simulateChase）
+ */
+export interface SimulateChaseJob {
+    type: 'simulateChase';
+    pack: Pack;
+    cardIndex: PackCardIndex;
+    goal: ChaseGoal;
+    options: Omit<ChaseSimulationOptions, 'onProgress'>;
+}
+
+/**
+ * マリガンを含むドローのシミュレーションジョブ（simulateDraws）
+ */
+export interface SimulateDrawsJob {
+    type: 'simulateDraws';
+    pool: DrawPoolEntry[];
+    condition: DrawCondition;
+    timing: DrawTimingOptions;
+    mulligan: MulliganRule;
+    options: Omit<DrawSimulationOptions, 'onProgress'>;
+}
+
+export type SimulationJob = AnalyzePackOddsJob | OpenPacksJob | SimulateChaseJob | SimulateDrawsJob;
+
+export type SimulationJobType = SimulationJob['type'];
+
+/**
+ * ジョブの種類ごとの結果の型
+ */
+export interface SimulationJobResults {
+    analyzePackOdds: PackOddsAnalysis;
+    openPacks: MultiplePackOpeningResult;
+    simulateChase: ChaseSimulationResult;
+    simulateDraws: DrawSimulationResult;
+}
+
+/**
+ * ジョブの進捗通知
+ */
+export type SimulationProgressCallback = (completed: number, total: number) => void;
+
+/**
+ * メインスレッド → Worker
+ */
+export interface SimulationWorkerRequest {
+    jobId: string;
+    job: SimulationJob;
+}
+
+/**
+ * Worker → メインスレッド
+ */
+export type SimulationWorkerResponse =
+    | { jobId: string; type: 'progress'; completed: number; total: number }
+    | { jobId: string; type: 'result'; result: SimulationJobResults[SimulationJobType] }
+    | { jobId: string; type: 'error'; message: string };
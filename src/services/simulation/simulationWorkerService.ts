@@ -0,0 +1,170 @@
+/**
+ * src/services/simulation/simulationWorkerService.ts
+ *
+ * * 重いシミュレーションを Web Worker（simulation.worker.ts）で実行するサービス層モジュール。
+ * UI スレッドをブロックせずにオッズ分析や複数パックの開封を行い、進捗の通知とキャンセルを提供する。
+ * * 責務:
+ * 1. ジョブごとに Worker を生成してジョブを送信し、結果を Promise として返す（完了・失敗・キャンセル時に Worker を破棄する）。
+ * 2. Worker からの進捗メッセージを呼び出し側のコールバック（onProgress）に中継する。
+ * 3. AbortSignal によるキャンセルを受け付け、実行中の Worker を停止して AbortError で reject する。
+ * 4. Worker を使用できない環境（未対応・生成失敗・読み込み失敗）では、同じジョブをメインスレッドで実行する（フォールバック）。
+ */
+
+import { runSimulationJob } from './simulationJobs';
+import type {
+    SimulationJob,
+    SimulationJobResults,
+    SimulationProgressCallback,
+    SimulationWorkerRequest,
+    SimulationWorkerResponse,
+} from './simulationProtocol';
+
+/**
+ * runJob のオプション
+ */
+export interface SimulationRunOptions {
+    /** 進捗通知 */
+    onProgress?: SimulationProgressCallback;
+    /** キャンセル用のシグナル。abort されると AbortError で reject する */
+    signal?: AbortSignal;
+}
+
+// Worker の生成・読み込みに一度失敗した場合は、以降メインスレッドで実行する
+let _isWorkerUnavailable = false;
+
+// 補助関数: キャンセル時の例外を生成する
+const createAbortError = (): DOMException => new DOMException('シミュレーションがキャンセルされました。', 'AbortError');
+
+/**
+ * 例外がキャンセル（AbortError）によるものかを判定する。
+ * @param error - catch した例外
+ * @returns キャンセルによる例外であれば true
+ */
+export const isSimulationAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+// 補助関数: Worker を生成する（使用できない環境では null）
+const createSimulationWorker = (): Worker | null => {
+    if (_isWorkerUnavailable || typeof Worker === 'undefined') return null;
+    try {
+        return new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.warn('[SimulationWorkerService:createSimulationWorker] ⚠️ Failed to create worker. Falling back to main thread.', error);
+        _isWorkerUnavailable = true;
+        return null;
+    }
+};
+
+// 補助関数: ジョブをメインスレッドで実行する（呼び出し側の描画を先に行わせるため、次のイベントループに遅延させる）
+const runOnMainThread = <J extends SimulationJob>(
+    job: J,
+    options: SimulationRunOptions
+): Promise<SimulationJobResults[J['type']]> => new Promise((resolve, reject) => {
+    setTimeout(() => {
+        if (options.signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        try {
+            resolve(runSimulationJob(job, options.onProgress));
+        } catch (error) {
+            reject(error);
+        }
+    }, 0);
+});
+
+// 補助関数: ジョブを Worker で実行する（Worker の読み込みに失敗した場合はメインスレッドで再実行する）
+const runInWorker = <J extends SimulationJob>(
+    worker: Worker,
+    job: J,
+    options: SimulationRunOptions
+): Promise<SimulationJobResults[J['type']]> => new Promise((resolve, reject) => {
+    const jobId = crypto.randomUUID();
+    let hasResponded = false;
+
+    const cleanup = () => {
+        worker.terminate();
+        options.signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+        cleanup();
+        console.log(`[SimulationWorkerService:runJob] ⏹️ Cancelled ${job.type} job (${jobId}).`);
+        reject(createAbortError());
+    };
+
+    const fallbackToMainThread = (reason: unknown) => {
+        console.warn('[SimulationWorkerService:runJob] ⚠️ Worker is unavailable. Falling back to main thread.', reason);
+        _isWorkerUnavailable = true;
+        cleanup();
+        runOnMainThread(job, options).then(resolve, reject);
+    };
+
+    worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => {
+        const response = event.data;
+        if (response.jobId !== jobId) return;
+        hasResponded = true;
+
+        switch (response.type) {
+            case 'progress':
+                options.onProgress?.(response.completed, response.total);
+                break;
+            case 'result':
+                cleanup();
+                resolve(response.result as SimulationJobResults[J['type']]);
+                break;
+            case 'error':
+                cleanup();
+                reject(new Error(response.message));
+                break;
+        }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        // 応答前のエラーは Worker の読み込み失敗とみなし、メインスレッドで実行する
+        if (!hasResponded) {
+            fallbackToMainThread(event.message);
+            return;
+        }
+        cleanup();
+        reject(new Error(`シミュレーション Worker でエラーが発生しました: ${event.message}`));
+    };
+
+    options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+    try {
+        const request: SimulationWorkerRequest = { jobId, job };
+        worker.postMessage(request);
+    } catch (error) {
+        // 構造化複製できない値を含む場合など
+        fallbackToMainThread(error);
+    }
+});
+
+export const simulationWorkerService = {
+
+    /**
+     * シミュレーションジョブを Web Worker で実行します。Worker を使用できない環境ではメインスレッドで実行します。
+     * @param job - 実行するジョブ
+     * @param options - 進捗通知・キャンセル用シグナル
+     * @returns ジョブの種類に応じた結果（キャンセル時は AbortError で reject）
+     */
+    async runJob<J extends SimulationJob>(job: J, options: SimulationRunOptions = {}): Promise<SimulationJobResults[J['type']]> {
+        if (options.signal?.aborted) throw createAbortError();
+
+        const worker = createSimulationWorker();
+        try {
+            const result = worker
+                ? await runInWorker(worker, job, options)
+                : await runOnMainThread(job, options);
+            console.log(`[SimulationWorkerService:runJob] ✅ Completed ${job.type} job ${worker && !_isWorkerUnavailable ? 'in worker' : 'on main thread'}.`);
+            return result;
+        } catch (error) {
+            if (!isSimulationAbortError(error)) {
+                console.error(`[SimulationWorkerService:runJob] ❌ Failed to run ${job.type} job:`, error);
+            }
+            throw error;
+        }
+    },
+};
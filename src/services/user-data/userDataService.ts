@@ -86,11 +86,17 @@ export const userDataService = {
                     }
                 }
 
+                const mergedPackOpenerSettings = {
+                    ...DEFAULT_SETTINGS.packOpenerSettings,
+                    ...loadedSettings.packOpenerSettings,
+                };
+
                 return {
                     ...DEFAULT_SETTINGS,
                     ...loadedSettings,
                     gcSettings: mergedGcSettings,
                     gridSettings: mergedGridSettings,
+                    packOpenerSettings: mergedPackOpenerSettings,
                 } as PersistedUserSettings;
             }
             return DEFAULT_SETTINGS;
@@ -0,0 +1,74 @@
+/**
+ * src/stores/boxStore.ts
+ *
+ * * Box（ボックス商品）データのグローバルな状態管理を行うZustandストア。
+ * * 責務:
+ * 1. Boxコレクションの状態（boxes: Box[]）とロード状態（isLoading: boolean）を保持する。
+ * 2. `boxService` を介したDBからのデータフェッチ、保存、削除をトリガーし、メモリ状態を同期する。
+ * 3. 保存時に作成日時・更新日時を付与する。
+ */
+import { create } from 'zustand';
+import type { Box } from '../models/models';
+import { boxService } from '../services/boxes/boxService';
+
+
+export interface BoxStore {
+    boxes: Box[];
+    isLoading: boolean;
+
+    fetchAllBoxes: () => Promise<void>;
+    saveBox: (boxToSave: Box) => Promise<Box>;
+    deleteBox: (boxId: string) => Promise<void>;
+}
+
+export const useBoxStore = create<BoxStore>((set) => ({
+    boxes: [],
+    isLoading: false,
+
+    fetchAllBoxes: async () => {
+        set({ isLoading: true });
+        try {
+            const boxes = await boxService.fetchAllBoxes();
+            set({ boxes });
+        } catch (error) {
+            console.error('[BoxStore:fetchAllBoxes] ❌ Failed to fetch boxes:', error);
+            set({ boxes: [] });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    saveBox: async (boxToSave) => {
+        const boxWithTimestamp: Box = {
+            ...boxToSave,
+            updatedAt: new Date().toISOString(),
+        };
+
+        try {
+            const [savedBox] = await boxService.saveBoxes([boxWithTimestamp]);
+            set(state => {
+                const exists = state.boxes.some(b => b.boxId === savedBox.boxId);
+                return {
+                    boxes: exists
+                        ? state.boxes.map(b => b.boxId === savedBox.boxId ? savedBox : b)
+                        : [...state.boxes, savedBox],
+                };
+            });
+            console.log(`[BoxStore:saveBox] ✅ Box saved: ${savedBox.boxId}`);
+            return savedBox;
+        } catch (error) {
+            console.error('[BoxStore:saveBox] ❌ Failed to save box:', error);
+            throw new Error('ボックスの保存に失敗しました。');
+        }
+    },
+
+    deleteBox: async (boxId) => {
+        try {
+            await boxService.deleteBoxes([boxId]);
+            set(state => ({ boxes: state.boxes.filter(b => b.boxId !== boxId) }));
+        } catch (error) {
+            console.error('[BoxStore:deleteBox] ❌ Failed to delete box:', error);
+            throw new Error('ボックスの削除に失敗しました。');
+        }
+    },
+}));
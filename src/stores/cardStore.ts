@@ -10,12 +10,14 @@
  * 2. `cardService` を介したDBからのデータフェッチおよび永続化をトリガーする。
  * 3. `cardCsvIO` を介したCSVインポート/エクスポートロジックをトリガーし、結果をストアに反映する。
  * 4. ストアの状態を効率的かつイミュータブルに更新するための低レベル操作（syncCardToStoreなど）を提供する。
+ * 5. カードの保存・削除時に、パック開封シミュレーションが使用する収録カード索引（packCardIndexService）を無効化する。
  */
 import { create } from 'zustand';
 import type { Card } from '../models/models';
 import { cardService } from '../services/cards/cardService';
 import * as cardCsvIO from '../services/data-io/cardCsvIO';
 import type { CustomFieldDefinition } from '../services/data-io/dataIOUtils';
+import { packCardIndexService } from '../services/packs/packCardIndexService';
 
 export interface ImportResult {
     importedCount: number;
@@ -67,6 +69,13 @@ const initialState = {
     isLoading: false,
 };
 
+// 補助関数: 保存・削除したカードが属するパックの収録カード索引を無効化する
+// (パックIDが不明な削除や、カードが別パックへ移動した場合に備え、カードIDでも判定する)
+const invalidatePackCardIndexes = (cardIds: string[], packIds: string[] = []) => {
+    packCardIndexService.invalidatePacks(Array.from(new Set(packIds)));
+    packCardIndexService.invalidateCards(cardIds);
+};
+
 export const useCardStore = create<CardStore>((set, get) => ({
     ...initialState,
 
@@ -140,6 +149,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
             const savedCards = await cardService.saveCards([cardToSave]);
 
             if (savedCards.length > 0) {
+                invalidatePackCardIndexes([savedCards[0].cardId], [savedCards[0].packId]);
                 get().syncCardToStore(savedCards[0]);
             } else {
                 throw new Error("Card save failed, service returned no cards.");
@@ -155,6 +165,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
         try {
             // 1. ServiceにメインDBからの物理削除を委譲。
             await cardService.deleteCards([cardId]);
+            invalidatePackCardIndexes([cardId]);
 
             // 2. Storeから削除
             get().removeCardFromStore(cardId);
@@ -270,6 +281,8 @@ export const useCardStore = create<CardStore>((set, get) => ({
             const numUpdated = await cardService.updateCardsMultipleFields(cardIds, fieldsWithTimestamp);
 
             if (numUpdated > 0) {
+                // レアリティや排出ウェイトが変更される可能性があるため、収録カード索引を無効化する
+                invalidatePackCardIndexes(cardIds);
                 // 更新されたパックをストアに反映
                 set((state) => ({
                     cards: state.cards.map(card =>
@@ -333,6 +346,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
     },
 
     removeCardsFromStoreByPackId: (packId) => {
+        invalidatePackCardIndexes([], [packId]);
         set((state) => ({
             cards: state.cards.filter(card => card.packId !== packId)
         }));
@@ -348,6 +362,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
             if (cardsToFinalize.length === 0) return;
 
             const savedCards = await cardService.saveCards(cardsToFinalize);
+            invalidatePackCardIndexes(savedCards.map(c => c.cardId), savedCards.map(c => c.packId));
 
             get().bulkSyncCardsToStore(savedCards);
 
@@ -362,6 +377,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
         try {
             if (cardIds.length === 0) return;
             await cardService.deleteCards(cardIds);
+            invalidatePackCardIndexes(cardIds);
 
             get().bulkRemoveCardsFromStore(cardIds);
             console.log(`[CardStore:bulkDeleteCards] ✅ Successfully deleted ${cardIds.length} cards.`);
@@ -394,6 +410,7 @@ export const useCardStore = create<CardStore>((set, get) => ({
 
             // 3. DB保存はServiceに委譲。
             const savedCards = await cardService.saveCards(cardsToImport);
+            invalidatePackCardIndexes(savedCards.map(c => c.cardId), [packId]);
 
             // 4. Storeを同期
             get().bulkSyncCardsToStore(savedCards);
@@ -0,0 +1,73 @@
+/**
+ * src/stores/deckRuleStore.ts
+ *
+ * * デッキの構築ルール（DeckRule）のグローバルな状態管理を行うZustandストア。
+ * * 責務:
+ * 1. 構築ルールの一覧（rules: DeckRule[]、名前順）とロード状態（isLoading: boolean）を保持する。
+ * 2. `deckRuleService` を介したDBからのデータフェッチ、保存、削除をトリガーし、メモリ状態を同期する。
+ * 3. 保存時に更新日時を付与する。
+ */
+import { create } from 'zustand';
+import type { DeckRule } from '../models/models';
+import { deckRuleService } from '../services/decks/deckRuleService';
+
+
+export interface DeckRuleStore {
+    rules: DeckRule[];
+    isLoading: boolean;
+
+    fetchAllRules: () => Promise<void>;
+    saveRule: (ruleToSave: DeckRule) => Promise<DeckRule>;
+    deleteRule: (ruleId: string) => Promise<void>;
+}
+
+export const useDeckRuleStore = create<DeckRuleStore>((set) => ({
+    rules: [],
+    isLoading: false,
+
+    fetchAllRules: async () => {
+        set({ isLoading: true });
+        try {
+            const rules = await deckRuleService.fetchAllRules();
+            set({ rules });
+        } catch (error) {
+            console.error('[DeckRuleStore:fetchAllRules] ❌ Failed to fetch deck rules:', error);
+            set({ rules: [] });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    saveRule: async (ruleToSave) => {
+        const ruleWithTimestamp: DeckRule = {
+            ...ruleToSave,
+            updatedAt: new Date().toISOString(),
+        };
+
+        try {
+            const [savedRule] = await deckRuleService.saveRules([ruleWithTimestamp]);
+            set(state => {
+                const exists = state.rules.some(r => r.ruleId === savedRule.ruleId);
+                const rules = exists
+                    ? state.rules.map(r => r.ruleId === savedRule.ruleId ? savedRule : r)
+                    : [...state.rules, savedRule];
+                return { rules: rules.sort((a, b) => a.name.localeCompare(b.name)) };
+            });
+            console.log(`[DeckRuleStore:saveRule] ✅ Deck rule saved: ${savedRule.ruleId}`);
+            return savedRule;
+        } catch (error) {
+            console.error('[DeckRuleStore:saveRule] ❌ Failed to save deck rule:', error);
+            throw new Error('構築ルールの保存に失敗しました。');
+        }
+    },
+
+    deleteRule: async (ruleId) => {
+        try {
+            await deckRuleService.deleteRules([ruleId]);
+            set(state => ({ rules: state.rules.filter(r => r.ruleId !== ruleId) }));
+        } catch (error) {
+            console.error('[DeckRuleStore:deleteRule] ❌ Failed to delete deck rule:', error);
+            throw new Error('構築ルールの削除に失敗しました。');
+        }
+    },
+}));
@@ -11,13 +11,13 @@
  * 3. `deckJsonIO` を介したDeckデータのJSONインポート/エクスポートをトリガーする。
  * 4. 独立したモジュール（createDeckArchive）から履歴（history）/ゴミ箱（trash）関連の
  * アーカイブアクションを取得し、Storeのアクションとして公開する（窓口責務）。
- * 5. デッキの保存時に、未所有カードの有無（hasUnownedCards）を計算し、DBとStoreに反映する。
+ * 5. デッキの保存時に、未所有カードの有無（hasUnownedCards）と構築ルールの判定結果（isLegal）を計算し、DBとStoreに反映する。
  */
 
 import { create } from 'zustand';
 import type { Deck } from '../models/models';
 import { deckService } from '../services/decks/deckService';
-import { checkHasUnownedCards } from './utils/deckStoreUtils';
+import { checkHasUnownedCards, checkIsDeckLegal } from './utils/deckStoreUtils';
 import { exportDecksToJson, importDecksFromJson } from '../services/data-io/deckJsonIO';
 
 import {
@@ -132,11 +132,13 @@ export const useDeckStore = create<DeckStore>((set, get) => {
 
             // checkHasUnownedCards の呼び出しを引数一つに修正
             const finalHasUnownedCards = checkHasUnownedCards(deckToSave);
+            const finalIsLegal = checkIsDeckLegal(deckToSave);
 
             const deckWithUpdatedTimestamp: Deck = {
                 ...deckToSave,
                 updatedAt: now,
                 hasUnownedCards: finalHasUnownedCards,
+                isLegal: finalIsLegal,
             };
 
             try {
@@ -0,0 +1,90 @@
+/**
+ * src/stores/eventPoolStore.ts
+ *
+ * * イベントプール（EventPool）のグローバルな状態管理を行うZustandストア。
+ * * 責務:
+ * 1. イベントプールの一覧（pools: EventPool[]、新しい順）とロード状態（isLoading: boolean）を保持する。
+ * 2. poolId・作成日時を付与して EventPool を作成し、`eventPoolService` を介して永続化する。
+ * 3. プールの削除をトリガーし、メモリ状態を同期する。
+ * 4. プールのカードを所持カードに追加済みであること（mergedAt）を記録する。
+ */
+import { create } from 'zustand';
+import type { EventPool } from '../models/models';
+import { eventPoolService } from '../services/event-pools/eventPoolService';
+
+/**
+ * イベントプールの作成に必要な入力。poolId・createdAt は自動で付与する。
+ */
+export type EventPoolInput = Omit<EventPool, 'poolId' | 'createdAt'>;
+
+export interface EventPoolStore {
+    pools: EventPool[];
+    isLoading: boolean;
+
+    fetchAllPools: () => Promise<void>;
+    createPool: (input: EventPoolInput) => Promise<EventPool>;
+    deletePool: (poolId: string) => Promise<void>;
+    markPoolMerged: (poolId: string) => Promise<EventPool>;
+}
+
+export const useEventPoolStore = create<EventPoolStore>((set, get) => ({
+    pools: [],
+    isLoading: false,
+
+    fetchAllPools: async () => {
+        set({ isLoading: true });
+        try {
+            const pools = await eventPoolService.fetchAllPools();
+            set({ pools });
+        } catch (error) {
+            console.error('[EventPoolStore:fetchAllPools] ❌ Failed to fetch event pools:', error);
+            set({ pools: [] });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    createPool: async (input) => {
+        try {
+            const pool: EventPool = {
+                ...input,
+                poolId: crypto.randomUUID(),
+                createdAt: new Date().toISOString(),
+            };
+
+            await eventPoolService.savePools([pool]);
+            set(state => ({ pools: [pool, ...state.pools] }));
+            console.log(`[EventPoolStore:createPool] ✅ Created event pool: ${pool.poolId} (${pool.source})`);
+            return pool;
+        } catch (error) {
+            console.error('[EventPoolStore:createPool] ❌ Failed to create event pool:', error);
+            throw new Error('イベントプールの保存に失敗しました。');
+        }
+    },
+
+    deletePool: async (poolId) => {
+        try {
+            await eventPoolService.deletePools([poolId]);
+            set(state => ({ pools: state.pools.filter(p => p.poolId !== poolId) }));
+        } catch (error) {
+            console.error('[EventPoolStore:deletePool] ❌ Failed to delete event pool:', error);
+            throw new Error('イベントプールの削除に失敗しました。');
+        }
+    },
+
+    markPoolMerged: async (poolId) => {
+        const target = get().pools.find(p => p.poolId === poolId);
+        if (!target) throw new Error('イベントプールが見つかりません。');
+
+        try {
+            const pool: EventPool = { ...target, mergedAt: new Date().toISOString() };
+            await eventPoolService.savePools([pool]);
+            set(state => ({ pools: state.pools.map(p => p.poolId === poolId ? pool : p) }));
+            console.log(`[EventPoolStore:markPoolMerged] ✅ Marked event pool as merged: ${poolId}`);
+            return pool;
+        } catch (error) {
+            console.error('[EventPoolStore:markPoolMerged] ❌ Failed to update event pool:', error);
+            throw new Error('イベントプールの更新に失敗しました。');
+        }
+    },
+}));
@@ -0,0 +1,117 @@
+/**
+ * src/stores/formatListStore.ts
+ *
+ * * フォーマット（禁止・制限リスト、FormatList）のグローバルな状態管理を行うZustandストア。
+ * * 責務:
+ * 1. フォーマットの一覧（formatLists: FormatList[]、名前順）とロード状態（isLoading: boolean）を保持する。
+ * 2. `formatListService` を介したDBからのデータフェッチ、保存、削除、インポートをトリガーし、メモリ状態を同期する。
+ * 3. 保存時に更新日時を付与し、バージョンを施行日順に並べ替える。
+ * 4. カード一覧の規制区分バッジに使用する選択中のフォーマット（selectedFormatId）と、判定日（referenceDate）を保持する。
+ */
+import { create } from 'zustand';
+import type { FormatList } from '../models/models';
+import { formatListService } from '../services/decks/formatListService';
+import { sortFormatVersions } from '../services/decks/formatLegality';
+import { toLocalDateString } from '../utils/dateUtils';
+
+
+export interface FormatListStore {
+    formatLists: FormatList[];
+    isLoading: boolean;
+    /** カード一覧に規制区分を表示するフォーマット（null は表示しない） */
+    selectedFormatId: string | null;
+    /** 禁止・制限リストの判定日 (YYYY-MM-DD)。既定は今日 */
+    referenceDate: string;
+
+    fetchAllFormatLists: () => Promise<void>;
+    saveFormatList: (listToSave: FormatList) => Promise<FormatList>;
+    deleteFormatList: (formatId: string) => Promise<void>;
+    /** インポートしたフォーマットを保存する（同じIDのフォーマットは上書きする） */
+    importFormatLists: (lists: FormatList[]) => Promise<{ addedCount: number; updatedCount: number }>;
+    setSelectedFormatId: (formatId: string | null) => void;
+    setReferenceDate: (referenceDate: string) => void;
+}
+
+// 補助関数: 保存前の正規化 (更新日時の付与とバージョンの並べ替え)
+const normalizeFormatList = (list: FormatList): FormatList => ({
+    ...list,
+    versions: sortFormatVersions(list.versions),
+    updatedAt: new Date().toISOString(),
+});
+
+const sortByName = (lists: FormatList[]): FormatList[] =>
+    [...lists].sort((a, b) => a.name.localeCompare(b.name));
+
+export const useFormatListStore = create<FormatListStore>((set, get) => ({
+    formatLists: [],
+    isLoading: false,
+    selectedFormatId: null,
+    referenceDate: toLocalDateString(),
+
+    fetchAllFormatLists: async () => {
+        set({ isLoading: true });
+        try {
+            const formatLists = await formatListService.fetchAllFormatLists();
+            set({ formatLists });
+        } catch (error) {
+            console.error('[FormatListStore:fetchAllFormatLists] ❌ Failed to fetch format lists:', error);
+            set({ formatLists: [] });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    saveFormatList: async (listToSave) => {
+        try {
+            const [savedList] = await formatListService.saveFormatLists([normalizeFormatList(listToSave)]);
+            set(state => {
+                const exists = state.formatLists.some(f => f.formatId === savedList.formatId);
+                const formatLists = exists
+                    ? state.formatLists.map(f => f.formatId === savedList.formatId ? savedList : f)
+                    : [...state.formatLists, savedList];
+                return { formatLists: sortByName(formatLists) };
+            });
+            console.log(`[FormatListStore:saveFormatList] ✅ Format list saved: ${savedList.formatId}`);
+            return savedList;
+        } catch (error) {
+            console.error('[FormatListStore:saveFormatList] ❌ Failed to save format list:', error);
+            throw new Error('フォーマットの保存に失敗しました。');
+        }
+    },
+
+    deleteFormatList: async (formatId) => {
+        try {
+            await formatListService.deleteFormatLists([formatId]);
+            set(state => ({
+                formatLists: state.formatLists.filter(f => f.formatId !== formatId),
+                selectedFormatId: state.selectedFormatId === formatId ? null : state.selectedFormatId,
+            }));
+        } catch (error) {
+            console.error('[FormatListStore:deleteFormatList] ❌ Failed to delete format list:', error);
+            throw new Error('フォーマットの削除に失敗しました。');
+        }
+    },
+
+    importFormatLists: async (lists) => {
+        if (lists.length === 0) return { addedCount: 0, updatedCount: 0 };
+
+        const existingIds = new Set(get().formatLists.map(f => f.formatId));
+        try {
+            const savedLists = await formatListService.saveFormatLists(lists.map(normalizeFormatList));
+            const savedIds = new Set(savedLists.map(f => f.formatId));
+            set(state => ({
+                formatLists: sortByName([...state.formatLists.filter(f => !savedIds.has(f.formatId)), ...savedLists]),
+            }));
+            const updatedCount = savedLists.filter(f => existingIds.has(f.formatId)).length;
+            console.log(`[FormatListStore:importFormatLists] ✅ Imported ${savedLists.length} format lists.`);
+            return { addedCount: savedLists.length - updatedCount, updatedCount };
+        } catch (error) {
+            console.error('[FormatListStore:importFormatLists] ❌ Failed to import format lists:', error);
+            throw new Error('フォーマットのインポートに失敗しました。');
+        }
+    },
+
+    setSelectedFormatId: (formatId) => set({ selectedFormatId: formatId }),
+
+    setReferenceDate: (referenceDate) => set({ referenceDate }),
+}));
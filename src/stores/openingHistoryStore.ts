@@ -0,0 +1,98 @@
+/**
+ * src/stores/openingHistoryStore.ts
+ *
+ * * パック開封履歴（OpeningRecord）のグローバルな状態管理を行うZustandストア。
+ * * 責務:
+ * 1. 開封記録の一覧（records: OpeningRecord[]、新しい順）とロード状態（isLoading: boolean）を保持する。
+ * 2. 開封結果からカードのレアリティを解決して OpeningRecord を作成し、`openingHistoryService` を介して永続化する。
+ * 3. 記録の削除（個別・全件）をトリガーし、メモリ状態を同期する。
+ */
+import { create } from 'zustand';
+import type { OpeningRecord } from '../models/models';
+import { openingHistoryService } from '../services/opening-history/openingHistoryService';
+import { cardService } from '../services/cards/cardService';
+
+/**
+ * 開封記録の作成に必要な入力。recordId・openedAt は自動で付与し、results のレアリティはカード情報から解決する。
+ */
+export type OpeningRecordInput = Omit<OpeningRecord, 'recordId' | 'openedAt' | 'results'> & {
+    results: { cardId: string, count: number }[];
+};
+
+export interface OpeningHistoryStore {
+    records: OpeningRecord[];
+    isLoading: boolean;
+
+    fetchAllRecords: () => Promise<void>;
+    recordOpening: (input: OpeningRecordInput) => Promise<OpeningRecord>;
+    deleteRecord: (recordId: string) => Promise<void>;
+    clearHistory: () => Promise<void>;
+}
+
+export const useOpeningHistoryStore = create<OpeningHistoryStore>((set) => ({
+    records: [],
+    isLoading: false,
+
+    fetchAllRecords: async () => {
+        set({ isLoading: true });
+        try {
+            const records = await openingHistoryService.fetchAllRecords();
+            set({ records });
+        } catch (error) {
+            console.error('[OpeningHistoryStore:fetchAllRecords] ❌ Failed to fetch opening records:', error);
+            set({ records: [] });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+
+    recordOpening: async (input) => {
+        try {
+            const cards = await cardService.fetchCardsByIds(input.results.map(r => r.cardId));
+            const rarityMap = new Map(
+                cards.filter(card => card !== null).map(card => [card!.cardId, card!.rarity])
+            );
+
+            const record: OpeningRecord = {
+                ...input,
+                recordId: crypto.randomUUID(),
+                openedAt: new Date().toISOString(),
+                results: input.results.map(r => ({
+                    cardId: r.cardId,
+                    count: r.count,
+                    rarity: rarityMap.get(r.cardId) || '不明',
+                })),
+            };
+
+            await openingHistoryService.saveRecords([record]);
+            set(state => ({ records: [record, ...state.records] }));
+            console.log(`[OpeningHistoryStore:recordOpening] ✅ Recorded opening: ${record.recordId} (${record.packId})`);
+            return record;
+        } catch (error) {
+            console.error('[OpeningHistoryStore:recordOpening] ❌ Failed to record opening:', error);
+            throw new Error('開封履歴の保存に失敗しました。');
+        }
+    },
+
+    deleteRecord: async (recordId) => {
+        try {
+            await openingHistoryService.deleteRecords([recordId]);
+            set(state => ({ records: state.records.filter(r => r.recordId !== recordId) }));
+        } catch (error) {
+            console.error('[OpeningHistoryStore:deleteRecord] ❌ Failed to delete opening record:', error);
+            throw new Error('開封履歴の削除に失敗しました。');
+        }
+    },
+
+    clearHistory: async () => {
+        try {
+            // ストアが未ロードの場合も全件を削除できるよう、サービスから一覧を取得する
+            const records = await openingHistoryService.fetchAllRecords();
+            await openingHistoryService.deleteRecords(records.map(r => r.recordId));
+            set({ records: [] });
+        } catch (error) {
+            console.error('[OpeningHistoryStore:clearHistory] ❌ Failed to clear opening history:', error);
+            throw new Error('開封履歴の削除に失敗しました。');
+        }
+    },
+}));
@@ -10,11 +10,12 @@
  * 3. 永続化層（userDataService）を介した設定のロード、および変更時の保存をトリガーする。
  * 4. DB保存のための永続化可能な状態を抽出し、サービス層に渡す（getPersistableState）。
  * 5. GridDisplayDefault設定など、ネストされた設定オブジェクトのイミュータブルな更新を管理する。
+ * 6. パック開封画面の設定（最後に使用しためくり方・ヒット演出の基準）を更新し、永続化する。
  */
 
 import { create } from 'zustand';
 import { userDataService, DEFAULT_SETTINGS } from '../services/user-data/userDataService';
-import type { CurrentGameMode, UserDataState, GridDisplayDefault, PersistedUserSettings } from '../models/models';
+import type { CurrentGameMode, UserDataState, GridDisplayDefault, PackOpenerSettings, PersistedUserSettings } from '../models/models';
 
 
 // ----------------------------------------
@@ -38,6 +39,9 @@ export interface UserDataStore extends UserDataState {
         componentKey: 'cardPool', // 現時点では cardPool のみ
         updates: Partial<GridDisplayDefault>
     ) => Promise<void>;
+
+    /** パック開封画面の設定を更新するアクション */
+    setPackOpenerSettings: (updates: Partial<PackOpenerSettings>) => Promise<void>;
 }
 
 
@@ -58,6 +62,8 @@ const initialState: UserDataState = {
 
     // 既存: gridSettings の初期値を設定
     gridSettings: initialGridSettings,
+
+    packOpenerSettings: DEFAULT_SETTINGS.packOpenerSettings,
 };
 
 
@@ -75,6 +81,8 @@ const getPersistableState = (state: UserDataStore): PersistedUserSettings => ({
 
     // gridSettings を永続化対象に追加
     gridSettings: state.gridSettings,
+
+    packOpenerSettings: state.packOpenerSettings,
 });
 
 
@@ -106,6 +114,8 @@ export const useUserDataStore = create<UserDataStore>((set, get) => ({
 
                     // gridSettings をロード
                     gridSettings: settings.gridSettings,
+
+                    packOpenerSettings: settings.packOpenerSettings,
                 });
             }
             console.log("✅ User data initialized.");
@@ -155,6 +165,9 @@ export const useUserDataStore = create<UserDataStore>((set, get) => ({
 
             // gridSettings をインポート
             gridSettings: data.gridSettings,
+
+            // 旧形式のデータには含まれないため、未設定の項目は既定値で補う
+            packOpenerSettings: { ...DEFAULT_SETTINGS.packOpenerSettings, ...data.packOpenerSettings },
         });
         await userDataService.saveSettings(getPersistableState(get()));
         console.log("User data imported and saved.");
@@ -185,5 +198,13 @@ export const useUserDataStore = create<UserDataStore>((set, get) => ({
         // 永続化を実行
         await userDataService.saveSettings(getPersistableState(get()));
         console.log(`✅ Grid Display Default updated for ${componentKey}.`);
-    }
+    },
+
+    setPackOpenerSettings: async (updates) => {
+        set((state) => ({
+            packOpenerSettings: { ...state.packOpenerSettings, ...updates },
+        }));
+        await userDataService.saveSettings(getPersistableState(get()));
+        console.log('✅ Pack opener settings updated.');
+    },
 }));
\ No newline at end of file
@@ -3,15 +3,23 @@
  *
  * * DeckStoreに関連する、他のStore（主にCardPoolStore）への依存を含むビジネスロジックを分離・カプセル化するユーティリティモジュール。
  * * 責務:
- * 1. Deckに含まれるカードが、ユーザーのカードプールに十分な数存在するかどうか（未所持カードの存在）をチェックする（checkHasUnownedCards）。
+ * 1. Deckに含まれるカードが、ユーザーのカードプール（イベントプールに紐づくデッキはそのプール）に十分な数存在するかどうか
+ *    （未所持カードの存在）をチェックする（checkHasUnownedCards）。
  * 2. 依存するStoreから必要な状態を直接取得することで、DeckStoreアクションからの呼び出しを簡潔にする。
+ * 3. Deckが参照する構築ルール（DeckRuleStore）と、ルールが参照するフォーマット（FormatListStore）を満たしているかを判定する（checkIsDeckLegal）。
  */
 import type { Deck } from '../../models/models';
 import { useCardPoolStore } from '../cardPoolStore';
+import { useCardStore } from '../cardStore';
+import { useDeckRuleStore } from '../deckRuleStore';
+import { useFormatListStore } from '../formatListStore';
+import { useEventPoolStore } from '../eventPoolStore';
+import { evaluateDeckLegality } from '../../services/decks/deckLegality';
 
 /**
  * デッキに含まれるカードが、ユーザーのカードプールに十分な数存在するかをチェックする。
  * (必要な枚数に対し、所有数が不足しているカードがあれば true を返す)
+ * イベントプールに紐づくデッキは、そのプールのカード枚数を所有数として扱う（プールが見つからない場合はカードプールを使用する）。
  * @param deck チェック対象のDeckオブジェクト
  * @returns 1枚でも必要な枚数に対して所有数が不足しているカードがあれば true
  */
@@ -19,8 +27,13 @@ export const checkHasUnownedCards = (
     deck: Deck
 ): boolean => {
 
-    // 関数内部で useCardPoolStore から所有カードリストを取得
-    const ownedCards = useCardPoolStore.getState().ownedCards;
+    // 関数内部で useEventPoolStore / useCardPoolStore から所有カードリストを取得
+    const eventPool = deck.eventPoolId
+        ? useEventPoolStore.getState().pools.find(p => p.poolId === deck.eventPoolId)
+        : undefined;
+    const ownedCards = eventPool
+        ? new Map(eventPool.cards.map(({ cardId, count }) => [cardId, count]))
+        : useCardPoolStore.getState().ownedCards;
 
     // mainDeck, sideDeck, extraDeck のすべてのカードと枚数を取得
     const allDeckCardEntries = [
@@ -37,4 +50,25 @@ export const checkHasUnownedCards = (
         }
     }
     return false; // 全てのカードが十分な数所有されている
-};
\ No newline at end of file
+};
+
+/**
+ * デッキが参照する構築ルール（ruleId）を満たしているかを判定する。
+ * (ルールが設定されていないデッキは有効と判定する。禁止・制限リストは FormatListStore の判定日時点のものを使用する)
+ * @param deck チェック対象のDeckオブジェクト
+ * @returns ルールを満たしていれば true
+ */
+export const checkIsDeckLegal = (
+    deck: Deck
+): boolean => {
+
+    // 関数内部で useDeckRuleStore / useCardStore / useFormatListStore からルール・カード・フォーマットを取得
+    const rule = deck.ruleId
+        ? useDeckRuleStore.getState().rules.find(r => r.ruleId === deck.ruleId)
+        : undefined;
+    const cardMap = new Map(useCardStore.getState().cards.map(card => [card.cardId, card]));
+
+    const { formatLists, referenceDate } = useFormatListStore.getState();
+
+    return evaluateDeckLegality(deck, rule, cardMap, { formatLists, referenceDate }).isLegal;
+};
@@ -21,7 +21,7 @@ export const formatCardsToCsv = (cards: Card[]): string => {
 
     // Cardのプロパティを安全に扱うためのキーリストを定義
     const headers: (keyof Card)[] = [
-        'cardId', 'packId', 'number', 'updatedAt',
+        'cardId', 'packId', 'number', 'drawWeight', 'updatedAt',
     ];
 
     // 値のフォーマットとエスケープ
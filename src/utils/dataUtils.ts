@@ -10,10 +10,16 @@
  * 2. 欠落しているフィールドをデフォルト値で補完する汎用ロジックを提供する（applyDefaultsIfMissing）。
  * 3. Deck、Pack、Cardの各コアモデルについて、完全な初期デフォルトデータオブジェクトを生成する（createDefaultDeck, createDefaultPack, createDefaultCard）。
  * 4. カスタムフィールドの設定オブジェクトを生成するヘルパーロジックを提供する（createDefaultFieldSettings）。
+ * 5. ボックス商品（Box）の初期データを生成する（createDefaultBox）。
+ * 6. 構築済みデッキ（ConstructedDeck）パックの収録内容から、対応するDeckを生成する（createDeckFromConstructedPack）。
+ * 7. カードの排出ウェイト（drawWeight）の既定値の補完と、入力値の正規化を行う（getCardDrawWeight, parseCardDrawWeight）。
+ * 8. イベントプール（EventPool）の内容から、プールに紐づくDeckを生成する（createDeckFromEventPool）。
+ * 9. デッキの構築ルール（DeckRule）の初期データを生成する（createDefaultDeckRule）。
+ * 10. フォーマット（禁止・制限リスト）の初期データを生成する（createDefaultFormatList）。
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { Deck, DeckFieldSettings, Pack, PackFieldSettings, CardFieldSettings, Card, FieldSetting } from '../models/models';
+import type { Deck, DeckFieldSettings, Pack, PackFieldSettings, CardFieldSettings, Card, FieldSetting, Box, EventPool, DeckRule, FormatList } from '../models/models';
 
 /**
  * 汎用的なUUID (v4) を生成する関数。
@@ -102,6 +108,57 @@ export const createDefaultDeck = (id?: string): Deck => {
     };
 }
 
+/**
+ * 構築済みデッキ（ConstructedDeck）パックの収録内容から、新しいDeckを生成します。
+ * 収録カードはすべてメインデッキに格納されます。
+ */
+export const createDeckFromConstructedPack = (pack: Pack): Deck => {
+    const mainDeck = new Map<string, number>();
+    for (const { cardId, count } of pack.constructedDeckCards ?? []) {
+        if (!cardId || count <= 0) continue;
+        mainDeck.set(cardId, (mainDeck.get(cardId) || 0) + count);
+    }
+
+    const totalCards = Array.from(mainDeck.values()).reduce((sum, count) => sum + count, 0);
+
+    return {
+        ...createDefaultDeck(),
+        name: pack.name,
+        imageUrl: pack.imageUrl,
+        imageColor: pack.imageColor,
+        series: pack.series,
+        description: pack.description,
+        uniqueCards: mainDeck.size,
+        totalCards,
+        mainDeck,
+    };
+};
+
+/**
+ * イベントプール（EventPool）の内容から、新しいDeckを生成します。
+ * プールのカードはすべてメインデッキに格納されるため、デッキ編集画面で不要なカードを減らして構築します。
+ * 生成したデッキは eventPoolId でプールに紐づき、デッキ編集画面で使えるカードはプールの内容に限定されます。
+ */
+export const createDeckFromEventPool = (pool: EventPool): Deck => {
+    const mainDeck = new Map<string, number>();
+    for (const { cardId, count } of pool.cards) {
+        if (!cardId || count <= 0) continue;
+        mainDeck.set(cardId, (mainDeck.get(cardId) || 0) + count);
+    }
+
+    const totalCards = Array.from(mainDeck.values()).reduce((sum, count) => sum + count, 0);
+
+    return {
+        ...createDefaultDeck(),
+        name: pool.name,
+        description: `イベントプール「${pool.name}」から作成`,
+        eventPoolId: pool.poolId,
+        uniqueCards: mainDeck.size,
+        totalCards,
+        mainDeck,
+    };
+};
+
 
 /**
  * 新しいパックの初期データを生成し、UUIDを付与します。（PackEditで使用する詳細なデフォルト値）
@@ -185,4 +242,97 @@ export const createDefaultCard = (packId: string): Card => {
         updatedAt: now,
         // Card のカスタムフィールドの値 (num_1, str_1など) は Pack と同様に省略
     };
-}
\ No newline at end of file
+}
+
+
+/**
+ * 新しいボックス商品の初期データを生成します。
+ * @param packId - 参照する Booster パックのID
+ */
+export const createDefaultBox = (packId: string = ''): Box => {
+    const now = new Date().toISOString();
+    return {
+        boxId: generateId(),
+        name: '新規ボックス',
+        packId,
+        packCount: 24,
+        price: 0,
+        guarantees: [],
+        caps: [],
+        description: '',
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/**
+ * 新しい構築ルール（DeckRule）を、制限のない初期値で生成します。
+ * @returns 新しいDeckRuleオブジェクト
+ */
+export const createDefaultDeckRule = (): DeckRule => {
+    const now = new Date().toISOString();
+    return {
+        ruleId: generateId(),
+        name: '新規ルール',
+        description: '',
+        areaSizes: {
+            mainDeck: { min: null, max: null },
+            sideDeck: { min: null, max: null },
+            extraDeck: { min: null, max: null },
+        },
+        maxCopiesPerCard: null,
+        maxCopiesPerName: null,
+        requiredTags: [],
+        forbiddenTags: [],
+        requiredRarities: [],
+        forbiddenRarities: [],
+        fieldConstraints: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/**
+ * 新しいフォーマット（FormatList）を、指定した施行日の空のリストを1件持つ状態で生成します。
+ * @param effectiveDate - 最初のリストの施行日 (YYYY-MM-DD)
+ * @returns 新しいFormatListオブジェクト
+ */
+export const createDefaultFormatList = (effectiveDate: string): FormatList => {
+    const now = new Date().toISOString();
+    return {
+        formatId: generateId(),
+        name: '新規フォーマット',
+        description: '',
+        versions: [{ versionId: generateId(), effectiveDate, note: '', entries: [] }],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+
+/**
+ * カードの排出ウェイトが未設定の場合に使用する既定値。
+ */
+export const DEFAULT_CARD_DRAW_WEIGHT = 1;
+
+/**
+ * 同一レアリティ内での抽選に使用するカードの排出ウェイトを返す。
+ * 未設定または不正な値の場合は DEFAULT_CARD_DRAW_WEIGHT を返す。
+ * @param card - 対象のカード
+ * @returns 0以上の排出ウェイト
+ */
+export const getCardDrawWeight = (card: Pick<Card, 'drawWeight'>): number => {
+    const weight = card.drawWeight;
+    return typeof weight === 'number' && Number.isFinite(weight) && weight >= 0 ? weight : DEFAULT_CARD_DRAW_WEIGHT;
+};
+
+/**
+ * フォームやCSV/JSONから受け取った値を排出ウェイトとして正規化する。
+ * @param value - 入力値（文字列または数値）
+ * @returns 0以上の数値。空欄・不正な値の場合は null（未設定）
+ */
+export const parseCardDrawWeight = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const weight = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isFinite(weight) && weight >= 0 ? weight : null;
+};
@@ -29,4 +29,16 @@ export const formatShortDateTime = (dateString: string | null | undefined): stri
     }
 };
 
-// 例: 2024/01/10 15:30
\ No newline at end of file
+// 例: 2024/01/10 15:30
+
+/**
+ * 日付をローカル時刻の YYYY-MM-DD 形式の文字列に変換します（フォーマットの施行日・判定日に使用）。
+ * @param date 変換する日付（省略時は現在日時）
+ * @returns YYYY-MM-DD 形式の文字列
+ */
+export const toLocalDateString = (date: Date = new Date()): string => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
@@ -2,6 +2,7 @@
  * src/utils/imageUtils.ts (最終統合版)
  *
  * * 画像表示、プレースホルダー生成、画像合成、共通サイズ定数に関する全てのユーティリティモジュール。
+ * * デッキリスト画像（エリアごとのカード画像のグリッドと、デッキ名・キーカード・枚数のヘッダー）の描画も担当する。
  */
 import type { Card } from '../models/models'; // Card型がimageCompositorから必要
 
@@ -250,4 +251,241 @@ export const createCompositeImage = async (
 
         mainImg.src = mainImageUrl;
     });
-};
\ No newline at end of file
+};
+
+// =================================================================
+// V. デッキリスト画像の描画ロジック
+// =================================================================
+
+/** デッキリスト画像のレイアウト設定 */
+export interface DecklistImageLayout {
+    /** 1行に並べるカードの枚数 */
+    columns: number;
+    /** カード画像の幅 (高さはカードの縦横比から算出) */
+    cardWidth: number;
+    /** カード間の隙間 */
+    gap: number;
+    /** 画像端からの余白 */
+    padding: number;
+    backgroundColor: string;
+    textColor: string;
+    /** 枚数バッジの背景色 */
+    badgeColor: string;
+    /** ヘッダーにキーカードを表示するか */
+    showKeyCards: boolean;
+}
+
+export const DEFAULT_DECKLIST_IMAGE_LAYOUT: DecklistImageLayout = {
+    columns: 10,
+    cardWidth: 120,
+    gap: 8,
+    padding: 24,
+    backgroundColor: '#1e1e24',
+    textColor: '#ffffff',
+    badgeColor: '#e53935',
+    showKeyCards: true,
+};
+
+/** デッキリスト画像の1エリア分 (メイン/サイド/エクストラ) */
+export interface DecklistImageSection {
+    label: string;
+    totalCount: number;
+    cards: { card: Card | undefined; cardId: string; count: number }[];
+}
+
+/** デッキリスト画像に描画する内容 */
+export interface DecklistImageData {
+    title: string;
+    /** ヘッダーの2行目 (エリアごとの枚数・合計など) */
+    subtitle: string;
+    keyCards: Card[];
+    sections: DecklistImageSection[];
+}
+
+// 補助関数: 画像を読み込む (CORS 非対応などで読み込めない場合は null)
+const loadCanvasImage = (url: string): Promise<HTMLImageElement | null> =>
+    new Promise(resolve => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => resolve(null);
+        img.src = url;
+    });
+
+// 補助関数: getDisplayImageUrl と同じ配色で、プレースホルダーをキャンバスに直接描画する
+const drawCanvasPlaceholder = (
+    ctx: CanvasRenderingContext2D,
+    x: number, y: number, width: number, height: number,
+    text: string,
+    presetKey: string = 'default'
+) => {
+    const colorConfig = PLACEHOLDER_COLOR_PRESETS[presetKey.toLowerCase()] || PLACEHOLDER_COLOR_PRESETS['default'];
+    ctx.fillStyle = `#${colorConfig.bgColor}`;
+    ctx.fillRect(x, y, width, height);
+
+    // カード名を幅に収まるように1文字ずつ折り返して中央に描画
+    const fontSize = Math.max(10, Math.round(width / 8));
+    ctx.fillStyle = `#${colorConfig.textColor}`;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const maxLines = Math.max(1, Math.floor((height * 0.8) / (fontSize * 1.2)));
+    const lines: string[] = [];
+    let current = '';
+    for (const char of Array.from(text)) {
+        if (ctx.measureText(current + char).width > width * 0.85 && current) {
+            lines.push(current);
+            current = char;
+        } else {
+            current += char;
+        }
+    }
+    if (current) lines.push(current);
+    const visibleLines = lines.slice(0, maxLines);
+    const startY = y + height / 2 - ((visibleLines.length - 1) * fontSize * 1.2) / 2;
+    visibleLines.forEach((line, index) => ctx.fillText(line, x + width / 2, startY + index * fontSize * 1.2));
+};
+
+// 補助関数: カード画像 (読み込めない場合はプレースホルダー) を描画する
+const drawCardImage = (
+    ctx: CanvasRenderingContext2D,
+    card: Card | undefined,
+    cardId: string,
+    image: HTMLImageElement | null,
+    x: number, y: number, width: number, height: number
+) => {
+    if (image) {
+        ctx.drawImage(image, x, y, width, height);
+    } else {
+        drawCanvasPlaceholder(ctx, x, y, width, height, card?.name ?? cardId, card?.imageColor);
+    }
+};
+
+// 補助関数: 角丸の四角形のパスを作成する
+const traceRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+    ctx.beginPath();
+    ctx.moveTo(x + radius, y);
+    ctx.arcTo(x + width, y, x + width, y + height, radius);
+    ctx.arcTo(x + width, y + height, x, y + height, radius);
+    ctx.arcTo(x, y + height, x, y, radius);
+    ctx.arcTo(x, y, x + width, y, radius);
+    ctx.closePath();
+};
+
+/**
+ * デッキリスト画像を描画し、PNG の Data URL を返す。
+ * ヘッダー (デッキ名・枚数・キーカード) の下に、エリアごとにカード画像をグリッドで並べ、各カードに枚数バッジを付ける。
+ * 画像URLがないカード、または画像を読み込めないカードは、getDisplayImageUrl と同じ配色のプレースホルダーを描画する。
+ * @param data - 描画する内容
+ * @param layout - レイアウト設定
+ * @returns PNG の Data URL
+ */
+export const createDecklistImage = async (
+    data: DecklistImageData,
+    layout: DecklistImageLayout = DEFAULT_DECKLIST_IMAGE_LAYOUT
+): Promise<string> => {
+    const columns = Math.max(1, Math.floor(layout.columns));
+    const { cardWidth, gap, padding } = layout;
+    const cardHeight = Math.round(cardWidth * DEFAULT_CARD_PREVIEW_HEIGHT / DEFAULT_CARD_PREVIEW_WIDTH);
+
+    const titleFontSize = Math.max(20, Math.round(cardWidth / 4));
+    const subtitleFontSize = Math.round(titleFontSize * 0.6);
+    const sectionFontSize = Math.round(titleFontSize * 0.7);
+    const keyCardWidth = Math.round(cardWidth * 0.6);
+    const keyCardHeight = Math.round(keyCardWidth * DEFAULT_CARD_PREVIEW_HEIGHT / DEFAULT_CARD_PREVIEW_WIDTH);
+    const keyCards = layout.showKeyCards ? data.keyCards : [];
+
+    // --- サイズの算出 ---
+    const width = padding * 2 + columns * cardWidth + (columns - 1) * gap;
+    const headerTextHeight = titleFontSize * 1.3 + subtitleFontSize * 1.5;
+    const headerHeight = Math.max(headerTextHeight, keyCards.length > 0 ? keyCardHeight : 0);
+    const sectionHeaderHeight = sectionFontSize * 1.8;
+    const sectionHeights = data.sections.map(section => {
+        const rows = Math.ceil(section.cards.length / columns);
+        return sectionHeaderHeight + rows * cardHeight + Math.max(0, rows - 1) * gap;
+    });
+    const height = Math.ceil(padding * 2 + headerHeight + sectionHeights.reduce((sum, h) => sum + h + gap * 2, 0));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas がサポートされていません。');
+    }
+
+    // --- 画像の読み込み (同じカードは1回だけ読み込む) ---
+    const imageCache = new Map<string, Promise<HTMLImageElement | null>>();
+    const loadCardImage = (card: Card | undefined): Promise<HTMLImageElement | null> => {
+        if (!card || !card.imageUrl || card.imageUrl.trim() === '') return Promise.resolve(null);
+        const cached = imageCache.get(card.cardId);
+        if (cached) return cached;
+        const promise = loadCanvasImage(card.imageUrl.trim());
+        imageCache.set(card.cardId, promise);
+        return promise;
+    };
+    const [keyCardImages, sectionImages] = await Promise.all([
+        Promise.all(keyCards.map(loadCardImage)),
+        Promise.all(data.sections.map(section => Promise.all(section.cards.map(entry => loadCardImage(entry.card))))),
+    ]);
+
+    // --- 背景とヘッダー ---
+    ctx.fillStyle = layout.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = layout.textColor;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.font = `bold ${titleFontSize}px sans-serif`;
+    ctx.fillText(data.title, padding, padding, width - padding * 2 - keyCards.length * (keyCardWidth + gap));
+    ctx.font = `${subtitleFontSize}px sans-serif`;
+    ctx.globalAlpha = 0.8;
+    ctx.fillText(data.subtitle, padding, padding + titleFontSize * 1.3);
+    ctx.globalAlpha = 1;
+
+    keyCards.forEach((card, index) => {
+        const x = width - padding - (keyCards.length - index) * keyCardWidth - (keyCards.length - 1 - index) * gap;
+        drawCardImage(ctx, card, card.cardId, keyCardImages[index], x, padding, keyCardWidth, keyCardHeight);
+        ctx.strokeStyle = layout.textColor;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x, padding, keyCardWidth, keyCardHeight);
+    });
+
+    // --- エリアごとのカード ---
+    const badgeFontSize = Math.max(12, Math.round(cardWidth / 6));
+    let y = padding + headerHeight + gap * 2;
+
+    data.sections.forEach((section, sectionIndex) => {
+        ctx.fillStyle = layout.textColor;
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.font = `bold ${sectionFontSize}px sans-serif`;
+        ctx.fillText(`${section.label} (${section.totalCount})`, padding, y + sectionHeaderHeight / 2);
+        const cardsTop = y + sectionHeaderHeight;
+
+        section.cards.forEach((entry, index) => {
+            const x = padding + (index % columns) * (cardWidth + gap);
+            const cardY = cardsTop + Math.floor(index / columns) * (cardHeight + gap);
+            drawCardImage(ctx, entry.card, entry.cardId, sectionImages[sectionIndex][index], x, cardY, cardWidth, cardHeight);
+
+            // 枚数バッジ (右下)
+            const badgeText = `×${entry.count}`;
+            ctx.font = `bold ${badgeFontSize}px sans-serif`;
+            const badgeWidth = ctx.measureText(badgeText).width + badgeFontSize * 0.8;
+            const badgeHeight = badgeFontSize * 1.5;
+            const badgeX = x + cardWidth - badgeWidth - 4;
+            const badgeY = cardY + cardHeight - badgeHeight - 4;
+            ctx.fillStyle = layout.badgeColor;
+            traceRoundedRect(ctx, badgeX, badgeY, badgeWidth, badgeHeight, badgeHeight / 2);
+            ctx.fill();
+            ctx.fillStyle = '#ffffff';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(badgeText, badgeX + badgeWidth / 2, badgeY + badgeHeight / 2);
+        });
+
+        y += sectionHeights[sectionIndex] + gap * 2;
+    });
+
+    return canvas.toDataURL('image/png');
+};
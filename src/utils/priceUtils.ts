@@ -1,23 +1,36 @@
 import type { Pack, RarityConfig, AdvancedRarityConfig } from '../models/pack';
+import type { Card } from '../models/card';
+import { getCardDrawWeight } from './dataUtils';
 
 /**
  * Pricing utilities for packs/cards.
  *
- * Main exported function:
+ * Main exported functions:
  * - calculateCardPrice(pack, rarityName): returns the price per card for the specified rarity
+ * - calculateWeightedCardPrice(pack, card, packCards): returns the price of a specific card,
+ *   adjusted by its draw weight (drawWeight) relative to the other cards of the same rarity
+ *
+ * Also exported for analysis tools (e.g. the pack odds analyzer):
+ * - calculateExpectedCountsSimple / calculateExpectedCountsAdvanced / calculateExpectedCountsSlotLayout:
+ *   analytic expected counts per rarity
+ * - calculateExpectedCounts(pack): picks the right one of the above for the pack's active configuration
  *
  * Pricing model for boosters:
  * - Let X = pack.price, Y = cardsPerPack, n = number of rarity buckets
  * - E_i = expected number of cards of rarity i per pack
+ *   (for slot layouts, E_i = Σ over slots of w_i,s / W_s, the slot's normalized weight for rarity i)
  * - We adopt the constraint V_i * P_i = K (value inversely proportional to probability)
  * - This implies E_i * V_i = X / n (each rarity contributes equally to pack price on expectation)
+ * - Within a rarity, card j is drawn with probability w_j / W_i (W_i = sum of weights in rarity i).
+ *   Applying the same inverse-probability rule per card gives V_j = V_i * (W_i / m_i) / w_j,
+ *   where m_i is the number of drawable cards (weight > 0) in the rarity. Uniform weights reduce to V_j = V_i.
  *
  * For constructed decks:
  * - Simple division: price / totalCards
  */
 
-/** Internal: Rarity value calculation result */
-interface RarityValue {
+/** Rarity value calculation result */
+export interface RarityValue {
     rarityName: string;
     probability: number;
     expectedCount: number;
@@ -83,7 +96,7 @@ const convertFixedValueToSpecialSlot = (advancedConfig: AdvancedRarityConfig[]):
  * Calculate expected counts for simple rarity configuration.
  * All slots use the same probability distribution.
  */
-const calculateExpectedCountsSimple = (rarityConfig: RarityConfig[], cardsPerPack: number): RarityValue[] => {
+export const calculateExpectedCountsSimple = (rarityConfig: RarityConfig[], cardsPerPack: number): RarityValue[] => {
     return rarityConfig.map(cfg => ({
         rarityName: cfg.rarityName,
         probability: cfg.probability,
@@ -99,7 +112,7 @@ const calculateExpectedCountsSimple = (rarityConfig: RarityConfig[], cardsPerPac
  * 2. Special probability slots (特殊確率スロット)
  * 3. Basic probability slots (基本確率スロット)
  */
-const calculateExpectedCountsAdvanced = (pack: Pack): RarityValue[] => {
+export const calculateExpectedCountsAdvanced = (pack: Pack): RarityValue[] => {
     const advancedConfig = pack.advancedRarityConfig!;
     const slots = calculateSlotBreakdown(pack);
     
@@ -143,6 +156,52 @@ const calculateExpectedCountsAdvanced = (pack: Pack): RarityValue[] => {
     }));
 };
 
+/**
+ * Calculate expected counts for a slot layout.
+ * Each slot draws exactly one rarity from its own weighted table, so the expected count of a rarity
+ * is the sum of its normalized weight over all slots. Slots without positive weights contribute nothing.
+ * Rarities are listed in the pack's rarity config order, followed by any rarity only found in the layout.
+ * Rarities that no slot can draw are omitted, so they do not dilute the per-rarity share of the pack price.
+ */
+export const calculateExpectedCountsSlotLayout = (pack: Pack): RarityValue[] => {
+    const slots = pack.slotLayout ?? [];
+    const configs = pack.isAdvancedRulesEnabled && pack.advancedRarityConfig && pack.advancedRarityConfig.length > 0
+        ? pack.advancedRarityConfig
+        : pack.rarityConfig;
+
+    const expectedCounts = new Map<string, number>(configs.map(cfg => [cfg.rarityName, 0]));
+    slots.forEach(slot => {
+        const weights = slot.rarityWeights.filter(w => w.rarityName && w.weight > 0);
+        const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0);
+        weights.forEach(w => {
+            expectedCounts.set(w.rarityName, (expectedCounts.get(w.rarityName) || 0) + w.weight / totalWeight);
+        });
+    });
+
+    return Array.from(expectedCounts.entries())
+        .filter(([, expectedCount]) => expectedCount > 0)
+        .map(([rarityName, expectedCount]) => ({
+            rarityName,
+            probability: expectedCount / slots.length,
+            expectedCount,
+            valuePerCard: 0, // to be calculated later
+        }));
+};
+
+/**
+ * Calculate expected counts using the pack's active configuration
+ * (slot layout > advanced > simple, the same precedence as the pack simulation).
+ */
+export const calculateExpectedCounts = (pack: Pack): RarityValue[] => {
+    if (pack.isSlotLayoutEnabled && pack.slotLayout && pack.slotLayout.length > 0) {
+        return calculateExpectedCountsSlotLayout(pack);
+    }
+    if (pack.isAdvancedRulesEnabled && pack.advancedRarityConfig && pack.advancedRarityConfig.length > 0) {
+        return calculateExpectedCountsAdvanced(pack);
+    }
+    return calculateExpectedCountsSimple(pack.rarityConfig, pack.cardsPerPack ?? 0);
+};
+
 /**
  * Calculate per-rarity card values for a booster pack.
  * Uses the constraint: V_i * P_i = K and Σ(E_i * V_i) = price
@@ -152,12 +211,7 @@ const calculateBoosterRarityValues = (pack: Pack): RarityValue[] => {
     if (cardsPerPack <= 0) return [];
 
     // Calculate expected counts based on configuration type
-    let rarityValues: RarityValue[];
-    if (pack.isAdvancedRulesEnabled && pack.advancedRarityConfig && pack.advancedRarityConfig.length > 0) {
-        rarityValues = calculateExpectedCountsAdvanced(pack);
-    } else {
-        rarityValues = calculateExpectedCountsSimple(pack.rarityConfig, cardsPerPack);
-    }
+    const rarityValues = calculateExpectedCounts(pack);
 
     if (rarityValues.length === 0) return [];
 
@@ -208,3 +262,30 @@ export const calculateCardPrice = (pack: Pack, rarityName: string): number => {
     
     return rarity?.valuePerCard ?? 0;
 };
+
+/**
+ * Calculate the price of a specific card, taking its draw weight into account.
+ * Short-printed cards (lower weight than the rarity average) are valued higher, and vice versa.
+ * Cards with a weight of 0 are never drawn and are valued at 0.
+ *
+ * @param pack - The pack the card belongs to
+ * @param card - The card to calculate the price for
+ * @param packCards - All cards in the pack (used to compute the weight average within the rarity)
+ * @returns The weighted price of the card, or 0 if not found/invalid
+ */
+export const calculateWeightedCardPrice = (pack: Pack, card: Card, packCards: Card[]): number => {
+    const rarityPrice = calculateCardPrice(pack, card.rarity);
+
+    // Constructed decks contain fixed cards, so weights do not apply
+    if (pack.packType === 'ConstructedDeck') return rarityPrice;
+
+    const weight = getCardDrawWeight(card);
+    if (weight <= 0) return 0;
+
+    // Only drawable cards (weight > 0) share the rarity's expected value
+    const drawableCards = packCards.filter(c => c.rarity === card.rarity && getCardDrawWeight(c) > 0);
+    if (drawableCards.length === 0) return rarityPrice;
+
+    const averageWeight = drawableCards.reduce((sum, c) => sum + getCardDrawWeight(c), 0) / drawableCards.length;
+    return rarityPrice * averageWeight / weight;
+};
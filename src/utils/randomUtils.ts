@@ -9,6 +9,9 @@
  * 1. 重み付け抽選に使用するアイテムの型定義（WeightedItem）を提供する。
  * 2. 累積確率法に基づき、重み付けされたアイテムのリストから一つを選択する汎用関数を提供する（selectWeightedItem）。
  * 3. 浮動小数点誤差に対応した、堅牢な抽選ロジックを実装する。
+ * 4. シード指定可能な疑似乱数生成器（RandomGenerator）を提供し、抽選結果を再現可能にする。
+ * 5. 乱数生成器を差し替え可能な一様抽選（selectRandomItem）とシャッフル（shuffleArray）を提供する。
+ * 6. 要素ごとの相対的な重み（合計が1.0である必要はない）による抽選（selectItemByWeight）を提供する。
  */
 
 // 汎用的な設定型を定義
@@ -17,15 +20,56 @@ export interface WeightedItem {
     probability: number;   // 抽選確率 (0.0 から 1.0 の間)
 }
 
+/**
+ * 0.0 以上 1.0 未満の乱数を返す関数。Math.random と同じシグネチャを持つ。
+ * シミュレーション処理はすべてこの型を経由して乱数を取得する。
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * シード未指定時に使用するデフォルトの乱数生成器。
+ */
+export const defaultRandom: RandomGenerator = () => Math.random();
+
+/**
+ * 新しいシード値（32bit 符号なし整数）を生成する。
+ * @returns 0 以上 2^32 未満の整数
+ */
+export const generateSeed = (): number => {
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        return crypto.getRandomValues(new Uint32Array(1))[0];
+    }
+    return Math.floor(Math.random() * 0x100000000);
+};
+
+/**
+ * シード値から決定的な乱数生成器を作成する（mulberry32 アルゴリズム）。
+ * 同じシードからは常に同じ乱数列が得られる。
+ * @param seed - シード値（32bit 整数に丸められる）
+ * @returns シード付きの乱数生成器
+ */
+export const createSeededRandom = (seed: number): RandomGenerator => {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+};
+
 /**
  * 累積確率法に基づき、重み付けされたアイテムのリストから一つを選択する。
  * 汎用的なロジックであり、アプリケーション全体で再利用可能。
  * @param weightedItems - 確率設定オブジェクトの配列（確率の合計は1.0であること）
+ * @param random - 使用する乱数生成器（省略時は defaultRandom）
  * @returns 抽選によって決定されたアイテムのキー (string)
  */
-export const selectWeightedItem = (weightedItems: WeightedItem[]): string => {
+export const selectWeightedItem = (weightedItems: WeightedItem[], random: RandomGenerator = defaultRandom): string => {
     // 0.0 以上 1.0 未満の乱数を生成
-    const randomNumber = Math.random();
+    const randomNumber = random();
     let cumulativeProbability = 0;
 
     for (const item of weightedItems) {
@@ -41,4 +85,62 @@ export const selectWeightedItem = (weightedItems: WeightedItem[]): string => {
     // 浮動小数点誤差対策として、最後のアイテムを返す
     // (確率の合計が 1.0 に満たない、またはわずかに超過した場合でも必ず何かを返す)
     return weightedItems[weightedItems.length - 1].key;
-};
\ No newline at end of file
+};
+
+/**
+ * 配列から一様な確率で要素を一つ選択する。
+ * @param items - 抽選対象の配列
+ * @param random - 使用する乱数生成器（省略時は defaultRandom）
+ * @returns 選択された要素。配列が空の場合は undefined
+ */
+export const selectRandomItem = <T>(items: readonly T[], random: RandomGenerator = defaultRandom): T | undefined => {
+    if (items.length === 0) return undefined;
+    return items[Math.floor(random() * items.length)];
+};
+
+/**
+ * 要素ごとの相対的な重みに比例した確率で、配列から要素を一つ選択する。
+ * 重みが0以下の要素は選択されない。すべての重みが等しい場合は selectRandomItem と同じ要素を選ぶ。
+ * @param items - 抽選対象の配列
+ * @param getWeight - 要素の重みを返す関数
+ * @param random - 使用する乱数生成器（省略時は defaultRandom）
+ * @returns 選択された要素。配列が空、または重みの合計が0の場合は undefined
+ */
+export const selectItemByWeight = <T>(
+    items: readonly T[],
+    getWeight: (item: T) => number,
+    random: RandomGenerator = defaultRandom
+): T | undefined => {
+    const weights = items.map(item => Math.max(0, getWeight(item)));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    if (totalWeight <= 0) return undefined;
+
+    const threshold = random() * totalWeight;
+    let cumulativeWeight = 0;
+    let lastCandidate: T | undefined;
+
+    for (let i = 0; i < items.length; i++) {
+        if (weights[i] <= 0) continue;
+        cumulativeWeight += weights[i];
+        lastCandidate = items[i];
+        if (threshold < cumulativeWeight) return items[i];
+    }
+
+    // 浮動小数点誤差対策として、重みを持つ最後の要素を返す
+    return lastCandidate;
+};
+
+/**
+ * Fisher-Yates 法で配列をシャッフルした新しい配列を返す（元の配列は変更しない）。
+ * @param items - シャッフル対象の配列
+ * @param random - 使用する乱数生成器（省略時は defaultRandom）
+ * @returns シャッフル済みの新しい配列
+ */
+export const shuffleArray = <T>(items: readonly T[], random: RandomGenerator = defaultRandom): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
@@ -11,6 +11,7 @@
  * 2. number型フィールドのための比較関数（compareByNumber）を提供する。
  * 3. string型フィールドのための比較関数（compareByString）を提供する。
  * 4. 汎用的なソート実行関数（sortData）を提供し、numberソートをデフォルト/優先として適用する。
+ * 5. アクセサが数値を返すフィールド（例: レアリティの表示順位 rarityRank）は、文字列ではなく数値として比較する。
  */
 
 import type { SortField, SortOrder } from '../models/models';
@@ -80,6 +81,7 @@ export const compareByString = <T>(
  * @param fieldAccessor - データからソートフィールドの値を取得する関数
  * @returns ソートされた配列
  * * numberによるソートがデフォルト/優先ソートとなるようロジックを実装
+ * * number 以外のフィールドでも、アクセサが数値を返す場合は数値として比較する
  */
 export const sortData = <T>(
     data: T[],
@@ -103,7 +105,22 @@ export const sortData = <T>(
             );
         }
 
-        // 2. その他のフィールドによる文字列比較
+        // 2. アクセサが数値を返すフィールドは数値比較
+        const valueA = fieldAccessor(a, field);
+        const valueB = fieldAccessor(b, field);
+        if (typeof valueA === 'number' || typeof valueB === 'number') {
+            return compareByNumber(
+                a,
+                b,
+                order,
+                (item) => {
+                    const value = fieldAccessor(item, field);
+                    return typeof value === 'number' ? value : null;
+                }
+            );
+        }
+
+        // 3. その他のフィールドによる文字列比較
         return compareByString(
             a,
             b,